@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
-import { TrendingUp, TrendingDown, DollarSign, Zap, Clock, Activity } from 'lucide-react';
+import { TrendingUp, TrendingDown, DollarSign, Zap, Clock, Activity, Wallet } from 'lucide-react';
+import api from '../lib/api';
 
 interface TimeSeriesData {
   timestamp: string;
@@ -8,6 +9,18 @@ interface TimeSeriesData {
   avgLatency: number;
 }
 
+interface BudgetStatus {
+  scope: 'organization' | 'project';
+  scopeId: string;
+  monthlyLimit: number;
+  alertThresholds: number[];
+  hardStop: 'block' | 'downgrade';
+  spent: number;
+  percentUsed: number;
+  exceeded: boolean;
+  resetAt: string;
+}
+
 interface ModelUsage {
   model: string;
   requests: number;
@@ -18,6 +31,7 @@ interface ModelUsage {
 export default function Analytics() {
   const [timeRange, setTimeRange] = useState<'1h' | '24h' | '7d' | '30d'>('24h');
   const [timeSeriesData, setTimeSeriesData] = useState<TimeSeriesData[]>([]);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
   const [modelUsage] = useState<ModelUsage[]>([
     { model: 'openrouter-gpt-4o', requests: 1250, cost: 12.45, avgLatency: 1.2 },
     { model: 'openrouter-claude-sonnet', requests: 890, cost: 18.90, avgLatency: 1.5 },
@@ -39,6 +53,19 @@ export default function Analytics() {
     generateTimeSeriesData();
   }, [timeRange]);
 
+  useEffect(() => {
+    loadBudgets();
+  }, []);
+
+  async function loadBudgets() {
+    try {
+      const response = await api.get(`/v1/budgets`);
+      setBudgets(response.data.budgets || []);
+    } catch (err) {
+      console.error('Failed to load budgets:', err);
+    }
+  }
+
   function generateTimeSeriesData() {
     const now = Date.now();
     const intervals = timeRange === '1h' ? 12 : timeRange === '24h' ? 24 : timeRange === '7d' ? 7 : 30;
@@ -139,6 +166,61 @@ export default function Analytics() {
         </div>
       </div>
 
+      {/* Monthly Budgets */}
+      {budgets.length > 0 && (
+        <div className="card p-6">
+          <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-green-400" />
+            Monthly Budgets
+          </h2>
+          <div className="space-y-4">
+            {budgets.map((budget) => {
+              const barColor = budget.exceeded
+                ? 'bg-red-500'
+                : budget.percentUsed >= 80
+                  ? 'bg-yellow-500'
+                  : 'bg-green-500';
+
+              return (
+                <div key={`${budget.scope}:${budget.scopeId}`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-3">
+                      <span className="text-white font-medium">{budget.scopeId}</span>
+                      <span className="badge badge-info text-xs">{budget.scope}</span>
+                      {budget.exceeded && (
+                        <span className="badge badge-error text-xs">
+                          {budget.hardStop === 'block' ? 'Blocked' : 'Downgraded to L0'}
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-slate-400 text-sm">
+                      ${budget.spent.toFixed(2)} / ${budget.monthlyLimit.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="relative w-full bg-slate-700 rounded-full h-2">
+                    <div
+                      className={`${barColor} h-2 rounded-full transition-all duration-500`}
+                      style={{ width: `${Math.min(budget.percentUsed, 100)}%` }}
+                    />
+                    {budget.alertThresholds.filter((t) => t < 100).map((threshold) => (
+                      <div
+                        key={threshold}
+                        className="absolute top-0 h-2 w-px bg-slate-300"
+                        style={{ left: `${threshold}%` }}
+                        title={`Alert at ${threshold}%`}
+                      />
+                    ))}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {budget.percentUsed.toFixed(1)}% used · resets {new Date(budget.resetAt).toLocaleDateString()}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Request Timeline */}
       <div className="card p-6">
         <h2 className="text-xl font-bold text-white mb-6">Request Timeline</h2>
@@ -0,0 +1,20 @@
+-- Migration: 010_model_tool_capabilities
+-- Description: Flag models that support function/tool calling
+-- Requests that include `tools` are only routed to models with capabilities.tools = true
+
+UPDATE model_configs
+SET capabilities = capabilities || '{"tools": true}'::jsonb,
+    updated_at = CURRENT_TIMESTAMP
+WHERE id IN (
+    'openrouter-llama-3.3-70b-free',
+    'openrouter-grok-free',
+    'openrouter-gemini-flash',
+    'openrouter-gpt-4o-mini',
+    'openai-gpt-4o-mini',
+    'openrouter-claude-haiku',
+    'anthropic-haiku',
+    'openrouter-gpt-4o',
+    'openai-gpt-4o',
+    'openrouter-claude-sonnet',
+    'anthropic-sonnet'
+);
@@ -0,0 +1,18 @@
+-- Migration: 011_model_vision_capabilities
+-- Description: Flag models that accept image inputs
+-- Requests with image content parts are only routed to models with capabilities.vision = true
+
+UPDATE model_configs
+SET capabilities = capabilities || '{"vision": true}'::jsonb,
+    updated_at = CURRENT_TIMESTAMP
+WHERE id IN (
+    'openrouter-gemini-flash',
+    'openrouter-gpt-4o-mini',
+    'openai-gpt-4o-mini',
+    'openrouter-claude-haiku',
+    'anthropic-haiku',
+    'openrouter-gpt-4o',
+    'openai-gpt-4o',
+    'openrouter-claude-sonnet',
+    'anthropic-sonnet'
+);
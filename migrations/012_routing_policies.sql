@@ -0,0 +1,52 @@
+-- Migration: 012_routing_policies
+-- Description: Persist routing policies and the approval queue for policy-gated requests
+-- Policies are evaluated on every routed request (see src/routing/router.ts)
+
+CREATE TABLE IF NOT EXISTS routing_policies (
+    id VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    priority INTEGER NOT NULL DEFAULT 0,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_by VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_routing_policies_enabled ON routing_policies(enabled, priority DESC);
+
+-- Requests parked by a policy with requireApproval, replayed once an admin approves them
+CREATE TABLE IF NOT EXISTS routing_approvals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    policy_id VARCHAR(100) NOT NULL,
+    policy_name VARCHAR(255) NOT NULL,
+    risk VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'failed')),
+    request JSONB NOT NULL,
+    context JSONB NOT NULL,
+    requested_by VARCHAR(255),
+    decided_by VARCHAR(255),
+    decision_reason TEXT,
+    result JSONB,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    decided_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_routing_approvals_status ON routing_approvals(status, created_at DESC);
+
+-- Seed the built-in policies (same as DEFAULT_POLICIES in src/routing/policy.ts)
+INSERT INTO routing_policies (id, name, description, priority, enabled, rules)
+VALUES
+    ('cost-control', 'Cost Control Policy', 'Limit expensive model usage for non-critical tasks', 100, true,
+     '[{"condition": {"complexity": "low", "costThreshold": 0.01}, "action": {"type": "route-to", "targetLayer": "L0", "maxCost": 0.005}, "risk": "low"},
+       {"condition": {"costThreshold": 1.0}, "action": {"type": "escalate", "requireApproval": true, "alertUsers": ["admin"]}, "risk": "high"}]'),
+    ('business-hours', 'Business Hours Policy', 'Route to cheaper models outside business hours', 80, true,
+     '[{"condition": {"timeOfDay": {"start": 18, "end": 8}, "complexity": "low"}, "action": {"type": "downgrade", "targetLayer": "L0"}, "risk": "low"}]'),
+    ('security-sensitive', 'Security Sensitive Files', 'Require high-quality models for security-critical code', 200, true,
+     '[{"condition": {"filePattern": ".*(auth|security|crypto|password).*"}, "action": {"type": "route-to", "targetLayer": "L2"}, "risk": "critical"}]'),
+    ('test-files', 'Test File Policy', 'Use cheaper models for test file generation', 50, true,
+     '[{"condition": {"filePattern": ".*\\.test\\.(ts|js)$", "taskType": "code"}, "action": {"type": "route-to", "targetLayer": "L1", "maxCost": 0.05}, "risk": "low"}]')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,53 @@
+-- Migration: 013_deployment_sessions
+-- Description: Persist chat deployment sessions, approvals and per-command results
+-- Written by src/db/deployment-sessions.ts; sessions survive restarts and form the audit trail
+
+CREATE TABLE IF NOT EXISTS deployment_sessions (
+    session_id VARCHAR(100) PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    target_device VARCHAR(255) NOT NULL,
+    connection_id VARCHAR(255),
+    task_type VARCHAR(50),
+    task_description TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'confirmed', 'executing', 'completed', 'failed', 'cancelled')),
+    commands JSONB NOT NULL DEFAULT '[]'::jsonb,   -- Generated commands (id, command, description, riskLevel)
+    command_ids JSONB NOT NULL DEFAULT '[]'::jsonb, -- Commands selected for execution
+    error_message TEXT,
+    start_time TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    end_time TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployment_sessions_user ON deployment_sessions(user_id, start_time DESC);
+CREATE INDEX IF NOT EXISTS idx_deployment_sessions_device ON deployment_sessions(target_device, start_time DESC);
+CREATE INDEX IF NOT EXISTS idx_deployment_sessions_status ON deployment_sessions(status, start_time DESC);
+
+-- Every approve/reject decision, including the commands it covered
+CREATE TABLE IF NOT EXISTS deployment_approvals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id VARCHAR(100) NOT NULL REFERENCES deployment_sessions(session_id) ON DELETE CASCADE,
+    approved BOOLEAN NOT NULL,
+    command_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+    decided_by VARCHAR(255) NOT NULL,
+    reason TEXT,
+    decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployment_approvals_session ON deployment_approvals(session_id, decided_at);
+
+-- Output of each executed command
+CREATE TABLE IF NOT EXISTS deployment_command_results (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id VARCHAR(100) NOT NULL REFERENCES deployment_sessions(session_id) ON DELETE CASCADE,
+    command_id VARCHAR(100) NOT NULL,
+    success BOOLEAN NOT NULL,
+    stdout TEXT,
+    stderr TEXT,
+    exit_code INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    executed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployment_command_results_session ON deployment_command_results(session_id, executed_at);
+CREATE INDEX IF NOT EXISTS idx_deployment_command_results_executed ON deployment_command_results(executed_at DESC);
@@ -0,0 +1,9 @@
+-- Migration: 014_deployment_approval_policy
+-- Description: Approval expiry and approver role for multi-approver deployments
+-- See src/services/chat/approvalPolicy.ts for the rules applied per risk level
+
+ALTER TABLE deployment_sessions
+    ADD COLUMN IF NOT EXISTS approval_expires_at TIMESTAMPTZ;  -- Pending sessions are cancelled after this
+
+ALTER TABLE deployment_approvals
+    ADD COLUMN IF NOT EXISTS decided_by_role VARCHAR(50);      -- admin_users.role of the approver at decision time
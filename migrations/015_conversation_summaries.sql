@@ -0,0 +1,25 @@
+-- Migration: 015_conversation_summaries
+-- Description: Versioned conversation summaries covering turn ranges
+-- Written by src/services/chat/ConversationSummarizer.ts for the summary+recent strategy.
+-- Level 0 summaries cover messages; higher levels merge earlier summaries of very long threads.
+-- The active (not superseded) summaries are rendered into conversations.summary.
+
+CREATE TABLE IF NOT EXISTS conversation_summaries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    level INTEGER NOT NULL DEFAULT 0,
+    start_turn INTEGER NOT NULL,        -- First messages.turn_index covered
+    end_turn INTEGER NOT NULL,          -- Last messages.turn_index covered
+    content TEXT NOT NULL,
+    token_estimate INTEGER NOT NULL DEFAULT 0,
+    source_count INTEGER NOT NULL DEFAULT 0,  -- Messages (level 0) or summaries (level > 0) summarized
+    model_id VARCHAR(255),
+    superseded_by INTEGER,              -- Version of the higher-level summary that replaced this one
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (conversation_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_summaries_active
+ON conversation_summaries(conversation_id, start_turn)
+WHERE superseded_by IS NULL;
@@ -0,0 +1,58 @@
+-- ==========================================
+-- Migration: 016_embedding_dimensions
+-- Description: Record the model and dimension of every stored embedding
+-- Embedding providers produce vectors of different sizes (OpenAI 1536,
+-- nomic-embed-text 768, the in-process all-MiniLM-L6-v2 384). The embedding
+-- columns no longer fix a dimension; searches filter on embedding_dimension
+-- and embedding_model so vectors of different models are never compared.
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(255),
+ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+ALTER TABLE IF EXISTS agent_memories
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+ALTER TABLE IF EXISTS code_embeddings
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+-- Only when pgvector is installed (see 008_chat_context_minimal)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'vector') THEN
+        -- IVFFlat indexes need a fixed dimension
+        DROP INDEX IF EXISTS idx_messages_embedding;
+        DROP INDEX IF EXISTS idx_code_embeddings_vector;
+
+        IF EXISTS (SELECT 1 FROM information_schema.columns
+                   WHERE table_name = 'messages' AND column_name = 'embedding') THEN
+            ALTER TABLE messages ALTER COLUMN embedding TYPE vector;
+            UPDATE messages SET embedding_dimension = vector_dims(embedding)
+            WHERE embedding IS NOT NULL AND embedding_dimension IS NULL;
+        END IF;
+
+        IF EXISTS (SELECT 1 FROM information_schema.columns
+                   WHERE table_name = 'agent_memories' AND column_name = 'embedding' AND udt_name = 'vector') THEN
+            ALTER TABLE agent_memories ALTER COLUMN embedding TYPE vector;
+            UPDATE agent_memories SET embedding_dimension = vector_dims(embedding)
+            WHERE embedding IS NOT NULL AND embedding_dimension IS NULL;
+        END IF;
+
+        IF EXISTS (SELECT 1 FROM information_schema.columns
+                   WHERE table_name = 'code_embeddings' AND column_name = 'embedding') THEN
+            ALTER TABLE code_embeddings ALTER COLUMN embedding TYPE vector;
+            UPDATE code_embeddings SET embedding_dimension = vector_dims(embedding)
+            WHERE embedding IS NOT NULL AND embedding_dimension IS NULL;
+        END IF;
+    END IF;
+END $$;
+
+-- Replaces the IVFFlat indexes dropped above; vector search is scoped to one conversation
+CREATE INDEX IF NOT EXISTS idx_messages_embedding_dimension
+ON messages(conversation_id, embedding_dimension)
+WHERE embedding_dimension IS NOT NULL;
+
+COMMENT ON COLUMN messages.embedding_model IS 'Embedding model that produced messages.embedding';
+COMMENT ON COLUMN messages.embedding_dimension IS 'Length of messages.embedding; only equal dimensions are compared';
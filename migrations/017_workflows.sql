@@ -0,0 +1,35 @@
+-- Migration: 017_workflows
+-- Description: Persist workflow definitions and executions with step-level checkpoints
+-- Written by src/db/workflows.ts. Running executions record a heartbeat; an execution
+-- whose owner stopped heartbeating is resumed from its last completed step.
+
+CREATE TABLE IF NOT EXISTS agent_workflows (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    definition JSONB NOT NULL,           -- WorkflowDefinition (steps, triggers, variables)
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workflow_executions (
+    id VARCHAR(100) PRIMARY KEY,
+    workflow_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running'
+        CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+    variables JSONB NOT NULL DEFAULT '{}'::jsonb,      -- Checkpointed after every step
+    step_results JSONB NOT NULL DEFAULT '{}'::jsonb,   -- stepId -> StepResult
+    trigger_type VARCHAR(20) NOT NULL DEFAULT 'manual',
+    trigger_source TEXT,                               -- Cron expression or event name
+    dedupe_key TEXT UNIQUE,                            -- One execution per scheduled run
+    error TEXT,
+    owner VARCHAR(100),                                -- Instance running the execution
+    heartbeat_at TIMESTAMPTZ,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_workflow ON workflow_executions(workflow_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_started ON workflow_executions(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_running ON workflow_executions(heartbeat_at)
+WHERE status = 'running';
@@ -0,0 +1,19 @@
+-- ==========================================
+-- Migration: 018_policy_violations
+-- Description: Record content policy violations in request traces
+-- Projects enable prompt/output scanning through projects.config.security
+-- (scanPrompts, scanOutputs, redactSecrets, blockedKeywords, secretPatterns).
+-- Every LLM request with violations gets a trace listing them and an
+-- audit_logs entry (action 'content_policy.violation').
+
+ALTER TABLE request_traces
+ADD COLUMN IF NOT EXISTS policy_violations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_traces_policy_violations
+ON request_traces(created_at DESC)
+WHERE policy_violations <> '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_project
+ON audit_logs(project_id, timestamp DESC);
+
+COMMENT ON COLUMN request_traces.policy_violations IS 'Content policy violations of the prompt and output (type, pattern, field, position, action)';
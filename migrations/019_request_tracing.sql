@@ -0,0 +1,22 @@
+-- ==========================================
+-- Migration: 019_request_tracing
+-- Description: Trace every HTTP and MCP request
+-- Each /v1 request and MCP tool call now opens a trace (returned in the
+-- X-Trace-Id header). Generic HTTP requests and MCP tool calls get their own
+-- request types, and the response status is kept with the trace.
+
+ALTER TABLE request_traces
+DROP CONSTRAINT IF EXISTS request_traces_request_type_check;
+
+ALTER TABLE request_traces
+ADD CONSTRAINT request_traces_request_type_check
+CHECK (request_type IN ('route', 'chat', 'code-agent', 'mcp-cli', 'mcp-tool', 'http', 'analyze', 'create-project'));
+
+ALTER TABLE request_traces
+ADD COLUMN IF NOT EXISTS status_code INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_traces_errors
+ON request_traces(created_at DESC)
+WHERE error_info IS NOT NULL;
+
+COMMENT ON COLUMN request_traces.status_code IS 'HTTP status of the response (NULL for MCP tool calls)';
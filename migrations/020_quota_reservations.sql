@@ -0,0 +1,55 @@
+-- Migration: 020_quota_reservations
+-- Description: Daily token/cost quotas per organization, project and user with atomic reservations
+-- Written by src/quota/enforcer.ts. Each LLM request reserves its estimated cost
+-- against all three scopes in one transaction (a conditional UPDATE per scope),
+-- then commits the actual usage or releases the reservation on failure.
+
+CREATE TABLE IF NOT EXISTS quotas (
+    scope VARCHAR(20) NOT NULL CHECK (scope IN ('organization', 'project', 'user')),
+    scope_id TEXT NOT NULL,
+    max_tokens_daily BIGINT,                  -- NULL: unlimited
+    max_cost_daily NUMERIC(12, 6),            -- NULL: unlimited
+    used_tokens BIGINT NOT NULL DEFAULT 0,
+    used_cost NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    reserved_tokens BIGINT NOT NULL DEFAULT 0,    -- Held by requests in flight
+    reserved_cost NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    reset_at TIMESTAMPTZ NOT NULL DEFAULT DATE_TRUNC('day', NOW()) + INTERVAL '1 day',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (scope, scope_id)
+);
+
+CREATE TABLE IF NOT EXISTS quota_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scopes JSONB NOT NULL,                    -- [{ scope, scopeId }]
+    estimated_tokens BIGINT NOT NULL,
+    estimated_cost NUMERIC(12, 6) NOT NULL,
+    actual_tokens BIGINT,
+    actual_cost NUMERIC(12, 6),
+    status VARCHAR(20) NOT NULL DEFAULT 'reserved'
+        CHECK (status IN ('reserved', 'committed', 'released', 'expired')),
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_quota_reservations_open ON quota_reservations(expires_at)
+WHERE status = 'reserved';
+
+-- Keep per-user limits configured in the original user_quotas table
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_quotas' AND column_name = 'max_tokens_daily'
+    ) THEN
+        INSERT INTO quotas (scope, scope_id, max_tokens_daily, max_cost_daily)
+        SELECT DISTINCT ON (user_id) 'user', user_id, max_tokens_daily, max_cost_daily
+        FROM user_quotas
+        ORDER BY user_id, updated_at DESC
+        ON CONFLICT (scope, scope_id) DO NOTHING;
+    END IF;
+END $$;
+
+COMMENT ON TABLE quotas IS 'Daily token and cost limits and usage per organization, project and user';
+COMMENT ON TABLE quota_reservations IS 'Estimated usage held by in-flight LLM requests until committed or released';
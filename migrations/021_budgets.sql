@@ -0,0 +1,29 @@
+-- Migration: 021_budgets
+-- Description: Monthly cost budgets per organization and project
+-- Written by src/quota/budgets.ts. Spend is the sum of request_traces.total_cost
+-- for the calendar month (UTC), attributed through request_traces.project_id,
+-- or the trace's conversation for traces recorded before this migration.
+
+CREATE TABLE IF NOT EXISTS budgets (
+    scope VARCHAR(20) NOT NULL CHECK (scope IN ('organization', 'project')),
+    scope_id TEXT NOT NULL,
+    monthly_limit NUMERIC(12, 2) NOT NULL CHECK (monthly_limit >= 0),  -- USD
+    alert_thresholds INTEGER[] NOT NULL DEFAULT '{50,80,100}',         -- Percent of monthly_limit
+    hard_stop VARCHAR(20) NOT NULL DEFAULT 'block' CHECK (hard_stop IN ('block', 'downgrade')),
+    alerted_threshold INTEGER NOT NULL DEFAULT 0,                      -- Highest threshold alerted in alerted_period
+    alerted_period DATE,                                               -- First day of the month
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (scope, scope_id)
+);
+
+-- Project the request was routed for (requests without a conversation)
+ALTER TABLE request_traces
+ADD COLUMN IF NOT EXISTS project_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_traces_project_created
+ON request_traces(project_id, created_at DESC)
+WHERE project_id IS NOT NULL;
+
+COMMENT ON TABLE budgets IS 'Monthly cost budgets with alert thresholds and hard-stop behavior';
+COMMENT ON COLUMN request_traces.project_id IS 'Project the request was routed for';
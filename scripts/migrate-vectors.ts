@@ -0,0 +1,96 @@
+#!/usr/bin/env tsx
+/**
+ * Vector Store Migration
+ * Copies embeddings between vector store backends (pgvector <-> embedded)
+ *
+ * Usage:
+ *   npm run vectors:migrate -- --from pgvector --to embedded
+ *   npm run vectors:migrate -- --from embedded --to pgvector --collection messages
+ *
+ * Options:
+ *   --from, --to     pgvector | embedded
+ *   --collection     messages | agent_memories (default: both)
+ *   --path           embedded index directory (default: VECTOR_STORE_PATH)
+ *   --batch-size     vectors per batch (default: 500)
+ */
+
+import { parseArgs } from 'util';
+import { db } from '../src/db/postgres.js';
+import {
+    copyVectors,
+    createVectorStore,
+    VECTOR_COLLECTIONS,
+    type VectorCollection,
+    type VectorStoreBackend,
+} from '../src/services/vector/index.js';
+
+const BACKENDS: VectorStoreBackend[] = ['pgvector', 'embedded'];
+
+function fail(message: string): never {
+    console.error(`❌ ${message}`);
+    process.exit(1);
+}
+
+async function migrateVectors() {
+    const { values } = parseArgs({
+        options: {
+            from: { type: 'string' },
+            to: { type: 'string' },
+            collection: { type: 'string' },
+            path: { type: 'string' },
+            'batch-size': { type: 'string', default: '500' },
+        },
+    });
+
+    const from = values.from as VectorStoreBackend;
+    const to = values.to as VectorStoreBackend;
+    if (!BACKENDS.includes(from) || !BACKENDS.includes(to)) {
+        fail(`--from and --to must be one of: ${BACKENDS.join(', ')}`);
+    }
+    if (from === to) {
+        fail('--from and --to must be different backends');
+    }
+
+    const collections = values.collection
+        ? [values.collection as VectorCollection]
+        : VECTOR_COLLECTIONS;
+    if (!collections.every((c) => VECTOR_COLLECTIONS.includes(c))) {
+        fail(`--collection must be one of: ${VECTOR_COLLECTIONS.join(', ')}`);
+    }
+
+    const batchSize = parseInt(values['batch-size'] ?? '500', 10);
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+        fail('--batch-size must be a positive integer');
+    }
+
+    // The pgvector store queries through the shared pool; wait until it is connected
+    if (from === 'pgvector' || to === 'pgvector') {
+        const client = await db.getClient();
+        client.release();
+    }
+
+    const source = createVectorStore(from, { path: values.path });
+    const target = createVectorStore(to, { path: values.path });
+
+    console.log(`🔄 Copying vectors ${from} → ${to} (${collections.join(', ')})\n`);
+
+    const results = await copyVectors(source, target, {
+        collections,
+        batchSize,
+        onProgress: (collection, copied) => console.log(`  ${collection}: ${copied} read`),
+    });
+
+    console.log('');
+    for (const result of results) {
+        const skipped = result.read - result.written;
+        console.log(`✅ ${result.collection}: ${result.written} copied${skipped > 0 ? `, ${skipped} skipped (row not found)` : ''}`);
+    }
+
+    await db.close();
+}
+
+migrateVectors().catch(async (error) => {
+    console.error('❌ Vector migration failed:', error instanceof Error ? error.message : error);
+    await db.close();
+    process.exit(1);
+});
@@ -0,0 +1,133 @@
+/**
+ * Cron Expressions
+ * Parses standard 5-field cron expressions (minute hour day-of-month month
+ * day-of-week) for workflow `schedule` triggers. Times are evaluated in UTC.
+ *
+ * Each field accepts `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`). Day-of-week is 0-6 with 0 (or 7) = Sunday. As in
+ * standard cron, when both day fields are restricted a day matching either runs.
+ */
+
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    /** Both day fields restricted: match either (OR) */
+    dayOr: boolean;
+}
+
+export class CronParseError extends Error {
+    constructor(message: string, readonly expression: string) {
+        super(message);
+        this.name = 'CronParseError';
+    }
+}
+
+const FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day-of-month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day-of-week', min: 0, max: 7 },
+] as const;
+
+// Searching further finds nothing new (e.g. "0 0 30 2 *" never fires)
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(field: string, index: number, expression: string): Set<number> {
+    const { name, min, max } = FIELDS[index];
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new CronParseError(`Invalid ${name} step: ${part}`, expression);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            [start, end] = range.split('-').map(Number);
+        } else {
+            start = Number(range);
+            end = stepText === undefined ? start : max;
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new CronParseError(`Invalid ${name} value: ${part}`, expression);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parse a cron expression; throws CronParseError if it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new CronParseError(`Cron expression must have 5 fields: "${expression}"`, expression);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, i, expression));
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+
+    return {
+        expression,
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOr: fields[2] !== '*' && fields[4] !== '*',
+    };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dom = schedule.daysOfMonth.has(date.getUTCDate());
+    const dow = schedule.daysOfWeek.has(date.getUTCDay());
+    return schedule.dayOr ? dom || dow : dom && dow;
+}
+
+/**
+ * First time strictly after `after` (at minute precision) that matches the
+ * schedule, or null if it never fires
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | null {
+    const time = new Date(after.getTime());
+    time.setUTCSeconds(0, 0);
+    time.setUTCMinutes(time.getUTCMinutes() + 1);
+    const limit = Date.UTC(time.getUTCFullYear() + MAX_SEARCH_YEARS, time.getUTCMonth());
+
+    while (time.getTime() < limit) {
+        if (!schedule.months.has(time.getUTCMonth() + 1) || !matchesDay(schedule, time)) {
+            // Skip to the next day
+            time.setUTCHours(24, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(time.getUTCHours())) {
+            time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(time.getUTCMinutes())) {
+            time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+            continue;
+        }
+        return time;
+    }
+
+    return null;
+}
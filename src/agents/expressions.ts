@@ -0,0 +1,527 @@
+/**
+ * Workflow Expressions
+ * A small sandboxed expression language for `condition` and `transform`
+ * steps and step `when` guards. Expressions are parsed into an AST and
+ * interpreted; there is no `eval`, no assignment, no loops, and only the
+ * built-in functions below can be called.
+ *
+ * Syntax:
+ * - Literals: `42`, `1.5`, `'text'`, `"text"`, `true`, `false`, `null`,
+ *   arrays `[1, 2]` and objects `{ key: value }`
+ * - Names: `variables.x` (or just `x`), `steps.<stepId>.output`,
+ *   `steps.<stepId>.status`; member access with `.name` or `[expr]`.
+ *   Missing values are `null` rather than errors.
+ * - Operators: `! -` (unary), `* / %`, `+ -` (`+` concatenates strings),
+ *   `< <= > >=`, `== !=` (strict), `&& ||`, `cond ? a : b`
+ * - Functions: see FUNCTIONS
+ *
+ * Example: `steps.check.output.status == 'ok' && len(variables.hosts) > 0`
+ */
+
+export class ExpressionError extends Error {
+    constructor(message: string, readonly expression: string) {
+        super(message);
+        this.name = 'ExpressionError';
+    }
+}
+
+/**
+ * Values visible to an expression
+ */
+export interface ExpressionScope {
+    variables: Record<string, unknown>;
+    steps: Record<string, { status: string; output?: unknown; error?: string }>;
+}
+
+type Node =
+    | { type: 'literal'; value: unknown }
+    | { type: 'identifier'; name: string }
+    | { type: 'member'; object: Node; property: Node }
+    | { type: 'call'; name: string; args: Node[] }
+    | { type: 'unary'; operator: '!' | '-'; argument: Node }
+    | { type: 'binary'; operator: string; left: Node; right: Node }
+    | { type: 'conditional'; test: Node; consequent: Node; alternate: Node }
+    | { type: 'array'; elements: Node[] }
+    | { type: 'object'; properties: Array<{ key: string; value: Node }> };
+
+export interface CompiledExpression {
+    source: string;
+    /** Step ids referenced as `steps.<id>` */
+    stepReferences: Set<string>;
+    evaluate(scope: ExpressionScope): unknown;
+}
+
+interface Token {
+    type: 'number' | 'string' | 'identifier' | 'punct' | 'end';
+    value: string;
+    position: number;
+}
+
+const MAX_LENGTH = 4000;
+const MAX_DEPTH = 64;
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+const PUNCTUATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '(', ')', '[', ']', '{', '}', ',', '.', ':', '?', '!', '+', '-', '*', '/', '%', '<', '>'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+    len: (value) => (typeof value === 'string' || Array.isArray(value) ? value.length : isRecord(value) ? Object.keys(value).length : 0),
+    lower: (value) => String(value ?? '').toLowerCase(),
+    upper: (value) => String(value ?? '').toUpperCase(),
+    trim: (value) => String(value ?? '').trim(),
+    contains: (haystack, needle) => (Array.isArray(haystack) ? haystack.includes(needle) : String(haystack ?? '').includes(String(needle))),
+    startsWith: (value, prefix) => String(value ?? '').startsWith(String(prefix)),
+    endsWith: (value, suffix) => String(value ?? '').endsWith(String(suffix)),
+    split: (value, separator) => String(value ?? '').split(String(separator)),
+    join: (value, separator) => (Array.isArray(value) ? value.map((v) => String(v)).join(separator === undefined ? ',' : String(separator)) : String(value ?? '')),
+    number: (value) => Number(value),
+    string: (value) => (typeof value === 'string' ? value : JSON.stringify(value) ?? ''),
+    json: (value) => (typeof value === 'string' ? JSON.parse(value) : value),
+    keys: (value) => (isRecord(value) ? Object.keys(value) : []),
+    exists: (value) => value !== null && value !== undefined,
+    coalesce: (...values) => values.find((v) => v !== null && v !== undefined) ?? null,
+    min: (...values) => Math.min(...values.map(Number)),
+    max: (...values) => Math.max(...values.map(Number)),
+    round: (value, digits) => {
+        const factor = 10 ** Number(digits ?? 0);
+        return Math.round(Number(value) * factor) / factor;
+    },
+    abs: (value) => Math.abs(Number(value)),
+};
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9]/.test(char)) {
+            const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i));
+            const value = match?.[0] ?? char;
+            tokens.push({ type: 'number', value, position: i });
+            i += value.length;
+            continue;
+        }
+
+        if (/[A-Za-z_$]/.test(char)) {
+            const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i));
+            const value = match?.[0] ?? char;
+            tokens.push({ type: 'identifier', value, position: i });
+            i += value.length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            let value = '';
+            let j = i + 1;
+            for (; j < source.length && source[j] !== char; j++) {
+                if (source[j] === '\\' && j + 1 < source.length) {
+                    j++;
+                    value += { n: '\n', t: '\t', r: '\r' }[source[j]] ?? source[j];
+                } else {
+                    value += source[j];
+                }
+            }
+            if (j >= source.length) {
+                throw new ExpressionError(`Unterminated string at ${i}`, source);
+            }
+            tokens.push({ type: 'string', value, position: i });
+            i = j + 1;
+            continue;
+        }
+
+        const punct = PUNCTUATORS.find((p) => source.startsWith(p, i));
+        if (!punct) {
+            throw new ExpressionError(`Unexpected character '${char}' at ${i}`, source);
+        }
+        tokens.push({ type: 'punct', value: punct, position: i });
+        i += punct.length;
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+}
+
+class Parser {
+    private index = 0;
+    private depth = 0;
+
+    constructor(private tokens: Token[], private source: string) { }
+
+    parse(): Node {
+        const node = this.expression();
+        if (this.peek().type !== 'end') {
+            this.fail(`Unexpected '${this.peek().value}'`);
+        }
+        return node;
+    }
+
+    private expression(): Node {
+        if (++this.depth > MAX_DEPTH) {
+            this.fail('Expression is nested too deeply');
+        }
+        const node = this.conditional();
+        this.depth--;
+        return node;
+    }
+
+    private conditional(): Node {
+        const test = this.binary(0);
+        if (!this.match('?')) {
+            return test;
+        }
+        const consequent = this.expression();
+        this.expect(':');
+        const alternate = this.expression();
+        return { type: 'conditional', test, consequent, alternate };
+    }
+
+    // Lowest precedence first
+    private static readonly LEVELS = [['||'], ['&&'], ['==', '!=', '===', '!=='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+    private binary(level: number): Node {
+        if (level >= Parser.LEVELS.length) {
+            return this.unary();
+        }
+        let left = this.binary(level + 1);
+        for (;;) {
+            const token = this.peek();
+            if (token.type !== 'punct' || !Parser.LEVELS[level].includes(token.value)) {
+                return left;
+            }
+            this.index++;
+            const right = this.binary(level + 1);
+            left = { type: 'binary', operator: token.value, left, right };
+        }
+    }
+
+    private unary(): Node {
+        if (this.match('!')) {
+            return { type: 'unary', operator: '!', argument: this.unary() };
+        }
+        if (this.match('-')) {
+            return { type: 'unary', operator: '-', argument: this.unary() };
+        }
+        return this.postfix();
+    }
+
+    private postfix(): Node {
+        let node = this.primary();
+        for (;;) {
+            if (this.match('.')) {
+                const name = this.next();
+                if (name.type !== 'identifier') {
+                    this.fail(`Expected property name at ${name.position}`);
+                }
+                node = { type: 'member', object: node, property: { type: 'literal', value: name.value } };
+            } else if (this.match('[')) {
+                const property = this.expression();
+                this.expect(']');
+                node = { type: 'member', object: node, property };
+            } else if (this.peek().value === '(' && this.peek().type === 'punct') {
+                this.fail('Only built-in functions can be called');
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private primary(): Node {
+        const token = this.next();
+        switch (token.type) {
+            case 'number':
+                return { type: 'literal', value: Number(token.value) };
+            case 'string':
+                return { type: 'literal', value: token.value };
+            case 'identifier':
+                return this.identifier(token);
+            case 'punct':
+                if (token.value === '(') {
+                    const node = this.expression();
+                    this.expect(')');
+                    return node;
+                }
+                if (token.value === '[') {
+                    return { type: 'array', elements: this.list(']') };
+                }
+                if (token.value === '{') {
+                    return this.object();
+                }
+                break;
+        }
+        return this.fail(token.type === 'end' ? 'Unexpected end of expression' : `Unexpected '${token.value}' at ${token.position}`);
+    }
+
+    private identifier(token: Token): Node {
+        switch (token.value) {
+            case 'true':
+                return { type: 'literal', value: true };
+            case 'false':
+                return { type: 'literal', value: false };
+            case 'null':
+                return { type: 'literal', value: null };
+        }
+        if (this.match('(')) {
+            if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)) {
+                this.fail(`Unknown function: ${token.value}`);
+            }
+            return { type: 'call', name: token.value, args: this.list(')') };
+        }
+        return { type: 'identifier', name: token.value };
+    }
+
+    private list(close: string): Node[] {
+        const items: Node[] = [];
+        if (this.match(close)) {
+            return items;
+        }
+        do {
+            items.push(this.expression());
+        } while (this.match(','));
+        this.expect(close);
+        return items;
+    }
+
+    private object(): Node {
+        const properties: Array<{ key: string; value: Node }> = [];
+        if (this.match('}')) {
+            return { type: 'object', properties };
+        }
+        do {
+            const key = this.next();
+            if (key.type !== 'identifier' && key.type !== 'string') {
+                this.fail(`Expected property name at ${key.position}`);
+            }
+            if (BLOCKED_PROPERTIES.has(key.value)) {
+                this.fail(`Property not allowed: ${key.value}`);
+            }
+            this.expect(':');
+            properties.push({ key: key.value, value: this.expression() });
+        } while (this.match(','));
+        this.expect('}');
+        return { type: 'object', properties };
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index];
+        if (token.type !== 'end') {
+            this.index++;
+        }
+        return token;
+    }
+
+    private match(value: string): boolean {
+        const token = this.peek();
+        if (token.type === 'punct' && token.value === value) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(value: string): void {
+        if (!this.match(value)) {
+            this.fail(`Expected '${value}' at ${this.peek().position}`);
+        }
+    }
+
+    private fail(message: string): never {
+        throw new ExpressionError(message, this.source);
+    }
+}
+
+function readProperty(object: unknown, key: unknown, source: string): unknown {
+    if (object === null || object === undefined) {
+        return null;
+    }
+    if (typeof key !== 'string' && typeof key !== 'number') {
+        throw new ExpressionError('Property names must be strings or numbers', source);
+    }
+    const name = String(key);
+    if (BLOCKED_PROPERTIES.has(name)) {
+        throw new ExpressionError(`Property not allowed: ${name}`, source);
+    }
+
+    if (typeof object === 'string' || Array.isArray(object)) {
+        if (name === 'length') return object.length;
+        return /^[0-9]+$/.test(name) ? object[Number(name)] ?? null : null;
+    }
+    if (isRecord(object) && Object.prototype.hasOwnProperty.call(object, name)) {
+        return object[name] ?? null;
+    }
+    return null;
+}
+
+function expectNumbers(operator: string, left: unknown, right: unknown, source: string): [number, number] {
+    if (typeof left !== 'number' || typeof right !== 'number') {
+        throw new ExpressionError(`Operator ${operator} expects numbers`, source);
+    }
+    return [left, right];
+}
+
+function evaluateNode(node: Node, scope: ExpressionScope, source: string): unknown {
+    switch (node.type) {
+        case 'literal':
+            return node.value;
+        case 'identifier':
+            if (node.name === 'variables') return scope.variables;
+            if (node.name === 'steps') return scope.steps;
+            return readProperty(scope.variables, node.name, source);
+        case 'member':
+            return readProperty(evaluateNode(node.object, scope, source), evaluateNode(node.property, scope, source), source);
+        case 'call':
+            return FUNCTIONS[node.name](...node.args.map((arg) => evaluateNode(arg, scope, source)));
+        case 'unary': {
+            const value = evaluateNode(node.argument, scope, source);
+            if (node.operator === '!') return !value;
+            if (typeof value !== 'number') {
+                throw new ExpressionError('Operator - expects a number', source);
+            }
+            return -value;
+        }
+        case 'conditional':
+            return evaluateNode(node.test, scope, source)
+                ? evaluateNode(node.consequent, scope, source)
+                : evaluateNode(node.alternate, scope, source);
+        case 'array':
+            return node.elements.map((element) => evaluateNode(element, scope, source));
+        case 'object':
+            return Object.fromEntries(node.properties.map((p) => [p.key, evaluateNode(p.value, scope, source)]));
+        case 'binary':
+            return evaluateBinary(node.operator, node.left, node.right, scope, source);
+    }
+}
+
+function evaluateBinary(operator: string, leftNode: Node, rightNode: Node, scope: ExpressionScope, source: string): unknown {
+    const left = evaluateNode(leftNode, scope, source);
+    // Short-circuit
+    if (operator === '&&') return left ? evaluateNode(rightNode, scope, source) : left;
+    if (operator === '||') return left ? left : evaluateNode(rightNode, scope, source);
+
+    const right = evaluateNode(rightNode, scope, source);
+    switch (operator) {
+        case '==':
+        case '===':
+            return left === right;
+        case '!=':
+        case '!==':
+            return left !== right;
+        case '+':
+            if (typeof left === 'string' || typeof right === 'string') {
+                return `${left ?? ''}${right ?? ''}`;
+            }
+            return left as number + expectNumbers(operator, left, right, source)[1];
+        case '-':
+        case '*':
+        case '/':
+        case '%': {
+            const [a, b] = expectNumbers(operator, left, right, source);
+            return operator === '-' ? a - b : operator === '*' ? a * b : operator === '/' ? a / b : a % b;
+        }
+        default: {
+            // Comparison of two numbers or two strings
+            if (!((typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string'))) {
+                throw new ExpressionError(`Operator ${operator} expects two numbers or two strings`, source);
+            }
+            switch (operator) {
+                case '<': return left < right;
+                case '<=': return left <= right;
+                case '>': return left > right;
+                default: return left >= right;
+            }
+        }
+    }
+}
+
+function collectStepReferences(node: Node, references: Set<string>): void {
+    switch (node.type) {
+        case 'member':
+            if (node.object.type === 'identifier' && node.object.name === 'steps' && node.property.type === 'literal') {
+                references.add(String(node.property.value));
+            }
+            collectStepReferences(node.object, references);
+            collectStepReferences(node.property, references);
+            break;
+        case 'call':
+            node.args.forEach((arg) => collectStepReferences(arg, references));
+            break;
+        case 'unary':
+            collectStepReferences(node.argument, references);
+            break;
+        case 'binary':
+            collectStepReferences(node.left, references);
+            collectStepReferences(node.right, references);
+            break;
+        case 'conditional':
+            collectStepReferences(node.test, references);
+            collectStepReferences(node.consequent, references);
+            collectStepReferences(node.alternate, references);
+            break;
+        case 'array':
+            node.elements.forEach((element) => collectStepReferences(element, references));
+            break;
+        case 'object':
+            node.properties.forEach((p) => collectStepReferences(p.value, references));
+            break;
+    }
+}
+
+const compiled = new Map<string, CompiledExpression>();
+
+/**
+ * Parse an expression (cached); throws ExpressionError on syntax errors
+ */
+export function compileExpression(source: string): CompiledExpression {
+    const cached = compiled.get(source);
+    if (cached) {
+        return cached;
+    }
+
+    if (typeof source !== 'string' || source.trim() === '') {
+        throw new ExpressionError('Expression is empty', String(source));
+    }
+    if (source.length > MAX_LENGTH) {
+        throw new ExpressionError(`Expression is longer than ${MAX_LENGTH} characters`, source.slice(0, 100));
+    }
+
+    const ast = new Parser(tokenize(source), source).parse();
+    const stepReferences = new Set<string>();
+    collectStepReferences(ast, stepReferences);
+
+    const expression: CompiledExpression = {
+        source,
+        stepReferences,
+        evaluate: (scope) => {
+            try {
+                return evaluateNode(ast, scope, source);
+            } catch (error) {
+                if (error instanceof ExpressionError) throw error;
+                throw new ExpressionError(error instanceof Error ? error.message : String(error), source);
+            }
+        },
+    };
+
+    if (compiled.size >= 1000) {
+        compiled.clear();
+    }
+    compiled.set(source, expression);
+    return expression;
+}
+
+/**
+ * Parse and evaluate an expression
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): unknown {
+    return compileExpression(source).evaluate(scope);
+}
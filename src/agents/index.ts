@@ -25,7 +25,7 @@ export { DocumentSynthesizer, createDocumentSynthesizer, type DocumentSource, ty
 export { WebResearcher, createWebResearcher, type WebSource, type ResearchQuery, type ResearchResult, type FactCheckResult } from './webResearcher.js';
 export { CodeAnalyzer, createCodeAnalyzer, type CodeFile, type CodeIssue, type CodeAnalysisResult, type RefactorSuggestion, type DocumentationResult } from './codeAnalyzer.js';
 export { DataExtractor, createDataExtractor, type DataSchema, type ExtractionResult, type EntityResult, type TableData } from './dataExtractor.js';
-export { WorkflowOrchestrator, createWorkflowOrchestrator, type WorkflowStep, type WorkflowDefinition, type WorkflowExecution, type N8nWebhook } from './workflowOrchestrator.js';
+export { WorkflowOrchestrator, WorkflowError, createWorkflowOrchestrator, type WorkflowStep, type WorkflowDefinition, type WorkflowExecution, type ExecutionTrigger, type N8nWebhook } from './workflowOrchestrator.js';
 
 /**
  * Initialize all agent tables in database
@@ -11,6 +11,8 @@
 import { db } from '../db/postgres.js';
 import { redisCache, CacheKeys } from '../cache/redis.js';
 import { logger } from '../logging/logger.js';
+import { embeddingService } from '../services/chat/EmbeddingService.js';
+import { getVectorStore, type VectorMatch } from '../services/vector/index.js';
 import type { MemoryEntry } from './types.js';
 
 /**
@@ -21,6 +23,7 @@ export interface MemoryConfig {
     shortTermTTL: number; // seconds
     importanceThreshold: number;
     maxRetrievalResults: number;
+    semanticRetrieval: boolean; // Embed persisted memories and retrieve by similarity
 }
 
 /**
@@ -31,8 +34,40 @@ const DEFAULT_CONFIG: MemoryConfig = {
     shortTermTTL: 3600, // 1 hour
     importanceThreshold: 0.5,
     maxRetrievalResults: 10,
+    semanticRetrieval: true,
 };
 
+interface MemoryRow {
+    id: string;
+    memory_type: string;
+    content: string;
+    conversation_id: string;
+    task_id: string;
+    importance: number;
+    access_count: number;
+    last_accessed: Date;
+    tags: string[];
+    metadata: Record<string, unknown>;
+    created_at: Date;
+}
+
+function toMemoryEntry(row: MemoryRow): MemoryEntry {
+    return {
+        id: row.id,
+        type: row.memory_type as 'episodic' | 'semantic' | 'procedural',
+        content: row.content,
+        metadata: {
+            conversationId: row.conversation_id,
+            taskId: row.task_id,
+            timestamp: row.created_at.getTime(),
+            importance: Number(row.importance),
+            accessCount: row.access_count,
+            lastAccessed: row.last_accessed.getTime(),
+            tags: row.tags,
+        },
+    };
+}
+
 /**
  * Agent Memory Manager
  * Manages episodic, semantic, and procedural memory
@@ -61,14 +96,17 @@ export class AgentMemory {
                 logger.warn('Vector extension not available, using text search fallback');
             }
 
-            // Memory entries table - use TEXT for embedding if vector not available
-            const embeddingType = hasVector ? 'vector(1536)' : 'TEXT';
+            // Memory entries table - use TEXT for embedding if vector not available.
+            // The dimension depends on the embedding model, so it is not fixed.
+            const embeddingType = hasVector ? 'vector' : 'TEXT';
             await db.query(`
                 CREATE TABLE IF NOT EXISTS agent_memories (
                     id TEXT PRIMARY KEY,
                     memory_type TEXT NOT NULL,
                     content TEXT NOT NULL,
                     embedding ${embeddingType},
+                    embedding_model TEXT,
+                    embedding_dimension INTEGER,
                     conversation_id TEXT,
                     task_id TEXT,
                     importance DECIMAL(3,2) DEFAULT 0.5,
@@ -80,6 +118,13 @@ export class AgentMemory {
                 )
             `);
 
+            // Tables created before embedding metadata was tracked
+            await db.query(`
+                ALTER TABLE agent_memories
+                    ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+                    ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER
+            `);
+
             // Create indexes
             await db.query(`
                 CREATE INDEX IF NOT EXISTS idx_memories_type ON agent_memories(memory_type);
@@ -171,6 +216,37 @@ export class AgentMemory {
             );
         } catch (error) {
             logger.error('Failed to persist memory', { id: entry.id, error });
+            return;
+        }
+
+        if (this.config.semanticRetrieval) {
+            await this.storeEmbedding(entry);
+        }
+    }
+
+    /**
+     * Add the memory to the vector store (once)
+     */
+    private async storeEmbedding(entry: MemoryEntry): Promise<void> {
+        try {
+            const store = getVectorStore();
+            if ((await store.has('agent_memories', [entry.id])).size > 0) {
+                return;
+            }
+
+            const { embedding, model } = await embeddingService.getEmbedding(entry.content);
+            await store.upsert('agent_memories', [{
+                id: entry.id,
+                namespace: entry.metadata.conversationId ?? this.conversationId,
+                vector: embedding,
+                model,
+                metadata: { type: entry.type },
+            }]);
+        } catch (error) {
+            logger.warn('Failed to embed memory', {
+                id: entry.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
         }
     }
 
@@ -199,7 +275,96 @@ export class AgentMemory {
             }
         }
 
-        // Then query database
+        try {
+            // Then the vector store, falling back to text search in the database
+            let dbResults: MemoryEntry[] = [];
+            if (this.config.semanticRetrieval) {
+                dbResults = await this.retrieveSimilar(query, { ...options, limit, minImportance });
+            }
+            if (dbResults.length === 0) {
+                dbResults = await this.retrieveByText(query, { ...options, limit, minImportance });
+            }
+
+            // Update access counts for retrieved memories
+            for (const entry of dbResults) {
+                await this.updateAccessCount(entry.id);
+            }
+
+            // Merge and deduplicate
+            const allResults = [...shortTermResults, ...dbResults];
+            const uniqueResults = Array.from(
+                new Map(allResults.map((e) => [e.id, e])).values()
+            );
+
+            return uniqueResults.slice(0, limit);
+        } catch (error) {
+            logger.error('Failed to retrieve memories', { query, error });
+            return shortTermResults.slice(0, limit);
+        }
+    }
+
+    /**
+     * Most similar memories in the vector store, filtered by the current
+     * importance and tags in the database. Empty if the search is unavailable.
+     */
+    private async retrieveSimilar(
+        query: string,
+        options: { type?: MemoryEntry['type']; limit: number; minImportance: number; tags?: string[] }
+    ): Promise<MemoryEntry[]> {
+        let matches: VectorMatch[];
+        try {
+            const { embedding, model } = await embeddingService.getEmbedding(query);
+            matches = await getVectorStore().search('agent_memories', {
+                vector: embedding,
+                model,
+                // Over-fetch: importance and tags are filtered below
+                topK: options.limit * 3,
+                where: options.type ? { type: options.type } : undefined,
+            });
+        } catch (error) {
+            logger.debug('Semantic memory search unavailable, using text search', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return [];
+        }
+        if (matches.length === 0) {
+            return [];
+        }
+
+        let dbQuery = `
+            SELECT id, memory_type, content, conversation_id, task_id,
+                   importance, access_count, last_accessed, tags, metadata, created_at
+            FROM agent_memories
+            WHERE id = ANY($1)
+        `;
+        const params: unknown[] = [matches.map((m) => m.id)];
+
+        if (options.minImportance > 0) {
+            params.push(options.minImportance);
+            dbQuery += ` AND importance >= $${params.length}`;
+        }
+
+        if (options.tags && options.tags.length > 0) {
+            params.push(options.tags);
+            dbQuery += ` AND tags && $${params.length}`;
+        }
+
+        const result = await db.query<MemoryRow>(dbQuery, params);
+        const entries = new Map((result?.rows || []).map((row) => [row.id, toMemoryEntry(row)]));
+
+        // Keep similarity order
+        return matches
+            .flatMap((m) => entries.get(m.id) ?? [])
+            .slice(0, options.limit);
+    }
+
+    /**
+     * Memories whose content contains the query
+     */
+    private async retrieveByText(
+        query: string,
+        options: { type?: MemoryEntry['type']; limit: number; minImportance: number; tags?: string[] }
+    ): Promise<MemoryEntry[]> {
         let dbQuery = `
             SELECT id, memory_type, content, conversation_id, task_id,
                    importance, access_count, last_accessed, tags, metadata, created_at
@@ -215,9 +380,9 @@ export class AgentMemory {
             paramIndex++;
         }
 
-        if (minImportance > 0) {
+        if (options.minImportance > 0) {
             dbQuery += ` AND importance >= $${paramIndex}`;
-            params.push(minImportance);
+            params.push(options.minImportance);
             paramIndex++;
         }
 
@@ -228,54 +393,10 @@ export class AgentMemory {
         }
 
         dbQuery += ` ORDER BY importance DESC, last_accessed DESC LIMIT $${paramIndex}`;
-        params.push(limit);
+        params.push(options.limit);
 
-        try {
-            const result = await db.query<{
-                id: string;
-                memory_type: string;
-                content: string;
-                conversation_id: string;
-                task_id: string;
-                importance: number;
-                access_count: number;
-                last_accessed: Date;
-                tags: string[];
-                metadata: Record<string, unknown>;
-                created_at: Date;
-            }>(dbQuery, params);
-
-            const dbResults: MemoryEntry[] = (result?.rows || []).map((row) => ({
-                id: row.id,
-                type: row.memory_type as 'episodic' | 'semantic' | 'procedural',
-                content: row.content,
-                metadata: {
-                    conversationId: row.conversation_id,
-                    taskId: row.task_id,
-                    timestamp: row.created_at.getTime(),
-                    importance: Number(row.importance),
-                    accessCount: row.access_count,
-                    lastAccessed: row.last_accessed.getTime(),
-                    tags: row.tags,
-                },
-            }));
-
-            // Update access counts for retrieved memories
-            for (const entry of dbResults) {
-                await this.updateAccessCount(entry.id);
-            }
-
-            // Merge and deduplicate
-            const allResults = [...shortTermResults, ...dbResults];
-            const uniqueResults = Array.from(
-                new Map(allResults.map((e) => [e.id, e])).values()
-            );
-
-            return uniqueResults.slice(0, limit);
-        } catch (error) {
-            logger.error('Failed to retrieve memories', { query, error });
-            return shortTermResults.slice(0, limit);
-        }
+        const result = await db.query<MemoryRow>(dbQuery, params);
+        return (result?.rows || []).map(toMemoryEntry);
     }
 
     /**
@@ -436,6 +557,7 @@ export class AgentMemory {
                 `DELETE FROM agent_memories WHERE conversation_id = $1`,
                 [this.conversationId]
             );
+            await getVectorStore().deleteNamespace('agent_memories', this.conversationId);
             logger.info('Cleared agent memories', { conversationId: this.conversationId });
         } catch (error) {
             logger.error('Failed to clear memories', { error });
@@ -5,16 +5,30 @@
  *
  * Features:
  * - Workflow definition and execution
- * - Step sequencing and parallel execution
- * - Conditional branching
+ * - DAG execution: steps whose dependencies have finished run concurrently,
+ *   up to `maxConcurrency` at a time
+ * - Conditional branching with sandboxed expressions (see expressions.ts)
  * - n8n webhook integration
- * - Event-driven triggers
- * - State management
+ * - Cron `schedule` and internal `event` triggers
+ * - Durable state: definitions and executions are persisted, with a
+ *   checkpoint after every step
+ * - Crash recovery: executions whose instance stopped heartbeating resume
+ *   from their last completed step
  * - Error handling and retry logic
+ *
+ * A step that was running when its instance crashed runs again on resume,
+ * so agent and http steps should be safe to repeat. Wait steps only wait for
+ * the remainder of their duration.
  */
 
+import { randomUUID } from 'crypto';
 import type { AgentLLM } from './react.js';
 import { logger } from '../logging/logger.js';
+import { env } from '../config/env.js';
+import { eventBus, type EventBus } from '../infrastructure/events.js';
+import { workflowStore, type WorkflowExecutionFilter, type WorkflowStore } from '../db/workflows.js';
+import { nextCronTime, parseCron, type CronSchedule } from './cron.js';
+import { compileExpression, evaluateExpression, type ExpressionScope } from './expressions.js';
 
 export interface WorkflowStep {
     id: string;
@@ -22,6 +36,8 @@ export interface WorkflowStep {
     type: 'agent' | 'http' | 'transform' | 'condition' | 'wait';
     config: Record<string, unknown>;
     dependsOn?: string[];
+    /** Expression deciding whether the step runs once its dependencies have finished */
+    when?: string;
     retryConfig?: {
         maxRetries: number;
         backoffMs: number;
@@ -35,13 +51,30 @@ export interface WorkflowDefinition {
     steps: WorkflowStep[];
     triggers?: WorkflowTrigger[];
     variables?: Record<string, unknown>;
+    /** Steps that may run at the same time (default WORKFLOW_MAX_CONCURRENCY) */
+    maxConcurrency?: number;
 }
 
+/**
+ * Trigger config by type:
+ * - schedule: `{ cron: '*\/15 * * * *', input?: {...} }` (UTC)
+ * - event: `{ event: 'provider.unhealthy', filter?: { provider: 'openai' }, input?: {...}, cooldownMs?: number }`;
+ *   the event payload fields and `event` (its name) are added to the input
+ * - webhook: fired by n8n through `/v1/agents/n8n/webhook` (action `execute-workflow`)
+ */
 export interface WorkflowTrigger {
     type: 'webhook' | 'schedule' | 'event';
     config: Record<string, unknown>;
 }
 
+/**
+ * What started an execution
+ */
+export interface ExecutionTrigger {
+    type: 'manual' | WorkflowTrigger['type'];
+    source?: string; // Cron expression or event name
+}
+
 export interface WorkflowExecution {
     id: string;
     workflowId: string;
@@ -51,6 +84,7 @@ export interface WorkflowExecution {
     stepResults: Record<string, StepResult>;
     variables: Record<string, unknown>;
     error?: string;
+    trigger?: ExecutionTrigger;
 }
 
 export interface StepResult {
@@ -72,40 +106,232 @@ export interface N8nWebhook {
     };
 }
 
+export type WorkflowErrorCode = 'NOT_FOUND' | 'INVALID' | 'CONFLICT';
+
+export class WorkflowError extends Error {
+    constructor(message: string, readonly code: WorkflowErrorCode) {
+        super(message);
+        this.name = 'WorkflowError';
+    }
+}
+
+export interface WorkflowOrchestratorOptions {
+    store?: WorkflowStore;
+    events?: EventBus;
+    /** Fire schedule and event triggers after start() */
+    triggersEnabled?: boolean;
+    heartbeatMs?: number;
+    staleAfterMs?: number;
+    maxConcurrency?: number;
+}
+
+export interface ScheduledRun {
+    workflowId: string;
+    cron: string;
+    nextRunAt: number | null;
+}
+
+interface ActiveSchedule {
+    workflowId: string;
+    triggerIndex: number;
+    schedule: CronSchedule;
+    input: Record<string, unknown>;
+    nextRunAt: Date | null;
+}
+
+const STEP_TYPES: WorkflowStep['type'][] = ['agent', 'http', 'transform', 'condition', 'wait'];
+const TRIGGER_TYPES: WorkflowTrigger['type'][] = ['webhook', 'schedule', 'event'];
+
+// Longest sleep of the scheduler loop, so new schedules are picked up
+const MAX_SCHEDULER_SLEEP_MS = 60000;
+
+/**
+ * n8n webhooks registered through any orchestrator instance.
+ * Shared at module level so other services (e.g. deployment approvals)
+ * can notify the same endpoints.
+ */
+const n8nWebhooks = new Map<string, N8nWebhook>();
+
+/**
+ * Check whether an n8n webhook is registered
+ */
+export function hasN8nWebhook(name: string): boolean {
+    return n8nWebhooks.has(name);
+}
+
+/**
+ * Call an n8n webhook
+ */
+export async function callN8nWebhook(
+    webhookName: string,
+    data: Record<string, unknown>
+): Promise<unknown> {
+    const webhook = n8nWebhooks.get(webhookName);
+    if (!webhook) {
+        throw new Error(`Webhook not found: ${webhookName}`);
+    }
+
+    logger.info('Calling n8n webhook', { webhookName, url: webhook.url });
+
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...webhook.headers,
+    };
+
+    if (webhook.authentication) {
+        switch (webhook.authentication.type) {
+            case 'bearer':
+                headers['Authorization'] = `Bearer ${webhook.authentication.credentials.token}`;
+                break;
+            case 'api-key':
+                headers[webhook.authentication.credentials.headerName || 'X-API-Key'] =
+                    webhook.authentication.credentials.key;
+                break;
+            case 'basic':
+                const auth = Buffer.from(
+                    `${webhook.authentication.credentials.username}:${webhook.authentication.credentials.password}`
+                ).toString('base64');
+                headers['Authorization'] = `Basic ${auth}`;
+                break;
+        }
+    }
+
+    const response = await fetch(webhook.url, {
+        method: webhook.method,
+        headers,
+        body: JSON.stringify(data),
+    });
+
+    return response.json().catch(() => response.text());
+}
+
 /**
  * Workflow Orchestrator Agent
  * Manages complex multi-step workflows
  */
 export class WorkflowOrchestrator {
     private llm: AgentLLM;
-    private workflows: Map<string, WorkflowDefinition> = new Map();
-    private executions: Map<string, WorkflowExecution> = new Map();
-    private webhooks: Map<string, N8nWebhook> = new Map();
-
-    constructor(llm: AgentLLM) {
+    private store: WorkflowStore;
+    private events: EventBus;
+    private webhooks: Map<string, N8nWebhook> = n8nWebhooks;
+    private readonly instanceId = `wf_${randomUUID()}`;
+    private readonly triggersEnabled: boolean;
+    private readonly heartbeatMs: number;
+    private readonly staleAfterMs: number;
+    private readonly maxConcurrency: number;
+
+    // Executions running in this process
+    private running: Map<string, Promise<WorkflowExecution>> = new Map();
+    private cancelRequested: Set<string> = new Set();
+    private schedules: Map<string, ActiveSchedule[]> = new Map();
+    private subscriptions: Map<string, Array<() => void>> = new Map();
+    private lastEventRun: Map<string, number> = new Map();
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private schedulerTimer: NodeJS.Timeout | null = null;
+    private started = false;
+
+    constructor(llm: AgentLLM, options: WorkflowOrchestratorOptions = {}) {
         this.llm = llm;
+        this.store = options.store ?? workflowStore;
+        this.events = options.events ?? eventBus;
+        this.triggersEnabled = options.triggersEnabled ?? env.WORKFLOW_TRIGGERS_ENABLED;
+        this.heartbeatMs = options.heartbeatMs ?? env.WORKFLOW_HEARTBEAT_MS;
+        this.staleAfterMs = options.staleAfterMs ?? env.WORKFLOW_STALE_AFTER_MS;
+        this.maxConcurrency = options.maxConcurrency ?? env.WORKFLOW_MAX_CONCURRENCY;
+    }
+
+    /**
+     * Resume interrupted executions and activate the triggers of stored workflows
+     */
+    async start(): Promise<void> {
+        if (this.started) {
+            return;
+        }
+        this.started = true;
+
+        if (this.triggersEnabled) {
+            for (const workflow of await this.store.listWorkflows()) {
+                this.activateTriggers(workflow);
+            }
+            this.scheduleNextTick();
+        }
+
+        this.heartbeatTimer = setInterval(() => {
+            this.heartbeat().catch((error) => {
+                logger.warn('Workflow heartbeat failed', {
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            });
+        }, this.heartbeatMs);
+        this.heartbeatTimer.unref();
+
+        await this.resumeStaleExecutions();
+        logger.info('Workflow engine started', { instanceId: this.instanceId, triggersEnabled: this.triggersEnabled });
     }
 
     /**
-     * Register a workflow definition
+     * Stop triggers and heartbeats. Executions in progress keep running; if the
+     * process exits they are resumed elsewhere once their heartbeat is stale.
      */
-    registerWorkflow(workflow: WorkflowDefinition): void {
-        this.workflows.set(workflow.id, workflow);
+    stop(): void {
+        this.started = false;
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        if (this.schedulerTimer) clearTimeout(this.schedulerTimer);
+        this.heartbeatTimer = null;
+        this.schedulerTimer = null;
+        for (const workflowId of Array.from(this.schedules.keys())) {
+            this.deactivateTriggers(workflowId);
+        }
+    }
+
+    /**
+     * Register (or replace) a workflow definition
+     */
+    async registerWorkflow(workflow: WorkflowDefinition): Promise<void> {
+        this.validateWorkflow(workflow);
+        await this.store.saveWorkflow(workflow);
+        if (this.started && this.triggersEnabled) {
+            this.activateTriggers(workflow);
+            this.scheduleNextTick();
+        }
         logger.info('Registered workflow', { id: workflow.id, name: workflow.name });
     }
 
+    /**
+     * Remove a workflow and its triggers; returns false if it does not exist
+     */
+    async deleteWorkflow(workflowId: string): Promise<boolean> {
+        this.deactivateTriggers(workflowId);
+        const deleted = await this.store.deleteWorkflow(workflowId);
+        if (deleted) {
+            logger.info('Deleted workflow', { id: workflowId });
+        }
+        return deleted;
+    }
+
     /**
      * Get a registered workflow
      */
-    getWorkflow(workflowId: string): WorkflowDefinition | undefined {
-        return this.workflows.get(workflowId);
+    async getWorkflow(workflowId: string): Promise<WorkflowDefinition | undefined> {
+        return this.store.getWorkflow(workflowId);
     }
 
     /**
      * List all registered workflows
      */
-    listWorkflows(): WorkflowDefinition[] {
-        return Array.from(this.workflows.values());
+    async listWorkflows(): Promise<WorkflowDefinition[]> {
+        return this.store.listWorkflows();
+    }
+
+    /**
+     * Next run of every active schedule trigger
+     */
+    listSchedules(): ScheduledRun[] {
+        return Array.from(this.schedules.values()).flat().map((s) => ({
+            workflowId: s.workflowId,
+            cron: s.schedule.expression,
+            nextRunAt: s.nextRunAt?.getTime() ?? null,
+        }));
     }
 
     /**
@@ -117,64 +343,80 @@ export class WorkflowOrchestrator {
     }
 
     /**
-     * Execute a workflow
+     * Execute a workflow. Resolves when the execution finishes, or as soon as it
+     * is stored with `wait: false`.
      */
     async executeWorkflow(
         workflowId: string,
-        input: Record<string, unknown> = {}
+        input: Record<string, unknown> = {},
+        options: { wait?: boolean; trigger?: ExecutionTrigger } = {}
     ): Promise<WorkflowExecution> {
-        const workflow = this.workflows.get(workflowId);
+        const workflow = await this.store.getWorkflow(workflowId);
         if (!workflow) {
-            throw new Error(`Workflow not found: ${workflowId}`);
+            throw new WorkflowError(`Workflow not found: ${workflowId}`, 'NOT_FOUND');
         }
 
+        const execution = await this.createExecution(workflow, input, options.trigger ?? { type: 'manual' });
+        if (!execution) {
+            throw new WorkflowError(`Failed to start workflow: ${workflowId}`, 'CONFLICT');
+        }
+
+        const run = this.track(execution, workflow);
+        return options.wait === false ? { ...execution } : run;
+    }
+
+    /**
+     * Store a new execution; undefined if `dedupeKey` was already used
+     */
+    private async createExecution(
+        workflow: WorkflowDefinition,
+        input: Record<string, unknown>,
+        trigger: ExecutionTrigger,
+        dedupeKey?: string
+    ): Promise<WorkflowExecution | undefined> {
         const executionId = `exec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
         const execution: WorkflowExecution = {
             id: executionId,
-            workflowId,
+            workflowId: workflow.id,
             status: 'running',
             startedAt: Date.now(),
             stepResults: {},
             variables: { ...workflow.variables, ...input },
+            trigger,
         };
 
-        this.executions.set(executionId, execution);
-        logger.info('Starting workflow execution', { executionId, workflowId });
+        if (!(await this.store.createExecution(execution, this.instanceId, dedupeKey))) {
+            return undefined;
+        }
+        logger.info('Starting workflow execution', { executionId, workflowId: workflow.id, trigger: trigger.type });
+        return execution;
+    }
 
-        try {
-            // Sort steps by dependencies
-            const sortedSteps = this.topologicalSort(workflow.steps);
-
-            // Execute steps
-            for (const step of sortedSteps) {
-                // Check if dependencies are met
-                if (step.dependsOn) {
-                    const canExecute = step.dependsOn.every(
-                        (depId) => execution.stepResults[depId]?.status === 'completed'
-                    );
-                    if (!canExecute) {
-                        execution.stepResults[step.id] = {
-                            stepId: step.id,
-                            status: 'skipped',
-                            error: 'Dependencies not met',
-                        };
-                        continue;
-                    }
-                }
+    /**
+     * Run an execution in this process (at most once at a time)
+     */
+    private track(execution: WorkflowExecution, workflow: WorkflowDefinition): Promise<WorkflowExecution> {
+        const existing = this.running.get(execution.id);
+        if (existing) {
+            return existing;
+        }
 
-                // Execute step
-                const result = await this.executeStep(step, execution);
-                execution.stepResults[step.id] = result;
+        const run = this.runExecution(execution, workflow).finally(() => {
+            this.running.delete(execution.id);
+            this.cancelRequested.delete(execution.id);
+        });
+        this.running.set(execution.id, run);
+        return run;
+    }
 
-                // Check for failure
-                if (result.status === 'failed' && !step.retryConfig) {
-                    execution.status = 'failed';
-                    execution.error = result.error;
-                    break;
-                }
-            }
+    /**
+     * Run the steps that have not completed yet, checkpointing each one
+     */
+    private async runExecution(execution: WorkflowExecution, workflow: WorkflowDefinition): Promise<WorkflowExecution> {
+        try {
+            await this.runSteps(execution, workflow);
 
-            if (execution.status !== 'failed') {
+            if (execution.status === 'running') {
                 execution.status = 'completed';
             }
         } catch (error) {
@@ -183,17 +425,288 @@ export class WorkflowOrchestrator {
         }
 
         execution.completedAt = Date.now();
+        try {
+            // A cancel while the last steps were in flight wins over their outcome
+            if (execution.status !== 'cancelled' && await this.isCancelled(execution.id)) {
+                execution.status = 'cancelled';
+                execution.error = undefined;
+            }
+            const recorded = await this.store.updateExecution(execution.id, {
+                status: execution.status,
+                completedAt: execution.completedAt,
+                error: execution.error,
+            }, 'running');
+            if (!recorded) {
+                // Finished elsewhere (e.g. cancelled through another instance)
+                const current = await this.store.getExecution(execution.id);
+                if (current) {
+                    execution.status = current.status;
+                    execution.completedAt = current.completedAt;
+                    execution.error = current.error;
+                }
+            }
+        } catch (error) {
+            // Left running in the store; resumed once its heartbeat is stale
+            logger.error('Failed to record workflow execution result', {
+                executionId: execution.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+
+        logger.info('Workflow execution finished', {
+            executionId: execution.id,
+            workflowId: execution.workflowId,
+            status: execution.status,
+        });
+        if (execution.status === 'completed') {
+            this.events.emit('workflow.completed', { workflowId: execution.workflowId, executionId: execution.id });
+        } else if (execution.status === 'failed') {
+            this.events.emit('workflow.failed', {
+                workflowId: execution.workflowId,
+                executionId: execution.id,
+                error: execution.error ?? 'Unknown error',
+            });
+        }
+        return execution;
+    }
+
+    /**
+     * Run steps as soon as all their dependencies have finished, at most
+     * `maxConcurrency` at a time. No new steps start once a step without a
+     * retryConfig fails or the execution is cancelled; running steps finish.
+     */
+    private async runSteps(execution: WorkflowExecution, workflow: WorkflowDefinition): Promise<void> {
+        const limit = workflow.maxConcurrency ?? this.maxConcurrency;
+        const pending = this.topologicalSort(workflow.steps)
+            .filter((step) => execution.stepResults[step.id]?.status !== 'completed');
+        // Steps finished before a resume or during this run
+        const finished = new Set(workflow.steps
+            .filter((step) => execution.stepResults[step.id]?.status === 'completed')
+            .map((step) => step.id));
+        const inFlight = new Map<string, Promise<void>>();
+        let stopped = false;
+
+        // Checkpoints are written one at a time so a later one never lands first
+        let checkpoints: Promise<void> = Promise.resolve();
+        const checkpoint = (result: StepResult): Promise<void> => {
+            checkpoints = checkpoints
+                .catch(() => undefined)
+                .then(() => this.store.checkpoint(execution.id, result, execution.variables));
+            return checkpoints;
+        };
+
+        const stop = (status: 'failed' | 'cancelled', error?: string) => {
+            if (!stopped) {
+                execution.status = status;
+                execution.error = error;
+                stopped = true;
+            }
+        };
+
+        for (;;) {
+            const ready = stopped
+                ? []
+                : pending.filter((step) => (step.dependsOn ?? []).every((id) => finished.has(id)));
+
+            if (ready.length > 0 && inFlight.size < limit) {
+                if (await this.isCancelled(execution.id)) {
+                    stop('cancelled');
+                    continue;
+                }
+
+                for (const step of ready.slice(0, limit - inFlight.size)) {
+                    pending.splice(pending.indexOf(step), 1);
+                    const run = this.runStep(step, execution, workflow, checkpoint)
+                        .then((result) => {
+                            finished.add(step.id);
+                            if (result.status === 'failed' && !step.retryConfig) {
+                                stop('failed', result.error);
+                            }
+                        })
+                        .catch((error) => stop('failed', error instanceof Error ? error.message : 'Unknown error'))
+                        .finally(() => inFlight.delete(step.id));
+                    inFlight.set(step.id, run);
+                }
+            }
+
+            if (inFlight.size === 0) {
+                return;
+            }
+            await Promise.race(inFlight.values());
+        }
+    }
+
+    /**
+     * Run one step, or record it as skipped when its branch is not taken
+     */
+    private async runStep(
+        step: WorkflowStep,
+        execution: WorkflowExecution,
+        workflow: WorkflowDefinition,
+        checkpoint: (result: StepResult) => Promise<void>
+    ): Promise<StepResult> {
+        let skipReason: string | undefined;
+        try {
+            skipReason = this.skipReason(step, execution, workflow);
+        } catch (error) {
+            const failed: StepResult = {
+                stepId: step.id,
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+                completedAt: Date.now(),
+            };
+            execution.stepResults[step.id] = failed;
+            await checkpoint(failed);
+            return failed;
+        }
+
+        if (skipReason) {
+            const skipped: StepResult = { stepId: step.id, status: 'skipped', error: skipReason };
+            execution.stepResults[step.id] = skipped;
+            await checkpoint(skipped);
+            return skipped;
+        }
+
+        // A step interrupted by a crash keeps its original start time
+        const previous = execution.stepResults[step.id];
+        const startedAt = previous?.status === 'running' && previous.startedAt ? previous.startedAt : Date.now();
+        execution.stepResults[step.id] = { stepId: step.id, status: 'running', startedAt };
+        await checkpoint(execution.stepResults[step.id]);
+
+        const result = await this.executeStep(step, execution, startedAt);
+        execution.stepResults[step.id] = result;
+        await checkpoint(result);
+        return result;
+    }
+
+    /**
+     * Why a step whose dependencies have finished should not run, if it should not.
+     * A `when` expression decides on its own (e.g. to join two branches);
+     * otherwise every dependency must have completed and every condition
+     * dependency must have been true, so a false condition skips its whole branch.
+     */
+    private skipReason(step: WorkflowStep, execution: WorkflowExecution, workflow: WorkflowDefinition): string | undefined {
+        if (step.when !== undefined) {
+            return evaluateExpression(step.when, this.expressionScope(execution)) ? undefined : 'Condition not met';
+        }
+
+        for (const depId of step.dependsOn ?? []) {
+            const dependency = execution.stepResults[depId];
+            if (dependency?.status !== 'completed') {
+                return 'Dependencies not met';
+            }
+            const depStep = workflow.steps.find((s) => s.id === depId);
+            if (depStep?.type === 'condition' && dependency.output === false) {
+                return `Condition ${depId} was false`;
+            }
+        }
+        return undefined;
+    }
+
+    private expressionScope(execution: WorkflowExecution): ExpressionScope {
+        const steps: ExpressionScope['steps'] = {};
+        for (const [id, result] of Object.entries(execution.stepResults)) {
+            steps[id] = { status: result.status, output: result.output ?? null, error: result.error };
+        }
+        return { variables: execution.variables, steps };
+    }
+
+    private async isCancelled(executionId: string): Promise<boolean> {
+        if (this.cancelRequested.has(executionId)) {
+            return true;
+        }
+        // Cancelled through another instance
+        return (await this.store.getExecution(executionId))?.status === 'cancelled';
+    }
+
+    /**
+     * Cancel a running execution; it stops before its next step
+     */
+    async cancelExecution(executionId: string): Promise<WorkflowExecution> {
+        const execution = await this.store.getExecution(executionId);
+        if (!execution) {
+            throw new WorkflowError(`Execution not found: ${executionId}`, 'NOT_FOUND');
+        }
+        if (execution.status !== 'running' && execution.status !== 'pending') {
+            throw new WorkflowError(`Execution ${executionId} is already ${execution.status}`, 'CONFLICT');
+        }
+
+        this.cancelRequested.add(executionId);
+        const updated = await this.store.updateExecution(
+            executionId,
+            { status: 'cancelled', completedAt: Date.now() },
+            execution.status,
+        );
+        if (!updated) {
+            this.cancelRequested.delete(executionId);
+            const current = await this.store.getExecution(executionId);
+            throw new WorkflowError(`Execution ${executionId} is already ${current?.status ?? 'finished'}`, 'CONFLICT');
+        }
+        logger.info('Cancelled workflow execution', { executionId });
+        return updated;
+    }
+
+    /**
+     * Run a failed or cancelled execution again from its last completed step
+     */
+    async resumeExecution(executionId: string): Promise<WorkflowExecution> {
+        const execution = await this.store.reopen(executionId, this.instanceId);
+        if (!execution) {
+            const existing = await this.store.getExecution(executionId);
+            if (!existing) {
+                throw new WorkflowError(`Execution not found: ${executionId}`, 'NOT_FOUND');
+            }
+            throw new WorkflowError(`Only failed or cancelled executions can be resumed (status: ${existing.status})`, 'CONFLICT');
+        }
+
+        this.cancelRequested.delete(executionId);
+        this.resume(execution).catch(() => undefined);
         return execution;
     }
 
+    /**
+     * Take over executions whose instance stopped heartbeating and resume them
+     */
+    async resumeStaleExecutions(): Promise<number> {
+        const executions = await this.store.claimStale(this.instanceId, this.staleAfterMs);
+        for (const execution of executions) {
+            logger.warn('Resuming interrupted workflow execution', {
+                executionId: execution.id,
+                workflowId: execution.workflowId,
+                completedSteps: Object.values(execution.stepResults).filter((r) => r.status === 'completed').length,
+            });
+            this.resume(execution).catch(() => undefined);
+        }
+        return executions.length;
+    }
+
+    private async resume(execution: WorkflowExecution): Promise<WorkflowExecution> {
+        const workflow = await this.store.getWorkflow(execution.workflowId);
+        if (!workflow) {
+            const error = `Workflow not found: ${execution.workflowId}`;
+            await this.store.updateExecution(execution.id, { status: 'failed', completedAt: Date.now(), error });
+            return { ...execution, status: 'failed', error };
+        }
+        return this.track(execution, workflow);
+    }
+
+    private async heartbeat(): Promise<void> {
+        await this.store.heartbeat(Array.from(this.running.keys()), this.instanceId);
+        await this.resumeStaleExecutions();
+    }
+
     /**
      * Execute a single step
      */
-    private async executeStep(step: WorkflowStep, execution: WorkflowExecution): Promise<StepResult> {
+    private async executeStep(
+        step: WorkflowStep,
+        execution: WorkflowExecution,
+        startedAt: number = Date.now()
+    ): Promise<StepResult> {
         const result: StepResult = {
             stepId: step.id,
             status: 'running',
-            startedAt: Date.now(),
+            startedAt,
         };
 
         let retries = 0;
@@ -215,7 +728,7 @@ export class WorkflowOrchestrator {
                         result.output = await this.executeConditionStep(step, execution);
                         break;
                     case 'wait':
-                        await this.executeWaitStep(step);
+                        await this.executeWaitStep(step, startedAt);
                         result.output = { waited: true };
                         break;
                 }
@@ -341,11 +854,14 @@ export class WorkflowOrchestrator {
             ? execution.variables[step.config.input as string]
             : execution.variables;
 
-        const transformType = step.config.transformType as string;
+        const transformType = step.config.expression !== undefined ? 'expression' : step.config.transformType as string;
 
         let output: unknown;
 
         switch (transformType) {
+            case 'expression':
+                output = evaluateExpression(step.config.expression as string, this.expressionScope(execution));
+                break;
             case 'json-parse':
                 output = typeof inputData === 'string' ? JSON.parse(inputData) : inputData;
                 break;
@@ -383,6 +899,14 @@ export class WorkflowOrchestrator {
         step: WorkflowStep,
         execution: WorkflowExecution
     ): Promise<boolean> {
+        if (step.config.expression !== undefined) {
+            const result = Boolean(evaluateExpression(step.config.expression as string, this.expressionScope(execution)));
+            if (step.config.outputVariable) {
+                execution.variables[step.config.outputVariable as string] = result;
+            }
+            return result;
+        }
+
         const value = execution.variables[step.config.variable as string];
         const operator = step.config.operator as string;
         const compareValue = step.config.value;
@@ -421,11 +945,12 @@ export class WorkflowOrchestrator {
     }
 
     /**
-     * Execute a wait step
+     * Execute a wait step (only the remainder when resumed)
      */
-    private async executeWaitStep(step: WorkflowStep): Promise<void> {
+    private async executeWaitStep(step: WorkflowStep, startedAt: number): Promise<void> {
         const duration = (step.config.duration as number) || 1000;
-        await new Promise((resolve) => setTimeout(resolve, duration));
+        const remaining = Math.max(0, startedAt + duration - Date.now());
+        await new Promise((resolve) => setTimeout(resolve, remaining));
     }
 
     /**
@@ -435,43 +960,7 @@ export class WorkflowOrchestrator {
         webhookName: string,
         data: Record<string, unknown>
     ): Promise<unknown> {
-        const webhook = this.webhooks.get(webhookName);
-        if (!webhook) {
-            throw new Error(`Webhook not found: ${webhookName}`);
-        }
-
-        logger.info('Calling n8n webhook', { webhookName, url: webhook.url });
-
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            ...webhook.headers,
-        };
-
-        if (webhook.authentication) {
-            switch (webhook.authentication.type) {
-                case 'bearer':
-                    headers['Authorization'] = `Bearer ${webhook.authentication.credentials.token}`;
-                    break;
-                case 'api-key':
-                    headers[webhook.authentication.credentials.headerName || 'X-API-Key'] =
-                        webhook.authentication.credentials.key;
-                    break;
-                case 'basic':
-                    const auth = Buffer.from(
-                        `${webhook.authentication.credentials.username}:${webhook.authentication.credentials.password}`
-                    ).toString('base64');
-                    headers['Authorization'] = `Basic ${auth}`;
-                    break;
-            }
-        }
-
-        const response = await fetch(webhook.url, {
-            method: webhook.method,
-            headers,
-            body: JSON.stringify(data),
-        });
-
-        return response.json().catch(() => response.text());
+        return callN8nWebhook(webhookName, data);
     }
 
     /**
@@ -495,9 +984,11 @@ Return JSON: {
 Step types:
 - agent: LLM call with {prompt, systemPrompt, outputVariable}
 - http: HTTP request with {url, method, body, outputVariable}
-- transform: Data transform with {transformType: json-parse|extract|merge|template, ...}
-- condition: Check condition with {variable, operator, value, outputVariable}
-- wait: Delay with {duration}`,
+- transform: Data transform with {expression, outputVariable} or {transformType: json-parse|extract|merge|template, ...}
+- condition: Check condition with {expression, outputVariable}; steps depending on it are skipped when it is false
+- wait: Delay with {duration}
+Expressions can use variables.<name>, steps.<stepId>.output, comparisons, && || ! and ? :, e.g. "steps.check.output.status == 'ok'".
+Steps run in parallel once their dependsOn steps finish.`,
                 },
                 {
                     role: 'user',
@@ -524,23 +1015,247 @@ Step types:
     /**
      * Get execution status
      */
-    getExecution(executionId: string): WorkflowExecution | undefined {
-        return this.executions.get(executionId);
+    async getExecution(executionId: string): Promise<WorkflowExecution | undefined> {
+        return this.store.getExecution(executionId);
     }
 
     /**
-     * List recent executions
+     * List recent executions, newest first
      */
-    listExecutions(workflowId?: string): WorkflowExecution[] {
-        const executions = Array.from(this.executions.values());
-        if (workflowId) {
-            return executions.filter((e) => e.workflowId === workflowId);
+    async listExecutions(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+        return this.store.listExecutions(filter);
+    }
+
+    // Triggers
+
+    /**
+     * Replace the schedule and event triggers of a workflow
+     */
+    private activateTriggers(workflow: WorkflowDefinition): void {
+        this.deactivateTriggers(workflow.id);
+
+        const schedules: ActiveSchedule[] = [];
+        const subscriptions: Array<() => void> = [];
+        const now = new Date();
+
+        (workflow.triggers ?? []).forEach((trigger, index) => {
+            const input = (trigger.config.input as Record<string, unknown>) ?? {};
+            if (trigger.type === 'schedule') {
+                const schedule = parseCron(String(trigger.config.cron));
+                schedules.push({
+                    workflowId: workflow.id,
+                    triggerIndex: index,
+                    schedule,
+                    input,
+                    nextRunAt: nextCronTime(schedule, now),
+                });
+            } else if (trigger.type === 'event') {
+                const event = String(trigger.config.event);
+                subscriptions.push(this.events.subscribe(event, (payload, name) =>
+                    this.fireEvent(workflow.id, index, trigger, payload, name)
+                ));
+            }
+        });
+
+        this.schedules.set(workflow.id, schedules);
+        this.subscriptions.set(workflow.id, subscriptions);
+    }
+
+    private deactivateTriggers(workflowId: string): void {
+        for (const unsubscribe of this.subscriptions.get(workflowId) ?? []) {
+            unsubscribe();
+        }
+        this.subscriptions.delete(workflowId);
+        this.schedules.delete(workflowId);
+    }
+
+    private async fireEvent(
+        workflowId: string,
+        triggerIndex: number,
+        trigger: WorkflowTrigger,
+        payload: Record<string, unknown>,
+        event: string
+    ): Promise<void> {
+        const filter = (trigger.config.filter as Record<string, unknown>) ?? {};
+        if (!Object.entries(filter).every(([key, value]) => payload[key] === value)) {
+            return;
+        }
+
+        const key = `${workflowId}#${triggerIndex}`;
+        const cooldownMs = Number(trigger.config.cooldownMs ?? 0);
+        const lastRun = this.lastEventRun.get(key);
+        if (cooldownMs > 0 && lastRun !== undefined && Date.now() - lastRun < cooldownMs) {
+            return;
+        }
+        this.lastEventRun.set(key, Date.now());
+
+        const workflow = await this.store.getWorkflow(workflowId);
+        if (!workflow) {
+            return;
+        }
+        const input = { ...(trigger.config.input as Record<string, unknown>), ...payload, event };
+        const execution = await this.createExecution(workflow, input, { type: 'event', source: event });
+        if (execution) {
+            this.track(execution, workflow).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Start the executions of every schedule due at `now`. A run missed while
+     * the gateway was down is not caught up; each due time starts at most one
+     * execution across instances.
+     */
+    async runDueSchedules(now: Date = new Date()): Promise<number> {
+        let started = 0;
+
+        for (const schedules of Array.from(this.schedules.values())) {
+            for (const entry of schedules) {
+                if (!entry.nextRunAt || entry.nextRunAt.getTime() > now.getTime()) {
+                    continue;
+                }
+                const dueAt = entry.nextRunAt;
+                entry.nextRunAt = nextCronTime(entry.schedule, now);
+
+                const workflow = await this.store.getWorkflow(entry.workflowId);
+                if (!workflow) {
+                    continue;
+                }
+                const execution = await this.createExecution(
+                    workflow,
+                    entry.input,
+                    { type: 'schedule', source: entry.schedule.expression },
+                    `schedule:${entry.workflowId}:${entry.triggerIndex}:${dueAt.toISOString()}`
+                );
+                if (execution) {
+                    started++;
+                    this.track(execution, workflow).catch(() => undefined);
+                }
+            }
         }
-        return executions.sort((a, b) => b.startedAt - a.startedAt).slice(0, 100);
+
+        return started;
+    }
+
+    private scheduleNextTick(): void {
+        if (!this.started || !this.triggersEnabled) {
+            return;
+        }
+        if (this.schedulerTimer) {
+            clearTimeout(this.schedulerTimer);
+        }
+
+        const nextRuns = Array.from(this.schedules.values())
+            .flat()
+            .map((s) => s.nextRunAt?.getTime())
+            .filter((t): t is number => t !== undefined);
+        const delay = Math.min(MAX_SCHEDULER_SLEEP_MS, Math.max(0, Math.min(...nextRuns) - Date.now()));
+
+        this.schedulerTimer = setTimeout(() => {
+            this.runDueSchedules()
+                .catch((error) => {
+                    logger.error('Workflow scheduler failed', {
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                })
+                .finally(() => this.scheduleNextTick());
+        }, delay);
+        this.schedulerTimer.unref();
     }
 
     // Helper methods
 
+    /**
+     * Reject definitions that could not run; throws WorkflowError (INVALID)
+     */
+    private validateWorkflow(workflow: WorkflowDefinition): void {
+        if (!workflow.id || !workflow.name || !Array.isArray(workflow.steps)) {
+            throw new WorkflowError('Workflow id, name, and steps are required', 'INVALID');
+        }
+
+        const stepIds = new Set<string>();
+        for (const step of workflow.steps) {
+            if (!step.id || stepIds.has(step.id)) {
+                throw new WorkflowError(`Step ids must be unique and non-empty (${step.id || 'missing'})`, 'INVALID');
+            }
+            if (!STEP_TYPES.includes(step.type)) {
+                throw new WorkflowError(`Step ${step.id} has unknown type: ${step.type}`, 'INVALID');
+            }
+            stepIds.add(step.id);
+        }
+        for (const step of workflow.steps) {
+            const missing = (step.dependsOn ?? []).find((id) => !stepIds.has(id));
+            if (missing) {
+                throw new WorkflowError(`Step ${step.id} depends on unknown step: ${missing}`, 'INVALID');
+            }
+        }
+        try {
+            this.topologicalSort(workflow.steps);
+        } catch (error) {
+            throw new WorkflowError(error instanceof Error ? error.message : String(error), 'INVALID');
+        }
+        if (workflow.maxConcurrency !== undefined && (!Number.isInteger(workflow.maxConcurrency) || workflow.maxConcurrency < 1)) {
+            throw new WorkflowError('maxConcurrency must be a positive integer', 'INVALID');
+        }
+        for (const step of workflow.steps) {
+            this.validateExpressions(step, workflow.steps);
+        }
+
+        for (const trigger of workflow.triggers ?? []) {
+            if (!TRIGGER_TYPES.includes(trigger.type)) {
+                throw new WorkflowError(`Unknown trigger type: ${trigger.type}`, 'INVALID');
+            }
+            if (trigger.type === 'schedule') {
+                try {
+                    parseCron(String(trigger.config?.cron ?? ''));
+                } catch (error) {
+                    throw new WorkflowError(error instanceof Error ? error.message : String(error), 'INVALID');
+                }
+            }
+            if (trigger.type === 'event' && typeof trigger.config?.event !== 'string') {
+                throw new WorkflowError('Event triggers require config.event', 'INVALID');
+            }
+        }
+    }
+
+    /**
+     * Expressions must parse and may only reference steps that finish
+     * before this one (its direct or indirect dependencies)
+     */
+    private validateExpressions(step: WorkflowStep, steps: WorkflowStep[]): void {
+        const expressions: unknown[] = [];
+        if (step.when !== undefined) expressions.push(step.when);
+        if ((step.type === 'condition' || step.type === 'transform') && step.config?.expression !== undefined) {
+            expressions.push(step.config.expression);
+        }
+
+        const ancestors = new Set<string>();
+        const collect = (ids: string[] = []) => {
+            for (const id of ids) {
+                if (!ancestors.has(id)) {
+                    ancestors.add(id);
+                    collect(steps.find((s) => s.id === id)?.dependsOn);
+                }
+            }
+        };
+        collect(step.dependsOn);
+
+        for (const source of expressions) {
+            if (typeof source !== 'string') {
+                throw new WorkflowError(`Step ${step.id} has a non-string expression`, 'INVALID');
+            }
+            let references: Set<string>;
+            try {
+                references = compileExpression(source).stepReferences;
+            } catch (error) {
+                throw new WorkflowError(`Step ${step.id} has an invalid expression: ${error instanceof Error ? error.message : String(error)}`, 'INVALID');
+            }
+            const unknown = Array.from(references).find((id) => !ancestors.has(id));
+            if (unknown) {
+                throw new WorkflowError(`Step ${step.id} references step ${unknown}, which it does not depend on`, 'INVALID');
+            }
+        }
+    }
+
     private topologicalSort(steps: WorkflowStep[]): WorkflowStep[] {
         const sorted: WorkflowStep[] = [];
         const visited = new Set<string>();
@@ -593,6 +1308,6 @@ Step types:
     }
 }
 
-export function createWorkflowOrchestrator(llm: AgentLLM) {
-    return new WorkflowOrchestrator(llm);
+export function createWorkflowOrchestrator(llm: AgentLLM, options?: WorkflowOrchestratorOptions) {
+    return new WorkflowOrchestrator(llm, options);
 }
@@ -1,11 +1,15 @@
 /**
  * Analytics Aggregator - SQL queries for usage analytics
+ *
+ * A trace belongs to the project it was routed for (`request_traces.project_id`),
+ * or else to its conversation's project.
  */
 
 import { Pool } from 'pg';
 import type {
     AnalyticsQuery,
     AnalyticsResponse,
+    BudgetScope,
     LayerMetrics,
     ModelMetrics,
     DailyMetrics,
@@ -26,7 +30,7 @@ export class AnalyticsAggregator {
 
         if (projectId) {
             params.push(projectId);
-            conditions.push(`c.project_id = $${paramIndex++}`);
+            conditions.push(`COALESCE(rt.project_id, c.project_id) = $${paramIndex++}`);
         }
 
         if (userId) {
@@ -206,6 +210,23 @@ export class AnalyticsAggregator {
         }));
     }
 
+    /**
+     * Total cost of an organization's or project's requests since `since`
+     */
+    async getSpend(scope: BudgetScope, scopeId: string, since: Date): Promise<number> {
+        const query = `
+            SELECT COALESCE(SUM(rt.total_cost), 0) as cost
+            FROM request_traces rt
+            LEFT JOIN conversations c ON rt.conversation_id = c.id
+            ${scope === 'organization' ? 'JOIN projects p ON p.id = COALESCE(rt.project_id, c.project_id)' : ''}
+            WHERE rt.created_at >= $2
+              AND ${scope === 'organization' ? 'p.organization_id' : 'COALESCE(rt.project_id, c.project_id)'} = $1
+        `;
+
+        const result = await this.db.query(query, [scopeId, since]);
+        return parseFloat(result.rows[0].cost);
+    }
+
     /**
      * Get top N most expensive requests
      */
@@ -228,7 +249,7 @@ export class AnalyticsAggregator {
                 rt.created_at
             FROM request_traces rt
             LEFT JOIN conversations c ON rt.conversation_id = c.id
-            WHERE c.project_id = $1
+            WHERE COALESCE(rt.project_id, c.project_id) = $1
             ORDER BY rt.total_cost DESC
             LIMIT $2
         `;
@@ -264,7 +285,7 @@ export class AnalyticsAggregator {
             FROM request_traces rt
             LEFT JOIN conversations c ON rt.conversation_id = c.id
             CROSS JOIN LATERAL jsonb_array_elements(rt.llm_calls) AS llm_call
-            WHERE c.project_id = $1
+            WHERE COALESCE(rt.project_id, c.project_id) = $1
             GROUP BY llm_call->>'model'
             ORDER BY error_rate DESC
         `;
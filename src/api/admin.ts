@@ -1,6 +1,7 @@
 /**
  * @file Admin API Routes
- * @description API endpoints for admin dashboard - MCP tools settings and backend configurations.
+ * @description API endpoints for admin dashboard - MCP tools settings, backend configurations,
+ * routing policies and the semantic cache.
  * 
  * SECURITY NOTES (ATTT cấp 3):
  * - All routes require admin authentication
@@ -12,8 +13,26 @@ import { Router, Request, Response } from 'express';
 import { mcpToolSettingsService } from '../mcp/settings/index.js';
 import { McpToolSettingUpdateSchema, BackendConfigUpdateSchema } from '../mcp/settings/types.js';
 import { logger } from '../logging/logger.js';
+import { routingApprovalQueue, routingPolicyService, type ApprovalStatus } from '../db/routing-policies.js';
+import { PolicyMatcher, RoutingPolicySchema } from '../routing/policy.js';
+import {
+    loadHistoryFromTraces,
+    parseHistoryJsonl,
+    RouteSimulator,
+    SimulationScenarioSchema,
+} from '../routing/simulator.js';
+import { routeRequest } from '../routing/router.js';
+import { semanticCache } from '../cache/semantic.js';
+import type { JWTPayload } from '../db/auth.js';
 import { z } from 'zod';
 
+/**
+ * ID of the authenticated user (the auth middleware attaches the JWT payload)
+ */
+function getRequestUserId(req: Request): string {
+    return (req as unknown as { user?: JWTPayload }).user?.userId || 'anonymous';
+}
+
 /**
  * Create admin routes for MCP tools and backend configurations.
  */
@@ -344,20 +363,429 @@ export function createAdminRoutes(): Router {
         }
     });
 
+    // ==========================================================================
+    // Routing Policy Routes
+    // ==========================================================================
+
+    /**
+     * GET /admin/routing-policies
+     * List all routing policies, highest priority first.
+     */
+    router.get('/routing-policies', async (_req: Request, res: Response) => {
+        try {
+            const policies = await routingPolicyService.getPolicies();
+            res.json({
+                policies,
+                count: policies.length,
+            });
+        } catch (error) {
+            logger.error('Failed to list routing policies', { error });
+            res.status(500).json({
+                error: 'Failed to list routing policies',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * GET /admin/routing-policies/:id
+     * Get a single routing policy.
+     */
+    router.get('/routing-policies/:id', async (req: Request, res: Response) => {
+        try {
+            const policy = await routingPolicyService.getPolicy(req.params.id);
+            if (!policy) {
+                res.status(404).json({
+                    error: 'Routing policy not found',
+                    id: req.params.id,
+                });
+                return;
+            }
+            res.json(policy);
+        } catch (error) {
+            logger.error('Failed to get routing policy', { error, id: req.params.id });
+            res.status(500).json({
+                error: 'Failed to get routing policy',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * POST /admin/routing-policies
+     * Create a routing policy.
+     */
+    router.post('/routing-policies', async (req: Request, res: Response) => {
+        try {
+            const parseResult = RoutingPolicySchema.safeParse(req.body);
+            if (!parseResult.success) {
+                res.status(400).json({
+                    error: 'Invalid input',
+                    details: parseResult.error.errors,
+                });
+                return;
+            }
+
+            if (await routingPolicyService.getPolicy(parseResult.data.id)) {
+                res.status(409).json({
+                    error: 'Routing policy already exists',
+                    id: parseResult.data.id,
+                });
+                return;
+            }
+
+            const userId = getRequestUserId(req);
+            const policy = await routingPolicyService.savePolicy(parseResult.data, userId);
+
+            logger.info('Routing policy created via API', { id: policy.id, userId });
+
+            res.status(201).json({
+                success: true,
+                policy,
+            });
+        } catch (error) {
+            logger.error('Failed to create routing policy', { error });
+            res.status(500).json({
+                error: 'Failed to create routing policy',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * PUT /admin/routing-policies/:id
+     * Update a routing policy. Fields not provided keep their current value.
+     */
+    router.put('/routing-policies/:id', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const existing = await routingPolicyService.getPolicy(id);
+            if (!existing) {
+                res.status(404).json({
+                    error: 'Routing policy not found',
+                    id,
+                });
+                return;
+            }
+
+            const parseResult = RoutingPolicySchema.safeParse({ ...existing, ...req.body, id });
+            if (!parseResult.success) {
+                res.status(400).json({
+                    error: 'Invalid input',
+                    details: parseResult.error.errors,
+                });
+                return;
+            }
+
+            const userId = getRequestUserId(req);
+            const policy = await routingPolicyService.savePolicy(parseResult.data, userId);
+
+            logger.info('Routing policy updated via API', { id, userId });
+
+            res.json({
+                success: true,
+                policy,
+            });
+        } catch (error) {
+            logger.error('Failed to update routing policy', { error, id: req.params.id });
+            res.status(500).json({
+                error: 'Failed to update routing policy',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * DELETE /admin/routing-policies/:id
+     * Delete a routing policy.
+     */
+    router.delete('/routing-policies/:id', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const deleted = await routingPolicyService.deletePolicy(id);
+            if (!deleted) {
+                res.status(404).json({
+                    error: 'Routing policy not found',
+                    id,
+                });
+                return;
+            }
+
+            logger.info('Routing policy deleted via API', { id, userId: getRequestUserId(req) });
+
+            res.json({
+                success: true,
+                id,
+            });
+        } catch (error) {
+            logger.error('Failed to delete routing policy', { error, id: req.params.id });
+            res.status(500).json({
+                error: 'Failed to delete routing policy',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * POST /admin/routing-policies/simulate
+     * Dry-run routing without calling any model. Runs the given scenarios, replays
+     * `history` (JSONL, one request per line), or replays recent request traces.
+     * When `policies` is set, the result under those policies is reported next to
+     * the result under the current ones.
+     */
+    router.post('/routing-policies/simulate', async (req: Request, res: Response) => {
+        try {
+            const parseResult = z.object({
+                policies: z.array(RoutingPolicySchema).optional(),
+                scenarios: z.array(SimulationScenarioSchema).max(1000).optional(),
+                history: z.string().optional(),
+                traceLimit: z.number().int().min(1).max(5000).default(500),
+            }).safeParse(req.body ?? {});
+            if (!parseResult.success) {
+                res.status(400).json({
+                    error: 'Invalid input',
+                    details: parseResult.error.errors,
+                });
+                return;
+            }
+
+            const { policies, scenarios, history: jsonl, traceLimit } = parseResult.data;
+            const current = new RouteSimulator(await routingPolicyService.getMatcher());
+            const candidate = policies ? new RouteSimulator(new PolicyMatcher(policies)) : undefined;
+
+            if (scenarios) {
+                res.json({
+                    current: await current.batchSimulate(scenarios),
+                    candidate: candidate && await candidate.batchSimulate(scenarios),
+                });
+                return;
+            }
+
+            const history = jsonl !== undefined
+                ? parseHistoryJsonl(jsonl, 'request body')
+                : await loadHistoryFromTraces(traceLimit);
+            res.json({
+                current: await current.replay(history),
+                candidate: candidate && await candidate.replay(history),
+            });
+        } catch (error) {
+            logger.error('Failed to simulate routing', { error });
+            res.status(500).json({
+                error: 'Failed to simulate routing',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * GET /admin/routing-approvals
+     * List requests parked by routing policies (default: pending only).
+     */
+    router.get('/routing-approvals', async (req: Request, res: Response) => {
+        try {
+            const { status, limit } = req.query;
+            const approvals = await routingApprovalQueue.list(
+                status === 'all' ? undefined : ((status as ApprovalStatus | undefined) ?? 'pending'),
+                limit ? parseInt(limit as string) : 100,
+            );
+
+            res.json({
+                approvals,
+                count: approvals.length,
+            });
+        } catch (error) {
+            logger.error('Failed to list routing approvals', { error });
+            res.status(500).json({
+                error: 'Failed to list routing approvals',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * POST /admin/routing-approvals/:id/approve
+     * Approve a parked request and run it. The result is stored on the approval
+     * so the requester can fetch it from GET /v1/routing/approvals/:id.
+     */
+    router.post('/routing-approvals/:id/approve', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const userId = getRequestUserId(req);
+
+            const approval = await routingApprovalQueue.decide(id, {
+                status: 'approved',
+                decidedBy: userId,
+                reason: req.body?.reason,
+            });
+            if (!approval) {
+                res.status(404).json({
+                    error: 'Pending approval not found',
+                    id,
+                });
+                return;
+            }
+
+            logger.info('Routing approval granted via API', { id, policyId: approval.policyId, userId });
+
+            try {
+                const result = await routeRequest(approval.request, { ...approval.context, approvalId: id });
+                const completed = await routingApprovalQueue.recordOutcome(id, { result });
+                res.json({
+                    success: true,
+                    approval: completed,
+                });
+            } catch (runError) {
+                const message = runError instanceof Error ? runError.message : 'Unknown error';
+                const failed = await routingApprovalQueue.recordOutcome(id, { error: message });
+                logger.error('Approved request failed', { id, error: message });
+                res.status(502).json({
+                    error: 'Approved request failed',
+                    message,
+                    approval: failed,
+                });
+            }
+        } catch (error) {
+            logger.error('Failed to approve routing request', { error, id: req.params.id });
+            res.status(500).json({
+                error: 'Failed to approve routing request',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * POST /admin/routing-approvals/:id/reject
+     * Reject a parked request.
+     */
+    router.post('/routing-approvals/:id/reject', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const userId = getRequestUserId(req);
+
+            const approval = await routingApprovalQueue.decide(id, {
+                status: 'rejected',
+                decidedBy: userId,
+                reason: req.body?.reason,
+            });
+            if (!approval) {
+                res.status(404).json({
+                    error: 'Pending approval not found',
+                    id,
+                });
+                return;
+            }
+
+            logger.info('Routing approval rejected via API', { id, policyId: approval.policyId, userId });
+
+            res.json({
+                success: true,
+                approval,
+            });
+        } catch (error) {
+            logger.error('Failed to reject routing request', { error, id: req.params.id });
+            res.status(500).json({
+                error: 'Failed to reject routing request',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    // ==========================================================================
+    // Semantic Cache Routes
+    // ==========================================================================
+
+    /**
+     * GET /admin/semantic-cache?scope=project:layer:model
+     * List semantic cache entries (embeddings omitted), newest first.
+     */
+    router.get('/semantic-cache', async (req: Request, res: Response) => {
+        try {
+            const scope = req.query.scope as string | undefined;
+            const entries = await semanticCache.list(scope);
+
+            res.json({
+                enabled: semanticCache.enabled,
+                entries,
+                count: entries.length,
+            });
+        } catch (error) {
+            logger.error('Failed to list semantic cache entries', { error });
+            res.status(500).json({
+                error: 'Failed to list semantic cache entries',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * DELETE /admin/semantic-cache?scope=project:layer:model
+     * Purge all semantic cache entries, or those of one scope.
+     */
+    router.delete('/semantic-cache', async (req: Request, res: Response) => {
+        try {
+            const scope = req.query.scope as string | undefined;
+            const deleted = await semanticCache.purge(scope);
+
+            logger.info('Semantic cache purged via API', { scope, deleted, userId: getRequestUserId(req) });
+
+            res.json({
+                success: true,
+                deleted,
+            });
+        } catch (error) {
+            logger.error('Failed to purge semantic cache', { error });
+            res.status(500).json({
+                error: 'Failed to purge semantic cache',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
+    /**
+     * DELETE /admin/semantic-cache/:id
+     * Delete a single semantic cache entry.
+     */
+    router.delete('/semantic-cache/:id', async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const deleted = await semanticCache.delete(id);
+            if (!deleted) {
+                res.status(404).json({
+                    error: 'Semantic cache entry not found',
+                    id,
+                });
+                return;
+            }
+
+            logger.info('Semantic cache entry deleted via API', { id, userId: getRequestUserId(req) });
+
+            res.json({
+                success: true,
+                id,
+            });
+        } catch (error) {
+            logger.error('Failed to delete semantic cache entry', { error, id: req.params.id });
+            res.status(500).json({
+                error: 'Failed to delete semantic cache entry',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    });
+
     // ==========================================================================
     // Audit Log Routes
     // ==========================================================================
 
     /**
      * GET /admin/audit-logs
-     * Get audit logs for settings changes.
+     * Get audit logs for settings changes and MCP tool calls.
      */
     router.get('/audit-logs', async (req: Request, res: Response) => {
         try {
             const { entityType, entityId, userId, since, limit } = req.query;
 
             const logs = await mcpToolSettingsService.getAuditLogs({
-                entityType: entityType as 'tool_setting' | 'backend_config' | undefined,
+                entityType: entityType as 'tool_setting' | 'backend_config' | 'tool_call' | undefined,
                 entityId: entityId as string | undefined,
                 userId: userId as string | undefined,
                 since: since as string | undefined,
@@ -4,6 +4,7 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import { logger } from '../logging/logger.js';
 import { callLLM } from '../tools/llm/index.js';
 import { getModelsByLayer, ModelConfig } from '../config/models.js';
@@ -23,6 +24,15 @@ import {
     type ReActTool,
 } from '../agents/index.js';
 import { createDocumentSynthesizer } from '../agents/documentSynthesizer.js';
+import type { WorkflowExecution } from '../agents/workflowOrchestrator.js';
+
+/**
+ * Event published through the API; payloads become workflow input
+ */
+const PublishEventSchema = z.object({
+    event: z.string().min(1).max(200).regex(/^[\w.:-]+$/, 'Event names may only contain letters, digits, _ . : -'),
+    payload: z.record(z.unknown()).default({}),
+});
 
 /**
  * Simple LLM wrapper for agents
@@ -752,6 +762,28 @@ export function createAgentRoutes(): Router {
         return _workflowOrchestrator;
     };
 
+    // Start eagerly: resume interrupted executions and fire schedule/event triggers
+    getWorkflowOrchestrator()
+        .then((orchestrator) => orchestrator.start())
+        .catch((error) => {
+            logger.error('Failed to start workflow engine', { error });
+        });
+
+    /**
+     * Map workflow errors to HTTP status codes
+     */
+    const sendWorkflowError = async (res: Response, error: unknown, fallback: string) => {
+        const { WorkflowError } = await import('../agents/workflowOrchestrator.js');
+        if (error instanceof WorkflowError) {
+            const status = { NOT_FOUND: 404, INVALID: 400, CONFLICT: 409 }[error.code];
+            res.status(status).json({ error: error.message, code: error.code });
+            return;
+        }
+        res.status(500).json({
+            error: error instanceof Error ? error.message : fallback,
+        });
+    };
+
     /**
      * Register a workflow
      * POST /v1/agents/workflows
@@ -766,14 +798,12 @@ export function createAgentRoutes(): Router {
             }
 
             const workflowOrchestrator = await getWorkflowOrchestrator();
-            workflowOrchestrator.registerWorkflow(workflow);
+            await workflowOrchestrator.registerWorkflow(workflow);
 
             res.json({ success: true, message: `Workflow ${workflow.id} registered`, workflow });
         } catch (error) {
             logger.error('Register workflow error', { error });
-            res.status(500).json({
-                error: error instanceof Error ? error.message : 'Failed to register workflow',
-            });
+            await sendWorkflowError(res, error, 'Failed to register workflow');
         }
     });
 
@@ -784,8 +814,8 @@ export function createAgentRoutes(): Router {
     router.get('/workflows', async (_req: Request, res: Response) => {
         try {
             const workflowOrchestrator = await getWorkflowOrchestrator();
-            const workflows = workflowOrchestrator.listWorkflows();
-            res.json({ workflows });
+            const workflows = await workflowOrchestrator.listWorkflows();
+            res.json({ workflows, schedules: workflowOrchestrator.listSchedules() });
         } catch (error) {
             logger.error('List workflows error', { error });
             res.status(500).json({
@@ -794,6 +824,61 @@ export function createAgentRoutes(): Router {
         }
     });
 
+    /**
+     * List workflow executions, newest first
+     * GET /v1/agents/workflows/executions?workflowId=&status=&limit=&offset=
+     */
+    router.get('/workflows/executions', async (req: Request, res: Response) => {
+        try {
+            const workflowOrchestrator = await getWorkflowOrchestrator();
+            const executions = await workflowOrchestrator.listExecutions({
+                workflowId: req.query.workflowId as string | undefined,
+                status: req.query.status as WorkflowExecution['status'] | undefined,
+                limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+                offset: req.query.offset ? parseInt(req.query.offset as string, 10) : undefined,
+            });
+            res.json({ executions });
+        } catch (error) {
+            logger.error('List executions error', { error });
+            res.status(500).json({
+                error: error instanceof Error ? error.message : 'Failed to list executions',
+            });
+        }
+    });
+
+    /**
+     * Publish a custom event (fires workflows with a matching event trigger).
+     * Built-in event namespaces (quota., budget., provider., workflow.) are reserved.
+     * POST /v1/agents/workflows/events
+     */
+    router.post('/workflows/events', async (req: Request, res: Response) => {
+        try {
+            const parseResult = PublishEventSchema.safeParse(req.body ?? {});
+            if (!parseResult.success) {
+                res.status(400).json({
+                    error: 'Invalid input',
+                    details: parseResult.error.errors,
+                });
+                return;
+            }
+            const { event, payload } = parseResult.data;
+
+            const { eventBus, isReservedEventName } = await import('../infrastructure/events.js');
+            if (isReservedEventName(event)) {
+                res.status(403).json({ error: `Event '${event}' is reserved for gateway events` });
+                return;
+            }
+            eventBus.emit(event, payload);
+
+            res.status(202).json({ success: true, event });
+        } catch (error) {
+            logger.error('Publish event error', { error });
+            res.status(500).json({
+                error: error instanceof Error ? error.message : 'Failed to publish event',
+            });
+        }
+    });
+
     /**
      * Get a specific workflow
      * GET /v1/agents/workflows/:workflowId
@@ -801,7 +886,7 @@ export function createAgentRoutes(): Router {
     router.get('/workflows/:workflowId', async (req: Request, res: Response) => {
         try {
             const workflowOrchestrator = await getWorkflowOrchestrator();
-            const workflow = workflowOrchestrator.getWorkflow(req.params.workflowId);
+            const workflow = await workflowOrchestrator.getWorkflow(req.params.workflowId);
 
             if (!workflow) {
                 res.status(404).json({ error: 'Workflow not found' });
@@ -817,24 +902,47 @@ export function createAgentRoutes(): Router {
         }
     });
 
+    /**
+     * Delete a workflow (its executions are kept)
+     * DELETE /v1/agents/workflows/:workflowId
+     */
+    router.delete('/workflows/:workflowId', async (req: Request, res: Response) => {
+        try {
+            const workflowOrchestrator = await getWorkflowOrchestrator();
+            const deleted = await workflowOrchestrator.deleteWorkflow(req.params.workflowId);
+
+            if (!deleted) {
+                res.status(404).json({ error: 'Workflow not found' });
+                return;
+            }
+
+            res.json({ success: true, message: `Workflow ${req.params.workflowId} deleted` });
+        } catch (error) {
+            logger.error('Delete workflow error', { error });
+            res.status(500).json({
+                error: error instanceof Error ? error.message : 'Failed to delete workflow',
+            });
+        }
+    });
+
     /**
      * Execute a workflow
-     * POST /v1/agents/workflows/:workflowId/execute
+     * POST /v1/agents/workflows/:workflowId/execute[?async=true]
+     * With async=true responds 202 with the started execution instead of waiting for it
      */
     router.post('/workflows/:workflowId/execute', async (req: Request, res: Response) => {
         try {
             const { workflowId } = req.params;
             const input = req.body;
+            const wait = req.query.async !== 'true';
 
             const workflowOrchestrator = await getWorkflowOrchestrator();
-            const execution = await workflowOrchestrator.executeWorkflow(workflowId, input);
+            const execution = await workflowOrchestrator.executeWorkflow(workflowId, input, { wait });
 
-            res.json(execution);
+            res.status(wait ? 200 : 202).json(execution);
         } catch (error) {
             logger.error('Execute workflow error', { error });
-            res.status(500).json({
-                error: error instanceof Error ? error.message : 'Failed to execute workflow',
-            });
+            await sendWorkflowError(res, error, 'Failed to execute workflow');
         }
     });
 
@@ -845,7 +953,7 @@ export function createAgentRoutes(): Router {
     router.get('/workflows/executions/:executionId', async (req: Request, res: Response) => {
         try {
             const workflowOrchestrator = await getWorkflowOrchestrator();
-            const execution = workflowOrchestrator.getExecution(req.params.executionId);
+            const execution = await workflowOrchestrator.getExecution(req.params.executionId);
 
             if (!execution) {
                 res.status(404).json({ error: 'Execution not found' });
@@ -861,6 +969,36 @@ export function createAgentRoutes(): Router {
         }
     });
 
+    /**
+     * Cancel a running execution (stops before its next step)
+     * POST /v1/agents/workflows/executions/:executionId/cancel
+     */
+    router.post('/workflows/executions/:executionId/cancel', async (req: Request, res: Response) => {
+        try {
+            const workflowOrchestrator = await getWorkflowOrchestrator();
+            const execution = await workflowOrchestrator.cancelExecution(req.params.executionId);
+            res.json(execution);
+        } catch (error) {
+            logger.error('Cancel execution error', { error });
+            await sendWorkflowError(res, error, 'Failed to cancel execution');
+        }
+    });
+
+    /**
+     * Resume a failed or cancelled execution from its last completed step
+     * POST /v1/agents/workflows/executions/:executionId/resume
+     */
+    router.post('/workflows/executions/:executionId/resume', async (req: Request, res: Response) => {
+        try {
+            const workflowOrchestrator = await getWorkflowOrchestrator();
+            const execution = await workflowOrchestrator.resumeExecution(req.params.executionId);
+            res.status(202).json(execution);
+        } catch (error) {
+            logger.error('Resume execution error', { error });
+            await sendWorkflowError(res, error, 'Failed to resume execution');
+        }
+    });
+
     /**
      * Generate a workflow from natural language
      * POST /v1/agents/workflows/generate
@@ -976,7 +1114,9 @@ export function createAgentRoutes(): Router {
 
                 case 'execute-workflow':
                     const wfOrchestrator = await getWorkflowOrchestrator();
-                    result = await wfOrchestrator.executeWorkflow(payload.workflowId, payload.input);
+                    result = await wfOrchestrator.executeWorkflow(payload.workflowId, payload.input, {
+                        trigger: { type: 'webhook', source: 'n8n' },
+                    });
                     break;
 
                 case 'decompose-task':
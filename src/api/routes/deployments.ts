@@ -5,9 +5,13 @@
  * Endpoints:
  * POST   /v1/deployments/check         - Check if message is deployment request
  * POST   /v1/deployments/generate      - Generate commands
+ * GET    /v1/deployments               - List deployment sessions
+ * GET    /v1/deployments/history       - List executed commands across sessions
  * GET    /v1/deployments/:id           - Get deployment session
  * POST   /v1/deployments/:id/confirm   - Confirm/reject execution
+ * POST   /v1/deployments/:id/execute   - Run approved commands server-side (SSE progress)
  * POST   /v1/deployments/:id/result    - Record command result
+ * POST   /v1/deployments/:id/finalize  - Finalize execution session
  * GET    /v1/deployments/:id/results   - Get execution results
  * DELETE /v1/deployments/:id           - Cancel deployment
  */
@@ -16,7 +20,12 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { logger } from '../../logging/logger.js';
 import ChatDeploymentHandler from '../../services/chat/chatDeploymentHandler.js';
-import type { CommandGenerationResponse } from '../../services/chat/commandGeneration.js';
+import { CommandConfirmationSchema, type CommandGenerationResponse } from '../../services/chat/commandGeneration.js';
+import type { JWTPayload } from '../../db/auth.js';
+import { db } from '../../db/postgres.js';
+import { TerminalConnectionService } from '../../db/terminal-connections.js';
+import { openConnectionRunner, type ConnectionRunner } from '../../services/chat/deploymentExecutor.js';
+import { ApprovalPolicyError, type Approver } from '../../services/chat/approvalPolicy.js';
 
 const router = Router();
 const deploymentHandler = new ChatDeploymentHandler();
@@ -39,6 +48,27 @@ const GenerateRequestSchema = z.object({
 const ConfirmRequestSchema = z.object({
     approved: z.boolean(),
     selectedCommandIds: z.array(z.string()).optional(),
+    reason: z.string().max(1000).optional().describe('Why the deployment was rejected'),
+});
+
+const ExecuteRequestSchema = CommandConfirmationSchema.pick({ timeout: true }).extend({
+    timeout: z.number().int().min(1000).max(600000).optional(),
+});
+
+const SessionListQuerySchema = z.object({
+    userId: z.string().optional(),
+    status: z.enum(['pending', 'confirmed', 'executing', 'completed', 'failed', 'cancelled']).optional(),
+    targetDevice: z.string().optional(),
+    since: z.string().datetime().optional(),
+    until: z.string().datetime().optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional(),
+    offset: z.coerce.number().int().min(0).optional(),
+});
+
+const HistoryQuerySchema = SessionListQuerySchema.omit({ status: true }).extend({
+    sessionId: z.string().optional(),
+    commandId: z.string().optional(),
+    success: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
 });
 
 const ResultRequestSchema = z.object({
@@ -50,6 +80,38 @@ const ResultRequestSchema = z.object({
     duration: z.number(),
 });
 
+function getRequestUserId(req: Request): string {
+    return (req as unknown as { user?: JWTPayload }).user?.userId || 'anonymous';
+}
+
+function getRequestApprover(req: Request): Approver {
+    return {
+        userId: getRequestUserId(req),
+        role: (req as unknown as { user?: JWTPayload }).user?.role,
+    };
+}
+
+let terminalConnectionService: TerminalConnectionService | null = null;
+
+async function getTerminalConnectionService(): Promise<TerminalConnectionService> {
+    if (!terminalConnectionService) {
+        if (!db.isReady()) {
+            throw new Error('Database not ready');
+        }
+        terminalConnectionService = new TerminalConnectionService(db.getPool());
+        await terminalConnectionService.initialize();
+    }
+    return terminalConnectionService;
+}
+
+const APPROVAL_ERROR_STATUS: Record<ApprovalPolicyError['code'], number> = {
+    invalid: 400,
+    forbidden: 403,
+    duplicate: 409,
+    closed: 409,
+    expired: 410,
+};
+
 /**
  * POST /v1/deployments/check
  * Check if message is a deployment request
@@ -120,7 +182,7 @@ router.post('/generate', async (req: Request, res: Response) => {
         );
 
         // Get display and session
-        const displayInfo = deploymentHandler.getGenerationDisplay(generationId);
+        const displayInfo = await deploymentHandler.getGenerationDisplay(generationId, getRequestUserId(req));
 
         if (!displayInfo) {
             return res.status(500).json({
@@ -173,15 +235,57 @@ router.post('/generate', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /v1/deployments
+ * List deployment sessions, newest first
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const filter = SessionListQuerySchema.parse(req.query);
+        const sessions = await deploymentHandler.listExecutionSessions(filter);
+
+        return res.json({ sessions, count: sessions.length });
+    } catch (error) {
+        logger.error('[DeploymentAPI] List sessions failed', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        return res.status(error instanceof z.ZodError ? 400 : 500).json({
+            error: 'Failed to list sessions',
+            details: error instanceof Error ? error.message : String(error),
+        });
+    }
+});
+
+/**
+ * GET /v1/deployments/history
+ * List executed commands across sessions, newest first
+ */
+router.get('/history', async (req: Request, res: Response) => {
+    try {
+        const filter = HistoryQuerySchema.parse(req.query);
+        const history = await deploymentHandler.getCommandHistory(filter);
+
+        return res.json({ history, count: history.length });
+    } catch (error) {
+        logger.error('[DeploymentAPI] History fetch failed', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        return res.status(error instanceof z.ZodError ? 400 : 500).json({
+            error: 'Failed to retrieve command history',
+            details: error instanceof Error ? error.message : String(error),
+        });
+    }
+});
+
 /**
  * GET /v1/deployments/:id
  * Get deployment session details
  */
-router.get('/:sessionId', (req: Request, res: Response) => {
+router.get('/:sessionId', async (req: Request, res: Response) => {
     try {
         const { sessionId } = req.params;
 
-        const session = deploymentHandler.getExecutionSession(sessionId);
+        const session = await deploymentHandler.getExecutionSession(sessionId);
 
         if (!session) {
             return res.status(404).json({
@@ -203,12 +307,13 @@ router.get('/:sessionId', (req: Request, res: Response) => {
 
 /**
  * POST /v1/deployments/:id/confirm
- * Confirm or reject deployment execution
+ * Approve or reject deployment execution under the approval policy
+ * (high risk: another user; critical: two admins)
  */
 router.post('/:sessionId/confirm', async (req: Request, res: Response) => {
     try {
         const { sessionId } = req.params;
-        const { approved, selectedCommandIds } = ConfirmRequestSchema.parse(req.body);
+        const { approved, selectedCommandIds, reason } = ConfirmRequestSchema.parse(req.body);
 
         logger.info('[DeploymentAPI] Processing confirmation', {
             sessionId,
@@ -216,10 +321,19 @@ router.post('/:sessionId/confirm', async (req: Request, res: Response) => {
             commandCount: selectedCommandIds?.length,
         });
 
+        if (!(await deploymentHandler.getExecutionSession(sessionId))) {
+            return res.status(404).json({
+                error: 'Session not found',
+                sessionId,
+            });
+        }
+
         const result = await deploymentHandler.handleUserConfirmation(
             sessionId,
             approved,
-            selectedCommandIds
+            selectedCommandIds,
+            getRequestApprover(req),
+            reason
         );
 
         return res.json({
@@ -228,8 +342,21 @@ router.post('/:sessionId/confirm', async (req: Request, res: Response) => {
             status: result.session.status,
             message: result.message,
             commandIds: result.session.commandIds,
+            approval: result.approval,
         });
     } catch (error) {
+        if (error instanceof ApprovalPolicyError) {
+            logger.warn('[DeploymentAPI] Approval not allowed', {
+                sessionId: req.params.sessionId,
+                code: error.code,
+                error: error.message,
+            });
+            return res.status(APPROVAL_ERROR_STATUS[error.code]).json({
+                error: 'Approval not allowed',
+                code: error.code,
+                details: error.message,
+            });
+        }
         logger.error('[DeploymentAPI] Confirmation failed', {
             error: error instanceof Error ? error.message : String(error),
         });
@@ -240,11 +367,111 @@ router.post('/:sessionId/confirm', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /v1/deployments/:id/execute
+ * Run the approved commands on the session's saved connection.
+ * Progress is streamed as Server-Sent Events, one JSON object per event.
+ */
+router.post('/:sessionId/execute', async (req: Request, res: Response) => {
+    const { sessionId } = req.params;
+    let runner: ConnectionRunner | undefined;
+
+    try {
+        const { timeout } = ExecuteRequestSchema.parse(req.body ?? {});
+
+        const session = await deploymentHandler.getExecutionSession(sessionId);
+        if (!session) {
+            return res.status(404).json({
+                error: 'Session not found',
+                sessionId,
+            });
+        }
+        if (session.status !== 'confirmed') {
+            return res.status(409).json({
+                error: 'Session is not approved for execution',
+                sessionId,
+                status: session.status,
+            });
+        }
+        if (!session.connectionId) {
+            return res.status(400).json({
+                error: 'Session has no saved connection',
+                sessionId,
+            });
+        }
+
+        const service = await getTerminalConnectionService();
+        const connection = await service.getById(session.connectionId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                connectionId: session.connectionId,
+            });
+        }
+
+        try {
+            runner = await openConnectionRunner(connection, await service.getCredentials(connection.id));
+        } catch (error) {
+            logger.error('[DeploymentAPI] Device connection failed', {
+                sessionId,
+                connectionId: connection.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return res.status(502).json({
+                error: 'Failed to connect to device',
+                details: error instanceof Error ? error.message : String(error),
+            });
+        }
+
+        logger.info('[DeploymentAPI] Executing session', {
+            sessionId,
+            connectionId: connection.id,
+            commandCount: session.commandIds.length,
+        });
+
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.setHeader('X-Accel-Buffering', 'no');
+        res.flushHeaders();
+
+        // Execution continues if the client disconnects; results are still recorded
+        const summary = await deploymentHandler.executeSession(sessionId, runner, {
+            timeout,
+            onProgress: (event) => {
+                if (!res.writableEnded) {
+                    res.write(`data: ${JSON.stringify(event)}\n\n`);
+                }
+            },
+        });
+        if (!summary) {
+            res.write(`data: ${JSON.stringify({ type: 'error', message: 'Session is no longer approved for execution' })}\n\n`);
+        }
+        return res.end();
+    } catch (error) {
+        logger.error('[DeploymentAPI] Execution failed', {
+            sessionId,
+            error: error instanceof Error ? error.message : String(error),
+        });
+        if (res.headersSent) {
+            res.write(`data: ${JSON.stringify({ type: 'error', message: error instanceof Error ? error.message : String(error) })}\n\n`);
+            return res.end();
+        }
+        return res.status(error instanceof z.ZodError ? 400 : 500).json({
+            error: 'Failed to execute deployment',
+            details: error instanceof Error ? error.message : String(error),
+        });
+    } finally {
+        await runner?.close();
+    }
+});
+
 /**
  * POST /v1/deployments/:id/result
  * Record command execution result
  */
-router.post('/:sessionId/result', (req: Request, res: Response) => {
+router.post('/:sessionId/result', async (req: Request, res: Response) => {
     try {
         const { sessionId } = req.params;
         const result = ResultRequestSchema.parse(req.body);
@@ -255,7 +482,7 @@ router.post('/:sessionId/result', (req: Request, res: Response) => {
             success: result.success,
         });
 
-        const recorded = deploymentHandler.recordExecutionResult(sessionId, result.commandId, {
+        const recorded = await deploymentHandler.recordExecutionResult(sessionId, result.commandId, {
             success: result.success,
             stdout: result.stdout,
             stderr: result.stderr,
@@ -290,7 +517,7 @@ router.post('/:sessionId/result', (req: Request, res: Response) => {
  * POST /v1/deployments/:id/finalize
  * Finalize execution session
  */
-router.post('/:sessionId/finalize', (req: Request, res: Response) => {
+router.post('/:sessionId/finalize', async (req: Request, res: Response) => {
     try {
         const { sessionId } = req.params;
         const { success, error } = req.body;
@@ -300,7 +527,7 @@ router.post('/:sessionId/finalize', (req: Request, res: Response) => {
             success,
         });
 
-        const finalSession = deploymentHandler.finalizeExecution(sessionId, success, error);
+        const finalSession = await deploymentHandler.finalizeExecution(sessionId, success, error);
 
         if (!finalSession) {
             return res.status(404).json({
@@ -309,7 +536,7 @@ router.post('/:sessionId/finalize', (req: Request, res: Response) => {
             });
         }
 
-        const resultsDisplay = deploymentHandler.getResultsDisplay(sessionId);
+        const resultsDisplay = await deploymentHandler.getResultsDisplay(sessionId);
 
         return res.json({
             sessionId,
@@ -333,11 +560,11 @@ router.post('/:sessionId/finalize', (req: Request, res: Response) => {
  * GET /v1/deployments/:id/results
  * Get formatted execution results
  */
-router.get('/:sessionId/results', (req: Request, res: Response) => {
+router.get('/:sessionId/results', async (req: Request, res: Response) => {
     try {
         const { sessionId } = req.params;
 
-        const session = deploymentHandler.getExecutionSession(sessionId);
+        const session = await deploymentHandler.getExecutionSession(sessionId);
 
         if (!session) {
             return res.status(404).json({
@@ -346,7 +573,7 @@ router.get('/:sessionId/results', (req: Request, res: Response) => {
             });
         }
 
-        const display = deploymentHandler.getResultsDisplay(sessionId);
+        const display = await deploymentHandler.getResultsDisplay(sessionId);
 
         return res.json({
             sessionId,
@@ -356,7 +583,7 @@ router.get('/:sessionId/results', (req: Request, res: Response) => {
             summary: {
                 totalCommands: session.commandIds.length,
                 executedCommands: session.results?.length || 0,
-                successCount: session.results?.filter((r: any) => r.success).length || 0,
+                successCount: session.results?.filter((r) => r.success).length || 0,
             },
         });
     } catch (error) {
@@ -373,7 +600,7 @@ router.get('/:sessionId/results', (req: Request, res: Response) => {
  * DELETE /v1/deployments/:id
  * Cancel deployment execution
  */
-router.delete('/:sessionId', (req: Request, res: Response) => {
+router.delete('/:sessionId', async (req: Request, res: Response) => {
     try {
         const { sessionId } = req.params;
         const { reason } = req.body || {};
@@ -383,7 +610,7 @@ router.delete('/:sessionId', (req: Request, res: Response) => {
             reason,
         });
 
-        const cancelled = deploymentHandler.cancelExecution(sessionId, reason);
+        const cancelled = await deploymentHandler.cancelExecution(sessionId, reason);
 
         if (!cancelled) {
             return res.status(404).json({
@@ -3,11 +3,12 @@
  * @description REST endpoints for MikroTik Command Builder
  * 
  * Endpoints:
- * GET    /mikrotik/:deviceId/facts     - Get device facts
+ * GET    /mikrotik/:deviceId/facts     - Get last collected device facts
+ * POST   /mikrotik/:deviceId/facts     - Collect device facts over SSH
  * POST   /mikrotik/plan                - Generate Plan JSON from intent (AI)
  * POST   /mikrotik/compile             - Compile Plan JSON to commands
  * POST   /mikrotik/validate            - Validate Plan JSON
- * POST   /mikrotik/apply               - Apply commands (dry-run or execute)
+ * POST   /mikrotik/apply               - Apply compiled commands (dry-run or execute over SSH)
  */
 
 import { Router, Request, Response } from 'express';
@@ -15,8 +16,14 @@ import { z } from 'zod';
 import { logger } from '../../logging/logger.js';
 import { compilePlan } from '../../mikrotik/compiler.js';
 import { validatePlan } from '../../mikrotik/validation/policy.js';
-import type { MikrotikPlan, DeviceFacts } from '../../mikrotik/types.js';
+import { applyCompiledResult } from '../../mikrotik/executor.js';
+import { collectDeviceFacts, getCachedDeviceFacts, getFactsAge } from '../../mikrotik/facts.js';
+import type { MikrotikPlan, CompiledResult } from '../../mikrotik/types.js';
+import { MikrotikSSH } from '../../services/mikrotik/client.js';
+import { MikrotikManager } from '../../services/mikrotik/manager.js';
 import { routeRequest } from '../../routing/router.js';
+import { QuotaExceededError } from '../../quota/enforcer.js';
+import { BudgetExceededError } from '../../quota/budgets.js';
 import type { LLMRequest, RoutingContext } from '../../mcp/types.js';
 
 const router = Router();
@@ -42,53 +49,53 @@ const ValidateRequestSchema = z.object({
     facts: z.any(), // DeviceFacts
 });
 
+const ConnectionSchema = z.object({
+    host: z.string(),
+    port: z.number().int().positive().optional(),
+    username: z.string(),
+    password: z.string().optional(),
+    privateKey: z.string().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+});
+
+const FactsRequestSchema = z.object({
+    connection: ConnectionSchema,
+    maxAge: z.number().int().min(0).optional(), // Reuse cached facts younger than this (seconds)
+});
+
 const ApplyRequestSchema = z.object({
     changeId: z.string(),
-    commands: z.array(z.string()),
+    commands: z.array(z.string()).optional(),
+    compiled: z.any().optional(), // CompiledResult, required for apply
+    plan: z.any().optional(), // MikrotikPlan, required for apply (policy, PostChecks, step risk)
     executionMode: z.enum(['dryRun', 'apply']),
     deviceId: z.string(),
+    connection: ConnectionSchema.optional(), // Required for apply
 });
 
 /**
  * GET /mikrotik/:deviceId/facts
- * Get device facts (mock for now, in production would query RouterOS API)
+ * Get the facts last collected from the device, with their age
  */
-router.get('/:deviceId/facts', (req: Request, res: Response) => {
+router.get('/:deviceId/facts', async (req: Request, res: Response) => {
     try {
-        const { deviceId } = req.params;
+        const deviceId = req.params.deviceId as string;
+        const collected = await getCachedDeviceFacts(deviceId);
 
-        // Mock facts (in production, fetch from RouterOS API)
-        const facts: DeviceFacts = {
-            deviceId,
-            routeros: '7.16',
-            model: 'CCR2116',
-            interfaces: [
-                { name: 'ether1', type: 'ether', disabled: false, comment: 'WAN1' },
-                { name: 'ether2', type: 'ether', disabled: false, comment: 'WAN2' },
-                { name: 'ether3', type: 'ether', disabled: false },
-                { name: 'br-lan', type: 'bridge', disabled: false, comment: 'LAN Bridge' },
-            ],
-            bridges: [
-                { name: 'br-lan', vlanFiltering: false, ports: ['ether3', 'ether4', 'ether5'] },
-            ],
-            vlans: [],
-            ipAddresses: [
-                { address: '192.168.1.1/24', interface: 'br-lan', disabled: false },
-            ],
-            services: [
-                { name: 'winbox', port: 8291, disabled: false, address: '' },
-                { name: 'ssh', port: 22, disabled: false, address: '' },
-                { name: 'www', port: 80, disabled: true },
-            ],
-            routes: [],
-            systemIdentity: 'MikroTik',
-            dnsServers: ['8.8.8.8', '8.8.4.4'],
-        };
+        if (!collected) {
+            res.status(404).json({
+                error: 'No facts collected for device',
+                details: `POST /mikrotik/${deviceId}/facts with connection details to collect them`,
+            });
+            return;
+        }
 
         res.json({
             deviceId,
-            facts,
-            timestamp: new Date().toISOString(),
+            facts: collected.facts,
+            timestamp: collected.collectedAt,
+            ageSeconds: getFactsAge(collected),
+            errors: collected.errors,
         });
     } catch (error) {
         logger.error('[MikroTikAPI] Get facts failed', {
@@ -101,6 +108,80 @@ router.get('/:deviceId/facts', (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /mikrotik/:deviceId/facts
+ * Collect facts from the device over SSH and cache them
+ */
+router.post('/:deviceId/facts', async (req: Request, res: Response) => {
+    const deviceId = req.params.deviceId as string;
+    let body: z.infer<typeof FactsRequestSchema>;
+    try {
+        body = FactsRequestSchema.parse(req.body);
+    } catch (error) {
+        res.status(400).json({
+            error: 'Failed to collect device facts',
+            details: error instanceof Error ? error.message : String(error),
+        });
+        return;
+    }
+
+    const { connection, maxAge } = body;
+    if (maxAge !== undefined) {
+        const cached = await getCachedDeviceFacts(deviceId);
+        if (cached && getFactsAge(cached) <= maxAge) {
+            res.json({
+                deviceId,
+                facts: cached.facts,
+                timestamp: cached.collectedAt,
+                ageSeconds: getFactsAge(cached),
+                errors: cached.errors,
+                cached: true,
+            });
+            return;
+        }
+    }
+
+    const manager = new MikrotikManager(deviceId);
+    try {
+        await manager.connect(connection.host, connection.username, connection.password, connection.port, connection.privateKey);
+    } catch (error) {
+        logger.error('[MikroTikAPI] Device connection failed', {
+            deviceId,
+            host: connection.host,
+            error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(502).json({
+            error: 'Failed to connect to device',
+            details: error instanceof Error ? error.message : String(error),
+        });
+        return;
+    }
+
+    try {
+        const collected = await collectDeviceFacts(manager, deviceId);
+
+        res.json({
+            deviceId,
+            facts: collected.facts,
+            timestamp: collected.collectedAt,
+            ageSeconds: 0,
+            errors: collected.errors,
+            cached: false,
+        });
+    } catch (error) {
+        logger.error('[MikroTikAPI] Collect facts failed', {
+            deviceId,
+            error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(502).json({
+            error: 'Failed to collect device facts',
+            details: error instanceof Error ? error.message : String(error),
+        });
+    } finally {
+        await manager.disconnect();
+    }
+});
+
 /**
  * POST /mikrotik/plan
  * Generate Plan JSON from user intent (AI-powered)
@@ -128,7 +209,7 @@ CRITICAL INSTRUCTIONS:
 7. Consider safety: noLockout policy, management access, VLAN filtering risks
 8. Be comprehensive - include ALL necessary steps for the configuration
 
-Available modules: ${selectedModules?.join(', ') || 'system, services, firewall, nat, dhcp-server, dhcp-client, ip, dns, routing'}
+Available modules: ${selectedModules?.join(', ') || 'system, services, interfaceLists, ip, dns, dhcpClient, dhcpServer, firewall, nat, logging, snmp, routing, bridge, vlan, bonding, backup'}
 
 MikrotikPlan JSON Schema (THIS IS YOUR OUTPUT FORMAT):
 {
@@ -151,7 +232,7 @@ MikrotikPlan JSON Schema (THIS IS YOUR OUTPUT FORMAT):
     {
       "id": "step-001 (sequential, unique)",
       "title": "Clear human-readable title",
-      "module": "system|services|firewall|nat|dhcp-server|dhcp-client|ip|dns|routing",
+      "module": "system|services|interfaceLists|ip|dns|dhcpClient|dhcpServer|firewall|nat|logging|snmp|routing|bridge|vlan|bonding|backup",
       "action": "set|add|remove|enable|disable|configure",
       "params": {
         // Module-specific parameters - follow types.ts definitions
@@ -159,7 +240,14 @@ MikrotikPlan JSON Schema (THIS IS YOUR OUTPUT FORMAT):
         // For services: { services: [{ name, disabled, port, address }] }
         // For firewall: { preset, wanInterfaces, lanInterfaces, mgmtSubnets, enableFastTrack }
         // For nat: { wanInterface, masquerade, portForwards, hairpinNat }
-        // For dhcp-server: { servers: [{ name, interface, poolName, poolRange, network, gateway }] }
+        // For dhcpServer: { servers: [{ name, interface, poolName, poolRange, network, gateway }] }
+        // For bridge: { name, ports, vlanFiltering }
+        // For vlan: { vlans: [{ id, name, interface, tagged, untagged, address }] }
+        // For bonding: { bonds: [{ name, slaves, mode }] }
+        // For interfaceLists: { lists: [{ name, members }] }
+        // For logging: { remoteLogging: { remote, port }, topics }
+        // For snmp: { enabled, community, contact, location }
+        // For backup: { snapshotName, exportFile }
       },
       "risk": "low|medium|high",
       "precheck": [
@@ -208,6 +296,7 @@ Remember: Output ONLY the final JSON - this is not a conversation, just return t
             enableAutoEscalate: false, // Don't auto-escalate, L0 is fine for JSON generation
             enableCrossCheck: false, // Not needed for structured output
             budget: 0, // L0 is free
+            quota: {},
         };
 
         // Call orchestrator/router
@@ -330,6 +419,11 @@ Remember: Output ONLY the final JSON - this is not a conversation, just return t
         logger.error('[MikroTikAPI] Plan generation failed', {
             error: error instanceof Error ? error.message : String(error),
         });
+        if (error instanceof QuotaExceededError || error instanceof BudgetExceededError) {
+            res.setHeader('Retry-After', String(error.retryAfterSeconds));
+            res.status(429).json({ error: error.details });
+            return;
+        }
         res.status(400).json({
             error: 'Failed to generate plan',
             details: error instanceof Error ? error.message : String(error),
@@ -397,47 +491,106 @@ router.post('/validate', (req: Request, res: Response) => {
 
 /**
  * POST /mikrotik/apply
- * Apply compiled commands (dry-run or execute)
+ * Apply compiled commands. Dry run only counts them; apply runs the compiled
+ * result module by module over SSH and returns the ApplyResult.
  */
 router.post('/apply', async (req: Request, res: Response) => {
+    let body: z.infer<typeof ApplyRequestSchema>;
     try {
-        const { changeId, commands, executionMode, deviceId } =
-            ApplyRequestSchema.parse(req.body);
+        body = ApplyRequestSchema.parse(req.body);
+    } catch (error) {
+        logger.error('[MikroTikAPI] Apply failed', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(400).json({
+            error: 'Failed to apply commands',
+            details: error instanceof Error ? error.message : String(error),
+        });
+        return;
+    }
+
+    const { changeId, executionMode, deviceId, connection } = body;
+    const compiled = body.compiled as CompiledResult | undefined;
+    const plan = body.plan as MikrotikPlan | undefined;
+    const commands = body.commands ?? compiled?.allCommands ?? [];
+
+    logger.info('[MikroTikAPI] Applying commands', {
+        changeId,
+        executionMode,
+        deviceId,
+        commandCount: commands.length,
+    });
 
-        logger.info('[MikroTikAPI] Applying commands', {
+    if (executionMode === 'dryRun') {
+        // Dry run: just validate syntax
+        res.json({
             changeId,
-            executionMode,
+            executionMode: 'dryRun',
+            message: 'Dry run successful. Commands validated.',
             commandCount: commands.length,
         });
+        return;
+    }
 
-        if (executionMode === 'dryRun') {
-            // Dry run: just validate syntax
-            res.json({
-                changeId,
-                executionMode: 'dryRun',
-                message: 'Dry run successful. Commands validated.',
-                commandCount: commands.length,
-            });
-        } else {
-            // TODO: Execute commands via RouterOS API
-            // For now, mock success
-            res.json({
-                changeId,
-                executionMode: 'apply',
-                message: 'Commands applied successfully (mock)',
-                totalSteps: commands.length,
-                successSteps: commands.length,
-                failedSteps: 0,
-            });
-        }
+    if (!compiled?.commandsByModule || !connection) {
+        res.status(400).json({
+            error: 'Failed to apply commands',
+            details: 'Apply mode requires compiled (CompiledResult) and connection',
+        });
+        return;
+    }
+    if (!plan?.policy || !Array.isArray(plan.steps)) {
+        res.status(400).json({
+            error: 'Failed to apply commands',
+            details: 'Apply mode requires plan (MikrotikPlan) for its snapshot policy, PostChecks and step risk',
+        });
+        return;
+    }
+    if (!connection.password && !connection.privateKey) {
+        res.status(400).json({
+            error: 'Failed to apply commands',
+            details: 'Either connection.password or connection.privateKey is required',
+        });
+        return;
+    }
+
+    const ssh = new MikrotikSSH();
+    try {
+        await ssh.connect(connection);
+    } catch (error) {
+        logger.error('[MikroTikAPI] Device connection failed', {
+            changeId,
+            host: connection.host,
+            error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(502).json({
+            error: 'Failed to connect to device',
+            details: error instanceof Error ? error.message : String(error),
+        });
+        return;
+    }
+
+    try {
+        const result = await applyCompiledResult(compiled, ssh, {
+            policy: plan.policy,
+            steps: plan.steps,
+        });
+
+        res.json({
+            success: result.failedSteps === 0,
+            result,
+        });
     } catch (error) {
         logger.error('[MikroTikAPI] Apply failed', {
+            changeId,
             error: error instanceof Error ? error.message : String(error),
         });
-        res.status(400).json({
+        res.status(500).json({
             error: 'Failed to apply commands',
             details: error instanceof Error ? error.message : String(error),
         });
+    } finally {
+        await ssh.disconnect();
     }
 });
 
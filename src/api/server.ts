@@ -12,8 +12,24 @@ import { modelConfigService } from '../db/model-config.js';
 import { gptPlusClient } from '../tools/llm/gpt-plus.js';
 import { terminalManager } from '../tools/terminal/index.js';
 import { TerminalConnectionService } from '../db/terminal-connections.js';
-import { authService } from '../db/auth.js';
-import type { TaskType } from '../mcp/types.js';
+import { authService, type JWTPayload } from '../db/auth.js';
+import { routingApprovalQueue } from '../db/routing-policies.js';
+import { PolicyApprovalRequiredError, PolicyDeniedError } from '../routing/policy.js';
+import { ContentPolicyError } from '../security/content-policy.js';
+import { QuotaExceededError, quotaEnforcer } from '../quota/enforcer.js';
+import { BudgetExceededError, DEFAULT_ALERT_THRESHOLDS, budgetManager } from '../quota/budgets.js';
+import { beginTrace, finishTrace, runInTrace } from '../tracing/integration.js';
+import { getTracer } from '../tracing/tracer.js';
+import type { RequestType } from '../types/tracing.js';
+import type {
+    ChatMessage,
+    ContentPolicyContext,
+    LLMRequest,
+    QuotaContext,
+    LLMResponse,
+    RoutingContext,
+    TaskType,
+} from '../mcp/types.js';
 import { createDatabaseRoutes } from './database.js';
 import { createProviderRoutes } from './providers.js';
 import { createOpenRouterRoutes } from './openrouter.js';
@@ -21,10 +37,17 @@ import { createAgentRoutes } from './agents.js';
 import { createAdminRoutes } from './admin.js';
 import configRoutes from './routes/config.js';
 import deploymentsRoutes from './routes/deployments.js';
+import { ChatCompletionStream } from './streaming.js';
+import { ChatMessageContentSchema, ChatToolParamsSchema } from './types.js';
 import {
     buildContextForRequest,
     queueMessageEmbedding,
     saveAssistantResponse,
+    toChatMessages,
+    splitContentParts,
+    toToolDefinitions,
+    toToolChoice,
+    conversationSummarizer,
     type ChatContextStrategy
 } from '../services/chat/index.js';
 
@@ -33,6 +56,56 @@ import {
  */
 import { Server } from 'http';
 
+/**
+ * First file path of a code-agent `files` payload (paths or `{ path }` objects)
+ */
+function getFirstFilePath(files: unknown): string | undefined {
+    if (!Array.isArray(files)) return undefined;
+    for (const file of files) {
+        const path = typeof file === 'string' ? file : (file as { path?: unknown } | null)?.path;
+        if (typeof path === 'string' && path) return path;
+    }
+    return undefined;
+}
+
+/**
+ * Request type of a traced /v1 request
+ */
+function getTraceRequestType(path: string): RequestType {
+    if (path === '/v1/route') return 'route';
+    if (path === '/v1/chat' || path === '/v1/chat/completions') return 'chat';
+    if (path === '/v1/code-agent') return 'code-agent';
+    if (path === '/v1/mcp-cli') return 'mcp-cli';
+    return 'http';
+}
+
+/**
+ * Error message and code of an error response body (`{ error: string }` or OpenAI-style `{ error: { message } }`)
+ */
+function getResponseError(body: unknown): { message: string; code?: string } | undefined {
+    const error = (body as { error?: unknown; code?: unknown } | null)?.error;
+    if (typeof error === 'string') {
+        const code = (body as { code?: unknown }).code;
+        return { message: error, code: typeof code === 'string' ? code : undefined };
+    }
+    if (error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string') {
+        const { message, code, type } = error as { message: string; code?: unknown; type?: unknown };
+        return { message, code: typeof code === 'string' ? code : typeof type === 'string' ? type : undefined };
+    }
+    return undefined;
+}
+
+/**
+ * Whether a response came from the semantic cache and what it saved
+ */
+function getSemanticCacheSummary(result: LLMResponse): { hit: boolean; similarity?: number; costSaved: number } {
+    return {
+        hit: Boolean(result.semanticCache?.hit),
+        similarity: result.semanticCache?.similarity,
+        costSaved: result.semanticCache?.costSaved ?? 0,
+    };
+}
+
 export class APIServer {
     private app: express.Application;
     private server: Server | null = null;
@@ -56,6 +129,7 @@ export class APIServer {
                 'Access-Control-Allow-Headers',
                 'Content-Type, Authorization'
             );
+            res.header('Access-Control-Expose-Headers', 'X-Trace-Id');
             if (req.method === 'OPTIONS') {
                 res.sendStatus(200);
                 return;
@@ -66,10 +140,11 @@ export class APIServer {
         // JSON parsing
         this.app.use(express.json({ limit: '10mb' }));
 
+        // Skip OPTIONS, health checks, and internal (polled) endpoints from metrics and tracing
+        const skipPaths = ['/health', '/metrics', '/v1/models/layers', '/v1/providers'];
+
         // Request logging and metrics
         this.app.use((req: express.Request, _res: express.Response, next: express.NextFunction) => {
-            // Skip OPTIONS, health checks, and internal endpoints from metrics
-            const skipPaths = ['/health', '/metrics', '/v1/models/layers', '/v1/providers'];
             const shouldSkipMetrics = req.method === 'OPTIONS' ||
                 skipPaths.some(path => req.path.startsWith(path));
 
@@ -84,6 +159,45 @@ export class APIServer {
             });
             next();
         });
+
+        // Request tracing: every /v1 request runs in its own trace (X-Trace-Id header)
+        this.app.use('/v1', (req: express.Request, res: express.Response, next: express.NextFunction) => {
+            const path = req.baseUrl + req.path;
+            if (path.startsWith('/v1/traces') || skipPaths.some(skip => path.startsWith(skip))) {
+                next();
+                return;
+            }
+
+            const conversationId = req.body?.conversationId;
+            const trace = beginTrace(
+                getTraceRequestType(path),
+                typeof conversationId === 'string' ? conversationId : '',
+                { method: req.method, path },
+            );
+            res.setHeader('X-Trace-Id', trace.traceId);
+
+            // Error responses are recorded on the trace
+            const json = res.json.bind(res);
+            res.json = (body: unknown) => {
+                const error = res.statusCode >= 400 ? getResponseError(body) : undefined;
+                if (error) {
+                    getTracer().recordError(trace.traceId, { ...error, code: error.code ?? String(res.statusCode) });
+                }
+                return json(body);
+            };
+
+            let finished = false;
+            const finish = () => {
+                if (!finished) {
+                    finished = true;
+                    void finishTrace(trace, res.statusCode);
+                }
+            };
+            res.on('finish', finish);
+            res.on('close', finish);
+
+            runInTrace(trace, next);
+        });
     }
 
     private authServiceInitialized = false;
@@ -147,6 +261,18 @@ export class APIServer {
             await this.handleVerifyToken(req, res);
         });
 
+        // API keys for programmatic clients such as remote MCP transports
+        // (always require a login token, as keys belong to a user)
+        this.app.get('/v1/auth/api-keys', async (req, res) => {
+            await this.handleListApiKeys(req, res);
+        });
+        this.app.post('/v1/auth/api-keys', async (req, res) => {
+            await this.handleCreateApiKey(req, res);
+        });
+        this.app.delete('/v1/auth/api-keys/:id', async (req, res) => {
+            await this.handleRevokeApiKey(req, res);
+        });
+
         // ==================
         // Auth Middleware (applies to routes below if enabled)
         // ==================
@@ -313,6 +439,24 @@ export class APIServer {
             await this.handleUpdateQuota(req, res);
         });
 
+        // Monthly organization and project budgets
+        this.app.get('/v1/budgets', async (req, res) => {
+            await this.handleGetBudgets(req, res);
+        });
+
+        this.app.put('/v1/budgets/:scope/:scopeId', async (req, res) => {
+            await this.handleSetBudget(req, res);
+        });
+
+        this.app.delete('/v1/budgets/:scope/:scopeId', async (req, res) => {
+            await this.handleDeleteBudget(req, res);
+        });
+
+        // Status of a request parked by a routing policy
+        this.app.get('/v1/routing/approvals/:id', async (req, res) => {
+            await this.handleGetRoutingApproval(req, res);
+        });
+
         // Tracing endpoints (Phase 1)
         this.app.get('/v1/traces/:traceId', async (req, res) => {
             await this.handleGetTrace(req, res);
@@ -480,78 +624,120 @@ export class APIServer {
     }
 
     /**
-     * Check quota before processing request
+     * Authenticated user attributes evaluated by routing policies
+     */
+    private getPolicyAttributes(req: Request): Pick<RoutingContext, 'userId' | 'userRole'> {
+        const user = (req as unknown as { user?: JWTPayload }).user;
+        return user ? { userId: user.userId, userRole: user.role } : {};
+    }
+
+    /**
+     * Who the request is charged to: the authenticated user, else the user named in the body
+     */
+    private getQuotaContext(req: Request, userId?: string): QuotaContext {
+        const user = (req as unknown as { user?: JWTPayload }).user;
+        return { userId: user?.userId ?? userId };
+    }
+
+    /**
+     * Request details recorded with content policy violations
+     */
+    private getContentPolicyContext(
+        req: Request,
+        requestType: ContentPolicyContext['requestType'],
+        userId?: string,
+        conversationId?: string,
+    ): ContentPolicyContext {
+        const user = (req as unknown as { user?: JWTPayload }).user;
+        return {
+            requestType,
+            userId: user?.userId ?? userId,
+            conversationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        };
+    }
+
+    /**
+     * Respond to routing policy outcomes: 403 when a policy denies the request,
+     * 202 when it was parked for approval, 422 when the project's content
+     * policy blocked the prompt or completion, 429 when it does not fit a quota or its budget is spent.
+     * Returns false for any other error.
      */
-    private async checkQuotaForRequest(
-        userId: string,
-        projectId: string,
-        estimatedTokens: number,
-        estimatedCost: number,
-    ): Promise<{ allowed: boolean; error?: { status: number; body: unknown } }> {
-        if (!db.isReady()) {
-            // Skip quota check if database unavailable
-            return { allowed: true };
+    private sendPolicyError(res: Response, error: unknown): boolean {
+        if (error instanceof QuotaExceededError || error instanceof BudgetExceededError) {
+            res.setHeader('Retry-After', String(error.retryAfterSeconds));
+            res.status(429).json({ error: error.details });
+            return true;
         }
 
-        try {
-            const { QuotaEnforcer } = await import('../quota/enforcer.js');
-            const enforcer = new QuotaEnforcer(db.getPool());
-
-            const quotaCheck = await enforcer.checkQuota(
-                userId || 'anonymous',
-                projectId || 'default-project',
-                estimatedTokens,
-                estimatedCost,
-            );
+        if (error instanceof ContentPolicyError) {
+            res.status(422).json({
+                error: 'Request blocked by content policy',
+                ...error.details,
+            });
+            return true;
+        }
 
-            if (!quotaCheck.allowed) {
-                return {
-                    allowed: false,
-                    error: {
-                        status: 429,
-                        body: {
-                            error: 'Quota exceeded',
-                            details: quotaCheck.reason,
-                            remaining: quotaCheck.remaining,
-                            resetAt: quotaCheck.resetAt,
-                        },
-                    },
-                };
-            }
+        if (error instanceof PolicyDeniedError) {
+            res.status(403).json({
+                error: 'Request denied by routing policy',
+                policy: { id: error.policy.id, name: error.policy.name },
+                risk: error.risk,
+            });
+            return true;
+        }
 
-            return { allowed: true };
-        } catch (error) {
-            logger.warn('Quota check failed, allowing request', {
-                error: error instanceof Error ? error.message : 'Unknown',
+        if (error instanceof PolicyApprovalRequiredError) {
+            res.status(202).json({
+                status: 'pending_approval',
+                approvalId: error.approvalId,
+                policy: { id: error.policy.id, name: error.policy.name },
+                risk: error.risk,
+                statusUrl: `/v1/routing/approvals/${error.approvalId}`,
             });
-            return { allowed: true };
+            return true;
         }
+
+        return false;
     }
 
     /**
-     * Increment quota after successful request
+     * Handle GET /v1/routing/approvals/:id
+     * Requesters can only see their own parked requests; admins can see all.
      */
-    private async incrementQuotaAfterRequest(
-        userId: string,
-        projectId: string,
-        tokens: number,
-        cost: number,
-    ): Promise<void> {
-        if (!db.isReady()) return;
-
+    private async handleGetRoutingApproval(req: Request, res: Response): Promise<void> {
         try {
-            const { QuotaEnforcer } = await import('../quota/enforcer.js');
-            const enforcer = new QuotaEnforcer(db.getPool());
-            await enforcer.incrementQuota(
-                userId || 'anonymous',
-                projectId || 'default-project',
-                tokens,
-                cost,
+            const approval = await routingApprovalQueue.get(req.params.id);
+            const user = (req as unknown as { user?: JWTPayload }).user;
+            const visible = approval && (
+                !user || user.role === 'admin' || !approval.requestedBy || approval.requestedBy === user.userId
             );
+
+            if (!approval || !visible) {
+                res.status(404).json({ error: 'Approval not found' });
+                return;
+            }
+
+            res.json({
+                id: approval.id,
+                status: approval.status,
+                policy: { id: approval.policyId, name: approval.policyName },
+                risk: approval.risk,
+                createdAt: approval.createdAt,
+                decidedAt: approval.decidedAt,
+                decisionReason: approval.decisionReason,
+                result: approval.result,
+                error: approval.error,
+            });
         } catch (error) {
-            logger.error('Failed to increment quota', {
+            logger.error('Get routing approval error', {
                 error: error instanceof Error ? error.message : 'Unknown',
             });
+            res.status(500).json({
+                error: 'Internal server error',
+                message: error instanceof Error ? error.message : 'Unknown error',
+            });
         }
     }
 
@@ -586,19 +772,6 @@ export class APIServer {
             // Ensure conversation context is loaded
             await contextManager.getSummary(conversationId);
 
-            // Check quota before routing (estimate: 1000 tokens, $0.01)
-            const quotaCheck = await this.checkQuotaForRequest(
-                userId,
-                projectId,
-                1000,
-                0.01,
-            );
-
-            if (!quotaCheck.allowed && quotaCheck.error) {
-                res.status(quotaCheck.error.status).json(quotaCheck.error.body);
-                return;
-            }
-
             // Route request
             const result = await routeRequest(
                 { prompt: message },
@@ -606,6 +779,10 @@ export class APIServer {
                     quality: qualityLevel || 'normal',
                     complexity: 'medium',
                     taskType: 'general',
+                    project: projectId,
+                    ...this.getPolicyAttributes(req),
+                    contentPolicy: this.getContentPolicyContext(req, 'route', userId, conversationId),
+                    quota: this.getQuotaContext(req, userId),
                 }
             );
 
@@ -636,14 +813,6 @@ export class APIServer {
                 success: true,
             });
 
-            // Increment quota after successful request
-            await this.incrementQuotaAfterRequest(
-                userId,
-                projectId,
-                result.inputTokens + result.outputTokens,
-                result.cost,
-            );
-
             res.json({
                 result: {
                     response: result.content,
@@ -652,8 +821,9 @@ export class APIServer {
                 },
                 routing: {
                     summary: result.routingSummary,
-                    fromCache: false,
+                    fromCache: Boolean(result.semanticCache?.hit),
                 },
+                semanticCache: getSemanticCacheSummary(result),
                 context: {
                     conversationId,
                 },
@@ -671,6 +841,10 @@ export class APIServer {
                 error: error instanceof Error ? error.message : 'Unknown',
             });
 
+            if (this.sendPolicyError(res, error)) {
+                return;
+            }
+
             res.status(500).json({
                 error: 'Internal server error',
                 message:
@@ -704,19 +878,6 @@ export class APIServer {
             // Get context
             const summary = await contextManager.getSummary(conversationId);
 
-            // Check quota before routing (code tasks estimate: 2000 tokens, $0.02)
-            const quotaCheck = await this.checkQuotaForRequest(
-                userId,
-                projectId,
-                2000,
-                0.02,
-            );
-
-            if (!quotaCheck.allowed && quotaCheck.error) {
-                res.status(quotaCheck.error.status).json(quotaCheck.error.body);
-                return;
-            }
-
             // Build prompt for code agent
             const prompt = `Task: ${task}\n\nFiles: ${files ? JSON.stringify(files) : 'N/A'}\n\nContext: ${summary ? JSON.stringify(summary) : 'New conversation'}`;
 
@@ -727,6 +888,11 @@ export class APIServer {
                     quality: 'high',
                     complexity: 'high',
                     taskType: 'code',
+                    project: projectId,
+                    ...this.getPolicyAttributes(req),
+                    filePath: getFirstFilePath(files),
+                    contentPolicy: this.getContentPolicyContext(req, 'code-agent', userId, conversationId),
+                    quota: this.getQuotaContext(req, userId),
                 }
             );
 
@@ -746,20 +912,13 @@ export class APIServer {
                 },
             });
 
-            // Increment quota after successful request
-            await this.incrementQuotaAfterRequest(
-                userId,
-                projectId,
-                result.inputTokens + result.outputTokens,
-                result.cost,
-            );
-
             res.json({
                 result: {
                     response: result.content,
                     model: result.modelId,
                     provider: result.provider,
                 },
+                semanticCache: getSemanticCacheSummary(result),
                 performance: {
                     durationMs: Date.now() - startTime,
                     cost: result.cost,
@@ -770,6 +929,10 @@ export class APIServer {
                 error: error instanceof Error ? error.message : 'Unknown',
             });
 
+            if (this.sendPolicyError(res, error)) {
+                return;
+            }
+
             res.status(500).json({
                 error: 'Internal server error',
                 message:
@@ -783,8 +946,9 @@ export class APIServer {
      */
     private async handleChat(req: Request, res: Response): Promise<void> {
         const startTime = Date.now();
+        let sse: ChatCompletionStream | null = null;
         try {
-            const { conversationId, message, userId, projectId } = req.body;
+            const { conversationId, message, userId, projectId, stream } = req.body;
 
             if (!conversationId || !message) {
                 res.status(400).json({
@@ -813,17 +977,8 @@ export class APIServer {
                 ? `${contextStr}\n\nUser: ${message}`
                 : message;
 
-            // Check quota before routing (chat estimate: 1500 tokens, $0.015)
-            const quotaCheck = await this.checkQuotaForRequest(
-                userId,
-                projectId,
-                1500,
-                0.015,
-            );
-
-            if (!quotaCheck.allowed && quotaCheck.error) {
-                res.status(quotaCheck.error.status).json(quotaCheck.error.body);
-                return;
+            if (stream === true) {
+                sse = new ChatCompletionStream(res, 'auto');
             }
 
             // Route request
@@ -833,7 +988,12 @@ export class APIServer {
                     quality: 'normal',
                     complexity: 'medium',
                     taskType: 'general',
-                }
+                    project: projectId,
+                    ...this.getPolicyAttributes(req),
+                    contentPolicy: this.getContentPolicyContext(req, 'chat', userId, conversationId),
+                    quota: this.getQuotaContext(req, userId),
+                },
+                sse?.writeDelta,
             );
 
             // Save messages
@@ -847,19 +1007,20 @@ export class APIServer {
                 content: result.content,
             });
 
-            // Increment quota after successful request
-            await this.incrementQuotaAfterRequest(
-                userId,
-                projectId,
-                result.inputTokens + result.outputTokens,
-                result.cost,
-            );
+            if (sse) {
+                sse.finish(result, {
+                    latency: Date.now() - startTime,
+                    semanticCache: getSemanticCacheSummary(result),
+                });
+                return;
+            }
 
             res.json({
                 result: {
                     response: result.content,
                     model: result.modelId,
                 },
+                semanticCache: getSemanticCacheSummary(result),
                 performance: {
                     durationMs: Date.now() - startTime,
                     cost: result.cost,
@@ -870,6 +1031,15 @@ export class APIServer {
                 error: error instanceof Error ? error.message : 'Unknown',
             });
 
+            if (sse?.isOpen) {
+                sse.fail(error);
+                return;
+            }
+
+            if (this.sendPolicyError(res, error)) {
+                return;
+            }
+
             res.status(500).json({
                 error: 'Internal server error',
                 message:
@@ -886,13 +1056,15 @@ export class APIServer {
      */
     private async handleChatCompletions(req: Request, res: Response): Promise<void> {
         const startTime = Date.now();
+        let sse: ChatCompletionStream | null = null;
         try {
             const {
-                messages,
+                messages: requestMessages,
                 model,
                 layer,
                 temperature,
                 max_tokens,
+                stream,
                 // New context optimization parameters
                 conversation_id,
                 context_strategy,
@@ -901,13 +1073,24 @@ export class APIServer {
                 tool_id,
             } = req.body;
 
-            if (!messages || !Array.isArray(messages) || messages.length === 0) {
+            if (!requestMessages || !Array.isArray(requestMessages) || requestMessages.length === 0) {
                 res.status(400).json({
                     error: 'Missing required field: messages (array)',
                 });
                 return;
             }
 
+            // Multimodal content parts (text + image_url) are split into text and images
+            const contentCheck = ChatMessageContentSchema.safeParse(req.body);
+            if (!contentCheck.success) {
+                res.status(400).json({
+                    error: 'Invalid message content',
+                    details: contentCheck.error.errors,
+                });
+                return;
+            }
+            const messages = splitContentParts(requestMessages);
+
             const lastUserMessage = messages.filter((m: any) => m.role === 'user').pop();
             if (!lastUserMessage) {
                 res.status(400).json({
@@ -916,9 +1099,27 @@ export class APIServer {
                 return;
             }
 
+            // Tool calling passthrough (OpenAI format)
+            const toolParams = ChatToolParamsSchema.safeParse(req.body);
+            if (!toolParams.success) {
+                res.status(400).json({
+                    error: 'Invalid tools or tool_choice',
+                    details: toolParams.error.errors,
+                });
+                return;
+            }
+            const { tools, tool_choice } = toolParams.data;
+            const toolRequest: Pick<LLMRequest, 'tools' | 'toolChoice'> = tools && tools.length > 0
+                ? {
+                    tools: toToolDefinitions(tools),
+                    ...(tool_choice && { toolChoice: toToolChoice(tool_choice) }),
+                }
+                : {};
+
             // Build optimized context using ChatContextBuilder
             let contextResult;
             let fullPrompt: string;
+            let conversation: ChatMessage[] | undefined;
             let tokensSaved = 0;
 
             try {
@@ -934,6 +1135,10 @@ export class APIServer {
                 });
 
                 fullPrompt = contextResult.prompt;
+                // The orchestrator returns its final answer instead of a conversation
+                conversation = contextResult.strategy.startsWith('orchestrator')
+                    ? undefined
+                    : toChatMessages(contextResult.messages);
                 tokensSaved = contextResult.tokenStats.saved;
 
                 logger.info('Chat context optimized', {
@@ -967,6 +1172,7 @@ export class APIServer {
                     conversationHistory,
                     `User: ${lastUserMessage.content}`
                 ].filter(Boolean).join('\n\n');
+                conversation = toChatMessages(messages);
             }
 
             // Determine routing options
@@ -974,6 +1180,10 @@ export class APIServer {
                 quality: 'normal',
                 complexity: 'medium',
                 taskType: 'general' as const,
+                project: project_id,
+                ...this.getPolicyAttributes(req),
+                contentPolicy: this.getContentPolicyContext(req, 'chat', undefined, conversation_id),
+                quota: this.getQuotaContext(req, typeof req.body.user === 'string' ? req.body.user : undefined),
             };
 
             // If specific layer requested
@@ -986,14 +1196,21 @@ export class APIServer {
                 routingOptions.preferredModel = model;
             }
 
+            if (stream === true) {
+                sse = new ChatCompletionStream(res, model || 'auto');
+            }
+
             // Route request
             const result = await routeRequest(
                 {
                     prompt: fullPrompt,
+                    messages: conversation,
                     maxTokens: max_tokens || 4096,
                     temperature: temperature ?? 0.7,
+                    ...toolRequest,
                 },
-                routingOptions
+                routingOptions,
+                sse?.writeDelta,
             );
 
             const latency = Date.now() - startTime;
@@ -1007,6 +1224,31 @@ export class APIServer {
                 }
             }
 
+            // Context optimization metadata
+            const contextOptimization = contextResult ? {
+                strategy: contextResult.strategy,
+                tokens_saved: tokensSaved,
+                summary_included: contextResult.metadata.summaryIncluded,
+                spans_retrieved: contextResult.metadata.spansRetrieved,
+                recent_messages_included: contextResult.metadata.recentMessagesIncluded,
+            } : null;
+
+            const cacheSummary = getSemanticCacheSummary(result);
+            const semanticCacheInfo = {
+                hit: cacheSummary.hit,
+                similarity: cacheSummary.similarity,
+                cost_saved: cacheSummary.costSaved,
+            };
+
+            if (sse) {
+                sse.finish(result, {
+                    latency,
+                    context_optimization: contextOptimization,
+                    semantic_cache: semanticCacheInfo,
+                });
+                return;
+            }
+
             // Return OpenAI-compatible response with context optimization stats
             res.json({
                 id: `chatcmpl-${Date.now()}`,
@@ -1023,21 +1265,22 @@ export class APIServer {
                 },
                 cost: result.cost,
                 latency,
-                // Context optimization metadata
-                context_optimization: contextResult ? {
-                    strategy: contextResult.strategy,
-                    tokens_saved: tokensSaved,
-                    summary_included: contextResult.metadata.summaryIncluded,
-                    spans_retrieved: contextResult.metadata.spansRetrieved,
-                    recent_messages_included: contextResult.metadata.recentMessagesIncluded,
-                } : null,
+                context_optimization: contextOptimization,
+                semantic_cache: semanticCacheInfo,
                 choices: [{
                     index: 0,
                     message: {
                         role: 'assistant',
-                        content: result.content,
+                        content: result.toolCalls && !result.content ? null : result.content,
+                        ...(result.toolCalls && {
+                            tool_calls: result.toolCalls.map((call) => ({
+                                id: call.id,
+                                type: 'function',
+                                function: { name: call.name, arguments: call.arguments },
+                            })),
+                        }),
                     },
-                    finish_reason: 'stop',
+                    finish_reason: result.finishReason ?? 'stop',
                 }],
             });
         } catch (error) {
@@ -1045,6 +1288,15 @@ export class APIServer {
                 error: error instanceof Error ? error.message : 'Unknown',
             });
 
+            if (sse?.isOpen) {
+                sse.fail(error);
+                return;
+            }
+
+            if (this.sendPolicyError(res, error)) {
+                return;
+            }
+
             res.status(500).json({
                 error: 'Chat completion failed',
                 message: error instanceof Error ? error.message : 'Unknown error',
@@ -1062,11 +1314,14 @@ export class APIServer {
             const summary = await contextManager.getSummary(conversationId);
             const messages =
                 await contextManager.getRecentMessages(conversationId);
+            // Incremental summaries used by the summary+recent context strategy
+            const summaryState = await conversationSummarizer.getState(conversationId);
 
             res.json({
                 conversationId,
                 summary,
                 recentMessages: messages,
+                summaryState,
             });
         } catch (error) {
             logger.error('Get context error', {
@@ -1575,6 +1830,9 @@ ${context?.language ? `Language: ${context.language}` : ''}`;
                     taskType,
                     preferredLayer, // Pass preferred layer if user specified
                     budget: typeof budget === 'number' ? budget : undefined, // Pass budget if provided
+                    ...this.getPolicyAttributes(req),
+                    filePath: context?.filename,
+                    quota: this.getQuotaContext(req),
                 }
             );
 
@@ -1635,6 +1893,10 @@ ${context?.language ? `Language: ${context.language}` : ''}`;
                 error: error instanceof Error ? error.message : 'Unknown',
             });
 
+            if (this.sendPolicyError(res, error)) {
+                return;
+            }
+
             res.status(500).json({
                 error: 'Internal server error',
                 details: error instanceof Error ? error.message : 'Unknown error',
@@ -1665,6 +1927,7 @@ ${context?.language ? `Language: ${context.language}` : ''}`;
                 endDate: endDate as string | undefined,
                 groupBy: (groupBy as 'day' | 'week' | 'month') || 'day',
             });
+            analytics.budgets = await budgetManager.getStatus(projectId as string | undefined);
 
             res.json(analytics);
         } catch (error) {
@@ -1741,30 +2004,28 @@ ${context?.language ? `Language: ${context.language}` : ''}`;
 
     /**
      * Handle GET /v1/quota/status
+     * Quotas a request by `userId` in `projectId` is charged to (organization, project, user)
      */
     private async handleGetQuotaStatus(req: Request, res: Response): Promise<void> {
         try {
-            const { QuotaEnforcer } = await import('../quota/enforcer.js');
-            const enforcer = new QuotaEnforcer(db.getPool());
-
             const { userId, projectId } = req.query;
 
-            if (!userId || !projectId) {
-                res.status(400).json({ error: 'Missing userId or projectId' });
-                return;
-            }
-
-            const status = await enforcer.getQuotaStatus(
-                userId as string,
-                projectId as string,
-            );
-
-            if (!status) {
-                res.status(404).json({ error: 'Quota not found' });
-                return;
-            }
+            const quotas = await quotaEnforcer.getStatus({
+                userId: typeof userId === 'string' ? userId : undefined,
+                projectId: typeof projectId === 'string' ? projectId : undefined,
+            });
 
-            res.json(status);
+            res.json({
+                quotas: quotas.map((quota) => ({
+                    ...quota,
+                    remainingTokens: quota.maxTokensDaily === null
+                        ? null
+                        : Math.max(quota.maxTokensDaily - quota.usedTokens - quota.reservedTokens, 0),
+                    remainingCost: quota.maxCostDaily === null
+                        ? null
+                        : Math.max(quota.maxCostDaily - quota.usedCost - quota.reservedCost, 0),
+                })),
+            });
         } catch (error) {
             logger.error('Get quota status error', {
                 error: error instanceof Error ? error.message : 'Unknown',
@@ -1778,29 +2039,32 @@ ${context?.language ? `Language: ${context.language}` : ''}`;
 
     /**
      * Handle POST /v1/quota/update
+     * Sets the daily limits of one quota: `scope` + `scopeId`, or `userId` for a user quota.
+     * A null limit removes it.
      */
     private async handleUpdateQuota(req: Request, res: Response): Promise<void> {
         try {
-            const { QuotaEnforcer } = await import('../quota/enforcer.js');
-            const enforcer = new QuotaEnforcer(db.getPool());
-
-            const { userId, projectId, maxTokensDaily, maxCostDaily } = req.body;
+            const { userId, maxTokensDaily, maxCostDaily } = req.body;
+            const scope = req.body.scope ?? (userId ? 'user' : undefined);
+            const scopeId = req.body.scopeId ?? userId;
+            const isLimit = (value: unknown) => value === null || (typeof value === 'number' && value >= 0);
 
-            if (!userId || !projectId || !maxTokensDaily || !maxCostDaily) {
+            if (!['organization', 'project', 'user'].includes(scope) || !scopeId || typeof scopeId !== 'string') {
+                res.status(400).json({
+                    error: 'Missing or invalid fields: scope (organization, project or user) and scopeId, or userId',
+                });
+                return;
+            }
+            if (!isLimit(maxTokensDaily) || !isLimit(maxCostDaily)) {
                 res.status(400).json({
-                    error: 'Missing required fields: userId, projectId, maxTokensDaily, maxCostDaily',
+                    error: 'maxTokensDaily and maxCostDaily must be non-negative numbers or null',
                 });
                 return;
             }
 
-            await enforcer.updateQuotaLimits(
-                userId,
-                projectId,
-                maxTokensDaily,
-                maxCostDaily,
-            );
+            const quota = await quotaEnforcer.setLimits(scope, scopeId, { maxTokensDaily, maxCostDaily });
 
-            res.json({ success: true, message: 'Quota updated successfully' });
+            res.json({ success: true, message: 'Quota updated successfully', quota });
         } catch (error) {
             logger.error('Update quota error', {
                 error: error instanceof Error ? error.message : 'Unknown',
@@ -1812,12 +2076,98 @@ ${context?.language ? `Language: ${context.language}` : ''}`;
         }
     }
 
+    /**
+     * Handle GET /v1/budgets
+     * All budgets, or those of `projectId` and its organization, with this month's spend
+     */
+    private async handleGetBudgets(req: Request, res: Response): Promise<void> {
+        try {
+            const { projectId } = req.query;
+            const budgets = await budgetManager.getStatus(typeof projectId === 'string' ? projectId : undefined);
+            res.json({ budgets });
+        } catch (error) {
+            logger.error('Get budgets error', {
+                error: error instanceof Error ? error.message : 'Unknown',
+            });
+            res.status(500).json({
+                error: 'Failed to fetch budgets',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+
+    /**
+     * Handle PUT /v1/budgets/:scope/:scopeId
+     */
+    private async handleSetBudget(req: Request, res: Response): Promise<void> {
+        try {
+            const { scope, scopeId } = req.params;
+            const { monthlyLimit, alertThresholds = DEFAULT_ALERT_THRESHOLDS, hardStop = 'block' } = req.body ?? {};
+
+            if (scope !== 'organization' && scope !== 'project') {
+                res.status(400).json({ error: 'scope must be organization or project' });
+                return;
+            }
+            if (typeof monthlyLimit !== 'number' || monthlyLimit < 0) {
+                res.status(400).json({ error: 'monthlyLimit must be a non-negative number (USD)' });
+                return;
+            }
+            if (!Array.isArray(alertThresholds)
+                || !alertThresholds.every((t) => Number.isInteger(t) && t > 0 && t <= 1000)) {
+                res.status(400).json({ error: 'alertThresholds must be an array of percentages (1-1000)' });
+                return;
+            }
+            if (hardStop !== 'block' && hardStop !== 'downgrade') {
+                res.status(400).json({ error: 'hardStop must be block or downgrade' });
+                return;
+            }
+
+            const budget = await budgetManager.setBudget(scope, scopeId, { monthlyLimit, alertThresholds, hardStop });
+            res.json({ success: true, budget });
+        } catch (error) {
+            logger.error('Set budget error', {
+                error: error instanceof Error ? error.message : 'Unknown',
+            });
+            res.status(500).json({
+                error: 'Failed to save budget',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+
+    /**
+     * Handle DELETE /v1/budgets/:scope/:scopeId
+     */
+    private async handleDeleteBudget(req: Request, res: Response): Promise<void> {
+        try {
+            const { scope, scopeId } = req.params;
+            if (scope !== 'organization' && scope !== 'project') {
+                res.status(400).json({ error: 'scope must be organization or project' });
+                return;
+            }
+
+            const deleted = await budgetManager.deleteBudget(scope, scopeId);
+            if (!deleted) {
+                res.status(404).json({ error: 'Budget not found' });
+                return;
+            }
+            res.json({ success: true });
+        } catch (error) {
+            logger.error('Delete budget error', {
+                error: error instanceof Error ? error.message : 'Unknown',
+            });
+            res.status(500).json({
+                error: 'Failed to delete budget',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+
     /**
      * Handle GET /v1/traces/:traceId
      */
     private async handleGetTrace(req: Request, res: Response): Promise<void> {
         try {
-            const { getTracer } = await import('../tracing/tracer.js');
             const tracer = getTracer();
 
             const { traceId } = req.params;
@@ -3283,6 +3633,101 @@ ${context?.language ? `Language: ${context.language}` : ''}`;
         }
     }
 
+    /**
+     * User of the request's login token; sends the error response if there is none
+     */
+    private async requireTokenUser(req: Request, res: Response): Promise<JWTPayload | null> {
+        const authReady = await this.ensureAuthServiceInit();
+        if (!authReady) {
+            res.status(503).json({
+                error: 'Authentication service not available',
+                details: 'Database connection not ready. Please try again later.',
+            });
+            return null;
+        }
+
+        const authHeader = req.headers.authorization;
+        const payload = authHeader?.startsWith('Bearer ')
+            ? authService.verifyToken(authHeader.substring(7))
+            : null;
+        if (!payload) {
+            res.status(401).json({
+                error: 'Authentication required',
+                message: 'Please provide a valid Bearer token from /v1/auth/login in the Authorization header',
+            });
+            return null;
+        }
+        return payload;
+    }
+
+    /**
+     * Handle list API keys request
+     */
+    private async handleListApiKeys(req: Request, res: Response): Promise<void> {
+        try {
+            const user = await this.requireTokenUser(req, res);
+            if (!user) return;
+
+            const apiKeys = await authService.listApiKeys(user.userId);
+            res.json({ apiKeys });
+        } catch (error) {
+            logger.error('List API keys error', {
+                error: error instanceof Error ? error.message : 'Unknown',
+            });
+            res.status(500).json({ error: 'Failed to list API keys' });
+        }
+    }
+
+    /**
+     * Handle create API key request; the key is only returned here
+     */
+    private async handleCreateApiKey(req: Request, res: Response): Promise<void> {
+        try {
+            const user = await this.requireTokenUser(req, res);
+            if (!user) return;
+
+            const name = req.body?.name;
+            if (typeof name !== 'string' || !name.trim() || name.length > 255) {
+                res.status(400).json({
+                    error: 'name is required (max 255 characters)',
+                });
+                return;
+            }
+
+            const { apiKey, key } = await authService.createApiKey(user.userId, name.trim());
+            logger.info('API key created', { userId: user.userId, keyId: apiKey.id });
+            res.status(201).json({ apiKey, key });
+        } catch (error) {
+            logger.error('Create API key error', {
+                error: error instanceof Error ? error.message : 'Unknown',
+            });
+            res.status(500).json({ error: 'Failed to create API key' });
+        }
+    }
+
+    /**
+     * Handle revoke API key request
+     */
+    private async handleRevokeApiKey(req: Request, res: Response): Promise<void> {
+        try {
+            const user = await this.requireTokenUser(req, res);
+            if (!user) return;
+
+            const revoked = await authService.revokeApiKey(user.userId, String(req.params.id));
+            if (!revoked) {
+                res.status(404).json({ error: 'API key not found' });
+                return;
+            }
+            logger.info('API key revoked', { userId: user.userId, keyId: req.params.id });
+            res.json({ success: true });
+        } catch (error) {
+            logger.error('Revoke API key error', {
+                error: error instanceof Error ? error.message : 'Unknown',
+            });
+            res.status(500).json({ error: 'Failed to revoke API key' });
+        }
+    }
+
     /**
      * Start the API server
      */
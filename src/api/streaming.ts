@@ -0,0 +1,155 @@
+/**
+ * @file OpenAI-compatible Server-Sent Events streaming
+ * @description Writes `chat.completion.chunk` frames for streamed chat responses.
+ *
+ * Frame sequence:
+ * 1. Role frame: `delta: { role: 'assistant' }`
+ * 2. One frame per content delta
+ * 3. Tool call frame, when the model requested tool calls
+ * 4. Stop frame: empty delta with the finish reason (`stop`, `length` or `tool_calls`)
+ * 5. Summary frame: `choices: []` with usage, cost and routing summary
+ * 6. `data: [DONE]`
+ *
+ * Headers are sent lazily with the first frame, so errors raised before the
+ * model produces output (e.g. policy denials) can still get a regular HTTP status.
+ */
+
+import type { Response } from 'express';
+import type { LLMResponse } from '../mcp/types.js';
+import { logger } from '../logging/logger.js';
+
+/**
+ * Streams a single chat completion to the client as SSE frames
+ */
+export class ChatCompletionStream {
+    private readonly id = `chatcmpl-${Date.now()}`;
+    private readonly created = Math.floor(Date.now() / 1000);
+    private closed = false;
+    private opened = false;
+
+    constructor(
+        private readonly res: Response,
+        private readonly model: string,
+    ) {
+        res.on('close', () => {
+            this.closed = true;
+        });
+    }
+
+    /**
+     * Whether SSE headers have been sent
+     */
+    get isOpen(): boolean {
+        return this.opened;
+    }
+
+    /**
+     * Send SSE headers and the initial role frame (idempotent)
+     */
+    open(): void {
+        if (this.opened) return;
+        this.opened = true;
+
+        this.res.status(200);
+        this.res.setHeader('Content-Type', 'text/event-stream');
+        this.res.setHeader('Cache-Control', 'no-cache');
+        this.res.setHeader('Connection', 'keep-alive');
+        this.res.setHeader('X-Accel-Buffering', 'no');
+        this.res.flushHeaders();
+
+        this.writeChunk({ role: 'assistant' }, null);
+    }
+
+    /**
+     * Forward a content fragment to the client (bound, usable as a stream handler)
+     */
+    readonly writeDelta = (content: string): void => {
+        if (!content) return;
+        this.open();
+        this.writeChunk({ content }, null);
+    };
+
+    /**
+     * Send the stop frame, the usage/routing summary frame and terminate the stream
+     */
+    finish(result: LLMResponse, extra: Record<string, unknown> = {}): void {
+        this.open();
+        // Tool calls are only known once the provider finishes, so they are sent whole
+        if (result.toolCalls && result.toolCalls.length > 0) {
+            this.writeChunk({
+                tool_calls: result.toolCalls.map((call, index) => ({
+                    index,
+                    id: call.id,
+                    type: 'function',
+                    function: { name: call.name, arguments: call.arguments },
+                })),
+            }, null, result.modelId);
+        }
+        this.writeChunk({}, result.finishReason ?? 'stop', result.modelId);
+        this.writeFrame({
+            id: this.id,
+            object: 'chat.completion.chunk',
+            created: this.created,
+            model: result.modelId,
+            choices: [],
+            usage: {
+                prompt_tokens: result.inputTokens,
+                completion_tokens: result.outputTokens,
+                total_tokens: result.inputTokens + result.outputTokens,
+            },
+            cost: result.cost,
+            routing: {
+                summary: result.routingSummary,
+            },
+            ...extra,
+        });
+        this.end();
+    }
+
+    /**
+     * Report an error inside the stream (headers are already sent) and terminate it
+     */
+    fail(error: unknown): void {
+        this.open();
+        this.writeFrame({
+            error: {
+                message: error instanceof Error ? error.message : 'Unknown error',
+                type: 'server_error',
+            },
+        });
+        this.end();
+    }
+
+    private writeChunk(
+        delta: Record<string, unknown>,
+        finishReason: string | null,
+        model: string = this.model,
+    ): void {
+        this.writeFrame({
+            id: this.id,
+            object: 'chat.completion.chunk',
+            created: this.created,
+            model,
+            choices: [{
+                index: 0,
+                delta,
+                finish_reason: finishReason,
+            }],
+        });
+    }
+
+    private writeFrame(payload: unknown): void {
+        if (this.closed) return;
+        this.res.write(`data: ${JSON.stringify(payload)}\n\n`);
+    }
+
+    private end(): void {
+        if (this.closed) {
+            logger.debug('Client disconnected before stream completed', { id: this.id });
+            return;
+        }
+        this.res.write('data: [DONE]\n\n');
+        this.res.end();
+        this.closed = true;
+    }
+}
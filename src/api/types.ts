@@ -144,3 +144,56 @@ export interface ErrorResponse {
     details?: string;
     code?: string;
 }
+
+/**
+ * OpenAI-compatible tool definition (chat completions `tools`)
+ */
+export const ChatToolSchema = z.object({
+    type: z.literal('function'),
+    function: z.object({
+        name: z.string().min(1),
+        description: z.string().optional(),
+        parameters: z.record(z.unknown()).optional(),
+    }),
+});
+
+/**
+ * Tool calling fields of an OpenAI-compatible chat completions request
+ */
+export const ChatToolParamsSchema = z.object({
+    tools: z.array(ChatToolSchema).optional(),
+    tool_choice: z
+        .union([
+            z.enum(['auto', 'none', 'required']),
+            z.object({
+                type: z.literal('function'),
+                function: z.object({ name: z.string().min(1) }),
+            }),
+        ])
+        .optional(),
+});
+
+/**
+ * OpenAI-compatible multimodal content part
+ */
+export const ChatContentPartSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('text'), text: z.string() }),
+    z.object({
+        type: z.literal('image_url'),
+        image_url: z.object({
+            url: z.string().regex(/^(https?:|data:image\/)/, 'Image url must be http(s) or a data:image URL'),
+            detail: z.enum(['auto', 'low', 'high']).optional(),
+        }),
+    }),
+]);
+
+/**
+ * Message content of an OpenAI-compatible chat completions request: text or content parts
+ */
+export const ChatMessageContentSchema = z.object({
+    messages: z.array(
+        z.object({
+            content: z.union([z.string(), z.array(ChatContentPartSchema)]).nullable().optional(),
+        }).passthrough()
+    ),
+});
@@ -172,6 +172,26 @@ class RedisCache {
         }
     }
 
+    /**
+     * List keys matching a pattern
+     */
+    async keys(pattern: string): Promise<string[]> {
+        if (!this.client || !this.isConnected) {
+            logger.debug('Redis not available for KEYS', { pattern });
+            return [];
+        }
+
+        try {
+            return await this.client.keys(pattern);
+        } catch (error) {
+            logger.error('Redis KEYS error', {
+                pattern,
+                error: error instanceof Error ? error.message : 'Unknown',
+            });
+            return [];
+        }
+    }
+
     /**
      * Delete keys by pattern (useful for cache invalidation)
      */
@@ -353,6 +373,12 @@ export const CacheKeys = {
     llmResponse: (modelId: string, promptHash: string) =>
         `llm:cache:${modelId}:${promptHash}`,
 
+    // Semantic response cache (scope = project:layer:model)
+    semanticEntry: (scope: string, entryId: string) =>
+        `llm:semantic:${scope}:${entryId}`,
+    semanticScope: (scope: string) =>
+        `llm:semantic:${scope}:*`,
+
     // Conversation context
     conversationSummary: (conversationId: string) =>
         `conv:summary:${conversationId}`,
@@ -391,4 +417,8 @@ export const CacheKeys = {
 
     // Agent memory cache
     agentMemory: `agent:memory`,
+
+    // MikroTik device facts
+    mikrotikFacts: (deviceId: string) =>
+        `mikrotik:facts:${deviceId}`,
 };
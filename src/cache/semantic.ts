@@ -0,0 +1,289 @@
+/**
+ * @file Semantic Response Cache
+ * @description Serves rephrased prompts from earlier responses.
+ *
+ * Prompts are normalized and embedded with the EmbeddingService. A lookup compares
+ * the embedding against the entries of the same scope (project, layer and model)
+ * and returns the closest one above the similarity threshold.
+ *
+ * Each entry is its own Redis key (`llm:semantic:<scope>:<id>`) with a TTL, so
+ * expired entries disappear without a sweep.
+ */
+
+import { randomUUID } from 'crypto';
+import { redisCache, CacheKeys } from './redis.js';
+import { env } from '../config/env.js';
+import { logger } from '../logging/logger.js';
+import { EmbeddingService, embeddingService } from '../services/chat/EmbeddingService.js';
+import { getPromptText } from '../tools/llm/client.js';
+import type { ModelLayer } from '../config/models.js';
+import type { LLMRequest, LLMResponse } from '../mcp/types.js';
+
+/**
+ * Semantic cache configuration
+ */
+export interface SemanticCacheConfig {
+    /**
+     * @default env.SEMANTIC_CACHE_ENABLED
+     */
+    enabled?: boolean;
+
+    /**
+     * Minimum cosine similarity for a hit
+     * @default env.SEMANTIC_CACHE_THRESHOLD
+     */
+    threshold?: number;
+
+    /**
+     * Entry lifetime in seconds
+     * @default env.SEMANTIC_CACHE_TTL
+     */
+    ttlSeconds?: number;
+
+    /**
+     * Entries kept per scope; the oldest is evicted when full
+     * @default env.SEMANTIC_CACHE_MAX_ENTRIES
+     */
+    maxEntries?: number;
+}
+
+/**
+ * Stored cache entry
+ */
+export interface SemanticCacheEntry {
+    id: string;
+    scope: string;
+    prompt: string; // Normalized prompt
+    embedding: number[];
+    response: LLMResponse;
+    createdAt: string;
+    hits: number;
+}
+
+/**
+ * Outcome of a lookup. On a miss it carries what `store` needs, so the prompt
+ * is embedded only once per request.
+ */
+export interface SemanticLookup {
+    scope: string;
+    prompt: string;
+    embedding: number[];
+    hit?: LLMResponse;
+    entryCount: number;
+    oldestKey?: string;
+}
+
+/**
+ * Normalize a prompt so formatting-only differences embed identically
+ */
+export function normalizePrompt(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Cache scope for a request: `<project>:<layer>:<model>`
+ */
+export function getSemanticCacheScope(project: string | undefined, layer: ModelLayer, modelId?: string): string {
+    const clean = (part: string) => part.replace(/[^\w.-]/g, '_');
+    return [clean(project || 'default'), layer, clean(modelId || 'auto')].join(':');
+}
+
+/**
+ * Requests whose answer depends on more than the prompt text are never cached
+ */
+function isCacheableRequest(request: LLMRequest): boolean {
+    if ((request.tools?.length ?? 0) > 0) return false;
+    return !request.messages?.some((m) => (m.images?.length ?? 0) > 0 || m.role === 'tool');
+}
+
+/**
+ * Only complete, final text answers are stored
+ */
+function isCacheableResponse(response: LLMResponse): boolean {
+    return Boolean(response.content) &&
+        !response.toolCalls?.length &&
+        !response.requiresEscalationConfirm &&
+        response.finishReason !== 'length' &&
+        !response.semanticCache;
+}
+
+export class SemanticCache {
+    private config: Required<SemanticCacheConfig>;
+
+    constructor(
+        config: SemanticCacheConfig = {},
+        private embeddings: EmbeddingService = embeddingService,
+    ) {
+        this.config = {
+            enabled: config.enabled ?? env.SEMANTIC_CACHE_ENABLED,
+            threshold: config.threshold ?? env.SEMANTIC_CACHE_THRESHOLD,
+            ttlSeconds: config.ttlSeconds ?? env.SEMANTIC_CACHE_TTL,
+            maxEntries: config.maxEntries ?? env.SEMANTIC_CACHE_MAX_ENTRIES,
+        };
+    }
+
+    get enabled(): boolean {
+        return this.config.enabled;
+    }
+
+    /**
+     * Find a cached response for a near-duplicate prompt in the scope.
+     * Returns undefined when the cache is disabled, the request is not cacheable
+     * or the prompt cannot be embedded; routing then proceeds uncached.
+     */
+    async lookup(request: LLMRequest, scope: string): Promise<SemanticLookup | undefined> {
+        if (!this.config.enabled || !isCacheableRequest(request)) {
+            return undefined;
+        }
+
+        const prompt = normalizePrompt(getPromptText(request));
+        if (!prompt) {
+            return undefined;
+        }
+
+        let embedding: number[];
+        try {
+            embedding = (await this.embeddings.getEmbedding(prompt)).embedding;
+        } catch (error) {
+            logger.warn('Semantic cache skipped: embedding failed', {
+                error: error instanceof Error ? error.message : 'Unknown',
+            });
+            return undefined;
+        }
+
+        const keys = await redisCache.keys(CacheKeys.semanticScope(scope));
+        const entries = await redisCache.mget<SemanticCacheEntry>(keys);
+
+        let best: { key: string; entry: SemanticCacheEntry; similarity: number } | undefined;
+        let oldest: { key: string; createdAt: string } | undefined;
+        for (let i = 0; i < keys.length; i++) {
+            const entry = entries[i];
+            if (!entry) continue;
+            if (!oldest || entry.createdAt < oldest.createdAt) {
+                oldest = { key: keys[i], createdAt: entry.createdAt };
+            }
+            // Entries embedded by a different embedding model cannot be compared
+            if (entry.embedding.length !== embedding.length) continue;
+
+            const similarity = EmbeddingService.cosineSimilarity(embedding, entry.embedding);
+            if (similarity >= this.config.threshold && (!best || similarity > best.similarity)) {
+                best = { key: keys[i], entry, similarity };
+            }
+        }
+
+        const lookup: SemanticLookup = {
+            scope,
+            prompt,
+            embedding,
+            entryCount: keys.length,
+            oldestKey: oldest?.key,
+        };
+
+        if (best) {
+            const { key, entry, similarity } = best;
+            await this.recordHit(key, entry);
+
+            logger.info('Semantic cache hit', {
+                scope,
+                entryId: entry.id,
+                similarity: Number(similarity.toFixed(4)),
+                costSaved: entry.response.cost,
+            });
+
+            lookup.hit = {
+                ...entry.response,
+                inputTokens: 0,
+                outputTokens: 0,
+                cost: 0,
+                routingSummary: `Semantic cache hit: ${entry.response.modelId} (similarity ${similarity.toFixed(3)})`,
+                semanticCache: {
+                    hit: true,
+                    similarity,
+                    costSaved: entry.response.cost,
+                    entryId: entry.id,
+                },
+            };
+        }
+
+        return lookup;
+    }
+
+    /**
+     * Store a routed response under the prompt embedded by `lookup`
+     */
+    async store(lookup: SemanticLookup, response: LLMResponse): Promise<void> {
+        if (!isCacheableResponse(response)) {
+            return;
+        }
+
+        if (lookup.entryCount >= this.config.maxEntries && lookup.oldestKey) {
+            await redisCache.del(lookup.oldestKey);
+        }
+
+        const entry: SemanticCacheEntry = {
+            id: randomUUID(),
+            scope: lookup.scope,
+            prompt: lookup.prompt,
+            embedding: lookup.embedding,
+            response,
+            createdAt: new Date().toISOString(),
+            hits: 0,
+        };
+
+        await redisCache.set(CacheKeys.semanticEntry(lookup.scope, entry.id), entry, this.config.ttlSeconds);
+    }
+
+    /**
+     * List entries (without embeddings), optionally limited to one scope
+     */
+    async list(scope?: string): Promise<Array<Omit<SemanticCacheEntry, 'embedding'> & { ttlSeconds: number | null }>> {
+        const keys = await redisCache.keys(CacheKeys.semanticScope(scope ?? '*'));
+        const entries = await redisCache.mget<SemanticCacheEntry>(keys);
+
+        const result = [];
+        for (let i = 0; i < keys.length; i++) {
+            const entry = entries[i];
+            if (!entry) continue;
+            result.push({
+                id: entry.id,
+                scope: entry.scope,
+                prompt: entry.prompt,
+                response: entry.response,
+                createdAt: entry.createdAt,
+                hits: entry.hits,
+                ttlSeconds: await redisCache.ttl(keys[i]),
+            });
+        }
+        return result.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    /**
+     * Delete one entry by ID; returns false if it does not exist
+     */
+    async delete(entryId: string): Promise<boolean> {
+        const [key] = await redisCache.keys(CacheKeys.semanticEntry('*', entryId));
+        if (!key) {
+            return false;
+        }
+        return redisCache.del(key);
+    }
+
+    /**
+     * Purge all entries, or only those of one scope; returns the number deleted
+     */
+    async purge(scope?: string): Promise<number> {
+        return redisCache.deleteByPattern(CacheKeys.semanticScope(scope ?? '*'));
+    }
+
+    /**
+     * Count the hit, keeping the entry's remaining TTL
+     */
+    private async recordHit(key: string, entry: SemanticCacheEntry): Promise<void> {
+        const ttl = await redisCache.ttl(key);
+        if (ttl && ttl > 0) {
+            await redisCache.set(key, { ...entry, hits: entry.hits + 1 }, ttl);
+        }
+    }
+}
+
+export const semanticCache = new SemanticCache();
@@ -53,11 +53,18 @@ const envSchema = z.object({
     API_PORT: z.string().default('3000'),
     API_HOST: z.string().default('0.0.0.0'),
     API_CORS_ORIGIN: z.string().default('*'),
+    APP_URL: z.string().optional(), // Sent as HTTP-Referer to OpenRouter
 
     // Logging
     LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
     LOG_FILE: z.string().default('logs/mcp-gateway.log'),
 
+    // Tracing (OTLP JSON export of request traces)
+    OTLP_TRACES_FILE: z.string().optional(), // Append one OTLP JSON document per trace
+    OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: z.string().optional(), // e.g. http://localhost:4318/v1/traces
+    OTEL_EXPORTER_OTLP_TRACES_HEADERS: z.string().optional(), // key=value,key2=value2
+    OTEL_SERVICE_NAME: z.string().default('mcp-gateway'),
+
     // Routing
     DEFAULT_LAYER: z.string().default('L0'),
     ENABLE_CROSS_CHECK: z
@@ -104,6 +111,48 @@ const envSchema = z.object({
         .transform((val: string) => parseFloat(val))
         .default('1.00'),
 
+    // Daily quotas: every LLM request reserves its estimated cost against the
+    // organization, project and user quotas (see quota/enforcer.ts)
+    QUOTA_ENFORCEMENT_ENABLED: z
+        .string()
+        .transform((val: string) => val === 'true')
+        .default('true'),
+    // Limits of users without a configured quota
+    QUOTA_USER_MAX_TOKENS_DAILY: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('1000000'),
+    QUOTA_USER_MAX_COST_DAILY: z
+        .string()
+        .transform((val: string) => parseFloat(val))
+        .default('10'),
+    // Reservations not committed or released within this time are released (crashed requests)
+    QUOTA_RESERVATION_TTL_MS: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('900000'),
+    // n8n webhook (registered via /v1/agents/webhooks) notified when a monthly
+    // budget crosses one of its alert thresholds (see quota/budgets.ts)
+    BUDGET_ALERT_WEBHOOK: z.string().default('budget-alerts'),
+
+    // Semantic response cache (opt-in)
+    SEMANTIC_CACHE_ENABLED: z
+        .string()
+        .transform((val: string) => val === 'true')
+        .default('false'),
+    SEMANTIC_CACHE_THRESHOLD: z
+        .string()
+        .transform((val: string) => parseFloat(val))
+        .default('0.95'),
+    SEMANTIC_CACHE_TTL: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('86400'),
+    SEMANTIC_CACHE_MAX_ENTRIES: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('500'),
+
     // Admin Dashboard Authentication
     ADMIN_AUTH_ENABLED: z
         .string()
@@ -117,10 +166,55 @@ const envSchema = z.object({
     // Terminal encryption key (32 bytes for AES-256)
     TERMINAL_ENCRYPTION_KEY: z.string().default('terminal-encryption-key-32bytes!'),
 
+    // Deployment approvals (chat-generated commands)
+    DEPLOYMENT_APPROVAL_EXPIRY_MINUTES: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('60'),
+    // n8n webhook (registered via /v1/agents/webhooks) notified of approval events
+    DEPLOYMENT_APPROVAL_WEBHOOK: z.string().default('deployment-approvals'),
+
     // Embedding Service Configuration
     EMBEDDING_PROVIDER: z.enum(['openai', 'openrouter', 'ollama', 'local']).default('openai'),
-    EMBEDDING_MODEL_ID: z.string().default('text-embedding-3-small'),
+    // Defaults per provider (see EmbeddingService)
+    EMBEDDING_MODEL_ID: z.string().optional(),
     OLLAMA_HOST: z.string().default('http://localhost:11434'),
+    // In-process provider (EMBEDDING_PROVIDER=local): models are read from
+    // <LOCAL_EMBEDDING_MODEL_PATH>/<model id>/ and only downloaded if allowed
+    LOCAL_EMBEDDING_MODEL_PATH: z.string().default('./models'),
+    LOCAL_EMBEDDING_ALLOW_DOWNLOAD: z
+        .string()
+        .transform((val: string) => val === 'true')
+        .default('false'),
+    LOCAL_EMBEDDING_BATCH_SIZE: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('16'),
+
+    // Vector store for span retrieval and agent memory
+    VECTOR_STORE_BACKEND: z.enum(['pgvector', 'embedded']).default('pgvector'),
+    VECTOR_STORE_PATH: z.string().default('./data/vectors'),
+
+    // Workflow engine (/v1/agents/workflows)
+    WORKFLOW_TRIGGERS_ENABLED: z
+        .string()
+        .transform((val: string) => val === 'true')
+        .default('true'),
+    // Running executions record a heartbeat; executions without one for
+    // WORKFLOW_STALE_AFTER_MS are resumed by another (or a restarted) instance
+    WORKFLOW_HEARTBEAT_MS: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('15000'),
+    WORKFLOW_STALE_AFTER_MS: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('60000'),
+    // Steps of one execution that may run at the same time (per-workflow maxConcurrency overrides)
+    WORKFLOW_MAX_CONCURRENCY: z
+        .string()
+        .transform((val: string) => parseInt(val, 10))
+        .default('4'),
 });
 
 export type Env = z.infer<typeof envSchema>;
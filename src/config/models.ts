@@ -23,6 +23,7 @@ export interface ModelCapabilities {
     general: boolean; // General knowledge
     reasoning: boolean; // Complex reasoning
     vision?: boolean; // Image understanding
+    tools?: boolean; // Function/tool calling
 }
 
 /**
@@ -76,6 +77,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             code: true,
             general: true,
             reasoning: true,
+            tools: true,
         },
         contextWindow: 131072,
         enabled: true, // Free model via OpenRouter
@@ -93,6 +95,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             code: true,
             general: true,
             reasoning: true,
+            tools: true,
         },
         contextWindow: 131072,
         enabled: true, // Free model via OpenRouter
@@ -113,6 +116,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 1000000,
         enabled: false, // Model not available on OpenRouter
@@ -131,6 +135,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 128000,
         enabled: true, // Via OpenRouter
@@ -149,6 +154,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 128000,
         enabled: false, // Requires OPENAI_API_KEY
@@ -168,6 +174,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 200000,
         enabled: true, // Via OpenRouter
@@ -185,6 +192,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 200000,
         enabled: false, // Requires ANTHROPIC_API_KEY
@@ -202,6 +210,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 128000,
         enabled: true, // Via OpenRouter
@@ -219,6 +228,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 128000,
         enabled: false, // Requires OPENAI_API_KEY
@@ -238,6 +248,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 200000,
         enabled: true, // Via OpenRouter
@@ -255,6 +266,7 @@ export const MODEL_CATALOG: ModelConfig[] = [
             general: true,
             reasoning: true,
             vision: true,
+            tools: true,
         },
         contextWindow: 200000,
         enabled: false, // Requires ANTHROPIC_API_KEY
@@ -2,6 +2,7 @@ import { env } from './env.js';
 import { logger } from '../logging/logger.js';
 import { ModelProvider } from './models.js';
 import { providerManager } from './provider-manager.js';
+import { eventBus } from '../infrastructure/events.js';
 
 /**
  * Provider health status tracker
@@ -25,7 +26,7 @@ export class ProviderHealthManager {
 
         // Perform actual health check
         const isHealthy = await this.checkProviderHealth(provider);
-        this.healthStatus.set(provider, isHealthy);
+        this.setHealthStatus(provider, isHealthy);
         this.lastCheckTime.set(provider, now);
 
         // Update database
@@ -90,11 +91,22 @@ export class ProviderHealthManager {
      * Mark a provider as unhealthy (e.g., after a failed request)
      */
     markProviderUnhealthy(provider: ModelProvider): void {
-        this.healthStatus.set(provider, false);
+        this.setHealthStatus(provider, false);
         this.lastCheckTime.set(provider, Date.now());
         logger.warn(`Provider ${provider} marked as unhealthy`);
     }
 
+    /**
+     * Record a status; publishes `provider.unhealthy` when a provider stops being healthy
+     */
+    private setHealthStatus(provider: ModelProvider, isHealthy: boolean): void {
+        const wasHealthy = this.healthStatus.get(provider);
+        this.healthStatus.set(provider, isHealthy);
+        if (!isHealthy && wasHealthy !== false) {
+            eventBus.emit('provider.unhealthy', { provider });
+        }
+    }
+
     /**
      * Reset a provider's health status (force recheck on next call)
      */
@@ -1,14 +1,16 @@
 /**
  * Admin Dashboard Authentication Service
  * 
- * Handles user authentication with JWT tokens.
- * Can be toggled on/off via ADMIN_AUTH_ENABLED environment variable.
+ * Handles user authentication with JWT tokens, and API keys (`gmcp_...`)
+ * issued to users for programmatic clients such as remote MCP transports.
+ * Dashboard auth can be toggled on/off via ADMIN_AUTH_ENABLED environment variable.
  */
 
+import { createHash, randomBytes } from 'crypto';
 import { Pool } from 'pg';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
 import { env } from '../config/env.js';
 
 export interface AdminUser {
@@ -31,6 +33,26 @@ export interface JWTPayload {
     exp: number;
 }
 
+export interface ApiKey {
+    id: string;
+    user_id: string;
+    name: string;
+    key_prefix: string; // First characters of the key, for display
+    last_used?: string;
+    created_at: string;
+}
+
+/**
+ * User behind a JWT or an API key
+ */
+export interface AuthPrincipal {
+    userId: string;
+    username: string;
+    role: AdminUser['role'];
+}
+
+export const API_KEY_PREFIX = 'gmcp_';
+
 export interface AuthResult {
     success: boolean;
     user?: AdminUser;
@@ -79,6 +101,19 @@ class AuthService {
       )
     `);
 
+        // API keys are stored as SHA-256 hashes; the key itself is only returned on creation
+        await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS admin_api_keys (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        user_id UUID NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        key_hash VARCHAR(64) UNIQUE NOT NULL,
+        key_prefix VARCHAR(16) NOT NULL,
+        last_used TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
         // Create default admin user if not exists
         await this.ensureDefaultAdmin();
         this.initialized = true;
@@ -192,6 +227,77 @@ class AuthService {
         }
     }
 
+    /**
+     * Issue an API key for a user. The key is returned only once.
+     */
+    async createApiKey(userId: string, name: string): Promise<{ apiKey: ApiKey; key: string }> {
+        if (!this.pool) throw new Error('Database pool not initialized');
+        if (!this.initialized) await this.ensureTable();
+
+        const key = `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+        const result = await this.pool.query(
+            `INSERT INTO admin_api_keys (id, user_id, name, key_hash, key_prefix)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, user_id, name, key_prefix, last_used, created_at`,
+            [uuidv4(), userId, name, hashApiKey(key), key.slice(0, 12)]
+        );
+
+        return { apiKey: result.rows[0], key };
+    }
+
+    /**
+     * Resolve an API key to its (active) user
+     */
+    async verifyApiKey(key: string): Promise<AuthPrincipal | null> {
+        if (!this.pool) throw new Error('Database pool not initialized');
+        if (!key.startsWith(API_KEY_PREFIX)) return null;
+        if (!this.initialized) await this.ensureTable();
+
+        const result = await this.pool.query(
+            `UPDATE admin_api_keys k SET last_used = CURRENT_TIMESTAMP
+       FROM admin_users u
+       WHERE k.key_hash = $1 AND u.id = k.user_id AND u.is_active = true
+       RETURNING u.id, u.username, u.role`,
+            [hashApiKey(key)]
+        );
+        if (result.rows.length === 0) {
+            return null;
+        }
+
+        const user = result.rows[0];
+        return { userId: user.id, username: user.username, role: user.role };
+    }
+
+    /**
+     * API keys of a user (without the keys themselves)
+     */
+    async listApiKeys(userId: string): Promise<ApiKey[]> {
+        if (!this.pool) throw new Error('Database pool not initialized');
+        if (!this.initialized) await this.ensureTable();
+
+        const result = await this.pool.query(
+            `SELECT id, user_id, name, key_prefix, last_used, created_at FROM admin_api_keys
+       WHERE user_id = $1 ORDER BY created_at DESC`,
+            [userId]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Revoke one of a user's API keys; false if there is no such key
+     */
+    async revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+        if (!this.pool) throw new Error('Database pool not initialized');
+        if (!isUuid(keyId)) return false; // Not a key id; the UUID column would reject it
+        if (!this.initialized) await this.ensureTable();
+
+        const result = await this.pool.query(
+            'DELETE FROM admin_api_keys WHERE id = $1 AND user_id = $2',
+            [keyId, userId]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
     /**
      * Get user by ID
      */
@@ -316,4 +422,8 @@ class AuthService {
     }
 }
 
+function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
 export const authService = new AuthService();
@@ -0,0 +1,432 @@
+/**
+ * Deployment Session Store
+ * Persists chat deployment sessions, approval decisions and command results
+ * Falls back to an in-memory store if DB is not available
+ */
+
+import { db } from './postgres.js';
+import type {
+    ApprovalRecord,
+    ExecutionResult,
+    ExecutionSession,
+    ExecutionStatus,
+} from '../services/chat/commandExecution.js';
+
+interface DBDeploymentSession {
+    session_id: string;
+    user_id: string;
+    target_device: string;
+    connection_id: string | null;
+    task_type: string | null;
+    task_description: string | null;
+    status: ExecutionStatus;
+    commands: NonNullable<ExecutionSession['commands']>;
+    command_ids: string[];
+    error_message: string | null;
+    start_time: Date;
+    end_time: Date | null;
+    approval_expires_at: Date | null;
+}
+
+interface DBDeploymentApproval {
+    session_id: string;
+    approved: boolean;
+    command_ids: string[];
+    decided_by: string;
+    decided_by_role: string | null;
+    reason: string | null;
+    decided_at: Date;
+}
+
+interface DBCommandResult {
+    session_id: string;
+    command_id: string;
+    success: boolean;
+    stdout: string | null;
+    stderr: string | null;
+    exit_code: number;
+    duration_ms: number;
+    executed_at: Date;
+}
+
+export interface DeploymentSessionFilter {
+    userId?: string;
+    status?: ExecutionStatus;
+    targetDevice?: string;
+    since?: string; // ISO timestamp, inclusive
+    until?: string; // ISO timestamp, exclusive
+    limit?: number;
+    offset?: number;
+}
+
+export interface CommandHistoryFilter {
+    sessionId?: string;
+    userId?: string;
+    targetDevice?: string;
+    commandId?: string;
+    success?: boolean;
+    since?: string;
+    until?: string;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * A command result together with the session it ran in
+ */
+export interface CommandHistoryEntry extends ExecutionResult {
+    sessionId: string;
+    userId: string;
+    targetDevice: string;
+}
+
+function toSession(row: DBDeploymentSession): ExecutionSession {
+    return {
+        sessionId: row.session_id,
+        userId: row.user_id,
+        targetDevice: row.target_device,
+        connectionId: row.connection_id ?? undefined,
+        taskType: row.task_type ?? undefined,
+        taskDescription: row.task_description ?? undefined,
+        status: row.status,
+        commands: row.commands,
+        commandIds: row.command_ids,
+        errorMessage: row.error_message ?? undefined,
+        startTime: row.start_time.toISOString(),
+        endTime: row.end_time?.toISOString(),
+        approvalExpiresAt: row.approval_expires_at?.toISOString(),
+    };
+}
+
+function toApproval(row: DBDeploymentApproval): ApprovalRecord {
+    return {
+        approved: row.approved,
+        commandIds: row.command_ids,
+        decidedBy: row.decided_by,
+        role: row.decided_by_role ?? undefined,
+        reason: row.reason ?? undefined,
+        decidedAt: row.decided_at.toISOString(),
+    };
+}
+
+function toResult(row: DBCommandResult): ExecutionResult {
+    return {
+        commandId: row.command_id,
+        success: row.success,
+        stdout: row.stdout ?? undefined,
+        stderr: row.stderr ?? undefined,
+        exitCode: row.exit_code,
+        duration: row.duration_ms,
+        timestamp: row.executed_at.toISOString(),
+    };
+}
+
+/**
+ * Build a WHERE clause from column/value pairs, skipping undefined values
+ */
+function buildWhere(conditions: Array<[string, unknown]>): { clause: string; params: unknown[] } {
+    const params: unknown[] = [];
+    const parts: string[] = [];
+    for (const [sql, value] of conditions) {
+        if (value === undefined) continue;
+        params.push(value);
+        parts.push(sql.replace('?', `$${params.length}`));
+    }
+    return { clause: parts.length > 0 ? `WHERE ${parts.join(' AND ')}` : '', params };
+}
+
+function inRange(timestamp: string, since?: string, until?: string): boolean {
+    return (!since || timestamp >= since) && (!until || timestamp < until);
+}
+
+class DeploymentSessionStore {
+    private memorySessions: Map<string, ExecutionSession> = new Map();
+
+    async create(session: ExecutionSession): Promise<ExecutionSession> {
+        if (db.isReady()) {
+            const result = await db.query<DBDeploymentSession>(
+                `INSERT INTO deployment_sessions
+                    (session_id, user_id, target_device, connection_id, task_type, task_description,
+                     status, commands, command_ids, start_time, approval_expires_at)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                 RETURNING *`,
+                [
+                    session.sessionId,
+                    session.userId,
+                    session.targetDevice,
+                    session.connectionId ?? null,
+                    session.taskType ?? null,
+                    session.taskDescription ?? null,
+                    session.status,
+                    JSON.stringify(session.commands ?? []),
+                    JSON.stringify(session.commandIds),
+                    session.startTime,
+                    session.approvalExpiresAt ?? null,
+                ]
+            );
+            if (!result) {
+                throw new Error(`Failed to store deployment session ${session.sessionId}`);
+            }
+            return { ...toSession(result.rows[0]), results: [], approvals: [] };
+        }
+
+        const stored: ExecutionSession = { ...session, results: [], approvals: [] };
+        this.memorySessions.set(session.sessionId, stored);
+        return stored;
+    }
+
+    /**
+     * Get a session with its approvals and results
+     */
+    async get(sessionId: string): Promise<ExecutionSession | undefined> {
+        if (db.isReady()) {
+            const sessionResult = await db.query<DBDeploymentSession>(
+                'SELECT * FROM deployment_sessions WHERE session_id = $1',
+                [sessionId]
+            );
+            const row = sessionResult?.rows[0];
+            if (!row) {
+                return undefined;
+            }
+
+            const approvals = await db.query<DBDeploymentApproval>(
+                'SELECT * FROM deployment_approvals WHERE session_id = $1 ORDER BY decided_at',
+                [sessionId]
+            );
+            const results = await db.query<DBCommandResult>(
+                'SELECT * FROM deployment_command_results WHERE session_id = $1 ORDER BY executed_at',
+                [sessionId]
+            );
+            return {
+                ...toSession(row),
+                approvals: approvals?.rows.map(toApproval) ?? [],
+                results: results?.rows.map(toResult) ?? [],
+            };
+        }
+
+        return this.memorySessions.get(sessionId);
+    }
+
+    /**
+     * Update status, selected commands or completion; returns undefined if the session does not exist,
+     * or is not in `expectedStatus` when one is given (a compare-and-set of the status)
+     */
+    async update(
+        sessionId: string,
+        changes: Partial<Pick<ExecutionSession, 'status' | 'commandIds' | 'endTime' | 'errorMessage'>>,
+        expectedStatus?: ExecutionSession['status'],
+    ): Promise<ExecutionSession | undefined> {
+        if (db.isReady()) {
+            const result = await db.query<DBDeploymentSession>(
+                `UPDATE deployment_sessions
+                 SET status = COALESCE($2, status),
+                     command_ids = COALESCE($3, command_ids),
+                     end_time = COALESCE($4, end_time),
+                     error_message = COALESCE($5, error_message),
+                     updated_at = NOW()
+                 WHERE session_id = $1 AND ($6::text IS NULL OR status = $6)
+                 RETURNING session_id`,
+                [
+                    sessionId,
+                    changes.status ?? null,
+                    changes.commandIds ? JSON.stringify(changes.commandIds) : null,
+                    changes.endTime ?? null,
+                    changes.errorMessage ?? null,
+                    expectedStatus ?? null,
+                ]
+            );
+            if (!result) {
+                throw new Error(`Failed to update deployment session ${sessionId}`);
+            }
+            return result.rows[0] ? this.get(sessionId) : undefined;
+        }
+
+        const session = this.memorySessions.get(sessionId);
+        if (!session || (expectedStatus && session.status !== expectedStatus)) {
+            return undefined;
+        }
+        const updated: ExecutionSession = { ...session };
+        for (const [key, value] of Object.entries(changes)) {
+            if (value !== undefined) {
+                Object.assign(updated, { [key]: value });
+            }
+        }
+        this.memorySessions.set(sessionId, updated);
+        return updated;
+    }
+
+    /**
+     * Append an approval decision to a pending session; returns false if the session does not
+     * exist or is no longer pending. Concurrent decisions are all kept (one row each).
+     */
+    async addApproval(sessionId: string, approval: ApprovalRecord): Promise<boolean> {
+        if (db.isReady()) {
+            const result = await db.query(
+                `INSERT INTO deployment_approvals (session_id, approved, command_ids, decided_by, decided_by_role, reason, decided_at)
+                 SELECT session_id, $2, $3, $4, $5, $6, $7 FROM deployment_sessions
+                 WHERE session_id = $1 AND status = 'pending'`,
+                [
+                    sessionId,
+                    approval.approved,
+                    JSON.stringify(approval.commandIds),
+                    approval.decidedBy,
+                    approval.role ?? null,
+                    approval.reason ?? null,
+                    approval.decidedAt,
+                ]
+            );
+            if (!result) {
+                throw new Error(`Failed to record approval for deployment session ${sessionId}`);
+            }
+            return (result.rowCount ?? 0) > 0;
+        }
+
+        const session = this.memorySessions.get(sessionId);
+        if (!session || session.status !== 'pending') {
+            return false;
+        }
+        session.approvals = [...(session.approvals ?? []), approval];
+        return true;
+    }
+
+    /**
+     * Append a command result; returns false if the session does not exist
+     */
+    async addResult(sessionId: string, entry: ExecutionResult): Promise<boolean> {
+        if (db.isReady()) {
+            const result = await db.query(
+                `INSERT INTO deployment_command_results
+                    (session_id, command_id, success, stdout, stderr, exit_code, duration_ms, executed_at)
+                 SELECT session_id, $2, $3, $4, $5, $6, $7, $8 FROM deployment_sessions WHERE session_id = $1`,
+                [
+                    sessionId,
+                    entry.commandId,
+                    entry.success,
+                    entry.stdout ?? null,
+                    entry.stderr ?? null,
+                    entry.exitCode,
+                    Math.round(entry.duration),
+                    entry.timestamp,
+                ]
+            );
+            if (!result) {
+                throw new Error(`Failed to record result for deployment session ${sessionId}`);
+            }
+            return (result.rowCount ?? 0) > 0;
+        }
+
+        const session = this.memorySessions.get(sessionId);
+        if (!session) {
+            return false;
+        }
+        session.results = [...(session.results ?? []), entry];
+        return true;
+    }
+
+    /**
+     * List sessions, newest first. Approvals and results are not included.
+     */
+    async list(filter: DeploymentSessionFilter = {}): Promise<ExecutionSession[]> {
+        const limit = filter.limit ?? 50;
+        const offset = filter.offset ?? 0;
+
+        if (db.isReady()) {
+            const { clause, params } = buildWhere([
+                ['user_id = ?', filter.userId],
+                ['status = ?', filter.status],
+                ['target_device = ?', filter.targetDevice],
+                ['start_time >= ?', filter.since],
+                ['start_time < ?', filter.until],
+            ]);
+            const result = await db.query<DBDeploymentSession>(
+                `SELECT * FROM deployment_sessions ${clause}
+                 ORDER BY start_time DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+                [...params, limit, offset]
+            );
+            return result?.rows.map(toSession) ?? [];
+        }
+
+        return Array.from(this.memorySessions.values())
+            .filter((s) => (!filter.userId || s.userId === filter.userId)
+                && (!filter.status || s.status === filter.status)
+                && (!filter.targetDevice || s.targetDevice === filter.targetDevice)
+                && inRange(s.startTime, filter.since, filter.until))
+            .sort((a, b) => b.startTime.localeCompare(a.startTime))
+            .slice(offset, offset + limit)
+            .map((s) => ({ ...s, results: undefined, approvals: undefined }));
+    }
+
+    /**
+     * Command execution history across sessions, newest first
+     */
+    async listResults(filter: CommandHistoryFilter = {}): Promise<CommandHistoryEntry[]> {
+        const limit = filter.limit ?? 100;
+        const offset = filter.offset ?? 0;
+
+        if (db.isReady()) {
+            const { clause, params } = buildWhere([
+                ['r.session_id = ?', filter.sessionId],
+                ['s.user_id = ?', filter.userId],
+                ['s.target_device = ?', filter.targetDevice],
+                ['r.command_id = ?', filter.commandId],
+                ['r.success = ?', filter.success],
+                ['r.executed_at >= ?', filter.since],
+                ['r.executed_at < ?', filter.until],
+            ]);
+            const result = await db.query<DBCommandResult & { user_id: string; target_device: string }>(
+                `SELECT r.*, s.user_id, s.target_device
+                 FROM deployment_command_results r
+                 JOIN deployment_sessions s ON s.session_id = r.session_id
+                 ${clause}
+                 ORDER BY r.executed_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+                [...params, limit, offset]
+            );
+            return result?.rows.map((row) => ({
+                ...toResult(row),
+                sessionId: row.session_id,
+                userId: row.user_id,
+                targetDevice: row.target_device,
+            })) ?? [];
+        }
+
+        return Array.from(this.memorySessions.values())
+            .filter((s) => (!filter.sessionId || s.sessionId === filter.sessionId)
+                && (!filter.userId || s.userId === filter.userId)
+                && (!filter.targetDevice || s.targetDevice === filter.targetDevice))
+            .flatMap((s) => (s.results ?? []).map((r) => ({
+                ...r,
+                sessionId: s.sessionId,
+                userId: s.userId,
+                targetDevice: s.targetDevice,
+            })))
+            .filter((r) => (!filter.commandId || r.commandId === filter.commandId)
+                && (filter.success === undefined || r.success === filter.success)
+                && inRange(r.timestamp, filter.since, filter.until))
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+            .slice(offset, offset + limit);
+    }
+
+    /**
+     * Delete sessions started before the cutoff; returns how many were removed
+     */
+    async deleteOlderThan(cutoff: Date): Promise<number> {
+        if (db.isReady()) {
+            const result = await db.query(
+                'DELETE FROM deployment_sessions WHERE start_time < $1',
+                [cutoff.toISOString()]
+            );
+            return result?.rowCount ?? 0;
+        }
+
+        let deleted = 0;
+        for (const [sessionId, session] of this.memorySessions) {
+            if (new Date(session.startTime) < cutoff) {
+                this.memorySessions.delete(sessionId);
+                deleted++;
+            }
+        }
+        return deleted;
+    }
+}
+
+export const deploymentSessionStore = new DeploymentSessionStore();
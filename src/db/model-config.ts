@@ -25,6 +25,7 @@ interface DBModelConfig {
         general: boolean;
         reasoning: boolean;
         vision?: boolean;
+        tools?: boolean;
     };
     metadata: Record<string, unknown>;
 }
@@ -0,0 +1,419 @@
+/**
+ * Routing Policy Service
+ * Manages routing policies and the policy approval queue in the database
+ * Falls back to DEFAULT_POLICIES and an in-memory queue if DB is not available
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from './postgres.js';
+import { logger } from '../logging/logger.js';
+import {
+    DEFAULT_POLICIES,
+    PolicyMatcher,
+    type RiskLevel,
+    type RoutingPolicy,
+} from '../routing/policy.js';
+import type { LLMRequest, LLMResponse, RoutingContext } from '../mcp/types.js';
+
+interface DBRoutingPolicy {
+    id: string;
+    name: string;
+    description: string;
+    priority: number;
+    enabled: boolean;
+    rules: RoutingPolicy['rules'];
+}
+
+interface DBRoutingApproval {
+    id: string;
+    policy_id: string;
+    policy_name: string;
+    risk: RiskLevel;
+    status: ApprovalStatus;
+    request: LLMRequest;
+    context: RoutingContext;
+    requested_by: string | null;
+    decided_by: string | null;
+    decision_reason: string | null;
+    result: LLMResponse | null;
+    error: string | null;
+    created_at: Date;
+    decided_at: Date | null;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'failed';
+
+/**
+ * A request parked by a policy with `requireApproval`
+ */
+export interface RoutingApproval {
+    id: string;
+    policyId: string;
+    policyName: string;
+    risk: RiskLevel;
+    status: ApprovalStatus;
+    request: LLMRequest;
+    context: RoutingContext;
+    requestedBy?: string;
+    decidedBy?: string;
+    decisionReason?: string;
+    result?: LLMResponse;
+    error?: string;
+    createdAt: string;
+    decidedAt?: string;
+}
+
+function toPolicy(row: DBRoutingPolicy): RoutingPolicy {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        priority: row.priority,
+        enabled: row.enabled,
+        rules: row.rules,
+    };
+}
+
+function toApproval(row: DBRoutingApproval): RoutingApproval {
+    return {
+        id: row.id,
+        policyId: row.policy_id,
+        policyName: row.policy_name,
+        risk: row.risk,
+        status: row.status,
+        request: row.request,
+        context: row.context,
+        requestedBy: row.requested_by ?? undefined,
+        decidedBy: row.decided_by ?? undefined,
+        decisionReason: row.decision_reason ?? undefined,
+        result: row.result ?? undefined,
+        error: row.error ?? undefined,
+        createdAt: row.created_at.toISOString(),
+        decidedAt: row.decided_at?.toISOString(),
+    };
+}
+
+class RoutingPolicyService {
+    private initialized = false;
+    private policyCache: Map<string, RoutingPolicy> = new Map();
+    private matcher: PolicyMatcher | null = null;
+
+    /**
+     * Load policies from database
+     * Falls back to DEFAULT_POLICIES if DB not available
+     */
+    async initialize(): Promise<void> {
+        if (this.initialized) {
+            return;
+        }
+
+        try {
+            if (!db.isReady()) {
+                logger.warn('Database not ready, using default routing policies');
+                this.loadDefaults();
+                return;
+            }
+
+            const result = await db.query<DBRoutingPolicy>(
+                'SELECT id, name, description, priority, enabled, rules FROM routing_policies ORDER BY priority DESC'
+            );
+            if (!result) {
+                throw new Error('routing_policies query failed');
+            }
+
+            this.policyCache.clear();
+            for (const row of result.rows) {
+                this.policyCache.set(row.id, toPolicy(row));
+            }
+            this.matcher = null;
+            this.initialized = true;
+            logger.info(`Routing policies loaded from database: ${this.policyCache.size} policies`);
+        } catch (error) {
+            logger.error('Failed to load routing policies from database', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            logger.warn('Falling back to default routing policies');
+            this.loadDefaults();
+        }
+    }
+
+    /**
+     * Use the built-in policies until the database becomes available.
+     * Keeps the cache if it already holds policies (e.g. edits made while the DB was down).
+     */
+    private loadDefaults(): void {
+        if (this.policyCache.size > 0) {
+            return;
+        }
+        for (const policy of DEFAULT_POLICIES) {
+            this.policyCache.set(policy.id, { ...policy });
+        }
+        this.matcher = null;
+    }
+
+    /**
+     * Get all policies (enabled and disabled), highest priority first
+     */
+    async getPolicies(): Promise<RoutingPolicy[]> {
+        await this.initialize();
+        return Array.from(this.policyCache.values()).sort((a, b) => b.priority - a.priority);
+    }
+
+    /**
+     * Get policy by ID
+     */
+    async getPolicy(id: string): Promise<RoutingPolicy | undefined> {
+        await this.initialize();
+        return this.policyCache.get(id);
+    }
+
+    /**
+     * Matcher over the enabled policies, rebuilt after every change
+     */
+    async getMatcher(): Promise<PolicyMatcher> {
+        await this.initialize();
+        if (!this.matcher) {
+            this.matcher = new PolicyMatcher(Array.from(this.policyCache.values()));
+        }
+        return this.matcher;
+    }
+
+    /**
+     * Create or replace a policy
+     */
+    async savePolicy(policy: RoutingPolicy, updatedBy?: string): Promise<RoutingPolicy> {
+        await this.initialize();
+
+        if (db.isReady()) {
+            const result = await db.query(
+                `INSERT INTO routing_policies (id, name, description, priority, enabled, rules, updated_by)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7)
+                 ON CONFLICT (id) DO UPDATE SET
+                    name = EXCLUDED.name,
+                    description = EXCLUDED.description,
+                    priority = EXCLUDED.priority,
+                    enabled = EXCLUDED.enabled,
+                    rules = EXCLUDED.rules,
+                    updated_by = EXCLUDED.updated_by,
+                    updated_at = NOW()`,
+                [
+                    policy.id,
+                    policy.name,
+                    policy.description,
+                    policy.priority,
+                    policy.enabled,
+                    JSON.stringify(policy.rules),
+                    updatedBy ?? null,
+                ]
+            );
+            if (!result) {
+                throw new Error(`Failed to save routing policy ${policy.id}`);
+            }
+        } else {
+            logger.warn('Database not ready, routing policy change is not persisted', { policyId: policy.id });
+        }
+
+        this.policyCache.set(policy.id, policy);
+        this.matcher = null;
+        logger.info('Routing policy saved', { policyId: policy.id, updatedBy });
+        return policy;
+    }
+
+    /**
+     * Delete a policy; returns false if it does not exist
+     */
+    async deletePolicy(id: string): Promise<boolean> {
+        await this.initialize();
+        if (!this.policyCache.has(id)) {
+            return false;
+        }
+
+        if (db.isReady()) {
+            const result = await db.query('DELETE FROM routing_policies WHERE id = $1', [id]);
+            if (!result) {
+                throw new Error(`Failed to delete routing policy ${id}`);
+            }
+        }
+
+        this.policyCache.delete(id);
+        this.matcher = null;
+        logger.info('Routing policy deleted', { policyId: id });
+        return true;
+    }
+
+    /**
+     * Reload policies from database
+     */
+    async reload(): Promise<void> {
+        this.initialized = false;
+        await this.initialize();
+    }
+}
+
+class RoutingApprovalQueue {
+    private memoryQueue: Map<string, RoutingApproval> = new Map();
+
+    /**
+     * Park a request until an admin approves or rejects it
+     */
+    async enqueue(entry: {
+        policy: RoutingPolicy;
+        risk: RiskLevel;
+        request: LLMRequest;
+        context: RoutingContext;
+    }): Promise<RoutingApproval> {
+        if (db.isReady()) {
+            const result = await db.query<DBRoutingApproval>(
+                `INSERT INTO routing_approvals (policy_id, policy_name, risk, request, context, requested_by)
+                 VALUES ($1, $2, $3, $4, $5, $6)
+                 RETURNING *`,
+                [
+                    entry.policy.id,
+                    entry.policy.name,
+                    entry.risk,
+                    JSON.stringify(entry.request),
+                    JSON.stringify(entry.context),
+                    entry.context.userId ?? null,
+                ]
+            );
+            if (!result) {
+                throw new Error('Failed to enqueue request for approval');
+            }
+            return toApproval(result.rows[0]);
+        }
+
+        const approval: RoutingApproval = {
+            id: randomUUID(),
+            policyId: entry.policy.id,
+            policyName: entry.policy.name,
+            risk: entry.risk,
+            status: 'pending',
+            request: entry.request,
+            context: entry.context,
+            requestedBy: entry.context.userId,
+            createdAt: new Date().toISOString(),
+        };
+        this.memoryQueue.set(approval.id, approval);
+        return approval;
+    }
+
+    /**
+     * List approvals, newest first
+     */
+    async list(status?: ApprovalStatus, limit = 100): Promise<RoutingApproval[]> {
+        if (db.isReady()) {
+            const result = status
+                ? await db.query<DBRoutingApproval>(
+                    'SELECT * FROM routing_approvals WHERE status = $1 ORDER BY created_at DESC LIMIT $2',
+                    [status, limit]
+                )
+                : await db.query<DBRoutingApproval>(
+                    'SELECT * FROM routing_approvals ORDER BY created_at DESC LIMIT $1',
+                    [limit]
+                );
+            return result?.rows.map(toApproval) ?? [];
+        }
+
+        return Array.from(this.memoryQueue.values())
+            .filter((a) => !status || a.status === status)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            .slice(0, limit);
+    }
+
+    /**
+     * Get approval by ID
+     */
+    async get(id: string): Promise<RoutingApproval | undefined> {
+        if (db.isReady()) {
+            const result = await db.query<DBRoutingApproval>(
+                'SELECT * FROM routing_approvals WHERE id = $1',
+                [id]
+            );
+            return result?.rows[0] ? toApproval(result.rows[0]) : undefined;
+        }
+        return this.memoryQueue.get(id);
+    }
+
+    /**
+     * Approve or reject a pending approval.
+     * Returns undefined if the approval does not exist or was already decided,
+     * so concurrent decisions cannot both win.
+     */
+    async decide(
+        id: string,
+        decision: {
+            status: 'approved' | 'rejected';
+            decidedBy?: string;
+            reason?: string;
+        },
+    ): Promise<RoutingApproval | undefined> {
+        if (db.isReady()) {
+            const result = await db.query<DBRoutingApproval>(
+                `UPDATE routing_approvals
+                 SET status = $2, decided_by = $3, decision_reason = $4, decided_at = NOW()
+                 WHERE id = $1 AND status = 'pending'
+                 RETURNING *`,
+                [id, decision.status, decision.decidedBy ?? null, decision.reason ?? null]
+            );
+            if (!result) {
+                throw new Error(`Failed to record decision for approval ${id}`);
+            }
+            return result.rows[0] ? toApproval(result.rows[0]) : undefined;
+        }
+
+        const approval = this.memoryQueue.get(id);
+        if (!approval || approval.status !== 'pending') {
+            return undefined;
+        }
+        const decided: RoutingApproval = {
+            ...approval,
+            status: decision.status,
+            decidedBy: decision.decidedBy,
+            decisionReason: decision.reason,
+            decidedAt: new Date().toISOString(),
+        };
+        this.memoryQueue.set(id, decided);
+        return decided;
+    }
+
+    /**
+     * Store the outcome of replaying an approved request; an error marks it failed
+     */
+    async recordOutcome(
+        id: string,
+        outcome: { result: LLMResponse } | { error: string },
+    ): Promise<RoutingApproval | undefined> {
+        const result = 'result' in outcome ? outcome.result : undefined;
+        const error = 'error' in outcome ? outcome.error : undefined;
+
+        if (db.isReady()) {
+            const updated = await db.query<DBRoutingApproval>(
+                `UPDATE routing_approvals
+                 SET status = $2, result = $3, error = $4
+                 WHERE id = $1
+                 RETURNING *`,
+                [id, error ? 'failed' : 'approved', result ? JSON.stringify(result) : null, error ?? null]
+            );
+            if (!updated) {
+                throw new Error(`Failed to record outcome for approval ${id}`);
+            }
+            return updated.rows[0] ? toApproval(updated.rows[0]) : undefined;
+        }
+
+        const approval = this.memoryQueue.get(id);
+        if (!approval) {
+            return undefined;
+        }
+        const completed: RoutingApproval = {
+            ...approval,
+            status: error ? 'failed' : 'approved',
+            result,
+            error,
+        };
+        this.memoryQueue.set(id, completed);
+        return completed;
+    }
+}
+
+export const routingPolicyService = new RoutingPolicyService();
+export const routingApprovalQueue = new RoutingApprovalQueue();
@@ -0,0 +1,377 @@
+/**
+ * Workflow Store
+ * Persists workflow definitions and executions with step-level checkpoints
+ * Falls back to an in-memory store if DB is not available
+ */
+
+import { db } from './postgres.js';
+import type {
+    ExecutionTrigger,
+    StepResult,
+    WorkflowDefinition,
+    WorkflowExecution,
+} from '../agents/workflowOrchestrator.js';
+
+interface DBWorkflow {
+    id: string;
+    definition: WorkflowDefinition;
+}
+
+interface DBWorkflowExecution {
+    id: string;
+    workflow_id: string;
+    status: WorkflowExecution['status'];
+    variables: Record<string, unknown>;
+    step_results: Record<string, StepResult>;
+    trigger_type: ExecutionTrigger['type'];
+    trigger_source: string | null;
+    error: string | null;
+    started_at: Date;
+    completed_at: Date | null;
+}
+
+interface MemoryExecution {
+    execution: WorkflowExecution;
+    owner: string | null;
+    heartbeatAt: number;
+    dedupeKey?: string;
+}
+
+export interface WorkflowExecutionFilter {
+    workflowId?: string;
+    status?: WorkflowExecution['status'];
+    limit?: number;
+    offset?: number;
+}
+
+function toExecution(row: DBWorkflowExecution): WorkflowExecution {
+    return {
+        id: row.id,
+        workflowId: row.workflow_id,
+        status: row.status,
+        startedAt: row.started_at.getTime(),
+        completedAt: row.completed_at?.getTime(),
+        stepResults: row.step_results,
+        variables: row.variables,
+        error: row.error ?? undefined,
+        trigger: { type: row.trigger_type, source: row.trigger_source ?? undefined },
+    };
+}
+
+function copyExecution(execution: WorkflowExecution): WorkflowExecution {
+    return structuredClone(execution);
+}
+
+export class WorkflowStore {
+    private memoryWorkflows: Map<string, WorkflowDefinition> = new Map();
+    private memoryExecutions: Map<string, MemoryExecution> = new Map();
+
+    /**
+     * Create or replace a workflow definition
+     */
+    async saveWorkflow(workflow: WorkflowDefinition): Promise<void> {
+        if (db.isReady()) {
+            const result = await db.query(
+                `INSERT INTO agent_workflows (id, name, definition)
+                 VALUES ($1, $2, $3)
+                 ON CONFLICT (id) DO UPDATE
+                 SET name = EXCLUDED.name, definition = EXCLUDED.definition, updated_at = NOW()`,
+                [workflow.id, workflow.name, JSON.stringify(workflow)]
+            );
+            if (!result) {
+                throw new Error(`Failed to store workflow ${workflow.id}`);
+            }
+            return;
+        }
+
+        this.memoryWorkflows.set(workflow.id, structuredClone(workflow));
+    }
+
+    async getWorkflow(workflowId: string): Promise<WorkflowDefinition | undefined> {
+        if (db.isReady()) {
+            const result = await db.query<DBWorkflow>(
+                'SELECT id, definition FROM agent_workflows WHERE id = $1',
+                [workflowId]
+            );
+            return result?.rows[0]?.definition;
+        }
+
+        return this.memoryWorkflows.get(workflowId);
+    }
+
+    async listWorkflows(): Promise<WorkflowDefinition[]> {
+        if (db.isReady()) {
+            const result = await db.query<DBWorkflow>('SELECT id, definition FROM agent_workflows ORDER BY id');
+            if (!result) {
+                throw new Error('Failed to list workflows');
+            }
+            return result.rows.map((row) => row.definition);
+        }
+
+        return Array.from(this.memoryWorkflows.values());
+    }
+
+    /**
+     * Delete a workflow definition; its executions are kept
+     */
+    async deleteWorkflow(workflowId: string): Promise<boolean> {
+        if (db.isReady()) {
+            const result = await db.query('DELETE FROM agent_workflows WHERE id = $1', [workflowId]);
+            if (!result) {
+                throw new Error(`Failed to delete workflow ${workflowId}`);
+            }
+            return (result.rowCount ?? 0) > 0;
+        }
+
+        return this.memoryWorkflows.delete(workflowId);
+    }
+
+    /**
+     * Store a new execution owned by `owner`. Returns false if an execution with
+     * the same `dedupeKey` already exists (e.g. a scheduled run fired by another instance).
+     */
+    async createExecution(execution: WorkflowExecution, owner: string, dedupeKey?: string): Promise<boolean> {
+        if (db.isReady()) {
+            const result = await db.query(
+                `INSERT INTO workflow_executions
+                    (id, workflow_id, status, variables, step_results, trigger_type, trigger_source,
+                     dedupe_key, owner, heartbeat_at, started_at)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), $10)
+                 ON CONFLICT (dedupe_key) DO NOTHING`,
+                [
+                    execution.id,
+                    execution.workflowId,
+                    execution.status,
+                    JSON.stringify(execution.variables),
+                    JSON.stringify(execution.stepResults),
+                    execution.trigger?.type ?? 'manual',
+                    execution.trigger?.source ?? null,
+                    dedupeKey ?? null,
+                    owner,
+                    new Date(execution.startedAt),
+                ]
+            );
+            if (!result) {
+                throw new Error(`Failed to store workflow execution ${execution.id}`);
+            }
+            return (result.rowCount ?? 0) > 0;
+        }
+
+        if (dedupeKey && Array.from(this.memoryExecutions.values()).some((e) => e.dedupeKey === dedupeKey)) {
+            return false;
+        }
+        this.memoryExecutions.set(execution.id, {
+            execution: copyExecution(execution),
+            owner,
+            heartbeatAt: Date.now(),
+            dedupeKey,
+        });
+        return true;
+    }
+
+    /**
+     * Record a step result and the variables after it (a checkpoint)
+     */
+    async checkpoint(executionId: string, result: StepResult, variables: Record<string, unknown>): Promise<void> {
+        if (db.isReady()) {
+            const updated = await db.query(
+                `UPDATE workflow_executions
+                 SET step_results = step_results || jsonb_build_object($2::text, $3::jsonb),
+                     variables = $4,
+                     heartbeat_at = NOW(),
+                     updated_at = NOW()
+                 WHERE id = $1`,
+                [executionId, result.stepId, JSON.stringify(result), JSON.stringify(variables)]
+            );
+            if (!updated) {
+                throw new Error(`Failed to checkpoint workflow execution ${executionId}`);
+            }
+            return;
+        }
+
+        const entry = this.memoryExecutions.get(executionId);
+        if (entry) {
+            entry.execution.stepResults[result.stepId] = structuredClone(result);
+            entry.execution.variables = structuredClone(variables);
+            entry.heartbeatAt = Date.now();
+        }
+    }
+
+    /**
+     * Update status, completion or error; returns undefined if the execution does not
+     * exist or, with `expectedStatus`, is no longer in that status
+     */
+    async updateExecution(
+        executionId: string,
+        changes: Partial<Pick<WorkflowExecution, 'status' | 'completedAt' | 'error'>>,
+        expectedStatus?: WorkflowExecution['status'],
+    ): Promise<WorkflowExecution | undefined> {
+        if (db.isReady()) {
+            const result = await db.query<DBWorkflowExecution>(
+                `UPDATE workflow_executions
+                 SET status = COALESCE($2, status),
+                     completed_at = COALESCE($3, completed_at),
+                     error = COALESCE($4, error),
+                     updated_at = NOW()
+                 WHERE id = $1 AND ($5::text IS NULL OR status = $5)
+                 RETURNING *`,
+                [
+                    executionId,
+                    changes.status ?? null,
+                    changes.completedAt !== undefined ? new Date(changes.completedAt) : null,
+                    changes.error ?? null,
+                    expectedStatus ?? null,
+                ]
+            );
+            if (!result) {
+                throw new Error(`Failed to update workflow execution ${executionId}`);
+            }
+            return result.rows[0] ? toExecution(result.rows[0]) : undefined;
+        }
+
+        const entry = this.memoryExecutions.get(executionId);
+        if (!entry || (expectedStatus && entry.execution.status !== expectedStatus)) {
+            return undefined;
+        }
+        for (const [key, value] of Object.entries(changes)) {
+            if (value !== undefined) {
+                Object.assign(entry.execution, { [key]: value });
+            }
+        }
+        return copyExecution(entry.execution);
+    }
+
+    async getExecution(executionId: string): Promise<WorkflowExecution | undefined> {
+        if (db.isReady()) {
+            const result = await db.query<DBWorkflowExecution>(
+                'SELECT * FROM workflow_executions WHERE id = $1',
+                [executionId]
+            );
+            const row = result?.rows[0];
+            return row ? toExecution(row) : undefined;
+        }
+
+        const entry = this.memoryExecutions.get(executionId);
+        return entry ? copyExecution(entry.execution) : undefined;
+    }
+
+    /**
+     * List executions, newest first
+     */
+    async listExecutions(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+        const limit = filter.limit ?? 100;
+        const offset = filter.offset ?? 0;
+
+        if (db.isReady()) {
+            const result = await db.query<DBWorkflowExecution>(
+                `SELECT * FROM workflow_executions
+                 WHERE ($1::text IS NULL OR workflow_id = $1)
+                   AND ($2::text IS NULL OR status = $2)
+                 ORDER BY started_at DESC LIMIT $3 OFFSET $4`,
+                [filter.workflowId ?? null, filter.status ?? null, limit, offset]
+            );
+            return result?.rows.map(toExecution) ?? [];
+        }
+
+        return Array.from(this.memoryExecutions.values())
+            .map((entry) => entry.execution)
+            .filter((e) => (!filter.workflowId || e.workflowId === filter.workflowId)
+                && (!filter.status || e.status === filter.status))
+            .sort((a, b) => b.startedAt - a.startedAt)
+            .slice(offset, offset + limit)
+            .map(copyExecution);
+    }
+
+    /**
+     * Refresh the heartbeat of running executions owned by `owner`
+     */
+    async heartbeat(executionIds: string[], owner: string): Promise<void> {
+        if (executionIds.length === 0) {
+            return;
+        }
+
+        if (db.isReady()) {
+            await db.query(
+                `UPDATE workflow_executions SET heartbeat_at = NOW()
+                 WHERE id = ANY($1) AND owner = $2 AND status = 'running'`,
+                [executionIds, owner]
+            );
+            return;
+        }
+
+        for (const id of executionIds) {
+            const entry = this.memoryExecutions.get(id);
+            if (entry?.owner === owner) {
+                entry.heartbeatAt = Date.now();
+            }
+        }
+    }
+
+    /**
+     * Take over running executions without a heartbeat for `staleAfterMs`
+     * (their owner crashed or was stopped)
+     */
+    async claimStale(owner: string, staleAfterMs: number): Promise<WorkflowExecution[]> {
+        if (db.isReady()) {
+            const result = await db.query<DBWorkflowExecution>(
+                `UPDATE workflow_executions
+                 SET owner = $1, heartbeat_at = NOW(), updated_at = NOW()
+                 WHERE id IN (
+                     SELECT id FROM workflow_executions
+                     WHERE status = 'running'
+                       AND (heartbeat_at IS NULL OR heartbeat_at < NOW() - ($2 || ' milliseconds')::interval)
+                     FOR UPDATE SKIP LOCKED
+                 )
+                 RETURNING *`,
+                [owner, String(staleAfterMs)]
+            );
+            if (!result) {
+                throw new Error('Failed to claim stale workflow executions');
+            }
+            return result.rows.map(toExecution);
+        }
+
+        const cutoff = Date.now() - staleAfterMs;
+        return Array.from(this.memoryExecutions.values())
+            .filter((entry) => entry.execution.status === 'running' && entry.heartbeatAt < cutoff)
+            .map((entry) => {
+                entry.owner = owner;
+                entry.heartbeatAt = Date.now();
+                return copyExecution(entry.execution);
+            });
+    }
+
+    /**
+     * Mark a failed or cancelled execution as running again under `owner`;
+     * returns undefined if it is not in one of those states
+     */
+    async reopen(executionId: string, owner: string): Promise<WorkflowExecution | undefined> {
+        if (db.isReady()) {
+            const result = await db.query<DBWorkflowExecution>(
+                `UPDATE workflow_executions
+                 SET status = 'running', error = NULL, completed_at = NULL,
+                     owner = $2, heartbeat_at = NOW(), updated_at = NOW()
+                 WHERE id = $1 AND status IN ('failed', 'cancelled')
+                 RETURNING *`,
+                [executionId, owner]
+            );
+            if (!result) {
+                throw new Error(`Failed to reopen workflow execution ${executionId}`);
+            }
+            return result.rows[0] ? toExecution(result.rows[0]) : undefined;
+        }
+
+        const entry = this.memoryExecutions.get(executionId);
+        if (!entry || (entry.execution.status !== 'failed' && entry.execution.status !== 'cancelled')) {
+            return undefined;
+        }
+        entry.execution.status = 'running';
+        entry.execution.error = undefined;
+        entry.execution.completedAt = undefined;
+        entry.owner = owner;
+        entry.heartbeatAt = Date.now();
+        return copyExecution(entry.execution);
+    }
+}
+
+export const workflowStore = new WorkflowStore();
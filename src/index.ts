@@ -64,6 +64,7 @@ const { selfImprovement } = await import('./improvement/manager.js');
 const { providerManager } = await import('./config/provider-manager.js');
 const { configService } = await import('./services/config/index.js');
 const { bootstrapDB } = await import('./db/bootstrap.js');
+const { getVectorStore } = await import('./services/vector/index.js');
 
 /**
  * Main application bootstrap function.
@@ -137,10 +138,14 @@ async function main() {
             // Allow selecting transport via environment for containerized deployments
             const mcpTransport = (process.env.MCP_TRANSPORT || process.env.MCP_TRANSPORT_TYPE || '').toLowerCase();
             const wsPort = process.env.MCP_WEBSOCKET_PORT ? parseInt(process.env.MCP_WEBSOCKET_PORT, 10) : undefined;
+            const httpPort = process.env.MCP_HTTP_PORT ? parseInt(process.env.MCP_HTTP_PORT, 10) : undefined;
 
             if (mcpTransport === 'websocket') {
                 logger.info(`Starting in MCP mode (websocket) on port ${wsPort || 3001}`);
                 await startMcpServer({ transport: 'websocket', port: wsPort });
+            } else if (mcpTransport === 'http') {
+                logger.info(`Starting in MCP mode (streamable HTTP) on port ${httpPort || 3001}`);
+                await startMcpServer({ transport: 'http', port: httpPort });
             } else if (mcpTransport === 'stdio') {
                 logger.info('Starting in MCP mode (stdio)');
                 await startMcpServer({ transport: 'stdio' });
@@ -153,6 +158,7 @@ async function main() {
         // Graceful shutdown
         process.on('SIGINT', async () => {
             logger.info('Shutting down gracefully...');
+            await getVectorStore().flush();
             await redisCache.close();
             await db.close();
             if (mode === 'api') {
@@ -0,0 +1,87 @@
+/**
+ * Internal event bus
+ * Gateway components publish operational events here; workflows with
+ * `event` triggers (and any other subscriber) react to them in-process.
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from '../logging/logger.js';
+
+/**
+ * Built-in events and their payloads
+ */
+export interface GatewayEvents {
+    'quota.exceeded': { userId: string; projectId: string; reason: string };
+    'budget.threshold': { scope: string; scopeId: string; threshold: number; spent: number; monthlyLimit: number };
+    'provider.unhealthy': { provider: string };
+    'workflow.completed': { workflowId: string; executionId: string };
+    'workflow.failed': { workflowId: string; executionId: string; error: string };
+}
+
+export type GatewayEventName = keyof GatewayEvents;
+
+const GATEWAY_EVENT_NAMES: GatewayEventName[] = [
+    'quota.exceeded',
+    'budget.threshold',
+    'provider.unhealthy',
+    'workflow.completed',
+    'workflow.failed',
+];
+
+/**
+ * Whether an event name is in the namespace of a built-in event (e.g. `workflow.*`);
+ * only gateway components may publish those
+ */
+export function isReservedEventName(event: string): boolean {
+    const namespace = event.split('.')[0];
+    return GATEWAY_EVENT_NAMES.some((name) => name.split('.')[0] === namespace);
+}
+
+/**
+ * Payload of a built-in event; custom events (published through the API) carry any object
+ */
+export type GatewayEventPayload<E extends string> = E extends GatewayEventName
+    ? GatewayEvents[E]
+    : Record<string, unknown>;
+
+export type GatewayEventListener = (payload: Record<string, unknown>, event: string) => void | Promise<void>;
+
+export class EventBus {
+    private emitter = new EventEmitter();
+
+    constructor() {
+        // One listener per event-triggered workflow
+        this.emitter.setMaxListeners(0);
+    }
+
+    /**
+     * Publish an event. Listeners run asynchronously; their errors are logged, never thrown.
+     */
+    emit<E extends string>(event: E, payload: GatewayEventPayload<E>): void {
+        logger.debug('Event published', { event });
+        this.emitter.emit(event, payload, event);
+    }
+
+    /**
+     * Subscribe to an event; returns the unsubscribe function
+     */
+    subscribe(event: string, listener: GatewayEventListener): () => void {
+        const wrapped = (payload: Record<string, unknown>, name: string) => {
+            Promise.resolve()
+                .then(() => listener(payload, name))
+                .catch((error) => {
+                    logger.error('Event listener failed', {
+                        event: name,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                });
+        };
+        this.emitter.on(event, wrapped);
+        return () => {
+            this.emitter.off(event, wrapped);
+        };
+    }
+}
+
+// Singleton instance
+export const eventBus = new EventBus();
@@ -10,6 +10,8 @@ export const MIKROTIK_COMMANDS = {
     SYSTEM_RESOURCES: '/system resource print',
     SYSTEM_PACKAGE_PRINT: '/system package print',
     SYSTEM_LICENSE_PRINT: '/system license print',
+    SYSTEM_CLOCK_PRINT: '/system clock print',
+    MENU_PRINT_DETAIL: (menu: string) => `${menu} print detail`,
 
     // Backup & Restore
     BACKUP_CREATE: (name: string) => `/system backup save name=${name}`,
@@ -29,6 +31,7 @@ export const MIKROTIK_COMMANDS = {
     // Interface Management
     INTERFACE_LIST: '/interface print detail',
     INTERFACE_ETHERNET_LIST: '/interface ethernet print detail',
+    INTERFACE_VLAN_LIST: '/interface vlan print detail',
     INTERFACE_VLAN_ADD: (iface: string, vlanId: number, name: string) =>
         `/interface vlan add interface=${iface} vlan-id=${vlanId} name=${name}`,
     INTERFACE_BRIDGE_ADD: (name: string) => `/interface bridge add name=${name}`,
@@ -62,6 +65,7 @@ export const MIKROTIK_COMMANDS = {
     DHCP_NETWORK_ADD: (address: string, gateway: string, dnsServers: string[]) =>
         `/ip dhcp-server network add address=${address} gateway=${gateway} dns-server=${dnsServers.join(',')}`,
     DHCP_NETWORK_LIST: '/ip dhcp-server network print detail',
+    DHCP_CLIENT_LIST: '/ip dhcp-client print detail',
 
     // DNS
     DNS_SERVER_ADD: (address: string) => `/ip dns set servers=${address}`,
@@ -74,6 +78,9 @@ export const MIKROTIK_COMMANDS = {
     FIREWALL_NAT_ADD: (chain: string, action: string, protocol?: string) =>
         `/ip firewall nat add chain=${chain} action=${action}${protocol ? ` protocol=${protocol}` : ''}`,
 
+    // Services
+    SERVICE_LIST: '/ip service print detail',
+
     // Users & Security
     USER_LIST: '/user print detail',
     USER_ADD: (username: string, password: string, group: string = 'full') =>
@@ -0,0 +1,205 @@
+/**
+ * @file MCP Client Access
+ * @description Authentication and per-client tool permissions for MCP transports.
+ *
+ * WebSocket and streamable HTTP clients must authenticate with a JWT (from
+ * /v1/auth/login) or an API key (`gmcp_...`, from /v1/auth/api-keys), sent as
+ * `Authorization: Bearer <token>` or `X-API-Key: <key>`. The stdio transport is
+ * a local process and runs as an admin client.
+ *
+ * What a client can list and call follows the tool settings and its user's role:
+ * - Tools disabled in settings are unavailable to everyone.
+ * - Tools with `defaultEnabledForMcpClients: false` are only available to admins.
+ * - Write-capable tools (`requiresConfirmation`) are unavailable to viewers.
+ * - Listed `mode` options are limited to the tool's `modeAllowed`; calls with
+ *   other modes are rejected by the settings enforcement.
+ *
+ * Every call is recorded in the MCP settings audit log under the client's user.
+ */
+
+import type { IncomingMessage } from 'http';
+import { authService, API_KEY_PREFIX, type AdminUser } from '../../db/auth.js';
+import { db } from '../../db/postgres.js';
+import { logger } from '../../logging/logger.js';
+import { mcpRegistry } from '../tools/index.js';
+import { mcpToolSettingsService } from '../settings/index.js';
+import type { McpListToolsResponse } from './types.js';
+
+export type McpClientRole = AdminUser['role'];
+
+/**
+ * An MCP client connection and the user it acts for
+ */
+export interface McpClient {
+    userId: string;
+    username: string;
+    role: McpClientRole;
+    authMethod: 'jwt' | 'api_key' | 'local';
+    transport: 'stdio' | 'websocket' | 'http';
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export const LOCAL_MCP_CLIENT: McpClient = {
+    userId: 'local',
+    username: 'local',
+    role: 'admin',
+    authMethod: 'local',
+    transport: 'stdio',
+};
+
+const ROLES: McpClientRole[] = ['admin', 'operator', 'viewer'];
+
+let authReady = false;
+
+/**
+ * Authenticate a WebSocket upgrade or HTTP request; null if the credentials
+ * are missing or invalid
+ */
+export async function authenticateMcpClient(
+    req: IncomingMessage,
+    transport: 'websocket' | 'http',
+): Promise<McpClient | null> {
+    const header = req.headers.authorization;
+    const apiKeyHeader = req.headers['x-api-key'];
+    const token = header?.startsWith('Bearer ')
+        ? header.substring(7).trim()
+        : typeof apiKeyHeader === 'string' ? apiKeyHeader.trim() : undefined;
+    if (!token) {
+        return null;
+    }
+
+    const connection = {
+        transport,
+        ipAddress: req.socket.remoteAddress,
+        userAgent: req.headers['user-agent'],
+    };
+
+    if (token.startsWith(API_KEY_PREFIX)) {
+        if (!(await ensureAuthService())) {
+            logger.warn('MCP API key rejected: authentication database unavailable');
+            return null;
+        }
+        try {
+            const principal = await authService.verifyApiKey(token);
+            return principal ? { ...principal, authMethod: 'api_key', ...connection } : null;
+        } catch (error) {
+            logger.error('MCP API key verification failed', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        }
+    }
+
+    const payload = authService.verifyToken(token);
+    if (!payload) {
+        return null;
+    }
+    return {
+        userId: payload.userId,
+        username: payload.username,
+        role: ROLES.includes(payload.role as McpClientRole) ? payload.role as McpClientRole : 'viewer',
+        authMethod: 'jwt',
+        ...connection,
+    };
+}
+
+/**
+ * Why the client may not use a tool, or undefined if it may
+ */
+export function getToolAccessError(client: McpClient, toolName: string): string | undefined {
+    const tool = mcpRegistry.getTool(toolName);
+    if (!tool) {
+        return `Unknown tool: ${toolName}`;
+    }
+
+    const setting = mcpToolSettingsService.getToolSetting(toolName);
+    if (!setting.enabled) {
+        return `Tool '${toolName}' is disabled`;
+    }
+    if (!setting.defaultEnabledForMcpClients && client.role !== 'admin') {
+        return `Tool '${toolName}' is not enabled for MCP clients`;
+    }
+    if (tool.requiresConfirmation && client.role === 'viewer') {
+        return `Tool '${toolName}' can modify systems and is not available to viewers`;
+    }
+    return undefined;
+}
+
+/**
+ * Tools the client may use, with `mode` options limited to the allowed modes
+ */
+export function listToolsForClient(client: McpClient): McpListToolsResponse {
+    const tools = mcpRegistry.listTools().tools
+        .filter((tool) => !getToolAccessError(client, tool.name))
+        .map((tool) => {
+            const mode = tool.inputSchema.properties.mode;
+            const { modeAllowed } = mcpToolSettingsService.getToolSetting(tool.name);
+            const modes = mode?.enum?.filter((value) => modeAllowed?.includes(String(value)));
+            if (!modeAllowed?.length || !modes?.length) {
+                return tool;
+            }
+            return {
+                ...tool,
+                inputSchema: {
+                    ...tool.inputSchema,
+                    properties: { ...tool.inputSchema.properties, mode: { ...mode, enum: modes } },
+                },
+            };
+        });
+
+    return { tools };
+}
+
+/**
+ * Record a tool call in the audit log; never throws
+ */
+export async function auditToolCall(
+    client: McpClient,
+    toolName: string,
+    args: Record<string, unknown>,
+    outcome: { success: boolean; error?: string; durationMs: number },
+): Promise<void> {
+    try {
+        await mcpToolSettingsService.logToolCall({
+            userId: client.userId,
+            toolName,
+            call: {
+                username: client.username,
+                role: client.role,
+                authMethod: client.authMethod,
+                transport: client.transport,
+                mode: typeof args.mode === 'string' ? args.mode : undefined,
+                ...outcome,
+            },
+            ipAddress: client.ipAddress,
+            userAgent: client.userAgent,
+        });
+    } catch (error) {
+        logger.error('Failed to audit MCP tool call', {
+            toolName,
+            userId: client.userId,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+}
+
+async function ensureAuthService(): Promise<boolean> {
+    if (authReady) {
+        return true;
+    }
+    if (!db.isReady()) {
+        return false;
+    }
+    try {
+        authService.init(db.getPool());
+        await authService.ensureTable();
+        authReady = true;
+        return true;
+    } catch (error) {
+        logger.error('Failed to initialize auth service for MCP clients', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        return false;
+    }
+}
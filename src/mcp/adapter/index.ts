@@ -5,8 +5,9 @@
  * This adapter provides:
  * - JSON-RPC 2.0 message parsing and response formatting
  * - MCP protocol handling (list_tools, call_tool, list_resources, read_resource)
- * - Multiple transport support (stdio, HTTP/WebSocket planned)
- * - Tool execution with validation and error handling
+ * - Multiple transports: stdio, WebSocket and streamable HTTP
+ * - Authenticated remote clients with per-client tool permissions (see access.ts)
+ * - Tool execution with validation, error handling and audit logging
  * - Logging and metrics collection
  * 
  * @example
@@ -21,8 +22,10 @@
  * ```
  */
 
+import { createServer as createHttpServer, type ServerResponse } from 'http';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
@@ -42,6 +45,14 @@ import {
     JsonRpcErrorCodes,
     McpResource,
 } from './types.js';
+import {
+    type McpClient,
+    LOCAL_MCP_CLIENT,
+    authenticateMcpClient,
+    getToolAccessError,
+    listToolsForClient,
+    auditToolCall,
+} from './access.js';
 import { mcpRegistry, initializeToolRegistry } from '../tools/index.js';
 import { mcpToolSettingsService } from '../settings/index.js';
 import { env } from '../../config/env.js';
@@ -93,9 +104,9 @@ export class McpAdapter {
     }
 
     /**
-     * Create the MCP server with handlers.
+     * Create the MCP server with handlers, acting for the given client.
      */
-    createServer(): Server {
+    createServer(client: McpClient = LOCAL_MCP_CLIENT): Server {
         const server = new Server(
             {
                 name: env.MCP_SERVER_NAME || 'mcp-gateway',
@@ -111,18 +122,10 @@ export class McpAdapter {
 
         // Handle list_tools
         server.setRequestHandler(ListToolsRequestSchema, async () => {
-            logger.debug('MCP list_tools request');
-
-            const toolList = mcpRegistry.listTools();
-
-            // Filter by enabled status from settings
-            const enabledTools = toolList.tools.filter(tool => {
-                const setting = mcpToolSettingsService.getToolSetting(tool.name);
-                return setting.enabled;
-            });
+            logger.debug('MCP list_tools request', { userId: client.userId });
 
             return {
-                tools: enabledTools.map(tool => ({
+                tools: this.listTools(client).tools.map(tool => ({
                     name: tool.name,
                     description: tool.description,
                     inputSchema: tool.inputSchema,
@@ -132,89 +135,8 @@ export class McpAdapter {
 
         // Handle call_tool
         server.setRequestHandler(CallToolRequestSchema, async (request) => {
-            const startTime = Date.now();
-            const requestId = `mcp-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-            try {
-                metrics.recordRequest();
-
-                const toolName = request.params.name;
-                const args = (request.params.arguments || {}) as Record<string, unknown>;
-
-                logger.info('MCP call_tool request', {
-                    requestId,
-                    tool: toolName,
-                });
-
-                // Validate tool exists
-                if (!mcpRegistry.hasTool(toolName)) {
-                    logger.warn('Tool not found', { requestId, tool: toolName });
-                    return this.formatErrorResponse(`Unknown tool: ${toolName}`);
-                }
-
-                // ===== ATTT cấp 3: Enforce tool settings =====
-                const settingsEnforcement = mcpToolSettingsService.enforceSettings(toolName, args);
-                if (!settingsEnforcement.valid) {
-                    logger.warn('Tool settings violation', {
-                        requestId,
-                        tool: toolName,
-                        violations: settingsEnforcement.violations,
-                    });
-                    return this.formatErrorResponse(
-                        `MCP_TOOL_SETTING_VIOLATION: ${settingsEnforcement.violations.join('; ')}`
-                    );
-                }
-
-                // Use sanitized args (with clamped limits)
-                const sanitizedArgs = settingsEnforcement.sanitized;
-
-                // Validate input
-                const validation = mcpRegistry.validateInput(toolName, sanitizedArgs);
-                if (!validation.valid) {
-                    logger.warn('Invalid tool input', {
-                        requestId,
-                        tool: toolName,
-                        errors: validation.errors,
-                    });
-                    return this.formatErrorResponse(
-                        `Invalid input: ${validation.errors?.join(', ')}`
-                    );
-                }
-
-                // Execute tool
-                const result = await mcpRegistry.callTool(
-                    toolName,
-                    validation.sanitized || sanitizedArgs
-                );
-
-                const duration = Date.now() - startTime;
-                metrics.recordDuration(duration);
-
-                logger.info('MCP call_tool completed', {
-                    requestId,
-                    tool: toolName,
-                    success: result.success,
-                    duration,
-                });
-
-                // Format response
-                if (result.success) {
-                    return this.formatSuccessResponse(result);
-                } else {
-                    return this.formatErrorResponse(result.error || 'Tool execution failed');
-                }
-            } catch (error) {
-                const duration = Date.now() - startTime;
-                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-                logger.error('MCP call_tool failed', {
-                    requestId,
-                    error: errorMessage,
-                    duration,
-                });
-
-                return this.formatErrorResponse(errorMessage);
-            }
+            const args = (request.params.arguments || {}) as Record<string, unknown>;
+            return this.callTool(client, request.params.name, args);
         });
 
         // Handle list_resources (optional capability)
@@ -277,10 +199,137 @@ export class McpAdapter {
             throw new Error(`Resource not found: ${uri}`);
         });
 
-        this.server = server;
         return server;
     }
 
+    /**
+     * List the tools a client may use.
+     */
+    listTools(client: McpClient): McpListToolsResponse {
+        return listToolsForClient(client);
+    }
+
+    /**
+     * Call a tool for a client and record the call in the audit log.
+     */
+    async callTool(
+        client: McpClient,
+        toolName: string,
+        args: Record<string, unknown>,
+    ): Promise<McpCallToolResponse> {
+        const startTime = Date.now();
+        const requestId = `mcp-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+        metrics.recordRequest();
+        logger.info('MCP call_tool request', {
+            requestId,
+            tool: toolName,
+            userId: client.userId,
+            transport: client.transport,
+        });
+
+        const { response, error } = await this.executeTool(client, toolName, args, requestId);
+
+        const duration = Date.now() - startTime;
+        await auditToolCall(client, toolName, args, {
+            success: !response.isError,
+            error,
+            durationMs: duration,
+        });
+
+        return response;
+    }
+
+    private async executeTool(
+        client: McpClient,
+        toolName: string,
+        args: Record<string, unknown>,
+        requestId: string,
+    ): Promise<{ response: McpCallToolResponse; error?: string }> {
+        const startTime = Date.now();
+        const fail = (error: string) => ({ response: this.formatErrorResponse(error), error });
+
+        try {
+            // Validate tool exists
+            if (!mcpRegistry.hasTool(toolName)) {
+                logger.warn('Tool not found', { requestId, tool: toolName });
+                return fail(`Unknown tool: ${toolName}`);
+            }
+
+            // Client permissions (role and MCP client availability)
+            const accessError = getToolAccessError(client, toolName);
+            if (accessError) {
+                logger.warn('Tool access denied', {
+                    requestId,
+                    tool: toolName,
+                    userId: client.userId,
+                    role: client.role,
+                    reason: accessError,
+                });
+                return fail(`MCP_TOOL_ACCESS_DENIED: ${accessError}`);
+            }
+
+            // ===== ATTT cấp 3: Enforce tool settings =====
+            const settingsEnforcement = mcpToolSettingsService.enforceSettings(toolName, args);
+            if (!settingsEnforcement.valid) {
+                logger.warn('Tool settings violation', {
+                    requestId,
+                    tool: toolName,
+                    violations: settingsEnforcement.violations,
+                });
+                return fail(`MCP_TOOL_SETTING_VIOLATION: ${settingsEnforcement.violations.join('; ')}`);
+            }
+
+            // Use sanitized args (with clamped limits)
+            const sanitizedArgs = settingsEnforcement.sanitized;
+
+            // Validate input
+            const validation = mcpRegistry.validateInput(toolName, sanitizedArgs);
+            if (!validation.valid) {
+                logger.warn('Invalid tool input', {
+                    requestId,
+                    tool: toolName,
+                    errors: validation.errors,
+                });
+                return fail(`Invalid input: ${validation.errors?.join(', ')}`);
+            }
+
+            // Execute tool
+            const result = await mcpRegistry.callTool(
+                toolName,
+                validation.sanitized || sanitizedArgs,
+                { userId: client.userId },
+            );
+
+            const duration = Date.now() - startTime;
+            metrics.recordDuration(duration);
+
+            logger.info('MCP call_tool completed', {
+                requestId,
+                tool: toolName,
+                success: result.success,
+                duration,
+            });
+
+            // Format response
+            if (result.success) {
+                return { response: this.formatSuccessResponse(result) };
+            }
+            return fail(result.error || 'Tool execution failed');
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logger.error('MCP call_tool failed', {
+                requestId,
+                error: errorMessage,
+                duration,
+            });
+
+            return fail(errorMessage);
+        }
+    }
+
     /**
      * Format a successful tool response for MCP.
      */
@@ -335,7 +384,8 @@ export class McpAdapter {
     async startStdio(): Promise<void> {
         await this.initialize();
 
-        const server = this.createServer();
+        const server = this.createServer(LOCAL_MCP_CLIENT);
+        this.server = server;
         const transport = new StdioServerTransport();
 
         logger.info('Starting MCP server with stdio transport', {
@@ -372,17 +422,39 @@ export class McpAdapter {
     /**
      * Start the MCP server with a WebSocket transport.
      * This accepts JSON-RPC 2.0 messages over WebSocket and dispatches
-     * them to the internal tool registry (mcpRegistry).
+     * them to the internal tool registry (mcpRegistry). Connections must
+     * authenticate on upgrade with a JWT or API key.
      */
     async startWebsocket(port: number = 3001): Promise<void> {
         await this.initialize();
 
         logger.info('Starting MCP WebSocket transport', { port });
 
-        const wss = new WebSocketServer({ port });
+        const httpServer = createHttpServer((_req, res) => {
+            res.writeHead(426, { 'Content-Type': 'text/plain' });
+            res.end('WebSocket upgrade required');
+        });
+        const wss = new WebSocketServer({ noServer: true });
+
+        httpServer.on('upgrade', async (req, socket, head) => {
+            const client = await authenticateMcpClient(req, 'websocket');
+            if (!client) {
+                logger.warn('MCP WebSocket connection rejected: unauthenticated', {
+                    ipAddress: req.socket.remoteAddress,
+                });
+                socket.write('HTTP/1.1 401 Unauthorized\r\nWWW-Authenticate: Bearer\r\nConnection: close\r\n\r\n');
+                socket.destroy();
+                return;
+            }
+            wss.handleUpgrade(req, socket, head, (ws: unknown) => wss.emit('connection', ws, client));
+        });
 
-        wss.on('connection', (ws) => {
-            logger.info('MCP WebSocket client connected');
+        wss.on('connection', (ws, client: McpClient) => {
+            logger.info('MCP WebSocket client connected', {
+                userId: client.userId,
+                role: client.role,
+                authMethod: client.authMethod,
+            });
 
             ws.on('message', async (data) => {
                 let req: any;
@@ -413,39 +485,14 @@ export class McpAdapter {
                     }
 
                     if (method === 'tools/list' || method === 'list_tools') {
-                        const list = mcpRegistry.listTools();
-                        const result = { tools: list.tools };
+                        const result = this.listTools(client);
                         ws.send(JSON.stringify({ jsonrpc: '2.0', id, result }));
                         return;
                     }
 
                     if (method === 'tools/call' || method === 'call_tool') {
-                        const toolName = params.name;
-                        const args = params.arguments || {};
-
-                        if (!mcpRegistry.hasTool(toolName)) {
-                            const errResp = { jsonrpc: '2.0', id, error: { code: -32601, message: `Unknown tool: ${toolName}` } };
-                            ws.send(JSON.stringify(errResp));
-                            return;
-                        }
-
-                        const validation = mcpRegistry.validateInput(toolName, args);
-                        if (!validation.valid) {
-                            const errResp = { jsonrpc: '2.0', id, error: { code: -32602, message: `Invalid input: ${validation.errors?.join(', ')}` } };
-                            ws.send(JSON.stringify(errResp));
-                            return;
-                        }
-
-                        const result = await mcpRegistry.callTool(toolName, validation.sanitized || args);
-
-                        // Format response using adapter formatter
-                        if (result.success) {
-                            const formatted = this.formatSuccessResponse(result);
-                            ws.send(JSON.stringify({ jsonrpc: '2.0', id, result: formatted }));
-                        } else {
-                            const formatted = this.formatErrorResponse(result.error || 'Tool execution failed');
-                            ws.send(JSON.stringify({ jsonrpc: '2.0', id, result: formatted }));
-                        }
+                        const result = await this.callTool(client, params.name, params.arguments || {});
+                        ws.send(JSON.stringify({ jsonrpc: '2.0', id, result }));
                         return;
                     }
 
@@ -460,22 +507,91 @@ export class McpAdapter {
             });
 
             ws.on('close', () => {
-                logger.info('MCP WebSocket client disconnected');
+                logger.info('MCP WebSocket client disconnected', { userId: client.userId });
             });
         });
 
-        wss.on('listening', () => logger.info('MCP WebSocket server listening', { port }));
+        httpServer.listen(port, () => logger.info('MCP WebSocket server listening', { port }));
 
         // Graceful shutdown
         const shutdown = async () => {
             logger.info('Shutting down MCP WebSocket server...');
             wss.close();
+            httpServer.close();
             process.exit(0);
         };
         process.on('SIGINT', shutdown);
         process.on('SIGTERM', shutdown);
     }
 
+    /**
+     * Start the MCP server with the streamable HTTP transport at /mcp.
+     * Stateless: each request is authenticated and served by its own
+     * server instance acting for the request's client.
+     */
+    async startHttp(port: number = 3001): Promise<void> {
+        await this.initialize();
+
+        logger.info('Starting MCP streamable HTTP transport', { port });
+
+        const httpServer = createHttpServer(async (req, res) => {
+            const { pathname } = new URL(req.url || '/', 'http://localhost');
+            if (pathname !== '/mcp') {
+                this.sendJsonRpcError(res, 404, JsonRpcErrorCodes.INVALID_REQUEST, 'Not found');
+                return;
+            }
+
+            const client = await authenticateMcpClient(req, 'http');
+            if (!client) {
+                logger.warn('MCP HTTP request rejected: unauthenticated', {
+                    ipAddress: req.socket.remoteAddress,
+                });
+                res.setHeader('WWW-Authenticate', 'Bearer');
+                this.sendJsonRpcError(res, 401, JsonRpcErrorCodes.UNAUTHORIZED, 'Unauthorized');
+                return;
+            }
+
+            const server = this.createServer(client);
+            const transport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: undefined,
+                enableJsonResponse: true,
+            });
+            res.on('close', () => {
+                void transport.close();
+                void server.close();
+            });
+
+            try {
+                await server.connect(transport);
+                await transport.handleRequest(req, res);
+            } catch (error) {
+                logger.error('MCP HTTP request failed', {
+                    userId: client.userId,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                });
+                if (!res.headersSent) {
+                    this.sendJsonRpcError(res, 500, JsonRpcErrorCodes.INTERNAL_ERROR, 'Internal server error');
+                }
+            }
+        });
+
+        httpServer.listen(port, () => logger.info('MCP HTTP server listening', { port, path: '/mcp' }));
+
+        // Graceful shutdown
+        const shutdown = async () => {
+            logger.info('Shutting down MCP HTTP server...');
+            httpServer.close();
+            process.exit(0);
+        };
+        process.on('SIGINT', shutdown);
+        process.on('SIGTERM', shutdown);
+    }
+
+    private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code, message } }));
+    }
+
     /**
      * Get the underlying server instance.
      */
@@ -520,9 +636,7 @@ export async function startMcpServer(config: Partial<McpAdapterConfig> = {}): Pr
             await adapter.startWebsocket(config.port || 3001);
             break;
         case 'http':
-            // TODO: HTTP transport - fall back to WebSocket or stdio
-            logger.warn(`Transport ${transport} not yet implemented, falling back to WebSocket`);
-            await adapter.startWebsocket(config.port || 3001);
+            await adapter.startHttp(config.port || 3001);
             break;
         default:
             await adapter.startStdio();
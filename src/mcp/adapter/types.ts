@@ -26,6 +26,14 @@ export type RiskLevel = 'low' | 'normal' | 'high' | 'prod-critical';
  */
 export type PriorityMode = 'speed' | 'quality' | 'cost';
 
+/**
+ * The client a tool call runs for; AI tools charge quotas and apply content
+ * policies under its user
+ */
+export interface McpToolContext {
+    userId?: string;
+}
+
 /**
  * MCP Tool definition following the MCP specification.
  * Each tool exposed via MCP must implement this interface.
@@ -46,7 +54,7 @@ export interface McpToolDefinition<TInput = unknown, TOutput = unknown> {
     };
 
     /** Tool handler function */
-    handler: (args: TInput) => Promise<McpToolResult<TOutput>>;
+    handler: (args: TInput, context?: McpToolContext) => Promise<McpToolResult<TOutput>>;
 
     /** Optional: Tool category for organization */
     category?: 'ai' | 'network' | 'ops' | 'system';
@@ -316,6 +324,7 @@ export const AiChatRouterInputSchema = z.object({
     priority: z.enum(['speed', 'quality', 'cost']).default('quality').describe('Priority mode for model selection'),
     maxTokens: z.number().optional().describe('Maximum tokens for response'),
     temperature: z.number().min(0).max(2).optional().describe('Temperature for generation'),
+    projectId: z.string().optional().describe('Project whose content policy applies'),
 });
 export type AiChatRouterInput = z.infer<typeof AiChatRouterInputSchema>;
 
@@ -331,6 +340,7 @@ export const AiCodeAgentInputSchema = z.object({
     constraints: z.string().optional().describe('Constraints or requirements'),
     allowClaudeCode: z.boolean().default(false).describe('Allow using Claude Code for complex tasks'),
     quality: z.enum(['normal', 'high', 'critical']).default('normal').describe('Quality requirement'),
+    projectId: z.string().optional().describe('Project whose content policy applies'),
 });
 export type AiCodeAgentInput = z.infer<typeof AiCodeAgentInputSchema>;
 
@@ -7,6 +7,7 @@ import {
 import { env } from '../config/env.js';
 import { logger } from '../logging/logger.js';
 import { metrics } from '../logging/metrics.js';
+import { getCurrentTraceId, recordTraceError, traceToolCall, withTrace } from '../tracing/integration.js';
 import { codeAgentTool } from '../tools/codeAgent/index.js';
 import { vitestTool, playwrightTool } from '../tools/testing/index.js';
 import { fsReadTool, fsWriteTool, fsListTool } from '../tools/fs/index.js';
@@ -77,7 +78,7 @@ export function createMCPServer(): Server {
     });
 
     // Handle tool calls
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, (request) => withTrace('mcp-tool', '', { tool: request.params.name }, async () => {
         const startTime = Date.now();
         const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -95,9 +96,8 @@ export function createMCPServer(): Server {
             }
 
             // Execute the tool
-            const result = await tool.handler(
-                request.params.arguments as Record<string, unknown>,
-            );
+            const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+            const result = await traceToolCall(tool.name, args, () => tool.handler(args));
 
             const duration = Date.now() - startTime;
             metrics.recordDuration(duration);
@@ -114,11 +114,13 @@ export function createMCPServer(): Server {
                         text: JSON.stringify(result, null, 2),
                     },
                 ],
+                _meta: { traceId: getCurrentTraceId() },
             };
         } catch (error) {
             const duration = Date.now() - startTime;
             const errorMessage =
                 error instanceof Error ? error.message : 'Unknown error';
+            recordTraceError(error);
 
             logger.error(`Tool failed: ${request.params.name}`, {
                 requestId,
@@ -141,9 +143,10 @@ export function createMCPServer(): Server {
                     },
                 ],
                 isError: true,
+                _meta: { traceId: getCurrentTraceId() },
             };
         }
-    });
+    }));
 
     return server;
 }
@@ -598,12 +598,33 @@ class McpToolSettingsService {
     // =========================================================================
 
     /**
-     * Log an audit entry for settings changes.
+     * Log a tool call made by an MCP client.
+     */
+    async logToolCall(entry: {
+        userId: string;
+        toolName: string;
+        call: Record<string, unknown>;
+        ipAddress?: string;
+        userAgent?: string;
+    }): Promise<void> {
+        await this.logAudit({
+            userId: entry.userId,
+            action: 'call',
+            entityType: 'tool_call',
+            entityId: entry.toolName,
+            newValue: entry.call,
+            ipAddress: entry.ipAddress,
+            userAgent: entry.userAgent,
+        });
+    }
+
+    /**
+     * Log an audit entry for settings changes and tool calls.
      */
     private async logAudit(entry: {
         userId: string;
-        action: 'create' | 'update' | 'delete';
-        entityType: 'tool_setting' | 'backend_config';
+        action: McpSettingsAuditLog['action'];
+        entityType: McpSettingsAuditLog['entityType'];
         entityId: string;
         oldValue?: unknown;
         newValue?: unknown;
@@ -669,7 +690,7 @@ class McpToolSettingsService {
      * Get audit logs for an entity.
      */
     async getAuditLogs(options: {
-        entityType?: 'tool_setting' | 'backend_config';
+        entityType?: McpSettingsAuditLog['entityType'];
         entityId?: string;
         userId?: string;
         since?: string;
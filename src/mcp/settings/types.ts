@@ -284,14 +284,14 @@ export interface BackendConfigsListResponse {
 // =============================================================================
 
 /**
- * Audit log entry for settings changes.
+ * Audit log entry for settings changes and MCP client tool calls.
  */
 export interface McpSettingsAuditLog {
     id: string;
     timestamp: string;
     userId: string;
-    action: 'create' | 'update' | 'delete';
-    entityType: 'tool_setting' | 'backend_config';
+    action: 'create' | 'update' | 'delete' | 'call';
+    entityType: 'tool_setting' | 'backend_config' | 'tool_call';
     entityId: string;
     changes: {
         field: string;
@@ -9,6 +9,7 @@
 
 import {
     McpToolDefinition,
+    McpToolContext,
     McpToolResult,
     AiChatRouterInput,
     AiChatRouterInputSchema,
@@ -20,6 +21,9 @@ import {
 import { routeRequest, detectComplexity } from '../../routing/router.js';
 import { codeAgentTool } from '../../tools/codeAgent/index.js';
 import { logger } from '../../logging/logger.js';
+import { ContentPolicyError } from '../../security/content-policy.js';
+import { QuotaExceededError } from '../../quota/enforcer.js';
+import { BudgetExceededError } from '../../quota/budgets.js';
 import { ModelLayer, LAYERS_IN_ORDER } from '../../config/models.js';
 
 // =============================================================================
@@ -132,10 +136,14 @@ The system uses smart routing to minimize cost while maximizing quality.`,
                 minimum: 0,
                 maximum: 2,
             },
+            projectId: {
+                type: 'string',
+                description: 'Project whose content policy (prompt/output scanning) applies; default project if omitted',
+            },
         },
         required: ['task'],
     },
-    handler: async (args: AiChatRouterInput): Promise<McpToolResult<{
+    handler: async (args: AiChatRouterInput, toolContext?: McpToolContext): Promise<McpToolResult<{
         response: string;
         model: string;
         layer: string;
@@ -181,6 +189,10 @@ The system uses smart routing to minimize cost while maximizing quality.`,
                     enableCrossCheck: input.riskLevel === 'prod-critical',
                     enableAutoEscalate: input.riskLevel !== 'low',
                     budget: input.priority === 'cost' ? 0 : undefined,
+                    project: input.projectId,
+                    userId: toolContext?.userId, // Quotas and content policy apply per MCP client user
+                    contentPolicy: { requestType: 'mcp-cli' },
+                    quota: {},
                 }
             );
 
@@ -214,6 +226,24 @@ The system uses smart routing to minimize cost while maximizing quality.`,
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             logger.error('ai.chat_router failed', { error: errorMessage });
 
+            if (error instanceof ContentPolicyError) {
+                return {
+                    success: false,
+                    error: errorMessage,
+                    errorCode: error.details.code,
+                    metadata: error.details,
+                };
+            }
+
+            if (error instanceof QuotaExceededError || error instanceof BudgetExceededError) {
+                return {
+                    success: false,
+                    error: errorMessage,
+                    errorCode: error.details.code.toUpperCase(),
+                    metadata: error.details,
+                };
+            }
+
             return {
                 success: false,
                 error: errorMessage,
@@ -294,10 +324,14 @@ Set allowClaudeCode=true for complex refactoring or multi-file tasks (requires C
                 default: 'normal',
                 description: 'Quality requirement level',
             },
+            projectId: {
+                type: 'string',
+                description: 'Project whose content policy (prompt/output scanning) applies; default project if omitted',
+            },
         },
         required: ['task'],
     },
-    handler: async (args: AiCodeAgentInput): Promise<McpToolResult<{
+    handler: async (args: AiCodeAgentInput, toolContext?: McpToolContext): Promise<McpToolResult<{
         code: string;
         explanation?: string;
         model: string;
@@ -331,7 +365,13 @@ Set allowClaudeCode=true for complex refactoring or multi-file tasks (requires C
                 task: input.task,
                 context: Object.keys(context).length > 0 ? context : undefined,
                 quality: input.quality || 'normal',
-            });
+                projectId: input.projectId,
+            }, toolContext);
+
+            // Blocked by the content policy (or another failure): pass the structured error on
+            if (typeof result === 'object' && result !== null && 'success' in result && result.success === false) {
+                return result as McpToolResult<never>;
+            }
 
             // Parse the result
             if (typeof result === 'object' && result !== null) {
@@ -25,12 +25,14 @@
 import { z } from 'zod';
 import {
     McpToolDefinition,
+    McpToolContext,
     McpToolResult,
     McpListToolsResponse,
     JsonRpcError,
     JsonRpcErrorCodes,
 } from '../adapter/types.js';
 import { logger } from '../../logging/logger.js';
+import { getCurrentTraceId, recordTraceError, traceToolCall, withTrace } from '../../tracing/integration.js';
 
 /**
  * Tool registry entry with metadata.
@@ -181,15 +183,27 @@ class McpToolRegistry {
      * Call a tool by name with arguments.
      * @param name - Tool name
      * @param args - Tool arguments
+     * @param context - The client the call runs for
      * @returns Tool result
      */
-    async callTool(name: string, args: Record<string, unknown>): Promise<McpToolResult> {
+    async callTool(name: string, args: Record<string, unknown>, context?: McpToolContext): Promise<McpToolResult> {
+        const conversationId = typeof args?.conversationId === 'string' ? args.conversationId : '';
+        return withTrace('mcp-tool', conversationId, { tool: name }, () => this.executeTool(name, args, context));
+    }
+
+    /**
+     * Run a tool inside the caller's trace; its id is returned in `metadata.traceId`
+     */
+    private async executeTool(name: string, args: Record<string, unknown>, context?: McpToolContext): Promise<McpToolResult> {
+        const traceId = getCurrentTraceId();
         const entry = this.tools.get(name);
         if (!entry) {
+            recordTraceError(`Tool not found: ${name}`, { code: 'TOOL_NOT_FOUND' });
             return {
                 success: false,
                 error: `Tool not found: ${name}`,
                 errorCode: 'TOOL_NOT_FOUND',
+                metadata: { traceId },
             };
         }
 
@@ -201,7 +215,12 @@ class McpToolRegistry {
             logger.debug('Calling tool', { name, args });
 
             // Execute handler
-            const result = await entry.tool.handler(args);
+            const result = await traceToolCall(
+                name,
+                args,
+                () => entry.tool.handler(args, context),
+                (r) => (r.success ? undefined : r.error ?? r.errorCode ?? 'Tool failed'),
+            );
 
             const duration = Date.now() - startTime;
             entry.totalDuration += duration;
@@ -209,12 +228,14 @@ class McpToolRegistry {
             // Add duration to metadata
             if (result.metadata) {
                 result.metadata.duration = duration;
+                result.metadata.traceId = traceId;
             } else {
-                result.metadata = { duration };
+                result.metadata = { duration, traceId };
             }
 
             if (!result.success) {
                 entry.errorCount++;
+                recordTraceError(result.error ?? 'Tool failed', { code: result.errorCode });
             }
 
             logger.info('Tool call completed', {
@@ -230,6 +251,7 @@ class McpToolRegistry {
             entry.errorCount++;
 
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            recordTraceError(error, { code: 'TOOL_EXECUTION_ERROR' });
 
             logger.error('Tool call failed', {
                 name,
@@ -241,7 +263,7 @@ class McpToolRegistry {
                 success: false,
                 error: errorMessage,
                 errorCode: 'TOOL_EXECUTION_ERROR',
-                metadata: { duration },
+                metadata: { duration, traceId },
             };
         }
     }
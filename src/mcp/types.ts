@@ -34,24 +34,118 @@ export interface RoutingContext {
     enableCrossCheck?: boolean;
     enableAutoEscalate?: boolean;
     budget?: number; // Budget limit in USD (0 = free tier only)
+    // Request attributes evaluated by routing policies
+    userId?: string;
+    userRole?: string;
+    filePath?: string;
+    approvalId?: string; // Set when replaying a request approved from the policy approval queue
+    project?: string; // Scopes the semantic response cache and selects the content policy
+    semanticCache?: boolean; // Set false to bypass the semantic response cache
+    contentPolicy?: ContentPolicyContext; // Apply the project's prompt/output scanning
+    quota?: QuotaContext; // Charge the request to the organization, project and user quotas
 }
 
 /**
- * LLM request interface
+ * Who a request is charged to; routeRequest reserves its estimated usage
+ * against the quotas of `RoutingContext.project` (or the default project),
+ * the project's organization and `userId` (RoutingContext.userId, then 'anonymous')
+ */
+export interface QuotaContext {
+    userId?: string;
+}
+
+/**
+ * Request details recorded with content policy violations; set by the
+ * API and MCP entry points, which apply the policy of `RoutingContext.project`
+ * (or the default project)
+ */
+export interface ContentPolicyContext {
+    requestType: 'route' | 'chat' | 'code-agent' | 'mcp-cli';
+    userId?: string;
+    conversationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+/**
+ * Chat message roles understood by every provider client
+ */
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * Tool (function) definition forwarded to providers that support tool calling
+ */
+export interface ToolDefinition {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>; // JSON Schema for the tool arguments
+}
+
+/**
+ * Tool selection mode: let the model decide, forbid, force any tool, or force a named tool
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * A tool invocation requested by the model
+ */
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: string; // JSON-encoded arguments, as produced by the model
+}
+
+/**
+ * Image attached to a chat turn: an http(s) URL or a base64 `data:` URL
+ */
+export interface ChatImage {
+    url: string;
+    detail?: 'auto' | 'low' | 'high'; // OpenAI resolution hint, ignored by other providers
+}
+
+/**
+ * A single turn of a structured conversation
+ */
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+    name?: string;
+    images?: ChatImage[]; // Image inputs; only vision-capable models can receive them
+    toolCallId?: string; // Required by some providers for role 'tool'
+    toolCalls?: ToolCall[]; // Tool invocations made by an assistant turn
+}
+
+/**
+ * LLM request interface.
+ *
+ * `messages`, when present, is the conversation sent to the provider with its
+ * role boundaries intact. `prompt` is the legacy single-turn form and is sent
+ * as one user message when no messages are given. `systemPrompt` is prepended
+ * as a system message in both cases.
  */
 export interface LLMRequest {
-    prompt: string;
+    prompt?: string;
+    messages?: ChatMessage[];
     systemPrompt?: string;
+    tools?: ToolDefinition[];
+    toolChoice?: ToolChoice;
     context?: RoutingContext;
     maxTokens?: number;
     temperature?: number;
 }
 
+/**
+ * Callback invoked with each content fragment of a streamed completion
+ */
+export type LLMStreamHandler = (delta: string) => void;
+
 /**
  * LLM response interface
  */
 export interface LLMResponse {
     content: string;
+    toolCalls?: ToolCall[];
+    finishReason?: 'stop' | 'length' | 'tool_calls';
     modelId: string;
     provider: string;
     inputTokens: number;
@@ -62,6 +156,17 @@ export interface LLMResponse {
     suggestedLayer?: ModelLayer;
     escalationReason?: string;
     optimizedPrompt?: string; // Optimized prompt for next layer
+    semanticCache?: SemanticCacheInfo; // Set when the response came from the semantic cache
+}
+
+/**
+ * Semantic cache hit details
+ */
+export interface SemanticCacheInfo {
+    hit: boolean;
+    similarity: number; // Cosine similarity to the cached prompt
+    costSaved: number; // Cost of the original call, in USD
+    entryId: string;
 }
 
 /**
@@ -103,6 +208,7 @@ export const CodeAgentRequestSchema = z.object({
         .enum(['normal', 'high', 'critical'])
         .default('normal')
         .describe('Quality requirement level'),
+    projectId: z.string().optional().describe('Project whose content policy applies'),
 });
 
 export type CodeAgentRequest = z.infer<typeof CodeAgentRequestSchema>;
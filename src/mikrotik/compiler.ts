@@ -6,9 +6,23 @@
 import type {
     MikrotikPlan,
     CompiledResult,
+    ChangeSummary,
     DeviceFacts,
     ModuleCommands,
     Warning,
+    ServicesParams,
+    InterfaceListsParams,
+    IpAddressParams,
+    DnsParams,
+    DhcpClientParams,
+    DhcpServerParams,
+    FirewallParams,
+    NatParams,
+    SnmpParams,
+    BridgeParams,
+    VlanParams,
+    BondingParams,
+    BackupParams,
 } from './types.js';
 
 import { compileSystem } from './compiler/system.js';
@@ -20,6 +34,13 @@ import { compileDhcpServer } from './compiler/dhcpServer.js';
 import { compileFirewall } from './compiler/firewall.js';
 import { compileNat } from './compiler/nat.js';
 import { compileRouting } from './compiler/routing.js';
+import { compileInterfaceLists } from './compiler/interfaceLists.js';
+import { compileLogging } from './compiler/logging.js';
+import { compileSnmp } from './compiler/snmp.js';
+import { compileBridge } from './compiler/bridge.js';
+import { compileVlan } from './compiler/vlan.js';
+import { compileBonding } from './compiler/bonding.js';
+import { compileBackup } from './compiler/backup.js';
 
 export async function compilePlan(
     plan: MikrotikPlan,
@@ -28,6 +49,8 @@ export async function compilePlan(
     const commandsByModule: Record<string, ModuleCommands> = {};
     const allCommands: string[] = [];
     const warnings: Warning[] = [];
+    const noopSteps: string[] = [];
+    const summary: ChangeSummary = { add: 0, set: 0, remove: 0, unchanged: 0 };
 
     // Snapshot commands (if required)
     const snapshotCommands: string[] = [];
@@ -49,33 +72,54 @@ export async function compilePlan(
                 moduleResult = compileSystem(facts, step.params);
                 break;
             case 'services':
-                moduleResult = compileServices(facts, step.params);
+                moduleResult = compileServices(facts, step.params as ServicesParams);
+                break;
+            case 'interfaceLists':
+                moduleResult = compileInterfaceLists(facts, step.params as InterfaceListsParams);
                 break;
             case 'ip':
-                moduleResult = compileIp(facts, step.params);
+                moduleResult = compileIp(facts, step.params as IpAddressParams);
                 break;
             case 'dns':
-                moduleResult = compileDns(facts, step.params);
+                moduleResult = compileDns(facts, step.params as DnsParams);
                 break;
             case 'dhcpClient':
-                moduleResult = compileDhcpClient(facts, step.params);
+                moduleResult = compileDhcpClient(facts, step.params as DhcpClientParams);
                 break;
             case 'dhcpServer':
-                moduleResult = compileDhcpServer(facts, step.params);
+                moduleResult = compileDhcpServer(facts, step.params as DhcpServerParams);
                 break;
             case 'firewall':
-                moduleResult = compileFirewall(facts, step.params);
+                moduleResult = compileFirewall(facts, step.params as FirewallParams);
                 break;
             case 'nat':
-                moduleResult = compileNat(facts, step.params);
+                moduleResult = compileNat(facts, step.params as NatParams);
+                break;
+            case 'logging':
+                moduleResult = compileLogging(facts, step.params);
+                break;
+            case 'snmp':
+                moduleResult = compileSnmp(facts, step.params as SnmpParams);
                 break;
             case 'routing':
                 moduleResult = compileRouting(facts, step.params);
                 break;
+            case 'bridge':
+                moduleResult = compileBridge(facts, step.params as BridgeParams);
+                break;
+            case 'vlan':
+                moduleResult = compileVlan(facts, step.params as VlanParams);
+                break;
+            case 'bonding':
+                moduleResult = compileBonding(facts, step.params as BondingParams);
+                break;
+            case 'backup':
+                moduleResult = compileBackup(facts, step.params as BackupParams);
+                break;
             default:
                 warnings.push({
                     level: 'warning',
-                    message: `Module ${step.module} not implemented yet`,
+                    message: `Unknown module ${step.module}`,
                     module: step.module as any,
                     step: step.id,
                 });
@@ -83,6 +127,20 @@ export async function compilePlan(
 
         if (moduleResult) {
             commandsByModule[step.module] = moduleResult;
+            warnings.push(...(moduleResult.warnings ?? []).map((w) => ({ ...w, step: step.id })));
+
+            if (moduleResult.changes) {
+                for (const key of Object.keys(summary) as (keyof ChangeSummary)[]) {
+                    summary[key] += moduleResult.changes[key];
+                }
+            }
+
+            // Already in the desired state: nothing to send
+            if (moduleResult.noop) {
+                noopSteps.push(step.id);
+                continue;
+            }
+
             allCommands.push(`# ${moduleResult.title}`);
             allCommands.push(...moduleResult.commands);
             allCommands.push(''); // blank line
@@ -99,6 +157,8 @@ export async function compilePlan(
         warnings,
         estimatedDuration,
         snapshotCommands: snapshotCommands.length > 0 ? snapshotCommands : undefined,
+        noopSteps,
+        summary,
     };
 }
 
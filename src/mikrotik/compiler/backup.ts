@@ -0,0 +1,26 @@
+/**
+ * @file Backup Module Compiler
+ * @description Compiles an explicit binary backup and text export step
+ */
+
+import type { BackupParams, ModuleCommands, DeviceFacts } from '../types.js';
+import { buildBackup } from '../../lib/mikrotik/commands/builders.js';
+import { MIKROTIK_COMMANDS } from '../../lib/mikrotik/commands/templates.js';
+
+export function compileBackup(
+    _facts: DeviceFacts,
+    params: BackupParams
+): ModuleCommands {
+    const commands = [
+        ...buildBackup({ name: params.snapshotName }),
+        MIKROTIK_COMMANDS.BACKUP_EXPORT(params.exportFile),
+    ];
+
+    // Only writes files, so there is nothing to roll back
+    return {
+        module: 'backup',
+        title: 'Configuration Backup',
+        commands,
+        risk: 'low',
+    };
+}
@@ -0,0 +1,70 @@
+/**
+ * @file Bonding Module Compiler
+ * @description Compiles bonding (LAG) interfaces
+ */
+
+import type { BondingParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { buildBonding } from '../../lib/mikrotik/commands/builders.js';
+import { ChangeSet, formatValue } from './diff.js';
+
+export function compileBonding(
+    facts: DeviceFacts,
+    params: BondingParams
+): ModuleCommands {
+    const changes = new ChangeSet(facts);
+    const warnings: Warning[] = [];
+
+    for (const bond of params.bonds) {
+        const existing = facts.interfaces.find(i => i.name === bond.name);
+        if (existing?.type === 'bonding') {
+            changes.unchanged();
+            continue;
+        }
+        if (existing) {
+            warnings.push({
+                level: 'info',
+                message: `Interface ${bond.name} already exists. Skipping.`,
+                module: 'bonding',
+            });
+            continue;
+        }
+
+        const missing = bond.slaves.filter(s => !facts.interfaces.some(i => i.name === s));
+        if (missing.length > 0 || bond.slaves.length < 2) {
+            warnings.push({
+                level: 'critical',
+                message: missing.length > 0
+                    ? `Slave interfaces ${missing.join(', ')} do not exist. Skipping ${bond.name}.`
+                    : `Bonding ${bond.name} needs at least two slaves. Skipping.`,
+                module: 'bonding',
+            });
+            continue;
+        }
+
+        // Slaves lose their own addresses and bridge membership
+        for (const slave of bond.slaves) {
+            const addressed = facts.ipAddresses.some(ip => ip.interface === slave && !ip.disabled);
+            const bridged = facts.bridges.some(b => b.ports.includes(slave));
+            if (addressed || bridged) {
+                warnings.push({
+                    level: 'critical',
+                    message: `Slave ${slave} carries ${addressed ? 'an IP address' : 'a bridge port'}. Traffic on it stops when bonded.`,
+                    module: 'bonding',
+                });
+            }
+        }
+
+        for (const command of buildBonding(bond.name, bond.slaves.join(','), bond.mode)) {
+            changes.add(command, `/interface bonding remove [find name=${bond.name}]`);
+        }
+        if (bond.comment) {
+            // The bond is new, so it had no comment
+            changes.set(
+                `/interface bonding set [find name=${bond.name}] comment=${formatValue(bond.comment)}`,
+                `/interface bonding set [find name=${bond.name}] comment=""`
+            );
+        }
+    }
+
+    return changes.toModule('bonding', 'Bonding', warnings.some(w => w.level === 'critical') ? 'high' : 'medium', warnings);
+}
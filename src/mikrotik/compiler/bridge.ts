@@ -0,0 +1,90 @@
+/**
+ * @file Bridge Module Compiler
+ * @description Compiles bridge creation, port membership and VLAN filtering
+ */
+
+import type { BridgeParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { buildBridge } from '../../lib/mikrotik/commands/builders.js';
+import { MIKROTIK_COMMANDS } from '../../lib/mikrotik/commands/templates.js';
+import { ChangeSet, formatValue } from './diff.js';
+
+export function compileBridge(
+    facts: DeviceFacts,
+    params: BridgeParams
+): ModuleCommands {
+    const changes = new ChangeSet(facts);
+    const warnings: Warning[] = [];
+
+    const existing = facts.bridges.find(b => b.name === params.name);
+
+    // Bridge itself; removing it on rollback also drops any ports left on it
+    if (existing) {
+        changes.unchanged();
+    } else {
+        for (const command of buildBridge(params.name)) {
+            changes.add(command, `/interface bridge remove [find name=${params.name}]`);
+        }
+        if (params.comment) {
+            // The bridge is new, so it had no comment
+            changes.set(
+                `/interface bridge set [find name=${params.name}] comment=${formatValue(params.comment)}`,
+                `/interface bridge set [find name=${params.name}] comment=""`
+            );
+        }
+    }
+
+    // Ports
+    for (const port of params.ports ?? []) {
+        if (!facts.interfaces.some(i => i.name === port)) {
+            warnings.push({
+                level: 'critical',
+                message: `Interface ${port} does not exist. Skipping bridge port.`,
+                module: 'bridge',
+            });
+            continue;
+        }
+
+        if (existing?.ports.includes(port)) {
+            changes.unchanged();
+            continue;
+        }
+
+        const otherBridge = facts.bridges.find(b => b.name !== params.name && b.ports.includes(port));
+        if (otherBridge) {
+            warnings.push({
+                level: 'critical',
+                message: `Interface ${port} is a port of ${otherBridge.name}. Moving it may cut traffic on that bridge.`,
+                module: 'bridge',
+            });
+            continue;
+        }
+
+        changes.add(
+            MIKROTIK_COMMANDS.INTERFACE_BRIDGE_PORT_ADD(params.name, port),
+            `/interface bridge port remove [find bridge=${params.name} interface=${port}]`
+        );
+    }
+
+    // VLAN filtering (last, once ports and VLANs are in place)
+    if (params.vlanFiltering !== undefined && params.vlanFiltering !== (existing?.vlanFiltering ?? false)) {
+        changes.set(
+            MIKROTIK_COMMANDS.BRIDGE_SET_VLAN_FILTERING(params.name, params.vlanFiltering),
+            MIKROTIK_COMMANDS.BRIDGE_SET_VLAN_FILTERING(params.name, !params.vlanFiltering)
+        );
+
+        if (params.vlanFiltering) {
+            warnings.push({
+                level: 'critical',
+                message: `Enabling VLAN filtering on ${params.name}. Ports without a matching bridge VLAN entry lose connectivity.`,
+                module: 'bridge',
+            });
+        }
+    }
+
+    return changes.toModule(
+        'bridge',
+        `Bridge ${params.name}`,
+        warnings.some(w => w.level === 'critical') ? 'high' : 'medium',
+        warnings
+    );
+}
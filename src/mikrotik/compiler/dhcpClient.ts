@@ -4,14 +4,14 @@
  */
 
 import type { DhcpClientParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { ChangeSet } from './diff.js';
 
 export function compileDhcpClient(
     facts: DeviceFacts,
     params: DhcpClientParams
 ): ModuleCommands {
-    const commands: string[] = [];
+    const changes = new ChangeSet(facts);
     const warnings: Warning[] = [];
-    const rollbackCommands: string[] = [];
 
     for (const client of params.clients) {
         // Check if interface exists
@@ -25,36 +25,31 @@ export function compileDhcpClient(
             continue;
         }
 
-        // Check if DHCP client already exists
+        const yesNo = (value: boolean | undefined) => value === undefined ? undefined : value ? 'yes' : 'no';
+        const desired = {
+            'add-default-route': yesNo(client.addDefaultRoute),
+            'use-peer-dns': yesNo(client.usePeerDns),
+            'use-peer-ntp': yesNo(client.usePeerNtp),
+            disabled: yesNo(client.disabled),
+        };
+
+        // Existing client: change only what differs
         const existing = facts.dhcpClients?.find(c => c.interface === client.interface);
         if (existing) {
-            warnings.push({
-                level: 'info',
-                message: `DHCP client already exists on ${client.interface}. Skipping.`,
-                module: 'dhcpClient',
+            changes.setProperties(`/ip dhcp-client set [find interface=${client.interface}]`, desired, {
+                'add-default-route': yesNo(existing.addDefaultRoute),
+                'use-peer-dns': yesNo(existing.usePeerDns),
+                'use-peer-ntp': yesNo(existing.usePeerNtp),
+                disabled: yesNo(existing.disabled),
             });
             continue;
         }
 
-        const addDefaultRoute = client.addDefaultRoute ? 'yes' : 'no';
-        const usePeerDns = client.usePeerDns ? 'yes' : 'no';
-        const usePeerNtp = client.usePeerNtp ? 'yes' : 'no';
-        const disabled = client.disabled ? 'yes' : 'no';
-
-        commands.push(
-            `/ip dhcp-client add interface=${client.interface} add-default-route=${addDefaultRoute} use-peer-dns=${usePeerDns} use-peer-ntp=${usePeerNtp} disabled=${disabled}`
-        );
-
-        rollbackCommands.push(
+        changes.add(
+            `/ip dhcp-client add interface=${client.interface} add-default-route=${desired['add-default-route'] ?? 'no'} use-peer-dns=${desired['use-peer-dns'] ?? 'no'} use-peer-ntp=${desired['use-peer-ntp'] ?? 'no'} disabled=${desired.disabled ?? 'no'}`,
             `/ip dhcp-client remove [find interface=${client.interface}]`
         );
     }
 
-    return {
-        module: 'dhcpClient',
-        title: 'DHCP Client (WAN)',
-        commands,
-        rollbackCommands: rollbackCommands.length > 0 ? rollbackCommands : undefined,
-        risk: 'medium',
-    };
+    return changes.toModule('dhcpClient', 'DHCP Client (WAN)', 'medium', warnings);
 }
@@ -0,0 +1,149 @@
+/**
+ * @file Change Set
+ * @description Desired-vs-current diffing shared by the compiler modules
+ *
+ * Modules describe desired state; the ChangeSet emits only the add/set/remove
+ * commands needed to reach it from DeviceFacts, and collects their inverses in
+ * reverse order so the rollback undoes exactly what was applied. Every change
+ * needs its inverse: a change whose previous state is unknown fails compilation.
+ */
+
+import { parseProperties } from '../facts/parsers.js';
+import type { ChangeSummary, DeviceFacts, MenuItemFact, ModuleCommands, ModuleName, Warning } from '../types.js';
+
+/**
+ * Format a property value, quoting it when RouterOS needs quotes.
+ * Quotes, backslashes and `$` (variable substitution) are escaped.
+ */
+export function formatValue(value: string): string {
+    return /^[\w.,:/@+*-]+$/.test(value) ? value : `"${value.replace(/(["\\$])/g, '\\$1')}"`;
+}
+
+function formatProperties(props: Record<string, string>): string {
+    return Object.entries(props).map(([key, value]) => `${key}=${formatValue(value)}`).join(' ');
+}
+
+/**
+ * Split `/menu path add k=v ...` into its menu and properties
+ */
+export function parseAddCommand(command: string): { menu: string; props: Record<string, string> } | undefined {
+    const match = /^(\/[\w\s/-]*?)\s+add\s+(.*)$/.exec(command.trim());
+    return match ? { menu: match[1], props: parseProperties(match[2]) } : undefined;
+}
+
+/**
+ * True if the item has every property of `props` (comment and disabled included)
+ */
+function matchesItem(item: MenuItemFact, props: Record<string, string>): boolean {
+    return Object.entries(props).every(([key, value]) => {
+        if (key === 'comment') return item.comment === value;
+        if (key === 'disabled') return item.disabled === (value === 'yes');
+        return item.properties[key] === value;
+    });
+}
+
+export class ChangeSet {
+    readonly commands: string[] = [];
+    private rollback: string[] = [];
+    private changes: ChangeSummary = { add: 0, set: 0, remove: 0, unchanged: 0 };
+
+    constructor(private facts: DeviceFacts) { }
+
+    add(command: string, rollback: string): void {
+        this.record('add', command, rollback);
+    }
+
+    /**
+     * Change properties; `rollback` restores their previous values
+     */
+    set(command: string, rollback: string): void {
+        this.record('set', command, rollback);
+    }
+
+    /**
+     * Remove an item; `rollback` re-adds it as it was
+     */
+    remove(command: string, rollback: string): void {
+        this.record('remove', command, rollback);
+    }
+
+    unchanged(count = 1): void {
+        this.changes.unchanged += count;
+    }
+
+    /**
+     * Set only the properties that differ from `current`.
+     * `target` is the command prefix, e.g. `/ip service set ssh`.
+     * Throws if a property to change has no current value to restore.
+     */
+    setProperties(
+        target: string,
+        desired: Record<string, string | undefined>,
+        current: Record<string, string | undefined>,
+    ): void {
+        const changed: Record<string, string> = {};
+        const previous: Record<string, string> = {};
+        for (const [key, value] of Object.entries(desired)) {
+            if (value === undefined || value === current[key]) continue;
+            const before = current[key];
+            if (before === undefined) {
+                throw new Error(`Cannot roll back ${target}: current ${key} is not in the device facts`);
+            }
+            changed[key] = value;
+            previous[key] = before;
+        }
+
+        if (Object.keys(changed).length === 0) {
+            this.unchanged();
+            return;
+        }
+        this.set(`${target} ${formatProperties(changed)}`, `${target} ${formatProperties(previous)}`);
+    }
+
+    /**
+     * Emit an `add` command unless an item with the same properties is in
+     * `facts.menus`; the rollback removes exactly the added item.
+     * Returns true if the command was emitted.
+     */
+    ensure(command: string): boolean {
+        const parsed = parseAddCommand(command);
+        if (!parsed) {
+            throw new Error(`Not an add command: ${command}`);
+        }
+
+        const items = this.facts.menus?.[parsed.menu] ?? [];
+        if (items.some((item) => matchesItem(item, parsed.props))) {
+            this.unchanged();
+            return false;
+        }
+
+        this.add(command, `${parsed.menu} remove [find ${formatProperties(parsed.props)}]`);
+        return true;
+    }
+
+    get summary(): ChangeSummary {
+        return { ...this.changes };
+    }
+
+    toModule(module: ModuleName, title: string, risk: ModuleCommands['risk'], warnings: Warning[] = []): ModuleCommands {
+        return {
+            module,
+            title,
+            commands: [...this.commands],
+            rollbackCommands: this.rollback.length > 0 ? [...this.rollback] : undefined,
+            risk,
+            noop: this.commands.length === 0,
+            changes: this.summary,
+            warnings: warnings.length > 0 ? [...warnings] : undefined,
+        };
+    }
+
+    private record(kind: 'add' | 'set' | 'remove', command: string, rollback: string): void {
+        if (!rollback) {
+            throw new Error(`No rollback for: ${command}`);
+        }
+        this.commands.push(command);
+        this.changes[kind] += 1;
+        this.rollback.unshift(rollback);
+    }
+}
@@ -4,32 +4,27 @@
  */
 
 import type { DnsParams, ModuleCommands, DeviceFacts } from '../types.js';
+import { ChangeSet } from './diff.js';
 
 export function compileDns(
     facts: DeviceFacts,
     params: DnsParams
 ): ModuleCommands {
-    const commands: string[] = [];
-    const rollbackCommands: string[] = [];
+    const changes = new ChangeSet(facts);
 
-    const servers = params.servers.join(',');
-    const allowRemote = params.allowRemoteRequests ? 'yes' : 'no';
-
-    commands.push(
-        `/ip dns set servers=${servers} allow-remote-requests=${allowRemote}`
-    );
-
-    // Rollback to current DNS settings
-    const currentServers = facts.dnsServers?.join(',') || '';
-    rollbackCommands.push(
-        `/ip dns set servers=${currentServers} allow-remote-requests=no`
+    changes.setProperties(
+        '/ip dns set',
+        {
+            servers: params.servers.join(','),
+            'allow-remote-requests': params.allowRemoteRequests ? 'yes' : 'no',
+        },
+        {
+            servers: facts.dnsServers?.join(','),
+            'allow-remote-requests': facts.dnsAllowRemoteRequests === undefined
+                ? undefined
+                : facts.dnsAllowRemoteRequests ? 'yes' : 'no',
+        },
     );
 
-    return {
-        module: 'dns',
-        title: 'DNS Configuration',
-        commands,
-        rollbackCommands,
-        risk: 'low',
-    };
+    return changes.toModule('dns', 'DNS Configuration', 'low');
 }
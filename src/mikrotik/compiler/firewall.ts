@@ -4,6 +4,7 @@
  */
 
 import type { FirewallParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { ChangeSet, formatValue } from './diff.js';
 
 export function compileFirewall(
     facts: DeviceFacts,
@@ -11,6 +12,7 @@ export function compileFirewall(
 ): ModuleCommands {
     const commands: string[] = [];
     const warnings: Warning[] = [];
+    const changes = new ChangeSet(facts);
 
     // Warning for FastTrack
     if (params.enableFastTrack) {
@@ -38,12 +40,17 @@ export function compileFirewall(
         }
     }
 
-    return {
-        module: 'firewall',
-        title: `Firewall (${preset.charAt(0).toUpperCase() + preset.slice(1)} Preset)`,
-        commands,
-        risk: preset === 'strict' ? 'high' : 'medium',
-    };
+    // Rules already on the device are not added twice
+    for (const command of commands) {
+        changes.ensure(command);
+    }
+
+    return changes.toModule(
+        'firewall',
+        `Firewall (${preset.charAt(0).toUpperCase() + preset.slice(1)} Preset)`,
+        preset === 'strict' ? 'high' : 'medium',
+        warnings
+    );
 }
 
 function compileBasicFirewall(params: FirewallParams): string[] {
@@ -133,7 +140,7 @@ function compileFirewallRule(rule: any): string {
     if (rule.dstPort) parts.push(`dst-port=${rule.dstPort}`);
     if (rule.inInterface) parts.push(`in-interface=${rule.inInterface}`);
     if (rule.outInterface) parts.push(`out-interface=${rule.outInterface}`);
-    if (rule.comment) parts.push(`comment="${rule.comment}"`);
+    if (rule.comment) parts.push(`comment=${formatValue(rule.comment)}`);
 
     return parts.join(' ');
 }
@@ -0,0 +1,67 @@
+/**
+ * @file Interface Lists Module Compiler
+ * @description Compiles interface lists (e.g. WAN/LAN) and their members
+ */
+
+import type { InterfaceListsParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { ChangeSet } from './diff.js';
+
+/**
+ * Lists every RouterOS device ships with; they are never created or removed
+ */
+const BUILTIN_LISTS = ['all', 'none', 'dynamic', 'static'];
+
+export function compileInterfaceLists(
+    facts: DeviceFacts,
+    params: InterfaceListsParams
+): ModuleCommands {
+    const changes = new ChangeSet(facts);
+    const warnings: Warning[] = [];
+
+    for (const list of params.lists) {
+        if (BUILTIN_LISTS.includes(list.name)) {
+            warnings.push({
+                level: 'warning',
+                message: `${list.name} is a built-in interface list and cannot be changed. Skipping.`,
+                module: 'interfaceLists',
+            });
+            continue;
+        }
+
+        changes.ensure(`/interface list add name=${list.name}`);
+
+        const current = (facts.menus?.['/interface list member'] ?? [])
+            .filter(m => m.properties.list === list.name)
+            .map(m => m.properties.interface);
+
+        for (const member of list.members) {
+            if (!facts.interfaces.some(i => i.name === member)) {
+                warnings.push({
+                    level: 'warning',
+                    message: `Interface ${member} does not exist. Skipping list member.`,
+                    module: 'interfaceLists',
+                });
+                continue;
+            }
+            if (current.includes(member)) {
+                changes.unchanged();
+                continue;
+            }
+            changes.add(
+                `/interface list member add list=${list.name} interface=${member}`,
+                `/interface list member remove [find list=${list.name} interface=${member}]`
+            );
+        }
+
+        // The list holds exactly the desired members
+        for (const extra of current.filter(m => !list.members.includes(m))) {
+            changes.remove(
+                `/interface list member remove [find list=${list.name} interface=${extra}]`,
+                `/interface list member add list=${list.name} interface=${extra}`
+            );
+        }
+    }
+
+    // Firewall and neighbor discovery rules match on lists
+    return changes.toModule('interfaceLists', 'Interface Lists', 'medium', warnings);
+}
@@ -4,14 +4,14 @@
  */
 
 import type { IpAddressParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { ChangeSet, formatValue } from './diff.js';
 
 export function compileIp(
     facts: DeviceFacts,
     params: IpAddressParams
 ): ModuleCommands {
-    const commands: string[] = [];
+    const changes = new ChangeSet(facts);
     const warnings: Warning[] = [];
-    const rollbackCommands: string[] = [];
 
     for (const addr of params.addresses) {
         // Check if interface exists
@@ -31,11 +31,7 @@ export function compileIp(
         );
 
         if (existingIp) {
-            warnings.push({
-                level: 'info',
-                message: `IP ${addr.address} already exists on ${addr.interface}. Skipping.`,
-                module: 'ip',
-            });
+            changes.unchanged();
             continue;
         }
 
@@ -51,22 +47,12 @@ export function compileIp(
             });
         }
 
-        const commentPart = addr.comment ? ` comment="${addr.comment}"` : '';
-        commands.push(
-            `/ip address add interface=${addr.interface} address=${addr.address}${commentPart}`
-        );
-
-        // Rollback: remove the added address
-        rollbackCommands.push(
+        const commentPart = addr.comment ? ` comment=${formatValue(addr.comment)}` : '';
+        changes.add(
+            `/ip address add interface=${addr.interface} address=${addr.address}${commentPart}`,
             `/ip address remove [find interface=${addr.interface} address=${addr.address}]`
         );
     }
 
-    return {
-        module: 'ip',
-        title: 'IP Addressing',
-        commands,
-        rollbackCommands: rollbackCommands.length > 0 ? rollbackCommands : undefined,
-        risk: warnings.some(w => w.level === 'critical') ? 'high' : 'low',
-    };
+    return changes.toModule('ip', 'IP Addressing', warnings.some(w => w.level === 'critical') ? 'high' : 'low', warnings);
 }
@@ -0,0 +1,28 @@
+/**
+ * @file Logging Module Compiler
+ * @description Compiles logging rules and remote syslog
+ */
+
+import type { LoggingParams, ModuleCommands, DeviceFacts } from '../types.js';
+import { buildSyslogRemote } from '../../lib/mikrotik/commands/builders.js';
+import { MIKROTIK_COMMANDS } from '../../lib/mikrotik/commands/templates.js';
+import { ChangeSet } from './diff.js';
+
+export function compileLogging(
+    facts: DeviceFacts,
+    params: LoggingParams
+): ModuleCommands {
+    const changes = new ChangeSet(facts);
+    const topics = params.topics?.length ? params.topics.join(',') : 'info';
+
+    if (params.remoteLogging) {
+        // Creates the remote-udp action and a rule sending the topics to it
+        for (const command of buildSyslogRemote(params.remoteLogging.remote, params.remoteLogging.port ?? 514, topics)) {
+            changes.ensure(command);
+        }
+    } else if (params.topics?.length) {
+        changes.ensure(MIKROTIK_COMMANDS.LOG_FILTER_ADD(topics));
+    }
+
+    return changes.toModule('logging', 'Logging', 'low');
+}
@@ -4,6 +4,7 @@
  */
 
 import type { NatParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { ChangeSet, formatValue } from './diff.js';
 
 export function compileNat(
     facts: DeviceFacts,
@@ -11,6 +12,7 @@ export function compileNat(
 ): ModuleCommands {
     const commands: string[] = [];
     const warnings: Warning[] = [];
+    const changes = new ChangeSet(facts);
 
     // Masquerade (srcnat)
     for (const outIface of params.masquerade.outInterfaces) {
@@ -36,7 +38,7 @@ export function compileNat(
 
             for (const proto of protocols) {
                 const toPort = pf.toPort !== undefined ? pf.toPort : pf.dstPort;
-                const commentPart = pf.comment ? ` comment="${pf.comment}"` : '';
+                const commentPart = pf.comment ? ` comment=${formatValue(pf.comment)}` : '';
 
                 commands.push(
                     `/ip firewall nat add chain=dstnat protocol=${proto} dst-port=${pf.dstPort} action=dst-nat to-addresses=${pf.toAddress} to-ports=${toPort}${commentPart}`
@@ -58,10 +60,10 @@ export function compileNat(
         );
     }
 
-    return {
-        module: 'nat',
-        title: 'NAT Configuration',
-        commands,
-        risk: 'medium',
-    };
+    // Rules already on the device are not added twice
+    for (const command of commands) {
+        changes.ensure(command);
+    }
+
+    return changes.toModule('nat', 'NAT Configuration', 'medium', warnings);
 }
@@ -3,15 +3,28 @@
  * @description Compiles routing commands: default route, static routes
  */
 
-import type { RoutingParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import type { RoutingParams, ModuleCommands, DeviceFacts } from '../types.js';
+import { ChangeSet, formatValue } from './diff.js';
 
 export function compileRouting(
     facts: DeviceFacts,
     params: RoutingParams
 ): ModuleCommands {
-    const commands: string[] = [];
-    const warnings: Warning[] = [];
-    const rollbackCommands: string[] = [];
+    const changes = new ChangeSet(facts);
+
+    // Add the route, or only fix its distance if it is already there
+    const ensureRoute = (dstAddress: string, gateway: string, distance: number, addCommand: string) => {
+        const existing = facts.routes.find(r => r.dstAddress === dstAddress && r.gateway === gateway);
+        if (!existing) {
+            changes.add(addCommand, `/ip route remove [find dst-address=${dstAddress} gateway=${gateway}]`);
+            return;
+        }
+        changes.setProperties(
+            `/ip route set [find dst-address=${dstAddress} gateway=${gateway}]`,
+            { distance: String(distance) },
+            { distance: String(existing.distance) },
+        );
+    };
 
     // Default route
     if (params.defaultRoute) {
@@ -20,36 +33,28 @@ export function compileRouting(
                 params.defaultRoute.checkGateway || 'ping';
         const distance = params.defaultRoute.distance || 1;
 
-        commands.push(
+        ensureRoute(
+            '0.0.0.0/0',
+            params.defaultRoute.gateway,
+            distance,
             `/ip route add dst-address=0.0.0.0/0 gateway=${params.defaultRoute.gateway} distance=${distance} check-gateway=${checkGateway} comment="Default route"`
         );
-
-        rollbackCommands.push(
-            `/ip route remove [find dst-address=0.0.0.0/0 gateway=${params.defaultRoute.gateway}]`
-        );
     }
 
     // Static routes
     if (params.staticRoutes) {
         for (const route of params.staticRoutes) {
             const distance = route.distance || 1;
-            const commentPart = route.comment ? ` comment="${route.comment}"` : '';
+            const commentPart = route.comment ? ` comment=${formatValue(route.comment)}` : '';
 
-            commands.push(
+            ensureRoute(
+                route.dstAddress,
+                route.gateway,
+                distance,
                 `/ip route add dst-address=${route.dstAddress} gateway=${route.gateway} distance=${distance}${commentPart}`
             );
-
-            rollbackCommands.push(
-                `/ip route remove [find dst-address=${route.dstAddress} gateway=${route.gateway}]`
-            );
         }
     }
 
-    return {
-        module: 'routing',
-        title: 'Routing Configuration',
-        commands,
-        rollbackCommands: rollbackCommands.length > 0 ? rollbackCommands : undefined,
-        risk: 'medium',
-    };
+    return changes.toModule('routing', 'Routing Configuration', 'medium');
 }
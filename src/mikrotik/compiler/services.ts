@@ -4,42 +4,31 @@
  */
 
 import type { ServicesParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { ChangeSet } from './diff.js';
 
 export function compileServices(
     facts: DeviceFacts,
     params: ServicesParams
 ): ModuleCommands {
-    const commands: string[] = [];
+    const changes = new ChangeSet(facts);
     const warnings: Warning[] = [];
-    const rollbackCommands: string[] = [];
 
     for (const svc of params.services) {
         const existingSvc = facts.services.find(s => s.name === svc.name);
 
-        // Build set command
-        const parts: string[] = [];
-        parts.push(`/ip service set ${svc.name}`);
-
-        if (svc.disabled !== undefined) {
-            parts.push(`disabled=${svc.disabled ? 'yes' : 'no'}`);
-        }
-
-        if (svc.port !== undefined) {
-            parts.push(`port=${svc.port}`);
-        }
-
-        if (svc.address !== undefined) {
-            parts.push(`address="${svc.address}"`);
-        }
-
-        commands.push(parts.join(' '));
-
-        // Rollback
-        if (existingSvc) {
-            rollbackCommands.push(
-                `/ip service set ${svc.name} disabled=${existingSvc.disabled ? 'yes' : 'no'} port=${existingSvc.port}${existingSvc.address ? ` address="${existingSvc.address}"` : ''}`
-            );
-        }
+        changes.setProperties(
+            `/ip service set ${svc.name}`,
+            {
+                disabled: svc.disabled === undefined ? undefined : svc.disabled ? 'yes' : 'no',
+                port: svc.port === undefined ? undefined : String(svc.port),
+                address: svc.address,
+            },
+            {
+                disabled: existingSvc ? existingSvc.disabled ? 'yes' : 'no' : undefined,
+                port: existingSvc ? String(existingSvc.port) : undefined,
+                address: existingSvc ? existingSvc.address ?? '' : undefined,
+            },
+        );
 
         // Warnings
         if (['winbox', 'ssh'].includes(svc.name) && svc.disabled && !svc.address) {
@@ -59,11 +48,10 @@ export function compileServices(
         }
     }
 
-    return {
-        module: 'services',
-        title: 'Services Management',
-        commands,
-        rollbackCommands: rollbackCommands.length > 0 ? rollbackCommands : undefined,
-        risk: commands.some(c => c.includes('winbox') || c.includes('ssh')) ? 'high' : 'medium',
-    };
+    return changes.toModule(
+        'services',
+        'Services Management',
+        changes.commands.some(c => c.includes('winbox') || c.includes('ssh')) ? 'high' : 'medium',
+        warnings,
+    );
 }
@@ -0,0 +1,48 @@
+/**
+ * @file SNMP Module Compiler
+ * @description Compiles SNMP agent and community settings
+ */
+
+import type { SnmpParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { ChangeSet } from './diff.js';
+
+export function compileSnmp(
+    facts: DeviceFacts,
+    params: SnmpParams
+): ModuleCommands {
+    const changes = new ChangeSet(facts);
+    const warnings: Warning[] = [];
+
+    changes.setProperties(
+        '/snmp set',
+        { enabled: params.enabled ? 'yes' : 'no', contact: params.contact, location: params.location },
+        {
+            enabled: facts.snmpEnabled === undefined ? undefined : facts.snmpEnabled ? 'yes' : 'no',
+            contact: facts.snmpContact,
+            location: facts.snmpLocation,
+        },
+    );
+
+    // Rename the default community rather than adding a second one
+    if (params.enabled && params.community) {
+        const communities = facts.menus?.['/snmp community'] ?? [];
+        if (communities.some(c => c.properties.name === params.community)) {
+            changes.unchanged();
+        } else {
+            changes.set(
+                `/snmp community set [find default=yes] name=${params.community}`,
+                '/snmp community set [find default=yes] name=public'
+            );
+        }
+    }
+
+    if (params.enabled && (!params.community || params.community === 'public')) {
+        warnings.push({
+            level: 'warning',
+            message: 'SNMP enabled with the default "public" community. Set a private community name.',
+            module: 'snmp',
+        });
+    }
+
+    return changes.toModule('snmp', 'SNMP', 'low', warnings);
+}
@@ -3,35 +3,40 @@
  * @description Compiles system-related commands: identity, note, clock, NTP
  */
 
-import type { SystemParams, ModuleCommands, DeviceFacts } from '../types.js';
+import type { SystemParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { ChangeSet, formatValue } from './diff.js';
 
 export function compileSystem(
     facts: DeviceFacts,
     params: SystemParams
 ): ModuleCommands {
-    const commands: string[] = [];
-    const warnings: string[] = [];
-    const rollbackCommands: string[] = [];
+    const changes = new ChangeSet(facts);
+    const warnings: Warning[] = [];
 
     // Identity
     if (params.identity) {
-        const currentIdentity = facts.systemIdentity || 'MikroTik';
-        commands.push(`/system identity set name="${params.identity}"`);
-        rollbackCommands.push(`/system identity set name="${currentIdentity}"`);
+        changes.setProperties(
+            '/system identity set',
+            { name: params.identity },
+            { name: facts.systemIdentity || 'MikroTik' },
+        );
     }
 
-    // System note
+    // System note (not part of the facts, so always set)
     if (params.note) {
-        commands.push(
-            `/system note set show-at-login=yes note="${params.note}"`
+        changes.set(
+            `/system note set show-at-login=yes note=${formatValue(params.note)}`,
+            `/system note set show-at-login=no note=""`
         );
-        rollbackCommands.push(`/system note set show-at-login=no note=""`);
     }
 
     // Timezone
     if (params.timezone) {
-        commands.push(`/system clock set time-zone-name=${params.timezone}`);
-        rollbackCommands.push(`/system clock set time-zone-name=UTC`);
+        changes.setProperties(
+            '/system clock set',
+            { 'time-zone-name': params.timezone },
+            { 'time-zone-name': facts.timezone },
+        );
     }
 
     // NTP
@@ -39,22 +44,23 @@ export function compileSystem(
         const enabled = params.ntpEnabled ?? true;
         const servers = params.ntpServers?.join(',') || '0.pool.ntp.org,1.pool.ntp.org';
 
-        commands.push(
-            `/system ntp client set enabled=${enabled ? 'yes' : 'no'} servers=${servers}`
+        changes.setProperties(
+            '/system ntp client set',
+            { enabled: enabled ? 'yes' : 'no', servers },
+            {
+                enabled: facts.ntpEnabled === undefined ? undefined : facts.ntpEnabled ? 'yes' : 'no',
+                servers: facts.ntpServers?.join(','),
+            },
         );
 
         if (enabled) {
-            warnings.push('NTP client enabled. Ensure firewall allows NTP (UDP 123) outbound.');
+            warnings.push({
+                level: 'info',
+                message: 'NTP client enabled. Ensure firewall allows NTP (UDP 123) outbound.',
+                module: 'system',
+            });
         }
-
-        rollbackCommands.push(`/system ntp client set enabled=no servers=""`);
     }
 
-    return {
-        module: 'system',
-        title: 'System Basics',
-        commands,
-        rollbackCommands: rollbackCommands.length > 0 ? rollbackCommands : undefined,
-        risk: 'low',
-    };
+    return changes.toModule('system', 'System Basics', 'low', warnings);
 }
@@ -0,0 +1,91 @@
+/**
+ * @file VLAN Module Compiler
+ * @description Compiles VLAN interfaces, bridge VLAN table entries and gateway addresses
+ */
+
+import type { VlanParams, ModuleCommands, DeviceFacts, Warning } from '../types.js';
+import { MIKROTIK_COMMANDS } from '../../lib/mikrotik/commands/templates.js';
+import { ChangeSet } from './diff.js';
+
+export function compileVlan(
+    facts: DeviceFacts,
+    params: VlanParams
+): ModuleCommands {
+    const changes = new ChangeSet(facts);
+    const warnings: Warning[] = [];
+
+    for (const vlan of params.vlans) {
+        const name = vlan.name || `vlan${vlan.id}`;
+
+        if (!Number.isInteger(vlan.id) || vlan.id < 1 || vlan.id > 4094) {
+            warnings.push({
+                level: 'critical',
+                message: `VLAN ID ${vlan.id} is outside 1-4094. Skipping.`,
+                module: 'vlan',
+            });
+            continue;
+        }
+
+        if (!facts.interfaces.some(i => i.name === vlan.interface)) {
+            warnings.push({
+                level: 'critical',
+                message: `Interface ${vlan.interface} does not exist. Create the bridge first.`,
+                module: 'vlan',
+            });
+            continue;
+        }
+
+        // VLAN interface
+        if (facts.vlans.some(v => v.id === vlan.id && v.interface === vlan.interface)) {
+            changes.unchanged();
+        } else {
+            changes.add(
+                MIKROTIK_COMMANDS.INTERFACE_VLAN_ADD(vlan.interface, vlan.id, name),
+                `/interface vlan remove [find name=${name}]`
+            );
+        }
+
+        // Bridge VLAN table: the bridge itself is tagged so the VLAN interface receives traffic
+        const bridge = facts.bridges.find(b => b.name === vlan.interface);
+        if (bridge && (vlan.tagged?.length || vlan.untagged?.length)) {
+            changes.ensure(MIKROTIK_COMMANDS.BRIDGE_VLAN_ADD(
+                bridge.name,
+                vlan.id,
+                [bridge.name, ...(vlan.tagged ?? [])],
+                vlan.untagged ?? [],
+            ));
+
+            for (const port of vlan.untagged ?? []) {
+                const target = `/interface bridge port set [find interface=${port}]`;
+                const current = facts.menus?.['/interface bridge port']?.find(p => p.properties.interface === port);
+                if (current) {
+                    changes.setProperties(target, { pvid: String(vlan.id) }, { pvid: current.properties.pvid });
+                } else {
+                    changes.set(`${target} pvid=${vlan.id}`, `${target} pvid=1`);
+                }
+            }
+
+            if (bridge.vlanFiltering) {
+                warnings.push({
+                    level: 'critical',
+                    message: `${bridge.name} has VLAN filtering enabled. Changing its VLAN table takes effect immediately.`,
+                    module: 'vlan',
+                });
+            }
+        }
+
+        // Gateway address
+        if (vlan.address) {
+            if (facts.ipAddresses.some(ip => ip.interface === name && ip.address === vlan.address)) {
+                changes.unchanged();
+            } else {
+                changes.add(
+                    `/ip address add address=${vlan.address} interface=${name}`,
+                    `/ip address remove [find interface=${name} address=${vlan.address}]`
+                );
+            }
+        }
+    }
+
+    return changes.toModule('vlan', 'VLANs', warnings.some(w => w.level === 'critical') ? 'high' : 'medium', warnings);
+}
@@ -0,0 +1,311 @@
+/**
+ * @file Plan Executor
+ * @description Applies a CompiledResult to a RouterOS device module by module
+ *
+ * Each module becomes one StepResult. The pre-change snapshot runs first when the
+ * compiled result has snapshot commands or the policy requires it; a failed snapshot aborts the change before anything is touched.
+ * A step fails on the first command RouterOS rejects or on a failed PostCheck, and
+ * execution stops there. High-risk steps run their rollbackCommands when they fail.
+ */
+
+import { logger } from '../logging/logger.js';
+import type { ExecResult } from '../services/mikrotik/client.js';
+import { formatValue } from './compiler/diff.js';
+import type {
+    ApplyResult,
+    CompiledResult,
+    ModuleCommands,
+    PlanStep,
+    PolicyConfig,
+    PostCheck,
+    PostCheckResult,
+    StepResult,
+} from './types.js';
+
+/**
+ * Anything that runs a single RouterOS command, e.g. a connected MikrotikSSH
+ */
+export interface CommandRunner {
+    exec(command: string, timeoutMs?: number): Promise<ExecResult>;
+}
+
+export interface ApplyOptions {
+    policy?: Partial<PolicyConfig>;
+    steps?: PlanStep[]; // Plan steps, for step IDs, risk and PostChecks
+    commandTimeoutMs?: number;
+}
+
+/**
+ * RouterOS reports most CLI errors on stdout with a zero exit code
+ */
+const ROUTEROS_ERROR_PATTERNS = [
+    /^\s*failure:/im,
+    /bad command name/i,
+    /syntax error/i,
+    /expected end of command/i,
+    /no such item/i,
+    /invalid value/i,
+    /input does not match any value/i,
+    /already have (such|an?) /i,
+];
+
+function getCommandError(command: string, result: ExecResult): string | undefined {
+    const output = `${result.stdout}\n${result.stderr}`.trim();
+    if (result.exitCode !== null && result.exitCode !== 0) {
+        return `${command}: exit code ${result.exitCode}${output ? ` - ${output}` : ''}`;
+    }
+    if (ROUTEROS_ERROR_PATTERNS.some((pattern) => pattern.test(output))) {
+        return `${command}: ${output}`;
+    }
+    return undefined;
+}
+
+/**
+ * Run commands in order, stopping at the first failure.
+ * Comments and blank lines from the compiler are skipped.
+ */
+async function runCommands(
+    runner: CommandRunner,
+    commands: string[],
+    timeoutMs?: number,
+): Promise<{ output: string; error?: string }> {
+    const outputs: string[] = [];
+
+    for (const command of commands) {
+        if (!command.trim() || command.trim().startsWith('#')) continue;
+
+        let result: ExecResult;
+        try {
+            result = await runner.exec(command, timeoutMs);
+        } catch (error) {
+            return {
+                output: outputs.join('\n'),
+                error: `${command}: ${error instanceof Error ? error.message : String(error)}`,
+            };
+        }
+
+        if (result.stdout.trim()) outputs.push(result.stdout.trim());
+        const error = getCommandError(command, result);
+        if (error) {
+            return { output: outputs.join('\n'), error };
+        }
+    }
+
+    return { output: outputs.join('\n') };
+}
+
+/**
+ * Find the `print terse` line of an item and tell whether it is disabled (X flag)
+ */
+function findTerseItem(output: string, key: string, value: string): { found: boolean; disabled: boolean } {
+    const line = output.split('\n').find((l) => l.includes(` ${key}=${value} `) || l.endsWith(` ${key}=${value}`));
+    if (!line) {
+        return { found: false, disabled: false };
+    }
+    const flags = line.slice(0, line.indexOf(` ${key}=`));
+    return { found: true, disabled: /\bX\b/.test(flags) };
+}
+
+/**
+ * RouterOS command that verifies a PostCheck, and how to read its output.
+ * Parameters are quoted and escaped like compiled values.
+ */
+function buildPostCheck(check: PostCheck): { command: string; passes: (output: string) => boolean } {
+    const params = check.params ?? {};
+
+    switch (check.type) {
+        case 'verify_interface': {
+            const name = String(params.interface ?? params.name);
+            return {
+                command: `/interface print terse where name=${formatValue(name)}`,
+                passes: (output) => {
+                    const item = findTerseItem(output, 'name', name);
+                    return item.found && !item.disabled;
+                },
+            };
+        }
+        case 'verify_service': {
+            const name = String(params.service ?? params.name);
+            return {
+                command: `/ip service print terse where name=${formatValue(name)}`,
+                passes: (output) => {
+                    const item = findTerseItem(output, 'name', name);
+                    return item.found && (params.disabled === true ? item.disabled : !item.disabled);
+                },
+            };
+        }
+        case 'verify_route': {
+            const dst = String(params.dstAddress ?? params['dst-address'] ?? '0.0.0.0/0');
+            return {
+                command: `/ip route print terse where dst-address=${formatValue(dst)}`,
+                passes: (output) => {
+                    const item = findTerseItem(output, 'dst-address', dst);
+                    return item.found && !item.disabled &&
+                        (!params.gateway || output.includes(`gateway=${params.gateway}`));
+                },
+            };
+        }
+        case 'verify_connectivity': {
+            const address = String(params.address ?? params.host ?? params.target);
+            const count = Math.trunc(Number(params.count ?? 3));
+            return {
+                command: `/ping address=${formatValue(address)} count=${count > 0 ? count : 3}`,
+                passes: (output) => Number(output.match(/received=(\d+)/)?.[1] ?? 0) > 0,
+            };
+        }
+    }
+}
+
+async function runPostChecks(
+    runner: CommandRunner,
+    checks: PostCheck[],
+    timeoutMs?: number,
+): Promise<PostCheckResult[]> {
+    const results: PostCheckResult[] = [];
+
+    for (const check of checks) {
+        const { command, passes } = buildPostCheck(check);
+        try {
+            const result = await runner.exec(command, timeoutMs);
+            results.push({
+                type: check.type,
+                description: check.description,
+                command,
+                passed: !getCommandError(command, result) && passes(result.stdout),
+                output: result.stdout.trim() || result.stderr.trim() || undefined,
+            });
+        } catch (error) {
+            results.push({
+                type: check.type,
+                description: check.description,
+                command,
+                passed: false,
+                output: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Run one compiled module; `steps` are all plan steps for that module, whose
+ * PostChecks all run and whose highest risk applies
+ */
+async function runModule(
+    runner: CommandRunner,
+    module: ModuleCommands,
+    steps: PlanStep[],
+    timeoutMs?: number,
+): Promise<StepResult> {
+    const start = Date.now();
+    const postChecks = steps.flatMap((s) => s.postcheck ?? []);
+    const result: StepResult = {
+        stepId: steps.map((s) => s.id).join(',') || module.module,
+        module: module.module,
+        commands: module.commands,
+        success: false,
+        duration: 0,
+    };
+
+    const { output, error } = await runCommands(runner, module.commands, timeoutMs);
+    result.output = output || undefined;
+    result.error = error;
+
+    if (!error && postChecks.length > 0) {
+        result.postChecks = await runPostChecks(runner, postChecks, timeoutMs);
+        result.verified = result.postChecks.every((c) => c.passed);
+        if (!result.verified) {
+            const failed = result.postChecks.filter((c) => !c.passed).map((c) => c.description);
+            result.error = `Post-check failed: ${failed.join(', ')}`;
+        }
+    }
+    result.success = !result.error;
+
+    const highRisk = module.risk === 'high' || steps.some((s) => s.risk === 'high');
+    if (!result.success && highRisk && module.rollbackCommands?.length) {
+        logger.warn('[MikroTikExecutor] High-risk step failed, rolling back', {
+            stepId: result.stepId,
+            module: module.module,
+            error: result.error,
+        });
+        const rollback = await runCommands(runner, module.rollbackCommands, timeoutMs);
+        result.rolledBack = !rollback.error;
+        result.rollbackError = rollback.error;
+    }
+
+    result.duration = Date.now() - start;
+    return result;
+}
+
+/**
+ * Apply a compiled plan through a connected command runner
+ */
+export async function applyCompiledResult(
+    compiled: CompiledResult,
+    runner: CommandRunner,
+    options: ApplyOptions = {},
+): Promise<ApplyResult> {
+    const startTime = new Date().toISOString();
+    // Modules already in the desired state have nothing to send
+    const modules = Object.values(compiled.commandsByModule).filter((m) => !m.noop);
+    const stepResults: StepResult[] = [];
+    let snapshotTaken = false;
+
+    // Compiled snapshot commands always run, with or without the plan's policy
+    const snapshotCommands = compiled.snapshotCommands?.length
+        ? compiled.snapshotCommands
+        : options.policy?.requireSnapshot
+            ? [
+                `/system backup save name="prechange-${compiled.changeId}"`,
+                `/export file="prechange-export-${compiled.changeId}"`,
+            ]
+            : [];
+
+    if (snapshotCommands.length > 0) {
+        const start = Date.now();
+        const { output, error } = await runCommands(runner, snapshotCommands, options.commandTimeoutMs);
+        snapshotTaken = !error;
+        stepResults.push({
+            stepId: 'snapshot',
+            module: 'backup',
+            commands: snapshotCommands,
+            success: snapshotTaken,
+            output: output || undefined,
+            error,
+            duration: Date.now() - start,
+        });
+    }
+
+    if (snapshotCommands.length === 0 || snapshotTaken) {
+        for (const module of modules) {
+            const steps = options.steps?.filter((s) => s.module === module.module) ?? [];
+            const result = await runModule(runner, module, steps, options.commandTimeoutMs);
+            stepResults.push(result);
+            if (!result.success) break;
+        }
+    }
+
+    const failedSteps = stepResults.filter((r) => !r.success).length;
+    const result: ApplyResult = {
+        changeId: compiled.changeId,
+        executionMode: 'apply',
+        startTime,
+        endTime: new Date().toISOString(),
+        totalSteps: modules.length + (snapshotCommands.length > 0 ? 1 : 0),
+        successSteps: stepResults.length - failedSteps,
+        failedSteps,
+        stepResults,
+        verified: failedSteps === 0 && stepResults.every((r) => r.verified !== false),
+        rollbackAvailable: snapshotTaken || modules.some((m) => (m.rollbackCommands?.length ?? 0) > 0),
+    };
+
+    logger.info('[MikroTikExecutor] Apply finished', {
+        changeId: result.changeId,
+        totalSteps: result.totalSteps,
+        successSteps: result.successSteps,
+        failedSteps: result.failedSteps,
+    });
+
+    return result;
+}
@@ -0,0 +1,160 @@
+/**
+ * @file Device Facts Collector
+ * @description Gathers DeviceFacts from a live RouterOS device and caches them
+ *
+ * Facts are read over SSH through MikrotikManager and parsed by `facts/parsers.ts`.
+ * Each collection is cached in Redis with its collection time, so plan validation
+ * can tell how fresh the facts it checks against are.
+ */
+
+import { redisCache, CacheKeys } from '../cache/redis.js';
+import { logger } from '../logging/logger.js';
+import type { ExecResult } from '../services/mikrotik/client.js';
+import type { MikrotikManager } from '../services/mikrotik/manager.js';
+import type { DeviceFacts, MenuItemFact } from './types.js';
+import {
+    parseBridges,
+    parseDhcpClients,
+    parseDhcpServers,
+    parseInterfaces,
+    parseIpAddresses,
+    parseMenuItems,
+    parsePrintProperties,
+    parseRoutes,
+    parseServices,
+    parseUsers,
+    parseVlans,
+} from './facts/parsers.js';
+
+/**
+ * Cached facts are kept for an hour; callers decide how old is too old
+ */
+const FACTS_CACHE_TTL = 3600;
+
+/**
+ * Menus read as raw items, so the compiler can tell which rules and entries already exist
+ */
+const DIFFED_MENUS = [
+    '/ip firewall filter',
+    '/ip firewall nat',
+    '/ip pool',
+    '/ip dhcp-server network',
+    '/interface bridge port',
+    '/interface bridge vlan',
+    '/interface bonding',
+    '/interface list',
+    '/interface list member',
+    '/system logging',
+    '/system logging action',
+    '/snmp community',
+];
+
+export interface CollectedDeviceFacts {
+    facts: DeviceFacts;
+    collectedAt: string;
+    errors: string[]; // Queries that failed; their facts are left empty
+}
+
+/**
+ * Collect facts from a connected device.
+ * Interfaces and IP addresses are required; other failed queries are reported in `errors`.
+ */
+export async function collectDeviceFacts(manager: MikrotikManager, deviceId: string): Promise<CollectedDeviceFacts> {
+    const errors: string[] = [];
+
+    const read = async (name: string, query: () => Promise<ExecResult>, required = false): Promise<string> => {
+        let error: string;
+        try {
+            const result = await query();
+            if (result.exitCode === null || result.exitCode === 0) {
+                return result.stdout;
+            }
+            error = `${name}: exit code ${result.exitCode} ${result.stderr}`.trim();
+        } catch (e) {
+            error = `${name}: ${e instanceof Error ? e.message : String(e)}`;
+        }
+        if (required) {
+            throw new Error(`Failed to read ${error}`);
+        }
+        errors.push(error);
+        return '';
+    };
+
+    const system = await manager.getSystemInfo();
+    const identity = parsePrintProperties((system.identity as ExecResult | undefined)?.stdout ?? '');
+    const resources = parsePrintProperties((system.resources as ExecResult | undefined)?.stdout ?? '');
+
+    const interfaces = await read('interfaces', () => manager.getInterfaces(), true);
+    const ipAddresses = await read('ip addresses', () => manager.getIPAddresses(), true);
+    const bridges = await read('bridges', () => manager.getBridges());
+    const bridgePorts = await read('bridge ports', () => manager.getBridgePorts());
+    const vlans = await read('vlans', () => manager.getVlans());
+    const routes = await read('routes', () => manager.getRoutes());
+    const services = await read('services', () => manager.getServices());
+    const dhcpServers = await read('dhcp servers', () => manager.getDHCPServers());
+    const dhcpClients = await read('dhcp clients', () => manager.getDHCPClients());
+    const users = await read('users', () => manager.getUsers());
+    const dns = parsePrintProperties(await read('dns', () => manager.getDNS()));
+    const ntp = parsePrintProperties(await read('ntp', () => manager.getNtpClient()));
+    const snmp = parsePrintProperties(await read('snmp', () => manager.getSnmp()));
+    const clock = parsePrintProperties(await read('clock', () => manager.getClock()));
+
+    const menus: Record<string, MenuItemFact[]> = {};
+    for (const menu of DIFFED_MENUS) {
+        const output = await read(menu, () => manager.printMenu(menu));
+        if (output) {
+            menus[menu] = parseMenuItems(output);
+        }
+    }
+
+    const facts: DeviceFacts = {
+        deviceId,
+        routeros: resources.version?.split(' ')[0] ?? 'unknown',
+        model: resources['board-name'] ?? 'unknown',
+        interfaces: parseInterfaces(interfaces),
+        bridges: parseBridges(bridges, bridgePorts),
+        vlans: parseVlans(vlans),
+        ipAddresses: parseIpAddresses(ipAddresses),
+        services: parseServices(services),
+        routes: parseRoutes(routes),
+        dhcpServers: parseDhcpServers(dhcpServers),
+        dhcpClients: parseDhcpClients(dhcpClients),
+        users: parseUsers(users),
+        systemIdentity: identity.name,
+        timezone: clock['time-zone-name'],
+        ntpEnabled: ntp.enabled ? ntp.enabled === 'yes' : undefined,
+        ntpServers: ntp.servers !== undefined ? ntp.servers.split(',').filter(Boolean) : undefined,
+        snmpEnabled: snmp.enabled ? snmp.enabled === 'yes' : undefined,
+        snmpContact: snmp.contact,
+        snmpLocation: snmp.location,
+        dnsServers: dns.servers !== undefined ? dns.servers.split(',').filter(Boolean) : undefined,
+        dnsAllowRemoteRequests: dns['allow-remote-requests'] ? dns['allow-remote-requests'] === 'yes' : undefined,
+        menus,
+    };
+
+    const collected: CollectedDeviceFacts = { facts, collectedAt: new Date().toISOString(), errors };
+    await redisCache.set(CacheKeys.mikrotikFacts(deviceId), collected, FACTS_CACHE_TTL);
+
+    logger.info('[MikroTikFacts] Collected device facts', {
+        deviceId,
+        interfaces: facts.interfaces.length,
+        ipAddresses: facts.ipAddresses.length,
+        errors: errors.length,
+    });
+
+    return collected;
+}
+
+/**
+ * Last collected facts for a device, or null if none are cached
+ */
+export async function getCachedDeviceFacts(deviceId: string): Promise<CollectedDeviceFacts | null> {
+    return redisCache.get<CollectedDeviceFacts>(CacheKeys.mikrotikFacts(deviceId));
+}
+
+/**
+ * Age of collected facts in seconds
+ */
+export function getFactsAge(collected: CollectedDeviceFacts): number {
+    return Math.floor((Date.now() - new Date(collected.collectedAt).getTime()) / 1000);
+}
@@ -0,0 +1,241 @@
+/**
+ * @file RouterOS Output Parsers
+ * @description Parses `print detail` and property `print` output into DeviceFacts parts
+ */
+
+import type {
+    BridgeFact,
+    DhcpClientFact,
+    DhcpServerFact,
+    InterfaceFact,
+    IpAddressFact,
+    MenuItemFact,
+    RouteFact,
+    ServiceFact,
+    UserFact,
+    VlanFact,
+} from '../types.js';
+
+/**
+ * One item of `print detail` output
+ */
+export interface RouterOSItem {
+    index?: number; // Dynamic items such as connected routes have none
+    flags: string[];
+    comment?: string;
+    props: Record<string, string>;
+}
+
+const ITEM_INDEX = /^\s*(\d+)(\s.*|)$/;
+const PROPERTY = /([\w.-]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+function unquote(value: string): string {
+    return value.startsWith('"') && value.endsWith('"')
+        ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+        : value;
+}
+
+/**
+ * Parse the `key=value` pairs of a line; quoted values are unquoted
+ */
+export function parseProperties(line: string): Record<string, string> {
+    const props: Record<string, string> = {};
+    for (const match of line.matchAll(PROPERTY)) {
+        props[match[1]] = unquote(match[2]);
+    }
+    return props;
+}
+
+/**
+ * Parse `print detail` output into items.
+ * Items are separated by blank lines and start with their index (if any), flag
+ * letters and an optional `;;; comment`; properties continue over indented lines.
+ */
+export function parsePrintDetail(output: string): RouterOSItem[] {
+    const items: RouterOSItem[] = [];
+    let current: RouterOSItem | undefined;
+
+    for (const rawLine of output.replace(/\r/g, '').split('\n')) {
+        if (/^\s*Flags:/.test(rawLine) || /^\s*Columns:/.test(rawLine)) continue;
+
+        if (!rawLine.trim()) {
+            current = undefined;
+            continue;
+        }
+
+        let line = rawLine;
+        const index = ITEM_INDEX.exec(rawLine);
+        if (index || !current) {
+            current = { index: index ? Number(index[1]) : undefined, flags: [], props: {} };
+            items.push(current);
+            line = index ? index[2] : rawLine;
+
+            // Flag letters (e.g. `X`, `R`, `As`) come before the comment or first property
+            const flagMatch = /^(\s*[A-Za-z+]{1,4}(?=\s|$))+/.exec(line);
+            if (flagMatch) {
+                current.flags = flagMatch[0].replace(/\s/g, '').split('');
+                line = line.slice(flagMatch[0].length);
+            }
+        }
+
+        const commentAt = line.indexOf(';;;');
+        if (commentAt !== -1) {
+            current.comment = line.slice(commentAt + 3).trim();
+            continue;
+        }
+
+        Object.assign(current.props, parseProperties(line));
+    }
+
+    return items;
+}
+
+/**
+ * Parse `key: value` output of singleton menus such as `/system resource print`
+ */
+export function parsePrintProperties(output: string): Record<string, string> {
+    const props: Record<string, string> = {};
+    for (const line of output.replace(/\r/g, '').split('\n')) {
+        const match = /^\s*([\w.-]+):\s*(.*?)\s*$/.exec(line);
+        if (match) {
+            props[match[1]] = match[2];
+        }
+    }
+    return props;
+}
+
+/**
+ * Raw menu items for diffing, e.g. `/ip firewall filter print detail`
+ */
+export function parseMenuItems(output: string): MenuItemFact[] {
+    return parsePrintDetail(output).map((item) => {
+        const properties = { ...item.props };
+        delete properties.disabled;
+        return { disabled: isDisabled(item), comment: item.comment, properties };
+    });
+}
+
+function isDisabled(item: RouterOSItem): boolean {
+    return item.flags.includes('X') || item.props.disabled === 'yes';
+}
+
+function isYes(value: string | undefined): boolean {
+    return value === 'yes' || value === 'true';
+}
+
+function toInterfaceType(type: string | undefined): InterfaceFact['type'] {
+    switch (type) {
+        case 'ether':
+        case 'bridge':
+        case 'vlan':
+        case 'bonding':
+            return type;
+        case 'pppoe-out':
+        case 'pppoe-in':
+            return 'pppoe';
+        default:
+            return 'other';
+    }
+}
+
+export function parseInterfaces(output: string): InterfaceFact[] {
+    return parsePrintDetail(output)
+        .filter((item) => item.props.name)
+        .map((item) => ({
+            name: item.props.name,
+            type: toInterfaceType(item.props.type),
+            disabled: isDisabled(item),
+            mtu: item.props.mtu && /^\d+$/.test(item.props.mtu) ? Number(item.props.mtu) : undefined,
+            comment: item.comment,
+        }));
+}
+
+/**
+ * Bridges with their member ports from `/interface bridge port print detail`
+ */
+export function parseBridges(bridgeOutput: string, portOutput: string): BridgeFact[] {
+    const ports = parsePrintDetail(portOutput);
+    return parsePrintDetail(bridgeOutput)
+        .filter((item) => item.props.name)
+        .map((item) => ({
+            name: item.props.name,
+            vlanFiltering: isYes(item.props['vlan-filtering']),
+            ports: ports
+                .filter((port) => port.props.bridge === item.props.name && port.props.interface)
+                .map((port) => port.props.interface),
+        }));
+}
+
+export function parseVlans(output: string): VlanFact[] {
+    return parsePrintDetail(output)
+        .filter((item) => item.props['vlan-id'])
+        .map((item) => ({
+            id: Number(item.props['vlan-id']),
+            name: item.props.name,
+            interface: item.props.interface,
+        }));
+}
+
+export function parseIpAddresses(output: string): IpAddressFact[] {
+    return parsePrintDetail(output)
+        .filter((item) => item.props.address)
+        .map((item) => ({
+            address: item.props.address,
+            interface: item.props.interface,
+            disabled: isDisabled(item),
+        }));
+}
+
+export function parseRoutes(output: string): RouteFact[] {
+    return parsePrintDetail(output)
+        .filter((item) => item.props['dst-address'])
+        .map((item) => ({
+            dstAddress: item.props['dst-address'],
+            gateway: item.props.gateway ?? '',
+            distance: Number(item.props.distance ?? 1),
+            disabled: isDisabled(item),
+        }));
+}
+
+export function parseServices(output: string): ServiceFact[] {
+    return parsePrintDetail(output)
+        .filter((item) => item.props.name)
+        .map((item) => ({
+            name: item.props.name,
+            port: Number(item.props.port),
+            disabled: isDisabled(item),
+            address: item.props.address ?? '',
+        }));
+}
+
+export function parseDhcpServers(output: string): DhcpServerFact[] {
+    return parsePrintDetail(output)
+        .filter((item) => item.props.name)
+        .map((item) => ({
+            name: item.props.name,
+            interface: item.props.interface,
+            addressPool: item.props['address-pool'] ?? '',
+            disabled: isDisabled(item),
+        }));
+}
+
+export function parseDhcpClients(output: string): DhcpClientFact[] {
+    return parsePrintDetail(output)
+        .filter((item) => item.props.interface)
+        .map((item) => ({
+            interface: item.props.interface,
+            disabled: isDisabled(item),
+            addDefaultRoute: isYes(item.props['add-default-route']),
+            usePeerDns: item.props['use-peer-dns'] ? isYes(item.props['use-peer-dns']) : undefined,
+            usePeerNtp: item.props['use-peer-ntp'] ? isYes(item.props['use-peer-ntp']) : undefined,
+        }));
+}
+
+export function parseUsers(output: string): UserFact[] {
+    return parsePrintDetail(output)
+        .filter((item) => item.props.name)
+        .map((item) => ({
+            name: item.props.name,
+            group: item.props.group,
+        }));
+}
@@ -30,9 +30,24 @@ export interface DeviceFacts {
     dhcpClients?: DhcpClientFact[];
     users?: UserFact[];
     systemIdentity?: string;
+    timezone?: string;
     snmpEnabled?: boolean;
+    snmpContact?: string;
+    snmpLocation?: string;
     ntpEnabled?: boolean;
+    ntpServers?: string[];
     dnsServers?: string[];
+    dnsAllowRemoteRequests?: boolean;
+    menus?: Record<string, MenuItemFact[]>; // Raw items of menus without typed facts, keyed by menu path
+}
+
+/**
+ * An item of a RouterOS menu as printed by `print detail`, e.g. a firewall rule
+ */
+export interface MenuItemFact {
+    disabled: boolean;
+    comment?: string;
+    properties: Record<string, string>;
 }
 
 export interface InterfaceFact {
@@ -93,6 +108,8 @@ export interface DhcpClientFact {
     interface: string;
     disabled: boolean;
     addDefaultRoute: boolean;
+    usePeerDns?: boolean;
+    usePeerNtp?: boolean;
 }
 
 export interface UserFact {
@@ -185,14 +202,29 @@ export interface CompiledResult {
     warnings: Warning[];
     estimatedDuration: string;
     snapshotCommands?: string[];
+    noopSteps?: string[];    // IDs of steps whose desired state already matches the device
+    summary?: ChangeSummary; // Totals over all modules
 }
 
 export interface ModuleCommands {
     module: ModuleName;
     title: string;
     commands: string[];
-    rollbackCommands?: string[];
+    rollbackCommands?: string[]; // Inverse of `commands`, in reverse order
     risk: 'low' | 'medium' | 'high';
+    noop?: boolean;
+    changes?: ChangeSummary;
+    warnings?: Warning[];
+}
+
+/**
+ * Number of items added, changed, removed and already in the desired state
+ */
+export interface ChangeSummary {
+    add: number;
+    set: number;
+    remove: number;
+    unchanged: number;
 }
 
 export interface Warning {
@@ -250,6 +282,17 @@ export interface StepResult {
     error?: string;
     duration: number;
     verified?: boolean;
+    postChecks?: PostCheckResult[];
+    rolledBack?: boolean;     // rollbackCommands ran after the step failed
+    rollbackError?: string;
+}
+
+export interface PostCheckResult {
+    type: PostCheck['type'];
+    description: string;
+    command: string;
+    passed: boolean;
+    output?: string;
 }
 
 /**
@@ -413,6 +456,40 @@ export interface StaticRouteConfig {
     comment?: string;
 }
 
+// Bridge module
+export interface BridgeParams {
+    name: string;
+    vlanFiltering?: boolean;
+    ports?: string[]; // interface names to add as bridge ports
+    comment?: string;
+}
+
+// VLAN module
+export interface VlanParams {
+    vlans: VlanConfig[];
+}
+
+export interface VlanConfig {
+    id: number;
+    name?: string;       // defaults to vlan<id>
+    interface: string;   // parent interface, usually a bridge
+    tagged?: string[];   // bridge ports carrying the VLAN tagged
+    untagged?: string[]; // bridge ports getting the VLAN as PVID
+    address?: string;    // gateway CIDR on the VLAN interface
+}
+
+// Bonding module
+export interface BondingParams {
+    bonds: BondingConfig[];
+}
+
+export interface BondingConfig {
+    name: string;
+    slaves: string[];
+    mode?: '802.3ad' | 'active-backup' | 'balance-rr' | 'balance-xor' | 'balance-tlb' | 'balance-alb' | 'broadcast';
+    comment?: string;
+}
+
 // Backup module
 export interface BackupParams {
     snapshotName: string;
@@ -0,0 +1,363 @@
+/**
+ * Budget Manager - Monthly cost budgets per organization and project
+ *
+ * Spend is the cost of the month's request traces (UTC calendar month), read
+ * through AnalyticsAggregator like /v1/analytics, cached for a minute and
+ * advanced by every routed request in between. When spend crosses one of a
+ * budget's alert thresholds, `budget.threshold` is published on the event bus
+ * and the BUDGET_ALERT_WEBHOOK n8n webhook is called, once per threshold and
+ * month. A spent budget either blocks its requests or downgrades them to free
+ * L0 models (`hardStop`).
+ */
+
+import { db } from '../db/postgres.js';
+import { env } from '../config/env.js';
+import { logger } from '../logging/logger.js';
+import { eventBus } from '../infrastructure/events.js';
+import { AnalyticsAggregator } from '../analytics/aggregator.js';
+import { callN8nWebhook, hasN8nWebhook } from '../agents/workflowOrchestrator.js';
+import { DEFAULT_PROJECT_ID, getOrganizationId } from './scopes.js';
+import type { Budget, BudgetScope, BudgetSettings, BudgetStatus } from '../types/tracing.js';
+
+const BUDGETS_TTL_MS = 60000;
+const SPEND_TTL_MS = 60000;
+
+export const DEFAULT_ALERT_THRESHOLDS = [50, 80, 100];
+
+interface ScopeRef {
+    scope: BudgetScope;
+    scopeId: string;
+}
+
+interface DBBudget {
+    scope: BudgetScope;
+    scope_id: string;
+    monthly_limit: string;
+    alert_thresholds: number[];
+    hard_stop: Budget['hardStop'];
+}
+
+/**
+ * Thrown for requests of an organization or project whose budget is spent
+ * and set to block
+ */
+export class BudgetExceededError extends Error {
+    constructor(readonly budget: BudgetStatus) {
+        super(
+            `Monthly budget of ${budget.scope} ${budget.scopeId} exhausted ` +
+            `($${budget.spent.toFixed(2)} of $${budget.monthlyLimit.toFixed(2)} spent); ` +
+            `resets at ${budget.resetAt.toISOString()}`
+        );
+        this.name = 'BudgetExceededError';
+    }
+
+    /**
+     * Seconds until the budget period ends (Retry-After)
+     */
+    get retryAfterSeconds(): number {
+        return Math.max(1, Math.ceil((this.budget.resetAt.getTime() - Date.now()) / 1000));
+    }
+
+    /**
+     * OpenAI-style error object for 429 responses and MCP errors
+     */
+    get details() {
+        return {
+            message: this.message,
+            type: 'insufficient_quota',
+            code: 'budget_exceeded',
+            param: null,
+            scope: this.budget.scope,
+            scopeId: this.budget.scopeId,
+            monthlyLimit: this.budget.monthlyLimit,
+            spent: this.budget.spent,
+            resetAt: this.budget.resetAt.toISOString(),
+        };
+    }
+}
+
+export class BudgetManager {
+    private budgets?: { budgets: Budget[]; loadedAt: number };
+    private memoryBudgets = new Map<string, Budget>();
+    private spend = new Map<string, { spent: number; period: number; loadedAt: number }>();
+    private alerted = new Map<string, { threshold: number; period: number }>();
+
+    /**
+     * The spent budget that applies to a project's requests, if any: the
+     * project's or its organization's, preferring one that blocks
+     */
+    async getExceeded(projectId?: string): Promise<BudgetStatus | undefined> {
+        try {
+            const exceeded = (await this.getStatus(projectId)).filter((status) => status.exceeded);
+            return exceeded.find((status) => status.hardStop === 'block') ?? exceeded[0];
+        } catch (error) {
+            logger.warn('Budget check failed, allowing request', {
+                projectId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return undefined;
+        }
+    }
+
+    /**
+     * Status of the budgets of a project and its organization, or of all
+     * budgets without a project
+     */
+    async getStatus(projectId?: string): Promise<BudgetStatus[]> {
+        const budgets = await this.loadBudgets();
+        let selected = budgets;
+        if (projectId !== undefined) {
+            const refs = await this.resolveScopes(projectId);
+            selected = budgets.filter((budget) => refs.some((ref) => sameScope(ref, budget)));
+        }
+        return Promise.all(selected.map((budget) => this.toStatus(budget)));
+    }
+
+    /**
+     * Create or update a budget
+     */
+    async setBudget(scope: BudgetScope, scopeId: string, settings: BudgetSettings): Promise<BudgetStatus> {
+        const budget: Budget = {
+            scope,
+            scopeId,
+            monthlyLimit: settings.monthlyLimit,
+            alertThresholds: [...new Set(settings.alertThresholds)].sort((a, b) => a - b),
+            hardStop: settings.hardStop,
+        };
+
+        if (db.isReady()) {
+            const result = await db.query(
+                `INSERT INTO budgets (scope, scope_id, monthly_limit, alert_thresholds, hard_stop)
+                 VALUES ($1, $2, $3, $4, $5)
+                 ON CONFLICT (scope, scope_id) DO UPDATE
+                 SET monthly_limit = EXCLUDED.monthly_limit,
+                     alert_thresholds = EXCLUDED.alert_thresholds,
+                     hard_stop = EXCLUDED.hard_stop,
+                     updated_at = NOW()`,
+                [scope, scopeId, budget.monthlyLimit, budget.alertThresholds, budget.hardStop]
+            );
+            if (!result) {
+                throw new Error('Failed to save budget');
+            }
+        } else {
+            this.memoryBudgets.set(scopeKey(budget), budget);
+        }
+
+        this.budgets = undefined;
+        return this.toStatus(budget);
+    }
+
+    /**
+     * Delete a budget; false if there was none
+     */
+    async deleteBudget(scope: BudgetScope, scopeId: string): Promise<boolean> {
+        this.budgets = undefined;
+        if (db.isReady()) {
+            const result = await db.query(
+                'DELETE FROM budgets WHERE scope = $1 AND scope_id = $2',
+                [scope, scopeId]
+            );
+            if (!result) {
+                throw new Error('Failed to delete budget');
+            }
+            return (result.rowCount ?? 0) > 0;
+        }
+        return this.memoryBudgets.delete(scopeKey({ scope, scopeId }));
+    }
+
+    /**
+     * Add a routed request's cost to its project's and organization's spend
+     * and send alerts for newly crossed thresholds; never throws
+     */
+    async recordSpend(projectId: string | undefined, cost: number): Promise<void> {
+        try {
+            const period = periodStart().getTime();
+            const refs = await this.resolveScopes(projectId);
+            for (const ref of refs) {
+                const key = scopeKey(ref);
+                const cached = this.spend.get(key);
+                if (cached && cached.period === period) {
+                    cached.spent += cost;
+                } else if (!db.isReady()) {
+                    this.spend.set(key, { spent: cost, period, loadedAt: Date.now() });
+                }
+            }
+
+            const budgets = (await this.loadBudgets()).filter((budget) => refs.some((ref) => sameScope(ref, budget)));
+            for (const budget of budgets) {
+                await this.checkAlerts(await this.toStatus(budget));
+            }
+        } catch (error) {
+            logger.warn('Failed to record budget spend', {
+                projectId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private async resolveScopes(projectId?: string): Promise<ScopeRef[]> {
+        const project = projectId || DEFAULT_PROJECT_ID;
+        const organizationId = await getOrganizationId(project);
+        return [
+            ...(organizationId ? [{ scope: 'organization' as const, scopeId: organizationId }] : []),
+            { scope: 'project', scopeId: project },
+        ];
+    }
+
+    /**
+     * All budgets, cached for a minute
+     */
+    private async loadBudgets(): Promise<Budget[]> {
+        if (!db.isReady()) {
+            return [...this.memoryBudgets.values()];
+        }
+        if (this.budgets && Date.now() - this.budgets.loadedAt < BUDGETS_TTL_MS) {
+            return this.budgets.budgets;
+        }
+
+        const result = await db.query<DBBudget>(
+            'SELECT scope, scope_id, monthly_limit, alert_thresholds, hard_stop FROM budgets ORDER BY scope, scope_id'
+        );
+        if (!result) {
+            throw new Error('Failed to load budgets');
+        }
+        const budgets = result.rows.map((row): Budget => ({
+            scope: row.scope,
+            scopeId: row.scope_id,
+            monthlyLimit: Number(row.monthly_limit),
+            alertThresholds: row.alert_thresholds,
+            hardStop: row.hard_stop,
+        }));
+        this.budgets = { budgets, loadedAt: Date.now() };
+        return budgets;
+    }
+
+    /**
+     * This month's spend of an organization or project
+     */
+    private async getSpent(ref: ScopeRef): Promise<number> {
+        const key = scopeKey(ref);
+        const period = periodStart();
+        const cached = this.spend.get(key);
+        if (cached && cached.period === period.getTime()
+            && (!db.isReady() || Date.now() - cached.loadedAt < SPEND_TTL_MS)) {
+            return cached.spent;
+        }
+        if (!db.isReady()) {
+            return 0;
+        }
+
+        const spent = await new AnalyticsAggregator(db.getPool()).getSpend(ref.scope, ref.scopeId, period);
+        this.spend.set(key, { spent, period: period.getTime(), loadedAt: Date.now() });
+        return spent;
+    }
+
+    private async toStatus(budget: Budget): Promise<BudgetStatus> {
+        const spent = await this.getSpent(budget);
+        const percentUsed = budget.monthlyLimit > 0 ? (spent / budget.monthlyLimit) * 100 : 100;
+        return {
+            ...budget,
+            spent,
+            percentUsed,
+            exceeded: spent >= budget.monthlyLimit,
+            periodStart: periodStart(),
+            resetAt: periodEnd(),
+        };
+    }
+
+    /**
+     * Alert the highest threshold crossed since the last alert this month
+     */
+    private async checkAlerts(status: BudgetStatus): Promise<void> {
+        const threshold = Math.max(0, ...status.alertThresholds.filter((t) => status.percentUsed >= t));
+        if (threshold === 0 || !(await this.markAlerted(status, threshold))) {
+            return;
+        }
+
+        logger.warn('Budget alert threshold crossed', {
+            scope: status.scope,
+            scopeId: status.scopeId,
+            threshold,
+            spent: status.spent,
+            monthlyLimit: status.monthlyLimit,
+        });
+        eventBus.emit('budget.threshold', {
+            scope: status.scope,
+            scopeId: status.scopeId,
+            threshold,
+            spent: status.spent,
+            monthlyLimit: status.monthlyLimit,
+        });
+
+        const webhookName = env.BUDGET_ALERT_WEBHOOK;
+        if (!hasN8nWebhook(webhookName)) {
+            return;
+        }
+        callN8nWebhook(webhookName, {
+            event: 'budget.threshold',
+            scope: status.scope,
+            scopeId: status.scopeId,
+            threshold,
+            percentUsed: status.percentUsed,
+            spent: status.spent,
+            monthlyLimit: status.monthlyLimit,
+            hardStop: status.hardStop,
+            exceeded: status.exceeded,
+            resetAt: status.resetAt.toISOString(),
+            timestamp: new Date().toISOString(),
+        }).catch((error) => {
+            logger.warn('Budget alert notification failed', {
+                scope: status.scope,
+                scopeId: status.scopeId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        });
+    }
+
+    /**
+     * Record that a threshold was alerted; false if it (or a higher one)
+     * already was this month, e.g. by another instance
+     */
+    private async markAlerted(budget: Budget, threshold: number): Promise<boolean> {
+        const period = periodStart();
+
+        if (db.isReady()) {
+            const result = await db.query(
+                `UPDATE budgets
+                 SET alerted_threshold = $3, alerted_period = $4
+                 WHERE scope = $1 AND scope_id = $2
+                   AND (alerted_period IS DISTINCT FROM $4 OR alerted_threshold < $3)`,
+                [budget.scope, budget.scopeId, threshold, period.toISOString().slice(0, 10)]
+            );
+            return (result?.rowCount ?? 0) > 0;
+        }
+
+        const key = scopeKey(budget);
+        const alerted = this.alerted.get(key);
+        if (alerted && alerted.period === period.getTime() && alerted.threshold >= threshold) {
+            return false;
+        }
+        this.alerted.set(key, { threshold, period: period.getTime() });
+        return true;
+    }
+}
+
+function scopeKey(ref: ScopeRef): string {
+    return `${ref.scope}:${ref.scopeId}`;
+}
+
+function sameScope(a: ScopeRef, b: ScopeRef): boolean {
+    return a.scope === b.scope && a.scopeId === b.scopeId;
+}
+
+function periodStart(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function periodEnd(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+export const budgetManager = new BudgetManager();
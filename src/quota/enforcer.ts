@@ -1,264 +1,531 @@
 /**
- * Quota Enforcer - Daily quota checking and enforcement
+ * Quota Enforcer - Daily token and cost quotas with atomic reservations
+ *
+ * Every LLM request is charged to its organization (the project's
+ * `organization_id`), project and user. routeRequest reserves the estimated
+ * usage against all of them before calling a model, then commits the actual
+ * tokens and cost, or releases the reservation if the request fails.
+ *
+ * A reservation is one transaction with a conditional UPDATE per scope
+ * (always in organization → project → user order), so parallel requests
+ * cannot overshoot a limit. Reservations left open, e.g. by a crash, are
+ * released after QUOTA_RESERVATION_TTL_MS.
+ *
+ * Organizations and projects are unlimited until limits are set; users
+ * default to QUOTA_USER_MAX_TOKENS_DAILY / QUOTA_USER_MAX_COST_DAILY.
+ * Usage resets daily.
  */
 
-import { Pool } from 'pg';
-import type { QuotaCheck } from '../types/tracing.js';
+import { randomUUID } from 'crypto';
+import type { PoolClient } from 'pg';
+import { db } from '../db/postgres.js';
+import { env } from '../config/env.js';
+import { logger } from '../logging/logger.js';
+import { eventBus } from '../infrastructure/events.js';
+import { DEFAULT_PROJECT_ID, getOrganizationId } from './scopes.js';
+import type { Quota, QuotaLimits, QuotaScope } from '../types/tracing.js';
 
-export class QuotaEnforcer {
-    constructor(private db: Pool) { }
+const ANONYMOUS_USER_ID = 'anonymous';
+const SWEEP_INTERVAL_MS = 60000;
+
+// Usage counters as of now: a quota past its reset time counts as empty
+const QUOTA_COLUMNS = `scope, scope_id, max_tokens_daily, max_cost_daily,
+    CASE WHEN reset_at <= NOW() THEN 0 ELSE used_tokens END AS used_tokens,
+    CASE WHEN reset_at <= NOW() THEN 0 ELSE used_cost END AS used_cost,
+    reserved_tokens, reserved_cost,
+    CASE WHEN reset_at <= NOW() THEN DATE_TRUNC('day', NOW()) + INTERVAL '1 day' ELSE reset_at END AS reset_at`;
+
+const ROLL_OVER = `used_tokens = CASE WHEN reset_at <= NOW() THEN 0 ELSE used_tokens END,
+    used_cost = CASE WHEN reset_at <= NOW() THEN 0 ELSE used_cost END,
+    reset_at = CASE WHEN reset_at <= NOW() THEN DATE_TRUNC('day', NOW()) + INTERVAL '1 day' ELSE reset_at END`;
+
+export interface QuotaSubject {
+    projectId?: string; // Default project if omitted
+    userId?: string; // 'anonymous' if omitted
+}
+
+export interface QuotaUsage {
+    tokens: number;
+    cost: number;
+}
+
+interface ScopeRef {
+    scope: QuotaScope;
+    scopeId: string;
+}
+
+type ReservationStatus = 'committed' | 'released' | 'expired';
+
+interface DBQuota {
+    scope: QuotaScope;
+    scope_id: string;
+    max_tokens_daily: string | null;
+    max_cost_daily: string | null;
+    used_tokens: string;
+    used_cost: string;
+    reserved_tokens: string;
+    reserved_cost: string;
+    reset_at: Date;
+}
+
+/**
+ * Thrown when a request's estimated usage does not fit a quota
+ */
+export class QuotaExceededError extends Error {
+    constructor(
+        readonly quota: Quota,
+        readonly limit: 'tokens' | 'cost',
+        readonly requested: QuotaUsage,
+    ) {
+        const remaining = limit === 'tokens'
+            ? `${remainingOf(quota).tokens} tokens remaining, ${requested.tokens} requested`
+            : `$${remainingOf(quota).cost?.toFixed(4)} remaining, $${requested.cost.toFixed(4)} requested`;
+        super(
+            `Daily ${limit === 'tokens' ? 'token' : 'cost'} quota of ${quota.scope} ${quota.scopeId} exceeded ` +
+            `(${remaining}); resets at ${quota.resetAt.toISOString()}`
+        );
+        this.name = 'QuotaExceededError';
+    }
 
     /**
-     * Check if user has quota available for a request
+     * Seconds until the quota resets (Retry-After)
      */
-    async checkQuota(
-        userId: string,
-        projectId: string,
-        estimatedTokens: number,
-        estimatedCost: number,
-    ): Promise<QuotaCheck> {
-        // Get or create user quota
-        const quota = await this.getUserQuota(userId, projectId);
+    get retryAfterSeconds(): number {
+        return Math.max(1, Math.ceil((this.quota.resetAt.getTime() - Date.now()) / 1000));
+    }
 
-        if (!quota) {
-            return {
-                allowed: false,
-                remaining: { tokens: 0, cost: 0 },
-                resetAt: new Date(),
-                reason: 'Quota not configured for user',
-            };
-        }
+    /**
+     * OpenAI-style error object for 429 responses and MCP errors
+     */
+    get details() {
+        return {
+            message: this.message,
+            type: 'insufficient_quota',
+            code: 'quota_exceeded',
+            param: null,
+            scope: this.quota.scope,
+            scopeId: this.quota.scopeId,
+            limit: this.limit,
+            requested: this.requested,
+            remaining: remainingOf(this.quota),
+            resetAt: this.quota.resetAt.toISOString(),
+        };
+    }
+}
 
-        // Check if quota needs reset (daily reset)
-        if (new Date() >= quota.resetAt) {
-            await this.resetQuota(userId, projectId);
-            // Refresh quota data
-            const refreshed = await this.getUserQuota(userId, projectId);
-            if (!refreshed) {
-                return {
-                    allowed: false,
-                    remaining: { tokens: 0, cost: 0 },
-                    resetAt: new Date(),
-                    reason: 'Failed to refresh quota',
-                };
-            }
-            quota.currentTokensToday = refreshed.currentTokensToday;
-            quota.currentCostToday = refreshed.currentCostToday;
-        }
+/**
+ * Usage held for one request; settle it exactly once with commit or release
+ */
+export class QuotaReservation {
+    private settled = false;
 
-        // Check token quota
-        const tokenRemaining = quota.maxTokensDaily - quota.currentTokensToday;
-        if (estimatedTokens > tokenRemaining) {
-            return {
-                allowed: false,
-                remaining: {
-                    tokens: tokenRemaining,
-                    cost: quota.maxCostDaily - quota.currentCostToday,
-                },
-                resetAt: quota.resetAt,
-                reason: `Token quota exceeded. Remaining: ${tokenRemaining}, Requested: ${estimatedTokens}`,
-            };
-        }
+    constructor(
+        readonly id: string | undefined, // undefined when quotas were not enforced
+        readonly estimate: QuotaUsage,
+        private enforcer: QuotaEnforcer,
+    ) { }
+
+    /**
+     * Replace the estimate with the request's actual usage
+     */
+    async commit(actual: QuotaUsage): Promise<void> {
+        if (this.settled || !this.id) return;
+        this.settled = true;
+        await this.enforcer.settle(this.id, 'committed', actual);
+    }
+
+    /**
+     * Return the reserved usage (the request failed)
+     */
+    async release(): Promise<void> {
+        if (this.settled || !this.id) return;
+        this.settled = true;
+        await this.enforcer.settle(this.id, 'released');
+    }
+}
 
-        // Check cost quota
-        const costRemaining = quota.maxCostDaily - quota.currentCostToday;
-        if (estimatedCost > costRemaining) {
-            return {
-                allowed: false,
-                remaining: {
-                    tokens: tokenRemaining,
-                    cost: costRemaining,
-                },
-                resetAt: quota.resetAt,
-                reason: `Cost quota exceeded. Remaining: $${costRemaining.toFixed(4)}, Requested: $${estimatedCost.toFixed(4)}`,
-            };
+export class QuotaEnforcer {
+    private memoryQuotas = new Map<string, Quota>();
+    private memoryReservations = new Map<string, { scopes: ScopeRef[]; estimate: QuotaUsage; expiresAt: number }>();
+    private lastSweep = 0;
+
+    /**
+     * Reserve a request's estimated usage against its organization, project
+     * and user quotas; throws QuotaExceededError if any of them cannot hold it.
+     * Quotas are not enforced (an empty reservation is returned) when
+     * QUOTA_ENFORCEMENT_ENABLED is off or the quota store fails.
+     */
+    async reserve(subject: QuotaSubject, estimate: QuotaUsage): Promise<QuotaReservation> {
+        if (!env.QUOTA_ENFORCEMENT_ENABLED) {
+            return new QuotaReservation(undefined, estimate, this);
         }
 
-        // Quota check passed
-        return {
-            allowed: true,
-            remaining: {
-                tokens: tokenRemaining - estimatedTokens,
-                cost: costRemaining - estimatedCost,
-            },
-            resetAt: quota.resetAt,
-        };
+        const scopes = await this.resolveScopes(subject);
+        this.sweepExpired();
+
+        try {
+            const id = db.isReady()
+                ? await this.reserveInDatabase(scopes, estimate)
+                : this.reserveInMemory(scopes, estimate);
+            return new QuotaReservation(id, estimate, this);
+        } catch (error) {
+            if (error instanceof QuotaExceededError) {
+                logger.warn('Quota exceeded', { scope: error.quota.scope, scopeId: error.quota.scopeId, limit: error.limit });
+                eventBus.emit('quota.exceeded', {
+                    userId: subject.userId || ANONYMOUS_USER_ID,
+                    projectId: subject.projectId || DEFAULT_PROJECT_ID,
+                    reason: error.message,
+                });
+                throw error;
+            }
+            logger.warn('Quota reservation failed, allowing request', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return new QuotaReservation(undefined, estimate, this);
+        }
     }
 
     /**
-     * Increment user quota usage
+     * Settle a reservation: committed usage is added to the quotas, released
+     * and expired reservations just free the reserved amount. Settling twice is a no-op.
      */
-    async incrementQuota(
-        userId: string,
-        projectId: string,
-        tokens: number,
-        cost: number,
-    ): Promise<void> {
-        await this.db.query(
-            `UPDATE user_quotas
-             SET current_tokens_today = current_tokens_today + $1,
-                 current_cost_today = current_cost_today + $2,
-                 updated_at = NOW()
-             WHERE user_id = $3 AND project_id = $4`,
-            [tokens, cost, userId, projectId],
-        );
+    async settle(id: string, status: ReservationStatus, actual?: QuotaUsage): Promise<void> {
+        try {
+            if (db.isReady()) {
+                await this.settleInDatabase(id, status, actual);
+            } else {
+                this.settleInMemory(id, actual);
+            }
+        } catch (error) {
+            // The reservation stays open and expires after QUOTA_RESERVATION_TTL_MS
+            logger.error('Failed to settle quota reservation', {
+                reservationId: id,
+                status,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
     }
 
     /**
-     * Get user quota or create default if missing
+     * Current quotas of a request's organization, project and user
      */
-    private async getUserQuota(
-        userId: string,
-        projectId: string,
-    ): Promise<{
-        maxTokensDaily: number;
-        maxCostDaily: number;
-        currentTokensToday: number;
-        currentCostToday: number;
-        resetAt: Date;
-    } | null> {
-        const result = await this.db.query(
-            `SELECT
-                max_tokens_daily,
-                max_cost_daily,
-                current_tokens_today,
-                current_cost_today,
-                reset_at
-             FROM user_quotas
-             WHERE user_id = $1 AND project_id = $2`,
-            [userId, projectId],
-        );
+    async getStatus(subject: QuotaSubject): Promise<Quota[]> {
+        const scopes = await this.resolveScopes(subject);
 
-        if (result.rows.length === 0) {
-            // Create default quota (1M tokens, $10 per day)
-            await this.createDefaultQuota(userId, projectId);
-            return this.getUserQuota(userId, projectId);
+        if (db.isReady()) {
+            const rows = await db.query<DBQuota>(
+                `SELECT ${QUOTA_COLUMNS} FROM quotas WHERE (scope, scope_id) IN (${scopes.map((_, i) => `($${i * 2 + 1}, $${i * 2 + 2})`).join(', ')})`,
+                scopes.flatMap((ref) => [ref.scope, ref.scopeId])
+            );
+            if (!rows) {
+                throw new Error('Failed to load quotas');
+            }
+            return scopes.map((ref) => {
+                const row = rows.rows.find((r) => r.scope === ref.scope && r.scope_id === ref.scopeId);
+                return row ? toQuota(row) : defaultQuota(ref);
+            });
         }
 
-        const row = result.rows[0];
-        return {
-            maxTokensDaily: row.max_tokens_daily,
-            maxCostDaily: parseFloat(row.max_cost_daily),
-            currentTokensToday: row.current_tokens_today,
-            currentCostToday: parseFloat(row.current_cost_today),
-            resetAt: row.reset_at,
-        };
+        return scopes.map((ref) => ({ ...this.memoryQuota(ref) }));
     }
 
     /**
-     * Create default quota for new user
+     * Set the daily limits of a quota (null removes a limit)
      */
-    private async createDefaultQuota(
-        userId: string,
-        projectId: string,
-    ): Promise<void> {
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        tomorrow.setHours(0, 0, 0, 0);
-
-        await this.db.query(
-            `INSERT INTO user_quotas (
-                user_id,
-                project_id,
-                max_tokens_daily,
-                max_cost_daily,
-                current_tokens_today,
-                current_cost_today,
-                reset_at
-             ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-             ON CONFLICT (user_id, project_id) DO NOTHING`,
-            [
-                userId,
-                projectId,
-                1_000_000, // 1M tokens
-                10.0, // $10
-                0,
-                0,
-                tomorrow,
-            ],
-        );
+    async setLimits(scope: QuotaScope, scopeId: string, limits: QuotaLimits): Promise<Quota> {
+        if (db.isReady()) {
+            const result = await db.query<DBQuota>(
+                `INSERT INTO quotas (scope, scope_id, max_tokens_daily, max_cost_daily)
+                 VALUES ($1, $2, $3, $4)
+                 ON CONFLICT (scope, scope_id) DO UPDATE
+                 SET max_tokens_daily = EXCLUDED.max_tokens_daily,
+                     max_cost_daily = EXCLUDED.max_cost_daily,
+                     updated_at = NOW()
+                 RETURNING ${QUOTA_COLUMNS}`,
+                [scope, scopeId, limits.maxTokensDaily, limits.maxCostDaily]
+            );
+            if (!result) {
+                throw new Error('Failed to update quota');
+            }
+            return toQuota(result.rows[0]);
+        }
+
+        const quota = this.memoryQuota({ scope, scopeId });
+        quota.maxTokensDaily = limits.maxTokensDaily;
+        quota.maxCostDaily = limits.maxCostDaily;
+        return { ...quota };
     }
 
     /**
-     * Reset quota to 0 and set next reset time
+     * Release reservations that were never settled; runs at most once a minute
      */
-    private async resetQuota(
-        userId: string,
-        projectId: string,
-    ): Promise<void> {
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        tomorrow.setHours(0, 0, 0, 0);
-
-        await this.db.query(
-            `UPDATE user_quotas
-             SET current_tokens_today = 0,
-                 current_cost_today = 0,
-                 reset_at = $1,
-                 updated_at = NOW()
-             WHERE user_id = $2 AND project_id = $3`,
-            [tomorrow, userId, projectId],
-        );
+    sweepExpired(): void {
+        if (Date.now() - this.lastSweep < SWEEP_INTERVAL_MS) {
+            return;
+        }
+        this.lastSweep = Date.now();
+
+        if (!db.isReady()) {
+            for (const [id, reservation] of this.memoryReservations) {
+                if (reservation.expiresAt <= Date.now()) {
+                    this.settleInMemory(id);
+                }
+            }
+            return;
+        }
+
+        void (async () => {
+            const expired = await db.query<{ id: string }>(
+                `SELECT id FROM quota_reservations WHERE status = 'reserved' AND expires_at <= NOW() LIMIT 100`
+            );
+            for (const { id } of expired?.rows ?? []) {
+                await this.settle(id, 'expired');
+            }
+            if (expired?.rows.length) {
+                logger.warn('Released expired quota reservations', { count: expired.rows.length });
+            }
+        })();
+    }
+
+    private async resolveScopes(subject: QuotaSubject): Promise<ScopeRef[]> {
+        const projectId = subject.projectId || DEFAULT_PROJECT_ID;
+        const organizationId = await getOrganizationId(projectId);
+        return [
+            ...(organizationId ? [{ scope: 'organization' as const, scopeId: organizationId }] : []),
+            { scope: 'project', scopeId: projectId },
+            { scope: 'user', scopeId: subject.userId || ANONYMOUS_USER_ID },
+        ];
+    }
+
+    private async reserveInDatabase(scopes: ScopeRef[], estimate: QuotaUsage): Promise<string> {
+        const client = await db.getClient();
+        try {
+            await client.query('BEGIN');
+            await this.ensureQuotas(client, scopes);
+
+            for (const ref of scopes) {
+                // Row lock + re-checked condition: concurrent reservations queue here
+                const reserved = await client.query(
+                    `UPDATE quotas
+                     SET ${ROLL_OVER},
+                         reserved_tokens = reserved_tokens + $3,
+                         reserved_cost = reserved_cost + $4,
+                         updated_at = NOW()
+                     WHERE scope = $1 AND scope_id = $2
+                       AND (max_tokens_daily IS NULL OR
+                            (CASE WHEN reset_at <= NOW() THEN 0 ELSE used_tokens END) + reserved_tokens + $3 <= max_tokens_daily)
+                       AND (max_cost_daily IS NULL OR
+                            (CASE WHEN reset_at <= NOW() THEN 0 ELSE used_cost END) + reserved_cost + $4 <= max_cost_daily)`,
+                    [ref.scope, ref.scopeId, estimate.tokens, estimate.cost]
+                );
+                if (reserved.rowCount === 0) {
+                    const current = await client.query<DBQuota>(
+                        `SELECT ${QUOTA_COLUMNS} FROM quotas WHERE scope = $1 AND scope_id = $2`,
+                        [ref.scope, ref.scopeId]
+                    );
+                    await client.query('ROLLBACK');
+                    const quota = toQuota(current.rows[0]);
+                    throw new QuotaExceededError(quota, exceededLimit(quota, estimate) ?? 'tokens', estimate);
+                }
+            }
+
+            const result = await client.query<{ id: string }>(
+                `INSERT INTO quota_reservations (scopes, estimated_tokens, estimated_cost, expires_at)
+                 VALUES ($1, $2, $3, NOW() + $4 * INTERVAL '1 millisecond')
+                 RETURNING id`,
+                [JSON.stringify(scopes), estimate.tokens, estimate.cost, env.QUOTA_RESERVATION_TTL_MS]
+            );
+            await client.query('COMMIT');
+            return result.rows[0].id;
+        } catch (error) {
+            if (!(error instanceof QuotaExceededError)) {
+                await client.query('ROLLBACK').catch(() => undefined);
+            }
+            throw error;
+        } finally {
+            client.release();
+        }
     }
 
     /**
-     * Update quota limits for a user
+     * Create missing quota rows; users get the default limits
      */
-    async updateQuotaLimits(
-        userId: string,
-        projectId: string,
-        maxTokensDaily: number,
-        maxCostDaily: number,
-    ): Promise<void> {
-        await this.db.query(
-            `UPDATE user_quotas
-             SET max_tokens_daily = $1,
-                 max_cost_daily = $2,
-                 updated_at = NOW()
-             WHERE user_id = $3 AND project_id = $4`,
-            [maxTokensDaily, maxCostDaily, userId, projectId],
+    private async ensureQuotas(client: PoolClient, scopes: ScopeRef[]): Promise<void> {
+        const params: unknown[] = [];
+        const values = scopes.map((ref) => {
+            const limits = defaultLimits(ref.scope);
+            params.push(ref.scope, ref.scopeId, limits.maxTokensDaily, limits.maxCostDaily);
+            const n = params.length;
+            return `($${n - 3}, $${n - 2}, $${n - 1}, $${n})`;
+        });
+        await client.query(
+            `INSERT INTO quotas (scope, scope_id, max_tokens_daily, max_cost_daily)
+             VALUES ${values.join(', ')}
+             ON CONFLICT (scope, scope_id) DO NOTHING`,
+            params
         );
     }
 
+    private async settleInDatabase(id: string, status: ReservationStatus, actual?: QuotaUsage): Promise<void> {
+        const client = await db.getClient();
+        try {
+            await client.query('BEGIN');
+            const settled = await client.query<{ scopes: ScopeRef[]; estimated_tokens: string; estimated_cost: string }>(
+                `UPDATE quota_reservations
+                 SET status = $2, actual_tokens = $3, actual_cost = $4, settled_at = NOW()
+                 WHERE id = $1 AND status = 'reserved'
+                 RETURNING scopes, estimated_tokens, estimated_cost`,
+                [id, status, actual?.tokens ?? null, actual?.cost ?? null]
+            );
+
+            const reservation = settled.rows[0];
+            for (const ref of reservation?.scopes ?? []) {
+                await client.query(
+                    `UPDATE quotas
+                     SET used_tokens = (CASE WHEN reset_at <= NOW() THEN 0 ELSE used_tokens END) + $5,
+                         used_cost = (CASE WHEN reset_at <= NOW() THEN 0 ELSE used_cost END) + $6,
+                         reset_at = CASE WHEN reset_at <= NOW() THEN DATE_TRUNC('day', NOW()) + INTERVAL '1 day' ELSE reset_at END,
+                         reserved_tokens = GREATEST(reserved_tokens - $3, 0),
+                         reserved_cost = GREATEST(reserved_cost - $4, 0),
+                         updated_at = NOW()
+                     WHERE scope = $1 AND scope_id = $2`,
+                    [
+                        ref.scope,
+                        ref.scopeId,
+                        reservation.estimated_tokens,
+                        reservation.estimated_cost,
+                        actual?.tokens ?? 0,
+                        actual?.cost ?? 0,
+                    ]
+                );
+            }
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    private reserveInMemory(scopes: ScopeRef[], estimate: QuotaUsage): string {
+        const quotas = scopes.map((ref) => this.memoryQuota(ref));
+        for (const quota of quotas) {
+            const limit = exceededLimit(quota, estimate);
+            if (limit) {
+                throw new QuotaExceededError({ ...quota }, limit, estimate);
+            }
+        }
+
+        for (const quota of quotas) {
+            quota.reservedTokens += estimate.tokens;
+            quota.reservedCost += estimate.cost;
+        }
+        const id = randomUUID();
+        this.memoryReservations.set(id, {
+            scopes,
+            estimate,
+            expiresAt: Date.now() + env.QUOTA_RESERVATION_TTL_MS,
+        });
+        return id;
+    }
+
+    private settleInMemory(id: string, actual?: QuotaUsage): void {
+        const reservation = this.memoryReservations.get(id);
+        if (!reservation) {
+            return;
+        }
+        this.memoryReservations.delete(id);
+
+        for (const ref of reservation.scopes) {
+            const quota = this.memoryQuota(ref);
+            quota.reservedTokens = Math.max(quota.reservedTokens - reservation.estimate.tokens, 0);
+            quota.reservedCost = Math.max(quota.reservedCost - reservation.estimate.cost, 0);
+            quota.usedTokens += actual?.tokens ?? 0;
+            quota.usedCost += actual?.cost ?? 0;
+        }
+    }
+
     /**
-     * Get quota status for a user
+     * In-memory quota (no database), rolled over after its reset time
      */
-    async getQuotaStatus(
-        userId: string,
-        projectId: string,
-    ): Promise<{
-        maxTokensDaily: number;
-        maxCostDaily: number;
-        currentTokensToday: number;
-        currentCostToday: number;
-        remainingTokens: number;
-        remainingCost: number;
-        usagePercentage: {
-            tokens: number;
-            cost: number;
-        };
-        resetAt: Date;
-    } | null> {
-        const quota = await this.getUserQuota(userId, projectId);
+    private memoryQuota(ref: ScopeRef): Quota {
+        const key = `${ref.scope}:${ref.scopeId}`;
+        let quota = this.memoryQuotas.get(key);
         if (!quota) {
-            return null;
+            quota = defaultQuota(ref);
+            this.memoryQuotas.set(key, quota);
         }
+        if (quota.resetAt.getTime() <= Date.now()) {
+            quota.usedTokens = 0;
+            quota.usedCost = 0;
+            quota.resetAt = nextReset();
+        }
+        return quota;
+    }
+}
 
-        const remainingTokens = quota.maxTokensDaily - quota.currentTokensToday;
-        const remainingCost = quota.maxCostDaily - quota.currentCostToday;
-
-        return {
-            maxTokensDaily: quota.maxTokensDaily,
-            maxCostDaily: quota.maxCostDaily,
-            currentTokensToday: quota.currentTokensToday,
-            currentCostToday: quota.currentCostToday,
-            remainingTokens,
-            remainingCost,
-            usagePercentage: {
-                tokens: (quota.currentTokensToday / quota.maxTokensDaily) * 100,
-                cost: (quota.currentCostToday / quota.maxCostDaily) * 100,
-            },
-            resetAt: quota.resetAt,
-        };
+/**
+ * The limit `estimate` would exceed, if any
+ */
+function exceededLimit(quota: Quota, estimate: QuotaUsage): 'tokens' | 'cost' | undefined {
+    if (quota.maxTokensDaily !== null && quota.usedTokens + quota.reservedTokens + estimate.tokens > quota.maxTokensDaily) {
+        return 'tokens';
     }
+    if (quota.maxCostDaily !== null && quota.usedCost + quota.reservedCost + estimate.cost > quota.maxCostDaily) {
+        return 'cost';
+    }
+    return undefined;
+}
+
+function remainingOf(quota: Quota): { tokens: number | null; cost: number | null } {
+    return {
+        tokens: quota.maxTokensDaily === null
+            ? null
+            : Math.max(quota.maxTokensDaily - quota.usedTokens - quota.reservedTokens, 0),
+        cost: quota.maxCostDaily === null
+            ? null
+            : Math.max(quota.maxCostDaily - quota.usedCost - quota.reservedCost, 0),
+    };
+}
+
+function defaultLimits(scope: QuotaScope): QuotaLimits {
+    return scope === 'user'
+        ? { maxTokensDaily: env.QUOTA_USER_MAX_TOKENS_DAILY, maxCostDaily: env.QUOTA_USER_MAX_COST_DAILY }
+        : { maxTokensDaily: null, maxCostDaily: null };
 }
+
+function defaultQuota(ref: ScopeRef): Quota {
+    return {
+        ...ref,
+        ...defaultLimits(ref.scope),
+        usedTokens: 0,
+        usedCost: 0,
+        reservedTokens: 0,
+        reservedCost: 0,
+        resetAt: nextReset(),
+    };
+}
+
+function nextReset(): Date {
+    const tomorrow = new Date();
+    tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+    tomorrow.setUTCHours(0, 0, 0, 0);
+    return tomorrow;
+}
+
+function toQuota(row: DBQuota): Quota {
+    return {
+        scope: row.scope,
+        scopeId: row.scope_id,
+        maxTokensDaily: row.max_tokens_daily === null ? null : Number(row.max_tokens_daily),
+        maxCostDaily: row.max_cost_daily === null ? null : Number(row.max_cost_daily),
+        usedTokens: Number(row.used_tokens),
+        usedCost: Number(row.used_cost),
+        reservedTokens: Number(row.reserved_tokens),
+        reservedCost: Number(row.reserved_cost),
+        resetAt: new Date(row.reset_at),
+    };
+}
+
+export const quotaEnforcer = new QuotaEnforcer();
@@ -0,0 +1,37 @@
+/**
+ * Quota Scopes - The project and organization a request is charged to
+ */
+
+import { db } from '../db/postgres.js';
+
+export const DEFAULT_PROJECT_ID = 'default-project';
+
+const ORGANIZATION_TTL_MS = 60000;
+
+const organizations = new Map<string, { organizationId: string | null; loadedAt: number }>();
+
+/**
+ * The project's organization (`projects.organization_id`), cached for a minute;
+ * null without a database
+ */
+export async function getOrganizationId(projectId: string): Promise<string | null> {
+    const cached = organizations.get(projectId);
+    if (cached && Date.now() - cached.loadedAt < ORGANIZATION_TTL_MS) {
+        return cached.organizationId;
+    }
+    if (!db.isReady()) {
+        return null;
+    }
+
+    const result = await db.query<{ organization_id: string | null }>(
+        'SELECT organization_id FROM projects WHERE id = $1',
+        [projectId]
+    );
+    if (!result) {
+        return cached?.organizationId ?? null;
+    }
+
+    const organizationId = result.rows[0]?.organization_id ?? null;
+    organizations.set(projectId, { organizationId, loadedAt: Date.now() });
+    return organizationId;
+}
@@ -1,11 +1,12 @@
 /**
  * Phase 3: Policy-Based Routing
- * Advanced routing with risk levels, budget controls, and simulation
+ * Advanced routing with risk levels, budget controls and approvals
  */
 
-import type { ModelLayer } from '../../config/models.js';
-import type { TaskType } from '../../mcp/types.js';
-import { logger } from '../../logging/logger.js';
+import { z } from 'zod';
+import type { ModelLayer } from '../config/models.js';
+import type { TaskType } from '../mcp/types.js';
+import { logger } from '../logging/logger.js';
 
 export interface RoutingPolicy {
     id: string;
@@ -41,6 +42,87 @@ export interface RuleAction {
 
 export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
 
+/**
+ * Request attributes that policy conditions are evaluated against
+ */
+export interface PolicyMatchContext {
+    taskType?: TaskType;
+    complexity?: 'low' | 'medium' | 'high';
+    filePath?: string;
+    estimatedCost?: number;
+    userRole?: string;
+}
+
+export const LayerSchema = z.enum(['L0', 'L1', 'L2', 'L3']);
+export const TaskTypeSchema = z.enum(['code', 'debug', 'refactor', 'test', 'general', 'reasoning']);
+
+/**
+ * Validation schema for policies created or edited through the admin API
+ */
+export const RoutingPolicySchema = z.object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'id must be lowercase letters, digits and dashes'),
+    name: z.string().min(1),
+    description: z.string().default(''),
+    priority: z.number().int(),
+    enabled: z.boolean().default(true),
+    rules: z.array(z.object({
+        condition: z.object({
+            taskType: z.union([TaskTypeSchema, z.array(TaskTypeSchema)]).optional(),
+            complexity: z.enum(['low', 'medium', 'high']).optional(),
+            filePattern: z.string().refine((pattern) => {
+                try {
+                    new RegExp(pattern);
+                    return true;
+                } catch {
+                    return false;
+                }
+            }, 'filePattern must be a valid regular expression').optional(),
+            costThreshold: z.number().nonnegative().optional(),
+            timeOfDay: z.object({
+                start: z.number().int().min(0).max(23),
+                end: z.number().int().min(0).max(23),
+            }).optional(),
+            userRole: z.array(z.string()).optional(),
+        }),
+        action: z.object({
+            type: z.enum(['allow', 'deny', 'escalate', 'downgrade', 'route-to']),
+            targetLayer: LayerSchema.optional(),
+            maxCost: z.number().nonnegative().optional(),
+            requireApproval: z.boolean().optional(),
+            alertUsers: z.array(z.string()).optional(),
+        }),
+        risk: z.enum(['low', 'medium', 'high', 'critical']),
+    })).min(1),
+});
+
+/**
+ * Thrown by live routing when the matched policy denies the request
+ */
+export class PolicyDeniedError extends Error {
+    constructor(
+        readonly policy: RoutingPolicy,
+        readonly risk: RiskLevel,
+    ) {
+        super(`Request denied by routing policy "${policy.name}"`);
+        this.name = 'PolicyDeniedError';
+    }
+}
+
+/**
+ * Thrown by live routing when the matched policy requires approval;
+ * the request has been parked in the approval queue under `approvalId`
+ */
+export class PolicyApprovalRequiredError extends Error {
+    constructor(
+        readonly policy: RoutingPolicy,
+        readonly risk: RiskLevel,
+        readonly approvalId: string,
+    ) {
+        super(`Request requires approval under routing policy "${policy.name}"`);
+        this.name = 'PolicyApprovalRequiredError';
+    }
+}
+
 /**
  * Predefined routing policies
  */
@@ -152,13 +234,7 @@ export class PolicyMatcher {
     /**
      * Match policies against request context
      */
-    match(context: {
-        taskType?: TaskType;
-        complexity?: 'low' | 'medium' | 'high';
-        filePath?: string;
-        estimatedCost?: number;
-        userRole?: string;
-    }): {
+    match(context: PolicyMatchContext): {
         matchedPolicies: RoutingPolicy[];
         action: RuleAction | null;
         risk: RiskLevel;
@@ -197,22 +273,17 @@ export class PolicyMatcher {
     }
 
     /**
-     * Check if rule condition matches context
+     * Check if rule condition matches context.
+     * A condition on an attribute the context does not carry never matches.
      */
     private matchesCondition(
         condition: RuleCondition,
-        context: {
-            taskType?: TaskType;
-            complexity?: 'low' | 'medium' | 'high';
-            filePath?: string;
-            estimatedCost?: number;
-            userRole?: string;
-        },
+        context: PolicyMatchContext,
     ): boolean {
         // Task type match
         if (condition.taskType) {
             const taskTypes = Array.isArray(condition.taskType) ? condition.taskType : [condition.taskType];
-            if (context.taskType && !taskTypes.includes(context.taskType)) {
+            if (!context.taskType || !taskTypes.includes(context.taskType)) {
                 return false;
             }
         }
@@ -223,16 +294,15 @@ export class PolicyMatcher {
         }
 
         // File pattern match
-        if (condition.filePattern && context.filePath) {
-            const regex = new RegExp(condition.filePattern);
-            if (!regex.test(context.filePath)) {
+        if (condition.filePattern) {
+            if (!context.filePath || !this.testPattern(condition.filePattern, context.filePath)) {
                 return false;
             }
         }
 
         // Cost threshold match
-        if (condition.costThreshold !== undefined && context.estimatedCost !== undefined) {
-            if (context.estimatedCost < condition.costThreshold) {
+        if (condition.costThreshold !== undefined) {
+            if (context.estimatedCost === undefined || context.estimatedCost < condition.costThreshold) {
                 return false;
             }
         }
@@ -253,8 +323,8 @@ export class PolicyMatcher {
         }
 
         // User role match
-        if (condition.userRole && context.userRole) {
-            if (!condition.userRole.includes(context.userRole)) {
+        if (condition.userRole) {
+            if (!context.userRole || !condition.userRole.includes(context.userRole)) {
                 return false;
             }
         }
@@ -262,6 +332,18 @@ export class PolicyMatcher {
         return true;
     }
 
+    /**
+     * Test a file pattern; an invalid stored pattern never matches
+     */
+    private testPattern(pattern: string, filePath: string): boolean {
+        try {
+            return new RegExp(pattern).test(filePath);
+        } catch {
+            logger.warn('Invalid policy file pattern', { pattern });
+            return false;
+        }
+    }
+
     /**
      * Get maximum risk level
      */
@@ -302,87 +384,3 @@ export class PolicyMatcher {
         }
     }
 }
-
-/**
- * Route Simulator - Test routing decisions without execution
- */
-export class RouteSimulator {
-    constructor(private policyMatcher: PolicyMatcher) { }
-
-    /**
-     * Simulate routing decision
-     */
-    simulate(context: {
-        taskType?: TaskType;
-        complexity?: 'low' | 'medium' | 'high';
-        filePath?: string;
-        estimatedCost?: number;
-        userRole?: string;
-    }): {
-        selectedLayer: ModelLayer;
-        matchedPolicies: string[];
-        risk: RiskLevel;
-        estimatedCost: number;
-        reasoning: string;
-    } {
-        const result = this.policyMatcher.match(context);
-
-        let selectedLayer: ModelLayer = 'L0'; // Default
-        let reasoning = 'Default routing to L0';
-
-        if (result.action) {
-            if (result.action.type === 'route-to' && result.action.targetLayer) {
-                selectedLayer = result.action.targetLayer;
-                reasoning = `Policy-based routing to ${selectedLayer}`;
-            } else if (result.action.type === 'escalate') {
-                selectedLayer = 'L2';
-                reasoning = 'Escalated to L2 due to policy';
-            } else if (result.action.type === 'downgrade') {
-                selectedLayer = result.action.targetLayer || 'L0';
-                reasoning = `Downgraded to ${selectedLayer} due to policy`;
-            }
-        }
-
-        const estimatedCost = this.estimateCost(selectedLayer);
-
-        return {
-            selectedLayer,
-            matchedPolicies: result.matchedPolicies.map((p) => p.name),
-            risk: result.risk,
-            estimatedCost,
-            reasoning,
-        };
-    }
-
-    /**
-     * Estimate cost for layer (simplified)
-     */
-    private estimateCost(layer: ModelLayer): number {
-        const costMap: Record<ModelLayer, number> = {
-            L0: 0.0,
-            L1: 0.01,
-            L2: 0.05,
-            L3: 0.20,
-        };
-
-        return costMap[layer] || 0.0;
-    }
-
-    /**
-     * Batch simulation for multiple scenarios
-     */
-    batchSimulate(
-        scenarios: Array<{
-            name: string;
-            context: Parameters<RouteSimulator['simulate']>[0];
-        }>,
-    ): Array<{
-        scenario: string;
-        result: ReturnType<RouteSimulator['simulate']>;
-    }> {
-        return scenarios.map((scenario) => ({
-            scenario: scenario.name,
-            result: this.simulate(scenario.context),
-        }));
-    }
-}
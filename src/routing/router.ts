@@ -30,12 +30,23 @@ import {
     ModelConfig,
 } from '../config/models.js';
 import { modelConfigService } from '../db/model-config.js';
+import { routingApprovalQueue, routingPolicyService } from '../db/routing-policies.js';
 import { env } from '../config/env.js';
 import { logger } from '../logging/logger.js';
-import { callLLM } from '../tools/llm/index.js';
+import { callLLM, callLLMStream } from '../tools/llm/index.js';
+import { estimateTokens, getPromptText, hasImages } from '../tools/llm/client.js';
+import { getSemanticCacheScope, semanticCache } from '../cache/semantic.js';
+import { estimateCost } from './cost.js';
+import { contentPolicy, type ContentPolicySession } from '../security/content-policy.js';
+import { recordRoutingDecision, recordTraceProject } from '../tracing/integration.js';
+import { quotaEnforcer, type QuotaUsage } from '../quota/enforcer.js';
+import { BudgetExceededError, budgetManager } from '../quota/budgets.js';
+import { DEFAULT_PROJECT_ID } from '../quota/scopes.js';
+import { PolicyApprovalRequiredError, PolicyDeniedError, type RuleAction } from './policy.js';
 import {
     LLMRequest,
     LLMResponse,
+    LLMStreamHandler,
     RoutingContext,
     CrossCheckResult,
     TaskComplexity,
@@ -163,80 +174,208 @@ export function selectInitialLayer(context: RoutingContext): ModelLayer {
 }
 
 /**
- * Pick the best model from a specific layer based on task type and priority.
+ * Hard capability requirements derived from the request payload.
+ * Unlike task-type preferences, a model that misses one of these cannot serve the request.
+ */
+export interface ModelRequirements {
+    tools?: boolean; // Request carries tool definitions
+    vision?: boolean; // Request carries image inputs
+    contextTokens?: number; // Estimated prompt tokens plus the requested output tokens
+}
+
+/**
+ * A candidate model passed over during selection
+ */
+export interface SkippedModel {
+    modelId: string;
+    layer: ModelLayer;
+    reason: string;
+}
+
+/**
+ * Selected model plus the candidates skipped on the way
+ */
+export interface ModelSelection {
+    model?: ModelConfig;
+    skipped: SkippedModel[];
+}
+
+/**
+ * Derive the hard model requirements of a request
+ */
+export function getModelRequirements(request: LLMRequest): ModelRequirements {
+    return {
+        tools: (request.tools?.length ?? 0) > 0,
+        vision: hasImages(request),
+        contextTokens: estimateTokens(getPromptText(request)) + (request.maxTokens ?? 0),
+    };
+}
+
+/**
+ * Check whether a request carries tools or images, which cross-check prompts cannot pass on
+ */
+function hasRequirements(requirements: ModelRequirements): boolean {
+    return Boolean(requirements.tools || requirements.vision);
+}
+
+/**
+ * Capability a task type needs from a model
+ */
+export function getTaskCapability(taskType: string): 'code' | 'reasoning' | 'general' {
+    switch (taskType) {
+        case 'code':
+        case 'debug':
+        case 'refactor':
+        case 'test':
+            return 'code';
+        case 'reasoning':
+            return 'reasoning';
+        default:
+            return 'general';
+    }
+}
+
+/**
+ * Why a model cannot serve the request's hard requirements, or undefined if it can
+ */
+function getRequirementGap(model: ModelConfig, requirements: ModelRequirements): string | undefined {
+    if (requirements.tools && !model.capabilities.tools) {
+        return 'no tool support';
+    }
+    if (requirements.vision && !model.capabilities.vision) {
+        return 'no vision support';
+    }
+    if (requirements.contextTokens && model.contextWindow && requirements.contextTokens > model.contextWindow) {
+        return `context window ${model.contextWindow} < ${requirements.contextTokens} tokens needed`;
+    }
+    return undefined;
+}
+
+/**
+ * Check whether a model satisfies the request's hard requirements
+ */
+export function meetsRequirements(model: ModelConfig, requirements: ModelRequirements): boolean {
+    return !getRequirementGap(model, requirements);
+}
+
+/**
+ * Why a model is not a fit for the task and request, or undefined if it is
+ */
+function getSkipReason(model: ModelConfig, taskType: string, requirements: ModelRequirements): string | undefined {
+    const capability = getTaskCapability(taskType);
+    return getRequirementGap(model, requirements) ??
+        (model.capabilities[capability] ? undefined : `no ${capability} capability`);
+}
+
+/**
+ * Describe skipped models for routing summaries, e.g. "; skipped: a (no code capability)"
+ */
+function formatSkipped(skipped: SkippedModel[]): string {
+    if (skipped.length === 0) return '';
+    return `; skipped: ${skipped.map((s) => `${s.modelId} (${s.reason})`).join(', ')}`;
+}
+
+/**
+ * Error for a request no model can serve, listing why each candidate was skipped
+ */
+function noModelError(message: string, skipped: SkippedModel[]): Error {
+    return new Error(`${message}${formatSkipped(skipped)}`);
+}
+
+/**
+ * Select the best model for a task, starting at a layer.
  * Models are fetched from database, already sorted by priority ASC (0 = highest).
  * 
  * **Selection algorithm:**
- * 1. Get all enabled models from the layer (sorted by priority)
- * 2. Filter by task capability (code, reasoning, general)
- * 3. Select first capable model (highest priority)
- * 4. Fallback to L0 if layer has no models
+ * 1. If the layer has no enabled models, start from L0 instead (free tier fallback)
+ * 2. Take the first model (highest priority) that has the capability the task type
+ *    needs (code, reasoning, general), meets the hard requirements (tools, vision)
+ *    and whose context window fits the prompt plus `maxTokens`
+ * 3. If no model in the layer fits, move up a layer, up to `maxLayer`
+ * 4. If no layer has a capable model, take the first model meeting the hard
+ *    requirements; task capability is a preference, a context overflow is not
  * 
- * @param layer - The model layer to pick from (L0, L1, L2, L3)
- * @param taskType - The type of task ('code', 'reasoning', 'general')
- * @returns Promise resolving to the selected ModelConfig, or undefined if none available
+ * Every model passed over is returned in `skipped` with the reason.
+ * 
+ * @param layer - The model layer to start from (L0, L1, L2, L3)
+ * @param taskType - The type of task ('code', 'reasoning', 'general', ...)
+ * @param requirements - Hard requirements from the request
+ * @param maxLayer - Highest layer to escalate to
+ * @returns Promise resolving to the selection; `model` is undefined if nothing fits
  */
-async function pickModelFromLayer(
+export async function selectModelFromLayer(
     layer: ModelLayer,
     taskType: string,
-): Promise<ModelConfig | undefined> {
-    // Models are already sorted by priority (0 = highest priority) from DB
-    const models = await modelConfigService.getModelsByLayer(layer);
-
-    if (models.length === 0) {
-        logger.warn(`No models found for layer ${layer}`);
+    requirements: ModelRequirements = {},
+    maxLayer: ModelLayer = 'L3',
+): Promise<ModelSelection> {
+    const skipped: SkippedModel[] = [];
+    const candidates: ModelConfig[] = [];
+    const maxLayerIndex = LAYERS_IN_ORDER.indexOf(maxLayer);
 
+    // Models are already sorted by priority (0 = highest priority) from DB
+    let current: ModelLayer | undefined = layer;
+    if ((await modelConfigService.getModelsByLayer(layer)).length === 0 && layer !== 'L0') {
         // If layer is disabled or has no models, fallback to L0 (free tier)
-        if (layer !== 'L0') {
-            logger.info(`Falling back to L0 (free tier) as ${layer} is unavailable`);
-            const l0Models = await modelConfigService.getModelsByLayer('L0');
-
-            if (l0Models.length === 0) {
-                logger.error('No L0 models available, cannot proceed');
-                return undefined;
-            }
+        logger.info(`Falling back to L0 (free tier) as ${layer} is unavailable`);
+        current = 'L0';
+    }
 
-            // Filter by capability from L0 models
-            const capableL0Models = l0Models.filter((m) => {
-                if (taskType === 'code') return m.capabilities.code;
-                if (taskType === 'reasoning') return m.capabilities.reasoning;
-                return m.capabilities.general;
-            });
+    while (current && LAYERS_IN_ORDER.indexOf(current) <= maxLayerIndex) {
+        const models = await modelConfigService.getModelsByLayer(current);
+        if (models.length === 0) {
+            logger.warn(`No models found for layer ${current}`);
+        }
 
-            if (capableL0Models.length === 0) {
-                // Return first model (highest priority) as fallback
-                return l0Models[0];
+        for (const model of models) {
+            const reason = getSkipReason(model, taskType, requirements);
+            if (!reason) {
+                logger.info(`Selected model by priority`, {
+                    layer: current,
+                    taskType,
+                    selectedModel: model.id,
+                    priority: model.priority,
+                    skipped: skipped.length,
+                });
+                return { model, skipped };
             }
-
-            // Return first capable model (already sorted by priority)
-            return capableL0Models[0];
+            skipped.push({ modelId: model.id, layer: current, reason });
+            candidates.push(model);
         }
 
-        return undefined;
+        const nextLayer = getNextLayer(current);
+        if (nextLayer && LAYERS_IN_ORDER.indexOf(nextLayer) <= maxLayerIndex) {
+            logger.info(`Escalating to ${nextLayer}: no model in ${current} fits the request`, {
+                taskType,
+                requirements,
+            });
+        }
+        current = nextLayer;
     }
 
-    // Filter by capability
-    const capableModels = models.filter((m) => {
-        if (taskType === 'code') return m.capabilities.code;
-        if (taskType === 'reasoning') return m.capabilities.reasoning;
-        return m.capabilities.general;
-    });
-
-    if (capableModels.length === 0) {
-        logger.warn(`No capable models found for ${taskType} in layer ${layer}`);
-        // Return first model (highest priority) as fallback
-        return models[0];
+    // No model has the task capability; fall back to the first one the request fits
+    const fallback = candidates.find((m) => meetsRequirements(m, requirements));
+    if (fallback) {
+        logger.warn(`No capable models found for ${taskType}, using ${fallback.id}`);
+        return { model: fallback, skipped: skipped.filter((s) => s.modelId !== fallback.id) };
     }
 
-    // Return first capable model (already sorted by priority, 0 = highest)
-    logger.info(`Selected model by priority`, {
-        layer,
-        taskType,
-        selectedModel: capableModels[0].id,
-        priority: capableModels[0].priority,
-        totalCapable: capableModels.length,
-    });
-    return capableModels[0];
+    logger.error('No model fits the request', { layer, maxLayer, taskType, requirements });
+    return { model: undefined, skipped };
+}
+
+/**
+ * Pick the best model for a task starting at a layer (see `selectModelFromLayer`)
+ *
+ * @returns Promise resolving to the selected ModelConfig, or undefined if none fits
+ */
+export async function pickModelFromLayer(
+    layer: ModelLayer,
+    taskType: string,
+    requirements: ModelRequirements = {},
+    maxLayer: ModelLayer = 'L3',
+): Promise<ModelConfig | undefined> {
+    return (await selectModelFromLayer(layer, taskType, requirements, maxLayer)).model;
 }
 
 /**
@@ -253,21 +392,24 @@ async function pickModelFromLayer(
  * @param request - The LLM request to cross-check
  * @param layer - The model layer for cross-checking
  * @param taskType - The type of task for model selection
+ * @param requirements - Requirements every cross-check model must fit
  * @returns Promise resolving to CrossCheckResult with consensus and conflicts
  */
 async function crossCheck(
     request: LLMRequest,
     layer: ModelLayer,
     taskType: string,
+    requirements: ModelRequirements,
 ): Promise<CrossCheckResult> {
-    // Get models from DB, already sorted by priority
-    const models = await modelConfigService.getModelsByLayer(layer);
+    // Get models from DB, already sorted by priority; only models that fit the task take part
+    const models = (await modelConfigService.getModelsByLayer(layer))
+        .filter((m) => !getSkipReason(m, taskType, requirements));
 
     if (models.length < 2) {
         // Not enough models for cross-check, use single model
-        const model = await pickModelFromLayer(layer, taskType);
+        const { model, skipped } = await selectModelFromLayer(layer, taskType, requirements);
         if (!model) {
-            throw new Error(`No model available for layer ${layer}`);
+            throw noModelError(`No model available for layer ${layer}`, skipped);
         }
 
         const response = await callLLM(request, model);
@@ -275,7 +417,7 @@ async function crossCheck(
             primary: { ...response, routingSummary: '' },
             consensus: response.content,
             conflicts: [],
-            routingSummary: `Single model: ${model.id} (${layer})`,
+            routingSummary: `Single model: ${model.id} (${model.layer})${formatSkipped(skipped)}`,
         };
     }
 
@@ -293,15 +435,17 @@ async function crossCheck(
     const primaryResponse = await callLLM(request, primaryModel);
 
     // Call review model with modified prompt
+    // Review and arbitration are single-turn prompts, so the original conversation is dropped
     const reviewRequest: LLMRequest = {
         ...request,
+        messages: undefined,
         prompt: `Review the following solution and identify any issues, bugs, or improvements:
 
 SOLUTION TO REVIEW:
 ${primaryResponse.content}
 
 ORIGINAL TASK:
-${request.prompt}
+${getPromptText(request)}
 
 Please provide:
 1. Overall assessment (good/acceptable/needs-improvement)
@@ -340,6 +484,7 @@ Please provide:
         const arbitratorModel = models[2];
         const arbitratorRequest: LLMRequest = {
             ...request,
+            messages: undefined,
             prompt: `You are an arbitrator. Review these two solutions and decide which is better, or provide an improved solution.
 
 SOLUTION A:
@@ -349,7 +494,7 @@ REVIEW OF SOLUTION A:
 ${reviewResponse.content}
 
 ORIGINAL TASK:
-${request.prompt}
+${getPromptText(request)}
 
 Provide the best solution:`,
         };
@@ -374,11 +519,284 @@ Provide the best solution:`,
 }
 
 /**
- * Main routing function with N-layer dynamic routing
+ * Call the selected model, streaming deltas when a handler is supplied
+ */
+function invokeModel(
+    request: LLMRequest,
+    model: ModelConfig,
+    onDelta?: LLMStreamHandler,
+): Promise<Omit<LLMResponse, 'routingSummary'>> {
+    return onDelta ? callLLMStream(request, model, onDelta) : callLLM(request, model);
+}
+
+/**
+ * Evaluate routing policies against a live request.
+ *
+ * - `deny` throws PolicyDeniedError
+ * - `requireApproval` parks the request in the approval queue and throws
+ *   PolicyApprovalRequiredError (skipped when replaying an approved request)
+ * - `route-to`, `downgrade` and `escalate` return the layer routing should start at
+ *
+ * Requests downgraded by a spent budget (`budgetDowngraded`) are free L0 requests:
+ * only `deny` applies to them.
+ *
+ * The cost estimate is an upper bound: prompt tokens plus `maxTokens` of output,
+ * priced at the model routing would otherwise pick.
+ *
+ * @returns The policy-selected starting layer, or undefined to route normally
+ */
+async function applyRoutingPolicies(
+    request: LLMRequest,
+    context: RoutingContext,
+    requirements: ModelRequirements,
+    budgetDowngraded = false,
+): Promise<ModelLayer | undefined> {
+    const matcher = await routingPolicyService.getMatcher();
+
+    const initialLayer = selectInitialLayer(context);
+    const estimatedCost = (await estimateUsage(request, context, requirements, initialLayer))?.cost;
+
+    const { matchedPolicies, action, risk } = matcher.match({
+        taskType: context.taskType,
+        complexity: context.complexity,
+        filePath: context.filePath,
+        estimatedCost,
+        userRole: context.userRole,
+    });
+
+    const policy = matchedPolicies[0];
+    if (!policy || !action) {
+        return undefined;
+    }
+
+    if (action.type === 'deny') {
+        logger.warn('Request denied by routing policy', { policyId: policy.id, risk });
+        throw new PolicyDeniedError(policy, risk);
+    }
+
+    if (budgetDowngraded) {
+        return undefined;
+    }
+
+    if (action.requireApproval && !context.approvalId) {
+        const approval = await routingApprovalQueue.enqueue({ policy, risk, request, context });
+        logger.info('Request parked for policy approval', {
+            policyId: policy.id,
+            approvalId: approval.id,
+            estimatedCost,
+        });
+        throw new PolicyApprovalRequiredError(policy, risk, approval.id);
+    }
+
+    return resolvePolicyLayer(action, initialLayer);
+}
+
+/**
+ * Upper-bound usage of a request: prompt tokens plus `maxTokens` of output,
+ * priced at the model routing would pick at `layer` (undefined if none fits)
+ */
+async function estimateUsage(
+    request: LLMRequest,
+    context: RoutingContext,
+    requirements: ModelRequirements,
+    layer: ModelLayer,
+): Promise<QuotaUsage | undefined> {
+    const candidate = (context.preferredModel && await modelConfigService.getModelById(context.preferredModel)) ||
+        await pickModelFromLayer(layer, context.taskType, requirements);
+    if (!candidate) {
+        return undefined;
+    }
+    const inputTokens = estimateTokens(getPromptText(request));
+    const outputTokens = request.maxTokens ?? 1000;
+    return {
+        tokens: inputTokens + outputTokens,
+        cost: estimateCost(inputTokens, outputTokens, candidate),
+    };
+}
+
+/**
+ * Starting layer selected by a matched policy action, or undefined to route normally
+ */
+export function resolvePolicyLayer(action: RuleAction, initialLayer: ModelLayer): ModelLayer | undefined {
+    switch (action.type) {
+        case 'route-to':
+        case 'downgrade':
+            return action.targetLayer;
+        case 'escalate':
+            return action.targetLayer ?? getNextLayer(initialLayer) ?? initialLayer;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Main routing function with N-layer dynamic routing.
+ *
+ * When `onDelta` is provided, single-model paths stream tokens as they arrive.
+ * Cross-check paths need every model's answer before deciding, so their final
+ * content is emitted as one delta.
+ *
+ * When the semantic cache is enabled, a near-duplicate of an earlier prompt in the
+ * same project/layer/model scope is answered from the cache (`semanticCache` is set
+ * on the response and `cost` is 0).
+ *
+ * With `context.contentPolicy`, the prompt and completion are scanned under the
+ * project's security settings (see security/content-policy.ts); a blocked prompt
+ * throws ContentPolicyError.
+ *
+ * With `context.quota`, the estimated usage of a cache miss is reserved against the
+ * organization, project and user quotas before any model is called (see
+ * quota/enforcer.ts) and reconciled with the actual usage afterwards; a request
+ * that does not fit throws QuotaExceededError.
+ *
+ * Every routed request's cost counts towards its project's and organization's
+ * monthly budgets (see quota/budgets.ts). Once a budget is spent, requests
+ * throw BudgetExceededError or are downgraded to L0, per its hard stop.
  */
 export async function routeRequest(
     request: LLMRequest,
     context: RoutingContext,
+    onDelta?: LLMStreamHandler,
+): Promise<LLMResponse> {
+    // The project's content policy sees the prompt before policies, the cache or any model
+    const policy = context.contentPolicy
+        ? await contentPolicy.open(context.project, {
+            ...context.contentPolicy,
+            userId: context.contentPolicy.userId ?? context.userId,
+        })
+        : undefined;
+    if (!policy) {
+        return routeCheckedRequest(request, context, onDelta);
+    }
+
+    try {
+        return await routeCheckedRequest(policy.checkRequest(request), context, onDelta, policy);
+    } finally {
+        await policy.close();
+    }
+}
+
+/**
+ * Route a request that passed the content policy; completions are scanned
+ * before they are cached or returned
+ */
+async function routeCheckedRequest(
+    request: LLMRequest,
+    context: RoutingContext,
+    onDelta?: LLMStreamHandler,
+    policy?: ContentPolicySession,
+): Promise<LLMResponse> {
+    const requirements = getModelRequirements(request);
+
+    // A spent budget's hard stop outranks routing policies: blocked requests are
+    // never parked for approval, and downgraded ones stay on L0
+    recordTraceProject(context.project || DEFAULT_PROJECT_ID);
+    const exceededBudget = await budgetManager.getExceeded(context.project);
+    if (exceededBudget?.hardStop === 'block') {
+        throw new BudgetExceededError(exceededBudget);
+    }
+    if (exceededBudget) {
+        logger.warn('Budget exceeded, downgrading request to L0', {
+            scope: exceededBudget.scope,
+            scopeId: exceededBudget.scopeId,
+        });
+        recordRoutingDecision({
+            layer: 'L0',
+            reason: `Monthly budget of ${exceededBudget.scope} ${exceededBudget.scopeId} exceeded, downgraded to free models`,
+            modelSelected: '',
+            timestamp: Date.now(),
+        });
+        context = { ...context, budget: 0 };
+    }
+
+    // Routing policies may deny the request, park it for approval or pick the starting layer
+    const policyLayer = await applyRoutingPolicies(request, context, requirements, Boolean(exceededBudget));
+    if (policyLayer) {
+        logger.info('Routing policy selected starting layer', {
+            layer: policyLayer,
+            overridden: { preferredLayer: context.preferredLayer, preferredModel: context.preferredModel },
+        });
+        recordRoutingDecision({
+            layer: policyLayer,
+            reason: 'Routing policy selected starting layer',
+            modelSelected: '',
+            timestamp: Date.now(),
+        });
+        // A policy layer outranks the caller's layer and model preferences
+        context = { ...context, preferredLayer: undefined, preferredModel: undefined };
+    }
+
+    // Semantic cache sits after policies, so denied or gated requests are never served from it
+    const initialLayer = context.budget === 0 ? 'L0' : policyLayer ?? selectInitialLayer(context);
+    const cacheLookup = context.semanticCache === false ? undefined : await semanticCache.lookup(
+        request,
+        getSemanticCacheScope(
+            context.project,
+            initialLayer,
+            context.budget === 0 ? undefined : context.preferredModel,
+        ),
+    );
+    if (cacheLookup?.hit) {
+        recordRoutingDecision({
+            layer: initialLayer,
+            reason: `Semantic cache hit (similarity ${cacheLookup.hit.semanticCache?.similarity.toFixed(3)})`,
+            modelSelected: cacheLookup.hit.modelId,
+            timestamp: Date.now(),
+        });
+        const hit = policy ? policy.checkResponse(cacheLookup.hit) : cacheLookup.hit;
+        onDelta?.(hit.content);
+        return hit;
+    }
+
+    // The estimate is held against the caller's quotas until the actual usage is known
+    const reservation = context.quota
+        ? await quotaEnforcer.reserve(
+            { projectId: context.project, userId: context.quota.userId ?? context.userId },
+            await estimateUsage(request, context, requirements, initialLayer) ?? {
+                tokens: estimateTokens(getPromptText(request)) + (request.maxTokens ?? 1000),
+                cost: 0,
+            },
+        )
+        : undefined;
+
+    // Scanned completions are streamed in one piece once they have passed the policy
+    const streamScanned = Boolean(onDelta && policy?.scansOutput);
+    let response: LLMResponse;
+    try {
+        response = await dispatchRequest(request, context, requirements, policyLayer, streamScanned ? undefined : onDelta);
+    } catch (error) {
+        await reservation?.release();
+        throw error;
+    }
+    await reservation?.commit({ tokens: response.inputTokens + response.outputTokens, cost: response.cost });
+    void budgetManager.recordSpend(context.project, response.cost);
+    recordRoutingDecision({
+        layer: /\((?:layer )?(L\d+)/.exec(response.routingSummary)?.[1] ?? initialLayer,
+        reason: response.routingSummary,
+        modelSelected: response.modelId,
+        timestamp: Date.now(),
+    });
+    if (policy) {
+        response = policy.checkResponse(response);
+    }
+    if (streamScanned) {
+        onDelta?.(response.content);
+    }
+    if (cacheLookup) {
+        await semanticCache.store(cacheLookup, response);
+    }
+    return response;
+}
+
+/**
+ * Select a layer and model for the request and invoke it
+ */
+async function dispatchRequest(
+    request: LLMRequest,
+    context: RoutingContext,
+    requirements: ModelRequirements,
+    policyLayer: ModelLayer | undefined,
+    onDelta?: LLMStreamHandler,
 ): Promise<LLMResponse> {
     // Check budget constraints early - if budget is 0, force L0 layer (free models only)
     if (context.budget === 0) {
@@ -387,9 +805,11 @@ export async function routeRequest(
             forcedLayer: 'L0',
         });
 
-        const model = await pickModelFromLayer('L0', context.taskType);
+        const { model, skipped } = await selectModelFromLayer('L0', context.taskType, requirements, 'L0');
         if (!model) {
-            throw new Error('No free models available in L0 layer');
+            throw noModelError(skipped.length > 0
+                ? 'No free model in L0 layer fits this request'
+                : 'No free models available in L0 layer', skipped);
         }
 
         // Check if the selected model is actually free
@@ -401,10 +821,10 @@ export async function routeRequest(
             });
         }
 
-        const response = await callLLM(request, model);
+        const response = await invokeModel(request, model, onDelta);
         return {
             ...response,
-            routingSummary: `Budget enforcement: ${model.id} (layer L0, free tier only)`,
+            routingSummary: `Budget enforcement: ${model.id} (layer L0, free tier only)${formatSkipped(skipped)}`,
         };
     }
 
@@ -422,8 +842,13 @@ export async function routeRequest(
             logger.warn('Preferred model not found, falling back to routing', {
                 preferredModel: context.preferredModel,
             });
+        } else if (!meetsRequirements(model, requirements)) {
+            logger.warn('Preferred model lacks required capabilities, falling back to routing', {
+                preferredModel: context.preferredModel,
+                requirements,
+            });
         } else {
-            const response = await callLLM(request, model);
+            const response = await invokeModel(request, model, onDelta);
             return {
                 ...response,
                 routingSummary: `Direct model selection: ${model.id} (layer ${model.layer})`,
@@ -439,26 +864,29 @@ export async function routeRequest(
             skipCrossCheck: true,
         });
 
-        const model = await pickModelFromLayer(context.preferredLayer, context.taskType);
+        const { model, skipped } = await selectModelFromLayer(context.preferredLayer, context.taskType, requirements);
         if (!model) {
-            throw new Error(`No model available for layer ${context.preferredLayer}`);
+            throw noModelError(`No model available for layer ${context.preferredLayer}`, skipped);
         }
 
-        const response = await callLLM(request, model);
+        const response = await invokeModel(request, model, onDelta);
         return {
             ...response,
-            routingSummary: `Direct layer selection: ${model.id} (layer ${context.preferredLayer})`,
+            routingSummary: `Direct layer selection: ${model.id} (layer ${model.layer})${formatSkipped(skipped)}`,
         };
     }
 
     const enableAutoEscalate =
         context.enableAutoEscalate ?? env.ENABLE_AUTO_ESCALATE;
 
-    let currentLayer = selectInitialLayer(context);
+    let currentLayer = policyLayer ?? selectInitialLayer(context);
 
-    // Only enable cross-check for high complexity tasks
+    // Only enable cross-check for high complexity tasks.
+    // Cross-check reviews a text-only prompt with any model in the layer, so requests
+    // with hard requirements (tool calls, images) skip it.
     const shouldCrossCheck = (context.enableCrossCheck ?? env.ENABLE_CROSS_CHECK) &&
-        context.complexity === 'high';
+        context.complexity === 'high' &&
+        !hasRequirements(requirements);
 
     logger.info('Routing request', {
         taskType: context.taskType,
@@ -470,10 +898,11 @@ export async function routeRequest(
 
     // Try current layer with cross-check only for high complexity
     if (shouldCrossCheck) {
-        const result = await crossCheck(request, currentLayer, context.taskType);
+        const result = await crossCheck(request, currentLayer, context.taskType, requirements);
 
         // If no conflicts, return consensus
         if (result.conflicts.length === 0) {
+            onDelta?.(result.consensus);
             return {
                 content: result.consensus,
                 modelId: result.primary.modelId,
@@ -521,7 +950,9 @@ export async function routeRequest(
                 request,
                 currentLayer,
                 context.taskType,
+                requirements,
             );
+            onDelta?.(escalatedResult.consensus);
             return {
                 content: escalatedResult.consensus,
                 modelId: escalatedResult.primary.modelId,
@@ -551,7 +982,7 @@ export async function routeRequest(
                 const optimizedPrompt = `[ESCALATED FROM ${currentLayer} TO ${nextLayer}]
 
 ORIGINAL REQUEST:
-${request.messages[request.messages.length - 1]?.content || 'N/A'}
+${request.messages?.filter((m) => m.role === 'user').pop()?.content ?? request.prompt ?? 'N/A'}
 
 CONTEXT FROM ${currentLayer}:
 ${result.consensus}
@@ -565,6 +996,7 @@ PLEASE PROVIDE:
 - Higher quality output suitable for ${nextLayer} tier`;
 
                 // Return response with escalation confirmation requirement
+                onDelta?.(result.consensus);
                 return {
                     content: result.consensus,
                     modelId: result.primary.modelId,
@@ -586,6 +1018,7 @@ PLEASE PROVIDE:
             ? result.consensus
             : result.primary.content;
 
+        onDelta?.(finalContent);
         return {
             content: finalContent,
             modelId: result.primary.modelId,
@@ -598,15 +1031,15 @@ PLEASE PROVIDE:
         };
     } else {
         // No cross-check, just use single model
-        const model = await pickModelFromLayer(currentLayer, context.taskType);
+        const { model, skipped } = await selectModelFromLayer(currentLayer, context.taskType, requirements);
         if (!model) {
-            throw new Error(`No model available for layer ${currentLayer}`);
+            throw noModelError(`No model available for layer ${currentLayer}`, skipped);
         }
 
-        const response = await callLLM(request, model);
+        const response = await invokeModel(request, model, onDelta);
         return {
             ...response,
-            routingSummary: `Single model: ${model.id} (layer ${currentLayer})`,
+            routingSummary: `Single model: ${model.id} (layer ${model.layer})${formatSkipped(skipped)}`,
         };
     }
 }
@@ -0,0 +1,382 @@
+/**
+ * Route Simulator
+ * Dry-runs routing policies against sample or historical requests and projects
+ * their cost with real model pricing, without calling any model.
+ */
+
+import * as fs from 'fs/promises';
+import { z } from 'zod';
+import type { ModelConfig, ModelLayer } from '../config/models.js';
+import type { LLMRequest, RoutingContext } from '../mcp/types.js';
+import { db } from '../db/postgres.js';
+import { modelConfigService } from '../db/model-config.js';
+import { logger } from '../logging/logger.js';
+import { tokenEstimator } from '../services/chat/TokenEstimator.js';
+import { getPromptText } from '../tools/llm/client.js';
+import { estimateCost } from './cost.js';
+import { LayerSchema, TaskTypeSchema, type PolicyMatcher, type RiskLevel } from './policy.js';
+import {
+    getModelRequirements,
+    meetsRequirements,
+    pickModelFromLayer,
+    type ModelRequirements,
+    resolvePolicyLayer,
+    selectInitialLayer,
+} from './router.js';
+
+/**
+ * Output tokens assumed when neither the scenario nor the request sets a limit
+ * (same assumption the router uses for policy cost checks)
+ */
+const DEFAULT_OUTPUT_TOKENS = 1000;
+
+/**
+ * A request to simulate
+ */
+export interface SimulationScenario {
+    name?: string;
+    request: LLMRequest;
+    context: RoutingContext;
+    outputTokens?: number; // Known output size, e.g. from history
+}
+
+/**
+ * Validation schema for scenarios submitted through the admin API
+ */
+export const SimulationScenarioSchema = z.object({
+    name: z.string().optional(),
+    request: z.object({
+        prompt: z.string().optional(),
+        messages: z.array(z.object({
+            role: z.enum(['system', 'user', 'assistant', 'tool']),
+            content: z.string(),
+        })).optional(),
+        maxTokens: z.number().int().positive().optional(),
+    }).refine((r) => r.prompt || r.messages?.length, 'Either prompt or messages is required'),
+    context: z.object({
+        taskType: TaskTypeSchema.default('general'),
+        complexity: z.enum(['low', 'medium', 'high']).default('medium'),
+        quality: z.enum(['normal', 'high', 'critical']).default('normal'),
+        preferredLayer: LayerSchema.optional(),
+        preferredModel: z.string().optional(),
+        budget: z.number().min(0).optional(),
+        userRole: z.string().optional(),
+        filePath: z.string().optional(),
+    }).default({}),
+    outputTokens: z.number().int().positive().optional(),
+});
+
+export interface SimulationResult {
+    selectedLayer: ModelLayer;
+    modelId?: string;
+    provider?: string;
+    matchedPolicies: string[];
+    risk: RiskLevel;
+    denied: boolean;
+    requiresApproval: boolean;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedCost: number;
+    reasoning: string;
+}
+
+/**
+ * Projected usage of a single model across a batch
+ */
+export interface ModelCostProjection {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+}
+
+/**
+ * A previously served request, with what it actually cost when known
+ */
+export interface HistoricalRequest {
+    id?: string;
+    request: LLMRequest;
+    context: RoutingContext;
+    outputTokens?: number;
+    actual?: {
+        modelId?: string;
+        cost: number;
+    };
+}
+
+export interface ReplayReport {
+    requests: number;
+    denied: number;
+    requiresApproval: number;
+    projectedCost: number;
+    actualCost: number; // Sum over requests with a recorded cost
+    byModel: Record<string, ModelCostProjection>;
+    actualByModel: Record<string, { calls: number; cost: number }>;
+    results: Array<{
+        id?: string;
+        actual?: HistoricalRequest['actual'];
+        simulation: SimulationResult;
+    }>;
+}
+
+interface DBTraceRow {
+    id: string;
+    request_payload: Record<string, unknown>;
+    llm_calls: Array<{ model?: string; outputTokens?: number; cost?: number }> | null;
+    total_cost: string | null;
+}
+
+const DEFAULT_CONTEXT: RoutingContext = {
+    taskType: 'general',
+    complexity: 'medium',
+    quality: 'normal',
+};
+
+function toProjection(results: SimulationResult[]): Record<string, ModelCostProjection> {
+    const byModel: Record<string, ModelCostProjection> = {};
+    for (const result of results) {
+        if (!result.modelId) continue;
+        const entry = byModel[result.modelId] ??= { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+        entry.calls += 1;
+        entry.inputTokens += result.inputTokens;
+        entry.outputTokens += result.outputTokens;
+        entry.cost += result.estimatedCost;
+    }
+    return byModel;
+}
+
+/**
+ * Build a historical request from a JSONL line or trace payload.
+ * Accepts `{ request, context }` or a bare `{ prompt | messages, context }` payload.
+ */
+function toHistoricalRequest(raw: Record<string, unknown>): HistoricalRequest | undefined {
+    const request = (raw.request ?? {
+        prompt: raw.prompt ?? raw.message,
+        messages: raw.messages,
+        maxTokens: raw.maxTokens,
+    }) as LLMRequest;
+
+    if (!getPromptText(request)) {
+        return undefined;
+    }
+
+    return {
+        id: typeof raw.id === 'string' ? raw.id : undefined,
+        request,
+        context: { ...DEFAULT_CONTEXT, ...(raw.context as Partial<RoutingContext> | undefined) },
+        outputTokens: typeof raw.outputTokens === 'number' ? raw.outputTokens : undefined,
+        actual: raw.actual as HistoricalRequest['actual'],
+    };
+}
+
+/**
+ * Parse historical requests from JSONL content, one request per line.
+ * Lines that are not valid JSON or carry no prompt are skipped.
+ */
+export function parseHistoryJsonl(content: string, source = 'jsonl'): HistoricalRequest[] {
+    const history: HistoricalRequest[] = [];
+
+    content.split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+            const entry = toHistoricalRequest(JSON.parse(line) as Record<string, unknown>);
+            if (entry) {
+                history.push(entry);
+            } else {
+                logger.warn('Skipping history line without a prompt', { source, line: index + 1 });
+            }
+        } catch {
+            logger.warn('Skipping invalid history line', { source, line: index + 1 });
+        }
+    });
+
+    return history;
+}
+
+/**
+ * Load historical requests from a JSONL file such as an exported `requests.jsonl`
+ */
+export async function loadHistoryFromJsonl(filePath: string): Promise<HistoricalRequest[]> {
+    return parseHistoryJsonl(await fs.readFile(filePath, 'utf8'), filePath);
+}
+
+/**
+ * Load the most recent successful requests from the request_traces table
+ */
+export async function loadHistoryFromTraces(limit = 500): Promise<HistoricalRequest[]> {
+    if (!db.isReady()) {
+        throw new Error('Database not ready, cannot load request traces');
+    }
+
+    const result = await db.query<DBTraceRow>(
+        `SELECT id, request_payload, llm_calls, total_cost
+         FROM request_traces
+         WHERE error_info IS NULL
+         ORDER BY created_at DESC
+         LIMIT $1`,
+        [limit]
+    );
+    if (!result) {
+        throw new Error('request_traces query failed');
+    }
+
+    const history: HistoricalRequest[] = [];
+    for (const row of result.rows) {
+        const entry = toHistoricalRequest({ ...row.request_payload, id: row.id });
+        if (!entry) continue;
+
+        const calls = row.llm_calls ?? [];
+        if (calls.length > 0) {
+            entry.outputTokens = calls.reduce((sum, call) => sum + (call.outputTokens ?? 0), 0);
+        }
+        entry.actual = {
+            modelId: calls[calls.length - 1]?.model,
+            cost: Number(row.total_cost ?? 0),
+        };
+        history.push(entry);
+    }
+    return history;
+}
+
+/**
+ * Simulates routing decisions and their cost.
+ * Layer selection follows `routeRequest`: policies first, then the caller's
+ * preferences, then the default layer; the model is the one `pickModelFromLayer` picks.
+ */
+export class RouteSimulator {
+    constructor(private policyMatcher: PolicyMatcher) { }
+
+    /**
+     * Simulate routing decision
+     */
+    async simulate(scenario: SimulationScenario): Promise<SimulationResult> {
+        const { request, context } = scenario;
+        const requirements = getModelRequirements(request);
+
+        const inputTokens = await tokenEstimator.estimate(getPromptText(request));
+        const outputTokens = scenario.outputTokens ?? request.maxTokens ?? DEFAULT_OUTPUT_TOKENS;
+
+        // Price the model routing would pick without policies, as the router does for cost conditions
+        const initialLayer = context.budget === 0 ? 'L0' : selectInitialLayer(context);
+        const defaultModel = await this.pickModel(initialLayer, context, requirements);
+        const { matchedPolicies, action, risk } = this.policyMatcher.match({
+            taskType: context.taskType,
+            complexity: context.complexity,
+            filePath: context.filePath,
+            estimatedCost: defaultModel ? estimateCost(inputTokens, outputTokens, defaultModel) : undefined,
+            userRole: context.userRole,
+        });
+
+        const base = {
+            matchedPolicies: matchedPolicies.map((p) => p.name),
+            risk,
+            requiresApproval: Boolean(action?.requireApproval),
+            inputTokens,
+            outputTokens,
+        };
+
+        if (action?.type === 'deny') {
+            return {
+                ...base,
+                selectedLayer: initialLayer,
+                denied: true,
+                estimatedCost: 0,
+                reasoning: `Denied by policy ${matchedPolicies[0].name}`,
+            };
+        }
+
+        const policyLayer = action ? resolvePolicyLayer(action, initialLayer) : undefined;
+        const model = policyLayer
+            ? await pickModelFromLayer(policyLayer, context.taskType, requirements)
+            : defaultModel;
+        const selectedLayer = model?.layer ?? policyLayer ?? initialLayer;
+
+        let reasoning = policyLayer
+            ? `Policy ${matchedPolicies[0].name} (${action?.type}) routes to ${policyLayer}`
+            : `Default routing to ${initialLayer}`;
+        reasoning += model ? `, model ${model.id}` : ', no model available';
+
+        return {
+            ...base,
+            selectedLayer,
+            modelId: model?.id,
+            provider: model?.provider,
+            denied: false,
+            estimatedCost: model ? estimateCost(inputTokens, outputTokens, model) : 0,
+            reasoning,
+        };
+    }
+
+    /**
+     * Batch simulation for multiple scenarios, with projected cost per model
+     */
+    async batchSimulate(scenarios: SimulationScenario[]): Promise<{
+        results: Array<{ scenario?: string; result: SimulationResult }>;
+        byModel: Record<string, ModelCostProjection>;
+        totalCost: number;
+    }> {
+        const results: Array<{ scenario?: string; result: SimulationResult }> = [];
+        for (const scenario of scenarios) {
+            results.push({ scenario: scenario.name, result: await this.simulate(scenario) });
+        }
+
+        const simulations = results.map((r) => r.result);
+        return {
+            results,
+            byModel: toProjection(simulations),
+            totalCost: simulations.reduce((sum, r) => sum + r.estimatedCost, 0),
+        };
+    }
+
+    /**
+     * Replay historical requests and compare projected spend with what they actually cost
+     */
+    async replay(history: HistoricalRequest[]): Promise<ReplayReport> {
+        const results: ReplayReport['results'] = [];
+        for (const entry of history) {
+            const simulation = await this.simulate({
+                request: entry.request,
+                context: entry.context,
+                outputTokens: entry.outputTokens,
+            });
+            results.push({ id: entry.id, actual: entry.actual, simulation });
+        }
+
+        const actualByModel: ReplayReport['actualByModel'] = {};
+        for (const { actual } of results) {
+            if (!actual?.modelId) continue;
+            const entry = actualByModel[actual.modelId] ??= { calls: 0, cost: 0 };
+            entry.calls += 1;
+            entry.cost += actual.cost;
+        }
+
+        const simulations = results.map((r) => r.simulation);
+        return {
+            requests: results.length,
+            denied: simulations.filter((r) => r.denied).length,
+            requiresApproval: simulations.filter((r) => r.requiresApproval && !r.denied).length,
+            projectedCost: simulations.reduce((sum, r) => sum + r.estimatedCost, 0),
+            actualCost: results.reduce((sum, r) => sum + (r.actual?.cost ?? 0), 0),
+            byModel: toProjection(simulations),
+            actualByModel,
+            results,
+        };
+    }
+
+    /**
+     * Model routing would pick: a capable preferred model, else the layer's best model
+     */
+    private async pickModel(
+        layer: ModelLayer,
+        context: RoutingContext,
+        requirements: ModelRequirements,
+    ): Promise<ModelConfig | undefined> {
+        if (context.preferredModel && context.budget !== 0) {
+            const preferred = await modelConfigService.getModelById(context.preferredModel);
+            if (preferred && meetsRequirements(preferred, requirements)) {
+                return preferred;
+            }
+        }
+        return pickModelFromLayer(layer, context.taskType, requirements, context.budget === 0 ? 'L0' : 'L3');
+    }
+}
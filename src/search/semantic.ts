@@ -1,12 +1,17 @@
 /**
  * Phase 4: Semantic Code Search with pgvector
  * Vector embeddings for intelligent code search
+ *
+ * Embeddings come from the configured EmbeddingService provider; each chunk
+ * records its model and dimension so a provider change never compares
+ * incompatible vectors (re-index to search the old chunks again).
  */
 
 import { Pool } from 'pg';
 import { callLLM } from '../tools/llm/index.js';
 import { getModelsByLayer } from '../config/models.js';
 import { logger } from '../logging/logger.js';
+import { embeddingService, EmbeddingService, type EmbeddingResult } from '../services/chat/EmbeddingService.js';
 
 export interface CodeEmbedding {
     id: string;
@@ -32,44 +37,24 @@ export interface SearchResult {
  * Semantic Code Search Engine
  */
 export class SemanticSearch {
-    constructor(private db: Pool) { }
+    constructor(
+        private db: Pool,
+        private embeddings: EmbeddingService = embeddingService,
+    ) { }
 
     /**
-     * Generate embedding for text using LLM
+     * Generate embedding for text
      */
     async generateEmbedding(text: string): Promise<number[]> {
-        // Use OpenAI or similar embedding model
-        // For now, simulate with hash-based approach
-        // In production, use: text-embedding-ada-002 or similar
+        return (await this.embed(text)).embedding;
+    }
 
+    private async embed(text: string): Promise<EmbeddingResult> {
         logger.info('Generating embedding', {
             textLength: text.length,
         });
 
-        // Placeholder: In production, call embedding API
-        // Example: OpenAI text-embedding-ada-002
-        const embedding = this.simulateEmbedding(text);
-
-        return embedding;
-    }
-
-    /**
-     * Simulate embedding (replace with real embedding API)
-     */
-    private simulateEmbedding(text: string): number[] {
-        // Create a 384-dimensional vector (simulated)
-        const dim = 384;
-        const embedding = new Array(dim).fill(0);
-
-        // Simple hash-based simulation
-        for (let i = 0; i < text.length; i++) {
-            const charCode = text.charCodeAt(i);
-            embedding[i % dim] += charCode / 1000;
-        }
-
-        // Normalize
-        const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-        return embedding.map((val) => val / magnitude);
+        return this.embeddings.getEmbedding(text);
     }
 
     /**
@@ -86,24 +71,28 @@ export class SemanticSearch {
         const chunks = await this.splitIntoChunks(code, language);
 
         for (const chunk of chunks) {
-            const embedding = await this.generateEmbedding(chunk.code);
+            const { embedding, model, dimension } = await this.embed(chunk.code);
 
             await this.db.query(
                 `INSERT INTO code_embeddings (
                     file_path,
                     code_chunk,
                     embedding,
+                    embedding_model,
+                    embedding_dimension,
                     language,
                     chunk_type,
                     metadata,
                     created_at
-                ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
                 ON CONFLICT (file_path, chunk_type, code_chunk) DO UPDATE
-                SET embedding = $3, updated_at = NOW()`,
+                SET embedding = $3, embedding_model = $4, embedding_dimension = $5, updated_at = NOW()`,
                 [
                     filePath,
                     chunk.code,
                     JSON.stringify(embedding),
+                    model,
+                    dimension,
                     language,
                     chunk.type,
                     JSON.stringify(chunk.metadata),
@@ -179,12 +168,20 @@ export class SemanticSearch {
         logger.info('Semantic search', { query, limit });
 
         // Generate query embedding
-        const queryEmbedding = await this.generateEmbedding(query);
-
-        // Build WHERE clause
-        const conditions: string[] = ['1=1'];
-        const params: unknown[] = [JSON.stringify(queryEmbedding), limit];
-        let paramIndex = 3;
+        const queryEmbedding = await this.embed(query);
+
+        // Build WHERE clause: only vectors of the query's model and dimension are comparable
+        const conditions: string[] = [
+            'embedding_dimension = $3',
+            '(embedding_model IS NULL OR embedding_model = $4)',
+        ];
+        const params: unknown[] = [
+            JSON.stringify(queryEmbedding.embedding),
+            limit,
+            queryEmbedding.dimension,
+            queryEmbedding.model,
+        ];
+        let paramIndex = 5;
 
         if (filters?.language) {
             params.push(filters.language);
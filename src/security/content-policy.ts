@@ -0,0 +1,277 @@
+/**
+ * Content Policy - Applies a project's security settings
+ * (ProjectConfig.security) to LLM requests
+ *
+ * routeRequest opens a session per request when its context carries
+ * `contentPolicy`. Prompts are scanned before routing (and before the
+ * semantic cache), completions before they are returned, cached or streamed.
+ * Secrets are redacted when `redactSecrets` is set; other high-severity
+ * violations (e.g. blocked keywords) in a prompt or completion block the
+ * request with a ContentPolicyError. Violations are recorded in the request's trace (or
+ * a trace of their own outside a traced request) and in `audit_logs`.
+ */
+
+import { db } from '../db/postgres.js';
+import { logger } from '../logging/logger.js';
+import { getTracer } from '../tracing/tracer.js';
+import { getCurrentTraceId } from '../tracing/integration.js';
+import { PolicyEnforcer } from './policy-enforcer.js';
+import type { ContentPolicyContext, LLMRequest, LLMResponse } from '../mcp/types.js';
+import type { PolicyResult, PolicyViolationRecord, ProjectConfig } from '../types/tracing.js';
+
+const DEFAULT_PROJECT_ID = 'default-project';
+const CONFIG_TTL_MS = 60000;
+
+/**
+ * Thrown when a prompt or completion violates the project's content policy
+ */
+export class ContentPolicyError extends Error {
+    constructor(
+        readonly projectId: string,
+        readonly violations: PolicyViolationRecord[],
+        readonly traceId?: string,
+    ) {
+        super(violations.some((v) => v.stage === 'output' && v.action === 'blocked')
+            ? `Completion blocked by the content policy of project ${projectId}`
+            : `Request blocked by the content policy of project ${projectId}`);
+        this.name = 'ContentPolicyError';
+    }
+
+    /**
+     * Response body for API (422) and MCP errors; never includes the matched content
+     */
+    get details() {
+        return {
+            code: 'CONTENT_POLICY_VIOLATION',
+            projectId: this.projectId,
+            traceId: this.traceId,
+            violations: this.violations.map((v) => ({
+                type: v.type,
+                pattern: v.pattern,
+                severity: v.severity,
+                field: v.field,
+                position: v.position,
+                action: v.action,
+                suggestion: v.suggestion,
+            })),
+        };
+    }
+}
+
+/**
+ * Scans one request and its response; see ContentPolicyService.open
+ */
+export class ContentPolicySession {
+    readonly violations: PolicyViolationRecord[] = [];
+    private traceId?: string;
+    private ownsTrace = false;
+    private readonly startedAt = Date.now();
+
+    constructor(
+        readonly projectId: string,
+        private enforcer: PolicyEnforcer,
+        private context: ContentPolicyContext,
+    ) { }
+
+    /**
+     * Completions are scanned (and may be redacted or blocked), so they cannot
+     * be streamed as they arrive
+     */
+    get scansOutput(): boolean {
+        return Boolean(this.enforcer.getConfig()?.scanOutputs);
+    }
+
+    /**
+     * Scan the prompt, system prompt and messages. Returns the request with
+     * secrets redacted; throws ContentPolicyError if the request is blocked.
+     */
+    checkRequest(request: LLMRequest): LLMRequest {
+        let blocked = false;
+        const scan = (field: string, content: string): string => {
+            const result = this.enforcer.scanPrompt(content);
+            this.record('prompt', field, result);
+            blocked = blocked || !result.allowed;
+            return result.sanitizedContent ?? content;
+        };
+
+        const checked: LLMRequest = { ...request };
+        if (request.prompt) {
+            checked.prompt = scan('prompt', request.prompt);
+        }
+        if (request.systemPrompt) {
+            checked.systemPrompt = scan('systemPrompt', request.systemPrompt);
+        }
+        if (request.messages) {
+            checked.messages = request.messages.map((message, i) => (
+                message.content ? { ...message, content: scan(`messages[${i}]`, message.content) } : message
+            ));
+        }
+
+        if (blocked) {
+            throw new ContentPolicyError(this.projectId, [...this.violations], this.traceId);
+        }
+        return checked;
+    }
+
+    /**
+     * Scan a completion; returns it with secrets redacted. Throws
+     * ContentPolicyError if the completion is blocked.
+     */
+    checkResponse(response: LLMResponse): LLMResponse {
+        if (!response.content) {
+            return response;
+        }
+        const result = this.enforcer.scanOutput(response.content);
+        this.record('output', 'content', result);
+        if (!result.allowed) {
+            throw new ContentPolicyError(this.projectId, [...this.violations], this.traceId);
+        }
+        return result.sanitizedContent !== undefined
+            ? { ...response, content: result.sanitizedContent }
+            : response;
+    }
+
+    /**
+     * Persist the trace and audit entry if any violations were found
+     */
+    async close(): Promise<void> {
+        if (this.violations.length === 0) {
+            return;
+        }
+
+        const blocked = this.violations.some((v) => v.action === 'blocked');
+        logger.warn('Content policy violations', {
+            projectId: this.projectId,
+            requestType: this.context.requestType,
+            traceId: this.traceId,
+            blocked,
+            violations: this.violations.map((v) => `${v.stage}:${v.type}:${v.action}`),
+        });
+
+        if (this.traceId) {
+            try {
+                const tracer = getTracer();
+                tracer.recordPolicyViolations(this.traceId, this.violations);
+                if (this.ownsTrace) {
+                    await tracer.endTrace(this.traceId, Date.now() - this.startedAt);
+                }
+            } catch (error) {
+                logger.warn('Failed to record content policy trace', {
+                    traceId: this.traceId,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        if (db.isReady()) {
+            const result = await db.query(
+                `INSERT INTO audit_logs
+                    (user_id, project_id, action, resource_type, resource_id, status, ip_address, user_agent, metadata)
+                 VALUES ($1, $2, 'content_policy.violation', 'llm_request', $3, $4, $5, $6, $7)`,
+                [
+                    this.context.userId || 'anonymous',
+                    this.projectId,
+                    this.traceId ?? null,
+                    blocked ? 'denied' : 'success',
+                    this.context.ipAddress ?? null,
+                    this.context.userAgent ?? null,
+                    JSON.stringify({
+                        requestType: this.context.requestType,
+                        conversationId: this.context.conversationId,
+                        violations: this.violations,
+                    }),
+                ]
+            );
+            if (!result) {
+                logger.warn('Failed to write content policy audit log', { projectId: this.projectId, traceId: this.traceId });
+            }
+        }
+    }
+
+    private record(stage: PolicyViolationRecord['stage'], field: string, result: PolicyResult): void {
+        if (result.violations.length === 0) {
+            return;
+        }
+
+        const redact = Boolean(this.enforcer.getConfig()?.redactSecrets);
+        for (const violation of result.violations) {
+            let action: PolicyViolationRecord['action'] = 'flagged';
+            if (redact && violation.type === 'secret_detected') {
+                action = 'redacted';
+            } else if (violation.severity === 'high') {
+                action = 'blocked';
+            }
+            this.violations.push({ ...violation, stage, field, action });
+        }
+
+        if (!this.traceId) {
+            this.traceId = getCurrentTraceId();
+        }
+        if (!this.traceId) {
+            this.ownsTrace = true;
+            this.traceId = getTracer().startTrace(this.context.requestType, this.context.conversationId ?? '', {
+                projectId: this.projectId,
+                userId: this.context.userId,
+            });
+        }
+    }
+}
+
+/**
+ * Loads project security settings and opens scanning sessions
+ */
+export class ContentPolicyService {
+    private configs = new Map<string, { security?: ProjectConfig['security']; loadedAt: number }>();
+
+    /**
+     * Start scanning a request for `projectId` (default project if omitted);
+     * returns undefined when the project scans neither prompts nor outputs
+     */
+    async open(projectId: string | undefined, context: ContentPolicyContext): Promise<ContentPolicySession | undefined> {
+        const id = projectId || DEFAULT_PROJECT_ID;
+        const security = await this.getSecurityConfig(id);
+        if (!security?.scanPrompts && !security?.scanOutputs) {
+            return undefined;
+        }
+        return new ContentPolicySession(id, new PolicyEnforcer({ security }), context);
+    }
+
+    /**
+     * A project's security settings from `projects.config`, cached for a minute
+     */
+    async getSecurityConfig(projectId: string): Promise<ProjectConfig['security'] | undefined> {
+        const cached = this.configs.get(projectId);
+        if (cached && Date.now() - cached.loadedAt < CONFIG_TTL_MS) {
+            return cached.security;
+        }
+        if (!db.isReady()) {
+            return undefined;
+        }
+
+        const result = await db.query<{ config: ProjectConfig | null }>(
+            'SELECT config FROM projects WHERE id = $1',
+            [projectId]
+        );
+        if (!result) {
+            // Keep the previous settings rather than dropping scanning on a transient error
+            return cached?.security;
+        }
+
+        const security = result.rows[0]?.config?.security;
+        this.configs.set(projectId, { security, loadedAt: Date.now() });
+        return security;
+    }
+
+    /**
+     * Forget cached settings after a project's config changes
+     */
+    invalidate(projectId?: string): void {
+        if (projectId) {
+            this.configs.delete(projectId);
+        } else {
+            this.configs.clear();
+        }
+    }
+}
+
+export const contentPolicy = new ContentPolicyService();
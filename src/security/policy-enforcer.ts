@@ -47,8 +47,12 @@ export class PolicyEnforcer {
         // Check for blocked keywords
         violations.push(...this.detectBlockedKeywords(content));
 
-        // Determine if request should be blocked
-        const hasHighSeverity = violations.some((v) => v.severity === 'high');
+        // Determine if request should be blocked; secrets are redacted
+        // instead when redactSecrets is set
+        const redact = Boolean(this.projectConfig.security.redactSecrets);
+        const hasHighSeverity = violations.some(
+            (v) => v.severity === 'high' && !(redact && v.type === 'secret_detected')
+        );
 
         return {
             allowed: !hasHighSeverity,
@@ -72,11 +76,18 @@ export class PolicyEnforcer {
         // Check for secrets in output
         violations.push(...this.detectSecrets(content));
 
-        // Check for unsafe commands
+        // Check for blocked keywords and unsafe commands
+        violations.push(...this.detectBlockedKeywords(content));
         violations.push(...this.detectUnsafeCommands(content));
 
+        // Blocked like prompts; secrets are redacted instead when redactSecrets is set
+        const redact = Boolean(this.projectConfig.security.redactSecrets);
+        const hasHighSeverity = violations.some(
+            (v) => v.severity === 'high' && !(redact && v.type === 'secret_detected')
+        );
+
         return {
-            allowed: true, // Don't block outputs, just flag
+            allowed: !hasHighSeverity,
             violations,
             sanitizedContent: this.projectConfig.security.redactSecrets
                 ? this.redactSecrets(content)
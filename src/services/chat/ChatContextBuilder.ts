@@ -15,6 +15,8 @@ import { logger } from '../../logging/logger.js';
 import { tokenEstimator, estimateTokensSync } from './TokenEstimator.js';
 import { embeddingService } from './EmbeddingService.js';
 import { SpanRetriever, SpanRetrievalConfig } from './SpanRetriever.js';
+import { conversationSummarizer } from './ConversationSummarizer.js';
+import { getVectorStore } from '../vector/index.js';
 
 // ============================================================================
 // Types & Interfaces
@@ -56,6 +58,9 @@ export interface ChatContextConfig {
     /** Token threshold to trigger summarization */
     summarizationThreshold: number;
 
+    /** Merge stored summaries into a higher-level one once they exceed this many tokens */
+    summaryMaxTokens: number;
+
     /** System prompt to prepend (optional) */
     systemPrompt?: string;
 }
@@ -136,6 +141,7 @@ export const DEFAULT_CHAT_CONTEXT_CONFIG: ChatContextConfig = {
     spanBudgetRatio: 0.4, // 40% for spans, 60% for recent
     spanMinSimilarity: 0.7,
     summarizationThreshold: 2000, // Summarize when old messages exceed this
+    summaryMaxTokens: 1000,
     systemPrompt: undefined,
 };
 
@@ -417,10 +423,11 @@ export class ChatContextBuilder {
             sum + (m.token_estimate || estimateTokensSync(m.content, params.modelId)), 0
         );
 
-        if (oldMessagesTokens > config.summarizationThreshold && !conversation?.summary) {
+        // Old messages not yet covered by a summary; summaries are extended incrementally
+        if (oldMessagesTokens > config.summarizationThreshold) {
             // Trigger summarization asynchronously (don't block the request)
             summarizationTriggered = true;
-            this.triggerSummarizationAsync(params.conversationId, oldMessages);
+            conversationSummarizer.schedule(params.conversationId, config);
         }
 
         // Include summary if available
@@ -619,9 +626,9 @@ export class ChatContextBuilder {
             sum + (m.token_estimate || estimateTokensSync(m.content, params.modelId)), 0
         );
 
-        if (oldMessagesTokens > config.summarizationThreshold && !conversation?.summary) {
+        if (oldMessagesTokens > config.summarizationThreshold) {
             summarizationTriggered = true;
-            this.triggerSummarizationAsync(params.conversationId, oldMessages);
+            conversationSummarizer.schedule(params.conversationId, config);
         }
 
         return {
@@ -813,148 +820,6 @@ export class ChatContextBuilder {
         }
     }
 
-    // --------------------------------------------------------------------------
-    // Summarization
-    // --------------------------------------------------------------------------
-
-    /**
-     * Trigger summarization in background (non-blocking)
-     */
-    private triggerSummarizationAsync(
-        conversationId: string,
-        messages: Array<{ role: string; content: string; id: string }>
-    ): void {
-        // Run summarization without awaiting
-        this.generateSummary(conversationId, messages).catch(error => {
-            logger.error('[ChatContextBuilder] Async summarization failed', {
-                conversationId,
-                error: error instanceof Error ? error.message : String(error),
-            });
-        });
-    }
-
-    /**
-     * Generate a summary for old messages and store it
-     */
-    private async generateSummary(
-        conversationId: string,
-        messages: Array<{ role: string; content: string; id: string }>
-    ): Promise<void> {
-        if (messages.length === 0) return;
-
-        logger.info('[ChatContextBuilder] Generating summary', {
-            conversationId,
-            messageCount: messages.length,
-        });
-
-        try {
-            // Format messages for summarization
-            const transcript = messages.map(m =>
-                `${m.role.toUpperCase()}: ${m.content}`
-            ).join('\n\n');
-
-            const summaryPrompt = `Please provide a concise summary of the following conversation, 
-capturing the key points, decisions made, and important context that would be helpful 
-for continuing the conversation. Keep the summary under 500 words.
-
-Conversation:
-${transcript}
-
-Summary:`;
-
-            // Use L0 model for summarization (efficient model)
-            let summary: string;
-            try {
-                // Try to use LLM for summarization
-                const { routeRequest } = await import('../../routing/router.js');
-
-                const summaryResult = await routeRequest(
-                    { prompt: summaryPrompt },
-                    {
-                        quality: 'fast',
-                        complexity: 'low',
-                        taskType: 'general' as const,
-                    }
-                );
-
-                summary = summaryResult.content;
-
-                logger.debug('[ChatContextBuilder] LLM-based summary generated', {
-                    conversationId,
-                    summaryLength: summary.length,
-                    model: summaryResult.modelId,
-                });
-            } catch (error) {
-                // Fallback to extractive summary if LLM fails
-                logger.warn('[ChatContextBuilder] LLM summarization failed, using extractive', {
-                    conversationId,
-                    error: error instanceof Error ? error.message : String(error),
-                });
-                summary = this.createExtractiveSum(messages);
-            }
-
-            const summaryTokens = estimateTokensSync(summary);
-
-            // Update conversation with summary
-            await db.query(
-                `UPDATE conversations 
-         SET summary = $1, 
-             summary_token_estimate = $2, 
-             summary_updated_at = NOW() 
-         WHERE id = $3`,
-                [summary, summaryTokens, conversationId]
-            );
-
-            // Mark messages as summarized
-            const messageIds = messages.map(m => m.id);
-            await db.query(
-                `UPDATE messages 
-         SET is_summarized = true 
-         WHERE id = ANY($1)`,
-                [messageIds]
-            );
-
-            logger.info('[ChatContextBuilder] Summary generated and stored', {
-                conversationId,
-                summaryTokens,
-                messagesMarked: messageIds.length,
-            });
-
-        } catch (error) {
-            logger.error('[ChatContextBuilder] Failed to generate summary', {
-                conversationId,
-                error: error instanceof Error ? error.message : String(error),
-            });
-            throw error;
-        }
-    }
-
-    /**
-     * Simple extractive summarization (placeholder until LLM integration)
-     */
-    private createExtractiveSum(messages: Array<{ role: string; content: string }>): string {
-        // Take first and last messages, plus key points
-        const parts: string[] = [];
-
-        if (messages.length > 0) {
-            parts.push(`Initial topic: ${messages[0].content.slice(0, 200)}...`);
-        }
-
-        if (messages.length > 2) {
-            const midpoint = Math.floor(messages.length / 2);
-            parts.push(`Mid-conversation: ${messages[midpoint].content.slice(0, 150)}...`);
-        }
-
-        if (messages.length > 1) {
-            const last = messages[messages.length - 1];
-            parts.push(`Recent context: ${last.content.slice(0, 200)}...`);
-        }
-
-        parts.push(`Total exchanges: ${messages.length} messages`);
-
-        return parts.join('\n\n');
-    }
-
     // --------------------------------------------------------------------------
     // Embedding Generation (for new messages)
     // --------------------------------------------------------------------------
@@ -964,14 +829,24 @@ Summary:`;
      */
     async generateMessageEmbedding(messageId: string, content: string): Promise<void> {
         try {
+            const message = await db.query<{ conversation_id: string; turn_index: number }>(
+                `SELECT conversation_id, turn_index FROM messages WHERE id = $1`,
+                [messageId]
+            );
+            if (!message || message.rows.length === 0) {
+                logger.debug('[ChatContextBuilder] Message not found for embedding', { messageId });
+                return;
+            }
+
             const embeddingResult = await embeddingService.getEmbedding(content);
 
-            await db.query(
-                `UPDATE messages 
-         SET embedding = $1 
-         WHERE id = $2`,
-                [`[${embeddingResult.embedding.join(',')}]`, messageId]
-            );
+            await getVectorStore().upsert('messages', [{
+                id: messageId,
+                namespace: message.rows[0].conversation_id,
+                vector: embeddingResult.embedding,
+                model: embeddingResult.model,
+                metadata: { turnIndex: message.rows[0].turn_index },
+            }]);
 
             logger.debug('[ChatContextBuilder] Message embedding stored', { messageId });
 
@@ -991,45 +866,47 @@ Summary:`;
         let processed = 0;
 
         try {
-            // Find messages without embeddings
-            const result = await db.query<{ id: string; content: string }>(
-                `SELECT id, content 
+            const result = await db.query<{ id: string; content: string; turn_index: number }>(
+                `SELECT id, content, turn_index 
          FROM messages 
          WHERE conversation_id = $1 
-           AND embedding IS NULL 
-         ORDER BY turn_index ASC 
-         LIMIT $2`,
-                [conversationId, batchSize]
+         ORDER BY turn_index ASC`,
+                [conversationId]
             );
 
             if (!result || result.rows.length === 0) {
                 return 0;
             }
 
+            // Find messages without embeddings
+            const store = getVectorStore();
+            const embedded = await store.has('messages', result.rows.map(r => r.id));
+            const missing = result.rows.filter(r => !embedded.has(r.id)).slice(0, batchSize);
+
+            if (missing.length === 0) {
+                return 0;
+            }
+
             // Generate embeddings in batch
-            const texts = result.rows.map(r => r.content);
+            const texts = missing.map(r => r.content);
             const embeddings = await embeddingService.getBatchEmbeddings({ texts });
 
             // Store embeddings
-            for (let i = 0; i < result.rows.length; i++) {
-                const messageId = result.rows[i].id;
-                const embeddingResult = embeddings[i];
-
-                if (embeddingResult) {
-                    await db.query(
-                        `UPDATE messages 
-             SET embedding = $1 
-             WHERE id = $2`,
-                        [`[${embeddingResult.embedding.join(',')}]`, messageId]
-                    );
-                    processed++;
-                }
-            }
+            const records = missing.flatMap((row, i) => embeddings[i]
+                ? [{
+                    id: row.id,
+                    namespace: conversationId,
+                    vector: embeddings[i].embedding,
+                    model: embeddings[i].model,
+                    metadata: { turnIndex: row.turn_index },
+                }]
+                : []);
+            processed = await store.upsert('messages', records);
 
             logger.info('[ChatContextBuilder] Backfilled embeddings', {
                 conversationId,
                 processed,
-                total: result.rows.length,
+                total: missing.length,
             });
 
         } catch (error) {
@@ -1109,6 +986,7 @@ export async function resolveChatContextConfig(
                 spanBudgetRatio: Number(dbConfig.span_budget_ratio),
                 spanMinSimilarity: DEFAULT_CHAT_CONTEXT_CONFIG.spanMinSimilarity,
                 summarizationThreshold: dbConfig.summary_trigger_tokens,
+                summaryMaxTokens: DEFAULT_CHAT_CONTEXT_CONFIG.summaryMaxTokens,
                 systemPrompt: undefined,
             };
 
@@ -0,0 +1,455 @@
+/**
+ * ConversationSummarizer - Incremental summaries for the summary+recent strategy
+ *
+ * When the messages older than the recent window that no summary covers yet
+ * exceed the summarization threshold, they are summarized on an L0 model into a
+ * new versioned summary covering their turn range. Once the active summaries
+ * together exceed `summaryMaxTokens`, they are merged into one higher-level
+ * summary (hierarchical re-summarization), so very long threads keep a bounded
+ * summary. Older versions are kept with `superseded_by` set.
+ *
+ * The active summaries are rendered into `conversations.summary`, which
+ * ChatContextBuilder reads when building context.
+ *
+ * @module services/chat/ConversationSummarizer
+ */
+
+import { db } from '../../db/postgres.js';
+import { logger } from '../../logging/logger.js';
+import { estimateTokensSync } from './TokenEstimator.js';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * Thresholds for a summarization run (taken from ChatContextConfig)
+ */
+export interface SummarizationOptions {
+    /** Summarize once uncovered old messages exceed this many tokens */
+    summarizationThreshold: number;
+
+    /** Messages in the recent window, never summarized */
+    recentMaxMessages: number;
+
+    /** Merge the active summaries once together they exceed this many tokens */
+    summaryMaxTokens: number;
+}
+
+/**
+ * A stored summary covering a range of turns
+ */
+export interface SummarySegment {
+    version: number;
+    level: number;
+    startTurn: number;
+    endTurn: number;
+    content: string;
+    tokenEstimate: number;
+    sourceCount: number;
+    modelId?: string;
+    supersededBy?: number;
+    createdAt: string;
+}
+
+/**
+ * Summary state of a conversation, as exposed by GET /v1/context/:conversationId
+ */
+export interface ConversationSummaryState {
+    conversationId: string;
+    summary?: string;
+    tokenEstimate: number;
+    coveredThroughTurn?: number;
+    segments: SummarySegment[];
+    versionCount: number;
+    inProgress: boolean;
+}
+
+/**
+ * Produces a summary from a prompt
+ */
+export type SummarizeFn = (prompt: string) => Promise<{ content: string; modelId?: string }>;
+
+interface MessageRow {
+    id: string;
+    role: string;
+    content: string;
+    turn_index: number;
+    token_estimate?: number;
+}
+
+interface SummaryRow {
+    version: number;
+    level: number;
+    start_turn: number;
+    end_turn: number;
+    content: string;
+    token_estimate: number;
+    source_count: number;
+    model_id: string | null;
+    superseded_by: number | null;
+    created_at: Date;
+}
+
+function toSegment(row: SummaryRow): SummarySegment {
+    return {
+        version: row.version,
+        level: row.level,
+        startTurn: row.start_turn,
+        endTurn: row.end_turn,
+        content: row.content,
+        tokenEstimate: row.token_estimate,
+        sourceCount: row.source_count,
+        modelId: row.model_id ?? undefined,
+        supersededBy: row.superseded_by ?? undefined,
+        createdAt: row.created_at.toISOString(),
+    };
+}
+
+/**
+ * Render active summaries, oldest first, as the conversation summary
+ */
+export function renderSummary(segments: SummarySegment[]): string {
+    if (segments.length === 1) {
+        return segments[0].content;
+    }
+    return segments
+        .map(s => `[Turns ${s.startTurn}-${s.endTurn}]\n${s.content}`)
+        .join('\n\n');
+}
+
+/**
+ * Summarize on an L0 model through the router
+ */
+async function summarizeWithL0(prompt: string): Promise<{ content: string; modelId?: string }> {
+    const { routeRequest } = await import('../../routing/router.js');
+
+    const result = await routeRequest(
+        { prompt },
+        {
+            quality: 'normal',
+            complexity: 'low',
+            taskType: 'general',
+            preferredLayer: 'L0',
+            semanticCache: false,
+        }
+    );
+    return { content: result.content, modelId: result.modelId };
+}
+
+/**
+ * Simple extractive summary, used when the LLM is unavailable
+ */
+function createExtractiveSummary(messages: Array<{ role: string; content: string }>): string {
+    const parts: string[] = [];
+
+    if (messages.length > 0) {
+        parts.push(`Initial topic: ${messages[0].content.slice(0, 200)}...`);
+    }
+
+    if (messages.length > 2) {
+        const midpoint = Math.floor(messages.length / 2);
+        parts.push(`Mid-conversation: ${messages[midpoint].content.slice(0, 150)}...`);
+    }
+
+    if (messages.length > 1) {
+        const last = messages[messages.length - 1];
+        parts.push(`Recent context: ${last.content.slice(0, 200)}...`);
+    }
+
+    parts.push(`Total exchanges: ${messages.length} messages`);
+
+    return parts.join('\n\n');
+}
+
+// ============================================================================
+// ConversationSummarizer Class
+// ============================================================================
+
+export class ConversationSummarizer {
+    private running: Map<string, Promise<SummarySegment | null>> = new Map();
+
+    constructor(private summarize: SummarizeFn = summarizeWithL0) { }
+
+    /**
+     * Summarize in the background (non-blocking); errors are logged
+     */
+    schedule(conversationId: string, options: SummarizationOptions): void {
+        this.summarizeIfNeeded(conversationId, options).catch(error => {
+            logger.error('[ConversationSummarizer] Background summarization failed', {
+                conversationId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        });
+    }
+
+    /**
+     * Summarize uncovered old messages if they exceed the threshold, then merge
+     * summaries if needed. Concurrent calls for a conversation share one run.
+     * Returns the newest summary written, or null if nothing was due.
+     */
+    async summarizeIfNeeded(conversationId: string, options: SummarizationOptions): Promise<SummarySegment | null> {
+        const inFlight = this.running.get(conversationId);
+        if (inFlight) {
+            return inFlight;
+        }
+
+        const run = this.run(conversationId, options).finally(() => {
+            this.running.delete(conversationId);
+        });
+        this.running.set(conversationId, run);
+        return run;
+    }
+
+    /**
+     * Current summary state of a conversation
+     */
+    async getState(conversationId: string): Promise<ConversationSummaryState> {
+        const result = await db.query<SummaryRow>(
+            `SELECT version, level, start_turn, end_turn, content, token_estimate, source_count,
+                    model_id, superseded_by, created_at
+             FROM conversation_summaries
+             WHERE conversation_id = $1
+             ORDER BY version ASC`,
+            [conversationId]
+        );
+        const all = result?.rows.map(toSegment) ?? [];
+        const active = all
+            .filter(s => s.supersededBy === undefined)
+            .sort((a, b) => a.startTurn - b.startTurn);
+        const summary = active.length > 0 ? renderSummary(active) : undefined;
+
+        return {
+            conversationId,
+            summary,
+            tokenEstimate: summary ? estimateTokensSync(summary) : 0,
+            coveredThroughTurn: active.length > 0 ? active[active.length - 1].endTurn : undefined,
+            segments: active,
+            versionCount: all.length,
+            inProgress: this.running.has(conversationId),
+        };
+    }
+
+    private async run(conversationId: string, options: SummarizationOptions): Promise<SummarySegment | null> {
+        if (!db.isReady()) {
+            return null;
+        }
+
+        let active = await this.loadActiveSegments(conversationId);
+        const coveredThrough = active.length > 0 ? active[active.length - 1].endTurn : -1;
+
+        const pending = await this.loadUncoveredMessages(conversationId, coveredThrough, options.recentMaxMessages);
+        const pendingTokens = pending.reduce((sum, m) =>
+            sum + (m.token_estimate || estimateTokensSync(m.content)), 0
+        );
+        if (pendingTokens <= options.summarizationThreshold) {
+            return null;
+        }
+
+        logger.info('[ConversationSummarizer] Summarizing turns', {
+            conversationId,
+            fromTurn: pending[0].turn_index,
+            toTurn: pending[pending.length - 1].turn_index,
+            messageCount: pending.length,
+            pendingTokens,
+        });
+
+        const transcript = pending.map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n\n');
+        const earlier = active.length > 0
+            ? `Summary of the earlier conversation, for context only (do not repeat it):\n${renderSummary(active)}\n\n`
+            : '';
+        const { content, modelId } = await this.generate(
+            `${earlier}Please provide a concise summary of the following conversation turns,
+capturing the key points, decisions made, and important context that would be helpful
+for continuing the conversation. Keep the summary under 300 words.
+
+Conversation:
+${transcript}
+
+Summary:`,
+            pending
+        );
+
+        let latest = await this.storeSegment(conversationId, {
+            level: 0,
+            startTurn: pending[0].turn_index,
+            endTurn: pending[pending.length - 1].turn_index,
+            content,
+            sourceCount: pending.length,
+            modelId,
+        });
+        await db.query(
+            `UPDATE messages SET is_summarized = true WHERE id = ANY($1)`,
+            [pending.map(m => m.id)]
+        );
+        active = [...active, latest];
+
+        // Hierarchical re-summarization keeps long threads within budget
+        const activeTokens = active.reduce((sum, s) => sum + s.tokenEstimate, 0);
+        if (active.length > 1 && activeTokens > options.summaryMaxTokens) {
+            latest = await this.mergeSegments(conversationId, active);
+            active = [latest];
+        }
+
+        await this.publish(conversationId, active);
+        return latest;
+    }
+
+    /**
+     * Merge summaries into one higher-level summary and supersede them
+     */
+    private async mergeSegments(conversationId: string, segments: SummarySegment[]): Promise<SummarySegment> {
+        logger.info('[ConversationSummarizer] Merging summaries', {
+            conversationId,
+            versions: segments.map(s => s.version),
+        });
+
+        const { content, modelId } = await this.generate(
+            `Combine the following summaries of consecutive parts of one conversation into a single
+concise summary. Keep decisions, open questions and facts needed to continue the conversation.
+Keep the summary under 400 words.
+
+${renderSummary(segments)}
+
+Summary:`,
+            segments.map(s => ({ role: 'summary', content: s.content }))
+        );
+
+        const merged = await this.storeSegment(conversationId, {
+            level: Math.max(...segments.map(s => s.level)) + 1,
+            startTurn: segments[0].startTurn,
+            endTurn: segments[segments.length - 1].endTurn,
+            content,
+            sourceCount: segments.length,
+            modelId,
+        });
+
+        await db.query(
+            `UPDATE conversation_summaries SET superseded_by = $2
+             WHERE conversation_id = $1 AND version = ANY($3)`,
+            [conversationId, merged.version, segments.map(s => s.version)]
+        );
+
+        return merged;
+    }
+
+    private async generate(
+        prompt: string,
+        sources: Array<{ role: string; content: string }>
+    ): Promise<{ content: string; modelId?: string }> {
+        try {
+            return await this.summarize(prompt);
+        } catch (error) {
+            // Fallback to extractive summary if LLM fails
+            logger.warn('[ConversationSummarizer] LLM summarization failed, using extractive', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return { content: createExtractiveSummary(sources) };
+        }
+    }
+
+    // --------------------------------------------------------------------------
+    // Database Helpers
+    // --------------------------------------------------------------------------
+
+    private async loadActiveSegments(conversationId: string): Promise<SummarySegment[]> {
+        const result = await db.query<SummaryRow>(
+            `SELECT version, level, start_turn, end_turn, content, token_estimate, source_count,
+                    model_id, superseded_by, created_at
+             FROM conversation_summaries
+             WHERE conversation_id = $1 AND superseded_by IS NULL
+             ORDER BY start_turn ASC`,
+            [conversationId]
+        );
+        if (!result) {
+            throw new Error(`Failed to load summaries for conversation ${conversationId}`);
+        }
+        return result.rows.map(toSegment);
+    }
+
+    /**
+     * Messages after `afterTurn` that are older than the recent window
+     */
+    private async loadUncoveredMessages(
+        conversationId: string,
+        afterTurn: number,
+        recentCount: number
+    ): Promise<MessageRow[]> {
+        const result = await db.query<MessageRow>(
+            `WITH recent AS (
+                SELECT turn_index FROM messages
+                WHERE conversation_id = $1
+                ORDER BY turn_index DESC
+                LIMIT $2
+             )
+             SELECT id, role, content, turn_index, token_estimate
+             FROM messages
+             WHERE conversation_id = $1
+               AND turn_index > $3
+               AND turn_index < COALESCE((SELECT MIN(turn_index) FROM recent), 2147483647)
+             ORDER BY turn_index ASC`,
+            [conversationId, recentCount, afterTurn]
+        );
+        if (!result) {
+            throw new Error(`Failed to load messages for conversation ${conversationId}`);
+        }
+        return result.rows;
+    }
+
+    private async storeSegment(
+        conversationId: string,
+        segment: Omit<SummarySegment, 'version' | 'tokenEstimate' | 'createdAt' | 'supersededBy'>
+    ): Promise<SummarySegment> {
+        const result = await db.query<SummaryRow>(
+            `INSERT INTO conversation_summaries
+                (conversation_id, version, level, start_turn, end_turn, content, token_estimate, source_count, model_id)
+             SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6, $7, $8
+             FROM conversation_summaries WHERE conversation_id = $1
+             RETURNING *`,
+            [
+                conversationId,
+                segment.level,
+                segment.startTurn,
+                segment.endTurn,
+                segment.content,
+                estimateTokensSync(segment.content),
+                segment.sourceCount,
+                segment.modelId ?? null,
+            ]
+        );
+        if (!result) {
+            throw new Error(`Failed to store summary for conversation ${conversationId}`);
+        }
+        return toSegment(result.rows[0]);
+    }
+
+    /**
+     * Write the rendered active summaries to the conversation
+     */
+    private async publish(conversationId: string, active: SummarySegment[]): Promise<void> {
+        const summary = renderSummary(active);
+        const summaryTokens = estimateTokensSync(summary);
+
+        await db.query(
+            `UPDATE conversations
+             SET summary = $1,
+                 summary_token_estimate = $2,
+                 summary_updated_at = NOW()
+             WHERE id = $3`,
+            [summary, summaryTokens, conversationId]
+        );
+
+        logger.info('[ConversationSummarizer] Summary updated', {
+            conversationId,
+            summaryTokens,
+            segments: active.length,
+            coveredThroughTurn: active[active.length - 1].endTurn,
+        });
+    }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const conversationSummarizer = new ConversationSummarizer();
@@ -6,6 +6,7 @@
  * - OpenAI text-embedding-3-small (1536 dimensions)
  * - OpenAI text-embedding-ada-002 (1536 dimensions)
  * - Local/OSS models via Ollama
+ * - In-process ONNX models with no network access (`local`, see LocalEmbedder)
  * 
  * Features:
  * - Automatic retry with exponential backoff
@@ -25,6 +26,7 @@ import { logger } from '../../logging/logger.js';
 import { env } from '../../config/env.js';
 import { redisCache } from '../../cache/redis.js';
 import { providerManager } from '../../config/provider-manager.js';
+import { LocalEmbedder } from './LocalEmbedder.js';
 import crypto from 'crypto';
 
 /**
@@ -32,6 +34,16 @@ import crypto from 'crypto';
  */
 export type EmbeddingProvider = 'openai' | 'openrouter' | 'ollama' | 'local';
 
+/**
+ * Default model and its dimension per provider
+ */
+const PROVIDER_DEFAULTS: Record<EmbeddingProvider, { modelId: string; dimension: number }> = {
+    openai: { modelId: 'text-embedding-3-small', dimension: 1536 },
+    openrouter: { modelId: 'text-embedding-3-small', dimension: 1536 },
+    ollama: { modelId: 'nomic-embed-text', dimension: 768 },
+    local: { modelId: 'Xenova/all-MiniLM-L6-v2', dimension: 384 },
+};
+
 /**
  * Embedding service configuration
  */
@@ -44,13 +56,13 @@ export interface EmbeddingServiceConfig {
 
     /**
      * Model ID for embedding generation
-     * @default 'text-embedding-3-small'
+     * @default the provider's default model (e.g. 'text-embedding-3-small')
      */
     modelId?: string;
 
     /**
      * Expected embedding dimension
-     * @default 1536
+     * @default the provider's default model dimension (e.g. 1536)
      */
     dimension?: number;
 
@@ -86,6 +98,7 @@ export interface EmbeddingResult {
     embedding: number[];
     model: string;
     provider: EmbeddingProvider;
+    dimension: number; // Only vectors of the same model and dimension are comparable
     cached: boolean;
     tokens?: number;
 }
@@ -106,12 +119,18 @@ export class EmbeddingService {
     private config: Required<EmbeddingServiceConfig>;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private openaiClient: any = null;
+    private localEmbedder: LocalEmbedder | null = null;
 
     constructor(config: EmbeddingServiceConfig = {}) {
+        const provider = (env.EMBEDDING_PROVIDER as EmbeddingProvider) || config.provider || 'openai';
+        const defaults = PROVIDER_DEFAULTS[provider];
+        const modelId = env.EMBEDDING_MODEL_ID || config.modelId || defaults.modelId;
+
         this.config = {
-            provider: (env.EMBEDDING_PROVIDER as EmbeddingProvider) || config.provider || 'openai',
-            modelId: env.EMBEDDING_MODEL_ID || config.modelId || 'text-embedding-3-small',
-            dimension: config.dimension ?? 1536,
+            provider,
+            modelId,
+            // The default dimension only applies to the default model
+            dimension: config.dimension ?? (modelId === defaults.modelId ? defaults.dimension : 0),
             maxRetries: config.maxRetries ?? 3,
             retryDelayMs: config.retryDelayMs ?? 1000,
             enableCache: config.enableCache ?? true,
@@ -152,13 +171,28 @@ export class EmbeddingService {
         return this.openaiClient;
     }
 
+    /**
+     * Get or create the in-process embedder
+     */
+    private getLocalEmbedder(): LocalEmbedder {
+        if (!this.localEmbedder) {
+            this.localEmbedder = new LocalEmbedder({
+                modelId: this.config.modelId,
+                modelPath: env.LOCAL_EMBEDDING_MODEL_PATH,
+                allowDownload: env.LOCAL_EMBEDDING_ALLOW_DOWNLOAD,
+                batchSize: env.LOCAL_EMBEDDING_BATCH_SIZE,
+            });
+        }
+        return this.localEmbedder;
+    }
+
     /**
      * Generate cache key for a text
      */
     private getCacheKey(text: string): string {
-        // Use a hash of the text + model for cache key
+        // Use a hash of the text + provider/model for cache key
         const hash = crypto.createHash('sha256').update(text).digest('hex').substring(0, 16);
-        return `embedding:${this.config.modelId}:${hash}`;
+        return `embedding:${this.config.provider}:${this.config.modelId}:${hash}`;
     }
 
     /**
@@ -260,6 +294,14 @@ export class EmbeddingService {
         };
     }
 
+    /**
+     * Generate embedding in-process
+     */
+    private async getEmbeddingLocal(text: string): Promise<{ embedding: number[]; tokens: number }> {
+        const [embedding] = await this.getLocalEmbedder().embed([text]);
+        return { embedding, tokens: 0 };
+    }
+
     /**
      * Generate embedding with retry logic
      */
@@ -268,8 +310,10 @@ export class EmbeddingService {
         provider: EmbeddingProvider
     ): Promise<{ embedding: number[]; tokens: number }> {
         let lastError: Error | null = null;
+        // In-process failures (missing model) are not transient
+        const maxRetries = provider === 'local' ? 1 : this.config.maxRetries;
 
-        for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+        for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
                 switch (provider) {
                     case 'openai':
@@ -277,8 +321,9 @@ export class EmbeddingService {
                     case 'openrouter':
                         return await this.getEmbeddingOpenRouter(text);
                     case 'ollama':
-                    case 'local':
                         return await this.getEmbeddingOllama(text);
+                    case 'local':
+                        return await this.getEmbeddingLocal(text);
                     default:
                         throw new Error(`Unknown embedding provider: ${provider}`);
                 }
@@ -287,12 +332,12 @@ export class EmbeddingService {
 
                 logger.warn('EmbeddingService: Attempt failed', {
                     attempt,
-                    maxRetries: this.config.maxRetries,
+                    maxRetries,
                     provider,
                     error: lastError.message,
                 });
 
-                if (attempt < this.config.maxRetries) {
+                if (attempt < maxRetries) {
                     const delay = this.config.retryDelayMs * Math.pow(2, attempt - 1);
                     await this.sleep(delay);
                 }
@@ -309,12 +354,7 @@ export class EmbeddingService {
      * @returns Embedding result with metadata
      */
     async getEmbedding(text: string): Promise<EmbeddingResult> {
-        if (!text || text.trim().length === 0) {
-            throw new Error('Cannot generate embedding for empty text');
-        }
-
-        // Normalize text (trim whitespace, remove excessive newlines)
-        const normalizedText = text.trim().replace(/\n{3,}/g, '\n\n');
+        const normalizedText = this.normalizeText(text);
 
         // Check cache first
         const cached = await this.getFromCache(normalizedText);
@@ -322,25 +362,12 @@ export class EmbeddingService {
             logger.debug('EmbeddingService: Cache hit', {
                 textLength: normalizedText.length,
             });
-            return {
-                embedding: cached,
-                model: this.config.modelId,
-                provider: this.config.provider,
-                cached: true,
-            };
+            return this.toResult(cached, true);
         }
 
         // Generate embedding
         const result = await this.getEmbeddingWithRetry(normalizedText, this.config.provider);
 
-        // Validate dimension
-        if (result.embedding.length !== this.config.dimension) {
-            logger.warn('EmbeddingService: Unexpected embedding dimension', {
-                expected: this.config.dimension,
-                actual: result.embedding.length,
-            });
-        }
-
         // Cache the result
         await this.saveToCache(normalizedText, result.embedding);
 
@@ -350,12 +377,36 @@ export class EmbeddingService {
             dimension: result.embedding.length,
         });
 
+        return this.toResult(result.embedding, false, result.tokens);
+    }
+
+    /**
+     * Trim whitespace and excessive newlines; empty text cannot be embedded
+     */
+    private normalizeText(text: string): string {
+        if (!text || text.trim().length === 0) {
+            throw new Error('Cannot generate embedding for empty text');
+        }
+        return text.trim().replace(/\n{3,}/g, '\n\n');
+    }
+
+    private toResult(embedding: number[], cached: boolean, tokens?: number): EmbeddingResult {
+        // Validate dimension
+        if (this.config.dimension && embedding.length !== this.config.dimension) {
+            logger.warn('EmbeddingService: Unexpected embedding dimension', {
+                model: this.config.modelId,
+                expected: this.config.dimension,
+                actual: embedding.length,
+            });
+        }
+
         return {
-            embedding: result.embedding,
+            embedding,
             model: this.config.modelId,
             provider: this.config.provider,
-            cached: false,
-            tokens: result.tokens,
+            dimension: embedding.length,
+            cached,
+            tokens,
         };
     }
 
@@ -366,6 +417,10 @@ export class EmbeddingService {
      * @returns Array of embedding results
      */
     async getBatchEmbeddings(request: BatchEmbeddingRequest): Promise<EmbeddingResult[]> {
+        if (this.config.provider === 'local') {
+            return this.getBatchEmbeddingsLocal(request);
+        }
+
         const results: EmbeddingResult[] = [];
 
         // Process in parallel with concurrency limit
@@ -386,6 +441,40 @@ export class EmbeddingService {
         return results;
     }
 
+    /**
+     * Batch for the in-process model: cached texts are skipped and the rest
+     * run through the model in batches of LOCAL_EMBEDDING_BATCH_SIZE
+     */
+    private async getBatchEmbeddingsLocal(request: BatchEmbeddingRequest): Promise<EmbeddingResult[]> {
+        const texts = request.texts.map(text => this.normalizeText(text));
+        const results: Array<EmbeddingResult | undefined> = new Array(texts.length);
+        const pending: number[] = [];
+
+        for (let i = 0; i < texts.length; i++) {
+            const cached = request.skipCache ? null : await this.getFromCache(texts[i]);
+            if (cached) {
+                results[i] = this.toResult(cached, true);
+            } else {
+                pending.push(i);
+            }
+        }
+
+        if (pending.length > 0) {
+            const embeddings = await this.getLocalEmbedder().embed(pending.map(i => texts[i]));
+            for (const [n, i] of pending.entries()) {
+                await this.saveToCache(texts[i], embeddings[n]);
+                results[i] = this.toResult(embeddings[n], false, 0);
+            }
+
+            logger.debug('EmbeddingService: Generated local batch', {
+                texts: texts.length,
+                generated: pending.length,
+            });
+        }
+
+        return results.filter((r): r is EmbeddingResult => r !== undefined);
+    }
+
     /**
      * Calculate cosine similarity between two embeddings
      */
@@ -0,0 +1,82 @@
+/**
+ * @file Local Embedder
+ * @description Runs a sentence-embedding model in-process on CPU (ONNX Runtime
+ * through transformers.js), so embeddings need no network access.
+ *
+ * Models are read from `<modelPath>/<modelId>/` in the Hugging Face layout
+ * (config.json, tokenizer.json, onnx/model.onnx), e.g.
+ * `models/Xenova/all-MiniLM-L6-v2/`. With `allowDownload` a missing model is
+ * fetched from the Hugging Face Hub into the same directory once.
+ *
+ * Embeddings are mean-pooled and L2-normalized.
+ */
+
+import { logger } from '../../logging/logger.js';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+
+export interface LocalEmbedderOptions {
+    modelId: string;
+    modelPath: string;
+    allowDownload: boolean;
+    /** Texts per forward pass */
+    batchSize: number;
+}
+
+export class LocalEmbedder {
+    private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+    constructor(private options: LocalEmbedderOptions) { }
+
+    /**
+     * Embed texts in batches; results are in input order
+     */
+    async embed(texts: string[]): Promise<number[][]> {
+        const extractor = await this.load();
+        const embeddings: number[][] = [];
+
+        for (let i = 0; i < texts.length; i += this.options.batchSize) {
+            const output = await extractor(texts.slice(i, i + this.options.batchSize), {
+                pooling: 'mean',
+                normalize: true,
+            });
+            embeddings.push(...(output.tolist() as number[][]));
+        }
+
+        return embeddings;
+    }
+
+    /**
+     * Load the model once; a failed load is retried on the next call
+     */
+    private load(): Promise<FeatureExtractionPipeline> {
+        if (!this.extractor) {
+            this.extractor = this.createExtractor().catch((error) => {
+                this.extractor = null;
+                throw error;
+            });
+        }
+        return this.extractor;
+    }
+
+    private async createExtractor(): Promise<FeatureExtractionPipeline> {
+        const { modelId, modelPath, allowDownload } = this.options;
+        const start = Date.now();
+
+        const { env: transformersEnv, pipeline } = await import('@huggingface/transformers');
+        transformersEnv.allowLocalModels = true;
+        transformersEnv.localModelPath = modelPath;
+        transformersEnv.allowRemoteModels = allowDownload;
+        transformersEnv.cacheDir = modelPath;
+
+        try {
+            const extractor = await pipeline('feature-extraction', modelId, { device: 'cpu', dtype: 'fp32' });
+            logger.info('[LocalEmbedder] Model loaded', { modelId, modelPath, durationMs: Date.now() - start });
+            return extractor;
+        } catch (error) {
+            const hint = allowDownload ? '' : ' (place the model there or set LOCAL_EMBEDDING_ALLOW_DOWNLOAD=true)';
+            throw new Error(
+                `Failed to load local embedding model ${modelId} from ${modelPath}${hint}: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+}
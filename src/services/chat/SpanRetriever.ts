@@ -1,7 +1,7 @@
 /**
  * @file Span Retriever Service
  * @description Retrieves semantically relevant message spans from conversation history
- * using pgvector similarity search.
+ * using similarity search in the configured vector store.
  * 
  * **Span Retrieval Algorithm:**
  * 1. Generate embedding for the query (user's current message)
@@ -28,6 +28,7 @@ import { db } from '../../db/postgres.js';
 import { logger } from '../../logging/logger.js';
 import { EmbeddingService, embeddingService } from './EmbeddingService.js';
 import { TokenEstimator, tokenEstimator } from './TokenEstimator.js';
+import { getVectorStore, type VectorStore } from '../vector/index.js';
 
 /**
  * Retrieved message from database
@@ -42,6 +43,11 @@ export interface RetrievedMessage {
     isAnchor?: boolean;  // Whether this message was a direct similarity hit
 }
 
+/**
+ * Direct similarity hit, expanded into a span
+ */
+type MessageAnchor = Pick<RetrievedMessage, 'id' | 'turnIndex' | 'similarity'>;
+
 /**
  * Span of continuous messages
  */
@@ -95,6 +101,7 @@ export interface SpanRetrievalRequest {
     conversationId: string;
     queryText?: string;
     queryEmbedding?: number[];
+    queryModel?: string;  // Model of queryEmbedding; vectors of other models are skipped
     excludeTurnIndex?: number;  // Exclude current message
     config?: SpanRetrievalConfig;
 }
@@ -128,81 +135,48 @@ const DEFAULT_CONFIG: Required<SpanRetrievalConfig> = {
 export class SpanRetriever {
     private embeddingService: EmbeddingService;
     private tokenEstimator: TokenEstimator;
+    private vectorStore: VectorStore;
 
     constructor(
         embeddingSvc?: EmbeddingService,
-        tokenEst?: TokenEstimator
+        tokenEst?: TokenEstimator,
+        store?: VectorStore
     ) {
         this.embeddingService = embeddingSvc || embeddingService;
         this.tokenEstimator = tokenEst || tokenEstimator;
+        this.vectorStore = store || getVectorStore();
     }
 
     /**
-     * Find semantically similar messages using pgvector
+     * Find semantically similar messages in the vector store
      */
     private async findSimilarMessages(
         conversationId: string,
         queryEmbedding: number[],
         topK: number,
         excludeTurnIndex?: number,
-        minSimilarity?: number
-    ): Promise<RetrievedMessage[]> {
-        // Format embedding for PostgreSQL vector type
-        const embeddingStr = EmbeddingService.formatForPostgres(queryEmbedding);
-
-        // Query using pgvector's <=> operator (cosine distance)
-        // Convert to similarity by using 1 - distance
-        const query = `
-            SELECT 
-                id,
-                role,
-                content,
-                turn_index as "turnIndex",
-                token_estimate as "tokenEstimate",
-                1 - (embedding <=> $2::vector) as similarity
-            FROM messages
-            WHERE conversation_id = $1
-              AND embedding IS NOT NULL
-              ${excludeTurnIndex !== undefined ? `AND turn_index < $4` : ''}
-              ${minSimilarity !== undefined ? `AND 1 - (embedding <=> $2::vector) >= $${excludeTurnIndex !== undefined ? 5 : 4}` : ''}
-            ORDER BY embedding <=> $2::vector
-            LIMIT $3
-        `;
-
-        const params: (string | number)[] = [conversationId, embeddingStr, topK];
-        if (excludeTurnIndex !== undefined) {
-            params.push(excludeTurnIndex);
-        }
-        if (minSimilarity !== undefined) {
-            params.push(minSimilarity);
-        }
-
+        minSimilarity?: number,
+        queryModel?: string
+    ): Promise<MessageAnchor[]> {
         try {
-            const result = await db.query<{
-                id: string;
-                role: string;
-                content: string;
-                turnIndex: number;
-                tokenEstimate: number | null;
-                similarity: number;
-            }>(query, params);
-
-            if (!result || result.rows.length === 0) {
-                return [];
-            }
+            const matches = await this.vectorStore.search('messages', {
+                vector: queryEmbedding,
+                topK,
+                namespace: conversationId,
+                minSimilarity,
+                model: queryModel,
+                where: excludeTurnIndex !== undefined ? { turnIndex: { lt: excludeTurnIndex } } : undefined,
+            });
 
-            return result.rows.map(row => ({
-                id: row.id,
-                role: row.role as RetrievedMessage['role'],
-                content: row.content,
-                turnIndex: row.turnIndex,
-                tokenEstimate: row.tokenEstimate,
-                similarity: row.similarity,
-                isAnchor: true,
+            return matches.map(match => ({
+                id: match.id,
+                turnIndex: Number(match.metadata.turnIndex),
+                similarity: match.similarity,
             }));
         } catch (error) {
-            logger.error('SpanRetriever: pgvector query failed', {
+            logger.error('SpanRetriever: vector search failed', {
                 conversationId,
+                backend: this.vectorStore.backend,
                 error: error instanceof Error ? error.message : 'Unknown',
             });
             throw error;
@@ -309,7 +283,7 @@ export class SpanRetriever {
      */
     private async expandToSpans(
         conversationId: string,
-        anchors: RetrievedMessage[],
+        anchors: MessageAnchor[],
         radius: number,
         includeSystem: boolean
     ): Promise<MessageSpan[]> {
@@ -318,7 +292,7 @@ export class SpanRetriever {
         }
 
         // Calculate turn ranges for each anchor
-        const ranges: Array<{ start: number; end: number; anchor: RetrievedMessage }> = anchors.map(anchor => ({
+        const ranges: Array<{ start: number; end: number; anchor: MessageAnchor }> = anchors.map(anchor => ({
             start: Math.max(0, anchor.turnIndex - radius),
             end: anchor.turnIndex + radius,
             anchor,
@@ -326,7 +300,7 @@ export class SpanRetriever {
 
         // Merge overlapping ranges
         ranges.sort((a, b) => a.start - b.start);
-        const mergedRanges: Array<{ start: number; end: number; anchors: RetrievedMessage[] }> = [];
+        const mergedRanges: Array<{ start: number; end: number; anchors: MessageAnchor[] }> = [];
 
         for (const range of ranges) {
             const last = mergedRanges[mergedRanges.length - 1];
@@ -483,10 +457,12 @@ export class SpanRetriever {
         try {
             // Get or generate query embedding
             let queryEmbedding = request.queryEmbedding;
+            let queryModel = request.queryModel;
 
             if (!queryEmbedding && request.queryText) {
                 const embeddingResult = await this.embeddingService.getEmbedding(request.queryText);
                 queryEmbedding = embeddingResult.embedding;
+                queryModel = embeddingResult.model;
             }
 
             if (!queryEmbedding) {
@@ -519,13 +495,14 @@ export class SpanRetriever {
                 };
             }
 
-            // Find similar messages using pgvector
+            // Find similar messages in the vector store
             const anchors = await this.findSimilarMessages(
                 request.conversationId,
                 queryEmbedding,
                 config.topK,
                 request.excludeTurnIndex,
-                config.minSimilarity
+                config.minSimilarity,
+                queryModel
             );
 
             if (anchors.length === 0) {
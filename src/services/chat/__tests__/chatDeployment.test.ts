@@ -258,8 +258,8 @@ describe('Chat Deployment Integration', () => {
     });
 
     describe('Execution Workflow', () => {
-        it('should create execution session', () => {
-            const session = executionManager.createSession('user123', '172.251.96.200', [
+        it('should create execution session', async () => {
+            const session = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
                 'cmd_002',
             ]);
@@ -269,62 +269,62 @@ describe('Chat Deployment Integration', () => {
             expect(session.commandIds.length).toBe(2);
         });
 
-        it('should retrieve session', () => {
-            const created = executionManager.createSession('user123', '172.251.96.200', [
+        it('should retrieve session', async () => {
+            const created = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
             ]);
-            const retrieved = executionManager.getSession(created.sessionId);
+            const retrieved = await executionManager.getSession(created.sessionId);
 
             expect(retrieved).toBeDefined();
             expect(retrieved?.sessionId).toBe(created.sessionId);
         });
 
-        it('should approve execution', () => {
-            const session = executionManager.createSession('user123', '172.251.96.200', [
+        it('should approve execution', async () => {
+            const session = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
                 'cmd_002',
             ]);
 
-            const approved = executionManager.approveExecution(session.sessionId);
+            const approved = await executionManager.approveExecution(session.sessionId);
 
             expect(approved).toBe(true);
 
-            const updated = executionManager.getSession(session.sessionId);
+            const updated = await executionManager.getSession(session.sessionId);
             expect(updated?.status).toBe('confirmed');
         });
 
-        it('should filter commands on approval', () => {
-            const session = executionManager.createSession('user123', '172.251.96.200', [
+        it('should filter commands on approval', async () => {
+            const session = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
                 'cmd_002',
                 'cmd_003',
             ]);
 
-            executionManager.approveExecution(session.sessionId, ['cmd_001', 'cmd_003']);
+            await executionManager.approveExecution(session.sessionId, ['cmd_001', 'cmd_003']);
 
-            const updated = executionManager.getSession(session.sessionId);
+            const updated = await executionManager.getSession(session.sessionId);
             expect(updated?.commandIds).toEqual(['cmd_001', 'cmd_003']);
         });
 
-        it('should cancel execution', () => {
-            const session = executionManager.createSession('user123', '172.251.96.200', [
+        it('should cancel execution', async () => {
+            const session = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
             ]);
 
-            const cancelled = executionManager.cancelExecution(session.sessionId, 'User rejected');
+            const cancelled = await executionManager.cancelExecution(session.sessionId, 'User rejected');
 
             expect(cancelled).toBe(true);
 
-            const updated = executionManager.getSession(session.sessionId);
+            const updated = await executionManager.getSession(session.sessionId);
             expect(updated?.status).toBe('cancelled');
         });
 
-        it('should record command results', () => {
-            const session = executionManager.createSession('user123', '172.251.96.200', [
+        it('should record command results', async () => {
+            const session = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
             ]);
 
-            const recorded = executionManager.recordResult(session.sessionId, 'cmd_001', {
+            const recorded = await executionManager.recordResult(session.sessionId, 'cmd_001', {
                 success: true,
                 stdout: 'Pool created',
                 exitCode: 0,
@@ -333,7 +333,7 @@ describe('Chat Deployment Integration', () => {
 
             expect(recorded).toBe(true);
 
-            const updated = executionManager.getSession(session.sessionId);
+            const updated = await executionManager.getSession(session.sessionId);
             expect(updated?.results?.length).toBe(1);
             expect(updated?.results?.[0]).toMatchObject({
                 commandId: 'cmd_001',
@@ -341,26 +341,26 @@ describe('Chat Deployment Integration', () => {
             });
         });
 
-        it('should complete session with success', () => {
-            const session = executionManager.createSession('user123', '172.251.96.200', [
+        it('should complete session with success', async () => {
+            const session = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
             ]);
 
-            executionManager.completeSession(session.sessionId, true);
+            await executionManager.completeSession(session.sessionId, true);
 
-            const updated = executionManager.getSession(session.sessionId);
+            const updated = await executionManager.getSession(session.sessionId);
             expect(updated?.status).toBe('completed');
             expect(updated?.endTime).toBeDefined();
         });
 
-        it('should complete session with error', () => {
-            const session = executionManager.createSession('user123', '172.251.96.200', [
+        it('should complete session with error', async () => {
+            const session = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
             ]);
 
-            executionManager.completeSession(session.sessionId, false, 'Connection timeout');
+            await executionManager.completeSession(session.sessionId, false, 'Connection timeout');
 
-            const updated = executionManager.getSession(session.sessionId);
+            const updated = await executionManager.getSession(session.sessionId);
             expect(updated?.status).toBe('failed');
             expect(updated?.errorMessage).toBe('Connection timeout');
         });
@@ -376,7 +376,7 @@ describe('Chat Deployment Integration', () => {
                 confidence: 0.9,
             });
 
-            const displayInfo = handler.getGenerationDisplay('test_gen_id');
+            const displayInfo = await handler.getGenerationDisplay('test_gen_id');
             if (!displayInfo?.sessionId) {
                 throw new Error('No session ID');
             }
@@ -395,7 +395,7 @@ describe('Chat Deployment Integration', () => {
                 confidence: 0.9,
             });
 
-            const displayInfo = handler.getGenerationDisplay('test_gen_id');
+            const displayInfo = await handler.getGenerationDisplay('test_gen_id');
             if (!displayInfo?.sessionId) {
                 throw new Error('No session ID');
             }
@@ -453,21 +453,21 @@ describe('Chat Deployment Integration', () => {
             expect(display).toContain('HIGH');
         });
 
-        it('should format execution results', () => {
-            const session = executionManager.createSession('user123', '172.251.96.200', [
+        it('should format execution results', async () => {
+            const session = await executionManager.createSession('user123', '172.251.96.200', [
                 'cmd_001',
             ]);
 
-            executionManager.recordResult(session.sessionId, 'cmd_001', {
+            await executionManager.recordResult(session.sessionId, 'cmd_001', {
                 success: true,
                 stdout: 'Success',
                 exitCode: 0,
                 duration: 100,
             });
 
-            executionManager.completeSession(session.sessionId, true);
+            await executionManager.completeSession(session.sessionId, true);
 
-            const updated = executionManager.getSession(session.sessionId);
+            const updated = await executionManager.getSession(session.sessionId);
             if (!updated) throw new Error('Session not found');
 
             const display = formatExecutionResults(updated);
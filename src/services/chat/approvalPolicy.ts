@@ -0,0 +1,152 @@
+/**
+ * @file Deployment Approval Policy
+ * @description Decides who may approve a chat deployment session and how
+ * many approvals it needs, based on the highest risk of its selected commands.
+ */
+
+import { env } from '../../config/env.js';
+import type { AdminUser } from '../../db/auth.js';
+import type { ApprovalRecord, ExecutionSession } from './commandExecution.js';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+export interface ApprovalRule {
+    /** Distinct approvers needed before the session is confirmed */
+    requiredApprovals: number;
+    /** Whether the user who requested the deployment counts as an approver */
+    allowRequester: boolean;
+    /** Roles allowed to approve; any role if omitted */
+    roles?: AdminUser['role'][];
+}
+
+export interface ApprovalPolicy {
+    rules: Record<RiskLevel, ApprovalRule>;
+    /** Pending sessions not approved within this window are cancelled */
+    expiresInMs: number;
+}
+
+/**
+ * The user deciding on a session (from the request's JWT)
+ */
+export interface Approver {
+    userId: string;
+    role?: string;
+}
+
+export interface ApprovalStatus {
+    risk: RiskLevel;
+    requiredApprovals: number;
+    receivedApprovals: number;
+    approvers: string[];
+    expiresAt?: string;
+}
+
+export function defaultApprovalPolicy(): ApprovalPolicy {
+    return {
+        rules: {
+            low: { requiredApprovals: 1, allowRequester: true },
+            medium: { requiredApprovals: 1, allowRequester: true },
+            high: { requiredApprovals: 1, allowRequester: false },
+            critical: { requiredApprovals: 2, allowRequester: false, roles: ['admin'] },
+        },
+        expiresInMs: env.DEPLOYMENT_APPROVAL_EXPIRY_MINUTES * 60 * 1000,
+    };
+}
+
+export type ApprovalErrorCode = 'invalid' | 'forbidden' | 'duplicate' | 'closed' | 'expired';
+
+/**
+ * Thrown when an approval is not allowed by the policy or the session state
+ */
+export class ApprovalPolicyError extends Error {
+    constructor(message: string, readonly code: ApprovalErrorCode) {
+        super(message);
+        this.name = 'ApprovalPolicyError';
+    }
+}
+
+function isRiskLevel(value: string): value is RiskLevel {
+    return (RISK_ORDER as string[]).includes(value);
+}
+
+/**
+ * Highest risk among the selected commands; sessions without command details are low risk
+ */
+export function sessionRisk(session: ExecutionSession, commandIds = session.commandIds): RiskLevel {
+    let risk: RiskLevel = 'low';
+    for (const command of session.commands ?? []) {
+        if (!commandIds.includes(command.id) || !isRiskLevel(command.riskLevel)) continue;
+        if (RISK_ORDER.indexOf(command.riskLevel) > RISK_ORDER.indexOf(risk)) {
+            risk = command.riskLevel;
+        }
+    }
+    return risk;
+}
+
+export function isApprovalExpired(session: ExecutionSession, now = Date.now()): boolean {
+    return session.approvalExpiresAt !== undefined && new Date(session.approvalExpiresAt).getTime() <= now;
+}
+
+function sameCommands(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+function isEligible(rule: ApprovalRule, session: ExecutionSession, userId: string, role?: string): boolean {
+    if (!rule.allowRequester && userId === session.userId) return false;
+    if (rule.roles && !rule.roles.some((allowed) => allowed === role)) return false;
+    return true;
+}
+
+/**
+ * Throw unless `approver` may approve `commandIds` on the session
+ */
+export function assertCanApprove(
+    policy: ApprovalPolicy,
+    session: ExecutionSession,
+    approver: Approver,
+    commandIds: string[],
+): void {
+    const risk = sessionRisk(session, commandIds);
+    const rule = policy.rules[risk];
+
+    if (!rule.allowRequester && approver.userId === session.userId) {
+        throw new ApprovalPolicyError(`${risk} risk deployments must be approved by someone other than the requester`, 'forbidden');
+    }
+    if (rule.roles && !rule.roles.some((allowed) => allowed === approver.role)) {
+        throw new ApprovalPolicyError(`${risk} risk deployments require an approver with role: ${rule.roles.join(', ')}`, 'forbidden');
+    }
+    if ((session.approvals ?? []).some((a) => a.approved && a.decidedBy === approver.userId && sameCommands(a.commandIds, commandIds))) {
+        throw new ApprovalPolicyError(`${approver.userId} has already approved this selection`, 'duplicate');
+    }
+}
+
+/**
+ * Count distinct eligible approvers of the current selection.
+ * Approvals given for a different selection do not count.
+ */
+export function getApprovalStatus(
+    policy: ApprovalPolicy,
+    session: ExecutionSession,
+    approvals: ApprovalRecord[] = session.approvals ?? [],
+): ApprovalStatus {
+    const risk = sessionRisk(session);
+    const rule = policy.rules[risk];
+
+    const approvers = new Set<string>();
+    for (const approval of approvals) {
+        if (!approval.approved || !sameCommands(approval.commandIds, session.commandIds)) continue;
+        if (isEligible(rule, session, approval.decidedBy, approval.role)) {
+            approvers.add(approval.decidedBy);
+        }
+    }
+
+    return {
+        risk,
+        requiredApprovals: rule.requiredApprovals,
+        receivedApprovals: approvers.size,
+        approvers: [...approvers],
+        expiresAt: session.approvalExpiresAt,
+    };
+}
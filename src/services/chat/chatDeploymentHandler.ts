@@ -24,6 +24,19 @@ import {
     formatExecutionResults,
     type ExecutionSession,
 } from './commandExecution.js';
+import type { ApprovalStatus, Approver } from './approvalPolicy.js';
+import {
+    runDeploymentSession,
+    type DeploymentRunOptions,
+    type DeploymentRunSummary,
+} from './deploymentExecutor.js';
+import type { CommandRunner } from '../../mikrotik/executor.js';
+import {
+    deploymentSessionStore,
+    type CommandHistoryEntry,
+    type CommandHistoryFilter,
+    type DeploymentSessionFilter,
+} from '../../db/deployment-sessions.js';
 
 /**
  * Deployment request detected from user message
@@ -44,7 +57,7 @@ export type DeploymentRequest = z.infer<typeof DeploymentRequestSchema>;
  */
 export class ChatDeploymentHandler {
     private executionManager: CommandExecutionManager;
-    private pendingGenerations: Map<string, CommandGenerationResponse> = new Map();
+    private pendingGenerations: Map<string, { response: CommandGenerationResponse; context: CommandGenerationContext }> = new Map();
 
     constructor() {
         this.executionManager = new CommandExecutionManager();
@@ -211,6 +224,7 @@ Common patterns:
                 targetDevice: deployment.targetDevice || '172.251.96.200',
                 deviceType: 'mikrotik',
                 connectionType: 'ssh',
+                connectionId: deployment.connectionId,
                 taskType: deployment.taskType || 'other',
                 details: {
                     userRequest: userMessage,
@@ -235,7 +249,7 @@ Common patterns:
 
             // Store for later reference
             const generationId = `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-            this.pendingGenerations.set(generationId, response);
+            this.pendingGenerations.set(generationId, { response, context });
 
             return { generationId, response };
         } catch (error) {
@@ -247,61 +261,115 @@ Common patterns:
     }
 
     /**
-     * Get generated commands for display
+     * Get generated commands for display.
+     * Creates the execution session, which stores the generated commands for confirmation.
      */
-    getGenerationDisplay(generationId: string): { display: string; sessionId?: string } | null {
-        const response = this.pendingGenerations.get(generationId);
-        if (!response) return null;
-
+    async getGenerationDisplay(
+        generationId: string,
+        userId = 'web-user'
+    ): Promise<{ display: string; sessionId?: string } | null> {
+        const generation = this.pendingGenerations.get(generationId);
+        if (!generation) return null;
+
+        const { response, context } = generation;
         const display = formatCommandsForDisplay(response);
 
         // Create execution session for confirmation
-        const session = this.executionManager.createSession(
-            'web-user',
-            response.commands[0]?.command || 'unknown',
-            response.commands.map(c => c.id)
+        const session = await this.executionManager.createSession(
+            userId,
+            context.targetDevice,
+            response.commands.map(c => c.id),
+            context.connectionId,
+            {
+                taskType: context.taskType,
+                taskDescription: response.taskDescription,
+                commands: response.commands.map(c => ({
+                    id: c.id,
+                    command: c.command,
+                    description: c.description,
+                    riskLevel: c.riskLevel,
+                    rollbackCommand: c.rollbackCommand,
+                })),
+            }
         );
 
         return { display, sessionId: session.sessionId };
     }
 
     /**
-     * Handle user confirmation or rejection
+     * Handle user confirmation or rejection.
+     * High/critical risk sessions may need further approvers before they are confirmed.
      */
     async handleUserConfirmation(
         sessionId: string,
         approved: boolean,
-        selectedCommandIds?: string[]
-    ): Promise<{ approved: boolean; session: ExecutionSession; message: string }> {
+        selectedCommandIds?: string[],
+        decidedBy: Approver = { userId: 'unknown' },
+        reason = 'User rejected execution'
+    ): Promise<{ approved: boolean; session: ExecutionSession; approval: ApprovalStatus; message: string }> {
+        const recorded = approved
+            ? await this.executionManager.approveExecution(sessionId, selectedCommandIds, decidedBy)
+            : await this.executionManager.rejectExecution(sessionId, decidedBy.userId, reason);
+
+        const session = await this.executionManager.getSession(sessionId);
+        if (!recorded || !session) {
+            throw new Error(`Session ${sessionId} not found`);
+        }
+        const approval = this.executionManager.getApprovalStatus(session);
+
         if (!approved) {
-            this.executionManager.cancelExecution(sessionId, 'User rejected execution');
             return {
                 approved: false,
-                session: this.executionManager.getSession(sessionId)!,
-                message: '❌ Deployment cancelled by user',
+                session,
+                approval,
+                message: `❌ Deployment cancelled by ${decidedBy.userId}: ${reason}`,
             };
         }
 
-        const approved_session = this.executionManager.approveExecution(sessionId, selectedCommandIds);
+        if (session.status !== 'confirmed') {
+            const remaining = approval.requiredApprovals - approval.receivedApprovals;
+            return {
+                approved: false,
+                session,
+                approval,
+                message: `⏳ Approval recorded (${approval.receivedApprovals}/${approval.requiredApprovals}). ` +
+                    `${approval.risk} risk deployment is waiting for ${remaining} more approver(s).`,
+            };
+        }
 
         return {
-            approved: approved_session,
-            session: this.executionManager.getSession(sessionId)!,
-            message: `✅ Deployment approved. Executing ${selectedCommandIds?.length || 0} commands...`,
+            approved: true,
+            session,
+            approval,
+            message: `✅ Deployment approved. Executing ${session.commandIds.length} commands...`,
         };
     }
 
     /**
      * Get execution session details
      */
-    getExecutionSession(sessionId: string): ExecutionSession | null {
-        return this.executionManager.getSession(sessionId) || null;
+    async getExecutionSession(sessionId: string): Promise<ExecutionSession | null> {
+        return (await this.executionManager.getSession(sessionId)) || null;
+    }
+
+    /**
+     * List sessions, newest first
+     */
+    async listExecutionSessions(filter: DeploymentSessionFilter): Promise<ExecutionSession[]> {
+        return deploymentSessionStore.list(filter);
+    }
+
+    /**
+     * Command execution history across sessions, newest first
+     */
+    async getCommandHistory(filter: CommandHistoryFilter): Promise<CommandHistoryEntry[]> {
+        return deploymentSessionStore.listResults(filter);
     }
 
     /**
      * Record command execution result
      */
-    recordExecutionResult(
+    async recordExecutionResult(
         sessionId: string,
         commandId: string,
         result: {
@@ -311,31 +379,42 @@ Common patterns:
             exitCode: number;
             duration: number;
         }
-    ): boolean {
+    ): Promise<boolean> {
         return this.executionManager.recordResult(sessionId, commandId, result);
     }
 
     /**
      * Finalize execution session
      */
-    finalizeExecution(sessionId: string, success: boolean, error?: string): ExecutionSession | null {
-        this.executionManager.completeSession(sessionId, success, error);
-        return this.executionManager.getSession(sessionId) || null;
+    async finalizeExecution(sessionId: string, success: boolean, error?: string): Promise<ExecutionSession | null> {
+        await this.executionManager.completeSession(sessionId, success, error);
+        return (await this.executionManager.getSession(sessionId)) || null;
     }
 
     /**
      * Get formatted results
      */
-    getResultsDisplay(sessionId: string): string | null {
-        const session = this.executionManager.getSession(sessionId);
+    async getResultsDisplay(sessionId: string): Promise<string | null> {
+        const session = await this.executionManager.getSession(sessionId);
         if (!session) return null;
         return formatExecutionResults(session);
     }
 
+    /**
+     * Run the approved commands of a confirmed session through `runner`
+     */
+    async executeSession(
+        sessionId: string,
+        runner: CommandRunner,
+        options: DeploymentRunOptions = {}
+    ): Promise<DeploymentRunSummary | undefined> {
+        return runDeploymentSession(this.executionManager, sessionId, runner, options);
+    }
+
     /**
      * Cancel ongoing execution
      */
-    cancelExecution(sessionId: string, reason?: string): boolean {
+    async cancelExecution(sessionId: string, reason?: string): Promise<boolean> {
         return this.executionManager.cancelExecution(sessionId, reason);
     }
 }
@@ -6,6 +6,48 @@
 
 import { z } from 'zod';
 import { logger } from '../../logging/logger.js';
+import { env } from '../../config/env.js';
+import { deploymentSessionStore } from '../../db/deployment-sessions.js';
+import { callN8nWebhook, hasN8nWebhook } from '../../agents/workflowOrchestrator.js';
+import {
+    ApprovalPolicyError,
+    assertCanApprove,
+    defaultApprovalPolicy,
+    getApprovalStatus,
+    isApprovalExpired,
+    type ApprovalPolicy,
+    type ApprovalStatus,
+    type Approver,
+} from './approvalPolicy.js';
+
+/**
+ * Result of one executed command
+ */
+export const ExecutionResultSchema = z.object({
+    commandId: z.string(),
+    success: z.boolean(),
+    stdout: z.string().optional(),
+    stderr: z.string().optional(),
+    exitCode: z.number(),
+    duration: z.number().describe('Milliseconds'),
+    timestamp: z.string().describe('ISO timestamp'),
+});
+
+export type ExecutionResult = z.infer<typeof ExecutionResultSchema>;
+
+/**
+ * An approve/reject decision on a session
+ */
+export const ApprovalRecordSchema = z.object({
+    approved: z.boolean(),
+    commandIds: z.array(z.string()),
+    decidedBy: z.string(),
+    role: z.string().optional().describe('Role of the approver at decision time'),
+    reason: z.string().optional(),
+    decidedAt: z.string().describe('ISO timestamp'),
+});
+
+export type ApprovalRecord = z.infer<typeof ApprovalRecordSchema>;
 
 /**
  * Command execution session
@@ -15,15 +57,32 @@ export const ExecutionSessionSchema = z.object({
     userId: z.string().describe('User who initiated execution'),
     targetDevice: z.string().describe('Target device IP/hostname'),
     connectionId: z.string().optional().describe('Saved connection ID'),
+    taskType: z.string().optional(),
+    taskDescription: z.string().optional(),
     startTime: z.string().describe('ISO timestamp'),
     endTime: z.string().optional().describe('ISO timestamp when completed'),
+    approvalExpiresAt: z.string().optional().describe('ISO timestamp after which a pending session can no longer be approved'),
     status: z.enum(['pending', 'confirmed', 'executing', 'completed', 'failed', 'cancelled']),
+    commands: z.array(z.object({
+        id: z.string(),
+        command: z.string(),
+        description: z.string(),
+        riskLevel: z.string(),
+        rollbackCommand: z.string().optional(),
+    })).optional().describe('Generated commands the session was created for'),
     commandIds: z.array(z.string()),
-    results: z.array(z.unknown()).optional(),
+    results: z.array(ExecutionResultSchema).optional(),
+    approvals: z.array(ApprovalRecordSchema).optional(),
     errorMessage: z.string().optional(),
 });
 
 export type ExecutionSession = z.infer<typeof ExecutionSessionSchema>;
+export type ExecutionStatus = ExecutionSession['status'];
+
+/**
+ * Approval workflow events sent to the deployment approval webhook
+ */
+export type ApprovalEvent = 'approval_requested' | 'approval_recorded' | 'approved' | 'rejected' | 'expired';
 
 /**
  * Command execution request to send to terminal
@@ -40,35 +99,40 @@ export const ExecutionRequestSchema = z.object({
 export type ExecutionRequest = z.infer<typeof ExecutionRequestSchema>;
 
 /**
- * Execution queue manager for handling multiple commands
+ * Execution queue manager for handling multiple commands.
+ * Sessions, approvals and results are kept in the deployment session store,
+ * so they survive restarts when the database is available.
+ * Approvals follow the ApprovalPolicy for the session's highest command risk.
  */
 export class CommandExecutionManager {
-    private sessions: Map<string, ExecutionSession> = new Map();
     private confirmationCallbacks: Map<string, (approved: boolean) => void> = new Map();
 
+    constructor(private policy: ApprovalPolicy = defaultApprovalPolicy()) { }
+
     /**
      * Create a new execution session
      */
-    createSession(
+    async createSession(
         userId: string,
         targetDevice: string,
         commandIds: string[],
-        connectionId?: string
-    ): ExecutionSession {
+        connectionId?: string,
+        details: Pick<ExecutionSession, 'taskType' | 'taskDescription' | 'commands'> = {}
+    ): Promise<ExecutionSession> {
         const sessionId = `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const now = Date.now();
 
-        const session: ExecutionSession = {
+        const session = await deploymentSessionStore.create({
             sessionId,
             userId,
             targetDevice,
             connectionId,
+            ...details,
             commandIds,
             status: 'pending',
-            startTime: new Date().toISOString(),
-            results: [],
-        };
-
-        this.sessions.set(sessionId, session);
+            startTime: new Date(now).toISOString(),
+            approvalExpiresAt: new Date(now + this.policy.expiresInMs).toISOString(),
+        });
 
         logger.info('[CommandExecutionManager] Created execution session', {
             sessionId,
@@ -77,58 +141,148 @@ export class CommandExecutionManager {
             commandCount: commandIds.length,
         });
 
+        // Ask for approvers when the requester cannot confirm the session alone
+        const status = this.getApprovalStatus(session);
+        const rule = this.policy.rules[status.risk];
+        if (rule.requiredApprovals > 1 || !rule.allowRequester) {
+            this.notify('approval_requested', session, status);
+        }
+
         return session;
     }
 
     /**
      * Get execution session
      */
-    getSession(sessionId: string): ExecutionSession | undefined {
-        return this.sessions.get(sessionId);
+    async getSession(sessionId: string): Promise<ExecutionSession | undefined> {
+        return deploymentSessionStore.get(sessionId);
     }
 
     /**
-     * Approve/confirm execution
+     * Approval progress of a session under the current policy
      */
-    approveExecution(sessionId: string, selectedCommandIds?: string[]): boolean {
-        const session = this.sessions.get(sessionId);
+    getApprovalStatus(session: ExecutionSession): ApprovalStatus {
+        return getApprovalStatus(this.policy, session);
+    }
+
+    /**
+     * Record an approval. The session is confirmed once the policy's
+     * required approvals are met; until then it stays pending.
+     * Throws ApprovalPolicyError if the approver or session state is not allowed.
+     */
+    async approveExecution(
+        sessionId: string,
+        selectedCommandIds?: string[],
+        approver: Approver = { userId: 'unknown' }
+    ): Promise<boolean> {
+        const session = await deploymentSessionStore.get(sessionId);
         if (!session) {
             logger.warn('[CommandExecutionManager] Session not found', { sessionId });
             return false;
         }
 
-        if (selectedCommandIds && selectedCommandIds.length > 0) {
-            session.commandIds = selectedCommandIds;
+        if (session.status !== 'pending') {
+            throw new ApprovalPolicyError(`Session ${sessionId} is ${session.status}`, 'closed');
+        }
+
+        if (isApprovalExpired(session)) {
+            await this.cancelExecution(sessionId, 'Approval window expired');
+            this.notify('expired', session, this.getApprovalStatus(session));
+            throw new ApprovalPolicyError(`Approval window for session ${sessionId} expired at ${session.approvalExpiresAt}`, 'expired');
+        }
+
+        const commandIds = selectedCommandIds && selectedCommandIds.length > 0
+            ? selectedCommandIds
+            : session.commandIds;
+
+        // Unknown ids would not count towards the risk of the selection
+        const unknown = commandIds.filter((id) => !session.commandIds.includes(id));
+        if (unknown.length > 0) {
+            throw new ApprovalPolicyError(`Commands not in session ${sessionId}: ${unknown.join(', ')}`, 'invalid');
+        }
+
+        assertCanApprove(this.policy, session, approver, commandIds);
+
+        const approval: ApprovalRecord = {
+            approved: true,
+            commandIds,
+            decidedBy: approver.userId,
+            role: approver.role,
+            decidedAt: new Date().toISOString(),
+        };
+        if (!(await deploymentSessionStore.addApproval(sessionId, approval))) {
+            const current = await deploymentSessionStore.get(sessionId);
+            throw new ApprovalPolicyError(`Session ${sessionId} is ${current?.status ?? 'gone'}`, 'closed');
         }
 
-        session.status = 'confirmed';
-        this.sessions.set(sessionId, session);
+        // Count the stored approvals, so approvals recorded concurrently by other approvers are included
+        const recorded = await deploymentSessionStore.get(sessionId) ?? session;
+        const selected = { ...recorded, commandIds };
+        const status = getApprovalStatus(this.policy, selected, recorded.approvals ?? [approval]);
 
-        logger.info('[CommandExecutionManager] Execution approved', {
+        // Only one approver moves the session from pending to confirmed
+        const confirmed = status.receivedApprovals >= status.requiredApprovals &&
+            Boolean(await deploymentSessionStore.update(sessionId, { status: 'confirmed', commandIds }, 'pending'));
+        if (!confirmed) {
+            await deploymentSessionStore.update(sessionId, { commandIds }, 'pending');
+        }
+
+        logger.info('[CommandExecutionManager] Execution approval recorded', {
             sessionId,
-            commandCount: session.commandIds.length,
+            decidedBy: approver.userId,
+            risk: status.risk,
+            approvals: `${status.receivedApprovals}/${status.requiredApprovals}`,
+            commandCount: commandIds.length,
         });
 
-        // Notify callback if registered
-        const callback = this.confirmationCallbacks.get(sessionId);
-        if (callback) {
-            callback(true);
+        this.notify(confirmed ? 'approved' : 'approval_recorded', selected, status, { decidedBy: approver.userId });
+
+        if (confirmed) {
+            // Notify callback if registered
+            const callback = this.confirmationCallbacks.get(sessionId);
+            if (callback) {
+                callback(true);
+            }
         }
 
         return true;
     }
 
+    /**
+     * Record a rejection and cancel the session
+     */
+    async rejectExecution(sessionId: string, decidedBy = 'unknown', reason?: string): Promise<boolean> {
+        const session = await deploymentSessionStore.get(sessionId);
+        if (!session) {
+            logger.warn('[CommandExecutionManager] Session not found', { sessionId });
+            return false;
+        }
+
+        if (session.status !== 'pending' && session.status !== 'confirmed') {
+            throw new ApprovalPolicyError(`Session ${sessionId} is ${session.status}`, 'closed');
+        }
+
+        await deploymentSessionStore.addApproval(sessionId, {
+            approved: false,
+            commandIds: session.commandIds,
+            decidedBy,
+            reason,
+            decidedAt: new Date().toISOString(),
+        });
+        this.notify('rejected', session, this.getApprovalStatus(session), { decidedBy, reason });
+        return this.cancelExecution(sessionId, reason);
+    }
+
     /**
      * Cancel execution
      */
-    cancelExecution(sessionId: string, reason?: string): boolean {
-        const session = this.sessions.get(sessionId);
+    async cancelExecution(sessionId: string, reason?: string): Promise<boolean> {
+        const session = await deploymentSessionStore.update(sessionId, { status: 'cancelled', errorMessage: reason });
         if (!session) {
             logger.warn('[CommandExecutionManager] Session not found', { sessionId });
             return false;
         }
 
-        session.status = 'cancelled';
         logger.info('[CommandExecutionManager] Execution cancelled', { sessionId, reason });
 
         // Notify callback
@@ -140,6 +294,30 @@ export class CommandExecutionManager {
         return true;
     }
 
+    /**
+     * Mark a confirmed session as executing; returns undefined if it is not confirmed
+     * or another request already started it
+     */
+    async startExecution(sessionId: string): Promise<ExecutionSession | undefined> {
+        const session = await deploymentSessionStore.get(sessionId);
+        if (!session || session.status !== 'confirmed') {
+            logger.warn('[CommandExecutionManager] Session is not ready for execution', {
+                sessionId,
+                status: session?.status,
+            });
+            return undefined;
+        }
+
+        // Only one caller may move a confirmed session to executing
+        const started = await deploymentSessionStore.update(sessionId, { status: 'executing' }, 'confirmed');
+        if (!started) {
+            logger.warn('[CommandExecutionManager] Session was started by another request', { sessionId });
+            return undefined;
+        }
+        logger.info('[CommandExecutionManager] Execution started', { sessionId });
+        return started;
+    }
+
     /**
      * Register confirmation callback
      */
@@ -158,7 +336,7 @@ export class CommandExecutionManager {
     /**
      * Record command result
      */
-    recordResult(
+    async recordResult(
         sessionId: string,
         commandId: string,
         result: {
@@ -168,24 +346,16 @@ export class CommandExecutionManager {
             exitCode: number;
             duration: number;
         }
-    ): boolean {
-        const session = this.sessions.get(sessionId);
-        if (!session) {
-            logger.warn('[CommandExecutionManager] Session not found', { sessionId });
-            return false;
-        }
-
-        if (!session.results) {
-            session.results = [];
-        }
-
-        session.results.push({
+    ): Promise<boolean> {
+        const recorded = await deploymentSessionStore.addResult(sessionId, {
             commandId,
             ...result,
             timestamp: new Date().toISOString(),
         });
-
-        this.sessions.set(sessionId, session);
+        if (!recorded) {
+            logger.warn('[CommandExecutionManager] Session not found', { sessionId });
+            return false;
+        }
 
         logger.info('[CommandExecutionManager] Command result recorded', {
             sessionId,
@@ -200,21 +370,17 @@ export class CommandExecutionManager {
     /**
      * Mark session as completed
      */
-    completeSession(sessionId: string, success: boolean, error?: string): boolean {
-        const session = this.sessions.get(sessionId);
+    async completeSession(sessionId: string, success: boolean, error?: string): Promise<boolean> {
+        const session = await deploymentSessionStore.update(sessionId, {
+            status: success ? 'completed' : 'failed',
+            endTime: new Date().toISOString(),
+            errorMessage: error,
+        });
         if (!session) {
             logger.warn('[CommandExecutionManager] Session not found', { sessionId });
             return false;
         }
 
-        session.status = success ? 'completed' : 'failed';
-        session.endTime = new Date().toISOString();
-        if (error) {
-            session.errorMessage = error;
-        }
-
-        this.sessions.set(sessionId, session);
-
         logger.info('[CommandExecutionManager] Session completed', {
             sessionId,
             success,
@@ -228,25 +394,50 @@ export class CommandExecutionManager {
     /**
      * Get all sessions for user
      */
-    getSessionsForUser(userId: string): ExecutionSession[] {
-        return Array.from(this.sessions.values()).filter(s => s.userId === userId);
+    async getSessionsForUser(userId: string): Promise<ExecutionSession[]> {
+        return deploymentSessionStore.list({ userId });
     }
 
     /**
-     * Clean up old sessions (older than 24 hours)
+     * Send an approval event to the configured n8n webhook, if registered.
+     * Delivery failures are logged and never block the approval flow.
      */
-    cleanupOldSessions(maxAgeMs = 24 * 60 * 60 * 1000): number {
-        const now = Date.now();
-        let cleaned = 0;
-
-        for (const [sessionId, session] of this.sessions) {
-            const sessionAge = now - new Date(session.startTime).getTime();
-            if (sessionAge > maxAgeMs) {
-                this.sessions.delete(sessionId);
-                cleaned++;
-            }
+    private notify(
+        event: ApprovalEvent,
+        session: ExecutionSession,
+        status: ApprovalStatus,
+        extra: { decidedBy?: string; reason?: string } = {}
+    ): void {
+        const webhookName = env.DEPLOYMENT_APPROVAL_WEBHOOK;
+        if (!hasN8nWebhook(webhookName)) {
+            return;
         }
 
+        callN8nWebhook(webhookName, {
+            event,
+            sessionId: session.sessionId,
+            requestedBy: session.userId,
+            targetDevice: session.targetDevice,
+            taskDescription: session.taskDescription,
+            commandIds: session.commandIds,
+            ...status,
+            ...extra,
+            timestamp: new Date().toISOString(),
+        }).catch((error) => {
+            logger.warn('[CommandExecutionManager] Approval notification failed', {
+                event,
+                sessionId: session.sessionId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        });
+    }
+
+    /**
+     * Clean up old sessions (older than 24 hours)
+     */
+    async cleanupOldSessions(maxAgeMs = 24 * 60 * 60 * 1000): Promise<number> {
+        const cleaned = await deploymentSessionStore.deleteOlderThan(new Date(Date.now() - maxAgeMs));
+
         if (cleaned > 0) {
             logger.info('[CommandExecutionManager] Cleaned up old sessions', { cleaned });
         }
@@ -343,7 +534,7 @@ export function formatExecutionResults(
         output += `\n${'─'.repeat(60)}\n`;
         output += `📋 COMMAND RESULTS:\n\n`;
 
-        session.results.forEach((result: any, idx: number) => {
+        session.results.forEach((result, idx) => {
             const status = result.success ? '✅' : '❌';
             output += `${idx + 1}. ${status} ${result.commandId}\n`;
             output += `   Duration: ${result.duration}ms\n`;
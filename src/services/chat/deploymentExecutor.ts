@@ -0,0 +1,230 @@
+/**
+ * @file Deployment Executor
+ * @description Runs the approved commands of a confirmed deployment session
+ * on its saved terminal connection.
+ *
+ * Commands run in the approved order and stop at the first failure (non-zero
+ * exit code, error or timeout). The rollbackCommands of the commands that had
+ * already succeeded then run in reverse order. Every result, rollbacks included,
+ * is recorded on the session and reported through `onProgress` as it happens.
+ */
+
+import { logger } from '../../logging/logger.js';
+import { MikrotikSSH } from '../mikrotik/client.js';
+import { terminalManager } from '../../tools/terminal/index.js';
+import type { CommandRunner } from '../../mikrotik/executor.js';
+import type { TerminalConnection } from '../../db/terminal-connections.js';
+import type { CommandExecutionManager, ExecutionResult, ExecutionSession } from './commandExecution.js';
+
+/**
+ * A command runner bound to an open connection
+ */
+export interface ConnectionRunner extends CommandRunner {
+    close(): Promise<void>;
+}
+
+export type ExecutionProgressEvent =
+    | { type: 'started'; sessionId: string; targetDevice: string; commandIds: string[] }
+    | { type: 'command_started'; commandId: string; command: string; index: number; total: number }
+    | { type: 'command_completed'; result: ExecutionResult }
+    | { type: 'rollback_started'; commandIds: string[] }
+    | { type: 'rollback_completed'; result: ExecutionResult }
+    | { type: 'completed'; success: boolean; error?: string; rolledBack: string[] };
+
+export interface DeploymentRunOptions {
+    timeout?: number; // Per command, milliseconds (CommandConfirmation.timeout)
+    onProgress?: (event: ExecutionProgressEvent) => void;
+}
+
+export interface DeploymentRunSummary {
+    sessionId: string;
+    success: boolean;
+    error?: string;
+    results: ExecutionResult[];
+    rolledBack: string[]; // IDs of commands whose rollback succeeded
+    rollbackErrors: string[];
+}
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 30000;
+
+/**
+ * Open a runner for a saved terminal connection profile.
+ * SSH uses exec channels so every command reports its own exit code.
+ */
+export async function openConnectionRunner(
+    connection: TerminalConnection,
+    credentials: { password?: string; privateKey?: string } | null
+): Promise<ConnectionRunner> {
+    switch (connection.type) {
+        case 'ssh': {
+            if (!connection.host || !connection.username) {
+                throw new Error('SSH connection requires host and username');
+            }
+            // MikrotikSSH is a plain ssh2 exec wrapper and works for any SSH host
+            const ssh = new MikrotikSSH();
+            await ssh.connect({
+                host: connection.host,
+                port: connection.port || 22,
+                username: connection.username,
+                password: credentials?.password,
+                privateKey: credentials?.privateKey,
+            });
+            return {
+                exec: (command, timeoutMs) => ssh.exec(command, timeoutMs),
+                close: () => ssh.disconnect(),
+            };
+        }
+        case 'telnet': {
+            if (!connection.host) {
+                throw new Error('Telnet connection requires host');
+            }
+            const session = await terminalManager.createTelnetSession({
+                host: connection.host,
+                port: connection.port || 23,
+            });
+            return {
+                exec: (command, timeoutMs) => terminalManager.executeTelnetCommand(session.id, command, timeoutMs),
+                close: () => terminalManager.closeSession(session.id),
+            };
+        }
+        case 'local': {
+            const session = await terminalManager.createLocalSession();
+            return {
+                exec: (command, timeoutMs) => terminalManager.executeLocalCommand(session.id, command, timeoutMs),
+                close: () => terminalManager.closeSession(session.id),
+            };
+        }
+    }
+}
+
+/**
+ * Run one command; errors and timeouts become a failed result
+ */
+async function runCommand(
+    runner: CommandRunner,
+    commandId: string,
+    command: string,
+    timeoutMs: number
+): Promise<ExecutionResult> {
+    const start = Date.now();
+    try {
+        const result = await runner.exec(command, timeoutMs);
+        return {
+            commandId,
+            // Telnet cannot report an exit status
+            success: result.exitCode === null || result.exitCode === 0,
+            stdout: result.stdout || undefined,
+            stderr: result.stderr || undefined,
+            exitCode: result.exitCode ?? 0,
+            duration: Date.now() - start,
+            timestamp: new Date().toISOString(),
+        };
+    } catch (error) {
+        return {
+            commandId,
+            success: false,
+            stderr: error instanceof Error ? error.message : String(error),
+            exitCode: -1,
+            duration: Date.now() - start,
+            timestamp: new Date().toISOString(),
+        };
+    }
+}
+
+/**
+ * Approved commands of the session, in the approved order
+ */
+function selectedCommands(session: ExecutionSession): NonNullable<ExecutionSession['commands']> {
+    const commands = session.commands ?? [];
+    return session.commandIds.map((id) => {
+        const command = commands.find((c) => c.id === id);
+        if (!command) {
+            throw new Error(`Command ${id} is not part of session ${session.sessionId}`);
+        }
+        return command;
+    });
+}
+
+/**
+ * Execute a confirmed session through `runner` and finalize it.
+ * Returns undefined if the session is missing or not confirmed.
+ */
+export async function runDeploymentSession(
+    manager: CommandExecutionManager,
+    sessionId: string,
+    runner: CommandRunner,
+    options: DeploymentRunOptions = {}
+): Promise<DeploymentRunSummary | undefined> {
+    const session = await manager.startExecution(sessionId);
+    if (!session) {
+        return undefined;
+    }
+
+    const timeoutMs = options.timeout ?? DEFAULT_COMMAND_TIMEOUT_MS;
+    const emit = (event: ExecutionProgressEvent) => options.onProgress?.(event);
+    const summary: DeploymentRunSummary = { sessionId, success: true, results: [], rolledBack: [], rollbackErrors: [] };
+
+    let commands: NonNullable<ExecutionSession['commands']> = [];
+    try {
+        commands = selectedCommands(session);
+    } catch (error) {
+        summary.success = false;
+        summary.error = error instanceof Error ? error.message : String(error);
+    }
+
+    emit({ type: 'started', sessionId, targetDevice: session.targetDevice, commandIds: session.commandIds });
+
+    const succeeded: typeof commands = [];
+    for (const [index, command] of commands.entries()) {
+        emit({ type: 'command_started', commandId: command.id, command: command.command, index, total: commands.length });
+
+        const result = await runCommand(runner, command.id, command.command, timeoutMs);
+        summary.results.push(result);
+        await manager.recordResult(sessionId, command.id, result);
+        emit({ type: 'command_completed', result });
+
+        if (!result.success) {
+            summary.success = false;
+            summary.error = `${command.id} failed: ${result.stderr || `exit code ${result.exitCode}`}`;
+            break;
+        }
+        succeeded.push(command);
+    }
+
+    const toRollback = summary.success
+        ? []
+        : succeeded.flatMap((c) => (c.rollbackCommand ? [{ id: c.id, command: c.rollbackCommand }] : [])).reverse();
+    if (toRollback.length > 0) {
+        logger.warn('[DeploymentExecutor] Command failed, rolling back', {
+            sessionId,
+            error: summary.error,
+            commandIds: toRollback.map((c) => c.id),
+        });
+        emit({ type: 'rollback_started', commandIds: toRollback.map((c) => c.id) });
+
+        for (const command of toRollback) {
+            const result = await runCommand(runner, `${command.id}:rollback`, command.command, timeoutMs);
+            await manager.recordResult(sessionId, result.commandId, result);
+            emit({ type: 'rollback_completed', result });
+
+            if (result.success) {
+                summary.rolledBack.push(command.id);
+            } else {
+                summary.rollbackErrors.push(`${command.id}: ${result.stderr || `exit code ${result.exitCode}`}`);
+            }
+        }
+    }
+
+    await manager.completeSession(sessionId, summary.success, summary.error);
+    emit({ type: 'completed', success: summary.success, error: summary.error, rolledBack: summary.rolledBack });
+
+    logger.info('[DeploymentExecutor] Session executed', {
+        sessionId,
+        success: summary.success,
+        executed: summary.results.length,
+        total: commands.length,
+        rolledBack: summary.rolledBack.length,
+    });
+
+    return summary;
+}
@@ -11,6 +11,7 @@
 export { tokenEstimator, TokenEstimator, TokenEstimationStrategy } from './TokenEstimator.js';
 export { embeddingService, EmbeddingService, EmbeddingProvider } from './EmbeddingService.js';
 export { SpanRetriever, SpanRetrieverConfig, RetrievedSpan } from './SpanRetriever.js';
+export { conversationSummarizer, ConversationSummarizer } from './ConversationSummarizer.js';
 
 // Main builder
 export {
@@ -26,6 +27,10 @@ export {
     queueMessageEmbedding,
     saveAssistantResponse,
     backfillConversationEmbeddings,
+    toChatMessages,
+    splitContentParts,
+    toToolDefinitions,
+    toToolChoice,
 } from './integration.js';
 
 // Utility functions
@@ -40,8 +45,17 @@ export type {
     BuildContextResult,
 } from './ChatContextBuilder.js';
 
+export type {
+    SummarizationOptions,
+    SummarySegment,
+    ConversationSummaryState,
+} from './ConversationSummarizer.js';
+
 export type {
     OpenAIMessage,
+    OpenAIContentPart,
+    OpenAITool,
+    OpenAIToolChoice,
     ContextBuildRequest,
     ContextBuildResponse,
 } from './integration.js';
@@ -19,6 +19,7 @@ import { estimateTokensSync } from './TokenEstimator.js';
 import { logger } from '../../logging/logger.js';
 import { db } from '../../db/postgres.js';
 import { orchestrator } from './Orchestrator.js';
+import type { ChatImage, ChatMessage, ToolChoice, ToolDefinition } from '../../mcp/types.js';
 
 /**
  * Feature flag for multi-pass orchestration
@@ -33,16 +34,52 @@ const ORCHESTRATOR_INCLUDE_REFINEMENT = process.env.ORCHESTRATOR_INCLUDE_REFINEM
 // ============================================================================
 
 /**
- * OpenAI-compatible message format
+ * OpenAI-compatible multimodal content part
+ */
+export type OpenAIContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string; detail?: ChatImage['detail'] } };
+
+/**
+ * OpenAI-compatible message format.
+ * Multimodal content arrives as content parts and is split into text `content`
+ * and `images` by splitContentParts before context building.
  */
 export interface OpenAIMessage {
     role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
     content: string;
+    images?: ChatImage[];
     name?: string;
     function_call?: Record<string, unknown>;
-    tool_calls?: Array<Record<string, unknown>>;
+    tool_calls?: Array<{
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+    }>;
+    tool_call_id?: string;
+}
+
+/**
+ * OpenAI-compatible tool definition
+ */
+export interface OpenAITool {
+    type: 'function';
+    function: {
+        name: string;
+        description?: string;
+        parameters?: Record<string, unknown>;
+    };
 }
 
+/**
+ * OpenAI-compatible tool_choice value
+ */
+export type OpenAIToolChoice =
+    | 'auto'
+    | 'none'
+    | 'required'
+    | { type: 'function'; function: { name: string } };
+
 /**
  * Request parameters for context building
  */
@@ -238,7 +275,10 @@ export async function buildContextForRequest(
         });
 
         // Convert to OpenAI format
-        const optimizedMessages = convertToOpenAIFormat(result.messages);
+        const optimizedMessages = restoreMessageAttachments(
+            convertToOpenAIFormat(result.messages),
+            request.messages,
+        );
 
         // Calculate token savings
         const originalTokens = estimateOriginalTokens(request.messages, request.model);
@@ -429,6 +469,103 @@ function convertToOpenAIFormat(messages: ContextMessage[]): OpenAIMessage[] {
     }));
 }
 
+/**
+ * Re-attach images and tool call fields to optimized messages.
+ * The context builder works on text only, so these are matched back by role and content.
+ */
+function restoreMessageAttachments(
+    optimized: OpenAIMessage[],
+    source: OpenAIMessage[]
+): OpenAIMessage[] {
+    const withAttachments = source.filter(m => m.images || m.tool_calls || m.tool_call_id);
+    if (withAttachments.length === 0) {
+        return optimized;
+    }
+
+    return optimized.map(msg => {
+        const match = withAttachments.find(m => m.role === msg.role && m.content === msg.content);
+        if (!match) {
+            return msg;
+        }
+        return {
+            ...msg,
+            ...(match.images && { images: match.images }),
+            ...(match.tool_calls && { tool_calls: match.tool_calls }),
+            ...(match.tool_call_id && { tool_call_id: match.tool_call_id }),
+        };
+    });
+}
+
+/**
+ * Split multimodal content parts into text `content` and `images`.
+ * Text parts are joined with newlines; plain string content is left untouched.
+ */
+export function splitContentParts(
+    messages: Array<Omit<OpenAIMessage, 'content'> & { content: string | OpenAIContentPart[] | null }>
+): OpenAIMessage[] {
+    return messages.map(msg => {
+        if (!Array.isArray(msg.content)) {
+            return { ...msg, content: msg.content ?? '' };
+        }
+
+        const text = msg.content
+            .filter((part): part is Extract<OpenAIContentPart, { type: 'text' }> => part.type === 'text')
+            .map(part => part.text)
+            .join('\n');
+        const images = msg.content
+            .filter((part): part is Extract<OpenAIContentPart, { type: 'image_url' }> => part.type === 'image_url')
+            .map(part => ({
+                url: part.image_url.url,
+                ...(part.image_url.detail && { detail: part.image_url.detail }),
+            }));
+
+        return {
+            ...msg,
+            content: text,
+            ...(images.length > 0 && { images }),
+        };
+    });
+}
+
+/**
+ * Convert OpenAI-format messages to the structured LLMRequest conversation.
+ * Legacy `function` results are treated as tool results.
+ */
+export function toChatMessages(messages: OpenAIMessage[]): ChatMessage[] {
+    return messages.map((msg) => ({
+        role: msg.role === 'function' ? 'tool' : msg.role,
+        content: msg.content ?? '',
+        ...(msg.name && { name: msg.name }),
+        ...(msg.images && msg.images.length > 0 && { images: msg.images }),
+        ...(msg.tool_call_id && { toolCallId: msg.tool_call_id }),
+        ...(msg.tool_calls && msg.tool_calls.length > 0 && {
+            toolCalls: msg.tool_calls.map((call) => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: call.function.arguments,
+            })),
+        }),
+    }));
+}
+
+/**
+ * Convert OpenAI-format tool definitions to the LLMRequest shape
+ */
+export function toToolDefinitions(tools: OpenAITool[]): ToolDefinition[] {
+    return tools.map((tool) => ({
+        name: tool.function.name,
+        ...(tool.function.description && { description: tool.function.description }),
+        ...(tool.function.parameters && { parameters: tool.function.parameters }),
+    }));
+}
+
+/**
+ * Convert an OpenAI-format tool_choice to the LLMRequest shape
+ */
+export function toToolChoice(choice: OpenAIToolChoice): ToolChoice {
+    return typeof choice === 'string' ? choice : { name: choice.function.name };
+}
+
 /**
  * Estimate tokens for original messages (before optimization)
  */
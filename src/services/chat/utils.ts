@@ -6,8 +6,10 @@
 
 import { db } from '../../db/postgres.js';
 import { logger } from '../../logging/logger.js';
-import { chatContextBuilder } from './ChatContextBuilder.js';
+import { chatContextBuilder, DEFAULT_CHAT_CONTEXT_CONFIG } from './ChatContextBuilder.js';
+import { conversationSummarizer } from './ConversationSummarizer.js';
 import { embeddingService } from './EmbeddingService.js';
+import { getVectorStore } from '../vector/index.js';
 import type { ChatContextConfig, ChatContextStrategy } from './ChatContextBuilder.js';
 
 /**
@@ -147,6 +149,7 @@ export async function getChatContextConfig(
             spanBudgetRatio: Number(row.span_budget_ratio),
             spanMinSimilarity: 0.7, // Default
             summarizationThreshold: row.summary_trigger_tokens,
+            summaryMaxTokens: 1000, // Default
         };
     } catch (error) {
         logger.error('Failed to get chat context config', {
@@ -198,36 +201,27 @@ export async function backfillConversationEmbeddings(
 }
 
 /**
- * Trigger summary generation for a conversation
+ * Trigger summary generation for a conversation.
+ * Summarizes every message not yet covered, regardless of threshold and recent window.
  */
 export async function triggerConversationSummary(
     conversationId: string
 ): Promise<void> {
-    // Get unsummarized messages
-    const result = await db.query<{
-        id: string;
-        role: string;
-        content: string;
-    }>(
-        `SELECT id, role, content
-         FROM messages
-         WHERE conversation_id = $1
-           AND is_summarized = false
-         ORDER BY turn_index ASC`,
-        [conversationId]
-    );
+    const segment = await conversationSummarizer.summarizeIfNeeded(conversationId, {
+        summarizationThreshold: 0,
+        recentMaxMessages: 0,
+        summaryMaxTokens: DEFAULT_CHAT_CONTEXT_CONFIG.summaryMaxTokens,
+    });
 
-    if (!result || result.rows.length === 0) {
+    if (!segment) {
         logger.info('No unsummarized messages found', { conversationId });
         return;
     }
 
-    // Trigger summarization via ChatContextBuilder
-    await chatContextBuilder['generateSummary'](conversationId, result.rows);
-
     logger.info('Triggered conversation summary', {
         conversationId,
-        messageCount: result.rows.length,
+        version: segment.version,
+        throughTurn: segment.endTurn,
     });
 }
 
@@ -246,7 +240,6 @@ export async function getConversationStats(conversationId: string): Promise<{
         total_messages: number;
         total_tokens: number;
         summarized_messages: number;
-        messages_with_embeddings: number;
         has_summary: boolean;
         summary_tokens: number;
     }>(
@@ -254,7 +247,6 @@ export async function getConversationStats(conversationId: string): Promise<{
             COUNT(m.id) as total_messages,
             COALESCE(SUM(m.token_estimate), 0) as total_tokens,
             COUNT(CASE WHEN m.is_summarized THEN 1 END) as summarized_messages,
-            COUNT(CASE WHEN m.embedding IS NOT NULL THEN 1 END) as messages_with_embeddings,
             c.summary IS NOT NULL as has_summary,
             COALESCE(c.summary_token_estimate, 0) as summary_tokens
          FROM messages m
@@ -276,11 +268,12 @@ export async function getConversationStats(conversationId: string): Promise<{
     }
 
     const row = result.rows[0];
+    const messagesWithEmbeddings = await getVectorStore().count('messages', conversationId).catch(() => 0);
     return {
         totalMessages: Number(row.total_messages),
         totalTokens: Number(row.total_tokens),
         summarizedMessages: Number(row.summarized_messages),
-        messagesWithEmbeddings: Number(row.messages_with_embeddings),
+        messagesWithEmbeddings,
         hasSummary: Boolean(row.has_summary),
         summaryTokens: Number(row.summary_tokens),
     };
@@ -44,8 +44,8 @@ export class MikrotikManager {
         this.deviceId = deviceId;
     }
 
-    async connect(host: string, username: string, password?: string, port = 22): Promise<void> {
-        await this.ssh.connect({ host, port, username, password });
+    async connect(host: string, username: string, password?: string, port = 22, privateKey?: string): Promise<void> {
+        await this.ssh.connect({ host, port, username, password, privateKey });
     }
 
     async disconnect(): Promise<void> {
@@ -283,6 +283,17 @@ export class MikrotikManager {
         return this.ssh.exec(MIKROTIK_COMMANDS.BRIDGE_VLAN_LIST);
     }
 
+    async getVlans(): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.INTERFACE_VLAN_LIST);
+    }
+
+    /**
+     * List IP services (winbox, ssh, api, ...) with ports and allowed addresses.
+     */
+    async getServices(): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.SERVICE_LIST);
+    }
+
     /**
      * List all DHCP servers.
      */
@@ -290,6 +301,13 @@ export class MikrotikManager {
         return this.ssh.exec(MIKROTIK_COMMANDS.DHCP_SERVER_LIST);
     }
 
+    /**
+     * List all DHCP clients.
+     */
+    async getDHCPClients(): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.DHCP_CLIENT_LIST);
+    }
+
     /**
      * List all DHCP pools.
      */
@@ -297,6 +315,33 @@ export class MikrotikManager {
         return this.ssh.exec(MIKROTIK_COMMANDS.DHCP_POOL_LIST);
     }
 
+    async getDNS(): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.DNS_LIST);
+    }
+
+    async getNtpClient(): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.NTP_CLIENT_PRINT);
+    }
+
+    async getSnmp(): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.SNMP_PRINT);
+    }
+
+    async getUsers(): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.USER_LIST);
+    }
+
+    async getClock(): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.SYSTEM_CLOCK_PRINT);
+    }
+
+    /**
+     * Print the items of any menu, e.g. `/ip firewall filter`.
+     */
+    async printMenu(menu: string): Promise<ExecResult> {
+        return this.ssh.exec(MIKROTIK_COMMANDS.MENU_PRINT_DETAIL(menu));
+    }
+
     /**
      * Setup DHCP server on an interface.
      * Parameters: interface name, pool name, address space (e.g., "192.168.1.0/24")
@@ -0,0 +1,182 @@
+/**
+ * @file Embedded Vector Store
+ * @description In-process VectorStore with a flat (exact) index, for
+ * deployments without pgvector.
+ *
+ * Each collection is held in memory and persisted to `<dir>/<collection>.json`.
+ * Writes are batched: changes are saved `saveDelayMs` after the last one, or on
+ * `flush()`. Search scans every vector of the collection, which is fast enough
+ * for tens of thousands of vectors.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { logger } from '../../logging/logger.js';
+import { EmbeddingService } from '../chat/EmbeddingService.js';
+import { matchesWhere } from './types.js';
+import type { VectorCollection, VectorMatch, VectorRecord, VectorSearchQuery, VectorStore } from './types.js';
+
+interface CollectionFile {
+    version: 1;
+    records: VectorRecord[];
+}
+
+export class EmbeddedVectorStore implements VectorStore {
+    readonly backend = 'embedded' as const;
+
+    private collections: Map<VectorCollection, Promise<Map<string, VectorRecord>>> = new Map();
+    private dirty: Set<VectorCollection> = new Set();
+    private saveTimer: NodeJS.Timeout | null = null;
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(private dir: string, private saveDelayMs = 1000) { }
+
+    async upsert(collection: VectorCollection, records: VectorRecord[]): Promise<number> {
+        const vectors = await this.load(collection);
+        for (const record of records) {
+            vectors.set(record.id, {
+                id: record.id,
+                namespace: record.namespace,
+                vector: record.vector,
+                model: record.model,
+                metadata: { ...record.metadata },
+            });
+        }
+        this.markDirty(collection);
+        return records.length;
+    }
+
+    async search(collection: VectorCollection, query: VectorSearchQuery): Promise<VectorMatch[]> {
+        const vectors = await this.load(collection);
+        const matches: VectorMatch[] = [];
+
+        for (const record of vectors.values()) {
+            if (query.namespace !== undefined && record.namespace !== query.namespace) continue;
+            if (record.vector.length !== query.vector.length) continue;
+            if (query.model && record.model && record.model !== query.model) continue;
+            if (!matchesWhere(record.metadata, query.where)) continue;
+
+            const similarity = EmbeddingService.cosineSimilarity(query.vector, record.vector);
+            if (query.minSimilarity !== undefined && similarity < query.minSimilarity) continue;
+
+            matches.push({ id: record.id, namespace: record.namespace, similarity, metadata: { ...record.metadata } });
+        }
+
+        return matches
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, query.topK);
+    }
+
+    async has(collection: VectorCollection, ids: string[]): Promise<Set<string>> {
+        const vectors = await this.load(collection);
+        return new Set(ids.filter((id) => vectors.has(id)));
+    }
+
+    async delete(collection: VectorCollection, ids: string[]): Promise<void> {
+        const vectors = await this.load(collection);
+        let removed = false;
+        for (const id of ids) {
+            removed = vectors.delete(id) || removed;
+        }
+        if (removed) {
+            this.markDirty(collection);
+        }
+    }
+
+    async deleteNamespace(collection: VectorCollection, namespace: string): Promise<void> {
+        const vectors = await this.load(collection);
+        const ids = [...vectors.values()].filter((r) => r.namespace === namespace).map((r) => r.id);
+        await this.delete(collection, ids);
+    }
+
+    async count(collection: VectorCollection, namespace?: string): Promise<number> {
+        const vectors = await this.load(collection);
+        if (namespace === undefined) {
+            return vectors.size;
+        }
+        return [...vectors.values()].filter((r) => r.namespace === namespace).length;
+    }
+
+    async *scan(collection: VectorCollection, batchSize: number): AsyncIterable<VectorRecord[]> {
+        const records = [...(await this.load(collection)).values()];
+        for (let i = 0; i < records.length; i += batchSize) {
+            yield records.slice(i, i + batchSize);
+        }
+    }
+
+    async flush(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        // A failed save must not block later ones; its collections stay dirty
+        this.saving = this.saving.catch(() => undefined).then(() => this.saveDirty());
+        return this.saving;
+    }
+
+    private filePath(collection: VectorCollection): string {
+        return path.join(this.dir, `${collection}.json`);
+    }
+
+    private load(collection: VectorCollection): Promise<Map<string, VectorRecord>> {
+        let loaded = this.collections.get(collection);
+        if (!loaded) {
+            loaded = this.read(collection);
+            this.collections.set(collection, loaded);
+        }
+        return loaded;
+    }
+
+    private async read(collection: VectorCollection): Promise<Map<string, VectorRecord>> {
+        const file = this.filePath(collection);
+        try {
+            const data = JSON.parse(await fs.readFile(file, 'utf-8')) as CollectionFile;
+            logger.info('[VectorStore] Loaded embedded collection', { collection, vectors: data.records.length });
+            return new Map(data.records.map((r) => [r.id, r]));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return new Map();
+            }
+            throw new Error(`Failed to load vector collection ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private markDirty(collection: VectorCollection): void {
+        this.dirty.add(collection);
+        if (this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.flush().catch((error) => {
+                logger.error('[VectorStore] Failed to save embedded collections', {
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            });
+        }, this.saveDelayMs);
+        this.saveTimer.unref();
+    }
+
+    private async saveDirty(): Promise<void> {
+        if (this.dirty.size === 0) {
+            return;
+        }
+        await fs.mkdir(this.dir, { recursive: true });
+
+        const collections = [...this.dirty];
+        this.dirty.clear();
+        for (const collection of collections) {
+            const vectors = await this.load(collection);
+            const data: CollectionFile = { version: 1, records: [...vectors.values()] };
+            const file = this.filePath(collection);
+
+            try {
+                // Write then rename, so a crash never leaves a truncated file
+                await fs.writeFile(`${file}.tmp`, JSON.stringify(data));
+                await fs.rename(`${file}.tmp`, file);
+            } catch (error) {
+                this.dirty.add(collection);
+                throw error;
+            }
+        }
+    }
+}
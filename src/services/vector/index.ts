@@ -0,0 +1,46 @@
+/**
+ * @file Vector Store
+ * @description Pluggable embedding storage for span retrieval and agent memory.
+ *
+ * The backend is selected with VECTOR_STORE_BACKEND:
+ * - `pgvector`: the embedding columns in Postgres (requires the vector extension)
+ * - `embedded`: in-process flat index persisted under VECTOR_STORE_PATH
+ *
+ * Use `npm run vectors:migrate` to copy embeddings between backends.
+ */
+
+import { env } from '../../config/env.js';
+import { logger } from '../../logging/logger.js';
+import { EmbeddedVectorStore } from './embedded.js';
+import { PgVectorStore } from './pgvector.js';
+import type { VectorStore, VectorStoreBackend } from './types.js';
+
+export * from './types.js';
+export { PgVectorStore } from './pgvector.js';
+export { EmbeddedVectorStore } from './embedded.js';
+export { copyVectors, type CopyVectorsOptions, type CopyVectorsResult } from './migrate.js';
+
+export function createVectorStore(
+    backend: VectorStoreBackend,
+    options: { path?: string } = {}
+): VectorStore {
+    switch (backend) {
+        case 'pgvector':
+            return new PgVectorStore();
+        case 'embedded':
+            return new EmbeddedVectorStore(options.path ?? env.VECTOR_STORE_PATH);
+    }
+}
+
+let vectorStore: VectorStore | null = null;
+
+/**
+ * The configured vector store (created on first use)
+ */
+export function getVectorStore(): VectorStore {
+    if (!vectorStore) {
+        vectorStore = createVectorStore(env.VECTOR_STORE_BACKEND);
+        logger.info('[VectorStore] Using backend', { backend: vectorStore.backend });
+    }
+    return vectorStore;
+}
@@ -0,0 +1,54 @@
+/**
+ * @file Vector Store Migration
+ * @description Copies embeddings from one vector store backend to another.
+ */
+
+import { logger } from '../../logging/logger.js';
+import { VECTOR_COLLECTIONS } from './types.js';
+import type { VectorCollection, VectorStore } from './types.js';
+
+export interface CopyVectorsOptions {
+    collections?: VectorCollection[];
+    batchSize?: number;
+    onProgress?: (collection: VectorCollection, copied: number) => void;
+}
+
+export interface CopyVectorsResult {
+    collection: VectorCollection;
+    read: number;
+    /** Vectors written; pgvector skips vectors whose row no longer exists */
+    written: number;
+}
+
+/**
+ * Copy every vector of the given collections from `source` to `target`.
+ * Existing vectors in the target are overwritten; the source is left unchanged.
+ */
+export async function copyVectors(
+    source: VectorStore,
+    target: VectorStore,
+    options: CopyVectorsOptions = {}
+): Promise<CopyVectorsResult[]> {
+    const { collections = VECTOR_COLLECTIONS, batchSize = 500 } = options;
+    const results: CopyVectorsResult[] = [];
+
+    for (const collection of collections) {
+        const result: CopyVectorsResult = { collection, read: 0, written: 0 };
+
+        for await (const batch of source.scan(collection, batchSize)) {
+            result.read += batch.length;
+            result.written += await target.upsert(collection, batch);
+            options.onProgress?.(collection, result.read);
+        }
+
+        await target.flush();
+        logger.info('[VectorStore] Copied collection', {
+            ...result,
+            from: source.backend,
+            to: target.backend,
+        });
+        results.push(result);
+    }
+
+    return results;
+}
@@ -0,0 +1,219 @@
+/**
+ * @file pgvector Store
+ * @description VectorStore over the `embedding` columns of the owning tables
+ * (messages, agent_memories). Requires the Postgres `vector` extension.
+ *
+ * Vectors live on the rows they embed, so `upsert` only writes vectors for rows
+ * that already exist and `delete` clears the column. The model and dimension
+ * are stored next to each vector (migration 016) and searches only compare
+ * vectors of the query's dimension and model.
+ */
+
+import { db } from '../../db/postgres.js';
+import { EmbeddingService } from '../chat/EmbeddingService.js';
+import type {
+    VectorCollection,
+    VectorMatch,
+    VectorMetadata,
+    VectorRecord,
+    VectorSearchQuery,
+    VectorStore,
+} from './types.js';
+
+interface PgCollection {
+    table: string;
+    namespaceColumn: string;
+    /** Metadata field -> column */
+    fields: Record<string, string>;
+}
+
+const PG_COLLECTIONS: Record<VectorCollection, PgCollection> = {
+    messages: { table: 'messages', namespaceColumn: 'conversation_id', fields: { turnIndex: 'turn_index' } },
+    agent_memories: { table: 'agent_memories', namespaceColumn: 'conversation_id', fields: { type: 'memory_type' } },
+};
+
+type VectorRow = { id: string; namespace: string } & Record<string, string | number>;
+
+const CLEAR_EMBEDDING = 'embedding = NULL, embedding_model = NULL, embedding_dimension = NULL';
+
+/**
+ * Parse pgvector's text form `[0.1,0.2,...]`
+ */
+function parseVector(text: string): number[] {
+    return JSON.parse(text) as number[];
+}
+
+export class PgVectorStore implements VectorStore {
+    readonly backend = 'pgvector' as const;
+
+    async upsert(collection: VectorCollection, records: VectorRecord[]): Promise<number> {
+        const { table } = PG_COLLECTIONS[collection];
+        let written = 0;
+
+        for (const record of records) {
+            const result = await db.query(
+                `UPDATE ${table}
+                 SET embedding = $1::vector, embedding_model = $2, embedding_dimension = $3
+                 WHERE id = $4`,
+                [EmbeddingService.formatForPostgres(record.vector), record.model ?? null, record.vector.length, record.id]
+            );
+            if (!result) {
+                throw new Error(`Failed to store vector ${record.id} in ${collection}`);
+            }
+            written += result.rowCount ?? 0;
+        }
+
+        return written;
+    }
+
+    async search(collection: VectorCollection, query: VectorSearchQuery): Promise<VectorMatch[]> {
+        const { table, namespaceColumn, fields } = PG_COLLECTIONS[collection];
+        const params: unknown[] = [EmbeddingService.formatForPostgres(query.vector), query.topK];
+        const conditions = ['embedding IS NOT NULL'];
+
+        params.push(query.vector.length);
+        conditions.push(`embedding_dimension = $${params.length}`);
+        if (query.model) {
+            params.push(query.model);
+            conditions.push(`(embedding_model IS NULL OR embedding_model = $${params.length})`);
+        }
+        if (query.namespace !== undefined) {
+            params.push(query.namespace);
+            conditions.push(`${namespaceColumn} = $${params.length}`);
+        }
+        if (query.minSimilarity !== undefined) {
+            params.push(query.minSimilarity);
+            conditions.push(`1 - (embedding <=> $1::vector) >= $${params.length}`);
+        }
+        for (const [field, condition] of Object.entries(query.where ?? {})) {
+            const column = this.column(collection, field);
+            if (typeof condition === 'object') {
+                if (condition.lt !== undefined) {
+                    params.push(condition.lt);
+                    conditions.push(`${column} < $${params.length}`);
+                }
+                if (condition.gte !== undefined) {
+                    params.push(condition.gte);
+                    conditions.push(`${column} >= $${params.length}`);
+                }
+            } else {
+                params.push(condition);
+                conditions.push(`${column} = $${params.length}`);
+            }
+        }
+
+        const result = await db.query<VectorRow & { similarity: number }>(
+            `SELECT id, ${namespaceColumn} AS namespace, ${this.selectFields(fields)}
+                    1 - (embedding <=> $1::vector) AS similarity
+             FROM ${table}
+             WHERE ${conditions.join(' AND ')}
+             ORDER BY embedding <=> $1::vector
+             LIMIT $2`,
+            params
+        );
+        if (!result) {
+            throw new Error(`pgvector search failed on ${collection}`);
+        }
+
+        return result.rows.map((row) => ({
+            id: row.id,
+            namespace: row.namespace,
+            similarity: Number(row.similarity),
+            metadata: this.toMetadata(fields, row),
+        }));
+    }
+
+    async has(collection: VectorCollection, ids: string[]): Promise<Set<string>> {
+        const { table } = PG_COLLECTIONS[collection];
+        const result = await db.query<{ id: string }>(
+            `SELECT id FROM ${table} WHERE id = ANY($1) AND embedding IS NOT NULL`,
+            [ids]
+        );
+        if (!result) {
+            throw new Error(`Failed to look up vectors in ${collection}`);
+        }
+        return new Set(result.rows.map((row) => row.id));
+    }
+
+    async delete(collection: VectorCollection, ids: string[]): Promise<void> {
+        const { table } = PG_COLLECTIONS[collection];
+        await db.query(`UPDATE ${table} SET ${CLEAR_EMBEDDING} WHERE id = ANY($1)`, [ids]);
+    }
+
+    async deleteNamespace(collection: VectorCollection, namespace: string): Promise<void> {
+        const { table, namespaceColumn } = PG_COLLECTIONS[collection];
+        await db.query(`UPDATE ${table} SET ${CLEAR_EMBEDDING} WHERE ${namespaceColumn} = $1`, [namespace]);
+    }
+
+    async count(collection: VectorCollection, namespace?: string): Promise<number> {
+        const { table, namespaceColumn } = PG_COLLECTIONS[collection];
+        const result = namespace === undefined
+            ? await db.query<{ count: string }>(`SELECT COUNT(*) AS count FROM ${table} WHERE embedding IS NOT NULL`)
+            : await db.query<{ count: string }>(
+                `SELECT COUNT(*) AS count FROM ${table} WHERE embedding IS NOT NULL AND ${namespaceColumn} = $1`,
+                [namespace]
+            );
+        if (!result) {
+            throw new Error(`Failed to count vectors in ${collection}`);
+        }
+        return Number(result.rows[0]?.count ?? 0);
+    }
+
+    async *scan(collection: VectorCollection, batchSize: number): AsyncIterable<VectorRecord[]> {
+        const { table, namespaceColumn, fields } = PG_COLLECTIONS[collection];
+        let after = '';
+
+        for (;;) {
+            const result = await db.query<VectorRow & { vector: string; model: string | null }>(
+                `SELECT id, ${namespaceColumn} AS namespace, ${this.selectFields(fields)}
+                        embedding_model AS model, embedding::text AS vector
+                 FROM ${table}
+                 WHERE embedding IS NOT NULL AND id::text > $1
+                 ORDER BY id::text
+                 LIMIT $2`,
+                [after, batchSize]
+            );
+            if (!result) {
+                throw new Error(`Failed to read vectors from ${collection}`);
+            }
+            if (result.rows.length === 0) {
+                return;
+            }
+
+            yield result.rows.map((row) => ({
+                id: String(row.id),
+                namespace: row.namespace,
+                vector: parseVector(row.vector),
+                model: row.model ?? undefined,
+                metadata: this.toMetadata(fields, row),
+            }));
+            after = String(result.rows[result.rows.length - 1].id);
+        }
+    }
+
+    async flush(): Promise<void> {
+        // Writes go straight to Postgres
+    }
+
+    private column(collection: VectorCollection, field: string): string {
+        const column = PG_COLLECTIONS[collection].fields[field];
+        if (!column) {
+            throw new Error(`Unknown ${collection} vector field: ${field}`);
+        }
+        return column;
+    }
+
+    private selectFields(fields: Record<string, string>): string {
+        return Object.entries(fields).map(([field, column]) => `${column} AS "${field}",`).join(' ');
+    }
+
+    private toMetadata(fields: Record<string, string>, row: VectorRow): VectorMetadata {
+        const metadata: VectorMetadata = {};
+        for (const field of Object.keys(fields)) {
+            if (row[field] !== null && row[field] !== undefined) {
+                metadata[field] = row[field];
+            }
+        }
+        return metadata;
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * @file Vector Store Types
+ * @description Backend-neutral interface for storing embeddings and
+ * searching them by cosine similarity.
+ */
+
+/**
+ * Embeddings kept by the gateway. Each collection is keyed by the id of the
+ * row it embeds (messages.id, agent_memories.id).
+ */
+export type VectorCollection = 'messages' | 'agent_memories';
+
+export const VECTOR_COLLECTIONS: VectorCollection[] = ['messages', 'agent_memories'];
+
+export type VectorStoreBackend = 'pgvector' | 'embedded';
+
+/**
+ * Filterable fields stored with a vector.
+ * messages: `turnIndex`; agent_memories: `type`.
+ */
+export type VectorMetadata = Record<string, string | number>;
+
+export interface VectorRecord {
+    id: string;
+    /** Conversation the vector belongs to */
+    namespace: string;
+    vector: number[];
+    /** Embedding model that produced the vector (unknown for older vectors) */
+    model?: string;
+    metadata: VectorMetadata;
+}
+
+/**
+ * Equality on a string/number field, or a numeric range
+ */
+export type VectorCondition = string | number | { lt?: number; gte?: number };
+
+export interface VectorSearchQuery {
+    vector: number[];
+    topK: number;
+    /** Restrict to one conversation; all conversations if omitted */
+    namespace?: string;
+    minSimilarity?: number;
+    /**
+     * Embedding model of the query vector. Vectors of another model are never
+     * compared; vectors of another dimension are always skipped.
+     */
+    model?: string;
+    where?: Record<string, VectorCondition>;
+}
+
+export interface VectorMatch {
+    id: string;
+    namespace: string;
+    similarity: number;
+    metadata: VectorMetadata;
+}
+
+export interface VectorStore {
+    readonly backend: VectorStoreBackend;
+
+    /** Insert or replace vectors; returns how many were written */
+    upsert(collection: VectorCollection, records: VectorRecord[]): Promise<number>;
+
+    /** Most similar vectors first */
+    search(collection: VectorCollection, query: VectorSearchQuery): Promise<VectorMatch[]>;
+
+    /** Subset of `ids` that have a vector */
+    has(collection: VectorCollection, ids: string[]): Promise<Set<string>>;
+
+    delete(collection: VectorCollection, ids: string[]): Promise<void>;
+
+    deleteNamespace(collection: VectorCollection, namespace: string): Promise<void>;
+
+    count(collection: VectorCollection, namespace?: string): Promise<number>;
+
+    /** Every stored vector, in batches (used to copy between backends) */
+    scan(collection: VectorCollection, batchSize: number): AsyncIterable<VectorRecord[]>;
+
+    /** Write pending changes to durable storage */
+    flush(): Promise<void>;
+}
+
+/**
+ * Whether `metadata` satisfies every condition of `where`
+ */
+export function matchesWhere(metadata: VectorMetadata, where: Record<string, VectorCondition> = {}): boolean {
+    for (const [field, condition] of Object.entries(where)) {
+        const value = metadata[field];
+        if (typeof condition === 'object') {
+            if (typeof value !== 'number') return false;
+            if (condition.lt !== undefined && !(value < condition.lt)) return false;
+            if (condition.gte !== undefined && !(value >= condition.gte)) return false;
+        } else if (value !== condition) {
+            return false;
+        }
+    }
+    return true;
+}
@@ -2,7 +2,11 @@ import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { CodeAgentRequestSchema } from '../../mcp/types.js';
+import type { McpToolContext } from '../../mcp/adapter/types.js';
 import { routeRequest } from '../../routing/router.js';
+import { ContentPolicyError } from '../../security/content-policy.js';
+import { QuotaExceededError } from '../../quota/enforcer.js';
+import { BudgetExceededError } from '../../quota/budgets.js';
 import { logger } from '../../logging/logger.js';
 
 // Export Phase 2 modules
@@ -55,10 +59,14 @@ export const codeAgentTool = {
                 description: 'Quality requirement level',
                 default: 'normal',
             },
+            projectId: {
+                type: 'string',
+                description: 'Project whose content policy applies (default project if omitted)',
+            },
         },
         required: ['task'],
     },
-    handler: async (args: Record<string, unknown>) => {
+    handler: async (args: Record<string, unknown>, toolContext?: McpToolContext) => {
         try {
             // Validate input
             const request = CodeAgentRequestSchema.parse(args);
@@ -122,6 +130,10 @@ export const codeAgentTool = {
                     complexity,
                     quality: request.quality,
                     enableCrossCheck: request.quality !== 'normal', // Enable cross-check for high/critical
+                    project: request.projectId,
+                    userId: toolContext?.userId,
+                    contentPolicy: { requestType: 'mcp-cli' },
+                    quota: {},
                 },
             );
 
@@ -154,6 +166,24 @@ export const codeAgentTool = {
                 error: error instanceof Error ? error.message : 'Unknown error',
             });
 
+            if (error instanceof ContentPolicyError) {
+                return {
+                    success: false,
+                    error: error.message,
+                    errorCode: error.details.code,
+                    metadata: error.details,
+                };
+            }
+
+            if (error instanceof QuotaExceededError || error instanceof BudgetExceededError) {
+                return {
+                    success: false,
+                    error: error.message,
+                    errorCode: error.details.code.toUpperCase(),
+                    metadata: error.details,
+                };
+            }
+
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
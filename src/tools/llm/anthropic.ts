@@ -1,11 +1,46 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { LLMClient, calculateCost } from './client.js';
-import { LLMRequest, LLMResponse } from '../../mcp/types.js';
+import {
+    LLMClient,
+    calculateCost,
+    buildChatMessages,
+    getPromptText,
+    loadImageData,
+    normalizeFinishReason,
+} from './client.js';
+import { ChatImage, LLMRequest, LLMResponse, LLMStreamHandler, ToolCall } from '../../mcp/types.js';
 import { ModelConfig } from '../../config/models.js';
 import { env } from '../../config/env.js';
 import { logger } from '../../logging/logger.js';
 import { providerManager } from '../../config/provider-manager.js';
 
+type AnthropicContentBlock = Exclude<Anthropic.MessageParam['content'], string>[number];
+
+/**
+ * Parse JSON tool arguments; Anthropic expects an object for tool_use input
+ */
+function parseToolArguments(args: string): Record<string, unknown> {
+    try {
+        const parsed = JSON.parse(args || '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+const ANTHROPIC_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
+
+/**
+ * Encode an image as an Anthropic base64 image block (URLs are not accepted)
+ */
+async function toAnthropicImage(image: ChatImage): Promise<Anthropic.ImageBlockParam> {
+    const { mediaType, data } = await loadImageData(image);
+    const supported = ANTHROPIC_IMAGE_TYPES.find((type) => type === mediaType);
+    if (!supported) {
+        throw new Error(`Unsupported image type for Anthropic: ${mediaType}`);
+    }
+    return { type: 'image', source: { type: 'base64', media_type: supported, data } };
+}
+
 /**
  * Anthropic Claude LLM client
  */
@@ -35,15 +70,102 @@ export class AnthropicClient implements LLMClient {
         return provider === 'anthropic';
     }
 
+    /**
+     * Map the request conversation to Anthropic's format: system messages become the
+     * top-level `system` field, assistant tool calls become `tool_use` blocks, tool
+     * results become `tool_result` blocks in a user turn, and consecutive turns of the
+     * same role are merged because the API expects alternating roles.
+     */
+    private async toAnthropicMessages(request: LLMRequest): Promise<{
+        system?: string;
+        messages: Anthropic.MessageParam[];
+    }> {
+        const systemParts: string[] = [];
+        const messages: Array<{ role: 'user' | 'assistant'; content: AnthropicContentBlock[] }> = [];
+
+        for (const message of buildChatMessages(request)) {
+            if (message.role === 'system') {
+                systemParts.push(message.content);
+                continue;
+            }
+
+            const role = message.role === 'assistant' ? 'assistant' : 'user';
+            const blocks: AnthropicContentBlock[] = [];
+
+            if (message.role === 'tool') {
+                blocks.push(message.toolCallId
+                    ? { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }
+                    : { type: 'text', text: `Tool result: ${message.content}` });
+            } else {
+                for (const image of message.images ?? []) {
+                    blocks.push(await toAnthropicImage(image));
+                }
+                if (message.content) {
+                    blocks.push({ type: 'text', text: message.content });
+                }
+                for (const call of message.toolCalls ?? []) {
+                    blocks.push({
+                        type: 'tool_use',
+                        id: call.id,
+                        name: call.name,
+                        input: parseToolArguments(call.arguments),
+                    });
+                }
+            }
+
+            const previous = messages[messages.length - 1];
+            if (previous && previous.role === role) {
+                previous.content.push(...blocks);
+            } else {
+                messages.push({ role, content: blocks });
+            }
+        }
+
+        return {
+            system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+            messages,
+        };
+    }
+
+    /**
+     * Map tool definitions and tool choice to Anthropic request fields.
+     * Anthropic has no "none" choice, so tools are simply omitted in that case.
+     */
+    private toAnthropicToolParams(request: LLMRequest): {
+        tools?: Anthropic.Tool[];
+        tool_choice?: Anthropic.MessageCreateParams['tool_choice'];
+    } {
+        if (!request.tools || request.tools.length === 0 || request.toolChoice === 'none') {
+            return {};
+        }
+
+        const choice = request.toolChoice;
+        return {
+            tools: request.tools.map((tool) => ({
+                name: tool.name,
+                ...(tool.description && { description: tool.description }),
+                input_schema: (tool.parameters ?? { type: 'object', properties: {} }) as Anthropic.Tool.InputSchema,
+            })),
+            ...(choice && {
+                tool_choice: choice === 'auto'
+                    ? { type: 'auto' as const }
+                    : choice === 'required'
+                        ? { type: 'any' as const }
+                        : { type: 'tool' as const, name: choice.name },
+            }),
+        };
+    }
+
     async call(
         request: LLMRequest,
         model: ModelConfig,
     ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+        const promptText = getPromptText(request);
         const client = await this.getClient();
 
         logger.debug('Calling Anthropic API', {
             model: model.apiModelName,
-            promptLength: request.prompt.length,
+            promptLength: promptText.length,
         });
 
         try {
@@ -51,8 +173,8 @@ export class AnthropicClient implements LLMClient {
             logger.info('[Anthropic] Sending prompt to model', {
                 model: model.apiModelName,
                 systemPrompt: request.systemPrompt ? request.systemPrompt.substring(0, 200) + '...' : 'none',
-                userPrompt: request.prompt.substring(0, 500) + (request.prompt.length > 500 ? '...' : ''),
-                fullPromptLength: request.prompt.length,
+                userPrompt: promptText.substring(0, 500) + (promptText.length > 500 ? '...' : ''),
+                fullPromptLength: promptText.length,
                 maxTokens: request.maxTokens || 4096,
                 temperature: request.temperature || 0.7,
             });
@@ -60,30 +182,41 @@ export class AnthropicClient implements LLMClient {
             // Log complete prompt for detailed debugging
             logger.debug('[Anthropic] Complete request details', {
                 systemPrompt: request.systemPrompt,
-                userMessage: request.prompt.substring(0, 1000) + (request.prompt.length > 1000 ? '...' : ''),
+                userMessage: promptText.substring(0, 1000) + (promptText.length > 1000 ? '...' : ''),
             });
 
+            const { system, messages } = await this.toAnthropicMessages(request);
+
             const response = await client.messages.create({
                 model: model.apiModelName,
                 max_tokens: request.maxTokens || 4096,
                 temperature: request.temperature || 0.7,
-                system: request.systemPrompt,
-                messages: [
-                    {
-                        role: 'user',
-                        content: request.prompt,
-                    },
-                ],
+                system,
+                messages,
+                ...this.toAnthropicToolParams(request),
             });
 
-            const content =
-                response.content[0].type === 'text' ? response.content[0].text : '';
+            let content = '';
+            const toolCalls: ToolCall[] = [];
+            for (const block of response.content) {
+                if (block.type === 'text') {
+                    content += block.text;
+                } else if (block.type === 'tool_use') {
+                    toolCalls.push({
+                        id: block.id,
+                        name: block.name,
+                        arguments: JSON.stringify(block.input),
+                    });
+                }
+            }
             const inputTokens = response.usage.input_tokens;
             const outputTokens = response.usage.output_tokens;
             const cost = calculateCost(inputTokens, outputTokens, model);
 
             return {
                 content,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                finishReason: normalizeFinishReason(response.stop_reason),
                 modelId: model.id,
                 provider: model.provider,
                 inputTokens,
@@ -98,4 +231,91 @@ export class AnthropicClient implements LLMClient {
             throw error;
         }
     }
+
+    async stream(
+        request: LLMRequest,
+        model: ModelConfig,
+        onDelta: LLMStreamHandler,
+    ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+        const promptText = getPromptText(request);
+        const client = await this.getClient();
+
+        logger.debug('Streaming from Anthropic API', {
+            model: model.apiModelName,
+            promptLength: promptText.length,
+        });
+
+        try {
+            const { system, messages } = await this.toAnthropicMessages(request);
+
+            const stream = await client.messages.create({
+                model: model.apiModelName,
+                max_tokens: request.maxTokens || 4096,
+                temperature: request.temperature || 0.7,
+                system,
+                messages,
+                ...this.toAnthropicToolParams(request),
+                stream: true,
+            });
+
+            let content = '';
+            let inputTokens = 0;
+            let outputTokens = 0;
+            let stopReason: string | null = null;
+            // tool_use blocks stream their input as partial JSON, keyed by block index
+            const toolCalls = new Map<number, ToolCall>();
+
+            for await (const event of stream) {
+                switch (event.type) {
+                    case 'message_start':
+                        inputTokens = event.message.usage.input_tokens;
+                        outputTokens = event.message.usage.output_tokens;
+                        break;
+                    case 'content_block_start':
+                        if (event.content_block.type === 'tool_use') {
+                            toolCalls.set(event.index, {
+                                id: event.content_block.id,
+                                name: event.content_block.name,
+                                arguments: '',
+                            });
+                        }
+                        break;
+                    case 'content_block_delta':
+                        if (event.delta.type === 'text_delta') {
+                            content += event.delta.text;
+                            onDelta(event.delta.text);
+                        } else if (event.delta.type === 'input_json_delta') {
+                            const call = toolCalls.get(event.index);
+                            if (call) call.arguments += event.delta.partial_json;
+                        }
+                        break;
+                    case 'message_delta':
+                        outputTokens = event.usage.output_tokens;
+                        stopReason = event.delta.stop_reason;
+                        break;
+                }
+            }
+
+            const cost = calculateCost(inputTokens, outputTokens, model);
+
+            return {
+                content,
+                toolCalls: toolCalls.size > 0
+                    ? [...toolCalls.values()].map((call) => ({ ...call, arguments: call.arguments || '{}' }))
+                    : undefined,
+                finishReason: normalizeFinishReason(stopReason),
+                modelId: model.id,
+                provider: model.provider,
+                inputTokens,
+                outputTokens,
+                cost,
+            };
+        } catch (error) {
+            logger.error('Anthropic streaming error', {
+                model: model.apiModelName,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw error;
+        }
+    }
 }
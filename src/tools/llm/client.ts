@@ -1,4 +1,13 @@
-import { LLMRequest, LLMResponse } from '../../mcp/types.js';
+import {
+    ChatImage,
+    ChatMessage,
+    LLMRequest,
+    LLMResponse,
+    LLMStreamHandler,
+    ToolCall,
+    ToolChoice,
+    ToolDefinition,
+} from '../../mcp/types.js';
 import { ModelConfig } from '../../config/models.js';
 
 /**
@@ -13,12 +22,262 @@ export interface LLMClient {
         model: ModelConfig,
     ): Promise<Omit<LLMResponse, 'routingSummary'>>;
 
+    /**
+     * Stream the LLM response, invoking onDelta for every content fragment.
+     * Resolves with the aggregated response (content, tokens, cost) once the stream ends.
+     */
+    stream(
+        request: LLMRequest,
+        model: ModelConfig,
+        onDelta: LLMStreamHandler,
+    ): Promise<Omit<LLMResponse, 'routingSummary'>>;
+
     /**
      * Check if this client can handle the given provider
      */
     canHandle(provider: string): boolean;
 }
 
+/**
+ * Resolve the conversation to send for a request.
+ * Falls back to a single user turn built from `prompt` when no messages are given.
+ */
+export function buildChatMessages(request: LLMRequest): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+
+    if (request.systemPrompt) {
+        messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    if (request.messages && request.messages.length > 0) {
+        messages.push(...request.messages);
+    } else {
+        messages.push({ role: 'user', content: request.prompt ?? '' });
+    }
+
+    return messages;
+}
+
+/**
+ * OpenAI tool call shape (also used by OpenRouter)
+ */
+export interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        arguments: string;
+    };
+}
+
+/**
+ * OpenAI multimodal content part (also used by OpenRouter)
+ */
+export type OpenAIContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string; detail?: ChatImage['detail'] } };
+
+/**
+ * OpenAI chat message shape (also used by OpenRouter)
+ */
+export type OpenAIChatMessage =
+    | { role: 'system'; content: string; name?: string }
+    | { role: 'user'; content: string | OpenAIContentPart[]; name?: string }
+    | { role: 'assistant'; content: string | null; name?: string; tool_calls?: OpenAIToolCall[] }
+    | { role: 'tool'; content: string; tool_call_id: string };
+
+/**
+ * Map a conversation to the OpenAI chat format.
+ * Tool results without a call id cannot be attributed, so they are sent as user text.
+ */
+export function toOpenAIChatFormat(messages: ChatMessage[]): OpenAIChatMessage[] {
+    return messages.map((m): OpenAIChatMessage => {
+        if (m.role === 'tool') {
+            return m.toolCallId
+                ? { role: 'tool', content: m.content, tool_call_id: m.toolCallId }
+                : { role: 'user', content: `Tool result: ${m.content}` };
+        }
+        if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+            return {
+                role: 'assistant',
+                content: m.content || null,
+                tool_calls: m.toolCalls.map((call) => ({
+                    id: call.id,
+                    type: 'function',
+                    function: { name: call.name, arguments: call.arguments },
+                })),
+            };
+        }
+        if (m.role === 'user' && m.images && m.images.length > 0) {
+            return {
+                role: 'user',
+                content: [
+                    ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+                    ...m.images.map((image) => ({
+                        type: 'image_url' as const,
+                        image_url: { url: image.url, ...(image.detail && { detail: image.detail }) },
+                    })),
+                ],
+                ...(m.name && { name: m.name }),
+            };
+        }
+        return { role: m.role, content: m.content, ...(m.name && { name: m.name }) };
+    });
+}
+
+/**
+ * Check whether a request carries image inputs
+ */
+export function hasImages(request: LLMRequest): boolean {
+    return request.messages?.some((m) => (m.images?.length ?? 0) > 0) ?? false;
+}
+
+/**
+ * Base64 image payload for providers that do not accept image URLs
+ */
+export interface ImageData {
+    mediaType: string;
+    data: string;
+}
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.+)$/s;
+
+/**
+ * Resolve an image to base64 data: `data:` URLs are decoded in place,
+ * http(s) URLs are downloaded.
+ */
+export async function loadImageData(image: ChatImage): Promise<ImageData> {
+    const match = DATA_URL_PATTERN.exec(image.url);
+    if (match) {
+        return { mediaType: match[1], data: match[2] };
+    }
+
+    const response = await fetch(image.url, { signal: AbortSignal.timeout(15000) });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch image ${image.url}: ${response.status} ${response.statusText}`);
+    }
+
+    const mediaType = response.headers.get('content-type')?.split(';')[0].trim() || 'image/jpeg';
+    const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return { mediaType, data };
+}
+
+/**
+ * Map tool definitions and tool choice to the OpenAI request fields.
+ * Returns an empty object when the request carries no tools.
+ */
+export function toOpenAIToolParams(request: LLMRequest): {
+    tools?: Array<{ type: 'function'; function: ToolDefinition }>;
+    tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+} {
+    if (!request.tools || request.tools.length === 0) {
+        return {};
+    }
+
+    const choice: ToolChoice | undefined = request.toolChoice;
+    return {
+        tools: request.tools.map((tool) => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                ...(tool.description && { description: tool.description }),
+                parameters: tool.parameters ?? { type: 'object', properties: {} },
+            },
+        })),
+        ...(choice && {
+            tool_choice: typeof choice === 'string'
+                ? choice
+                : { type: 'function', function: { name: choice.name } },
+        }),
+    };
+}
+
+/**
+ * Convert OpenAI tool calls to the gateway ToolCall shape
+ */
+export function fromOpenAIToolCalls(
+    toolCalls: OpenAIToolCall[] | undefined | null,
+): ToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+        return undefined;
+    }
+    return toolCalls.map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+    }));
+}
+
+/**
+ * Normalize provider finish reasons to the gateway's set
+ */
+export function normalizeFinishReason(
+    reason: string | null | undefined,
+): LLMResponse['finishReason'] {
+    switch (reason) {
+        case 'tool_calls':
+        case 'tool_use':
+        case 'function_call':
+            return 'tool_calls';
+        case 'length':
+        case 'max_tokens':
+            return 'length';
+        default:
+            return 'stop';
+    }
+}
+
+/**
+ * Reassembles tool calls from streamed OpenAI-style deltas, where the id and name
+ * arrive on the first fragment and the JSON arguments are split across the rest
+ */
+export class ToolCallAccumulator {
+    private calls = new Map<number, ToolCall>();
+
+    add(deltas: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+    }> | undefined): void {
+        for (const delta of deltas ?? []) {
+            const call = this.calls.get(delta.index) ?? { id: '', name: '', arguments: '' };
+            if (delta.id) call.id = delta.id;
+            if (delta.function?.name) call.name += delta.function.name;
+            if (delta.function?.arguments) call.arguments += delta.function.arguments;
+            this.calls.set(delta.index, call);
+        }
+    }
+
+    result(): ToolCall[] | undefined {
+        if (this.calls.size === 0) {
+            return undefined;
+        }
+        return [...this.calls.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, call]) => call);
+    }
+}
+
+/**
+ * Flatten a conversation into the legacy "Role: content" prompt format
+ */
+export function flattenMessages(messages: ChatMessage[]): string {
+    return messages
+        .map((m) => `${m.role.charAt(0).toUpperCase()}${m.role.slice(1)}: ${m.content}`)
+        .join('\n\n');
+}
+
+/**
+ * Text form of a request, used for logging, token estimation and review prompts.
+ * Returns `prompt` when set, otherwise the flattened conversation.
+ */
+export function getPromptText(request: LLMRequest): string {
+    if (request.prompt !== undefined) {
+        return request.prompt;
+    }
+    return flattenMessages(request.messages ?? []);
+}
+
 /**
  * Estimate token count (rough approximation)
  */
@@ -44,3 +303,39 @@ export function calculateCost(
 
     return inputCost + outputCost;
 }
+
+/**
+ * Read a streamed HTTP body line by line (SSE and NDJSON responses)
+ */
+export async function* readLines(
+    body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            let newlineIndex = buffer.indexOf('\n');
+            while (newlineIndex !== -1) {
+                const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+                buffer = buffer.slice(newlineIndex + 1);
+                if (line.length > 0) {
+                    yield line;
+                }
+                newlineIndex = buffer.indexOf('\n');
+            }
+        }
+
+        buffer += decoder.decode();
+        if (buffer.trim().length > 0) {
+            yield buffer.trim();
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
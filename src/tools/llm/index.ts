@@ -1,14 +1,15 @@
-import { LLMClient } from './client.js';
+import { LLMClient, getPromptText } from './client.js';
 import { AnthropicClient } from './anthropic.js';
 import { OpenAIClient } from './openai.js';
 import { OpenRouterClient } from './openrouter.js';
 import { OSSLocalClient } from './oss-local.js';
-import { LLMRequest, LLMResponse } from '../../mcp/types.js';
+import { LLMRequest, LLMResponse, LLMStreamHandler } from '../../mcp/types.js';
 import { ModelConfig } from '../../config/models.js';
 import { env } from '../../config/env.js';
 import { logger } from '../../logging/logger.js';
 import { metrics } from '../../logging/metrics.js';
 import { providerHealth } from '../../config/provider-health.js';
+import { traceLLMCall } from '../../tracing/integration.js';
 
 /**
  * Registry of all LLM clients
@@ -77,7 +78,7 @@ async function callLLMWithFallback(
                 const openRouterClient = clients.find((c) => c.canHandle('openrouter'));
                 if (openRouterClient) {
                     try {
-                        return await openRouterClient.call(request, fallbackModel);
+                        return await traceLLMCall(fallbackModel, () => openRouterClient.call(request, fallbackModel), model.id);
                     } catch (error) {
                         logger.error(`OpenRouter fallback failed: ${error}`);
                         providerHealth.markProviderUnhealthy('openrouter');
@@ -102,7 +103,7 @@ async function callLLMWithFallback(
                     enabled: true,
                 };
                 try {
-                    return await ossClient.call(request, ossModel);
+                    return await traceLLMCall(ossModel, () => ossClient.call(request, ossModel), model.id);
                 } catch (error) {
                     logger.error(`OSS Local fallback failed: ${error}`);
                     providerHealth.markProviderUnhealthy('oss-local');
@@ -120,7 +121,7 @@ async function callLLMWithFallback(
     }
 
     try {
-        return await client.call(request, model);
+        return await traceLLMCall(model, () => client.call(request, model));
     } catch (error) {
         logger.warn(`Primary provider ${originalProvider} failed: ${error}`);
         providerHealth.markProviderUnhealthy(originalProvider);
@@ -137,6 +138,7 @@ export async function callLLM(
     request: LLMRequest,
     model: ModelConfig,
 ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+    const promptText = getPromptText(request);
     logger.debug('Calling LLM', {
         modelId: model.id,
         provider: model.provider,
@@ -148,8 +150,8 @@ export async function callLLM(
         modelId: model.id,
         provider: model.provider,
         layer: model.layer,
-        promptPreview: request.prompt.substring(0, 300) + (request.prompt.length > 300 ? '...' : ''),
-        promptLength: request.prompt.length,
+        promptPreview: promptText.substring(0, 300) + (promptText.length > 300 ? '...' : ''),
+        promptLength: promptText.length,
         hasSystemPrompt: !!request.systemPrompt,
     });
 
@@ -200,4 +202,82 @@ export async function callLLM(
     }
 }
 
+/**
+ * Stream an LLM response from the given model.
+ *
+ * Deltas are forwarded to onDelta as they arrive. If the provider is unhealthy,
+ * or fails before emitting anything, the regular fallback chain is used and the
+ * fallback's full content is emitted as a single delta. A failure after content
+ * has already been streamed cannot be retried and is rethrown.
+ */
+export async function callLLMStream(
+    request: LLMRequest,
+    model: ModelConfig,
+    onDelta: LLMStreamHandler,
+): Promise<Omit<LLMResponse, 'routingSummary'>> {
+    const promptText = getPromptText(request);
+    logger.info('[LLM] Stream request details', {
+        modelId: model.id,
+        provider: model.provider,
+        layer: model.layer,
+        promptLength: promptText.length,
+        hasSystemPrompt: !!request.systemPrompt,
+    });
+
+    const startTime = Date.now();
+    let emitted = false;
+    const forward: LLMStreamHandler = (delta) => {
+        emitted = true;
+        onDelta(delta);
+    };
+
+    const client = clients.find((c) => c.canHandle(model.provider));
+    let response: Omit<LLMResponse, 'routingSummary'>;
+
+    try {
+        if (!client || !(await providerHealth.isProviderHealthy(model.provider))) {
+            throw new Error(`Provider ${model.provider} unavailable for streaming`);
+        }
+        response = await traceLLMCall(model, () => client.stream(request, model, forward));
+    } catch (error) {
+        if (emitted) {
+            logger.error('LLM stream failed mid-response', {
+                modelId: model.id,
+                provider: model.provider,
+                duration: Date.now() - startTime,
+                error: String(error),
+            });
+            throw error;
+        }
+
+        logger.warn(`Streaming from ${model.provider} failed, using fallback chain: ${error}`);
+        if (client) {
+            providerHealth.markProviderUnhealthy(model.provider);
+        }
+
+        response = await callLLMWithFallback(request, model);
+        if (response.content) {
+            onDelta(response.content);
+        }
+    }
+
+    metrics.recordLLMCall(
+        response.inputTokens,
+        response.outputTokens,
+        response.cost,
+    );
+
+    logger.info('[LLM] Stream completed', {
+        modelId: model.id,
+        provider: response.provider,
+        responseLength: response.content.length,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+        cost: response.cost.toFixed(6),
+        duration: Date.now() - startTime,
+    });
+
+    return response;
+}
+
 export { LLMClient };
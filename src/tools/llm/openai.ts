@@ -1,6 +1,17 @@
 import OpenAI from 'openai';
-import { LLMClient, calculateCost } from './client.js';
-import { LLMRequest, LLMResponse } from '../../mcp/types.js';
+import {
+    LLMClient,
+    calculateCost,
+    estimateTokens,
+    buildChatMessages,
+    getPromptText,
+    toOpenAIChatFormat,
+    toOpenAIToolParams,
+    fromOpenAIToolCalls,
+    normalizeFinishReason,
+    ToolCallAccumulator,
+} from './client.js';
+import { LLMRequest, LLMResponse, LLMStreamHandler } from '../../mcp/types.js';
 import { ModelConfig } from '../../config/models.js';
 import { env } from '../../config/env.js';
 import { logger } from '../../logging/logger.js';
@@ -39,34 +50,24 @@ export class OpenAIClient implements LLMClient {
         request: LLMRequest,
         model: ModelConfig,
     ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+        const promptText = getPromptText(request);
         const client = await this.getClient();
 
         logger.debug('Calling OpenAI API', {
             model: model.apiModelName,
-            promptLength: request.prompt.length,
+            promptLength: promptText.length,
         });
 
         try {
-            const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-            if (request.systemPrompt) {
-                messages.push({
-                    role: 'system',
-                    content: request.systemPrompt,
-                });
-            }
-
-            messages.push({
-                role: 'user',
-                content: request.prompt,
-            });
+            const messages: OpenAI.Chat.ChatCompletionMessageParam[] =
+                toOpenAIChatFormat(buildChatMessages(request));
 
             // Log full prompt for debugging
             logger.info('[OpenAI] Sending prompt to model', {
                 model: model.apiModelName,
                 systemPrompt: request.systemPrompt ? request.systemPrompt.substring(0, 200) + '...' : 'none',
-                userPrompt: request.prompt.substring(0, 500) + (request.prompt.length > 500 ? '...' : ''),
-                fullPromptLength: request.prompt.length,
+                userPrompt: promptText.substring(0, 500) + (promptText.length > 500 ? '...' : ''),
+                fullPromptLength: promptText.length,
                 maxTokens: request.maxTokens || 4096,
                 temperature: request.temperature || 0.7,
             });
@@ -87,15 +88,19 @@ export class OpenAIClient implements LLMClient {
                 messages,
                 max_tokens: request.maxTokens || 4096,
                 temperature: request.temperature || 0.7,
+                ...toOpenAIToolParams(request),
             });
 
-            const content = response.choices[0]?.message?.content || '';
+            const choice = response.choices[0];
+            const content = choice?.message?.content || '';
             const inputTokens = response.usage?.prompt_tokens || 0;
             const outputTokens = response.usage?.completion_tokens || 0;
             const cost = calculateCost(inputTokens, outputTokens, model);
 
             return {
                 content,
+                toolCalls: fromOpenAIToolCalls(choice?.message?.tool_calls),
+                finishReason: normalizeFinishReason(choice?.finish_reason),
                 modelId: model.id,
                 provider: model.provider,
                 inputTokens,
@@ -110,4 +115,79 @@ export class OpenAIClient implements LLMClient {
             throw error;
         }
     }
+
+    async stream(
+        request: LLMRequest,
+        model: ModelConfig,
+        onDelta: LLMStreamHandler,
+    ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+        const promptText = getPromptText(request);
+        const client = await this.getClient();
+
+        logger.debug('Streaming from OpenAI API', {
+            model: model.apiModelName,
+            promptLength: promptText.length,
+        });
+
+        try {
+            const messages: OpenAI.Chat.ChatCompletionMessageParam[] =
+                toOpenAIChatFormat(buildChatMessages(request));
+
+            const stream = await client.chat.completions.create({
+                model: model.apiModelName,
+                messages,
+                max_tokens: request.maxTokens || 4096,
+                temperature: request.temperature || 0.7,
+                ...toOpenAIToolParams(request),
+                stream: true,
+                stream_options: { include_usage: true },
+            });
+
+            let content = '';
+            let inputTokens = 0;
+            let outputTokens = 0;
+            let finishReason: string | null = null;
+            const toolCalls = new ToolCallAccumulator();
+
+            for await (const chunk of stream) {
+                const choice = chunk.choices[0];
+                const delta = choice?.delta?.content;
+                if (delta) {
+                    content += delta;
+                    onDelta(delta);
+                }
+                toolCalls.add(choice?.delta?.tool_calls);
+                if (choice?.finish_reason) {
+                    finishReason = choice.finish_reason;
+                }
+
+                // Usage is only present on the final chunk (include_usage)
+                if (chunk.usage) {
+                    inputTokens = chunk.usage.prompt_tokens;
+                    outputTokens = chunk.usage.completion_tokens;
+                }
+            }
+
+            if (!inputTokens) inputTokens = estimateTokens(promptText);
+            if (!outputTokens) outputTokens = estimateTokens(content);
+            const cost = calculateCost(inputTokens, outputTokens, model);
+
+            return {
+                content,
+                toolCalls: toolCalls.result(),
+                finishReason: normalizeFinishReason(finishReason),
+                modelId: model.id,
+                provider: model.provider,
+                inputTokens,
+                outputTokens,
+                cost,
+            };
+        } catch (error) {
+            logger.error('OpenAI streaming error', {
+                model: model.apiModelName,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw error;
+        }
+    }
 }
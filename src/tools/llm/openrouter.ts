@@ -1,5 +1,18 @@
-import { LLMClient, estimateTokens, calculateCost } from './client.js';
-import { LLMRequest, LLMResponse } from '../../mcp/types.js';
+import {
+    LLMClient,
+    estimateTokens,
+    calculateCost,
+    readLines,
+    buildChatMessages,
+    getPromptText,
+    toOpenAIChatFormat,
+    toOpenAIToolParams,
+    fromOpenAIToolCalls,
+    normalizeFinishReason,
+    ToolCallAccumulator,
+    OpenAIToolCall,
+} from './client.js';
+import { LLMRequest, LLMResponse, LLMStreamHandler } from '../../mcp/types.js';
 import { ModelConfig } from '../../config/models.js';
 import { env } from '../../config/env.js';
 import { logger } from '../../logging/logger.js';
@@ -13,8 +26,9 @@ interface OpenRouterResponse {
     choices: Array<{
         message: {
             role: string;
-            content: string;
+            content: string | null;
             reasoning?: string;
+            tool_calls?: OpenAIToolCall[];
         };
         finish_reason: string;
     }>;
@@ -29,6 +43,34 @@ interface OpenRouterResponse {
     };
 }
 
+/**
+ * OpenRouter streamed chunk (OpenAI-compatible chat.completion.chunk)
+ */
+interface OpenRouterStreamChunk {
+    id: string;
+    choices: Array<{
+        delta: {
+            role?: string;
+            content?: string | null;
+            tool_calls?: Array<{
+                index: number;
+                id?: string;
+                function?: { name?: string; arguments?: string };
+            }>;
+        };
+        finish_reason: string | null;
+    }>;
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+    };
+    error?: {
+        message: string;
+        code: number;
+    };
+}
+
 /**
  * OpenRouter LLM client using native fetch API.
  * Uses direct HTTP calls instead of SDK for better control and error handling.
@@ -64,27 +106,16 @@ export class OpenRouterClient implements LLMClient {
         request: LLMRequest,
         model: ModelConfig,
     ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+        const promptText = getPromptText(request);
         const apiKey = await this.getApiKey();
 
         logger.debug('Calling OpenRouter API', {
             model: model.apiModelName,
-            promptLength: request.prompt.length,
+            promptLength: promptText.length,
         });
 
         try {
-            const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
-
-            if (request.systemPrompt) {
-                messages.push({
-                    role: 'system',
-                    content: request.systemPrompt,
-                });
-            }
-
-            messages.push({
-                role: 'user',
-                content: request.prompt,
-            });
+            const messages = toOpenAIChatFormat(buildChatMessages(request));
 
             // Use native fetch for better control over response handling
             const response = await fetch(`${this.baseUrl}/chat/completions`, {
@@ -100,6 +131,7 @@ export class OpenRouterClient implements LLMClient {
                     messages,
                     ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
                     temperature: request.temperature || 0.7,
+                    ...toOpenAIToolParams(request),
                 }),
             });
 
@@ -121,11 +153,12 @@ export class OpenRouterClient implements LLMClient {
 
             // Handle response - check for both content and reasoning (for thinking models)
             const choice = data.choices[0]?.message;
+            const toolCalls = fromOpenAIToolCalls(choice?.tool_calls);
             let content = choice?.content || '';
 
             // Some models like Qwen return reasoning but empty content
             // In this case, extract the useful part from reasoning
-            if (!content && choice?.reasoning) {
+            if (!content && !toolCalls && choice?.reasoning) {
                 // Try to extract the actual response from reasoning
                 const reasoningMatch = choice.reasoning.match(/I should say something like ["'](.+?)["']/);
                 if (reasoningMatch) {
@@ -136,12 +169,14 @@ export class OpenRouterClient implements LLMClient {
                 }
             }
 
-            const inputTokens = data.usage?.prompt_tokens || estimateTokens(request.prompt);
+            const inputTokens = data.usage?.prompt_tokens || estimateTokens(promptText);
             const outputTokens = data.usage?.completion_tokens || estimateTokens(content);
             const cost = calculateCost(inputTokens, outputTokens, model);
 
             return {
                 content,
+                toolCalls,
+                finishReason: normalizeFinishReason(data.choices[0]?.finish_reason),
                 modelId: model.id,
                 provider: model.provider,
                 inputTokens,
@@ -156,4 +191,107 @@ export class OpenRouterClient implements LLMClient {
             throw error;
         }
     }
+
+    async stream(
+        request: LLMRequest,
+        model: ModelConfig,
+        onDelta: LLMStreamHandler,
+    ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+        const promptText = getPromptText(request);
+        const apiKey = await this.getApiKey();
+
+        logger.debug('Streaming from OpenRouter API', {
+            model: model.apiModelName,
+            promptLength: promptText.length,
+        });
+
+        try {
+            const messages = toOpenAIChatFormat(buildChatMessages(request));
+
+            const response = await fetch(`${this.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${apiKey}`,
+                    'Content-Type': 'application/json',
+                    'HTTP-Referer': env.APP_URL || 'https://ai-mcp-gateway',
+                    'X-Title': 'AI MCP Gateway',
+                },
+                body: JSON.stringify({
+                    model: model.apiModelName,
+                    messages,
+                    ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+                    temperature: request.temperature || 0.7,
+                    ...toOpenAIToolParams(request),
+                    stream: true,
+                    usage: { include: true },
+                }),
+            });
+
+            if (!response.ok || !response.body) {
+                const errorText = await response.text();
+                logger.error('OpenRouter streaming HTTP error', {
+                    status: response.status,
+                    statusText: response.statusText,
+                    body: errorText,
+                });
+                throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
+            }
+
+            let content = '';
+            let inputTokens = 0;
+            let outputTokens = 0;
+            let finishReason: string | null = null;
+            const toolCalls = new ToolCallAccumulator();
+
+            for await (const line of readLines(response.body)) {
+                // Skip SSE comments (OpenRouter sends ": OPENROUTER PROCESSING" keep-alives)
+                if (!line.startsWith('data:')) continue;
+
+                const payload = line.slice('data:'.length).trim();
+                if (payload === '[DONE]') break;
+
+                const chunk = JSON.parse(payload) as OpenRouterStreamChunk;
+                if (chunk.error) {
+                    throw new Error(`OpenRouter error: ${chunk.error.message}`);
+                }
+
+                const choice = chunk.choices[0];
+                const delta = choice?.delta?.content;
+                if (delta) {
+                    content += delta;
+                    onDelta(delta);
+                }
+                toolCalls.add(choice?.delta?.tool_calls);
+                if (choice?.finish_reason) {
+                    finishReason = choice.finish_reason;
+                }
+
+                if (chunk.usage) {
+                    inputTokens = chunk.usage.prompt_tokens;
+                    outputTokens = chunk.usage.completion_tokens;
+                }
+            }
+
+            if (!inputTokens) inputTokens = estimateTokens(promptText);
+            if (!outputTokens) outputTokens = estimateTokens(content);
+            const cost = calculateCost(inputTokens, outputTokens, model);
+
+            return {
+                content,
+                toolCalls: toolCalls.result(),
+                finishReason: normalizeFinishReason(finishReason),
+                modelId: model.id,
+                provider: model.provider,
+                inputTokens,
+                outputTokens,
+                cost,
+            };
+        } catch (error) {
+            logger.error('OpenRouter streaming error', {
+                model: model.apiModelName,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw error;
+        }
+    }
 }
@@ -1,9 +1,29 @@
-import { LLMClient, estimateTokens } from './client.js';
-import { LLMRequest, LLMResponse } from '../../mcp/types.js';
+import {
+    LLMClient,
+    estimateTokens,
+    readLines,
+    buildChatMessages,
+    getPromptText,
+    loadImageData,
+} from './client.js';
+import { LLMRequest, LLMResponse, LLMStreamHandler } from '../../mcp/types.js';
 import { ModelConfig } from '../../config/models.js';
 import { env } from '../../config/env.js';
 import { logger } from '../../logging/logger.js';
 
+/**
+ * Ollama /api/chat response (one object, or one NDJSON line per chunk when streaming)
+ */
+interface OllamaChatResponse {
+    message?: {
+        role: string;
+        content: string;
+    };
+    done?: boolean;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
 /**
  * OSS/Local model client (e.g., Ollama)
  * This is a stub implementation - you'll need to implement based on your local setup
@@ -13,10 +33,35 @@ export class OSSLocalClient implements LLMClient {
         return provider === 'oss-local';
     }
 
+    /**
+     * Build an Ollama /api/chat request body; Ollama accepts our roles as-is
+     * and takes images as raw base64 strings on the message
+     */
+    private async buildChatBody(request: LLMRequest, model: ModelConfig, stream: boolean) {
+        const messages = await Promise.all(buildChatMessages(request).map(async (m) => ({
+            role: m.role,
+            content: m.content,
+            ...(m.images && m.images.length > 0 && {
+                images: await Promise.all(m.images.map(async (image) => (await loadImageData(image)).data)),
+            }),
+        })));
+
+        return JSON.stringify({
+            model: model.apiModelName,
+            messages,
+            stream,
+            options: {
+                temperature: request.temperature || 0.7,
+                num_predict: request.maxTokens || 4096,
+            },
+        });
+    }
+
     async call(
         request: LLMRequest,
         model: ModelConfig,
     ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+        const promptText = getPromptText(request);
         if (!env.OSS_MODEL_ENABLED) {
             throw new Error('OSS local models are not enabled');
         }
@@ -24,39 +69,29 @@ export class OSSLocalClient implements LLMClient {
         logger.debug('Calling OSS Local Model', {
             endpoint: env.OSS_MODEL_ENDPOINT,
             model: model.apiModelName,
-            promptLength: request.prompt.length,
+            promptLength: promptText.length,
         });
 
         try {
             // Example: Ollama-compatible API
-            const response = await fetch(`${env.OSS_MODEL_ENDPOINT}/api/generate`, {
+            const response = await fetch(`${env.OSS_MODEL_ENDPOINT}/api/chat`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({
-                    model: model.apiModelName,
-                    prompt: request.systemPrompt
-                        ? `${request.systemPrompt}\n\n${request.prompt}`
-                        : request.prompt,
-                    stream: false,
-                    options: {
-                        temperature: request.temperature || 0.7,
-                        num_predict: request.maxTokens || 4096,
-                    },
-                }),
+                body: await this.buildChatBody(request, model, false),
             });
 
             if (!response.ok) {
                 throw new Error(`OSS Local API error: ${response.statusText}`);
             }
 
-            const data = await response.json();
-            const content = (data as { response?: string }).response || '';
+            const data = await response.json() as OllamaChatResponse;
+            const content = data.message?.content || '';
 
-            // Estimate tokens since local models might not report them
-            const inputTokens = estimateTokens(request.prompt);
-            const outputTokens = estimateTokens(content);
+            // Estimate tokens when the local model does not report them
+            const inputTokens = data.prompt_eval_count || estimateTokens(promptText);
+            const outputTokens = data.eval_count || estimateTokens(content);
             const cost = 0; // Local models are free
 
             return {
@@ -75,4 +110,71 @@ export class OSSLocalClient implements LLMClient {
             throw error;
         }
     }
+
+    async stream(
+        request: LLMRequest,
+        model: ModelConfig,
+        onDelta: LLMStreamHandler,
+    ): Promise<Omit<LLMResponse, 'routingSummary'>> {
+        const promptText = getPromptText(request);
+        if (!env.OSS_MODEL_ENABLED) {
+            throw new Error('OSS local models are not enabled');
+        }
+
+        logger.debug('Streaming from OSS Local Model', {
+            endpoint: env.OSS_MODEL_ENDPOINT,
+            model: model.apiModelName,
+            promptLength: promptText.length,
+        });
+
+        try {
+            // Ollama streams newline-delimited JSON objects
+            const response = await fetch(`${env.OSS_MODEL_ENDPOINT}/api/chat`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: await this.buildChatBody(request, model, true),
+            });
+
+            if (!response.ok || !response.body) {
+                throw new Error(`OSS Local API error: ${response.statusText}`);
+            }
+
+            let content = '';
+            let inputTokens = 0;
+            let outputTokens = 0;
+
+            for await (const line of readLines(response.body)) {
+                const chunk = JSON.parse(line) as OllamaChatResponse;
+
+                const delta = chunk.message?.content;
+                if (delta) {
+                    content += delta;
+                    onDelta(delta);
+                }
+
+                if (chunk.done) {
+                    inputTokens = chunk.prompt_eval_count || 0;
+                    outputTokens = chunk.eval_count || 0;
+                    break;
+                }
+            }
+
+            return {
+                content,
+                modelId: model.id,
+                provider: model.provider,
+                inputTokens: inputTokens || estimateTokens(promptText),
+                outputTokens: outputTokens || estimateTokens(content),
+                cost: 0, // Local models are free
+            };
+        } catch (error) {
+            logger.error('OSS Local Model streaming error', {
+                model: model.apiModelName,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw error;
+        }
+    }
 }
@@ -81,7 +81,7 @@ class TerminalSessionManager extends EventEmitter {
     /**
      * Execute command in local session
      */
-    async executeLocalCommand(sessionId: string, command: string): Promise<CommandResult> {
+    async executeLocalCommand(sessionId: string, command: string, timeoutMs = 30000): Promise<CommandResult> {
         const sessionData = this.sessions.get(sessionId);
         if (!sessionData || sessionData.session.type !== 'local') {
             throw new Error('Invalid local session');
@@ -112,7 +112,14 @@ class TerminalSessionManager extends EventEmitter {
                 sessionData.outputBuffer.push(data.toString());
             });
 
+            // Kill the command if it runs too long
+            const timer = setTimeout(() => {
+                proc.kill();
+                reject(new Error('Command timeout'));
+            }, timeoutMs);
+
             proc.on('close', (code) => {
+                clearTimeout(timer);
                 resolve({
                     stdout: stdout.trim(),
                     stderr: stderr.trim(),
@@ -121,14 +128,9 @@ class TerminalSessionManager extends EventEmitter {
             });
 
             proc.on('error', (error) => {
+                clearTimeout(timer);
                 reject(error);
             });
-
-            // Timeout after 30 seconds
-            setTimeout(() => {
-                proc.kill();
-                reject(new Error('Command timeout'));
-            }, 30000);
         });
     }
 
@@ -361,6 +363,57 @@ class TerminalSessionManager extends EventEmitter {
         sessionData.telnetSocket.write(data);
     }
 
+    /**
+     * Execute command in Telnet session.
+     * Telnet has no exit status, so the output is complete once the device
+     * has been quiet for `idleMs`; exitCode is always null.
+     */
+    async executeTelnetCommand(
+        sessionId: string,
+        command: string,
+        timeoutMs = 30000,
+        idleMs = 1000
+    ): Promise<CommandResult> {
+        const sessionData = this.sessions.get(sessionId);
+        if (!sessionData || sessionData.session.type !== 'telnet' || !sessionData.telnetSocket) {
+            throw new Error('Invalid Telnet session');
+        }
+
+        if (!sessionData.session.connected) {
+            throw new Error('Telnet session disconnected');
+        }
+
+        sessionData.session.lastActivity = new Date();
+        const socket = sessionData.telnetSocket;
+
+        return new Promise((resolve, reject) => {
+            let output = '';
+            let idleTimer: NodeJS.Timeout | undefined;
+
+            const finish = (error?: Error) => {
+                clearTimeout(timer);
+                clearTimeout(idleTimer);
+                this.off(`data:${sessionId}`, onData);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ stdout: output.trim(), stderr: '', exitCode: null });
+                }
+            };
+
+            const onData = (text: string) => {
+                output += text;
+                clearTimeout(idleTimer);
+                idleTimer = setTimeout(() => finish(), idleMs);
+            };
+
+            const timer = setTimeout(() => finish(new Error('Command timeout')), timeoutMs);
+
+            this.on(`data:${sessionId}`, onData);
+            socket.write(command + '\r\n');
+        });
+    }
+
     /**
      * Send data to SSH session (for interactive PTY)
      */
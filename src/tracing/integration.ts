@@ -1,122 +1,229 @@
 /**
- * Tracing integration for routing and LLM calls
+ * Tracing integration - request-scoped traces through async context
+ *
+ * The API server and MCP entry points open a trace per request with
+ * beginTrace/runInTrace (or withTrace). Its id is carried in
+ * AsyncLocalStorage, so routing decisions, LLM calls, tool calls and errors
+ * recorded anywhere while handling the request land on that request's trace,
+ * even with many requests in flight. Outside a trace the helpers do nothing.
  */
 
-import type { LLMRequest, LLMResponse } from '../mcp/types.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import { getTracer } from './tracer.js';
+import { logger } from '../logging/logger.js';
+import type { LLMResponse } from '../mcp/types.js';
 import type { ModelConfig } from '../config/models.js';
-import type { RoutingDecision, LLMCallTrace } from '../types/tracing.js';
+import type { ErrorInfo, RequestType, RoutingDecision, ToolCallTrace } from '../types/tracing.js';
 
-let tracerEnabled = false;
-let currentTraceId: string | null = null;
+export interface TraceContext {
+    traceId: string;
+    startedAt: number;
+}
+
+const MAX_ARG_LENGTH = 200;
+
+const storage = new AsyncLocalStorage<TraceContext>();
 
 /**
- * Enable tracing for current request
+ * Get current trace ID
  */
-export function enableTracingForRequest(traceId: string): void {
-    tracerEnabled = true;
-    currentTraceId = traceId;
+export function getCurrentTraceId(): string | undefined {
+    return storage.getStore()?.traceId;
 }
 
 /**
- * Disable tracing
+ * Start a trace; run the request with runInTrace and end it with finishTrace
  */
-export function disableTracing(): void {
-    tracerEnabled = false;
-    currentTraceId = null;
+export function beginTrace(
+    requestType: RequestType,
+    conversationId: string,
+    payload: Record<string, unknown>,
+): TraceContext {
+    return {
+        traceId: getTracer().startTrace(requestType, conversationId, payload),
+        startedAt: Date.now(),
+    };
 }
 
 /**
- * Get current trace ID
+ * Run fn (and everything it awaits or schedules) inside the trace
  */
-export function getCurrentTraceId(): string | null {
-    return currentTraceId;
+export function runInTrace<T>(context: TraceContext, fn: () => T): T {
+    return storage.run(context, fn);
 }
 
 /**
- * Record a routing decision
+ * End a trace started with beginTrace; never throws
  */
-export async function recordRoutingDecision(
-    decision: RoutingDecision,
-): Promise<void> {
-    if (!tracerEnabled || !currentTraceId) return;
-
+export async function finishTrace(context: TraceContext, statusCode?: number): Promise<void> {
     try {
-        const { getTracer } = await import('../tracing/tracer.js');
-        const tracer = getTracer();
-        tracer.recordRoutingDecision(currentTraceId, decision);
+        await getTracer().endTrace(context.traceId, Date.now() - context.startedAt, statusCode);
     } catch (error) {
-        // Silently fail if tracer not initialized
-        console.debug('[Tracing] Failed to record routing decision:', error);
+        logger.warn('Failed to end trace', { traceId: context.traceId, error: String(error) });
     }
 }
 
 /**
- * Record an LLM call with timing
+ * Run fn in a new trace, or in the current one when already tracing.
+ * Errors thrown by fn are recorded; the trace is ended in the background.
  */
-export async function recordLLMCall(
-    model: ModelConfig,
-    inputTokens: number,
-    outputTokens: number,
-    cost: number,
-    durationMs: number,
-    error?: string,
-): Promise<void> {
-    if (!tracerEnabled || !currentTraceId) return;
+export async function withTrace<T>(
+    requestType: RequestType,
+    conversationId: string,
+    payload: Record<string, unknown>,
+    fn: () => Promise<T>,
+): Promise<T> {
+    if (storage.getStore()) {
+        return fn();
+    }
 
+    const context = beginTrace(requestType, conversationId, payload);
     try {
-        const { getTracer } = await import('../tracing/tracer.js');
-        const tracer = getTracer();
-
-        const llmCall: LLMCallTrace = {
-            model: model.id,
-            provider: model.provider,
-            inputTokens,
-            outputTokens,
-            cost,
-            durationMs,
-            startTime: Date.now() - durationMs,
-            endTime: Date.now(),
-            error,
-        };
-
-        tracer.recordLLMCall(currentTraceId, llmCall);
+        return await runInTrace(context, fn);
     } catch (error) {
-        console.debug('[Tracing] Failed to record LLM call:', error);
+        getTracer().recordError(context.traceId, toErrorInfo(error));
+        throw error;
+    } finally {
+        void finishTrace(context);
+    }
+}
+
+/**
+ * Record a routing decision
+ */
+export function recordRoutingDecision(decision: RoutingDecision): void {
+    const traceId = getCurrentTraceId();
+    if (traceId) {
+        getTracer().recordRoutingDecision(traceId, decision);
+    }
+}
+
+/**
+ * Record the project the current request is routed for
+ */
+export function recordTraceProject(projectId: string): void {
+    const traceId = getCurrentTraceId();
+    if (traceId) {
+        getTracer().setProject(traceId, projectId);
+    }
+}
+
+/**
+ * Record an error on the current trace
+ */
+export function recordTraceError(error: unknown, details: Partial<ErrorInfo> = {}): void {
+    const traceId = getCurrentTraceId();
+    if (traceId) {
+        getTracer().recordError(traceId, { ...toErrorInfo(error), ...details });
     }
 }
 
 /**
- * Wrapper for callLLM that records traces
+ * Make one provider call and record it, including failures. `fallbackFor`
+ * names the model whose failure led to this attempt.
  */
-export async function callLLMWithTracing(
-    request: LLMRequest,
-    model: ModelConfig,
-    originalCallLLM: (req: LLMRequest, model: ModelConfig) => Promise<LLMResponse>,
-): Promise<LLMResponse> {
+export async function traceLLMCall<T extends Omit<LLMResponse, 'routingSummary'>>(
+    model: Pick<ModelConfig, 'id' | 'provider'>,
+    call: () => Promise<T>,
+    fallbackFor?: string,
+): Promise<T> {
+    const traceId = getCurrentTraceId();
+    if (!traceId) {
+        return call();
+    }
+
     const startTime = Date.now();
-    let response: LLMResponse | undefined;
+    let response: T | undefined;
     let error: string | undefined;
-
     try {
-        response = await originalCallLLM(request, model);
+        response = await call();
+        return response;
     } catch (err) {
-        error = err instanceof Error ? err.message : 'Unknown error';
+        error = err instanceof Error ? err.message : String(err);
         throw err;
     } finally {
-        const durationMs = Date.now() - startTime;
-
-        // Record the LLM call even if it failed
-        if (tracerEnabled && currentTraceId && response) {
-            await recordLLMCall(
-                model,
-                response.inputTokens,
-                response.outputTokens,
-                response.cost,
-                durationMs,
-                error,
-            );
-        }
+        const endTime = Date.now();
+        getTracer().recordLLMCall(traceId, {
+            model: response?.modelId ?? model.id,
+            provider: response?.provider ?? model.provider,
+            inputTokens: response?.inputTokens ?? 0,
+            outputTokens: response?.outputTokens ?? 0,
+            cost: response?.cost ?? 0,
+            durationMs: endTime - startTime,
+            startTime,
+            endTime,
+            fallbackFor,
+            error,
+        });
+    }
+}
+
+/**
+ * Run a tool and record the call; long string arguments are truncated.
+ * `getFailure` reports tools that fail by returning an error result.
+ */
+export async function traceToolCall<T>(
+    toolName: string,
+    args: Record<string, unknown>,
+    fn: () => Promise<T>,
+    getFailure?: (result: T) => string | undefined,
+): Promise<T> {
+    const traceId = getCurrentTraceId();
+    if (!traceId) {
+        return fn();
     }
 
-    return response;
+    const startTime = Date.now();
+    const call: Omit<ToolCallTrace, 'durationMs' | 'endTime'> = {
+        toolName,
+        args: summarizeArgs(args),
+        startTime,
+    };
+    try {
+        const result = await fn();
+        const endTime = Date.now();
+        getTracer().recordToolCall(traceId, {
+            ...call,
+            error: getFailure?.(result),
+            durationMs: endTime - startTime,
+            endTime,
+        });
+        return result;
+    } catch (error) {
+        const endTime = Date.now();
+        getTracer().recordToolCall(traceId, {
+            ...call,
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: endTime - startTime,
+            endTime,
+        });
+        throw error;
+    }
+}
+
+function toErrorInfo(error: unknown): ErrorInfo {
+    if (error instanceof Error) {
+        const code = (error as Error & { code?: unknown }).code;
+        return {
+            message: error.message,
+            code: typeof code === 'string' ? code : error.name,
+            stack: error.stack,
+        };
+    }
+    return { message: String(error) };
+}
+
+function summarizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+    const summary: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(args ?? {})) {
+        if (typeof value === 'string' && value.length > MAX_ARG_LENGTH) {
+            summary[key] = `${value.slice(0, MAX_ARG_LENGTH)}… (${value.length} chars)`;
+        } else if (value !== null && typeof value === 'object') {
+            const json = JSON.stringify(value) ?? '';
+            summary[key] = json.length > MAX_ARG_LENGTH ? `${json.slice(0, MAX_ARG_LENGTH)}… (${json.length} chars)` : value;
+        } else {
+            summary[key] = value;
+        }
+    }
+    return summary;
 }
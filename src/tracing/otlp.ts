@@ -0,0 +1,267 @@
+/**
+ * OTLP Export - Request traces as OpenTelemetry spans (OTLP/JSON)
+ *
+ * Each trace becomes a root span (routing decisions and policy violations as
+ * events) with a child span per LLM attempt and tool call. Documents are
+ * appended to OTLP_TRACES_FILE (one per line) and/or POSTed to
+ * OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, e.g. a local OpenTelemetry Collector.
+ */
+
+import { createHash } from 'crypto';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { env } from '../config/env.js';
+import { logger } from '../logging/logger.js';
+import type { RequestTrace } from '../types/tracing.js';
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_SERVER = 2;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_UNSET = 0;
+const STATUS_ERROR = 2;
+const EXPORT_TIMEOUT_MS = 5000;
+
+type OtlpValue =
+    | { stringValue: string }
+    | { intValue: string }
+    | { doubleValue: number }
+    | { boolValue: boolean };
+
+interface OtlpAttribute {
+    key: string;
+    value: OtlpValue;
+}
+
+interface OtlpSpan {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    kind: number;
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: OtlpAttribute[];
+    events?: Array<{ timeUnixNano: string; name: string; attributes: OtlpAttribute[] }>;
+    status: { code: number; message?: string };
+}
+
+export interface OtlpTracesDocument {
+    resourceSpans: Array<{
+        resource: { attributes: OtlpAttribute[] };
+        scopeSpans: Array<{
+            scope: { name: string };
+            spans: OtlpSpan[];
+        }>;
+    }>;
+}
+
+/**
+ * Convert a finished request trace to an OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOtlpJson(trace: RequestTrace, serviceName = env.OTEL_SERVICE_NAME): OtlpTracesDocument {
+    const traceId = trace.id.replace(/-/g, '');
+    const rootSpanId = spanId(trace.id, 'root');
+    const start = new Date(trace.createdAt).getTime();
+    const end = start + trace.totalDurationMs;
+    const method = typeof trace.requestPayload.method === 'string' ? trace.requestPayload.method : undefined;
+    const path = typeof trace.requestPayload.path === 'string' ? trace.requestPayload.path : undefined;
+    const tool = typeof trace.requestPayload.tool === 'string' ? trace.requestPayload.tool : undefined;
+
+    const root: OtlpSpan = {
+        traceId,
+        spanId: rootSpanId,
+        name: method && path ? `${method} ${path}` : tool ? `mcp ${tool}` : trace.requestType,
+        kind: SPAN_KIND_SERVER,
+        startTimeUnixNano: nanos(start),
+        endTimeUnixNano: nanos(end),
+        attributes: attributes({
+            'gateway.request_type': trace.requestType,
+            'gateway.conversation_id': trace.conversationId || undefined,
+            'gateway.project_id': trace.projectId,
+            'gateway.total_cost': trace.totalCost,
+            'http.request.method': method,
+            'url.path': path,
+            'http.response.status_code': trace.statusCode,
+            'mcp.tool.name': tool,
+            'error.type': trace.errorInfo?.code,
+        }),
+        events: [
+            ...trace.routingDecisions.map((decision) => ({
+                timeUnixNano: nanos(decision.timestamp),
+                name: 'routing.decision',
+                attributes: attributes({
+                    'gateway.layer': decision.layer,
+                    'gateway.model': decision.modelSelected,
+                    'gateway.reason': decision.reason,
+                }),
+            })),
+            ...(trace.policyViolations ?? []).map((violation) => ({
+                timeUnixNano: nanos(start),
+                name: 'content_policy.violation',
+                attributes: attributes({
+                    'policy.type': violation.type,
+                    'policy.severity': violation.severity,
+                    'policy.stage': violation.stage,
+                    'policy.field': violation.field,
+                    'policy.action': violation.action,
+                }),
+            })),
+        ],
+        status: trace.errorInfo
+            ? { code: STATUS_ERROR, message: trace.errorInfo.message }
+            : { code: STATUS_UNSET },
+    };
+
+    const llmSpans = trace.llmCalls.map((call, i): OtlpSpan => ({
+        traceId,
+        spanId: spanId(trace.id, `llm:${i}`),
+        parentSpanId: rootSpanId,
+        name: `chat ${call.model}`,
+        kind: SPAN_KIND_CLIENT,
+        startTimeUnixNano: nanos(call.startTime),
+        endTimeUnixNano: nanos(call.endTime),
+        attributes: attributes({
+            'gen_ai.system': call.provider,
+            'gen_ai.request.model': call.model,
+            'gen_ai.usage.input_tokens': call.inputTokens,
+            'gen_ai.usage.output_tokens': call.outputTokens,
+            'gateway.cost': call.cost,
+            'gateway.cached': call.cached,
+            'gateway.fallback_for': call.fallbackFor,
+        }),
+        status: call.error ? { code: STATUS_ERROR, message: call.error } : { code: STATUS_UNSET },
+    }));
+
+    const toolSpans = trace.toolCalls.map((call, i): OtlpSpan => ({
+        traceId,
+        spanId: spanId(trace.id, `tool:${i}`),
+        parentSpanId: rootSpanId,
+        name: `tool ${call.toolName}`,
+        kind: SPAN_KIND_INTERNAL,
+        startTimeUnixNano: nanos(call.startTime),
+        endTimeUnixNano: nanos(call.endTime),
+        attributes: attributes({ 'gateway.tool.name': call.toolName }),
+        status: call.error ? { code: STATUS_ERROR, message: call.error } : { code: STATUS_UNSET },
+    }));
+
+    return {
+        resourceSpans: [{
+            resource: { attributes: attributes({ 'service.name': serviceName }) },
+            scopeSpans: [{
+                scope: { name: 'mcp-gateway.tracer' },
+                spans: [root, ...llmSpans, ...toolSpans],
+            }],
+        }],
+    };
+}
+
+export interface OtlpExporterOptions {
+    file?: string;
+    endpoint?: string;
+    headers?: Record<string, string>;
+    serviceName?: string;
+}
+
+/**
+ * Writes finished traces to a file and/or an OTLP/HTTP collector.
+ * Export failures are logged and never affect the request.
+ */
+export class OtlpTraceExporter {
+    private directoryReady?: Promise<unknown>;
+
+    constructor(private options: OtlpExporterOptions) { }
+
+    get enabled(): boolean {
+        return Boolean(this.options.file || this.options.endpoint);
+    }
+
+    async export(trace: RequestTrace): Promise<void> {
+        if (!this.enabled) {
+            return;
+        }
+        const body = JSON.stringify(toOtlpJson(trace, this.options.serviceName));
+
+        if (this.options.file) {
+            const file = this.options.file;
+            try {
+                this.directoryReady ??= mkdir(dirname(file), { recursive: true });
+                await this.directoryReady;
+                await appendFile(file, body + '\n');
+            } catch (error) {
+                logger.warn('Failed to write OTLP trace file', {
+                    file,
+                    traceId: trace.id,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        if (this.options.endpoint) {
+            try {
+                const response = await fetch(this.options.endpoint, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json', ...this.options.headers },
+                    body,
+                    signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+                });
+                if (!response.ok) {
+                    logger.warn('OTLP collector rejected trace', { traceId: trace.id, status: response.status });
+                }
+            } catch (error) {
+                logger.warn('Failed to export trace to OTLP collector', {
+                    endpoint: this.options.endpoint,
+                    traceId: trace.id,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Parse OTEL_EXPORTER_OTLP_TRACES_HEADERS (`key=value,key2=value2`)
+ */
+export function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const pair of (value ?? '').split(',')) {
+        const index = pair.indexOf('=');
+        if (index > 0) {
+            headers[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+        }
+    }
+    return headers;
+}
+
+export const otlpExporter = new OtlpTraceExporter({
+    file: env.OTLP_TRACES_FILE,
+    endpoint: env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+    headers: parseOtlpHeaders(env.OTEL_EXPORTER_OTLP_TRACES_HEADERS),
+    serviceName: env.OTEL_SERVICE_NAME,
+});
+
+function spanId(traceId: string, name: string): string {
+    return createHash('sha256').update(`${traceId}:${name}`).digest('hex').slice(0, 16);
+}
+
+function nanos(ms: number): string {
+    return `${Math.round(ms)}000000`;
+}
+
+function attributes(values: Record<string, string | number | boolean | undefined>): OtlpAttribute[] {
+    const result: OtlpAttribute[] = [];
+    for (const [key, value] of Object.entries(values)) {
+        if (value === undefined) {
+            continue;
+        }
+        if (typeof value === 'string') {
+            result.push({ key, value: { stringValue: value } });
+        } else if (typeof value === 'boolean') {
+            result.push({ key, value: { boolValue: value } });
+        } else if (Number.isInteger(value)) {
+            result.push({ key, value: { intValue: String(value) } });
+        } else {
+            result.push({ key, value: { doubleValue: value } });
+        }
+    }
+    return result;
+}
@@ -1,9 +1,13 @@
 /**
  * Request Tracer - Complete lifecycle tracking
+ *
+ * Finished traces are saved to `request_traces` (when a database is
+ * available), kept in memory for recent lookups and exported as OTLP spans.
  */
 
 import { Pool } from 'pg';
 import { randomUUID } from 'crypto';
+import { otlpExporter, type OtlpTraceExporter } from './otlp.js';
 import type {
     ITracer,
     RequestType,
@@ -12,12 +16,19 @@ import type {
     LLMCallTrace,
     ToolCallTrace,
     ErrorInfo,
+    PolicyViolationRecord,
 } from '../types/tracing.js';
 
+const RECENT_TRACES = 500;
+
 export class Tracer implements ITracer {
     private activeTraces = new Map<string, RequestTrace>();
+    private recentTraces = new Map<string, RequestTrace>();
 
-    constructor(private db: Pool) { }
+    constructor(
+        private db: Pool | null,
+        private exporter: Pick<OtlpTraceExporter, 'export'> = otlpExporter,
+    ) { }
 
     startTrace(
         requestType: RequestType,
@@ -33,6 +44,7 @@ export class Tracer implements ITracer {
             routingDecisions: [],
             llmCalls: [],
             toolCalls: [],
+            policyViolations: [],
             totalCost: 0,
             totalDurationMs: 0,
             createdAt: new Date(),
@@ -86,9 +98,27 @@ export class Tracer implements ITracer {
         trace.errorInfo = error;
     }
 
+    recordPolicyViolations(traceId: string, violations: PolicyViolationRecord[]): void {
+        const trace = this.activeTraces.get(traceId);
+        if (!trace) {
+            console.warn(`[Tracer] No active trace for ${traceId}`);
+            return;
+        }
+
+        trace.policyViolations = [...(trace.policyViolations ?? []), ...violations];
+    }
+
+    setProject(traceId: string, projectId: string): void {
+        const trace = this.activeTraces.get(traceId);
+        if (trace) {
+            trace.projectId = projectId;
+        }
+    }
+
     async endTrace(
         traceId: string,
         totalDurationMs: number,
+        statusCode?: number,
     ): Promise<void> {
         const trace = this.activeTraces.get(traceId);
         if (!trace) {
@@ -97,15 +127,35 @@ export class Tracer implements ITracer {
         }
 
         trace.totalDurationMs = totalDurationMs;
+        trace.statusCode = statusCode;
 
-        // Persist to database
-        await this.saveTrace(trace);
-
-        // Clean up
+        // Clean up, keeping the trace readable while it is saved
         this.activeTraces.delete(traceId);
+        this.recentTraces.set(traceId, trace);
+        if (this.recentTraces.size > RECENT_TRACES) {
+            this.recentTraces.delete(this.recentTraces.keys().next().value as string);
+        }
+
+        // Persist to database and export
+        await Promise.all([this.saveTrace(trace), this.exporter.export(trace)]);
+    }
+
+    /**
+     * Whether a trace is still open
+     */
+    isActive(traceId: string): boolean {
+        return this.activeTraces.has(traceId);
     }
 
     async getTrace(traceId: string): Promise<RequestTrace | null> {
+        const recent = this.recentTraces.get(traceId);
+        if (recent) {
+            return recent;
+        }
+        if (!this.db) {
+            return null;
+        }
+
         const result = await this.db.query(
             `SELECT * FROM request_traces WHERE id = $1`,
             [traceId],
@@ -119,6 +169,7 @@ export class Tracer implements ITracer {
         return {
             id: row.id,
             conversationId: row.conversation_id,
+            projectId: row.project_id ?? undefined,
             requestType: row.request_type,
             requestPayload: row.request_payload,
             routingDecisions: row.routing_decisions,
@@ -127,12 +178,18 @@ export class Tracer implements ITracer {
             totalCost: parseFloat(row.total_cost),
             totalDurationMs: row.total_duration_ms,
             errorInfo: row.error_info,
+            policyViolations: row.policy_violations ?? [],
+            statusCode: row.status_code ?? undefined,
             createdAt: row.created_at,
         };
     }
 
     private async saveTrace(trace: RequestTrace): Promise<void> {
+        if (!this.db) {
+            return;
+        }
         try {
+            // conversation_id references conversations; ids of unknown conversations are dropped
             await this.db.query(
                 `INSERT INTO request_traces (
                     id,
@@ -145,11 +202,14 @@ export class Tracer implements ITracer {
                     total_cost,
                     total_duration_ms,
                     error_info,
+                    policy_violations,
+                    status_code,
+                    project_id,
                     created_at
-                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+                ) VALUES ($1, (SELECT id FROM conversations WHERE id = $2), $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
                 [
                     trace.id,
-                    trace.conversationId,
+                    trace.conversationId || null,
                     trace.requestType,
                     JSON.stringify(trace.requestPayload),
                     JSON.stringify(trace.routingDecisions),
@@ -160,6 +220,9 @@ export class Tracer implements ITracer {
                     trace.errorInfo
                         ? JSON.stringify(trace.errorInfo)
                         : null,
+                    JSON.stringify(trace.policyViolations ?? []),
+                    trace.statusCode ?? null,
+                    trace.projectId ?? null,
                     trace.createdAt,
                 ],
             );
@@ -174,13 +237,16 @@ export class Tracer implements ITracer {
  */
 let tracerInstance: Tracer | null = null;
 
-export function initTracer(db: Pool): void {
+export function initTracer(db: Pool | null): void {
     tracerInstance = new Tracer(db);
 }
 
+/**
+ * The tracer; until initTracer() is called (no database) traces are kept in memory only
+ */
 export function getTracer(): Tracer {
     if (!tracerInstance) {
-        throw new Error('Tracer not initialized. Call initTracer() first.');
+        tracerInstance = new Tracer(null);
     }
     return tracerInstance;
 }
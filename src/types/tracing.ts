@@ -5,6 +5,8 @@
 export interface RequestTrace {
     id: string;
     conversationId: string;
+    /** Project the request was routed for (budget spend) */
+    projectId?: string;
     requestType: RequestType;
     requestPayload: Record<string, unknown>;
     routingDecisions: RoutingDecision[];
@@ -13,6 +15,8 @@ export interface RequestTrace {
     totalCost: number;
     totalDurationMs: number;
     errorInfo?: ErrorInfo;
+    policyViolations?: PolicyViolationRecord[];
+    statusCode?: number;
     createdAt: Date;
 }
 
@@ -21,6 +25,8 @@ export type RequestType =
     | 'chat'
     | 'code-agent'
     | 'mcp-cli'
+    | 'mcp-tool'
+    | 'http'
     | 'analyze'
     | 'create-project';
 
@@ -45,6 +51,8 @@ export interface LLMCallTrace {
     startTime: number;
     endTime: number;
     cached?: boolean;
+    /** Model whose failure caused this fallback attempt */
+    fallbackFor?: string;
     error?: string;
 }
 
@@ -103,9 +111,19 @@ export interface ITracer {
     recordError(traceId: string, error: ErrorInfo): void;
 
     /**
-     * End trace and save to database
+     * Record content policy violations
      */
-    endTrace(traceId: string, totalDurationMs: number): Promise<void>;
+    recordPolicyViolations(traceId: string, violations: PolicyViolationRecord[]): void;
+
+    /**
+     * Record the project the request was routed for
+     */
+    setProject(traceId: string, projectId: string): void;
+
+    /**
+     * End trace, save to database and export it
+     */
+    endTrace(traceId: string, totalDurationMs: number, statusCode?: number): Promise<void>;
 
     /**
      * Get trace by ID
@@ -172,16 +190,51 @@ export interface ProjectConfig {
     };
 }
 
-export interface UserQuota {
-    userId: string;
-    projectId: string;
-    maxTokensDaily: number;
-    maxCostDaily: number;
-    currentTokensToday: number;
-    currentCostToday: number;
+export type QuotaScope = 'organization' | 'project' | 'user';
+
+/**
+ * Daily limits of one quota; null is unlimited
+ */
+export interface QuotaLimits {
+    maxTokensDaily: number | null;
+    maxCostDaily: number | null;
+}
+
+export interface Quota extends QuotaLimits {
+    scope: QuotaScope;
+    scopeId: string;
+    usedTokens: number;
+    usedCost: number;
+    reservedTokens: number; // Held by requests in flight
+    reservedCost: number;
+    resetAt: Date;
+}
+
+export type BudgetScope = 'organization' | 'project';
+
+/**
+ * What happens to requests once a budget is spent: `block` rejects them,
+ * `downgrade` routes them to free L0 models
+ */
+export type BudgetHardStop = 'block' | 'downgrade';
+
+export interface BudgetSettings {
+    monthlyLimit: number; // USD
+    alertThresholds: number[]; // Percent of monthlyLimit, e.g. [50, 80, 100]
+    hardStop: BudgetHardStop;
+}
+
+export interface Budget extends BudgetSettings {
+    scope: BudgetScope;
+    scopeId: string;
+}
+
+export interface BudgetStatus extends Budget {
+    spent: number; // This calendar month (UTC), from request trace costs
+    percentUsed: number;
+    exceeded: boolean;
+    periodStart: Date;
     resetAt: Date;
-    createdAt: Date;
-    updatedAt: Date;
 }
 
 export interface UserRole {
@@ -191,16 +244,6 @@ export interface UserRole {
     createdAt: Date;
 }
 
-export interface QuotaCheck {
-    allowed: boolean;
-    remaining: {
-        tokens: number;
-        cost: number;
-    };
-    resetAt: Date;
-    reason?: string;
-}
-
 /**
  * Analytics types
  */
@@ -225,6 +268,7 @@ export interface AnalyticsResponse {
         total: number;
     };
     totalCost: number;
+    budgets?: BudgetStatus[];
     breakdown: {
         byLayer: Record<string, LayerMetrics>;
         byModel: Record<string, ModelMetrics>;
@@ -280,3 +324,12 @@ export interface PolicyViolation {
     severity: 'low' | 'medium' | 'high';
     suggestion?: string;
 }
+
+/**
+ * A violation found while scanning an LLM request or its response
+ */
+export interface PolicyViolationRecord extends PolicyViolation {
+    stage: 'prompt' | 'output';
+    field: string; // 'prompt', 'systemPrompt', 'messages[2]' or 'content'; positions are within it
+    action: 'blocked' | 'redacted' | 'flagged';
+}
@@ -114,7 +114,8 @@ describe('Phase 3: Policy-Based Routing', () => {
     });
 
     it('should simulate routing decisions', async () => {
-        const { RouteSimulator, DEFAULT_POLICIES } = await import('../src/routing/policy.js');
+        const { DEFAULT_POLICIES } = await import('../src/routing/policy.js');
+        const { RouteSimulator } = await import('../src/routing/simulator.js');
 
         const simulator = new RouteSimulator(DEFAULT_POLICIES);
 
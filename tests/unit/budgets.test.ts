@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ModelConfig, ModelLayer } from '../../src/config/models.js';
+import type { LLMRequest, RoutingContext } from '../../src/mcp/types.js';
+import type { RoutingPolicy } from '../../src/routing/policy.js';
+
+function model(id: string, layer: ModelLayer): ModelConfig {
+    return {
+        id,
+        provider: 'openrouter',
+        apiModelName: id,
+        layer,
+        relativeCost: 0,
+        capabilities: { code: true, general: true, reasoning: true },
+        contextWindow: 128000,
+        enabled: true,
+        priority: 0,
+    };
+}
+
+const modelsByLayer: Record<ModelLayer, ModelConfig[]> = {
+    L0: [model('free-model:free', 'L0')],
+    L1: [model('cheap-model', 'L1')],
+    L2: [model('premium-model', 'L2')],
+    L3: [],
+};
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => false,
+        query: vi.fn(async () => null),
+    },
+}));
+
+vi.mock('../../src/db/model-config.js', () => ({
+    modelConfigService: {
+        getModelsByLayer: vi.fn(async (layer: ModelLayer) => modelsByLayer[layer]),
+        getModelById: vi.fn(async (id: string) =>
+            Object.values(modelsByLayer).flat().find((m) => m.id === id)),
+    },
+}));
+
+vi.mock('../../src/tools/llm/index.js', () => {
+    const respond = async (_request: LLMRequest, m: ModelConfig) => ({
+        content: 'ok',
+        modelId: m.id,
+        provider: m.provider,
+        inputTokens: 10,
+        outputTokens: 10,
+        cost: m.layer === 'L0' ? 0 : 30,
+    });
+    return { callLLM: vi.fn(respond), callLLMStream: vi.fn(respond) };
+});
+
+const { routeRequest } = await import('../../src/routing/router.js');
+const { budgetManager, BudgetExceededError } = await import('../../src/quota/budgets.js');
+const { eventBus } = await import('../../src/infrastructure/events.js');
+const { routingPolicyService } = await import('../../src/db/routing-policies.js');
+const { PolicyDeniedError } = await import('../../src/routing/policy.js');
+
+const request: LLMRequest = { messages: [{ role: 'user', content: 'Summarize this' }] };
+
+function context(project: string): RoutingContext {
+    return { taskType: 'general', complexity: 'low', quality: 'normal', preferredLayer: 'L1', project, semanticCache: false };
+}
+
+function policy(id: string, action: RoutingPolicy['rules'][number]['action']): RoutingPolicy {
+    return {
+        id,
+        name: `Policy ${id}`,
+        description: '',
+        priority: 1000,
+        enabled: true,
+        rules: [{ condition: { filePattern: `${id}\\.ts$` }, action, risk: 'high' }],
+    };
+}
+
+describe('Monthly budgets', () => {
+    beforeEach(() => {
+        // Midday, so the default business-hours policy does not downgrade the requests
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(2026, 5, 15, 12, 0, 0));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should alert each crossed threshold once and block a spent budget', async () => {
+        const alerts: unknown[] = [];
+        const unsubscribe = eventBus.subscribe('budget.threshold', (payload) => { alerts.push(payload); });
+        await budgetManager.setBudget('project', 'finance', { monthlyLimit: 100, alertThresholds: [50, 80, 100], hardStop: 'block' });
+
+        try {
+            for (let i = 0; i < 4; i++) {
+                await routeRequest(request, context('finance'));
+                await new Promise((resolve) => setTimeout(resolve, 0));
+            }
+        } finally {
+            unsubscribe();
+        }
+
+        expect(alerts).toMatchObject([
+            { scope: 'project', scopeId: 'finance', threshold: 50, spent: 60 },
+            { scope: 'project', scopeId: 'finance', threshold: 80, spent: 90 },
+            { scope: 'project', scopeId: 'finance', threshold: 100, spent: 120 },
+        ]);
+
+        const error = await routeRequest(request, context('finance')).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect((error as InstanceType<typeof BudgetExceededError>).details).toMatchObject({
+            type: 'insufficient_quota',
+            code: 'budget_exceeded',
+            scope: 'project',
+            scopeId: 'finance',
+            spent: 120,
+            monthlyLimit: 100,
+        });
+        expect((error as InstanceType<typeof BudgetExceededError>).retryAfterSeconds).toBeGreaterThan(0);
+    });
+
+    it('should downgrade requests to L0 once a downgrading budget is spent', async () => {
+        await budgetManager.setBudget('project', 'research', { monthlyLimit: 20, alertThresholds: [100], hardStop: 'downgrade' });
+
+        expect((await routeRequest(request, context('research'))).modelId).toBe('cheap-model');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        const [status] = await budgetManager.getStatus('research');
+        expect(status).toMatchObject({ spent: 30, exceeded: true, percentUsed: 150 });
+        expect((await routeRequest(request, context('research'))).modelId).toBe('free-model:free');
+        expect(await budgetManager.getStatus('other-project')).toEqual([]);
+    });
+
+    it('should apply hard stops before routing policies', async () => {
+        await routingPolicyService.savePolicy(policy('payouts', { type: 'allow', requireApproval: true }));
+        await routingPolicyService.savePolicy(policy('ledger', { type: 'route-to', targetLayer: 'L2' }));
+        await routingPolicyService.savePolicy(policy('vault', { type: 'deny' }));
+        await budgetManager.setBudget('project', 'treasury', { monthlyLimit: 0, alertThresholds: [], hardStop: 'block' });
+        await budgetManager.setBudget('project', 'archive', { monthlyLimit: 0, alertThresholds: [], hardStop: 'downgrade' });
+
+        try {
+            const blocked = await routeRequest(request, { ...context('treasury'), filePath: 'src/payouts.ts' })
+                .catch((e: unknown) => e);
+            expect(blocked).toBeInstanceOf(BudgetExceededError);
+
+            const downgraded = await routeRequest(request, { ...context('archive'), filePath: 'src/ledger.ts' });
+            expect(downgraded.modelId).toBe('free-model:free');
+            expect((await routeRequest(request, { ...context('archive'), filePath: 'src/payouts.ts' })).modelId)
+                .toBe('free-model:free');
+
+            const denied = await routeRequest(request, { ...context('archive'), filePath: 'src/vault.ts' })
+                .catch((e: unknown) => e);
+            expect(denied).toBeInstanceOf(PolicyDeniedError);
+        } finally {
+            for (const id of ['payouts', 'ledger', 'vault']) {
+                await routingPolicyService.deletePolicy(id);
+            }
+        }
+    });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+interface StoredSummary {
+    version: number;
+    level: number;
+    start_turn: number;
+    end_turn: number;
+    content: string;
+    token_estimate: number;
+    source_count: number;
+    model_id: string | null;
+    superseded_by: number | null;
+    created_at: Date;
+}
+
+const dbState = vi.hoisted(() => ({
+    messages: [] as Array<{ id: string; role: string; content: string; turn_index: number; token_estimate: number; is_summarized: boolean }>,
+    summaries: [] as StoredSummary[],
+    published: [] as string[],
+}));
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => true,
+        query: vi.fn(async (sql: string, params: unknown[] = []) => {
+            if (sql.includes('FROM conversation_summaries') && sql.startsWith('SELECT')) {
+                const rows = sql.includes('superseded_by IS NULL')
+                    ? dbState.summaries.filter((s) => s.superseded_by === null).sort((a, b) => a.start_turn - b.start_turn)
+                    : [...dbState.summaries];
+                return { rows };
+            }
+            if (sql.includes('WITH recent')) {
+                const [, recentCount, afterTurn] = params as [string, number, number];
+                const recentStart = recentCount > 0
+                    ? Math.min(...dbState.messages.slice(-recentCount).map((m) => m.turn_index))
+                    : Infinity;
+                return { rows: dbState.messages.filter((m) => m.turn_index > afterTurn && m.turn_index < recentStart) };
+            }
+            if (sql.includes('INSERT INTO conversation_summaries')) {
+                const [, level, startTurn, endTurn, content, tokens, sourceCount, modelId] = params as [string, number, number, number, string, number, number, string | null];
+                const row: StoredSummary = {
+                    version: dbState.summaries.length + 1,
+                    level,
+                    start_turn: startTurn,
+                    end_turn: endTurn,
+                    content,
+                    token_estimate: tokens,
+                    source_count: sourceCount,
+                    model_id: modelId,
+                    superseded_by: null,
+                    created_at: new Date(),
+                };
+                dbState.summaries.push(row);
+                return { rows: [row] };
+            }
+            if (sql.includes('UPDATE conversation_summaries')) {
+                const [, mergedVersion, versions] = params as [string, number, number[]];
+                for (const s of dbState.summaries) {
+                    if (versions.includes(s.version)) s.superseded_by = mergedVersion;
+                }
+                return { rows: [] };
+            }
+            if (sql.includes('UPDATE messages')) {
+                const [ids] = params as [string[]];
+                for (const m of dbState.messages) {
+                    if (ids.includes(m.id)) m.is_summarized = true;
+                }
+                return { rows: [] };
+            }
+            if (sql.includes('UPDATE conversations')) {
+                dbState.published.push((params as string[])[0]);
+                return { rows: [] };
+            }
+            return { rows: [] };
+        }),
+    },
+}));
+
+const { ConversationSummarizer } = await import('../../src/services/chat/ConversationSummarizer.js');
+
+function addMessages(count: number, tokens = 100) {
+    const start = dbState.messages.length;
+    for (let i = start; i < start + count; i++) {
+        dbState.messages.push({
+            id: `msg-${i}`,
+            role: i % 2 === 0 ? 'user' : 'assistant',
+            content: `Message number ${i}`,
+            turn_index: i,
+            token_estimate: tokens,
+            is_summarized: false,
+        });
+    }
+}
+
+const options = { summarizationThreshold: 500, recentMaxMessages: 4, summaryMaxTokens: 1000 };
+
+describe('ConversationSummarizer', () => {
+    beforeEach(() => {
+        dbState.messages = [];
+        dbState.summaries = [];
+        dbState.published = [];
+    });
+
+    it('should not summarize below the threshold', async () => {
+        const summarize = vi.fn();
+        const summarizer = new ConversationSummarizer(summarize);
+        addMessages(8); // 4 old messages = 400 tokens
+
+        expect(await summarizer.summarizeIfNeeded('conv-1', options)).toBeNull();
+        expect(summarize).not.toHaveBeenCalled();
+        expect(dbState.summaries).toHaveLength(0);
+    });
+
+    it('should summarize uncovered old turns outside the recent window', async () => {
+        const summarize = vi.fn(async () => ({ content: 'Turns 0-5 summary', modelId: 'l0-model' }));
+        const summarizer = new ConversationSummarizer(summarize);
+        addMessages(10);
+
+        const segment = await summarizer.summarizeIfNeeded('conv-1', options);
+
+        expect(segment).toMatchObject({ version: 1, level: 0, startTurn: 0, endTurn: 5, sourceCount: 6, modelId: 'l0-model' });
+        expect(dbState.messages.filter((m) => m.is_summarized).map((m) => m.turn_index)).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(dbState.published).toEqual(['Turns 0-5 summary']);
+    });
+
+    it('should only summarize turns after the last summary', async () => {
+        const summarize = vi.fn(async () => ({ content: 'Summary' }));
+        const summarizer = new ConversationSummarizer(summarize);
+        addMessages(10);
+        await summarizer.summarizeIfNeeded('conv-1', options);
+
+        addMessages(6);
+        const segment = await summarizer.summarizeIfNeeded('conv-1', options);
+
+        expect(segment).toMatchObject({ version: 2, level: 0, startTurn: 6, endTurn: 11 });
+        expect(summarize.mock.calls[1][0]).toContain('Summary of the earlier conversation');
+
+        const state = await summarizer.getState('conv-1');
+        expect(state).toMatchObject({ coveredThroughTurn: 11, versionCount: 2, inProgress: false });
+        expect(state.segments.map((s) => s.version)).toEqual([1, 2]);
+        expect(state.summary).toContain('[Turns 6-11]');
+    });
+
+    it('should merge active summaries into a higher level once over budget', async () => {
+        const long = 'word '.repeat(700);
+        const summarize = vi.fn()
+            .mockResolvedValueOnce({ content: long })
+            .mockResolvedValueOnce({ content: long })
+            .mockResolvedValueOnce({ content: 'Merged summary' });
+        const summarizer = new ConversationSummarizer(summarize);
+        addMessages(10);
+        await summarizer.summarizeIfNeeded('conv-1', options);
+        addMessages(6);
+
+        const segment = await summarizer.summarizeIfNeeded('conv-1', options);
+
+        expect(segment).toMatchObject({ version: 3, level: 1, startTurn: 0, endTurn: 11, sourceCount: 2, content: 'Merged summary' });
+        expect(dbState.summaries.map((s) => s.superseded_by)).toEqual([3, 3, null]);
+
+        const state = await summarizer.getState('conv-1');
+        expect(state.segments).toHaveLength(1);
+        expect(state.summary).toBe('Merged summary');
+        expect(dbState.published.at(-1)).toBe('Merged summary');
+    });
+
+    it('should fall back to an extractive summary when the model fails', async () => {
+        const summarizer = new ConversationSummarizer(vi.fn().mockRejectedValue(new Error('No L0 model available')));
+        addMessages(10);
+
+        const segment = await summarizer.summarizeIfNeeded('conv-1', options);
+
+        expect(segment?.content).toContain('Initial topic: Message number 0');
+        expect(segment?.modelId).toBeUndefined();
+    });
+
+    it('should share one run between concurrent calls', async () => {
+        const summarize = vi.fn(async () => ({ content: 'Summary' }));
+        const summarizer = new ConversationSummarizer(summarize);
+        addMessages(10);
+
+        const [a, b] = await Promise.all([
+            summarizer.summarizeIfNeeded('conv-1', options),
+            summarizer.summarizeIfNeeded('conv-1', options),
+        ]);
+
+        expect(a).toBe(b);
+        expect(summarize).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const webhook = vi.hoisted(() => ({
+    call: vi.fn(),
+}));
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => false,
+        query: vi.fn(),
+    },
+}));
+
+vi.mock('../../src/agents/workflowOrchestrator.js', () => ({
+    hasN8nWebhook: () => true,
+    callN8nWebhook: webhook.call,
+}));
+
+const { CommandExecutionManager } = await import('../../src/services/chat/commandExecution.js');
+const { ApprovalPolicyError, defaultApprovalPolicy, sessionRisk } = await import('../../src/services/chat/approvalPolicy.js');
+
+const commands = [
+    { id: 'cmd_001', command: '/ip dns set servers=1.1.1.1', description: 'DNS', riskLevel: 'low' },
+    { id: 'cmd_002', command: '/ip firewall filter add chain=input action=drop', description: 'Drop input', riskLevel: 'high' },
+    { id: 'cmd_003', command: '/system reset-configuration', description: 'Reset', riskLevel: 'critical' },
+];
+
+function events(): string[] {
+    return webhook.call.mock.calls.map(([, data]) => (data as { event: string }).event);
+}
+
+describe('Deployment approval policy', () => {
+    beforeEach(() => {
+        webhook.call.mockReset();
+        webhook.call.mockResolvedValue({});
+    });
+
+    it('should take the highest risk of the selected commands', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_001', 'cmd_002', 'cmd_003'], undefined, { commands });
+
+        expect(sessionRisk(session)).toBe('critical');
+        expect(sessionRisk(session, ['cmd_001', 'cmd_002'])).toBe('high');
+        expect(sessionRisk(session, ['cmd_001'])).toBe('low');
+    });
+
+    it('should require an approver other than the requester for high risk', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_001', 'cmd_002'], undefined, { commands });
+
+        await expect(manager.approveExecution(session.sessionId, undefined, { userId: 'alice', role: 'admin' }))
+            .rejects.toMatchObject({ code: 'forbidden' });
+
+        await manager.approveExecution(session.sessionId, undefined, { userId: 'bob', role: 'operator' });
+        expect((await manager.getSession(session.sessionId))?.status).toBe('confirmed');
+        expect(events()).toEqual(['approval_requested', 'approved']);
+    });
+
+    it('should reject a selection with commands that are not in the session', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_002'], undefined, { commands });
+
+        // Unknown ids alone would otherwise count as a low-risk selection the requester may approve
+        await expect(manager.approveExecution(session.sessionId, ['cmd_999'], { userId: 'alice', role: 'admin' }))
+            .rejects.toMatchObject({ code: 'invalid' });
+        await expect(manager.approveExecution(session.sessionId, ['cmd_002', 'cmd_001'], { userId: 'bob', role: 'admin' }))
+            .rejects.toMatchObject({ code: 'invalid' });
+
+        const stored = await manager.getSession(session.sessionId);
+        expect(stored).toMatchObject({ status: 'pending', commandIds: ['cmd_002'] });
+        expect(stored?.approvals ?? []).toEqual([]);
+    });
+
+    it('should require two distinct admins for critical risk', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_003'], undefined, { commands });
+        const onConfirm = vi.fn();
+        manager.onConfirmation(session.sessionId, onConfirm);
+
+        await expect(manager.approveExecution(session.sessionId, undefined, { userId: 'bob', role: 'operator' }))
+            .rejects.toBeInstanceOf(ApprovalPolicyError);
+
+        await manager.approveExecution(session.sessionId, undefined, { userId: 'carol', role: 'admin' });
+        let stored = await manager.getSession(session.sessionId);
+        expect(stored?.status).toBe('pending');
+        expect(manager.getApprovalStatus(stored!)).toMatchObject({
+            risk: 'critical',
+            requiredApprovals: 2,
+            receivedApprovals: 1,
+            approvers: ['carol'],
+        });
+
+        await expect(manager.approveExecution(session.sessionId, undefined, { userId: 'carol', role: 'admin' }))
+            .rejects.toMatchObject({ code: 'duplicate' });
+        expect(onConfirm).not.toHaveBeenCalled();
+
+        await manager.approveExecution(session.sessionId, undefined, { userId: 'dave', role: 'admin' });
+        stored = await manager.getSession(session.sessionId);
+        expect(stored?.status).toBe('confirmed');
+        expect(onConfirm).toHaveBeenCalledWith(true);
+        expect(events()).toEqual(['approval_requested', 'approval_recorded', 'approved']);
+    });
+
+    it('should count approvals given at the same time', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_003'], undefined, { commands });
+        const onConfirm = vi.fn();
+        manager.onConfirmation(session.sessionId, onConfirm);
+
+        await Promise.all([
+            manager.approveExecution(session.sessionId, undefined, { userId: 'carol', role: 'admin' }),
+            manager.approveExecution(session.sessionId, undefined, { userId: 'dave', role: 'admin' }),
+        ]);
+
+        const stored = await manager.getSession(session.sessionId);
+        expect(stored?.status).toBe('confirmed');
+        expect(stored?.approvals?.map((a) => a.decidedBy).sort()).toEqual(['carol', 'dave']);
+        expect(onConfirm).toHaveBeenCalledTimes(1);
+        expect(events().filter((e) => e === 'approved')).toHaveLength(1);
+
+        await expect(manager.approveExecution(session.sessionId, undefined, { userId: 'erin', role: 'admin' }))
+            .rejects.toMatchObject({ code: 'closed' });
+    });
+
+    it('should not count approvals given for a different selection', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_002', 'cmd_003'], undefined, { commands });
+
+        await manager.approveExecution(session.sessionId, undefined, { userId: 'carol', role: 'admin' });
+        await manager.approveExecution(session.sessionId, ['cmd_003'], { userId: 'dave', role: 'admin' });
+
+        const stored = await manager.getSession(session.sessionId);
+        expect(stored?.status).toBe('pending');
+        expect(manager.getApprovalStatus(stored!).approvers).toEqual(['dave']);
+    });
+
+    it('should cancel sessions whose approval window expired', async () => {
+        const manager = new CommandExecutionManager({ ...defaultApprovalPolicy(), expiresInMs: -1000 });
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_001'], undefined, { commands });
+
+        await expect(manager.approveExecution(session.sessionId, undefined, { userId: 'alice' }))
+            .rejects.toMatchObject({ code: 'expired' });
+        expect(await manager.getSession(session.sessionId)).toMatchObject({
+            status: 'cancelled',
+            errorMessage: 'Approval window expired',
+        });
+        expect(events()).toEqual(['expired']);
+    });
+
+    it('should record rejections with a reason and close the session', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_002'], undefined, { commands });
+
+        await manager.rejectExecution(session.sessionId, 'bob', 'Change window is Sunday');
+
+        expect(webhook.call).toHaveBeenLastCalledWith('deployment-approvals', expect.objectContaining({
+            event: 'rejected',
+            sessionId: session.sessionId,
+            decidedBy: 'bob',
+            reason: 'Change window is Sunday',
+        }));
+        await expect(manager.approveExecution(session.sessionId, undefined, { userId: 'carol' }))
+            .rejects.toMatchObject({ code: 'closed' });
+    });
+
+    it('should not fail the approval when the webhook is unreachable', async () => {
+        webhook.call.mockRejectedValue(new Error('ECONNREFUSED'));
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_002'], undefined, { commands });
+
+        expect(await manager.approveExecution(session.sessionId, undefined, { userId: 'bob' })).toBe(true);
+        expect((await manager.getSession(session.sessionId))?.status).toBe('confirmed');
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => false,
+        query: vi.fn(),
+    },
+}));
+
+const { CommandExecutionManager } = await import('../../src/services/chat/commandExecution.js');
+const { runDeploymentSession } = await import('../../src/services/chat/deploymentExecutor.js');
+type ExecutionProgressEvent = import('../../src/services/chat/deploymentExecutor.js').ExecutionProgressEvent;
+
+const commands = [
+    { id: 'cmd_001', command: '/ip pool add name=lan ranges=10.0.0.10-10.0.0.100', description: 'Pool', riskLevel: 'low', rollbackCommand: '/ip pool remove [find name=lan]' },
+    { id: 'cmd_002', command: '/ip dhcp-server network add address=10.0.0.0/24', description: 'Network', riskLevel: 'low' },
+    { id: 'cmd_003', command: '/ip dhcp-server add name=dhcp1 interface=bridge', description: 'Server', riskLevel: 'medium', rollbackCommand: '/ip dhcp-server remove [find name=dhcp1]' },
+    { id: 'cmd_004', command: '/ip dhcp-server enable dhcp1', description: 'Enable', riskLevel: 'medium' },
+];
+
+/**
+ * Fake runner: fails the given commands with exit code 1
+ */
+function fakeRunner(failing: string[] = []) {
+    return {
+        exec: vi.fn(async (command: string) => failing.includes(command)
+            ? { stdout: '', stderr: 'failure: already have such name', exitCode: 1 }
+            : { stdout: 'ok', stderr: '', exitCode: 0 }),
+    };
+}
+
+async function confirmedSession(manager: InstanceType<typeof CommandExecutionManager>, commandIds: string[]) {
+    const session = await manager.createSession('alice', '10.0.0.1', commandIds, 'conn-1', { commands });
+    await manager.approveExecution(session.sessionId, undefined, { userId: 'alice' });
+    return session.sessionId;
+}
+
+describe('Deployment executor', () => {
+    it('should run approved commands in order and complete the session', async () => {
+        const manager = new CommandExecutionManager();
+        const sessionId = await confirmedSession(manager, ['cmd_002', 'cmd_001']);
+        const runner = fakeRunner();
+
+        const summary = await runDeploymentSession(manager, sessionId, runner, { timeout: 5000 });
+
+        expect(summary).toMatchObject({ success: true, rolledBack: [] });
+        expect(runner.exec.mock.calls).toEqual([
+            [commands[1].command, 5000],
+            [commands[0].command, 5000],
+        ]);
+        expect(await manager.getSession(sessionId)).toMatchObject({
+            status: 'completed',
+            results: [{ commandId: 'cmd_002', success: true }, { commandId: 'cmd_001', success: true }],
+        });
+    });
+
+    it('should stop on the first failure and roll back completed commands in reverse', async () => {
+        const manager = new CommandExecutionManager();
+        const sessionId = await confirmedSession(manager, ['cmd_001', 'cmd_002', 'cmd_003', 'cmd_004']);
+        const runner = fakeRunner([commands[3].command]);
+        const events: ExecutionProgressEvent[] = [];
+
+        const summary = await runDeploymentSession(manager, sessionId, runner, { onProgress: (e) => events.push(e) });
+
+        expect(summary?.success).toBe(false);
+        expect(summary?.error).toContain('cmd_004 failed');
+        expect(summary?.rolledBack).toEqual(['cmd_003', 'cmd_001']);
+        expect(runner.exec.mock.calls.map(([command]) => command)).toEqual([
+            commands[0].command,
+            commands[1].command,
+            commands[2].command,
+            commands[3].command,
+            '/ip dhcp-server remove [find name=dhcp1]',
+            '/ip pool remove [find name=lan]',
+        ]);
+
+        expect(events.map((e) => e.type)).toEqual([
+            'started',
+            'command_started', 'command_completed',
+            'command_started', 'command_completed',
+            'command_started', 'command_completed',
+            'command_started', 'command_completed',
+            'rollback_started', 'rollback_completed', 'rollback_completed',
+            'completed',
+        ]);
+
+        const stored = await manager.getSession(sessionId);
+        expect(stored?.status).toBe('failed');
+        expect(stored?.results?.map((r) => r.commandId)).toEqual([
+            'cmd_001', 'cmd_002', 'cmd_003', 'cmd_004', 'cmd_003:rollback', 'cmd_001:rollback',
+        ]);
+    });
+
+    it('should treat runner errors and timeouts as failures', async () => {
+        const manager = new CommandExecutionManager();
+        const sessionId = await confirmedSession(manager, ['cmd_001', 'cmd_002']);
+        const runner = {
+            exec: vi.fn()
+                .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 })
+                .mockRejectedValueOnce(new Error('Command timeout after 100ms'))
+                .mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 }),
+        };
+
+        const summary = await runDeploymentSession(manager, sessionId, runner, { timeout: 100 });
+
+        expect(summary?.results[1]).toMatchObject({ commandId: 'cmd_002', success: false, exitCode: -1, stderr: 'Command timeout after 100ms' });
+        expect(summary?.rolledBack).toEqual(['cmd_001']);
+    });
+
+    it('should only execute confirmed sessions', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_001'], 'conn-1', { commands });
+        const runner = fakeRunner();
+
+        expect(await runDeploymentSession(manager, session.sessionId, runner)).toBeUndefined();
+        expect(runner.exec).not.toHaveBeenCalled();
+        expect((await manager.getSession(session.sessionId))?.status).toBe('pending');
+    });
+
+    it('should run a session once when two executions start at the same time', async () => {
+        const manager = new CommandExecutionManager();
+        const sessionId = await confirmedSession(manager, ['cmd_001', 'cmd_002']);
+        const runner = fakeRunner();
+
+        const summaries = await Promise.all([
+            runDeploymentSession(manager, sessionId, runner),
+            runDeploymentSession(manager, sessionId, runner),
+        ]);
+
+        expect(summaries.filter(Boolean)).toHaveLength(1);
+        expect(runner.exec).toHaveBeenCalledTimes(2);
+        expect((await manager.getSession(sessionId))?.status).toBe('completed');
+    });
+});
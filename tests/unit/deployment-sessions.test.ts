@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+    ready: false,
+    query: vi.fn(),
+}));
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => dbState.ready,
+        query: dbState.query,
+    },
+}));
+
+const { CommandExecutionManager } = await import('../../src/services/chat/commandExecution.js');
+const { deploymentSessionStore } = await import('../../src/db/deployment-sessions.js');
+
+describe('Deployment session persistence', () => {
+    beforeEach(() => {
+        dbState.ready = false;
+        dbState.query.mockReset();
+    });
+
+    it('should keep approvals and results with the session', async () => {
+        const manager = new CommandExecutionManager();
+        const session = await manager.createSession('alice', '10.0.0.1', ['cmd_001', 'cmd_002'], 'conn-1', {
+            taskType: 'dhcp',
+            commands: [{ id: 'cmd_001', command: '/ip pool add name=lan', description: 'Pool', riskLevel: 'low' }],
+        });
+
+        await manager.approveExecution(session.sessionId, ['cmd_001'], { userId: 'bob' });
+        await manager.recordResult(session.sessionId, 'cmd_001', { success: false, stderr: 'failure', exitCode: 1, duration: 40 });
+        await manager.completeSession(session.sessionId, false, 'cmd_001 failed');
+
+        // A new manager (e.g. after a restart) sees the same session
+        const stored = await new CommandExecutionManager().getSession(session.sessionId);
+        expect(stored).toMatchObject({
+            userId: 'alice',
+            targetDevice: '10.0.0.1',
+            connectionId: 'conn-1',
+            taskType: 'dhcp',
+            status: 'failed',
+            commandIds: ['cmd_001'],
+            errorMessage: 'cmd_001 failed',
+            approvals: [{ approved: true, commandIds: ['cmd_001'], decidedBy: 'bob' }],
+            results: [{ commandId: 'cmd_001', success: false, stderr: 'failure', exitCode: 1 }],
+        });
+        expect(stored?.endTime).toBeDefined();
+
+        expect(await manager.recordResult('exec_missing', 'cmd_001', { success: true, exitCode: 0, duration: 1 })).toBe(false);
+    });
+
+    it('should list sessions and command history by filter', async () => {
+        const manager = new CommandExecutionManager();
+        const a = await manager.createSession('carol', '10.9.0.1', ['cmd_001']);
+        const b = await manager.createSession('carol', '10.9.0.2', ['cmd_001']);
+        await manager.rejectExecution(b.sessionId, 'carol', 'Wrong device');
+        await manager.recordResult(a.sessionId, 'cmd_001', { success: true, stdout: 'ok', exitCode: 0, duration: 10 });
+
+        const sessions = await deploymentSessionStore.list({ userId: 'carol' });
+        expect(sessions.map((s) => s.sessionId).sort()).toEqual([a.sessionId, b.sessionId].sort());
+        expect(await deploymentSessionStore.list({ userId: 'carol', status: 'cancelled' })).toMatchObject([
+            { sessionId: b.sessionId, errorMessage: 'Wrong device' },
+        ]);
+
+        expect(await deploymentSessionStore.listResults({ targetDevice: '10.9.0.1', success: true })).toMatchObject([
+            { sessionId: a.sessionId, userId: 'carol', commandId: 'cmd_001', stdout: 'ok' },
+        ]);
+        expect(await deploymentSessionStore.listResults({ targetDevice: '10.9.0.2' })).toEqual([]);
+    });
+
+    it('should read sessions back from the database', async () => {
+        dbState.ready = true;
+        const startTime = new Date('2024-06-01T10:00:00Z');
+        dbState.query.mockImplementation(async (sql: string) => {
+            if (sql.includes('FROM deployment_sessions WHERE session_id')) {
+                return {
+                    rows: [{
+                        session_id: 'exec_1',
+                        user_id: 'alice',
+                        target_device: '10.0.0.1',
+                        connection_id: null,
+                        task_type: 'dns',
+                        task_description: null,
+                        status: 'confirmed',
+                        commands: [],
+                        command_ids: ['cmd_001'],
+                        error_message: null,
+                        start_time: startTime,
+                        end_time: null,
+                        approval_expires_at: null,
+                    }],
+                };
+            }
+            if (sql.includes('FROM deployment_approvals')) {
+                return {
+                    rows: [{
+                        session_id: 'exec_1', approved: true, command_ids: ['cmd_001'],
+                        decided_by: 'bob', decided_by_role: null, reason: null, decided_at: startTime,
+                    }],
+                };
+            }
+            return { rows: [] };
+        });
+
+        expect(await new CommandExecutionManager().getSession('exec_1')).toEqual({
+            sessionId: 'exec_1',
+            userId: 'alice',
+            targetDevice: '10.0.0.1',
+            connectionId: undefined,
+            taskType: 'dns',
+            taskDescription: undefined,
+            status: 'confirmed',
+            commands: [],
+            commandIds: ['cmd_001'],
+            errorMessage: undefined,
+            startTime: '2024-06-01T10:00:00.000Z',
+            endTime: undefined,
+            approvalExpiresAt: undefined,
+            approvals: [{
+                approved: true, commandIds: ['cmd_001'], decidedBy: 'bob', role: undefined, reason: undefined,
+                decidedAt: '2024-06-01T10:00:00.000Z',
+            }],
+            results: [],
+        });
+    });
+
+    it('should build list filters as query parameters', async () => {
+        dbState.ready = true;
+        dbState.query.mockResolvedValue({ rows: [] });
+
+        await deploymentSessionStore.list({ status: 'failed', targetDevice: '10.0.0.1', limit: 10 });
+
+        const [sql, params] = dbState.query.mock.calls[0];
+        expect(sql).toContain('WHERE status = $1 AND target_device = $2');
+        expect(sql).toContain('LIMIT $3 OFFSET $4');
+        expect(params).toEqual(['failed', '10.0.0.1', 10, 0]);
+    });
+
+    it('should start a confirmed session only once in the database', async () => {
+        dbState.ready = true;
+        let status = 'confirmed';
+        dbState.query.mockImplementation(async (sql: string, params: unknown[]) => {
+            if (sql.includes('UPDATE deployment_sessions')) {
+                // Emulate the conditional UPDATE: the status guard is $6
+                if (params[5] !== null && params[5] !== status) {
+                    return { rows: [], rowCount: 0 };
+                }
+                status = (params[1] as string | null) ?? status;
+                return { rows: [{ session_id: 'exec_2' }], rowCount: 1 };
+            }
+            if (sql.includes('FROM deployment_sessions WHERE session_id')) {
+                return {
+                    rows: [{
+                        session_id: 'exec_2', user_id: 'alice', target_device: '10.0.0.1', connection_id: null,
+                        task_type: null, task_description: null, status, commands: [], command_ids: ['cmd_001'],
+                        error_message: null, start_time: new Date(), end_time: null, approval_expires_at: null,
+                    }],
+                };
+            }
+            return { rows: [] };
+        });
+
+        const manager = new CommandExecutionManager();
+        const started = await Promise.all([manager.startExecution('exec_2'), manager.startExecution('exec_2')]);
+
+        expect(started.filter(Boolean)).toHaveLength(1);
+        const update = dbState.query.mock.calls.find(([sql]) => sql.includes('UPDATE deployment_sessions'));
+        expect(update?.[0]).toContain('AND ($6::text IS NULL OR status = $6)');
+        expect(update?.[1][5]).toBe('confirmed');
+    });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildChatMessages,
+    flattenMessages,
+    getPromptText,
+    normalizeFinishReason,
+    toOpenAIChatFormat,
+    toOpenAIToolParams,
+    ToolCallAccumulator,
+} from '../../src/tools/llm/client.js';
+import { toChatMessages, toToolChoice, toToolDefinitions } from '../../src/services/chat/integration.js';
+import { meetsRequirements } from '../../src/routing/router.js';
+import type { ChatMessage } from '../../src/mcp/types.js';
+
+describe('LLM request messages', () => {
+    const conversation: ChatMessage[] = [
+        { role: 'user', content: 'What is 2 + 2?' },
+        { role: 'assistant', content: '4' },
+        { role: 'user', content: 'And times 3?' },
+    ];
+
+    it('should wrap a legacy prompt as a single user turn', () => {
+        const messages = buildChatMessages({ prompt: 'Hello', systemPrompt: 'Be brief' });
+
+        expect(messages).toEqual([
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'Hello' },
+        ]);
+    });
+
+    it('should prefer structured messages over the prompt string', () => {
+        const messages = buildChatMessages({
+            prompt: 'flattened text',
+            messages: conversation,
+        });
+
+        expect(messages).toEqual(conversation);
+    });
+
+    it('should derive prompt text from messages when no prompt is given', () => {
+        expect(getPromptText({ messages: conversation })).toBe(flattenMessages(conversation));
+        expect(flattenMessages(conversation)).toBe(
+            'User: What is 2 + 2?\n\nAssistant: 4\n\nUser: And times 3?'
+        );
+        expect(getPromptText({ prompt: 'raw' })).toBe('raw');
+    });
+
+    it('should map tool results to the OpenAI format', () => {
+        const formatted = toOpenAIChatFormat([
+            { role: 'tool', content: '{"temp": 21}', toolCallId: 'call_1' },
+            { role: 'tool', content: 'orphan result' },
+        ]);
+
+        expect(formatted[0]).toEqual({ role: 'tool', content: '{"temp": 21}', tool_call_id: 'call_1' });
+        expect(formatted[1]).toEqual({ role: 'user', content: 'Tool result: orphan result' });
+    });
+
+    it('should convert OpenAI API messages to structured messages', () => {
+        const messages = toChatMessages([
+            { role: 'system', content: 'sys' },
+            { role: 'function', content: 'result', name: 'lookup' },
+            { role: 'tool', content: 'ok', tool_call_id: 'call_9' },
+        ]);
+
+        expect(messages).toEqual([
+            { role: 'system', content: 'sys' },
+            { role: 'tool', content: 'result', name: 'lookup' },
+            { role: 'tool', content: 'ok', toolCallId: 'call_9' },
+        ]);
+    });
+});
+
+describe('Tool calling', () => {
+    const weatherTool = {
+        type: 'function' as const,
+        function: {
+            name: 'get_weather',
+            description: 'Current weather for a city',
+            parameters: { type: 'object', properties: { city: { type: 'string' } } },
+        },
+    };
+
+    it('should round-trip OpenAI tools and tool_choice through LLMRequest', () => {
+        const tools = toToolDefinitions([weatherTool]);
+        const toolChoice = toToolChoice({ type: 'function', function: { name: 'get_weather' } });
+
+        expect(tools[0].name).toBe('get_weather');
+        expect(toolChoice).toEqual({ name: 'get_weather' });
+        expect(toOpenAIToolParams({ prompt: 'x', tools, toolChoice })).toEqual({
+            tools: [weatherTool],
+            tool_choice: { type: 'function', function: { name: 'get_weather' } },
+        });
+        expect(toOpenAIToolParams({ prompt: 'x' })).toEqual({});
+    });
+
+    it('should carry assistant tool calls back to the provider', () => {
+        const messages = toChatMessages([{
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Riga"}' } }],
+        }]);
+
+        expect(messages[0].toolCalls).toEqual([{ id: 'call_1', name: 'get_weather', arguments: '{"city":"Riga"}' }]);
+        expect(toOpenAIChatFormat(messages)[0]).toEqual({
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Riga"}' } }],
+        });
+    });
+
+    it('should reassemble streamed tool call fragments', () => {
+        const acc = new ToolCallAccumulator();
+        acc.add([{ index: 0, id: 'call_1', function: { name: 'get_weather', arguments: '{"ci' } }]);
+        acc.add([{ index: 0, function: { arguments: 'ty":"Riga"}' } }]);
+
+        expect(acc.result()).toEqual([{ id: 'call_1', name: 'get_weather', arguments: '{"city":"Riga"}' }]);
+        expect(new ToolCallAccumulator().result()).toBeUndefined();
+    });
+
+    it('should normalize provider finish reasons', () => {
+        expect(normalizeFinishReason('tool_use')).toBe('tool_calls');
+        expect(normalizeFinishReason('max_tokens')).toBe('length');
+        expect(normalizeFinishReason(null)).toBe('stop');
+    });
+
+    it('should only accept tool-capable models for tool requests', () => {
+        const model = { capabilities: { tools: true } };
+
+        expect(meetsRequirements(model as never, { tools: true })).toBe(true);
+        expect(meetsRequirements({ capabilities: {} } as never, { tools: true })).toBe(false);
+        expect(meetsRequirements({ capabilities: {} } as never, {})).toBe(true);
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const { pipeline, extractor, cache } = vi.hoisted(() => {
+    // Fake model: a 3-dimensional embedding derived from the text length
+    const extractor = vi.fn(async (texts: string[]) => ({
+        tolist: () => texts.map((text) => [text.length, 1, 0]),
+    }));
+    return {
+        extractor,
+        pipeline: vi.fn(async () => extractor),
+        cache: new Map<string, number[]>(),
+    };
+});
+
+vi.mock('@huggingface/transformers', () => ({
+    env: {},
+    pipeline,
+}));
+
+vi.mock('../../src/cache/redis.js', () => ({
+    redisCache: {
+        get: vi.fn(async (key: string) => cache.get(key) ?? null),
+        set: vi.fn(async (key: string, value: number[]) => {
+            cache.set(key, value);
+        }),
+    },
+}));
+
+vi.mock('../../src/config/env.js', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('../../src/config/env.js')>();
+    return {
+        env: {
+            ...actual.env,
+            EMBEDDING_PROVIDER: 'local',
+            EMBEDDING_MODEL_ID: undefined,
+            LOCAL_EMBEDDING_MODEL_PATH: './models',
+            LOCAL_EMBEDDING_ALLOW_DOWNLOAD: false,
+            LOCAL_EMBEDDING_BATCH_SIZE: 2,
+        },
+    };
+});
+
+const { EmbeddingService } = await import('../../src/services/chat/EmbeddingService.js');
+const { EmbeddedVectorStore } = await import('../../src/services/vector/index.js');
+
+describe('Local embedding provider', () => {
+    beforeEach(() => {
+        cache.clear();
+        extractor.mockClear();
+        pipeline.mockClear();
+    });
+
+    it('should embed in-process with the default local model', async () => {
+        const service = new EmbeddingService();
+
+        const result = await service.getEmbedding('  hello  ');
+
+        expect(result).toMatchObject({
+            embedding: [5, 1, 0],
+            model: 'Xenova/all-MiniLM-L6-v2',
+            provider: 'local',
+            dimension: 3,
+            cached: false,
+        });
+        expect(pipeline).toHaveBeenCalledWith('feature-extraction', 'Xenova/all-MiniLM-L6-v2', expect.objectContaining({ device: 'cpu' }));
+        expect(await service.getEmbedding('hello')).toMatchObject({ cached: true, dimension: 3 });
+        expect(extractor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should batch uncached texts and keep input order', async () => {
+        const service = new EmbeddingService();
+        await service.getEmbedding('bb');
+
+        const results = await service.getBatchEmbeddings({ texts: ['a', 'bb', 'ccc', 'dddd', 'eeeee'] });
+
+        expect(results.map((r) => r.embedding[0])).toEqual([1, 2, 3, 4, 5]);
+        expect(results.map((r) => r.cached)).toEqual([false, true, false, false, false]);
+        // 4 uncached texts in batches of LOCAL_EMBEDDING_BATCH_SIZE, after the single warm-up call
+        expect(extractor.mock.calls.map(([texts]) => texts)).toEqual([['bb'], ['a', 'ccc'], ['dddd', 'eeeee']]);
+    });
+
+    it('should not retry when the model cannot be loaded', async () => {
+        pipeline.mockRejectedValueOnce(new Error('file not found'));
+        const service = new EmbeddingService({ retryDelayMs: 0 });
+
+        await expect(service.getEmbedding('hello')).rejects.toThrow('LOCAL_EMBEDDING_ALLOW_DOWNLOAD');
+        expect(pipeline).toHaveBeenCalledTimes(1);
+
+        // The next call loads the model again
+        expect(await service.getEmbedding('hello')).toMatchObject({ dimension: 3 });
+    });
+
+    it('should never compare vectors of another dimension or model', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'vectors-'));
+        try {
+            const store = new EmbeddedVectorStore(dir);
+            await store.upsert('messages', [
+                { id: 'local', namespace: 'c', vector: [1, 0, 0], model: 'Xenova/all-MiniLM-L6-v2', metadata: {} },
+                { id: 'other-model', namespace: 'c', vector: [1, 0, 0], model: 'other-384', metadata: {} },
+                { id: 'other-dimension', namespace: 'c', vector: [1, 0], model: 'Xenova/all-MiniLM-L6-v2', metadata: {} },
+                { id: 'unknown-model', namespace: 'c', vector: [1, 0, 0], metadata: {} },
+            ]);
+
+            const matches = await store.search('messages', { vector: [1, 0, 0], topK: 10, model: 'Xenova/all-MiniLM-L6-v2' });
+
+            expect(matches.map((m) => m.id).sort()).toEqual(['local', 'unknown-model']);
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
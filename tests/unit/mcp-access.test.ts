@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import type { IncomingMessage } from 'http';
+import jwt from 'jsonwebtoken';
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => false,
+        query: vi.fn(async () => null),
+    },
+}));
+
+const routing = vi.hoisted(() => ({
+    routeRequest: vi.fn(async () => ({
+        content: 'ok',
+        modelId: 'test-model',
+        provider: 'test',
+        inputTokens: 1,
+        outputTokens: 1,
+        cost: 0,
+        routingSummary: 'layer L0',
+    })),
+}));
+
+vi.mock('../../src/routing/router.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../src/routing/router.js')>()),
+    routeRequest: routing.routeRequest,
+    detectComplexity: async () => 'low',
+}));
+
+const { env } = await import('../../src/config/env.js');
+const { initializeToolRegistry } = await import('../../src/mcp/tools/index.js');
+const { mcpToolSettingsService } = await import('../../src/mcp/settings/index.js');
+const { McpAdapter } = await import('../../src/mcp/adapter/index.js');
+const { authenticateMcpClient, listToolsForClient } = await import('../../src/mcp/adapter/access.js');
+const { authService } = await import('../../src/db/auth.js');
+type McpClient = import('../../src/mcp/adapter/access.js').McpClient;
+
+function client(role: McpClient['role']): McpClient {
+    return { userId: `${role}-id`, username: role, role, authMethod: 'api_key', transport: 'websocket' };
+}
+
+function request(headers: Record<string, string>): IncomingMessage {
+    return { headers, socket: { remoteAddress: '10.0.0.5' } } as unknown as IncomingMessage;
+}
+
+function toolNames(c: McpClient): string[] {
+    return listToolsForClient(c).tools.map((tool) => tool.name);
+}
+
+describe('MCP client access', () => {
+    beforeAll(() => {
+        initializeToolRegistry();
+    });
+
+    it('should authenticate JWTs and reject missing or invalid credentials', async () => {
+        const token = jwt.sign({ userId: 'u-1', username: 'ops', role: 'operator' }, env.ADMIN_JWT_SECRET);
+
+        expect(await authenticateMcpClient(request({ authorization: `Bearer ${token}` }), 'http')).toMatchObject({
+            userId: 'u-1',
+            username: 'ops',
+            role: 'operator',
+            authMethod: 'jwt',
+            transport: 'http',
+            ipAddress: '10.0.0.5',
+        });
+        expect(await authenticateMcpClient(request({}), 'websocket')).toBeNull();
+        expect(await authenticateMcpClient(request({ authorization: 'Bearer not-a-token' }), 'websocket')).toBeNull();
+        // API keys need the auth database
+        expect(await authenticateMcpClient(request({ 'x-api-key': 'gmcp_abc' }), 'websocket')).toBeNull();
+    });
+
+    it('should scope tools by settings and role', async () => {
+        await mcpToolSettingsService.updateToolSetting('net.nac_query', { defaultEnabledForMcpClients: false });
+        await mcpToolSettingsService.updateToolSetting('net.fw_log_search', { enabled: false });
+        await mcpToolSettingsService.updateToolSetting('net.topology_scan', { modeAllowed: ['snapshot'] });
+
+        const admin = toolNames(client('admin'));
+        const operator = toolNames(client('operator'));
+        const viewer = toolNames(client('viewer'));
+
+        expect(admin).toContain('net.nac_query');
+        expect(operator).not.toContain('net.nac_query');
+        expect([...admin, ...operator, ...viewer]).not.toContain('net.fw_log_search');
+        expect(operator).toContain('net.mikrotik_api');
+        expect(viewer).not.toContain('net.mikrotik_api');
+        expect(viewer).toContain('net.topology_scan');
+
+        const topology = listToolsForClient(client('viewer')).tools.find((tool) => tool.name === 'net.topology_scan');
+        expect(topology?.inputSchema.properties.mode.enum).toEqual(['snapshot']);
+    });
+
+    it('should charge AI tool calls to the calling user', async () => {
+        const adapter = new McpAdapter();
+
+        await adapter.callTool(client('operator'), 'ai.chat_router', { task: 'Summarize the change' });
+        await adapter.callTool(client('admin'), 'ai.code_agent', { task: 'Write a function' });
+
+        expect(routing.routeRequest).toHaveBeenCalledTimes(2);
+        expect(routing.routeRequest.mock.calls.map((call) => (call as unknown[])[1])).toEqual([
+            expect.objectContaining({ userId: 'operator-id', quota: {} }),
+            expect.objectContaining({ userId: 'admin-id', quota: {} }),
+        ]);
+    });
+
+    it('should deny calls outside the client scope and audit them under the user', async () => {
+        const logToolCall = vi.spyOn(mcpToolSettingsService, 'logToolCall');
+        const adapter = new McpAdapter();
+
+        const response = await adapter.callTool(client('viewer'), 'net.mikrotik_api', { mode: 'inspect' });
+
+        expect(response.isError).toBe(true);
+        expect(response.content[0].text).toContain('MCP_TOOL_ACCESS_DENIED');
+        expect(logToolCall).toHaveBeenCalledWith(expect.objectContaining({
+            userId: 'viewer-id',
+            toolName: 'net.mikrotik_api',
+            call: expect.objectContaining({
+                role: 'viewer',
+                authMethod: 'api_key',
+                transport: 'websocket',
+                mode: 'inspect',
+                success: false,
+            }),
+        }));
+    });
+
+    it('should not query the database when revoking a key id that is not a UUID', async () => {
+        const query = vi.fn(async () => ({ rows: [], rowCount: 1 }));
+        authService.init({ query } as unknown as Parameters<typeof authService.init>[0]);
+
+        expect(await authService.revokeApiKey('u-1', 'not-a-uuid')).toBe(false);
+        expect(query).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,356 @@
+import { describe, it, expect } from 'vitest';
+import { compilePlan } from '../../src/mikrotik/compiler.js';
+import { compileBridge } from '../../src/mikrotik/compiler/bridge.js';
+import { compileVlan } from '../../src/mikrotik/compiler/vlan.js';
+import { compileBonding } from '../../src/mikrotik/compiler/bonding.js';
+import { compileLogging } from '../../src/mikrotik/compiler/logging.js';
+import { compileSnmp } from '../../src/mikrotik/compiler/snmp.js';
+import { compileInterfaceLists } from '../../src/mikrotik/compiler/interfaceLists.js';
+import { compileBackup } from '../../src/mikrotik/compiler/backup.js';
+import { compileSystem } from '../../src/mikrotik/compiler/system.js';
+import { compileServices } from '../../src/mikrotik/compiler/services.js';
+import { compileFirewall } from '../../src/mikrotik/compiler/firewall.js';
+import { compileRouting } from '../../src/mikrotik/compiler/routing.js';
+import { compileIp } from '../../src/mikrotik/compiler/ip.js';
+import { parseMenuItems } from '../../src/mikrotik/facts/parsers.js';
+import type { DeviceFacts, MikrotikPlan, PlanStep } from '../../src/mikrotik/types.js';
+
+const facts: DeviceFacts = {
+    deviceId: 'MT-01',
+    routeros: '7.16',
+    model: 'CCR2116',
+    interfaces: [
+        { name: 'ether1', type: 'ether', disabled: false },
+        { name: 'ether2', type: 'ether', disabled: false },
+        { name: 'ether3', type: 'ether', disabled: false },
+        { name: 'ether4', type: 'ether', disabled: false },
+        { name: 'ether5', type: 'ether', disabled: false },
+        { name: 'br-lan', type: 'bridge', disabled: false },
+    ],
+    bridges: [{ name: 'br-lan', vlanFiltering: false, ports: ['ether3'] }],
+    vlans: [],
+    ipAddresses: [{ address: '203.0.113.2/24', interface: 'ether1', disabled: false }],
+    services: [],
+    routes: [],
+    snmpEnabled: false,
+    snmpContact: '',
+    snmpLocation: '',
+};
+
+describe('MikroTik compiler modules', () => {
+    it('should compile a bridge with ports, VLAN filtering last', () => {
+        expect(compileBridge(facts, { name: 'br-iot', ports: ['ether4', 'ether5'], vlanFiltering: true })).toEqual({
+            module: 'bridge',
+            title: 'Bridge br-iot',
+            commands: [
+                '/interface bridge add name=br-iot',
+                '/interface bridge port add bridge=br-iot interface=ether4',
+                '/interface bridge port add bridge=br-iot interface=ether5',
+                '/interface bridge set [find name=br-iot] vlan-filtering=yes',
+            ],
+            rollbackCommands: [
+                '/interface bridge set [find name=br-iot] vlan-filtering=no',
+                '/interface bridge port remove [find bridge=br-iot interface=ether5]',
+                '/interface bridge port remove [find bridge=br-iot interface=ether4]',
+                '/interface bridge remove [find name=br-iot]',
+            ],
+            risk: 'high',
+            noop: false,
+            changes: { add: 3, set: 1, remove: 0, unchanged: 0 },
+            warnings: [{
+                level: 'critical',
+                message: 'Enabling VLAN filtering on br-iot. Ports without a matching bridge VLAN entry lose connectivity.',
+                module: 'bridge',
+            }],
+        });
+
+        // Existing bridge: only the new port, and ports of other bridges are left alone
+        expect(compileBridge(facts, { name: 'br-lan', ports: ['ether3', 'ether4'] })).toEqual({
+            module: 'bridge',
+            title: 'Bridge br-lan',
+            commands: ['/interface bridge port add bridge=br-lan interface=ether4'],
+            rollbackCommands: ['/interface bridge port remove [find bridge=br-lan interface=ether4]'],
+            risk: 'medium',
+            noop: false,
+            changes: { add: 1, set: 0, remove: 0, unchanged: 2 },
+        });
+        expect(compileBridge(facts, { name: 'br-iot', ports: ['ether3'] }).commands)
+            .toEqual(['/interface bridge add name=br-iot']);
+    });
+
+    it('should compile VLAN interfaces with bridge VLAN entries and addresses', () => {
+        expect(compileVlan(facts, {
+            vlans: [
+                { id: 20, name: 'guest', interface: 'br-lan', tagged: ['ether2'], untagged: ['ether3'], address: '10.20.0.1/24' },
+                { id: 5000, interface: 'br-lan' },
+            ],
+        })).toEqual({
+            module: 'vlan',
+            title: 'VLANs',
+            commands: [
+                '/interface vlan add interface=br-lan vlan-id=20 name=guest',
+                '/interface bridge vlan add bridge=br-lan vlan-ids=20 tagged=br-lan,ether2 untagged=ether3',
+                '/interface bridge port set [find interface=ether3] pvid=20',
+                '/ip address add address=10.20.0.1/24 interface=guest',
+            ],
+            rollbackCommands: [
+                '/ip address remove [find interface=guest address=10.20.0.1/24]',
+                '/interface bridge port set [find interface=ether3] pvid=1',
+                '/interface bridge vlan remove [find bridge=br-lan vlan-ids=20 tagged=br-lan,ether2 untagged=ether3]',
+                '/interface vlan remove [find name=guest]',
+            ],
+            risk: 'high', // VLAN 5000 is rejected
+            noop: false,
+            changes: { add: 3, set: 1, remove: 0, unchanged: 0 },
+            warnings: [{ level: 'critical', message: 'VLAN ID 5000 is outside 1-4094. Skipping.', module: 'vlan' }],
+        });
+
+        expect(compileVlan(facts, { vlans: [{ id: 30, interface: 'br-lan' }] })).toEqual({
+            module: 'vlan',
+            title: 'VLANs',
+            commands: ['/interface vlan add interface=br-lan vlan-id=30 name=vlan30'],
+            rollbackCommands: ['/interface vlan remove [find name=vlan30]'],
+            risk: 'medium',
+            noop: false,
+            changes: { add: 1, set: 0, remove: 0, unchanged: 0 },
+        });
+    });
+
+    it('should compile bonding and flag slaves that carry traffic', () => {
+        expect(compileBonding(facts, { bonds: [{ name: 'bond-uplink', slaves: ['ether4', 'ether5'], mode: 'active-backup' }] })).toEqual({
+            module: 'bonding',
+            title: 'Bonding',
+            commands: ['/interface bonding add name=bond-uplink slaves=ether4,ether5 mode=active-backup'],
+            rollbackCommands: ['/interface bonding remove [find name=bond-uplink]'],
+            risk: 'medium',
+            noop: false,
+            changes: { add: 1, set: 0, remove: 0, unchanged: 0 },
+        });
+
+        const risky = compileBonding(facts, { bonds: [{ name: 'bond-wan', slaves: ['ether1', 'ether2'] }] });
+        expect(risky.commands).toEqual(['/interface bonding add name=bond-wan slaves=ether1,ether2 mode=802.3ad']);
+        expect(risky.risk).toBe('high');
+
+        expect(compileBonding(facts, { bonds: [{ name: 'bond-x', slaves: ['ether9', 'ether4'] }] }).commands).toEqual([]);
+    });
+
+    it('should compile logging, SNMP, interface lists and backup', () => {
+        expect(compileLogging(facts, { remoteLogging: { remote: '10.0.0.5' }, topics: ['firewall', 'error'] })).toEqual({
+            module: 'logging',
+            title: 'Logging',
+            commands: [
+                '/system logging action add name=remote-udp target=remote remote=10.0.0.5 remote-port=514',
+                '/system logging add action=remote-udp topics=firewall,error',
+            ],
+            rollbackCommands: [
+                '/system logging remove [find action=remote-udp topics=firewall,error]',
+                '/system logging action remove [find name=remote-udp target=remote remote=10.0.0.5 remote-port=514]',
+            ],
+            risk: 'low',
+            noop: false,
+            changes: { add: 2, set: 0, remove: 0, unchanged: 0 },
+        });
+
+        expect(compileSnmp(facts, { enabled: true, community: 'n0c-ro', contact: 'noc@example.com', location: 'DC1' })).toEqual({
+            module: 'snmp',
+            title: 'SNMP',
+            commands: [
+                '/snmp set enabled=yes contact=noc@example.com location=DC1',
+                '/snmp community set [find default=yes] name=n0c-ro',
+            ],
+            rollbackCommands: [
+                '/snmp community set [find default=yes] name=public',
+                '/snmp set enabled=no contact="" location=""',
+            ],
+            risk: 'low',
+            noop: false,
+            changes: { add: 0, set: 2, remove: 0, unchanged: 0 },
+        });
+
+        expect(compileInterfaceLists(facts, {
+            lists: [{ name: 'WAN', members: ['ether1', 'ether9'] }, { name: 'all', members: ['ether2'] }],
+        })).toEqual({
+            module: 'interfaceLists',
+            title: 'Interface Lists',
+            commands: [
+                '/interface list add name=WAN',
+                '/interface list member add list=WAN interface=ether1',
+            ],
+            rollbackCommands: [
+                '/interface list member remove [find list=WAN interface=ether1]',
+                '/interface list remove [find name=WAN]',
+            ],
+            risk: 'medium',
+            noop: false,
+            changes: { add: 2, set: 0, remove: 0, unchanged: 0 },
+            warnings: [
+                { level: 'warning', message: 'Interface ether9 does not exist. Skipping list member.', module: 'interfaceLists' },
+                { level: 'warning', message: 'all is a built-in interface list and cannot be changed. Skipping.', module: 'interfaceLists' },
+            ],
+        });
+
+        expect(compileBackup(facts, { snapshotName: 'pre-vlan', exportFile: 'pre-vlan-export' })).toEqual({
+            module: 'backup',
+            title: 'Configuration Backup',
+            commands: ['/system backup save name=pre-vlan', '/export file=pre-vlan-export'],
+            risk: 'low',
+        });
+    });
+
+    it('should compile every declared module in a plan', async () => {
+        const step = (module: PlanStep['module'], params: Record<string, unknown>): PlanStep => ({
+            id: `step-${module}`,
+            title: module,
+            module,
+            action: 'configure',
+            params,
+            risk: 'low',
+            precheck: [],
+        });
+        const plan: MikrotikPlan = {
+            changeId: 'chg-2',
+            createdAt: '2024-05-02T00:00:00Z',
+            target: { deviceId: 'MT-01', routeros: '7.16', model: 'CCR2116' },
+            assumptions: [],
+            steps: [
+                step('interfaceLists', { lists: [{ name: 'LAN', members: ['br-lan'] }] }),
+                step('bridge', { name: 'br-lan', ports: ['ether4'] }),
+                step('vlan', { vlans: [{ id: 20, interface: 'br-lan' }] }),
+                step('bonding', { bonds: [{ name: 'bond1', slaves: ['ether4', 'ether5'] }] }),
+                step('logging', { topics: ['critical'] }),
+                step('snmp', { enabled: false }),
+                step('backup', { snapshotName: 'b', exportFile: 'e' }),
+            ],
+            policy: {
+                noLockout: true,
+                requireSnapshot: false,
+                mgmtSubnets: [],
+                allowVlanFiltering: false,
+                allowMgmtIpChange: false,
+            },
+        };
+
+        const result = await compilePlan(plan, facts);
+
+        expect(result.warnings).toEqual([]);
+        expect(Object.keys(result.commandsByModule)).toEqual(
+            ['interfaceLists', 'bridge', 'vlan', 'bonding', 'logging', 'snmp', 'backup']);
+        expect(result.allCommands).toContain('/system logging add topics=critical action=memory');
+    });
+});
+
+describe('MikroTik diff-based compilation', () => {
+    it('should only set what differs and restore exactly the previous values', () => {
+        const current: DeviceFacts = {
+            ...facts,
+            systemIdentity: 'core-01',
+            timezone: 'UTC',
+            services: [
+                { name: 'ssh', port: 22, disabled: false },
+                { name: 'telnet', port: 23, disabled: true },
+            ],
+        };
+
+        expect(compileSystem(current, { identity: 'core-01', timezone: 'Asia/Ho_Chi_Minh' })).toEqual({
+            module: 'system',
+            title: 'System Basics',
+            commands: ['/system clock set time-zone-name=Asia/Ho_Chi_Minh'],
+            rollbackCommands: ['/system clock set time-zone-name=UTC'],
+            risk: 'low',
+            noop: false,
+            changes: { add: 0, set: 1, remove: 0, unchanged: 1 },
+        });
+
+        const services = compileServices(current, {
+            services: [{ name: 'telnet', disabled: true }, { name: 'ssh', disabled: false, port: 2222 }],
+        });
+        expect(services.commands).toEqual(['/ip service set ssh port=2222']);
+        expect(services.rollbackCommands).toEqual(['/ip service set ssh port=22']);
+    });
+
+    it('should be a no-op when the device already matches', async () => {
+        const firewall = { preset: 'basic' as const, wanInterfaces: ['ether1'], mgmtSubnets: ['10.0.0.0/24'] };
+        const first = compileFirewall(facts, firewall);
+        expect(first.commands).toHaveLength(8);
+
+        // The device after applying: every rule printed back by `print detail`
+        const printed = first.commands
+            .map((c, i) => {
+                const [, props, comment] = /add (.*) comment="(.*)"$/.exec(c)!;
+                return `${i}    ;;; ${comment}\n      ${props}`;
+            })
+            .join('\n\n');
+        const applied: DeviceFacts = {
+            ...facts,
+            routes: [{ dstAddress: '0.0.0.0/0', gateway: '203.0.113.1', distance: 1, disabled: false }],
+            menus: { '/ip firewall filter': parseMenuItems(printed) },
+        };
+
+        expect(compileFirewall(applied, firewall)).toMatchObject({ commands: [], noop: true });
+
+        const plan: MikrotikPlan = {
+            changeId: 'chg-3',
+            createdAt: '2024-05-03T00:00:00Z',
+            target: { deviceId: 'MT-01', routeros: '7.16', model: 'CCR2116' },
+            assumptions: [],
+            steps: [
+                { id: 'fw', title: 'Firewall', module: 'firewall', action: 'configure', params: { ...firewall }, risk: 'medium', precheck: [] },
+                { id: 'gw', title: 'Gateway', module: 'routing', action: 'configure', params: { defaultRoute: { gateway: '203.0.113.1', distance: 2 } }, risk: 'medium', precheck: [] },
+            ],
+            policy: { noLockout: true, requireSnapshot: false, mgmtSubnets: [], allowVlanFiltering: false, allowMgmtIpChange: false },
+        };
+
+        const result = await compilePlan(plan, applied);
+        expect(result.noopSteps).toEqual(['fw']);
+        expect(result.summary).toEqual({ add: 0, set: 1, remove: 0, unchanged: 8 });
+        expect(result.allCommands).not.toContain('# Firewall (Basic Preset)');
+        expect(result.commandsByModule.routing.rollbackCommands)
+            .toEqual(['/ip route set [find dst-address=0.0.0.0/0 gateway=203.0.113.1] distance=1']);
+    });
+
+    it('should remove extra list members and re-add them on rollback', () => {
+        const current: DeviceFacts = {
+            ...facts,
+            menus: {
+                '/interface list': parseMenuItems('0    name=WAN'),
+                '/interface list member': parseMenuItems('0    list=WAN interface=ether1\n\n1    list=WAN interface=ether2'),
+            },
+        };
+
+        expect(compileInterfaceLists(current, { lists: [{ name: 'WAN', members: ['ether1'] }] })).toMatchObject({
+            commands: ['/interface list member remove [find list=WAN interface=ether2]'],
+            rollbackCommands: ['/interface list member add list=WAN interface=ether2'],
+            changes: { add: 0, set: 0, remove: 1, unchanged: 2 },
+        });
+        expect(compileRouting(current, { staticRoutes: [] }).noop).toBe(true);
+    });
+
+    it('should fail compilation when a previous value is unknown', () => {
+        const unknown: DeviceFacts = { ...facts, snmpContact: undefined };
+
+        expect(() => compileSnmp(unknown, { enabled: false, contact: 'noc@example.com' }))
+            .toThrow('Cannot roll back /snmp set: current contact is not in the device facts');
+        // Nothing to restore when the value is not changed
+        expect(compileSnmp(unknown, { enabled: false }).noop).toBe(true);
+    });
+
+    it('should quote comments and return module warnings', async () => {
+        const ip = compileIp(facts, {
+            addresses: [{ interface: 'ether2', address: '10.0.0.1/24', comment: 'mgmt "core" [x]' }],
+        });
+        expect(ip.commands).toEqual(['/ip address add interface=ether2 address=10.0.0.1/24 comment="mgmt \\"core\\" [x]"']);
+
+        const firewall = { preset: 'basic' as const, wanInterfaces: ['ether1'], mgmtSubnets: ['10.0.0.0/24'], enableFastTrack: true };
+        expect(compileFirewall(facts, firewall).warnings).toEqual([expect.objectContaining({ level: 'warning', module: 'firewall' })]);
+
+        const result = await compilePlan({
+            changeId: 'chg-4',
+            createdAt: '2024-05-04T00:00:00Z',
+            target: { deviceId: 'MT-01', routeros: '7.16', model: 'CCR2116' },
+            assumptions: [],
+            steps: [{ id: 'fw', title: 'Firewall', module: 'firewall', action: 'configure', params: firewall, risk: 'medium', precheck: [] }],
+            policy: { noLockout: true, requireSnapshot: false, mgmtSubnets: [], allowVlanFiltering: false, allowMgmtIpChange: false },
+        }, facts);
+        expect(result.warnings).toEqual([expect.objectContaining({ module: 'firewall', step: 'fw' })]);
+    });
+});
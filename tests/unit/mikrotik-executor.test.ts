@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import ssh2 from 'ssh2';
+import { applyCompiledResult } from '../../src/mikrotik/executor.js';
+import { MikrotikSSH } from '../../src/services/mikrotik/client.js';
+import type { CompiledResult, PlanStep } from '../../src/mikrotik/types.js';
+
+/**
+ * Fake RouterOS: answers exec requests from a command -> output table and
+ * records every command it receives
+ */
+const received: string[] = [];
+let responses: Record<string, { stdout?: string; exitCode?: number }> = {};
+
+const server = new ssh2.Server(
+    { hostKeys: [ssh2.utils.generateKeyPairSync('ed25519').private] },
+    (client) => {
+        client.on('authentication', (ctx) => ctx.accept());
+        client.on('ready', () => {
+            client.on('session', (accept) => {
+                accept().on('exec', (acceptExec, _reject, info) => {
+                    const stream = acceptExec();
+                    received.push(info.command);
+                    const response = responses[info.command] ?? {};
+                    stream.write(response.stdout ?? '');
+                    stream.exit(response.exitCode ?? 0);
+                    stream.end();
+                });
+            });
+        });
+        client.on('error', () => undefined);
+    },
+);
+
+function compiled(risk: 'low' | 'high'): CompiledResult {
+    return {
+        changeId: 'chg-1',
+        commandsByModule: {
+            system: {
+                module: 'system',
+                title: 'System',
+                commands: ['/system identity set name="edge-1"'],
+                rollbackCommands: ['/system identity set name="MikroTik"'],
+                risk: 'low',
+            },
+            services: {
+                module: 'services',
+                title: 'Services',
+                commands: ['/ip service set ssh port=2222', '/ip service set winbox address=10.0.0.0/24'],
+                rollbackCommands: ['/ip service set ssh port=22'],
+                risk,
+            },
+            dns: {
+                module: 'dns',
+                title: 'DNS',
+                commands: ['/ip dns set servers=1.1.1.1'],
+                risk: 'low',
+            },
+        } as CompiledResult['commandsByModule'],
+        allCommands: [],
+        warnings: [],
+        estimatedDuration: '20s',
+    };
+}
+
+const steps = [{
+    id: 'step-002',
+    title: 'Harden services',
+    module: 'services',
+    action: 'set',
+    params: {},
+    risk: 'low',
+    precheck: [],
+    postcheck: [{ type: 'verify_service', description: 'SSH enabled', params: { service: 'ssh' } }],
+}] as PlanStep[];
+
+describe('applyCompiledResult over SSH', () => {
+    let ssh: MikrotikSSH;
+
+    beforeAll(async () => {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(async () => {
+        received.length = 0;
+        responses = {
+            '/ip service print terse where name=ssh': { stdout: ' 0   name=ssh port=2222 address=\n' },
+        };
+        ssh = new MikrotikSSH();
+        await ssh.connect({
+            host: '127.0.0.1',
+            port: (server.address() as AddressInfo).port,
+            username: 'admin',
+            password: 'secret',
+        });
+    });
+
+    afterEach(async () => {
+        await ssh.disconnect();
+    });
+
+    it('should snapshot first, then apply modules in order and verify PostChecks', async () => {
+        const result = await applyCompiledResult(compiled('low'), ssh, {
+            policy: { requireSnapshot: true },
+            steps,
+        });
+
+        expect(received[0]).toBe('/system backup save name="prechange-chg-1"');
+        expect(received[1]).toBe('/export file="prechange-export-chg-1"');
+        expect(received.slice(2)).toEqual([
+            '/system identity set name="edge-1"',
+            '/ip service set ssh port=2222',
+            '/ip service set winbox address=10.0.0.0/24',
+            '/ip service print terse where name=ssh',
+            '/ip dns set servers=1.1.1.1',
+        ]);
+        expect(result.totalSteps).toBe(4);
+        expect(result.successSteps).toBe(4);
+        expect(result.verified).toBe(true);
+        expect(result.rollbackAvailable).toBe(true);
+        expect(result.stepResults[2]).toMatchObject({ stepId: 'step-002', success: true, verified: true });
+    });
+
+    it('should roll back a failed high-risk step and stop', async () => {
+        responses['/ip service set winbox address=10.0.0.0/24'] = { stdout: 'failure: invalid address\n' };
+
+        const result = await applyCompiledResult(compiled('high'), ssh, { steps });
+
+        expect(result.failedSteps).toBe(1);
+        expect(result.stepResults).toHaveLength(2);
+        expect(result.stepResults[1]).toMatchObject({ module: 'services', success: false, rolledBack: true });
+        expect(result.stepResults[1].error).toContain('failure: invalid address');
+        expect(received).toContain('/ip service set ssh port=22');
+        expect(received).not.toContain('/ip dns set servers=1.1.1.1');
+    });
+
+    it('should fail a step on a non-zero exit or PostCheck without rolling back low-risk steps', async () => {
+        responses['/ip service print terse where name=ssh'] = { stdout: ' 0 X name=ssh port=2222\n' };
+
+        const result = await applyCompiledResult(compiled('low'), ssh, { steps });
+
+        expect(result.verified).toBe(false);
+        expect(result.stepResults[1]).toMatchObject({ success: false, verified: false });
+        expect(result.stepResults[1].error).toBe('Post-check failed: SSH enabled');
+        expect(received).not.toContain('/ip service set ssh port=22');
+
+        responses['/system identity set name="edge-1"'] = { exitCode: 1 };
+        const failed = await applyCompiledResult(compiled('low'), ssh);
+        expect(failed.stepResults).toHaveLength(1);
+        expect(failed.stepResults[0].error).toContain('exit code 1');
+    });
+
+    it('should merge every step of a module and escape PostCheck parameters', async () => {
+        const connectivity = {
+            id: 'step-003',
+            title: 'Check uplink',
+            module: 'services',
+            action: 'set',
+            params: {},
+            risk: 'high',
+            precheck: [],
+            postcheck: [{ type: 'verify_connectivity', description: 'Uplink', params: { address: '1.1.1.1 $[/system reboot]', count: 'x' } }],
+        } as PlanStep;
+
+        const result = await applyCompiledResult(compiled('low'), ssh, { steps: [...steps, connectivity] });
+
+        expect(received).toContain('/ip service print terse where name=ssh');
+        expect(received).toContain('/ping address="1.1.1.1 \\$[/system reboot]" count=3');
+        // The highest risk of the merged steps applies: the failed ping rolls back
+        expect(result.stepResults[1]).toMatchObject({ stepId: 'step-002,step-003', success: false, rolledBack: true });
+        expect(result.stepResults[1].postChecks?.map((c) => c.passed)).toEqual([true, false]);
+        expect(received).toContain('/ip service set ssh port=22');
+    });
+
+    it('should run compiled snapshot commands without a snapshot policy', async () => {
+        const result = await applyCompiledResult(
+            { ...compiled('low'), snapshotCommands: ['/system backup save name="prechange-chg-1"'] },
+            ssh,
+        );
+
+        expect(received[0]).toBe('/system backup save name="prechange-chg-1"');
+        expect(result.stepResults[0]).toMatchObject({ stepId: 'snapshot', success: true });
+    });
+
+    it('should not touch the device when the snapshot fails', async () => {
+        responses['/system backup save name="prechange-chg-1"'] = { stdout: 'failure: not enough disk space\n' };
+
+        const result = await applyCompiledResult(compiled('low'), ssh, { policy: { requireSnapshot: true } });
+
+        expect(received).toEqual(['/system backup save name="prechange-chg-1"']);
+        expect(result.stepResults).toEqual([expect.objectContaining({ stepId: 'snapshot', success: false })]);
+        expect(result.rollbackAvailable).toBe(true);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+    parseBridges,
+    parseDhcpClients,
+    parseDhcpServers,
+    parseInterfaces,
+    parseIpAddresses,
+    parsePrintDetail,
+    parsePrintProperties,
+    parseRoutes,
+    parseServices,
+    parseUsers,
+    parseVlans,
+} from '../../src/mikrotik/facts/parsers.js';
+
+/**
+ * Output captured from a CCR2116 running RouterOS 7.16
+ */
+function fixture(name: string): string {
+    return readFileSync(new URL(`../fixtures/mikrotik/${name}.txt`, import.meta.url), 'utf8');
+}
+
+describe('RouterOS print parsers', () => {
+    it('should parse interfaces with flags, comments and multi-line properties', () => {
+        const interfaces = parseInterfaces(fixture('interface-print-detail'));
+
+        expect(interfaces).toHaveLength(7);
+        expect(interfaces[0]).toEqual({ name: 'ether1', type: 'ether', disabled: false, mtu: 1500, comment: 'WAN1' });
+        expect(interfaces[2]).toMatchObject({ name: 'ether3', disabled: true });
+        expect(interfaces[4]).toEqual({ name: 'br-lan', type: 'bridge', disabled: false, mtu: undefined, comment: 'LAN Bridge' });
+        expect(interfaces.slice(5).map((i) => i.type)).toEqual(['vlan', 'pppoe']);
+    });
+
+    it('should attach bridge ports and VLANs to their interfaces', () => {
+        expect(parseBridges(fixture('bridge-print-detail'), fixture('bridge-port-print-detail'))).toEqual([
+            { name: 'br-lan', vlanFiltering: false, ports: ['ether4', 'ether5'] },
+        ]);
+        expect(parseVlans(fixture('vlan-print-detail'))).toEqual([
+            { id: 20, name: 'vlan20-guest', interface: 'br-lan' },
+        ]);
+    });
+
+    it('should parse addresses and routes, including dynamic routes without an index', () => {
+        expect(parseIpAddresses(fixture('ip-address-print-detail'))).toEqual([
+            { address: '192.168.1.1/24', interface: 'br-lan', disabled: false },
+            { address: '10.20.0.1/24', interface: 'vlan20-guest', disabled: true },
+            { address: '203.0.113.25/24', interface: 'ether1', disabled: false },
+        ]);
+
+        const routeItems = parsePrintDetail(fixture('ip-route-print-detail'));
+        expect(routeItems.map((r) => r.index)).toEqual([0, undefined, 1]);
+        expect(routeItems[0].flags).toEqual(['A', 's']);
+        expect(parseRoutes(fixture('ip-route-print-detail'))).toEqual([
+            { dstAddress: '0.0.0.0/0', gateway: '203.0.113.1', distance: 1, disabled: false },
+            { dstAddress: '192.168.1.0/24', gateway: 'br-lan', distance: 0, disabled: false },
+            { dstAddress: '10.99.0.0/16', gateway: '192.168.1.254', distance: 5, disabled: true },
+        ]);
+    });
+
+    it('should parse services, DHCP and users', () => {
+        const services = parseServices(fixture('ip-service-print-detail'));
+        expect(services.filter((s) => !s.disabled).map((s) => s.name)).toEqual(['ssh', 'winbox']);
+        expect(services.find((s) => s.name === 'winbox')).toEqual({
+            name: 'winbox', port: 8291, disabled: false, address: '192.168.1.0/24,10.10.0.0/16',
+        });
+
+        expect(parseDhcpServers(fixture('dhcp-server-print-detail'))).toEqual([
+            { name: 'dhcp-lan', interface: 'br-lan', addressPool: 'pool-lan', disabled: false },
+            { name: 'dhcp-guest', interface: 'vlan20-guest', addressPool: 'pool-guest', disabled: true },
+        ]);
+        expect(parseDhcpClients(fixture('dhcp-client-print-detail'))).toEqual([
+            { interface: 'ether2', disabled: false, addDefaultRoute: true, usePeerDns: true, usePeerNtp: true },
+        ]);
+        expect(parseUsers(fixture('user-print-detail'))).toEqual([
+            { name: 'admin', group: 'full' },
+            { name: 'noc', group: 'read' },
+        ]);
+    });
+
+    it('should parse singleton property output', () => {
+        const resources = parsePrintProperties(fixture('system-resource-print'));
+
+        expect(resources.version).toBe('7.16 (stable)');
+        expect(resources['board-name']).toBe('CCR2116-12G-4S+');
+        expect(resources['build-time']).toBe('2024-09-20 13:00:27');
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ModelCapabilities, ModelConfig, ModelLayer } from '../../src/config/models.js';
+import type { LLMRequest, RoutingContext } from '../../src/mcp/types.js';
+
+const modelsByLayer: Record<ModelLayer, ModelConfig[]> = { L0: [], L1: [], L2: [], L3: [] };
+
+vi.mock('../../src/db/model-config.js', () => ({
+    modelConfigService: {
+        getModelsByLayer: vi.fn(async (layer: ModelLayer) => modelsByLayer[layer]),
+        getModelById: vi.fn(async (id: string) =>
+            Object.values(modelsByLayer).flat().find((m) => m.id === id)),
+    },
+}));
+
+vi.mock('../../src/tools/llm/index.js', () => {
+    const respond = async (_request: LLMRequest, model: ModelConfig) => ({
+        content: 'done',
+        modelId: model.id,
+        provider: model.provider,
+        inputTokens: 1,
+        outputTokens: 1,
+        cost: 0,
+    });
+    return { callLLM: vi.fn(respond), callLLMStream: vi.fn(respond) };
+});
+
+const { routeRequest, selectModelFromLayer } = await import('../../src/routing/router.js');
+
+function model(
+    id: string,
+    layer: ModelLayer,
+    contextWindow: number,
+    capabilities: Partial<ModelCapabilities> = {},
+): ModelConfig {
+    return {
+        id,
+        provider: 'openrouter',
+        apiModelName: id,
+        layer,
+        relativeCost: 0,
+        capabilities: { code: true, general: true, reasoning: true, ...capabilities },
+        contextWindow,
+        enabled: true,
+        priority: 0,
+    };
+}
+
+const context: RoutingContext = {
+    taskType: 'code',
+    complexity: 'medium',
+    quality: 'normal',
+    preferredLayer: 'L0',
+};
+
+describe('Capability-aware model selection', () => {
+    beforeEach(() => {
+        modelsByLayer.L0 = [
+            model('chat-small', 'L0', 8000, { code: false }),
+            model('coder-small', 'L0', 8000),
+        ];
+        modelsByLayer.L1 = [model('coder-large', 'L1', 128000)];
+        modelsByLayer.L2 = [];
+        modelsByLayer.L3 = [];
+    });
+
+    it('should skip models without the capability the task needs', async () => {
+        const result = await routeRequest({ prompt: 'Fix the bug' }, context);
+
+        expect(result.modelId).toBe('coder-small');
+        expect(result.routingSummary).toContain('skipped: chat-small (no code capability)');
+    });
+
+    it('should move up a layer when the prompt does not fit the context window', async () => {
+        const result = await routeRequest({ prompt: 'x'.repeat(40000), maxTokens: 4000 }, context);
+
+        expect(result.modelId).toBe('coder-large');
+        expect(result.routingSummary).toContain('layer L1');
+        expect(result.routingSummary).toContain('coder-small (context window 8000 < 14000 tokens needed)');
+    });
+
+    it('should fall back to a model without the capability when no layer has one', async () => {
+        modelsByLayer.L0 = [model('chat-small', 'L0', 8000, { reasoning: false })];
+        modelsByLayer.L1 = [];
+
+        const { model: selected, skipped } = await selectModelFromLayer('L0', 'reasoning');
+
+        expect(selected?.id).toBe('chat-small');
+        expect(skipped).toEqual([]);
+    });
+
+    it('should explain why no model could serve the request', async () => {
+        await expect(routeRequest({ prompt: 'x'.repeat(600000) }, context))
+            .rejects.toThrow(/No model available for layer L0; skipped: chat-small \(context window 8000/);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => false,
+        query: vi.fn(async () => null),
+    },
+}));
+
+const { QuotaEnforcer, QuotaExceededError } = await import('../../src/quota/enforcer.js');
+
+describe('QuotaEnforcer', () => {
+    it('should not let concurrent reservations overshoot a limit', async () => {
+        const enforcer = new QuotaEnforcer();
+        await enforcer.setLimits('project', 'p1', { maxTokensDaily: 1000, maxCostDaily: null });
+
+        const results = await Promise.allSettled(
+            Array.from({ length: 5 }, () => enforcer.reserve({ projectId: 'p1', userId: 'u1' }, { tokens: 300, cost: 0 }))
+        );
+
+        expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(3);
+        const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        expect(rejected).toHaveLength(2);
+        expect(rejected[0].reason).toBeInstanceOf(QuotaExceededError);
+
+        const [project] = await enforcer.getStatus({ projectId: 'p1', userId: 'u1' });
+        expect(project).toMatchObject({ scope: 'project', reservedTokens: 900, usedTokens: 0 });
+    });
+
+    it('should replace the estimate with actual usage on commit and free it on release', async () => {
+        const enforcer = new QuotaEnforcer();
+        const subject = { projectId: 'p2', userId: 'u2' };
+
+        const committed = await enforcer.reserve(subject, { tokens: 500, cost: 0.05 });
+        const failed = await enforcer.reserve(subject, { tokens: 400, cost: 0.04 });
+        await committed.commit({ tokens: 120, cost: 0.01 });
+        await committed.commit({ tokens: 999, cost: 1 });
+        await failed.release();
+
+        const quotas = await enforcer.getStatus(subject);
+        expect(quotas.map((q) => q.scope)).toEqual(['project', 'user']);
+        for (const quota of quotas) {
+            expect(quota).toMatchObject({ usedTokens: 120, usedCost: 0.01, reservedTokens: 0, reservedCost: 0 });
+        }
+    });
+
+    it('should report the exceeded scope with an OpenAI-style error', async () => {
+        const enforcer = new QuotaEnforcer();
+        await enforcer.setLimits('user', 'u3', { maxTokensDaily: null, maxCostDaily: 0.1 });
+
+        const error = await enforcer.reserve({ userId: 'u3' }, { tokens: 10, cost: 0.5 }).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        const quotaError = error as InstanceType<typeof QuotaExceededError>;
+        expect(quotaError.details).toMatchObject({
+            type: 'insufficient_quota',
+            code: 'quota_exceeded',
+            scope: 'user',
+            scopeId: 'u3',
+            limit: 'cost',
+            requested: { tokens: 10, cost: 0.5 },
+            remaining: { tokens: null, cost: 0.1 },
+        });
+        expect(quotaError.retryAfterSeconds).toBeGreaterThan(0);
+        expect(quotaError.retryAfterSeconds).toBeLessThanOrEqual(86400);
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ModelConfig, ModelLayer } from '../../src/config/models.js';
+import type { RoutingContext } from '../../src/mcp/types.js';
+import type { RoutingPolicy } from '../../src/routing/policy.js';
+
+function model(id: string, layer: ModelLayer, pricePer1kInputTokens: number, pricePer1kOutputTokens: number): ModelConfig {
+    return {
+        id,
+        provider: 'openrouter',
+        apiModelName: id,
+        layer,
+        relativeCost: pricePer1kInputTokens,
+        pricePer1kInputTokens,
+        pricePer1kOutputTokens,
+        capabilities: { code: true, general: true, reasoning: true },
+        contextWindow: 128000,
+        enabled: true,
+        priority: 0,
+    };
+}
+
+const modelsByLayer: Record<ModelLayer, ModelConfig[]> = {
+    L0: [model('free-model', 'L0', 0, 0)],
+    L1: [model('cheap-model', 'L1', 0.001, 0.002)],
+    L2: [model('premium-model', 'L2', 0.01, 0.03)],
+    L3: [],
+};
+
+vi.mock('../../src/db/model-config.js', () => ({
+    modelConfigService: {
+        getModelsByLayer: vi.fn(async (layer: ModelLayer) => modelsByLayer[layer]),
+        getModelById: vi.fn(async (id: string) =>
+            Object.values(modelsByLayer).flat().find((m) => m.id === id)),
+    },
+}));
+
+const { RouteSimulator, parseHistoryJsonl } = await import('../../src/routing/simulator.js');
+const { PolicyMatcher } = await import('../../src/routing/policy.js');
+
+const context: RoutingContext = {
+    taskType: 'code',
+    complexity: 'medium',
+    quality: 'normal',
+    preferredLayer: 'L1',
+};
+
+const billingPolicy: RoutingPolicy = {
+    id: 'billing',
+    name: 'Billing code',
+    description: '',
+    priority: 100,
+    enabled: true,
+    rules: [{ condition: { filePattern: 'billing' }, action: { type: 'route-to', targetLayer: 'L2' }, risk: 'high' }],
+};
+
+describe('RouteSimulator', () => {
+    it('should price the model routing would pick', async () => {
+        const simulator = new RouteSimulator(new PolicyMatcher([]));
+
+        const result = await simulator.simulate({
+            request: { prompt: 'a'.repeat(4000) },
+            context,
+            outputTokens: 500,
+        });
+
+        expect(result.modelId).toBe('cheap-model');
+        expect(result.selectedLayer).toBe('L1');
+        expect(result.inputTokens).toBeGreaterThan(0);
+        expect(result.estimatedCost).toBeCloseTo((result.inputTokens / 1000) * 0.001 + 0.5 * 0.002, 8);
+    });
+
+    it('should apply route-to policies before pricing', async () => {
+        const simulator = new RouteSimulator(new PolicyMatcher([billingPolicy]));
+
+        const result = await simulator.simulate({
+            request: { prompt: 'Fix rounding', maxTokens: 1000 },
+            context: { ...context, filePath: 'src/billing/invoice.ts' },
+        });
+
+        expect(result.modelId).toBe('premium-model');
+        expect(result.matchedPolicies).toEqual(['Billing code']);
+        expect(result.outputTokens).toBe(1000);
+        expect(result.estimatedCost).toBeGreaterThan(0.03);
+    });
+
+    it('should project nothing for denied requests', async () => {
+        const simulator = new RouteSimulator(new PolicyMatcher([{
+            ...billingPolicy,
+            rules: [{ condition: { filePattern: 'billing' }, action: { type: 'deny' }, risk: 'critical' }],
+        }]));
+
+        const result = await simulator.simulate({
+            request: { prompt: 'Fix rounding' },
+            context: { ...context, filePath: 'billing.ts' },
+        });
+
+        expect(result.denied).toBe(true);
+        expect(result.modelId).toBeUndefined();
+        expect(result.estimatedCost).toBe(0);
+    });
+
+    it('should compare replayed history with actual spend per model', async () => {
+        const history = parseHistoryJsonl([
+            JSON.stringify({ id: 'a', prompt: 'Fix rounding', context: { ...context, filePath: 'billing.ts' }, outputTokens: 100, actual: { modelId: 'cheap-model', cost: 0.001 } }),
+            'not json',
+            JSON.stringify({ id: 'b', request: { prompt: 'Rename variable' }, context, outputTokens: 100, actual: { modelId: 'cheap-model', cost: 0.001 } }),
+            JSON.stringify({ id: 'c', context }),
+        ].join('\n'));
+        expect(history.map((h) => h.id)).toEqual(['a', 'b']);
+
+        const report = await new RouteSimulator(new PolicyMatcher([billingPolicy])).replay(history);
+
+        expect(report.requests).toBe(2);
+        expect(report.actualCost).toBeCloseTo(0.002, 8);
+        expect(report.actualByModel['cheap-model']).toEqual({ calls: 2, cost: 0.002 });
+        expect(report.byModel['premium-model'].calls).toBe(1);
+        expect(report.byModel['cheap-model'].calls).toBe(1);
+        expect(report.projectedCost).toBeCloseTo(
+            report.byModel['premium-model'].cost + report.byModel['cheap-model'].cost, 10);
+    });
+});
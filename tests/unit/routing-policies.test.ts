@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ModelConfig, ModelLayer } from '../../src/config/models.js';
+import type { LLMRequest, RoutingContext } from '../../src/mcp/types.js';
+import type { RoutingPolicy } from '../../src/routing/policy.js';
+
+function model(id: string, layer: ModelLayer): ModelConfig {
+    return {
+        id,
+        provider: 'openrouter',
+        apiModelName: id,
+        layer,
+        relativeCost: 0,
+        capabilities: { code: true, general: true, reasoning: true },
+        contextWindow: 128000,
+        enabled: true,
+        priority: 0,
+    };
+}
+
+const modelsByLayer: Record<ModelLayer, ModelConfig[]> = {
+    L0: [model('free-model', 'L0')],
+    L1: [model('cheap-model', 'L1')],
+    L2: [model('premium-model', 'L2')],
+    L3: [],
+};
+
+vi.mock('../../src/db/model-config.js', () => ({
+    modelConfigService: {
+        getModelsByLayer: vi.fn(async (layer: ModelLayer) => modelsByLayer[layer]),
+        getModelById: vi.fn(async (id: string) =>
+            Object.values(modelsByLayer).flat().find((m) => m.id === id)),
+    },
+}));
+
+vi.mock('../../src/tools/llm/index.js', () => {
+    const respond = async (_request: LLMRequest, m: ModelConfig) => ({
+        content: 'ok',
+        modelId: m.id,
+        provider: m.provider,
+        inputTokens: 1,
+        outputTokens: 1,
+        cost: 0,
+    });
+    return { callLLM: vi.fn(respond), callLLMStream: vi.fn(respond) };
+});
+
+const { routeRequest } = await import('../../src/routing/router.js');
+const { routingPolicyService, routingApprovalQueue } = await import('../../src/db/routing-policies.js');
+const { PolicyMatcher, DEFAULT_POLICIES, PolicyDeniedError, PolicyApprovalRequiredError } =
+    await import('../../src/routing/policy.js');
+
+const context: RoutingContext = {
+    taskType: 'code',
+    complexity: 'medium',
+    quality: 'normal',
+};
+
+function policy(id: string, action: RoutingPolicy['rules'][number]['action']): RoutingPolicy {
+    return {
+        id,
+        name: `Policy ${id}`,
+        description: '',
+        priority: 1000,
+        enabled: true,
+        rules: [{ condition: { filePattern: `${id}\\.ts$` }, action, risk: 'high' }],
+    };
+}
+
+describe('Routing policies in live routing', () => {
+    beforeEach(async () => {
+        for (const p of await routingPolicyService.getPolicies()) {
+            if (!DEFAULT_POLICIES.some((d) => d.id === p.id)) {
+                await routingPolicyService.deletePolicy(p.id);
+            }
+        }
+    });
+
+    it('should reject requests denied by a policy', async () => {
+        await routingPolicyService.savePolicy(policy('secrets', { type: 'deny' }));
+
+        const error = await routeRequest({ prompt: 'x' }, { ...context, filePath: 'src/secrets.ts' })
+            .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(PolicyDeniedError);
+        expect((error as InstanceType<typeof PolicyDeniedError>).policy.name).toBe('Policy secrets');
+    });
+
+    it('should start at the policy layer instead of the preferred layer', async () => {
+        await routingPolicyService.savePolicy(policy('billing', { type: 'route-to', targetLayer: 'L2' }));
+
+        const result = await routeRequest(
+            { prompt: 'x' },
+            { ...context, preferredLayer: 'L0', filePath: 'src/billing.ts' },
+        );
+
+        expect(result.modelId).toBe('premium-model');
+    });
+
+    it('should park requests that need approval and replay them once approved', async () => {
+        await routingPolicyService.savePolicy(policy('payments', { type: 'allow', requireApproval: true }));
+        const gated = { ...context, filePath: 'src/payments.ts' };
+
+        const error = await routeRequest({ prompt: 'refund' }, gated).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(PolicyApprovalRequiredError);
+
+        const approvalId = (error as InstanceType<typeof PolicyApprovalRequiredError>).approvalId;
+        const parked = await routingApprovalQueue.get(approvalId);
+        expect(parked?.status).toBe('pending');
+        expect(parked?.request.prompt).toBe('refund');
+
+        const result = await routeRequest({ prompt: 'refund' }, { ...gated, approvalId });
+        expect(result.content).toBe('ok');
+    });
+
+    it('should leave requests without matching attributes alone', async () => {
+        const result = await routeRequest({ prompt: 'x' }, { ...context, preferredLayer: 'L1' });
+
+        expect(result.modelId).toBe('cheap-model');
+    });
+});
+
+describe('PolicyMatcher', () => {
+    it('should not match conditions on attributes the request does not carry', () => {
+        const matcher = new PolicyMatcher(DEFAULT_POLICIES);
+
+        expect(matcher.match({ taskType: 'code', complexity: 'medium' }).action).toBeNull();
+        expect(matcher.match({ taskType: 'code', filePath: 'src/auth/login.ts' }).action?.targetLayer).toBe('L2');
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { LLMResponse } from '../../src/mcp/types.js';
+import type { EmbeddingService } from '../../src/services/chat/EmbeddingService.js';
+
+const store = new Map<string, unknown>();
+
+function matches(pattern: string, key: string): boolean {
+    const regex = new RegExp(`^${pattern.split('*').map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return regex.test(key);
+}
+
+vi.mock('../../src/cache/redis.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../src/cache/redis.js')>()),
+    redisCache: {
+        keys: vi.fn(async (pattern: string) => [...store.keys()].filter((k) => matches(pattern, k))),
+        mget: vi.fn(async (keys: string[]) => keys.map((k) => store.get(k) ?? null)),
+        set: vi.fn(async (key: string, value: unknown) => {
+            store.set(key, JSON.parse(JSON.stringify(value)));
+            return true;
+        }),
+        del: vi.fn(async (key: string) => store.delete(key)),
+        ttl: vi.fn(async () => 60),
+        deleteByPattern: vi.fn(async (pattern: string) => {
+            const keys = [...store.keys()].filter((k) => matches(pattern, k));
+            keys.forEach((k) => store.delete(k));
+            return keys.length;
+        }),
+    },
+}));
+
+const { SemanticCache, getSemanticCacheScope } = await import('../../src/cache/semantic.js');
+
+/**
+ * Bag-of-words embedding: prompts sharing most words are close
+ */
+const embeddings = {
+    getEmbedding: vi.fn(async (text: string) => {
+        const vector = new Array(256).fill(0);
+        for (const word of text.split(/[^a-z]+/).filter(Boolean)) {
+            let hash = 0;
+            for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) % 256;
+            vector[hash] += 1;
+        }
+        return { embedding: vector, model: 'test', provider: 'local', cached: false };
+    }),
+} as unknown as EmbeddingService;
+
+const response: LLMResponse = {
+    content: 'Paris',
+    modelId: 'premium-model',
+    provider: 'openrouter',
+    inputTokens: 12,
+    outputTokens: 3,
+    cost: 0.004,
+    routingSummary: 'Single model: premium-model (layer L2)',
+};
+
+const scope = getSemanticCacheScope('atlas', 'L2');
+
+describe('SemanticCache', () => {
+    let cache: InstanceType<typeof SemanticCache>;
+
+    beforeEach(() => {
+        store.clear();
+        cache = new SemanticCache({ enabled: true, threshold: 0.9, ttlSeconds: 60, maxEntries: 2 }, embeddings);
+    });
+
+    it('should serve a rephrased prompt from the cache', async () => {
+        const miss = await cache.lookup({ prompt: 'What is the capital of France?' }, scope);
+        expect(miss?.hit).toBeUndefined();
+        await cache.store(miss!, response);
+
+        const lookup = await cache.lookup({ prompt: 'what is the capital of   France, please' }, scope);
+
+        expect(lookup?.hit?.content).toBe('Paris');
+        expect(lookup?.hit?.cost).toBe(0);
+        expect(lookup?.hit?.semanticCache).toMatchObject({ hit: true, costSaved: 0.004 });
+        expect(lookup?.hit?.semanticCache?.similarity).toBeGreaterThan(0.9);
+    });
+
+    it('should not share entries across scopes or unrelated prompts', async () => {
+        await cache.store((await cache.lookup({ prompt: 'What is the capital of France?' }, scope))!, response);
+
+        const otherProject = await cache.lookup(
+            { prompt: 'What is the capital of France?' },
+            getSemanticCacheScope('orion', 'L2'),
+        );
+        const unrelated = await cache.lookup({ prompt: 'Write a sorting function in Rust' }, scope);
+
+        expect(otherProject?.hit).toBeUndefined();
+        expect(unrelated?.hit).toBeUndefined();
+    });
+
+    it('should skip tool calls and be a no-op when disabled', async () => {
+        expect(await cache.lookup({
+            prompt: 'Weather?',
+            tools: [{ name: 'get_weather', parameters: {} }],
+        }, scope)).toBeUndefined();
+
+        const lookup = await cache.lookup({ prompt: 'Weather in Paris?' }, scope);
+        await cache.store(lookup!, { ...response, toolCalls: [{ id: 'c1', name: 'get_weather', arguments: '{}' }] });
+        expect(store.size).toBe(0);
+
+        const disabled = new SemanticCache({ enabled: false }, embeddings);
+        expect(await disabled.lookup({ prompt: 'What is the capital of France?' }, scope)).toBeUndefined();
+    });
+
+    it('should evict the oldest entry when the scope is full', async () => {
+        for (const prompt of ['first question about rivers', 'second question about mountains', 'third question about deserts']) {
+            await cache.store((await cache.lookup({ prompt }, scope))!, { ...response, content: prompt });
+            await new Promise((resolve) => setTimeout(resolve, 2));
+        }
+
+        const entries = await cache.list(scope);
+        expect(entries.map((e) => e.response.content)).toEqual([
+            'third question about deserts',
+            'second question about mountains',
+        ]);
+        expect(await cache.purge()).toBe(2);
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import { ChatCompletionStream } from '../../src/api/streaming.js';
+import { readLines } from '../../src/tools/llm/client.js';
+
+/**
+ * Minimal express Response stand-in that records written SSE data
+ */
+function createMockResponse() {
+    const emitter = new EventEmitter();
+    const written: string[] = [];
+    const headers: Record<string, string> = {};
+    let ended = false;
+
+    const res = Object.assign(emitter, {
+        status: () => res,
+        setHeader: (name: string, value: string) => {
+            headers[name] = value;
+        },
+        flushHeaders: () => undefined,
+        write: (chunk: string) => {
+            written.push(chunk);
+            return true;
+        },
+        end: () => {
+            ended = true;
+        },
+    });
+
+    const frames = () =>
+        written
+            .join('')
+            .split('\n\n')
+            .filter(Boolean)
+            .map((f) => f.replace(/^data: /, ''));
+
+    return { res: res as unknown as Response, headers, frames, isEnded: () => ended };
+}
+
+describe('ChatCompletionStream', () => {
+    const result = {
+        content: 'Hello world',
+        modelId: 'test-model',
+        provider: 'openai',
+        inputTokens: 10,
+        outputTokens: 2,
+        cost: 0.001,
+        routingSummary: 'Single model: test-model (layer L1)',
+    };
+
+    it('should emit role, delta, stop and usage frames followed by [DONE]', () => {
+        const { res, headers, frames, isEnded } = createMockResponse();
+        const stream = new ChatCompletionStream(res, 'auto');
+
+        stream.open();
+        stream.writeDelta('Hello');
+        stream.writeDelta(' world');
+        stream.finish(result);
+
+        expect(headers['Content-Type']).toBe('text/event-stream');
+        const out = frames();
+        expect(out[out.length - 1]).toBe('[DONE]');
+        expect(isEnded()).toBe(true);
+
+        const chunks = out.slice(0, -1).map((f) => JSON.parse(f));
+        expect(chunks[0].choices[0].delta).toEqual({ role: 'assistant' });
+        expect(chunks[1].choices[0].delta.content).toBe('Hello');
+        expect(chunks[2].choices[0].delta.content).toBe(' world');
+        expect(chunks[3].choices[0].finish_reason).toBe('stop');
+        expect(chunks.every((c) => c.object === 'chat.completion.chunk')).toBe(true);
+
+        const summary = chunks[4];
+        expect(summary.choices).toEqual([]);
+        expect(summary.usage.total_tokens).toBe(12);
+        expect(summary.cost).toBe(0.001);
+        expect(summary.routing.summary).toBe(result.routingSummary);
+    });
+
+    it('should emit tool calls before the tool_calls stop frame', () => {
+        const { res, frames } = createMockResponse();
+        const stream = new ChatCompletionStream(res, 'auto');
+
+        stream.open();
+        stream.finish({
+            ...result,
+            content: '',
+            toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: '{"city":"Riga"}' }],
+            finishReason: 'tool_calls',
+        });
+
+        const chunks = frames().slice(0, -1).map((f) => JSON.parse(f));
+        expect(chunks[1].choices[0].delta.tool_calls).toEqual([{
+            index: 0,
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Riga"}' },
+        }]);
+        expect(chunks[2].choices[0].finish_reason).toBe('tool_calls');
+    });
+
+    it('should report errors in-stream after headers are sent', () => {
+        const { res, frames } = createMockResponse();
+        const stream = new ChatCompletionStream(res, 'auto');
+
+        stream.open();
+        stream.fail(new Error('provider down'));
+
+        const out = frames();
+        expect(JSON.parse(out[1]).error.message).toBe('provider down');
+        expect(out[2]).toBe('[DONE]');
+    });
+
+    it('should stop writing once the client disconnects', () => {
+        const { res, frames } = createMockResponse();
+        const stream = new ChatCompletionStream(res, 'auto');
+
+        stream.open();
+        (res as unknown as EventEmitter).emit('close');
+        stream.writeDelta('ignored');
+        stream.finish(result);
+
+        expect(frames()).toHaveLength(1);
+    });
+});
+
+describe('readLines', () => {
+    it('should split chunked bodies into lines across chunk boundaries', async () => {
+        const encoder = new TextEncoder();
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(encoder.encode('data: {"a":1}\n\nda'));
+                controller.enqueue(encoder.encode('ta: [DONE]\r\n'));
+                controller.enqueue(encoder.encode('{"done":true}'));
+                controller.close();
+            },
+        });
+
+        const lines: string[] = [];
+        for await (const line of readLines(body)) {
+            lines.push(line);
+        }
+
+        expect(lines).toEqual(['data: {"a":1}', 'data: [DONE]', '{"done":true}']);
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initTracer, getTracer } from '../../src/tracing/tracer.js';
+import {
+    getCurrentTraceId,
+    recordRoutingDecision,
+    traceLLMCall,
+    traceToolCall,
+    withTrace,
+} from '../../src/tracing/integration.js';
+import { OtlpTraceExporter, toOtlpJson } from '../../src/tracing/otlp.js';
+import type { LLMResponse } from '../../src/mcp/types.js';
+
+initTracer(null);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function response(modelId: string, provider: string): Omit<LLMResponse, 'routingSummary'> {
+    return { content: 'ok', modelId, provider, inputTokens: 10, outputTokens: 5, cost: 0.001 };
+}
+
+describe('Request tracing', () => {
+    it('should keep concurrent requests in separate traces', async () => {
+        const handle = (name: string, delay: number) => withTrace('http', '', { path: `/v1/${name}` }, async () => {
+            const traceId = getCurrentTraceId();
+            await sleep(delay);
+            recordRoutingDecision({ layer: 'L0', reason: name, modelSelected: `${name}-model`, timestamp: Date.now() });
+            await sleep(delay);
+            await traceToolCall(`${name}.tool`, { input: 'x'.repeat(500) }, async () => 'done');
+            return traceId!;
+        });
+
+        const [first, second] = await Promise.all([handle('first', 10), handle('second', 1)]);
+        expect(first).not.toBe(second);
+        expect(getCurrentTraceId()).toBeUndefined();
+
+        for (const [traceId, name] of [[first, 'first'], [second, 'second']]) {
+            const trace = await getTracer().getTrace(traceId);
+            expect(trace?.routingDecisions.map((d) => d.reason)).toEqual([name]);
+            expect(trace?.toolCalls.map((c) => c.toolName)).toEqual([`${name}.tool`]);
+            expect(String(trace?.toolCalls[0].args.input)).toContain('(500 chars)');
+        }
+    });
+
+    it('should record failed and fallback LLM attempts and request errors', async () => {
+        let traceId: string | undefined;
+        await expect(withTrace('mcp-tool', '', { tool: 'ai.chat_router' }, async () => {
+            traceId = getCurrentTraceId();
+            await traceLLMCall({ id: 'claude-sonnet', provider: 'anthropic' }, async () => {
+                throw new Error('overloaded');
+            }).catch(() => traceLLMCall(
+                { id: 'openrouter-fallback', provider: 'openrouter' },
+                async () => response('openrouter-fallback', 'openrouter'),
+                'claude-sonnet',
+            ));
+            throw new Error('Tool failed');
+        })).rejects.toThrow('Tool failed');
+
+        const trace = await getTracer().getTrace(traceId!);
+        expect(trace?.llmCalls).toMatchObject([
+            { model: 'claude-sonnet', provider: 'anthropic', error: 'overloaded', cost: 0 },
+            { model: 'openrouter-fallback', fallbackFor: 'claude-sonnet', inputTokens: 10, cost: 0.001 },
+        ]);
+        expect(trace?.totalCost).toBe(0.001);
+        expect(trace?.errorInfo?.message).toBe('Tool failed');
+    });
+
+    it('should not record anything outside a trace', async () => {
+        expect(await traceLLMCall({ id: 'm', provider: 'p' }, async () => response('m', 'p'))).toMatchObject({ modelId: 'm' });
+        expect(() => recordRoutingDecision({ layer: 'L0', reason: '', modelSelected: '', timestamp: 0 })).not.toThrow();
+    });
+
+    it('should export traces as OTLP JSON spans', async () => {
+        const trace = {
+            id: '6f1c2a0e-8b7d-4c3e-9a5f-0123456789ab',
+            conversationId: '',
+            requestType: 'chat' as const,
+            requestPayload: { method: 'POST', path: '/v1/chat' },
+            routingDecisions: [{ layer: 'L1', reason: 'Single model', modelSelected: 'gpt-4o-mini', timestamp: 1700000000100 }],
+            llmCalls: [{
+                model: 'gpt-4o-mini', provider: 'openai', inputTokens: 12, outputTokens: 3, cost: 0.0002,
+                durationMs: 50, startTime: 1700000000100, endTime: 1700000000150, error: 'timeout',
+            }],
+            toolCalls: [],
+            totalCost: 0.0002,
+            totalDurationMs: 300,
+            statusCode: 502,
+            errorInfo: { message: 'All providers failed', code: '502' },
+            createdAt: new Date(1700000000000),
+        };
+
+        const document = toOtlpJson(trace, 'test-gateway');
+        const [resourceSpans] = document.resourceSpans;
+        expect(resourceSpans.resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'test-gateway' } }]);
+
+        const [root, llm] = resourceSpans.scopeSpans[0].spans;
+        expect(root).toMatchObject({
+            traceId: '6f1c2a0e8b7d4c3e9a5f0123456789ab',
+            name: 'POST /v1/chat',
+            startTimeUnixNano: '1700000000000000000',
+            endTimeUnixNano: '1700000000300000000',
+            status: { code: 2, message: 'All providers failed' },
+        });
+        expect(root.spanId).toMatch(/^[0-9a-f]{16}$/);
+        expect(root.attributes).toContainEqual({ key: 'http.response.status_code', value: { intValue: '502' } });
+        expect(root.events?.[0]).toMatchObject({ name: 'routing.decision', timeUnixNano: '1700000000100000000' });
+        expect(llm).toMatchObject({ parentSpanId: root.spanId, name: 'chat gpt-4o-mini', kind: 3, status: { code: 2 } });
+        expect(llm.attributes).toContainEqual({ key: 'gateway.cost', value: { doubleValue: 0.0002 } });
+
+        const dir = await mkdtemp(join(tmpdir(), 'otlp-'));
+        try {
+            const file = join(dir, 'traces', 'spans.jsonl');
+            const exporter = new OtlpTraceExporter({ file, serviceName: 'test-gateway' });
+            await exporter.export(trace);
+            await exporter.export(trace);
+            const lines = (await readFile(file, 'utf8')).trim().split('\n');
+            expect(lines).toHaveLength(2);
+            expect(JSON.parse(lines[0])).toEqual(document);
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const dbQuery = vi.hoisted(() => vi.fn());
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => true,
+        query: dbQuery,
+    },
+}));
+
+const { EmbeddedVectorStore, PgVectorStore, copyVectors } = await import('../../src/services/vector/index.js');
+const { SpanRetriever } = await import('../../src/services/chat/SpanRetriever.js');
+
+function record(id: string, namespace: string, vector: number[], turnIndex: number) {
+    return { id, namespace, vector, metadata: { turnIndex } };
+}
+
+describe('Vector stores', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'vectors-'));
+        dbQuery.mockReset();
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should search the embedded store by similarity within a namespace', async () => {
+        const store = new EmbeddedVectorStore(dir);
+        await store.upsert('messages', [
+            record('m1', 'conv-1', [1, 0, 0], 0),
+            record('m2', 'conv-1', [0.8, 0.6, 0], 1),
+            record('m3', 'conv-1', [0, 1, 0], 2),
+            record('m4', 'conv-2', [1, 0, 0], 0),
+        ]);
+
+        const matches = await store.search('messages', { vector: [1, 0, 0], topK: 5, namespace: 'conv-1', minSimilarity: 0.5 });
+        expect(matches.map((m) => m.id)).toEqual(['m1', 'm2']);
+        expect(matches[1].similarity).toBeCloseTo(0.8);
+
+        const earlier = await store.search('messages', {
+            vector: [1, 0, 0],
+            topK: 5,
+            namespace: 'conv-1',
+            where: { turnIndex: { lt: 2 } },
+        });
+        expect(earlier.map((m) => m.id)).toEqual(['m1', 'm2']);
+    });
+
+    it('should persist the embedded store to disk and reload it', async () => {
+        const store = new EmbeddedVectorStore(dir);
+        await store.upsert('agent_memories', [{ id: 'mem-1', namespace: 'conv-1', vector: [0, 1], metadata: { type: 'semantic' } }]);
+        await store.upsert('agent_memories', [{ id: 'mem-2', namespace: 'conv-2', vector: [1, 0], metadata: { type: 'episodic' } }]);
+        await store.deleteNamespace('agent_memories', 'conv-2');
+        await store.flush();
+
+        const reloaded = new EmbeddedVectorStore(dir);
+        expect(await reloaded.count('agent_memories')).toBe(1);
+        expect(await reloaded.has('agent_memories', ['mem-1', 'mem-2'])).toEqual(new Set(['mem-1']));
+        expect(await reloaded.search('agent_memories', { vector: [0, 1], topK: 1, where: { type: 'semantic' } }))
+            .toMatchObject([{ id: 'mem-1', namespace: 'conv-1', similarity: 1 }]);
+    });
+
+    it('should copy every vector between stores', async () => {
+        const source = new EmbeddedVectorStore(join(dir, 'source'));
+        const target = new EmbeddedVectorStore(join(dir, 'target'));
+        await source.upsert('messages', [
+            record('m1', 'conv-1', [1, 0], 0),
+            record('m2', 'conv-1', [0, 1], 1),
+            record('m3', 'conv-2', [1, 1], 0),
+        ]);
+
+        const results = await copyVectors(source, target, { batchSize: 2 });
+
+        expect(results).toEqual([
+            { collection: 'messages', read: 3, written: 3 },
+            { collection: 'agent_memories', read: 0, written: 0 },
+        ]);
+        expect(await new EmbeddedVectorStore(join(dir, 'target')).count('messages', 'conv-1')).toBe(2);
+    });
+
+    it('should translate pgvector searches into column filters', async () => {
+        dbQuery.mockResolvedValue({ rows: [{ id: 'm7', namespace: 'conv-1', turnIndex: 7, similarity: '0.91' }] });
+        const store = new PgVectorStore();
+
+        const matches = await store.search('messages', {
+            vector: [0.5, 0.5],
+            topK: 3,
+            namespace: 'conv-1',
+            minSimilarity: 0.3,
+            where: { turnIndex: { lt: 10 } },
+        });
+
+        expect(matches).toEqual([{ id: 'm7', namespace: 'conv-1', similarity: 0.91, metadata: { turnIndex: 7 } }]);
+        const [sql, params] = dbQuery.mock.calls[0];
+        expect(sql).toContain('FROM messages');
+        expect(sql).toContain('embedding_dimension = $3');
+        expect(sql).toContain('conversation_id = $4');
+        expect(sql).toContain('1 - (embedding <=> $1::vector) >= $5');
+        expect(sql).toContain('turn_index < $6');
+        expect(params).toEqual(['[0.5,0.5]', 3, 2, 'conv-1', 0.3, 10]);
+
+        await expect(store.search('messages', { vector: [1], topK: 1, where: { role: 'user' } }))
+            .rejects.toThrow('Unknown messages vector field: role');
+    });
+
+    it('should retrieve spans from the embedded store', async () => {
+        const store = new EmbeddedVectorStore(dir);
+        await store.upsert('messages', [
+            record('m3', 'conv-1', [0, 1], 3),
+            record('m6', 'conv-1', [1, 0], 6),
+            record('m9', 'conv-1', [1, 0], 9),
+        ]);
+        dbQuery.mockImplementation(async (_sql: string, params: [string, number, number]) => ({
+            rows: Array.from({ length: params[2] - params[1] + 1 }, (_, i) => ({
+                id: `m${params[1] + i}`,
+                role: 'user',
+                content: `message ${params[1] + i}`,
+                turnIndex: params[1] + i,
+                tokenEstimate: 10,
+            })),
+        }));
+        const retriever = new SpanRetriever(undefined, undefined, store);
+
+        const result = await retriever.retrieveSpans({
+            conversationId: 'conv-1',
+            queryEmbedding: [1, 0],
+            excludeTurnIndex: 9,
+            config: { topK: 2, radius: 1, minSimilarity: 0.5 },
+        });
+
+        expect(result.method).toBe('embedding');
+        expect(result.allMessages.map((m) => m.turnIndex)).toEqual([5, 6, 7]);
+        expect(result.allMessages.find((m) => m.isAnchor)).toMatchObject({ id: 'm6', similarity: 1 });
+    });
+});
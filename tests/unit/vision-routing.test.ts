@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ModelConfig, ModelLayer } from '../../src/config/models.js';
+import type { LLMRequest } from '../../src/mcp/types.js';
+
+const modelsByLayer: Record<ModelLayer, ModelConfig[]> = { L0: [], L1: [], L2: [], L3: [] };
+
+vi.mock('../../src/db/model-config.js', () => ({
+    modelConfigService: {
+        getModelsByLayer: vi.fn(async (layer: ModelLayer) => modelsByLayer[layer]),
+        getModelById: vi.fn(async (id: string) =>
+            Object.values(modelsByLayer).flat().find((m) => m.id === id)),
+    },
+}));
+
+vi.mock('../../src/tools/llm/index.js', () => {
+    const respond = async (_request: LLMRequest, model: ModelConfig) => ({
+        content: 'a cat',
+        modelId: model.id,
+        provider: model.provider,
+        inputTokens: 10,
+        outputTokens: 2,
+        cost: 0,
+    });
+    return { callLLM: vi.fn(respond), callLLMStream: vi.fn(respond) };
+});
+
+const { routeRequest } = await import('../../src/routing/router.js');
+const { toOpenAIChatFormat, loadImageData } = await import('../../src/tools/llm/client.js');
+const { splitContentParts, toChatMessages } = await import('../../src/services/chat/integration.js');
+
+function model(id: string, layer: ModelLayer, vision: boolean): ModelConfig {
+    return {
+        id,
+        provider: 'openrouter',
+        apiModelName: id,
+        layer,
+        relativeCost: 0,
+        capabilities: { code: true, general: true, reasoning: true, vision },
+        contextWindow: 128000,
+        enabled: true,
+        priority: 0,
+    };
+}
+
+const imageRequest: LLMRequest = {
+    messages: [{
+        role: 'user',
+        content: 'What is in this picture?',
+        images: [{ url: 'https://example.com/cat.png' }],
+    }],
+};
+
+describe('Vision routing', () => {
+    beforeEach(() => {
+        modelsByLayer.L0 = [model('text-only-free', 'L0', false)];
+        modelsByLayer.L1 = [model('text-only-cheap', 'L1', false)];
+        modelsByLayer.L2 = [model('vision-model', 'L2', true)];
+        modelsByLayer.L3 = [];
+    });
+
+    it('should escalate to the first layer with a vision-capable model', async () => {
+        const result = await routeRequest(imageRequest, {
+            taskType: 'general',
+            complexity: 'low',
+            quality: 'normal',
+            preferredLayer: 'L0',
+        });
+
+        expect(result.modelId).toBe('vision-model');
+        expect(result.routingSummary).toContain('layer L2');
+    });
+
+    it('should keep text-only requests in the requested layer', async () => {
+        const result = await routeRequest({ prompt: 'Hello' }, {
+            taskType: 'general',
+            complexity: 'low',
+            quality: 'normal',
+            preferredLayer: 'L0',
+        });
+
+        expect(result.modelId).toBe('text-only-free');
+    });
+
+    it('should not escalate past L0 when the budget is zero', async () => {
+        await expect(routeRequest(imageRequest, {
+            taskType: 'general',
+            complexity: 'low',
+            quality: 'normal',
+            budget: 0,
+        })).rejects.toThrow(/No free model/);
+    });
+
+    it('should skip a preferred model that cannot see images', async () => {
+        const result = await routeRequest(imageRequest, {
+            taskType: 'general',
+            complexity: 'low',
+            quality: 'normal',
+            preferredModel: 'text-only-cheap',
+            preferredLayer: 'L1',
+        });
+
+        expect(result.modelId).toBe('vision-model');
+    });
+});
+
+describe('Multimodal messages', () => {
+    it('should split OpenAI content parts into text and images', () => {
+        const [message] = splitContentParts([{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'Describe' },
+                { type: 'image_url', image_url: { url: 'https://example.com/a.png', detail: 'low' } },
+                { type: 'text', text: 'briefly' },
+            ],
+        }]);
+
+        expect(message.content).toBe('Describe\nbriefly');
+        expect(toChatMessages([message])[0].images).toEqual([{ url: 'https://example.com/a.png', detail: 'low' }]);
+    });
+
+    it('should send images to OpenAI-format providers as content parts', () => {
+        const [formatted] = toOpenAIChatFormat(imageRequest.messages ?? []);
+
+        expect(formatted.content).toEqual([
+            { type: 'text', text: 'What is in this picture?' },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+        ]);
+    });
+
+    it('should decode data URLs without fetching', async () => {
+        const image = await loadImageData({ url: 'data:image/png;base64,iVBORw0KGgo=' });
+
+        expect(image).toEqual({ mediaType: 'image/png', data: 'iVBORw0KGgo=' });
+    });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => false,
+        query: vi.fn(),
+    },
+}));
+
+const { WorkflowOrchestrator, WorkflowError } = await import('../../src/agents/workflowOrchestrator.js');
+const { WorkflowStore } = await import('../../src/db/workflows.js');
+const { EventBus } = await import('../../src/infrastructure/events.js');
+const { parseCron, nextCronTime, CronParseError } = await import('../../src/agents/cron.js');
+type WorkflowDefinition = import('../../src/agents/workflowOrchestrator.js').WorkflowDefinition;
+type WorkflowOrchestratorOptions = import('../../src/agents/workflowOrchestrator.js').WorkflowOrchestratorOptions;
+
+function fakeLLM(...replies: Array<string | Error>) {
+    const chat = vi.fn(async () => {
+        const reply = replies.length > 1 ? replies.shift() : replies[0];
+        if (reply instanceof Error) throw reply;
+        return { content: reply ?? '' };
+    });
+    return { chat };
+}
+
+// ask (agent) -> answer; format (transform) renders it
+const twoStepWorkflow: WorkflowDefinition = {
+    id: 'wf-answer',
+    name: 'Answer',
+    steps: [
+        { id: 'ask', name: 'Ask', type: 'agent', config: { prompt: 'Question about {{topic}}', outputVariable: 'answer' } },
+        {
+            id: 'format',
+            name: 'Format',
+            type: 'transform',
+            dependsOn: ['ask'],
+            config: { transformType: 'template', template: '{{topic}}: {{answer}}', outputVariable: 'report' },
+        },
+    ],
+};
+
+describe('Workflow engine', () => {
+    const orchestrators: InstanceType<typeof WorkflowOrchestrator>[] = [];
+
+    function createOrchestrator(llm: ReturnType<typeof fakeLLM>, options: WorkflowOrchestratorOptions) {
+        const orchestrator = new WorkflowOrchestrator(llm, { triggersEnabled: false, ...options });
+        orchestrators.push(orchestrator);
+        return orchestrator;
+    }
+
+    afterEach(() => {
+        orchestrators.splice(0).forEach((o) => o.stop());
+        vi.useRealTimers();
+    });
+
+    it('should compute the next run of cron expressions in UTC', () => {
+        expect(nextCronTime(parseCron('*/15 * * * *'), new Date('2026-01-05T10:07:30Z'))?.toISOString())
+            .toBe('2026-01-05T10:15:00.000Z');
+        // Friday evening -> Monday morning
+        expect(nextCronTime(parseCron('0 9 * * 1-5'), new Date('2026-01-09T18:00:00Z'))?.toISOString())
+            .toBe('2026-01-12T09:00:00.000Z');
+        expect(nextCronTime(parseCron('0 0 30 2 *'), new Date('2026-01-01T00:00:00Z'))).toBeNull();
+        expect(() => parseCron('61 * * * *')).toThrow(CronParseError);
+        expect(() => parseCron('* * *')).toThrow(CronParseError);
+    });
+
+    it('should checkpoint every step and resume an interrupted execution after the last completed step', async () => {
+        const store = new WorkflowStore();
+        const llm = fakeLLM('42');
+        await store.saveWorkflow(twoStepWorkflow);
+
+        // An instance crashed after completing "ask"
+        await store.createExecution({
+            id: 'exec-crashed',
+            workflowId: 'wf-answer',
+            status: 'running',
+            startedAt: Date.now(),
+            stepResults: { ask: { stepId: 'ask', status: 'completed', output: '7' } },
+            variables: { topic: 'life', answer: '7' },
+        }, 'crashed-instance');
+        await new Promise((resolve) => setTimeout(resolve, 5));
+
+        const orchestrator = createOrchestrator(llm, { store, staleAfterMs: 1 });
+        await orchestrator.start();
+
+        await vi.waitFor(async () => {
+            expect((await store.getExecution('exec-crashed'))?.status).toBe('completed');
+        });
+        const execution = await store.getExecution('exec-crashed');
+        expect(execution?.variables.report).toBe('life: 7');
+        expect(execution?.stepResults.format.status).toBe('completed');
+        expect(llm.chat).not.toHaveBeenCalled();
+    });
+
+    it('should resume a failed execution without repeating completed steps', async () => {
+        const store = new WorkflowStore();
+        const llm = fakeLLM('ok');
+        const orchestrator = createOrchestrator(llm, { store });
+        await orchestrator.registerWorkflow({
+            ...twoStepWorkflow,
+            steps: [
+                { id: 'prepare', name: 'Prepare', type: 'transform', config: { transformType: 'template', template: 'ready', outputVariable: 'state' } },
+                { ...twoStepWorkflow.steps[0], dependsOn: ['prepare'] },
+            ],
+        });
+        llm.chat.mockRejectedValueOnce(new Error('provider down'));
+
+        const failed = await orchestrator.executeWorkflow('wf-answer', { topic: 'x' });
+        expect(failed).toMatchObject({ status: 'failed', error: 'provider down' });
+
+        await orchestrator.resumeExecution(failed.id);
+        await vi.waitFor(async () => {
+            expect((await orchestrator.getExecution(failed.id))?.status).toBe('completed');
+        });
+        expect((await orchestrator.getExecution(failed.id))?.variables).toMatchObject({ state: 'ready', answer: 'ok' });
+        expect(llm.chat).toHaveBeenCalledTimes(2);
+
+        await expect(orchestrator.resumeExecution(failed.id)).rejects.toMatchObject({ code: 'CONFLICT' });
+        await expect(orchestrator.cancelExecution('missing')).rejects.toBeInstanceOf(WorkflowError);
+    });
+
+    it('should keep a cancel made while the last step is still running', async () => {
+        for (const outcome of ['completes', 'fails']) {
+            let finish!: () => void;
+            const llm = {
+                chat: vi.fn(() => new Promise<{ content: string }>((resolve, reject) => {
+                    finish = () => (outcome === 'fails' ? reject(new Error('provider down')) : resolve({ content: 'late' }));
+                })),
+            };
+            const events = new EventBus();
+            const completed = vi.fn();
+            events.subscribe('workflow.completed', completed);
+            events.subscribe('workflow.failed', completed);
+            const orchestrator = createOrchestrator(llm, { store: new WorkflowStore(), events });
+            await orchestrator.registerWorkflow({ ...twoStepWorkflow, steps: [twoStepWorkflow.steps[0]] });
+
+            const run = orchestrator.executeWorkflow('wf-answer', { topic: 'x' });
+            await vi.waitFor(() => expect(llm.chat).toHaveBeenCalled());
+            const [execution] = await orchestrator.listExecutions();
+
+            expect(await orchestrator.cancelExecution(execution.id)).toMatchObject({ status: 'cancelled' });
+            finish();
+
+            expect(await run).toMatchObject({ status: 'cancelled' });
+            expect((await orchestrator.getExecution(execution.id))?.status).toBe('cancelled');
+            expect(completed).not.toHaveBeenCalled();
+            await expect(orchestrator.cancelExecution(execution.id)).rejects.toMatchObject({ code: 'CONFLICT' });
+        }
+    });
+
+    it('should start each scheduled run once across instances', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-01-05T10:02:00Z'));
+        const store = new WorkflowStore();
+        const first = createOrchestrator(fakeLLM('ok'), { store, triggersEnabled: true });
+        const second = createOrchestrator(fakeLLM('ok'), { store, triggersEnabled: true });
+        await first.registerWorkflow({
+            ...twoStepWorkflow,
+            triggers: [{ type: 'schedule', config: { cron: '*/5 * * * *', input: { topic: 'nightly' } } }],
+        });
+        await first.start();
+        await second.start();
+
+        expect(first.listSchedules()).toEqual([
+            { workflowId: 'wf-answer', cron: '*/5 * * * *', nextRunAt: Date.parse('2026-01-05T10:05:00Z') },
+        ]);
+        expect(await first.runDueSchedules(new Date('2026-01-05T10:04:00Z'))).toBe(0);
+        expect(await first.runDueSchedules(new Date('2026-01-05T10:05:10Z'))).toBe(1);
+        expect(await second.runDueSchedules(new Date('2026-01-05T10:05:20Z'))).toBe(0);
+
+        const executions = await first.listExecutions({ workflowId: 'wf-answer' });
+        expect(executions).toHaveLength(1);
+        expect(executions[0]).toMatchObject({ trigger: { type: 'schedule', source: '*/5 * * * *' }, variables: { topic: 'nightly' } });
+        expect(first.listSchedules()[0].nextRunAt).toBe(Date.parse('2026-01-05T10:10:00Z'));
+    });
+
+    it('should run event-triggered workflows for matching events', async () => {
+        const store = new WorkflowStore();
+        const events = new EventBus();
+        const orchestrator = createOrchestrator(fakeLLM('switch to fallback'), { store, events, triggersEnabled: true });
+        await orchestrator.start();
+        await orchestrator.registerWorkflow({
+            ...twoStepWorkflow,
+            triggers: [{ type: 'event', config: { event: 'provider.unhealthy', filter: { provider: 'openai' }, input: { topic: 'outage' } } }],
+        });
+
+        events.emit('provider.unhealthy', { provider: 'anthropic' });
+        events.emit('provider.unhealthy', { provider: 'openai' });
+
+        await vi.waitFor(async () => {
+            const [execution] = await orchestrator.listExecutions();
+            expect(execution?.status).toBe('completed');
+        });
+        const executions = await orchestrator.listExecutions();
+        expect(executions).toHaveLength(1);
+        expect(executions[0]).toMatchObject({
+            trigger: { type: 'event', source: 'provider.unhealthy' },
+            variables: { provider: 'openai', event: 'provider.unhealthy', report: 'outage: switch to fallback' },
+        });
+    });
+
+    it('should run independent steps concurrently up to maxConcurrency', async () => {
+        let active = 0;
+        let maxActive = 0;
+        const llm = {
+            chat: vi.fn(async () => {
+                active++;
+                maxActive = Math.max(maxActive, active);
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                active--;
+                return { content: 'done' };
+            }),
+        };
+        const orchestrator = new WorkflowOrchestrator(llm, { store: new WorkflowStore(), triggersEnabled: false });
+        orchestrators.push(orchestrator);
+        const fetchStep = (id: string) => ({ id, name: id, type: 'agent' as const, config: { prompt: id, outputVariable: id } });
+        await orchestrator.registerWorkflow({
+            id: 'wf-fanout',
+            name: 'Fan out',
+            maxConcurrency: 2,
+            steps: [
+                fetchStep('a'),
+                fetchStep('b'),
+                fetchStep('c'),
+                {
+                    id: 'join',
+                    name: 'Join',
+                    type: 'transform',
+                    dependsOn: ['a', 'b', 'c'],
+                    config: { expression: '[steps.a.output, steps.b.output, c]', outputVariable: 'all' },
+                },
+            ],
+        });
+
+        const execution = await orchestrator.executeWorkflow('wf-fanout', {});
+        expect(execution.status).toBe('completed');
+        expect(execution.variables.all).toEqual(['done', 'done', 'done']);
+        expect(maxActive).toBe(2);
+    });
+
+    it('should skip the branch of a false condition and join with a when expression', async () => {
+        const llm = fakeLLM('paged');
+        const orchestrator = createOrchestrator(llm, { store: new WorkflowStore() });
+        await orchestrator.registerWorkflow({
+            id: 'wf-triage',
+            name: 'Triage',
+            steps: [
+                { id: 'check', name: 'Check', type: 'condition', config: { expression: "severity == 'high' && errors > 10" } },
+                { id: 'page', name: 'Page', type: 'agent', dependsOn: ['check'], config: { prompt: 'Page on-call' } },
+                { id: 'escalate', name: 'Escalate', type: 'wait', dependsOn: ['page'], config: { duration: 1 } },
+                { id: 'log', name: 'Log', type: 'transform', dependsOn: ['check'], when: '!steps.check.output', config: { expression: "'logged ' + severity" } },
+                {
+                    id: 'summary',
+                    name: 'Summary',
+                    type: 'transform',
+                    dependsOn: ['escalate', 'log'],
+                    when: 'true',
+                    config: { expression: "{ paged: steps.escalate.status == 'completed', note: steps.log.output }", outputVariable: 'summary' },
+                },
+            ],
+        });
+
+        const execution = await orchestrator.executeWorkflow('wf-triage', { severity: 'high', errors: 3 });
+        expect(execution.status).toBe('completed');
+        expect(execution.stepResults.page).toMatchObject({ status: 'skipped', error: 'Condition check was false' });
+        expect(execution.stepResults.escalate.status).toBe('skipped');
+        expect(execution.variables.summary).toEqual({ paged: false, note: 'logged high' });
+        expect(llm.chat).not.toHaveBeenCalled();
+
+        const paged = await orchestrator.executeWorkflow('wf-triage', { severity: 'high', errors: 30 });
+        expect(paged.stepResults.log).toMatchObject({ status: 'skipped', error: 'Condition not met' });
+        expect(paged.variables.summary).toEqual({ paged: true, note: null });
+    });
+
+    it('should reject invalid workflow definitions', async () => {
+        const orchestrator = createOrchestrator(fakeLLM('ok'), { store: new WorkflowStore() });
+
+        await expect(orchestrator.registerWorkflow({
+            ...twoStepWorkflow,
+            triggers: [{ type: 'schedule', config: { cron: 'every minute' } }],
+        })).rejects.toMatchObject({ code: 'INVALID' });
+        await expect(orchestrator.registerWorkflow({
+            ...twoStepWorkflow,
+            steps: [{ ...twoStepWorkflow.steps[0], dependsOn: ['format'] }, twoStepWorkflow.steps[1]],
+        })).rejects.toThrow('Circular dependency');
+        await expect(orchestrator.registerWorkflow({
+            ...twoStepWorkflow,
+            steps: [twoStepWorkflow.steps[0], { ...twoStepWorkflow.steps[1], dependsOn: ['missing'] }],
+        })).rejects.toThrow('depends on unknown step: missing');
+        await expect(orchestrator.registerWorkflow({
+            ...twoStepWorkflow,
+            steps: [twoStepWorkflow.steps[0], { ...twoStepWorkflow.steps[1], when: 'steps.ask.output ==' }],
+        })).rejects.toThrow('invalid expression');
+        // "format" could run before "ask" finishes
+        await expect(orchestrator.registerWorkflow({
+            ...twoStepWorkflow,
+            steps: [twoStepWorkflow.steps[0], { ...twoStepWorkflow.steps[1], dependsOn: [], when: 'exists(steps.ask.output)' }],
+        })).rejects.toThrow('references step ask, which it does not depend on');
+        expect(await orchestrator.listWorkflows()).toEqual([]);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('../../src/db/postgres.js', () => ({
+    db: {
+        isReady: () => false,
+        query: vi.fn(async () => null),
+    },
+}));
+
+vi.mock('../../src/agents/workflowOrchestrator.js', () => ({
+    createWorkflowOrchestrator: () => ({ start: async () => undefined }),
+}));
+
+const { createAgentRoutes } = await import('../../src/api/agents.js');
+const { eventBus } = await import('../../src/infrastructure/events.js');
+
+describe('POST /workflows/events', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        app.use('/v1/agents', createAgentRoutes());
+        server = app.listen(0, '127.0.0.1');
+        await new Promise((resolve) => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/agents`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    async function publish(body: unknown): Promise<number> {
+        const response = await fetch(`${baseUrl}/workflows/events`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        return response.status;
+    }
+
+    it('should publish custom events and reject built-in names and non-object payloads', async () => {
+        const emit = vi.spyOn(eventBus, 'emit');
+
+        expect(await publish({ event: 'deploy.finished', payload: { service: 'api' } })).toBe(202);
+        expect(await publish({ event: 'deploy.started' })).toBe(202);
+        expect(emit.mock.calls).toEqual([['deploy.finished', { service: 'api' }], ['deploy.started', {}]]);
+
+        expect(await publish({ event: 'quota.exceeded', payload: { userId: 'u-1' } })).toBe(403);
+        expect(await publish({ event: 'workflow.anything' })).toBe(403);
+        expect(await publish({ event: 'deploy.finished', payload: 'text' })).toBe(400);
+        expect(await publish({ event: 'deploy.finished', payload: [1, 2] })).toBe(400);
+        expect(await publish({ event: '' })).toBe(400);
+        expect(emit).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { compileExpression, evaluateExpression, ExpressionError } from '../../src/agents/expressions.js';
+
+const scope = {
+    variables: { severity: 'high', hosts: ['a', 'b'], threshold: 3 },
+    steps: {
+        check: { status: 'completed', output: { status: 'ok', errors: 4 } },
+        skipped: { status: 'skipped', error: 'Dependencies not met' },
+    },
+};
+
+describe('Workflow expressions', () => {
+    it('should evaluate operators, member access and built-in functions', () => {
+        expect(evaluateExpression("steps.check.output.status == 'ok' && len(hosts) > 1", scope)).toBe(true);
+        expect(evaluateExpression('steps.check.output.errors >= variables.threshold ? "page" : "log"', scope)).toBe('page');
+        expect(evaluateExpression("upper(severity) + ':' + join(hosts, '|')", scope)).toBe('HIGH:a|b');
+        expect(evaluateExpression('(1 + 2) * -3 % 4', scope)).toBe(-1);
+        expect(evaluateExpression("{ count: len(hosts), first: hosts[0], missing: steps.skipped.output.value }", scope))
+            .toEqual({ count: 2, first: 'a', missing: null });
+        expect(evaluateExpression("!contains(hosts, 'c') || undefinedName", scope)).toBe(true);
+    });
+
+    it('should collect referenced steps', () => {
+        expect(Array.from(compileExpression("steps.check.output && steps['other'].status == 'completed'").stepReferences))
+            .toEqual(['check', 'other']);
+    });
+
+    it('should reject syntax errors and anything outside the sandbox', () => {
+        expect(() => compileExpression('severity ==')).toThrow(ExpressionError);
+        expect(() => compileExpression("'unterminated")).toThrow(ExpressionError);
+        expect(() => compileExpression('severity = 1')).toThrow(ExpressionError);
+        expect(() => compileExpression('process.exit(1)')).toThrow('Only built-in functions can be called');
+        expect(() => compileExpression('require("fs")')).toThrow('Unknown function: require');
+        expect(() => evaluateExpression('hosts.constructor', scope)).toThrow('Property not allowed: constructor');
+        expect(() => evaluateExpression("hosts['__proto__']", scope)).toThrow(ExpressionError);
+        expect(evaluateExpression('hosts.map', scope)).toBeNull();
+        expect(() => evaluateExpression("severity > 1", scope)).toThrow('expects two numbers or two strings');
+    });
+});